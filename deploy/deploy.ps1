@@ -205,6 +205,7 @@ if ($deployedCommit -ne $TargetCommit) {
 Invoke-NpmCiWithFallback
 Invoke-NodeScript -ScriptPath (Join-Path $AppPath "server\migrate.js")
 Invoke-NodeScript -ScriptPath (Join-Path $AppPath "node_modules\vite\bin\vite.js") -Args @("build")
+Invoke-NodeScript -ScriptPath (Join-Path $AppPath "node_modules\vite\bin\vite.js") -Args @("build", "--config", "vite.pdf.config.ts")
 Invoke-NodeScript -ScriptPath (Join-Path $AppPath "scripts\write-build-info.mjs")
 
 $buildInfoPath = Join-Path $AppPath "dist\build-info.json"
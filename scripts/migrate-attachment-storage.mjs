@@ -0,0 +1,119 @@
+import dotenv from "dotenv";
+import { getPool, closePool } from "../server/db.js";
+import {
+  ATTACHMENT_CONTENT_TABLES,
+  ATTACHMENT_STORAGE_BACKENDS,
+  getConfiguredStorageBackend,
+  pruneAttachmentBlobs,
+  readAttachmentContent,
+  sha256Hex,
+  storeAttachmentContent,
+} from "../server/attachmentStorage.js";
+
+dotenv.config();
+
+// Moves attachment content to the configured storage backend (or --to=<backend>).
+// Dry run by default; --apply moves the rows, --prune then removes stored objects no row references any more.
+// Rows that still hold their bytes in their own data column are moved too, so database content is deduplicated.
+
+const getArg = (name) => {
+  const prefix = `${name}=`;
+  const arg = process.argv.find((item) => item.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : null;
+};
+
+const APPLY = process.argv.includes("--apply");
+const PRUNE = process.argv.includes("--prune");
+const BATCH_SIZE = Math.max(1, Number.parseInt(getArg("--batch") ?? "", 10) || 50);
+
+const main = async () => {
+  const target = String(getArg("--to") ?? getConfiguredStorageBackend()).trim().toLowerCase();
+  if (!ATTACHMENT_STORAGE_BACKENDS.includes(target)) {
+    throw new Error(`Unknown target backend "${target}" (expected ${ATTACHMENT_STORAGE_BACKENDS.join(", ")})`);
+  }
+
+  const pool = await getPool();
+  try {
+    const summary = { mode: APPLY ? "apply" : "dry-run", target, tables: {}, pruned: 0 };
+
+    for (const table of ATTACHMENT_CONTENT_TABLES) {
+      const { rows: countRows } = await pool.query(
+        `SELECT count(*)::int AS count, COALESCE(sum(byte_size), 0)::bigint AS bytes FROM ${table} WHERE storage_backend <> $1 OR data IS NOT NULL`,
+        [target]
+      );
+      const stats = {
+        pending: countRows[0].count,
+        pendingBytes: Number(countRows[0].bytes),
+        moved: 0,
+        missing: [],
+        failed: [],
+      };
+      summary.tables[table] = stats;
+      if (!APPLY) continue;
+
+      // Keyset pagination on id, so rows that cannot be moved are not picked up again.
+      let lastId = "";
+      for (;;) {
+        const { rows: batch } = await pool.query(
+          `SELECT id FROM ${table} WHERE (storage_backend <> $1 OR data IS NOT NULL) AND id > $2 ORDER BY id LIMIT $3`,
+          [target, lastId, BATCH_SIZE]
+        );
+        if (!batch.length) break;
+        lastId = batch[batch.length - 1].id;
+
+        for (const { id } of batch) {
+          try {
+            const { rows } = await pool.query(
+              `SELECT content_type, data, content_sha256, storage_backend FROM ${table} WHERE id = $1`,
+              [id]
+            );
+            const row = rows[0];
+            if (!row || (row.storage_backend === target && !row.data)) continue;
+            const buffer = await readAttachmentContent(row);
+            if (!buffer) {
+              stats.missing.push(id);
+              continue;
+            }
+            if (row.content_sha256 && sha256Hex(buffer) !== row.content_sha256) {
+              stats.failed.push({ id, error: "Stored content does not match its recorded SHA-256" });
+              continue;
+            }
+            const content = await storeAttachmentContent(pool, buffer, {
+              contentType: row.content_type,
+              backendName: target,
+            });
+            const { rowCount } = await pool.query(
+              `
+              UPDATE ${table}
+              SET data = $2, content_sha256 = $3, storage_backend = $4
+              WHERE id = $1 AND storage_backend = $5
+              `,
+              [id, content.data, content.contentSha256, content.storageBackend, row.storage_backend]
+            );
+            stats.moved += rowCount ?? 0;
+          } catch (error) {
+            stats.failed.push({ id, error: String(error?.message ?? error) });
+          }
+        }
+      }
+    }
+
+    if (APPLY && PRUNE) {
+      summary.pruned = await pruneAttachmentBlobs(pool);
+    }
+
+    console.log(JSON.stringify(summary, null, 2));
+    if (APPLY) {
+      console.log(
+        `Run VACUUM FULL on ${ATTACHMENT_CONTENT_TABLES.join(", ")} to return the freed space to the operating system.`
+      );
+    }
+  } finally {
+    await closePool();
+  }
+};
+
+main().catch((error) => {
+  console.error("migrate-attachment-storage failed:", error);
+  process.exit(1);
+});
@@ -4,6 +4,7 @@ import { execFile } from "node:child_process";
 import { createReadStream, createWriteStream } from "node:fs";
 import { promises as fs } from "node:fs";
 import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { promisify } from "node:util";
@@ -59,12 +60,157 @@ import {
 import {
   getAllowedContractApprovalStatusTransitions,
   generateStatusIntegrityReport,
-  getAllowedStatusTransitions,
   isAllowedContractApprovalStatusTransition,
-  isAllowedStatusTransition,
   isKnownContractApprovalStatus,
   isKnownRequestStatus,
 } from "./statusIntegrity.js";
+import {
+  WORKFLOW_NEXT_ACTION_ROLES,
+  WORKFLOW_REQUIRED_FIELDS,
+  WORKFLOW_ROLES,
+  WORKFLOW_TRANSITION_PERMISSIONS,
+  canUserFireTransition,
+  findMissingRequiredFields,
+  findWorkflowTransition,
+  getAllowedWorkflowTransitions,
+  getWorkflowDefinition,
+  loadWorkflowDefinition,
+  parseWorkflowDefinitionPayload,
+  resolveWorkflowNextAction,
+  resolveWorkflowNotifyRoles,
+  saveWorkflowDefinition,
+} from "./workflow.js";
+import { TRANSITION_RULES, evaluateTransitionRules } from "./transitionRules.js";
+import {
+  PERMISSIONS,
+  ROLE_PERMISSIONS,
+  hasPermission,
+  hasRole,
+  parseUserAccessPayload,
+  redactRequestChangesForUser,
+  redactRequestForUser,
+  saveUserAccess,
+  withUserAccess,
+} from "./permissions.js";
+import {
+  REQUEST_CHANGE_SECTIONS,
+  diffRequestFields,
+  listRequestFieldChanges,
+  recordRequestFieldChanges,
+} from "./requestFieldChanges.js";
+import { openRealtimeStream, publishRealtimeEvent } from "./realtime.js";
+import { listRequestPage, parseRequestDateParam, parseRequestListQuery } from "./requestList.js";
+import { buildRequestSearchTerms, searchRequests } from "./requestSearch.js";
+import {
+  DASHBOARD_VIEW_NAME_MAX_LENGTH,
+  DASHBOARD_VIEW_SHARE_ROLES,
+  DASHBOARD_VIEWS_PER_USER_LIMIT,
+  canEditDashboardView,
+  getDashboardViewRow,
+  listDashboardViews,
+  mapDashboardViewRow,
+  normalizeDashboardViewName,
+  parseDashboardViewShareRole,
+  sanitizeDashboardViewConfig,
+} from "./dashboardViews.js";
+import { getSlaConfig, parseSlaConfigPayload, saveSlaConfig } from "./sla.js";
+import { refreshRequestSlaStates } from "./slaMonitor.js";
+import {
+  applyCatalogImport,
+  deletePriceEntry,
+  listPriceEntries,
+  listReferenceProducts,
+  parseCatalogImport,
+  parsePriceEntryPayload,
+  parseReferenceProductPayload,
+  redactPriceEntryForUser,
+  savePriceEntry,
+  selectCurrentPrices,
+  todayDateKey,
+  PRICE_CURRENCIES,
+} from "./priceCatalog.js";
+import { matchRequestProducts } from "./productMatching.js";
+import { findSimilarRequests } from "./similarRequests.js";
+import {
+  canEditCostSheets,
+  filterCostSheetsForUser,
+  listCostSheets,
+  parseCostSheetPayload,
+  resolveCostingRound,
+  saveCostSheet,
+} from "./costSheets.js";
+import {
+  OFFER_REVISION_ATTACHMENT_TYPE,
+  applyOfferSnapshot,
+  buildOfferSnapshot,
+  createOfferRevision,
+  diffOfferRevisions,
+  getOfferRevision,
+  listOfferRevisions,
+  markOfferRevisionSent,
+  parseOfferSentPayload,
+} from "./clientOfferRevisions.js";
+import {
+  buildExchangeRateSnapshot,
+  buildRateTable,
+  convertRequestFinalPrice,
+  getExchangeRateConfig,
+  normalizeCurrency,
+  parseExchangeRateConfigPayload,
+  resolveRequestFinalPrice,
+  saveExchangeRateConfig,
+} from "./exchangeRates.js";
+import { parsePdfLanguage, renderClientOfferPdf, renderRequestPdf } from "./pdfDocuments.js";
+import {
+  deleteOfferClause,
+  deleteOfferTemplate,
+  findMissingOfferClauseIds,
+  listOfferClauses,
+  listOfferTemplates,
+  normalizeOfferConfigTemplateFields,
+  parseOfferClausePayload,
+  parseOfferTemplatePayload,
+  saveOfferClause,
+  saveOfferTemplate,
+} from "./offerTemplates.js";
+import { recordApprovalSignature, verifyApprovalSignatures, verifySignerPassword } from "./approvalSignatures.js";
+import {
+  claimAttachmentUploads,
+  deleteExpiredAttachmentUploads,
+  getAttachmentUpload,
+  readAttachmentUpload,
+  saveAttachmentUploads,
+} from "./attachmentUploads.js";
+import { openAttachmentContent, readAttachmentContent, storeAttachmentContent } from "./attachmentStorage.js";
+import {
+  deleteOrphanedAttachmentPreviews,
+  getAttachmentPreview,
+  getDocumentPreviewKind,
+  supportsThumbnail,
+} from "./attachmentPreviews.js";
+import {
+  canEditCustomers,
+  createCustomer,
+  findCustomerByName,
+  getCustomerById,
+  isDuplicateCustomerNameError,
+  listCustomerOwners,
+  listCustomers,
+  mergeCustomers,
+  parseCustomerPayload,
+  resolveCustomerLink,
+  updateCustomer,
+} from "./customers.js";
+import {
+  canViewAttachmentCategory,
+  findAttachmentCategory,
+  getAttachmentAccessRules,
+  keepHiddenAttachmentLists,
+  parseAttachmentAccessPayload,
+  redactAttachmentChangesForUser,
+  redactRequestAttachmentsForUser,
+  saveAttachmentAccessRules,
+} from "./attachmentAccess.js";
 
 const ADMIN_LIST_CATEGORIES = new Set([
   "applicationVehicles",
@@ -108,6 +254,49 @@ const getRequestUserAgent = (req) => {
   return typeof ua === "string" ? ua.slice(0, 512) : null;
 };
 
+// Realtime events only say "what changed"; clients re-fetch through the regular endpoints.
+const CONTRACT_REALTIME_ROLES = ["sales", "admin", "finance", "cashier"];
+
+const publishRequestChanged = (request, action) => {
+  const requestId = String(request?.id ?? "").trim();
+  if (!requestId) return;
+  publishRealtimeEvent("request.changed", {
+    requestId,
+    action,
+    status: request?.status ?? null,
+    version: request?.version ?? null,
+    updatedAt: request?.updatedAt ?? null,
+  });
+};
+
+const publishContractChanged = (contract, action) => {
+  const contractId = String(contract?.id ?? "").trim();
+  if (!contractId) return;
+  publishRealtimeEvent(
+    "contract.changed",
+    {
+      contractId,
+      action,
+      status: contract?.status ?? null,
+      version: contract?.version ?? null,
+      updatedAt: contract?.updatedAt ?? null,
+    },
+    { roles: CONTRACT_REALTIME_ROLES }
+  );
+};
+
+const publishNotificationsCreated = (userIds, notificationType) => {
+  publishRealtimeEvent("notification.created", { notificationType }, { userIds });
+};
+
+const recordRequestFieldChangesBestEffort = async (db, entry) => {
+  try {
+    await recordRequestFieldChanges(db, entry);
+  } catch (error) {
+    console.error("Failed to record request field changes:", error);
+  }
+};
+
 const writeAuditLogBestEffort = async (db, req, entry) => {
   try {
     const actor = entry?.actor ?? req?.authUser ?? null;
@@ -619,6 +808,25 @@ const getRequestOwnerOfferProfileForPdf = async (pool, requestId) => {
   };
 };
 
+// Margins and attachment categories hidden from the user are removed from the requests returned to them.
+const redactRequestForViewer = (request, user, attachmentRules) =>
+  redactRequestAttachmentsForUser(redactRequestForUser(request, user), user, attachmentRules);
+
+// Attachment reader for server-rendered PDFs, limited to the rendered request's own files.
+const createPdfAttachmentLoader = (pool, requestId) => async (attachmentId) => {
+  const { rows } = await pool.query(
+    `
+    SELECT content_type, data, content_sha256, storage_backend
+    FROM request_attachments
+    WHERE id = $1 AND request_id = $2
+    LIMIT 1
+    `,
+    [attachmentId, requestId]
+  );
+  const data = rows[0] ? await readAttachmentContent(rows[0]) : null;
+  return data ? { contentType: rows[0].content_type, data } : null;
+};
+
 const enqueueAdminDigestNotifications = async (
   pool,
   { eventType, requestId, status, previousStatus, actorName, comment, toEmails, digestDate, eventAt }
@@ -759,57 +967,62 @@ const enqueueRequestEmailByPolicy = async (
   };
 };
 
-const IN_APP_ROLES_BY_STATUS = Object.freeze({
-  submitted: ["design"],
-  under_review: ["design"],
-  clarification_needed: ["sales"],
-  feasibility_confirmed: ["costing"],
-  design_result: ["costing"],
-  in_costing: ["costing"],
-  costing_complete: ["sales"],
-  sales_followup: ["sales"],
-  gm_approval_pending: ["admin"],
-  gm_approved: ["sales"],
-  gm_rejected: ["sales"],
-  cancelled: ["sales"],
-  closed: ["sales"],
+// Legacy wording for comment-required transitions; the client matches on some of these messages.
+const COMMENT_REQUIRED_ERRORS = Object.freeze({
+  submitted: "Clarification response is required before resubmitting to Design",
+  cancelled: "Sales comment required when cancelling a request",
 });
 
-const resolveInAppRolesForStatus = (status) => {
-  const key = String(status ?? "").trim();
-  const roles = IN_APP_ROLES_BY_STATUS[key];
-  if (!Array.isArray(roles)) return [];
-  return roles.filter((role) => role === "sales" || role === "design" || role === "costing" || role === "admin");
-};
-
-const TERMINAL_NO_ACTION_STATUSES = new Set(["closed", "cancelled", "gm_approved"]);
-
-const resolveNextActionForStatus = (status) => {
-  const normalized = String(status ?? "").trim();
-  if (!normalized || TERMINAL_NO_ACTION_STATUSES.has(normalized)) {
-    return { role: "none", label: "No action" };
-  }
+// The editor options travel with the definition so the admin UI never drifts from server validation.
+const toWorkflowResponse = (workflow) => ({
+  ...workflow,
+  roles: WORKFLOW_ROLES,
+  nextActionRoles: WORKFLOW_NEXT_ACTION_ROLES,
+  requiredFieldOptions: WORKFLOW_REQUIRED_FIELDS,
+  validationRules: TRANSITION_RULES,
+  transitionPermissions: WORKFLOW_TRANSITION_PERMISSIONS,
+});
 
-  const roles = resolveInAppRolesForStatus(normalized);
-  const role = String(roles[0] ?? "").trim();
-  if (!role) {
-    return { role: "none", label: "No action" };
-  }
+// Next-action role is derived from status, so role filters are translated into status sets.
+const resolveNextActionStatusFilter = (workflow, roles) => {
+  const wanted = new Set((Array.isArray(roles) ? roles : []).map((role) => String(role ?? "").trim()).filter(Boolean));
+  if (!wanted.size) return null;
+  const actionableStatuses = workflow.states
+    .filter((state) => resolveWorkflowNextAction(workflow, state.status).role !== "none")
+    .map((state) => state.status);
+  return {
+    statuses: actionableStatuses.filter((status) => wanted.has(resolveWorkflowNextAction(workflow, status).role)),
+    includeNoAction: wanted.has("none"),
+    actionableStatuses,
+  };
+};
 
-  if (role === "sales") return { role: "sales", label: "Sales" };
-  if (role === "design") return { role: "design", label: "Design" };
-  if (role === "costing") return { role: "costing", label: "Costing" };
-  if (role === "admin") return { role: "admin", label: "Admin" };
-  return { role: "none", label: "No action" };
+const formatSlaDueAt = (dueAt) => {
+  const date = new Date(dueAt ?? "");
+  return Number.isNaN(date.getTime()) ? "" : `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
 };
 
-const buildInAppNotificationText = ({ eventType, request, requestId, status, previousStatus, actorName }) => {
+const buildInAppNotificationText = ({ eventType, request, requestId, status, previousStatus, actorName, dueAt }) => {
   const displayId = String(requestId ?? "").trim() || String(request?.id ?? "").trim() || "Request";
   const clientName = String(request?.clientName ?? "").trim();
   const actor = String(actorName ?? "").trim();
   const statusLabel = humanizeStatus(status || request?.status || "");
   const previousLabel = humanizeStatus(previousStatus || "");
 
+  if (eventType === "request_sla_warning" || eventType === "request_sla_breached") {
+    const due = formatSlaDueAt(dueAt);
+    const stage = statusLabel || "current stage";
+    return eventType === "request_sla_breached"
+      ? {
+          title: `${displayId} is overdue`,
+          body: due ? `${stage} passed its SLA due date (${due}).` : `${stage} passed its SLA due date.`,
+        }
+      : {
+          title: `${displayId} is due soon`,
+          body: due ? `${stage} is due by ${due}.` : `${stage} is close to its SLA due date.`,
+        };
+  }
+
   if (eventType === "request_created") {
     return {
       title: `New request ${displayId}`,
@@ -879,9 +1092,10 @@ const mapAppNotificationRow = (row) => ({
 
 const enqueueInAppNotifications = async (
   pool,
-  { request, requestId, status, previousStatus, eventType, actorUserId, actorName, comment }
+  { request, requestId, status, previousStatus, eventType, actorUserId, actorName, comment, dueAt }
 ) => {
-  const roles = resolveInAppRolesForStatus(status || request?.status || "");
+  const workflow = await getWorkflowDefinition(pool);
+  const roles = resolveWorkflowNotifyRoles(workflow, status || request?.status || "");
   if (!roles.length) return 0;
 
   const actorId = String(actorUserId ?? "").trim();
@@ -948,7 +1162,7 @@ const enqueueInAppNotifications = async (
       SELECT id
         FROM app_users
        WHERE is_active = true
-         AND role = ANY($1::text[])
+         AND (role = ANY($1::text[]) OR id IN (SELECT user_id FROM app_user_roles WHERE role = ANY($1::text[])))
          AND ($2 = '' OR id <> $2)
       `,
       [nonSalesRoles, actorId]
@@ -968,6 +1182,7 @@ const enqueueInAppNotifications = async (
     status,
     previousStatus,
     actorName,
+    dueAt,
   });
 
   const payload = {
@@ -977,6 +1192,7 @@ const enqueueInAppNotifications = async (
     eventType: String(eventType ?? "request_status_changed"),
     actorName: String(actorName ?? "").trim() || null,
     comment: typeof comment === "string" && comment.trim() ? comment.trim() : null,
+    ...(dueAt ? { dueAt } : {}),
   };
 
   for (const userId of recipientIds) {
@@ -997,9 +1213,71 @@ const enqueueInAppNotifications = async (
     );
   }
 
+  publishNotificationsCreated(recipientIds, String(eventType || "request_status_changed"));
   return recipientIds.size;
 };
 
+const SLA_STAGE_EMAIL_SETTINGS_KEYS = {
+  design: "recipientsDesign",
+  costing: "recipientsCosting",
+  admin: "recipientsAdmin",
+};
+
+// Called by the SLA monitor (server/slaMonitor.js). Warnings go to the role that owns the stage;
+// breaches are also escalated to the admin mailbox list.
+export const enqueueSlaEscalationNotifications = async (pool, { request, level, dueAt }) => {
+  const requestId = String(request?.id ?? "").trim();
+  const status = String(request?.status ?? "").trim();
+  const eventType = level === "breached" ? "request_sla_breached" : "request_sla_warning";
+
+  const inAppCount = await enqueueInAppNotifications(pool, { request, requestId, status, eventType, dueAt });
+
+  const [settings, tokenState] = await Promise.all([getM365Settings(pool), getM365TokenState(pool)]);
+  if (!settings.enabled || !tokenState.hasRefreshToken) {
+    return { inAppCount, emailEnqueued: false, reason: "email_disabled_or_disconnected" };
+  }
+
+  const roles = new Set(resolveWorkflowNotifyRoles(await getWorkflowDefinition(pool), status));
+  if (level === "breached") roles.add("admin");
+  const emails = new Set();
+  for (const role of roles) {
+    if (role === "sales") {
+      const resolution = await resolveSalesOwnerRecipient(pool, {
+        request,
+        fallbackEmails: parseEmailList(settings.recipientsSales),
+      });
+      resolution.emails.forEach((email) => emails.add(email));
+    } else if (SLA_STAGE_EMAIL_SETTINGS_KEYS[role]) {
+      parseEmailList(settings[SLA_STAGE_EMAIL_SETTINGS_KEYS[role]]).forEach((email) => emails.add(email));
+    }
+  }
+  const recipients = settings.testMode
+    ? parseEmailList(settings.testEmail || settings.senderUpn)
+    : Array.from(emails).filter((email) => isValidEmail(email));
+  if (!recipients.length) return { inAppCount, emailEnqueued: false, reason: "no_recipients" };
+
+  const text = buildInAppNotificationText({ eventType, request, requestId, status, dueAt });
+  const link = buildRequestLink(settings.appBaseUrl, requestId);
+  const clientName = String(request?.clientName ?? "").trim();
+  const html = [
+    `<div style="font-family:Segoe UI,Arial,sans-serif;color:#111827">`,
+    `<h2 style="margin:0 0 8px 0;">${escapeHtml(text.title)}</h2>`,
+    `<p style="margin:0 0 8px 0;">${escapeHtml(text.body)}</p>`,
+    clientName ? `<p style="margin:0 0 8px 0;">Client: <strong>${escapeHtml(clientName)}</strong></p>` : "",
+    link ? `<p><a href="${escapeHtml(link)}" style="color:#2563eb;">Open request</a></p>` : "",
+    `</div>`,
+  ].join("");
+
+  await pool.query(
+    `
+    INSERT INTO notification_outbox (id, event_type, request_id, to_emails, subject, body_html)
+    VALUES ($1,$2,$3,$4,$5,$6)
+    `,
+    [randomUUID(), eventType, requestId, recipients.join(", "), `[CRA] ${text.title}`, html]
+  );
+  return { inAppCount, emailEnqueued: true };
+};
+
 const groupRecipientsByPreferredLanguage = async (pool, emails) => {
   const list = Array.isArray(emails) ? emails : [];
   const deduped = [];
@@ -2228,6 +2506,24 @@ const normalizeClientOfferLine = (raw, index) => {
   };
 };
 
+// Per-product price lines (costingProductPrices / salesProductPrices), one per product index.
+const normalizeProductPrices = (raw, fallbackCurrency) => {
+  if (!Array.isArray(raw)) return undefined;
+  const byIndex = new Map();
+  for (const line of raw) {
+    const productIndex = Number(line?.productIndex);
+    if (!Number.isInteger(productIndex) || productIndex < 0 || byIndex.has(productIndex)) continue;
+    const currency = String(line?.currency ?? "").trim().toUpperCase();
+    byIndex.set(productIndex, {
+      productIndex,
+      unitPrice: parseOptionalFiniteNumber(line?.unitPrice),
+      currency: PRICE_CURRENCIES.includes(currency) ? currency : fallbackCurrency,
+      margin: parseOptionalFiniteNumber(line?.margin),
+    });
+  }
+  return Array.from(byIndex.values()).sort((a, b) => a.productIndex - b.productIndex);
+};
+
 const normalizeClientOfferConfig = (raw, nowIso) => {
   if (!raw || typeof raw !== "object") return undefined;
   const lines = Array.isArray(raw?.lines) ? raw.lines.map(normalizeClientOfferLine) : [];
@@ -2256,8 +2552,10 @@ const normalizeClientOfferConfig = (raw, nowIso) => {
       lineItems: raw?.sectionVisibility?.lineItems !== false,
       commercialTerms: raw?.sectionVisibility?.commercialTerms !== false,
       deliveryTerms: raw?.sectionVisibility?.deliveryTerms !== false,
+      clauses: raw?.sectionVisibility?.clauses !== false,
       appendix: raw?.sectionVisibility?.appendix !== false,
     },
+    ...normalizeOfferConfigTemplateFields(raw),
     lines,
     selectedAttachmentIds,
     updatedAt: typeof raw?.updatedAt === "string" ? raw.updatedAt : nowIso,
@@ -2320,6 +2618,12 @@ const applyCostingPrefillToSales = (requestData) => {
   copyField("salesFinalPrice", sellingPrice, () => sellingPrice !== null);
   copyField("salesCurrency", sourceSellingCurrency, () => sourceSellingCurrency !== "");
   copyField("salesMargin", calculatedMargin, () => calculatedMargin !== null);
+  const costingProductPrices = Array.isArray(next.costingProductPrices) ? next.costingProductPrices : [];
+  const salesProductPrices = Array.isArray(next.salesProductPrices) ? next.salesProductPrices : [];
+  if (costingProductPrices.length && !salesProductPrices.length) {
+    next.salesProductPrices = costingProductPrices.map((line) => ({ ...line }));
+    copiedFields.push("salesProductPrices");
+  }
   copyField("salesIncoterm", sourceIncoterm, () => sourceIncoterm !== "");
   copyField(
     "salesIncotermOther",
@@ -2404,12 +2708,14 @@ const normalizeRequestData = (data, nowIso) => {
     incoterm: typeof data.incoterm === "string" ? data.incoterm : "",
     incotermOther: typeof data.incotermOther === "string" ? data.incotermOther : "",
     sellingCurrency: typeof data.sellingCurrency === "string" ? data.sellingCurrency : "EUR",
+    costingProductPrices: normalizeProductPrices(data.costingProductPrices, data.sellingCurrency || "EUR"),
     vatMode: data.vatMode === "with" ? "with" : "without",
     vatRate: typeof data.vatRate === "number" ? data.vatRate : null,
     deliveryLeadtime: typeof data.deliveryLeadtime === "string" ? data.deliveryLeadtime : "",
     costingAttachments,
     salesFinalPrice: typeof data.salesFinalPrice === "number" ? data.salesFinalPrice : null,
     salesCurrency: typeof data.salesCurrency === "string" ? data.salesCurrency : "EUR",
+    salesProductPrices: normalizeProductPrices(data.salesProductPrices, data.salesCurrency || "EUR"),
     salesIncoterm: typeof data.salesIncoterm === "string" ? data.salesIncoterm : "",
     salesIncotermOther: typeof data.salesIncotermOther === "string" ? data.salesIncotermOther : "",
     salesVatMode: data.salesVatMode === "with" ? "with" : "without",
@@ -2505,6 +2811,7 @@ const normalizeContractApprovalData = (data, nowIso) => {
     status,
     id: String(data?.id ?? "").trim(),
     clientName: typeof data?.clientName === "string" ? data.clientName : "",
+    customerId: String(data?.customerId ?? "").trim() || null,
     craNumber: typeof data?.craNumber === "string" ? data.craNumber : "",
     contractAmount: parseOptionalFiniteNumber(data?.contractAmount),
     paymentTerms: typeof data?.paymentTerms === "string" ? data.paymentTerms : "",
@@ -2532,20 +2839,19 @@ const normalizeContractApprovalData = (data, nowIso) => {
   };
 };
 
+// Admin, Finance and Cashier see every contract approval; Sales only their own.
+const canViewAllContractApprovals = (user) => ["admin", "finance", "cashier"].some((role) => hasRole(user, role));
+
 const canViewContractApproval = (user, contract) => {
-  const role = String(user?.role ?? "").trim().toLowerCase();
-  if (!role) return false;
-  if (role === "admin") return true;
-  if (role === "sales") return String(contract?.salesOwnerUserId ?? "").trim() === String(user?.id ?? "").trim();
-  if (role === "finance" || role === "cashier") return true;
+  if (canViewAllContractApprovals(user)) return true;
+  if (hasRole(user, "sales")) return String(contract?.salesOwnerUserId ?? "").trim() === String(user?.id ?? "").trim();
   return false;
 };
 
 const canEditContractApproval = (user, contract) => {
-  const role = String(user?.role ?? "").trim().toLowerCase();
   const status = String(contract?.status ?? "").trim();
-  if (role === "admin") return status === "draft" || status === "gm_rejected" || status === "finance_rejected";
-  if (role === "sales") {
+  if (hasRole(user, "admin")) return status === "draft" || status === "gm_rejected" || status === "finance_rejected";
+  if (hasRole(user, "sales")) {
     const ownerId = String(contract?.salesOwnerUserId ?? "").trim();
     return ownerId && ownerId === String(user?.id ?? "").trim() && (status === "draft" || status === "gm_rejected" || status === "finance_rejected");
   }
@@ -2594,7 +2900,7 @@ const resolveContractNotificationRecipients = async (pool, { contract, status, a
       SELECT id
       FROM app_users
       WHERE is_active = true
-        AND role = ANY($1::text[])
+        AND (role = ANY($1::text[]) OR id IN (SELECT user_id FROM app_user_roles WHERE role = ANY($1::text[])))
         AND ($2 = '' OR id <> $2)
       `,
       [nonSalesRoles, actorId]
@@ -2675,6 +2981,7 @@ const enqueueContractInAppNotifications = async (
       ]
     );
   }
+  publishNotificationsCreated(recipients, String(eventType ?? "contract_status_changed"));
   return recipients.length;
 };
 
@@ -2803,6 +3110,7 @@ const resolveContractCraPrefill = async (pool, craNumber) => {
     prefill: {
       craNumber: requestId,
       clientName: String(request.clientName ?? ""),
+      customerId: String(request.customerId ?? "").trim() || null,
       contractAmount: parseOptionalFiniteNumber(request.salesFinalPrice) ?? parseOptionalFiniteNumber(request.sellingPrice),
       paymentTerms: formatContractPaymentTermsFromRequest(request),
       validity: String(request.salesOfferValidityPeriod ?? ""),
@@ -2846,36 +3154,6 @@ const validateContractSubmitPayload = async (pool, contract) => {
   return { ok: true, craRequestId: String(prefill.request?.id ?? craNumber) };
 };
 
-const validateRequestSubmittedPayload = (request) => {
-  const currency = String(request?.sellingCurrency ?? "").trim().toUpperCase();
-  if (!(currency === "USD" || currency === "EUR" || currency === "RMB")) {
-    return { ok: false, status: 400, error: "Currency is required before submission" };
-  }
-
-  const incoterm = String(request?.incoterm ?? "").trim();
-  if (!incoterm) {
-    return { ok: false, status: 400, error: "Incoterm is required before submission" };
-  }
-  if (incoterm.toLowerCase() === "other") {
-    const incotermOther = String(request?.incotermOther ?? "").trim();
-    if (!incotermOther) {
-      return { ok: false, status: 400, error: "Incoterm detail is required when Incoterm is Other" };
-    }
-  }
-
-  const vatMode = String(request?.vatMode ?? "").trim().toLowerCase();
-  if (!(vatMode === "with" || vatMode === "without")) {
-    return { ok: false, status: 400, error: "Taxation is required before submission" };
-  }
-
-  const clientAddressDelivery = String(request?.clientAddressDelivery ?? "").trim();
-  if (!clientAddressDelivery) {
-    return { ok: false, status: 400, error: "Client Address Delivery is required before submission" };
-  }
-
-  return { ok: true };
-};
-
 const safeParseRequest = (value, context) => {
   if (!value) return null;
   try {
@@ -2887,6 +3165,40 @@ const safeParseRequest = (value, context) => {
   }
 };
 
+// Optimistic concurrency: the row-level `version` column is the source of truth. It is attached
+// to API payloads and echoed back by clients as `expectedVersion` (or an If-Match header), but it
+// is never persisted inside the JSONB document.
+const RECORD_VERSION_CONFLICT_CODE = "version_conflict";
+
+const parseRecordVersion = (value) => {
+  const parsed = Number.parseInt(String(value ?? "").trim(), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const readExpectedRecordVersion = (req, body) => {
+  const fromBody = parseRecordVersion(body?.expectedVersion);
+  if (fromBody !== null) return fromBody;
+  const ifMatch = String(req?.headers?.["if-match"] ?? "").trim();
+  if (!ifMatch || ifMatch === "*") return null;
+  return parseRecordVersion(ifMatch.replace(/^W\//i, "").replace(/"/g, ""));
+};
+
+// Whole-record writes must name the version they were based on; without one a stale client would overwrite newer edits.
+const respondVersionRequired = (res) => {
+  res.status(428).json({ error: "Missing record version (send expectedVersion or If-Match)" });
+};
+
+const withoutRecordVersion = (data) => {
+  if (!data || typeof data !== "object") return data;
+  const { version: _version, expectedVersion: _expectedVersion, ...rest } = data;
+  return rest;
+};
+
+const setRecordVersionHeader = (res, version) => {
+  const parsed = parseRecordVersion(version);
+  if (parsed !== null) res.setHeader("ETag", `"${parsed}"`);
+};
+
 const parseJsonArray = (value) => {
   if (!value) return [];
   try {
@@ -3003,13 +3315,14 @@ const setContentDispositionSafe = (res, dispositionType, rawFilename) => {
   }
 };
 
-const collectAttachmentIds = (request) => {
-  const ids = new Set();
+// `{ id, type, url }` of every attachment listed in the request data.
+const collectAttachmentRefs = (request) => {
+  const refs = [];
   const visitArray = (arr) => {
     if (!Array.isArray(arr)) return;
     for (const item of arr) {
       const id = String(item?.id ?? "").trim();
-      if (id) ids.add(id);
+      if (id) refs.push({ id, type: item?.type ? String(item.type) : "other", url: String(item?.url ?? "") });
     }
   };
 
@@ -3025,9 +3338,14 @@ const collectAttachmentIds = (request) => {
     }
   }
 
-  return Array.from(ids);
+  return refs;
 };
 
+const collectAttachmentIds = (request) => Array.from(new Set(collectAttachmentRefs(request).map((ref) => ref.id)));
+
+// Streamed uploads (server/attachmentUploads.js) the request now points to.
+const collectUploadedAttachmentRefs = (request) => collectAttachmentRefs(request).filter((ref) => isAttachmentUrl(ref.url));
+
 const extractInlineAttachments = (request) => {
   const inserts = [];
 
@@ -3104,39 +3422,54 @@ const extractInlineAttachments = (request) => {
   return { inserts, keepIds };
 };
 
-const materializeRequestAttachments = async (pool, requestId, request) => {
+// Stores the content of an inline attachment in the configured backend and records it for the request.
+const insertRequestAttachment = async (db, requestId, att) => {
+  const content = await storeAttachmentContent(db, att.data, { contentType: att.contentType });
+  await db.query(
+    `
+    INSERT INTO request_attachments
+      (id, request_id, attachment_type, filename, content_type, byte_size, uploaded_at, uploaded_by, data, content_sha256,
+       storage_backend)
+    VALUES
+      ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
+    ON CONFLICT (id) DO NOTHING
+    `,
+    [
+      att.id,
+      requestId,
+      att.attachmentType,
+      att.filename,
+      att.contentType,
+      att.byteSize,
+      att.uploadedAt,
+      att.uploadedBy,
+      content.data,
+      content.contentSha256,
+      content.storageBackend,
+    ]
+  );
+};
+
+const materializeRequestAttachments = async (pool, requestId, request, actor) => {
   const { inserts, keepIds } = extractInlineAttachments(request);
 
   for (const att of inserts) {
-    await pool.query(
-      `
-      INSERT INTO request_attachments
-        (id, request_id, attachment_type, filename, content_type, byte_size, uploaded_at, uploaded_by, data)
-      VALUES
-        ($1,$2,$3,$4,$5,$6,$7,$8,$9)
-      ON CONFLICT (id) DO NOTHING
-      `,
-      [
-        att.id,
-        requestId,
-        att.attachmentType,
-        att.filename,
-        att.contentType,
-        att.byteSize,
-        att.uploadedAt,
-        att.uploadedBy,
-        att.data,
-      ]
-    );
+    await insertRequestAttachment(pool, requestId, att);
   }
 
+  await claimAttachmentUploads(pool, requestId, collectUploadedAttachmentRefs(request), actor);
+
+  // Issued offer PDFs are not referenced from the request data; they belong to their revision.
   if (!keepIds.length) {
-    await pool.query("DELETE FROM request_attachments WHERE request_id=$1", [requestId]);
-  } else {
-    await pool.query("DELETE FROM request_attachments WHERE request_id=$1 AND NOT (id = ANY($2::text[]))", [
+    await pool.query("DELETE FROM request_attachments WHERE request_id=$1 AND attachment_type <> $2", [
       requestId,
-      keepIds,
+      OFFER_REVISION_ATTACHMENT_TYPE,
     ]);
+  } else {
+    await pool.query(
+      "DELETE FROM request_attachments WHERE request_id=$1 AND attachment_type <> $2 AND NOT (id = ANY($3::text[]))",
+      [requestId, OFFER_REVISION_ATTACHMENT_TYPE, keepIds]
+    );
   }
 };
 
@@ -3215,12 +3548,14 @@ const extractInlineContractAttachments = (contract) => {
 const materializeContractAttachments = async (pool, contractId, contract) => {
   const { inserts, keepIds } = extractInlineContractAttachments(contract);
   for (const att of inserts) {
+    const content = await storeAttachmentContent(pool, att.data, { contentType: att.contentType });
     await pool.query(
       `
       INSERT INTO contract_approval_attachments
-        (id, contract_id, attachment_stage, filename, content_type, byte_size, uploaded_at, uploaded_by, data)
+        (id, contract_id, attachment_stage, filename, content_type, byte_size, uploaded_at, uploaded_by, data,
+         content_sha256, storage_backend)
       VALUES
-        ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+        ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
       ON CONFLICT (id) DO NOTHING
       `,
       [
@@ -3232,7 +3567,9 @@ const materializeContractAttachments = async (pool, contractId, contract) => {
         att.byteSize,
         att.uploadedAt,
         att.uploadedBy,
-        att.data,
+        content.data,
+        content.contentSha256,
+        content.storageBackend,
       ]
     );
   }
@@ -4544,6 +4881,7 @@ const enqueueFeedbackSubmittedNotifications = async (pool, feedback) => {
     );
     inserted += rowCount ?? 0;
   }
+  if (inserted > 0) publishNotificationsCreated(userIds, "feedback_submitted");
   return inserted;
 };
 
@@ -4692,6 +5030,7 @@ const enqueueClientUpdateNotifications = async (pool, installerMeta) => {
   clientUpdateSyncCache.set(throttleKey, { ts: now });
   if (inserted > 0) {
     console.info(`[client-update] version=${version} inserted=${inserted}`);
+    publishNotificationsCreated(insertedUserIds, "client_update_available");
   }
   return { inserted, insertedUserIds, version };
 };
@@ -5255,17 +5594,72 @@ const generateRequestId = async (pool) => {
 };
 
 const getRequestById = async (pool, id) => {
-  const row = await pool.query("SELECT id, data FROM requests WHERE id = $1", [id]);
+  const row = await pool.query("SELECT id, data, version FROM requests WHERE id = $1", [id]);
 
   const data = row.rows?.[0]?.data;
   const rowId = row.rows?.[0]?.id ?? id;
-  return safeParseRequest(data, { id: rowId });
+  const parsed = safeParseRequest(data, { id: rowId });
+  if (!parsed) return null;
+  return { ...withoutRecordVersion(parsed), version: parseRecordVersion(row.rows?.[0]?.version) ?? 1 };
+};
+
+// Finds a stored attachment (request file, contract approval file or pending upload) and whether `user` may open it.
+// Returns null when no attachment has this id.
+const findAttachmentForViewer = async (pool, user, id) => {
+  let row = null;
+  let source = "request";
+  {
+    const { rows } = await pool.query(
+      `
+      SELECT request_id, attachment_type, filename, content_type, byte_size, data, content_sha256, storage_backend
+      FROM request_attachments
+      WHERE id=$1
+      LIMIT 1
+      `,
+      [id]
+    );
+    row = rows[0] ?? null;
+  }
+  if (!row) {
+    const { rows } = await pool.query(
+      `
+      SELECT contract_id, filename, content_type, byte_size, data, content_sha256, storage_backend
+      FROM contract_approval_attachments
+      WHERE id=$1
+      LIMIT 1
+      `,
+      [id]
+    );
+    row = rows[0] ?? null;
+    source = "contract_approval";
+  }
+  if (!row) {
+    row = await getAttachmentUpload(pool, id);
+    source = "upload";
+  }
+  if (!row) return null;
+
+  let allowed = true;
+  let category = null;
+  if (source === "request") {
+    const request = await getRequestById(pool, String(row.request_id ?? ""));
+    category = request ? findAttachmentCategory(request, id, row.attachment_type) : null;
+    allowed = canViewAttachmentCategory(user, category, await getAttachmentAccessRules(pool));
+  } else if (source === "contract_approval") {
+    const contractId = String(row.contract_id ?? "").trim();
+    const contract = contractId ? await getContractApprovalById(pool, contractId) : null;
+    allowed = Boolean(contract && canViewContractApproval(user, contract));
+  } else {
+    // Uploaded but not saved with a request yet: only its uploader (or an admin) may open it.
+    allowed = String(row.uploaded_by ?? "") === String(user?.id ?? "") || hasRole(user, "admin");
+  }
+  return { row, source, category, allowed };
 };
 
 const getContractApprovalById = async (pool, id) => {
   const row = await pool.query(
     `
-    SELECT id, status::text AS status, sales_owner_user_id, cra_request_id, submitted_at, gm_decision_at, completed_at, created_at, updated_at, data
+    SELECT id, status::text AS status, sales_owner_user_id, cra_request_id, submitted_at, gm_decision_at, completed_at, created_at, updated_at, version, data
     FROM contract_approvals
     WHERE id = $1
     LIMIT 1
@@ -5278,8 +5672,9 @@ const getContractApprovalById = async (pool, id) => {
   const parsedData = safeParseRequest(found.data, { id: found.id, table: "contract_approvals" }) ?? {};
   return normalizeContractApprovalData(
     {
-      ...parsedData,
+      ...withoutRecordVersion(parsedData),
       id: found.id,
+      version: parseRecordVersion(found.version) ?? 1,
       status: found.status,
       salesOwnerUserId: found.sales_owner_user_id,
       craRequestId: found.cra_request_id,
@@ -5383,7 +5778,7 @@ export const apiRouter = (() => {
         return;
       }
 
-      req.authUser = auth.user;
+      [req.authUser] = await withUserAccess(pool, [auth.user]);
       req.authSessionId = auth.sessionId;
       next();
     })
@@ -5394,13 +5789,25 @@ export const apiRouter = (() => {
       res.status(401).json({ error: "Authentication required" });
       return;
     }
-    if (req.authUser.role !== "admin") {
+    if (!hasPermission(req.authUser, "manage_settings")) {
       res.status(403).json({ error: "Admin access required" });
       return;
     }
     next();
   };
 
+  const requirePermission = (permission) => (req, res, next) => {
+    if (!req.authUser) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+    if (!hasPermission(req.authUser, permission)) {
+      res.status(403).json({ error: "Permission required" });
+      return;
+    }
+    next();
+  };
+
   const requireAuth = (req, res, next) => {
     if (!req.authUser) {
       res.status(401).json({ error: "Authentication required" });
@@ -5850,6 +6257,15 @@ export const apiRouter = (() => {
     })
   );
 
+  // Server-sent events channel for request/contract changes and new in-app notifications.
+  router.get(
+    "/events",
+    requireAuth,
+    (req, res) => {
+      openRealtimeStream(req, res, req.authUser);
+    }
+  );
+
   router.get(
     "/notifications/unread-count",
     requireAuth,
@@ -5941,39 +6357,25 @@ export const apiRouter = (() => {
       const limitRaw = Number.parseInt(String(req.query.limit ?? "20"), 10);
       const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(limitRaw, 5), 100) : 20;
 
-      if (!q || q.length < 2) {
+      const terms = buildRequestSearchTerms(q, { statusCodes: resolveStatusSearchCodes(q) });
+      if (!terms) {
         res.json([]);
         return;
       }
 
+      const createdFrom = parseRequestDateParam(req.query.createdFrom);
+      const createdTo = parseRequestDateParam(req.query.createdTo, { endOfDay: true });
+      if (createdFrom === undefined || createdTo === undefined) {
+        res.status(400).json({ error: "Invalid createdFrom/createdTo date" });
+        return;
+      }
+      const statuses = String(req.query.status ?? "")
+        .split(",")
+        .map((value) => value.trim())
+        .filter(Boolean);
+
       const pool = await getPool();
-      const like = `%${q.replace(/\s+/g, " ")}%`;
-      const statusMatches = resolveStatusSearchCodes(q);
-      const { rows } = await pool.query(
-        `
-        SELECT
-          id,
-          status,
-          updated_at,
-          data->>'clientName' AS "clientName",
-          data->>'applicationVehicle' AS "applicationVehicle",
-          data->>'country' AS "country",
-          data->>'createdByName' AS "createdByName",
-          data->>'priority' AS "priority"
-        FROM requests
-        WHERE
-          id ILIKE $1
-          OR COALESCE(status, '') ILIKE $1
-          OR COALESCE(data::text, '') ILIKE $1
-          OR COALESCE(data->>'clientName', '') ILIKE $1
-          OR COALESCE(data->>'applicationVehicle', '') ILIKE $1
-          OR COALESCE(data->>'country', '') ILIKE $1
-          OR (cardinality($2::text[]) > 0 AND status = ANY($2::text[]))
-        ORDER BY updated_at DESC
-        LIMIT $3
-        `,
-        [like, statusMatches, limit]
-      );
+      const rows = await searchRequests(pool, { terms, statuses, createdFrom, createdTo, limit });
 
       res.json(
         rows.map((row) => ({
@@ -5984,7 +6386,10 @@ export const apiRouter = (() => {
           applicationVehicle: String(row.applicationVehicle ?? ""),
           country: String(row.country ?? ""),
           createdByName: String(row.createdByName ?? ""),
+          createdAt: row.created_at,
           updatedAt: row.updated_at,
+          rank: row.rank,
+          matches: row.matches,
         }))
       );
     })
@@ -6025,7 +6430,8 @@ export const apiRouter = (() => {
         targetId: session.sessionId ?? null,
         metadata: { expiresAt: session.expiresAt },
       });
-      res.json({ user: mapUserRow(user) });
+      const [sessionUser] = await withUserAccess(pool, [mapUserRow(user)]);
+      res.json({ user: sessionUser });
     })
   );
 
@@ -6514,7 +6920,39 @@ export const apiRouter = (() => {
     })
   );
 
-  // Serve uploaded attachments stored in Postgres.
+  // Streamed upload of one or more files (multipart/form-data); returns references for the request data.
+  router.post(
+    "/attachments/uploads",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      const upload = await readAttachmentUpload(req);
+      if (upload.error) {
+        res.status(upload.status ?? 400).json({ error: upload.error });
+        return;
+      }
+      const attachments = await saveAttachmentUploads(pool, upload.value, req.authUser);
+      try {
+        await deleteExpiredAttachmentUploads(pool);
+        await deleteOrphanedAttachmentPreviews(pool);
+      } catch (error) {
+        console.error("Failed to delete expired attachment uploads:", error);
+      }
+      await writeAuditLogBestEffort(pool, req, {
+        action: "attachment.uploaded",
+        targetType: "attachment",
+        targetId: attachments[0]?.id ?? null,
+        metadata: {
+          attachmentIds: attachments.map((attachment) => attachment.id),
+          filenames: attachments.map((attachment) => attachment.filename),
+          byteSize: attachments.reduce((sum, attachment) => sum + attachment.byteSize, 0),
+        },
+      });
+      res.status(201).json({ attachments });
+    })
+  );
+
+  // Serve attachments from whichever storage backend holds their content.
   router.get(
     "/attachments/:attachmentId",
     requireAuth,
@@ -6527,86 +6965,171 @@ export const apiRouter = (() => {
       }
 
       const pool = await getPool();
-      let row = null;
-      let source = "request";
-      {
-        const { rows } = await pool.query(
-          "SELECT request_id, filename, content_type, data FROM request_attachments WHERE id=$1 LIMIT 1",
-          [id]
-        );
-        row = rows[0] ?? null;
-      }
-      if (!row) {
-        const { rows } = await pool.query(
-          "SELECT contract_id, filename, content_type, data FROM contract_approval_attachments WHERE id=$1 LIMIT 1",
-          [id]
-        );
-        row = rows[0] ?? null;
-        source = "contract_approval";
-      }
-      if (!row) {
+      const found = await findAttachmentForViewer(pool, req.authUser, id);
+      if (!found) {
         res.status(404).json({ error: "Attachment not found" });
         return;
       }
+      const { row, source, category, allowed } = found;
 
-      if (source === "contract_approval") {
-        const contractId = String(row.contract_id ?? "").trim();
-        const contract = contractId ? await getContractApprovalById(pool, contractId) : null;
-        if (!contract || !canViewContractApproval(req.authUser, contract)) {
-          res.status(403).json({ error: "Access denied" });
-          return;
-        }
-      }
-
+      // Refused downloads are audited too.
+      const auditAction = source === "contract_approval" ? "contract_approval.attachment.fetch" : "attachment.fetch";
       await writeAuditLogBestEffort(pool, req, {
-        action: source === "contract_approval" ? "contract_approval.attachment.fetch" : "attachment.fetch",
+        action: allowed ? auditAction : `${auditAction}_denied`,
         targetType: "attachment",
         targetId: id,
         metadata: {
           requestId: row.request_id ?? null,
           contractId: row.contract_id ?? null,
           source,
+          category,
           filename: row.filename ?? null,
         },
       });
+      if (!allowed) {
+        res.status(403).json({ error: "Access denied" });
+        return;
+      }
+
+      const content = await openAttachmentContent(row);
+      if (!content) {
+        console.error(`Attachment ${id} content is missing from the ${row.storage_backend ?? "database"} storage`);
+        res.status(404).json({ error: "Attachment content not found" });
+        return;
+      }
 
       const filename = normalizeFilenameForHeader(row.filename);
       const contentType = String(row.content_type ?? "") || guessContentTypeFromFilename(filename);
-      const bytes = row.data;
 
       res.status(200);
       res.setHeader("Content-Type", contentType);
       setContentDispositionSafe(res, "inline", filename);
       res.setHeader("Cache-Control", "private, max-age=3600");
-      res.send(bytes);
+      if (Number(row.byte_size) > 0) res.setHeader("Content-Length", String(row.byte_size));
+      try {
+        await pipeline(content, res);
+      } catch (error) {
+        // Headers are already sent; an aborted download only needs the stream torn down.
+        if (!res.headersSent) throw error;
+        res.destroy(error);
+      }
     })
   );
 
+  // Rendered sheets (XLSX/XLS/ODS/CSV) or HTML (DOCX) of an attachment, generated once and cached.
   router.get(
-    "/admin/lists",
+    "/attachments/:attachmentId/preview",
+    requireAuth,
     asyncHandler(async (req, res) => {
+      const id = String(req.params.attachmentId ?? "").trim();
       const pool = await getPool();
-      const lists = await fetchAdminLists(pool);
-      res.json(lists);
-    })
-  );
-
-  router.get(
-    "/admin/lists/:category",
-    asyncHandler(async (req, res) => {
-      const { category } = req.params;
-      if (!ADMIN_LIST_CATEGORIES.has(category)) {
-        res.status(404).json({ error: "Unknown list category" });
+      const found = id ? await findAttachmentForViewer(pool, req.authUser, id) : null;
+      if (!found) {
+        res.status(404).json({ error: "Attachment not found" });
+        return;
+      }
+      const { row, source, category, allowed } = found;
+      await writeAuditLogBestEffort(pool, req, {
+        action: allowed ? "attachment.preview" : "attachment.preview_denied",
+        targetType: "attachment",
+        targetId: id,
+        metadata: { source, category, filename: row.filename ?? null },
+      });
+      if (!allowed) {
+        res.status(403).json({ error: "Access denied" });
         return;
       }
 
-      const pool = await getPool();
-      const { rows } = await pool.query(
-        "SELECT id, value FROM admin_list_items WHERE category = $1 ORDER BY sort_order, value",
-        [category]
+      const kind = getDocumentPreviewKind(row.filename);
+      if (!kind) {
+        res.status(415).json({ error: "No preview is available for this file type" });
+        return;
+      }
+      const preview = await getAttachmentPreview(
+        pool,
+        { id, filename: row.filename, contentSha256: row.content_sha256 },
+        kind,
+        () => readAttachmentContent(row)
       );
-
-      res.json(rows.map((row) => ({ id: row.id, value: row.value })));
+      if (!preview) {
+        res.status(422).json({ error: "This file could not be previewed" });
+        return;
+      }
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.status(200).send(preview.data);
+    })
+  );
+
+  // Small WebP of an image or of a PDF's first page, for attachment lists.
+  router.get(
+    "/attachments/:attachmentId/thumbnail",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const id = String(req.params.attachmentId ?? "").trim();
+      const pool = await getPool();
+      const found = id ? await findAttachmentForViewer(pool, req.authUser, id) : null;
+      if (!found) {
+        res.status(404).json({ error: "Attachment not found" });
+        return;
+      }
+      const { row, source, category, allowed } = found;
+      // Thumbnails are fetched for every listed file, so only refusals are audited.
+      if (!allowed) {
+        await writeAuditLogBestEffort(pool, req, {
+          action: "attachment.thumbnail_denied",
+          targetType: "attachment",
+          targetId: id,
+          metadata: { source, category, filename: row.filename ?? null },
+        });
+        res.status(403).json({ error: "Access denied" });
+        return;
+      }
+      if (!supportsThumbnail(row.filename)) {
+        res.status(415).json({ error: "No thumbnail is available for this file type" });
+        return;
+      }
+      const thumbnail = await getAttachmentPreview(
+        pool,
+        { id, filename: row.filename, contentSha256: row.content_sha256 },
+        "thumbnail",
+        () => readAttachmentContent(row)
+      );
+      if (!thumbnail) {
+        res.status(404).json({ error: "Thumbnail not available" });
+        return;
+      }
+      res.setHeader("Content-Type", thumbnail.contentType);
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      res.status(200).send(thumbnail.data);
+    })
+  );
+
+  router.get(
+    "/admin/lists",
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      const lists = await fetchAdminLists(pool);
+      res.json(lists);
+    })
+  );
+
+  router.get(
+    "/admin/lists/:category",
+    asyncHandler(async (req, res) => {
+      const { category } = req.params;
+      if (!ADMIN_LIST_CATEGORIES.has(category)) {
+        res.status(404).json({ error: "Unknown list category" });
+        return;
+      }
+
+      const pool = await getPool();
+      const { rows } = await pool.query(
+        "SELECT id, value FROM admin_list_items WHERE category = $1 ORDER BY sort_order, value",
+        [category]
+      );
+
+      res.json(rows.map((row) => ({ id: row.id, value: row.value })));
     })
   );
 
@@ -6714,16 +7237,28 @@ export const apiRouter = (() => {
         ));
       }
       res.json(
-        rows.map((row) => ({
-          ...mapUserRow(row),
-          online: Boolean(row?.online),
-          lastSeenAt: row?.lastSeenAt ?? null,
-          activeSessionCount: Number.parseInt(String(row?.activeSessionCount ?? "0"), 10) || 0,
-        }))
+        await withUserAccess(
+          pool,
+          rows.map((row) => ({
+            ...mapUserRow(row),
+            online: Boolean(row?.online),
+            lastSeenAt: row?.lastSeenAt ?? null,
+            activeSessionCount: Number.parseInt(String(row?.activeSessionCount ?? "0"), 10) || 0,
+          }))
+        )
       );
     })
   );
 
+  // Catalog for the Settings > Users access editor.
+  router.get(
+    "/admin/permissions",
+    requireAdmin,
+    asyncHandler(async (_req, res) => {
+      res.json({ permissions: PERMISSIONS, rolePermissions: ROLE_PERMISSIONS });
+    })
+  );
+
   router.post(
     "/admin/users",
     requireAdmin,
@@ -6740,49 +7275,52 @@ export const apiRouter = (() => {
         res.status(400).json({ error: parsed.error });
         return;
       }
+      const access = parseUserAccessPayload(req.body);
+      if (access.error) {
+        res.status(400).json({ error: access.error });
+        return;
+      }
 
       const pool = await getPool();
       const id = randomUUID();
       const passwordHash = makePasswordHash(parsed.value.password);
-        try {
-          let rows = [];
-          try {
-            ({ rows } = await pool.query(
-              `INSERT INTO app_users (id, name, email, role, preferred_language, password_hash, is_active)
-               VALUES ($1, $2, $3, $4, $5, $6, true)
-               RETURNING id, name, email, role, preferred_language, created_at`,
-              [id, parsed.value.name, parsed.value.email, parsed.value.role, parsed.value.preferredLanguage, passwordHash]
-            ));
-          } catch (error) {
-            // Backward-compat: older DBs may not have preferred_language yet.
-            if (String(error?.code ?? "") !== "42703") throw error;
-            ({ rows } = await pool.query(
-              `INSERT INTO app_users (id, name, email, role, password_hash, is_active)
-               VALUES ($1, $2, $3, $4, $5, true)
-               RETURNING id, name, email, role, created_at`,
-              [id, parsed.value.name, parsed.value.email, parsed.value.role, passwordHash]
-            ));
+      try {
+        // The user and their extra roles/grants are created together, as in PUT /admin/users/:userId.
+        const rows = await withTransaction(pool, async (client) => {
+          const result = await client.query(
+            `INSERT INTO app_users (id, name, email, role, preferred_language, password_hash, is_active)
+             VALUES ($1, $2, $3, $4, $5, $6, true)
+             RETURNING id, name, email, role, preferred_language, created_at`,
+            [id, parsed.value.name, parsed.value.email, parsed.value.role, parsed.value.preferredLanguage, passwordHash]
+          );
+          if (access.value) {
+            await saveUserAccess(client, id, parsed.value.role, access.value);
           }
-          const m365AutoRecipient = await autoAddM365RecipientForRole(pool, {
-            role: parsed.value.role,
+          return result.rows;
+        });
+        const m365AutoRecipient = await autoAddM365RecipientForRole(pool, {
+          role: parsed.value.role,
+          email: parsed.value.email,
+        });
+        await writeAuditLogBestEffort(pool, req, {
+          action: "admin.user_created",
+          targetType: "user",
+          targetId: id,
+          metadata: {
             email: parsed.value.email,
-          });
-          await writeAuditLogBestEffort(pool, req, {
-            action: "admin.user_created",
-            targetType: "user",
-            targetId: id,
-            metadata: {
-              email: parsed.value.email,
-              role: parsed.value.role,
-              name: parsed.value.name,
-              m365RecipientAutoAdded: Boolean(m365AutoRecipient?.added),
-            },
-          });
-          res.status(201).json(mapUserRow(rows[0]));
-        } catch (error) {
-          if (String(error?.code ?? "") === "23505") {
-            res.status(409).json({ error: "Email already exists" });
-            return;
+            role: parsed.value.role,
+            name: parsed.value.name,
+            roles: access.value?.roles ?? null,
+            grantedPermissions: access.value?.grantedPermissions ?? null,
+            m365RecipientAutoAdded: Boolean(m365AutoRecipient?.added),
+          },
+        });
+        const [created] = await withUserAccess(pool, [mapUserRow(rows[0])]);
+        res.status(201).json(created);
+      } catch (error) {
+        if (String(error?.code ?? "") === "23505") {
+          res.status(409).json({ error: "Email already exists" });
+          return;
         }
         throw error;
       }
@@ -6811,6 +7349,11 @@ export const apiRouter = (() => {
         res.status(400).json({ error: parsed.error });
         return;
       }
+      const access = parseUserAccessPayload(req.body);
+      if (access.error) {
+        res.status(400).json({ error: access.error });
+        return;
+      }
 
       const newPassword = String(req.body?.newPassword ?? "").trim();
       const pool = await getPool();
@@ -6840,53 +7383,31 @@ export const apiRouter = (() => {
             }
           }
 
-          let result = null;
-          try {
-            result = await client.query(
-              `UPDATE app_users
-                  SET name = $1,
-                      email = $2,
-                      role = $3,
-                      preferred_language = $4,
-                      password_hash = CASE WHEN $5 = '' THEN password_hash ELSE $6 END,
-                      updated_at = now()
-                WHERE id = $7
-                  AND is_active = true
-              RETURNING id, name, email, role, preferred_language, created_at`,
-              [
-                parsed.value.name,
-                parsed.value.email,
-                parsed.value.role,
-                parsed.value.preferredLanguage,
-                newPassword,
-                newPassword ? makePasswordHash(newPassword) : "",
-                userId,
-              ]
-            );
-          } catch (error) {
-            // Backward-compat: older DBs may not have preferred_language yet.
-            if (String(error?.code ?? "") !== "42703") throw error;
-            result = await client.query(
-              `UPDATE app_users
-                  SET name = $1,
-                      email = $2,
-                      role = $3,
-                      password_hash = CASE WHEN $4 = '' THEN password_hash ELSE $5 END,
-                      updated_at = now()
-                WHERE id = $6
-                  AND is_active = true
-              RETURNING id, name, email, role, created_at`,
-              [
-                parsed.value.name,
-                parsed.value.email,
-                parsed.value.role,
-                newPassword,
-                newPassword ? makePasswordHash(newPassword) : "",
-                userId,
-              ]
-            );
-          }
+          const result = await client.query(
+            `UPDATE app_users
+                SET name = $1,
+                    email = $2,
+                    role = $3,
+                    preferred_language = $4,
+                    password_hash = CASE WHEN $5 = '' THEN password_hash ELSE $6 END,
+                    updated_at = now()
+              WHERE id = $7
+                AND is_active = true
+            RETURNING id, name, email, role, preferred_language, created_at`,
+            [
+              parsed.value.name,
+              parsed.value.email,
+              parsed.value.role,
+              parsed.value.preferredLanguage,
+              newPassword,
+              newPassword ? makePasswordHash(newPassword) : "",
+              userId,
+            ]
+          );
           updated = result?.rows?.[0] ?? null;
+          if (updated && access.value) {
+            await saveUserAccess(client, userId, parsed.value.role, access.value);
+          }
         });
 
         if (res.headersSent) return;
@@ -6898,10 +7419,13 @@ export const apiRouter = (() => {
             email: parsed.value.email,
             role: parsed.value.role,
             previousRole,
+            roles: access.value?.roles ?? null,
+            grantedPermissions: access.value?.grantedPermissions ?? null,
             passwordChanged: Boolean(newPassword),
           },
         });
-        res.json(mapUserRow(updated));
+        const [updatedUser] = await withUserAccess(pool, [mapUserRow(updated)]);
+        res.json(updatedUser);
       } catch (error) {
         if (String(error?.code ?? "") === "23505") {
           res.status(409).json({ error: "Email already exists" });
@@ -8619,126 +9143,200 @@ export const apiRouter = (() => {
     })
   );
 
+  // Price catalog: sales, costing and admin read it; settings managers maintain it.
+  const canViewPriceCatalog = (user) => hasRole(user, "sales") || hasRole(user, "costing") || hasRole(user, "admin");
+
+  const requirePriceCatalogAccess = (req, res, next) => {
+    if (!req.authUser) {
+      res.status(401).json({ error: "Authentication required" });
+      return;
+    }
+    if (!canViewPriceCatalog(req.authUser)) {
+      res.status(403).json({ error: "Price list access required" });
+      return;
+    }
+    next();
+  };
+
   router.get(
     "/price-list",
+    requirePriceCatalogAccess,
     asyncHandler(async (req, res) => {
       const pool = await getPool();
-      const { rows } = await pool.query(
-        "SELECT id, configuration_type, articulation_type, brake_type, brake_size, studs_pcd_standards, created_at, updated_at FROM reference_products ORDER BY updated_at DESC"
-      );
+      const [products, entries] = await Promise.all([listReferenceProducts(pool), listPriceEntries(pool)]);
+      const today = todayDateKey();
+      const entriesByProduct = new Map();
+      for (const entry of entries) {
+        const list = entriesByProduct.get(entry.productId) ?? [];
+        list.push(entry);
+        entriesByProduct.set(entry.productId, list);
+      }
 
-      const data = rows.map((row) => ({
-        id: row.id,
-        configurationType: row.configuration_type ?? "",
-        articulationType: row.articulation_type ?? "",
-        brakeType: row.brake_type ?? "",
-        brakeSize: row.brake_size ?? "",
-        studsPcdStandards: parseJsonArray(row.studs_pcd_standards),
-        createdAt: row.created_at,
-        updatedAt: row.updated_at,
-      }));
+      res.json(
+        products.map((product) => ({
+          ...product,
+          currentPrices: selectCurrentPrices(entriesByProduct.get(product.id) ?? [], today).map((entry) =>
+            redactPriceEntryForUser(entry, req.authUser)
+          ),
+        }))
+      );
+    })
+  );
 
-      res.json(data);
+  // Every price version of every product (XLSX export).
+  router.get(
+    "/price-list/prices",
+    requirePriceCatalogAccess,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      const entries = await listPriceEntries(pool);
+      res.json(entries.map((entry) => redactPriceEntryForUser(entry, req.authUser)));
     })
   );
 
   router.post(
     "/price-list",
+    requireAdmin,
     asyncHandler(async (req, res) => {
-      const body = req.body;
-      if (!body || typeof body !== "object") {
-        res.status(400).json({ error: "Invalid JSON body" });
+      const parsed = parseReferenceProductPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
         return;
       }
 
       const nowIso = new Date().toISOString();
       const id = randomUUID();
-      const studs = Array.isArray(body.studsPcdStandards) ? body.studsPcdStandards : [];
+      const product = parsed.value;
 
       const pool = await getPool();
-      await pool.query(
-        `
-        INSERT INTO reference_products
-          (id, configuration_type, articulation_type, brake_type, brake_size, studs_pcd_standards, created_at, updated_at)
-        VALUES
-          ($1,$2,$3,$4,$5,$6::jsonb,$7,$8)
-        `,
-        [
-          id,
-          body.configurationType ?? "",
-          body.articulationType ?? "",
-          body.brakeType ?? "",
-          body.brakeSize ?? "",
-          JSON.stringify(studs),
-          new Date(nowIso),
-          new Date(nowIso),
-        ]
-      );
+      try {
+        await pool.query(
+          `
+          INSERT INTO reference_products
+            (id, part_number, configuration_type, articulation_type, brake_type, brake_size, studs_pcd_standards, created_at, updated_at)
+          VALUES
+            ($1,$2,$3,$4,$5,$6,$7::jsonb,$8,$9)
+          `,
+          [
+            id,
+            product.partNumber || null,
+            product.configurationType,
+            product.articulationType,
+            product.brakeType,
+            product.brakeSize,
+            JSON.stringify(product.studsPcdStandards),
+            new Date(nowIso),
+            new Date(nowIso),
+          ]
+        );
+      } catch (error) {
+        if (String(error?.code ?? "") === "23505") {
+          res.status(409).json({ error: "Part number already exists" });
+          return;
+        }
+        throw error;
+      }
 
-      res.status(201).json({
-        id,
-        configurationType: body.configurationType ?? "",
-        articulationType: body.articulationType ?? "",
-        brakeType: body.brakeType ?? "",
-        brakeSize: body.brakeSize ?? "",
-        studsPcdStandards: studs,
-        createdAt: nowIso,
-        updatedAt: nowIso,
+      res.status(201).json({ id, ...product, currentPrices: [], createdAt: nowIso, updatedAt: nowIso });
+    })
+  );
+
+  router.post(
+    "/price-list/import",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const parsed = parseCatalogImport(req.body);
+      if (parsed.issues) {
+        res.status(400).json({ error: parsed.issues[0].message, issues: parsed.issues });
+        return;
+      }
+
+      const pool = await getPool();
+      let result;
+      try {
+        result = await withTransaction(pool, (client) => applyCatalogImport(client, parsed.value, req.authUser));
+      } catch (error) {
+        if (String(error?.code ?? "") === "23505") {
+          res.status(409).json({ error: "Part number already exists" });
+          return;
+        }
+        throw error;
+      }
+      if (result.issues) {
+        res.status(400).json({ error: result.issues[0].message, issues: result.issues });
+        return;
+      }
+
+      await writeAuditLogBestEffort(pool, req, {
+        action: "price_list.imported",
+        targetType: "price_list",
+        targetId: "catalog",
+        metadata: result.summary,
       });
+      res.json(result.summary);
     })
   );
 
   router.put(
     "/price-list/:itemId",
+    requireAdmin,
     asyncHandler(async (req, res) => {
       const { itemId } = req.params;
-      const body = req.body;
-      if (!body || typeof body !== "object") {
-        res.status(400).json({ error: "Invalid JSON body" });
+      const parsed = parseReferenceProductPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
         return;
       }
 
       const nowIso = new Date().toISOString();
-      const studs = Array.isArray(body.studsPcdStandards) ? body.studsPcdStandards : [];
+      const product = parsed.value;
 
       const pool = await getPool();
-      await pool.query(
-        `
-        UPDATE reference_products
-        SET
-          configuration_type=$2,
-          articulation_type=$3,
-          brake_type=$4,
-          brake_size=$5,
-          studs_pcd_standards=$6::jsonb,
-          updated_at=$7
-        WHERE id=$1
-        `,
-        [
-          itemId,
-          body.configurationType ?? "",
-          body.articulationType ?? "",
-          body.brakeType ?? "",
-          body.brakeSize ?? "",
-          JSON.stringify(studs),
-          new Date(nowIso),
-        ]
-      );
+      let result;
+      try {
+        result = await pool.query(
+          `
+          UPDATE reference_products
+          SET
+            part_number=$2,
+            configuration_type=$3,
+            articulation_type=$4,
+            brake_type=$5,
+            brake_size=$6,
+            studs_pcd_standards=$7::jsonb,
+            updated_at=$8
+          WHERE id=$1
+          `,
+          [
+            itemId,
+            product.partNumber || null,
+            product.configurationType,
+            product.articulationType,
+            product.brakeType,
+            product.brakeSize,
+            JSON.stringify(product.studsPcdStandards),
+            new Date(nowIso),
+          ]
+        );
+      } catch (error) {
+        if (String(error?.code ?? "") === "23505") {
+          res.status(409).json({ error: "Part number already exists" });
+          return;
+        }
+        throw error;
+      }
+      if (!result.rowCount) {
+        res.status(404).json({ error: "Reference product not found" });
+        return;
+      }
 
-      res.json({
-        id: itemId,
-        configurationType: body.configurationType ?? "",
-        articulationType: body.articulationType ?? "",
-        brakeType: body.brakeType ?? "",
-        brakeSize: body.brakeSize ?? "",
-        studsPcdStandards: studs,
-        updatedAt: nowIso,
-      });
+      res.json({ id: itemId, ...product, updatedAt: nowIso });
     })
   );
 
   router.delete(
     "/price-list/:itemId",
+    requireAdmin,
     asyncHandler(async (req, res) => {
       const { itemId } = req.params;
       const pool = await getPool();
@@ -8749,42 +9347,272 @@ export const apiRouter = (() => {
   );
 
   router.get(
-    "/contracts/summary",
-    requireAuth,
+    "/price-list/:itemId/prices",
+    requirePriceCatalogAccess,
     asyncHandler(async (req, res) => {
-      const role = String(req.authUser?.role ?? "").trim().toLowerCase();
-      if (role !== "sales" && role !== "admin" && role !== "finance" && role !== "cashier") {
-        res.status(403).json({ error: "Contract approvals are restricted to Sales, Admin, Finance, and Cashier" });
+      const pool = await getPool();
+      const entries = await listPriceEntries(pool, String(req.params.itemId ?? "").trim());
+      res.json(entries.map((entry) => redactPriceEntryForUser(entry, req.authUser)));
+    })
+  );
+
+  router.post(
+    "/price-list/:itemId/prices",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const itemId = String(req.params.itemId ?? "").trim();
+      const parsed = parsePriceEntryPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
         return;
       }
 
       const pool = await getPool();
-      const params = [];
-      const where = [];
-      const pushParam = (value) => {
-        params.push(value);
-        return `$${params.length}`;
-      };
-
-      if (role === "sales") {
-        where.push(`c.sales_owner_user_id = ${pushParam(String(req.authUser?.id ?? ""))}`);
+      const { rows } = await pool.query("SELECT id FROM reference_products WHERE id = $1", [itemId]);
+      if (!rows[0]) {
+        res.status(404).json({ error: "Reference product not found" });
+        return;
       }
 
-      const statusFilter = String(req.query?.status ?? "").trim();
-      if (statusFilter && statusFilter.toLowerCase() !== "all") {
-        const statuses = statusFilter
-          .split(",")
-          .map((v) => parseContractApprovalStatus(v))
-          .filter((v) => isKnownContractApprovalStatus(v))
-          .filter(Boolean);
-        if (statuses.length) {
-          where.push(`c.status::text = ANY(${pushParam(statuses)}::text[])`);
-        }
-      }
+      const { entry, created } = await withTransaction(pool, (client) =>
+        savePriceEntry(client, itemId, parsed.value, req.authUser)
+      );
+      await writeAuditLogBestEffort(pool, req, {
+        action: "price_list.price_saved",
+        targetType: "reference_product",
+        targetId: itemId,
+        metadata: {
+          priceId: entry.id,
+          currency: entry.currency,
+          basePrice: entry.basePrice,
+          effectiveFrom: entry.effectiveFrom,
+          replaced: !created,
+        },
+      });
+      res.status(created ? 201 : 200).json(entry);
+    })
+  );
 
-      const clientFilter = String(req.query?.client ?? "").trim();
-      if (clientFilter) {
-        where.push(`lower(c.data->>'clientName') LIKE ${pushParam(`%${clientFilter.toLowerCase()}%`)}`);
+  router.delete(
+    "/price-list/:itemId/prices/:priceId",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const itemId = String(req.params.itemId ?? "").trim();
+      const priceId = String(req.params.priceId ?? "").trim();
+      const pool = await getPool();
+      const deleted = await withTransaction(pool, (client) => deletePriceEntry(client, itemId, priceId));
+      if (!deleted) {
+        res.status(404).json({ error: "Price not found" });
+        return;
+      }
+
+      await writeAuditLogBestEffort(pool, req, {
+        action: "price_list.price_deleted",
+        targetType: "reference_product",
+        targetId: itemId,
+        metadata: { priceId },
+      });
+      res.status(204).send();
+    })
+  );
+
+  router.get(
+    "/customers",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      const ownerUserId = String(req.query?.owner ?? "").trim();
+      const customers = await listCustomers(pool, {
+        search: String(req.query?.q ?? ""),
+        ownerUserId: ownerUserId === "me" ? String(req.authUser?.id ?? "") : ownerUserId || null,
+      });
+      res.json(customers);
+    })
+  );
+
+  router.get(
+    "/customers/owners",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      res.json(await listCustomerOwners(pool));
+    })
+  );
+
+  router.post(
+    "/customers",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      if (!canEditCustomers(req.authUser)) {
+        res.status(403).json({ error: "Customer accounts are maintained by Sales and Admin" });
+        return;
+      }
+      const parsed = parseCustomerPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const pool = await getPool();
+      const existing = await findCustomerByName(pool, parsed.value.name);
+      if (existing) {
+        res.status(409).json({ error: "A customer with this name already exists", customerId: existing.id });
+        return;
+      }
+      let customer;
+      try {
+        customer = await withTransaction(pool, (client) => createCustomer(client, parsed.value, req.authUser));
+      } catch (error) {
+        if (!isDuplicateCustomerNameError(error)) throw error;
+        const winner = await findCustomerByName(pool, parsed.value.name);
+        res.status(409).json({ error: "A customer with this name already exists", customerId: winner?.id ?? null });
+        return;
+      }
+      await writeAuditLogBestEffort(pool, req, {
+        action: "customer.created",
+        targetType: "customer",
+        targetId: customer.id,
+        metadata: { name: customer.name },
+      });
+      res.status(201).json(customer);
+    })
+  );
+
+  router.get(
+    "/customers/:customerId",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      const customer = await getCustomerById(pool, String(req.params.customerId ?? "").trim());
+      if (!customer) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+      res.json(customer);
+    })
+  );
+
+  router.put(
+    "/customers/:customerId",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      if (!canEditCustomers(req.authUser)) {
+        res.status(403).json({ error: "Customer accounts are maintained by Sales and Admin" });
+        return;
+      }
+      const customerId = String(req.params.customerId ?? "").trim();
+      const parsed = parseCustomerPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const pool = await getPool();
+      const duplicate = await findCustomerByName(pool, parsed.value.name, customerId);
+      if (duplicate) {
+        res.status(409).json({ error: "A customer with this name already exists", customerId: duplicate.id });
+        return;
+      }
+      let updated;
+      try {
+        updated = await withTransaction(pool, (client) => updateCustomer(client, customerId, parsed.value, req.authUser));
+      } catch (error) {
+        if (!isDuplicateCustomerNameError(error)) throw error;
+        const winner = await findCustomerByName(pool, parsed.value.name, customerId);
+        res.status(409).json({ error: "A customer with this name already exists", customerId: winner?.id ?? null });
+        return;
+      }
+      if (!updated) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+      await writeAuditLogBestEffort(pool, req, {
+        action: "customer.updated",
+        targetType: "customer",
+        targetId: customerId,
+        metadata: {
+          name: updated.customer.name,
+          requests: updated.requests.length,
+          contracts: updated.contracts.length,
+        },
+      });
+      updated.requests.forEach((request) => publishRequestChanged(request, "updated"));
+      updated.contracts.forEach((contract) => publishContractChanged(contract, "updated"));
+      res.json(updated.customer);
+    })
+  );
+
+  // Folds a duplicate account into another one; its requests and contracts move to the target.
+  router.post(
+    "/customers/:customerId/merge",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const sourceId = String(req.params.customerId ?? "").trim();
+      const targetId = String(req.body?.targetCustomerId ?? "").trim();
+      if (!targetId || targetId === sourceId) {
+        res.status(400).json({ error: "Choose another customer to merge into" });
+        return;
+      }
+
+      const pool = await getPool();
+      const moved = await withTransaction(pool, (client) => mergeCustomers(client, sourceId, targetId, req.authUser));
+      if (!moved) {
+        res.status(404).json({ error: "Customer not found" });
+        return;
+      }
+      await writeAuditLogBestEffort(pool, req, {
+        action: "customer.merged",
+        targetType: "customer",
+        targetId,
+        metadata: { mergedCustomerId: sourceId, requests: moved.requests.length, contracts: moved.contracts.length },
+      });
+      moved.requests.forEach((request) => publishRequestChanged(request, "updated"));
+      moved.contracts.forEach((contract) => publishContractChanged(contract, "updated"));
+      res.json(await getCustomerById(pool, targetId));
+    })
+  );
+
+  router.get(
+    "/contracts/summary",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      if (!hasRole(req.authUser, "sales") && !canViewAllContractApprovals(req.authUser)) {
+        res.status(403).json({ error: "Contract approvals are restricted to Sales, Admin, Finance, and Cashier" });
+        return;
+      }
+
+      const pool = await getPool();
+      const params = [];
+      const where = [];
+      const pushParam = (value) => {
+        params.push(value);
+        return `$${params.length}`;
+      };
+
+      if (!canViewAllContractApprovals(req.authUser)) {
+        where.push(`c.sales_owner_user_id = ${pushParam(String(req.authUser?.id ?? ""))}`);
+      }
+
+      const statusFilter = String(req.query?.status ?? "").trim();
+      if (statusFilter && statusFilter.toLowerCase() !== "all") {
+        const statuses = statusFilter
+          .split(",")
+          .map((v) => parseContractApprovalStatus(v))
+          .filter((v) => isKnownContractApprovalStatus(v))
+          .filter(Boolean);
+        if (statuses.length) {
+          where.push(`c.status::text = ANY(${pushParam(statuses)}::text[])`);
+        }
+      }
+
+      const customerFilter = String(req.query?.customerId ?? "").trim();
+      if (customerFilter) {
+        where.push(`c.data->>'customerId' = ${pushParam(customerFilter)}`);
+      }
+
+      const clientFilter = String(req.query?.client ?? "").trim();
+      if (clientFilter) {
+        where.push(`lower(c.data->>'clientName') LIKE ${pushParam(`%${clientFilter.toLowerCase()}%`)}`);
       }
 
       const salesOwnerFilter = String(req.query?.salesOwner ?? "").trim();
@@ -8827,6 +9655,8 @@ export const apiRouter = (() => {
       }
 
       const whereSql = where.length ? `WHERE ${where.join(" AND ")}` : "";
+      const rateConfig = await getExchangeRateConfig(pool);
+      const rateTable = buildRateTable(rateConfig);
       const { rows } = await pool.query(
         `
         SELECT
@@ -8850,14 +9680,30 @@ export const apiRouter = (() => {
       const mapped = rows.map((row) => {
         const data = safeParseRequest(row.data, { id: row.id, table: "contract_approvals" }) ?? {};
         const contractAmount = parseOptionalFiniteNumber(data.contractAmount);
+        const approvedCurrency = normalizeContractCurrency(data.approvedCurrency);
         const action = buildContractSummaryNextAction(row.status);
+        // Amounts are in the approved currency (EUR when unset), converted at the submission-day rate.
+        const contractAmountReporting =
+          contractAmount === null
+            ? null
+            : rateTable.convert(
+                contractAmount,
+                approvedCurrency || "EUR",
+                rateConfig.reportingCurrency,
+                row.submitted_at ?? row.created_at ?? new Date()
+              );
         return {
           id: String(row.id ?? ""),
           clientName: String(data.clientName ?? ""),
+          customerId: String(data.customerId ?? "").trim() || null,
           craNumber: String(data.craNumber ?? ""),
           salesOwnerUserId: String(row.sales_owner_user_id ?? ""),
           salesOwnerName: String(row.sales_owner_name ?? data.salesOwnerName ?? ""),
           contractAmount,
+          approvedCurrency,
+          reportingCurrency: rateConfig.reportingCurrency,
+          contractAmountReporting:
+            contractAmountReporting === null ? null : Number(contractAmountReporting.toFixed(2)),
           status: normalizeContractApprovalStatus(row.status),
           submissionDate: row.submitted_at,
           submittedAt: row.submitted_at,
@@ -8876,8 +9722,7 @@ export const apiRouter = (() => {
     "/contracts/cra-prefill/:craNumber",
     requireAuth,
     asyncHandler(async (req, res) => {
-      const role = String(req.authUser?.role ?? "").trim().toLowerCase();
-      if (role !== "sales" && role !== "admin") {
+      if (!hasRole(req.authUser, "sales") && !hasRole(req.authUser, "admin")) {
         res.status(403).json({ error: "CRA prefill is restricted to Sales and Admin" });
         return;
       }
@@ -8904,8 +9749,7 @@ export const apiRouter = (() => {
     "/contracts",
     requireAuth,
     asyncHandler(async (req, res) => {
-      const role = String(req.authUser?.role ?? "").trim().toLowerCase();
-      if (role !== "sales" && role !== "admin") {
+      if (!hasRole(req.authUser, "sales") && !hasRole(req.authUser, "admin")) {
         res.status(403).json({ error: "Contract creation is restricted to Sales and Admin" });
         return;
       }
@@ -8920,7 +9764,7 @@ export const apiRouter = (() => {
       let salesOwnerUserId = String(req.authUser?.id ?? "").trim();
       let salesOwnerName = String(req.authUser?.name ?? "").trim();
 
-      if (role === "admin" && body.salesOwnerUserId) {
+      if (hasRole(req.authUser, "admin") && body.salesOwnerUserId) {
         const ownerId = String(body.salesOwnerUserId ?? "").trim();
         const ownerRow = await pool.query(
           "SELECT id, name FROM app_users WHERE id = $1 AND is_active = true LIMIT 1",
@@ -8966,6 +9810,7 @@ export const apiRouter = (() => {
         },
         nowIso
       );
+      Object.assign(contract, await resolveCustomerLink(pool, contract));
 
       if (status === "submitted") {
         const submitValidation = await validateContractSubmitPayload(pool, contract);
@@ -8998,16 +9843,16 @@ export const apiRouter = (() => {
         await client.query(
           `
           INSERT INTO contract_approvals
-            (id, status, cra_request_id, sales_owner_user_id, data, created_at, updated_at, submitted_at, gm_decision_at, completed_at)
+            (id, status, cra_request_id, sales_owner_user_id, data, created_at, updated_at, submitted_at, gm_decision_at, completed_at, version)
           VALUES
-            ($1, $2::contract_approval_status, $3, $4, $5::jsonb, $6, $7, $8, $9, $10)
+            ($1, $2::contract_approval_status, $3, $4, $5::jsonb, $6, $7, $8, $9, $10, 1)
           `,
           [
             id,
             finalized.status,
             finalized.craRequestId ? String(finalized.craRequestId) : null,
             finalized.salesOwnerUserId,
-            JSON.stringify(finalized),
+            JSON.stringify(withoutRecordVersion(finalized)),
             new Date(nowIso),
             new Date(nowIso),
             finalized.submittedAt ? new Date(finalized.submittedAt) : null,
@@ -9016,7 +9861,7 @@ export const apiRouter = (() => {
           ]
         );
         await materializeContractAttachments(client, id, finalized);
-        return finalized;
+        return { ...finalized, version: 1 };
       });
 
       await writeAuditLogBestEffort(pool, req, {
@@ -9068,6 +9913,7 @@ export const apiRouter = (() => {
         console.error("Failed to enqueue contract create email:", error);
       }
 
+      publishContractChanged(created, "created");
       res.status(201).json(created);
     })
   );
@@ -9091,10 +9937,30 @@ export const apiRouter = (() => {
         res.status(403).json({ error: "Access denied" });
         return;
       }
+      setRecordVersionHeader(res, existing.version);
       res.json(existing);
     })
   );
 
+  router.get(
+    "/contracts/:contractId/approval-signatures",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const contractId = String(req.params?.contractId ?? "").trim();
+      const pool = await getPool();
+      const existing = contractId ? await getContractApprovalById(pool, contractId) : null;
+      if (!existing) {
+        res.status(404).json({ error: "Contract approval not found" });
+        return;
+      }
+      if (!canViewContractApproval(req.authUser, existing)) {
+        res.status(403).json({ error: "Access denied" });
+        return;
+      }
+      res.json(await verifyApprovalSignatures(pool, "contract", contractId, existing));
+    })
+  );
+
   router.put(
     "/contracts/:contractId",
     requireAuth,
@@ -9119,14 +9985,35 @@ export const apiRouter = (() => {
       const role = String(req.authUser?.role ?? "").trim().toLowerCase();
       const nowIso = new Date().toISOString();
       const draftEditable = canEditContractApproval(req.authUser, existing);
-      const financeLegacyEditable = role === "finance" && existing.status === "finance_upload";
-      const cashierEditable = role === "cashier" && existing.status === "gm_approved";
+      const financeLegacyEditable = hasRole(req.authUser, "finance") && existing.status === "finance_upload";
+      const cashierEditable = hasRole(req.authUser, "cashier") && existing.status === "gm_approved";
 
       if (!draftEditable && !financeLegacyEditable && !cashierEditable) {
         res.status(403).json({ error: "Contract approval is read-only at this stage" });
         return;
       }
 
+      const expectedVersion = readExpectedRecordVersion(req, body);
+      const respondVersionConflict = (current) => {
+        setRecordVersionHeader(res, current?.version);
+        res.status(409).json({
+          error: "Contract approval was modified by another user",
+          code: RECORD_VERSION_CONFLICT_CODE,
+          expectedVersion,
+          currentVersion: current?.version ?? null,
+          current,
+        });
+      };
+      if (expectedVersion === null) {
+        respondVersionRequired(res);
+        return;
+      }
+      if (expectedVersion !== existing.version) {
+        respondVersionConflict(existing);
+        return;
+      }
+      delete body.expectedVersion;
+
       let merged = { ...existing };
       if (draftEditable) {
         merged = {
@@ -9158,6 +10045,7 @@ export const apiRouter = (() => {
       }
 
       let normalized = normalizeContractApprovalData(merged, nowIso);
+      if (draftEditable) Object.assign(normalized, await resolveCustomerLink(pool, normalized));
       const hasStampedAttachments = Array.isArray(normalized.stampedContractAttachments) && normalized.stampedContractAttachments.length > 0;
       const autoCompletedByCashier = cashierEditable && existing.status === "gm_approved" && hasStampedAttachments;
       if (autoCompletedByCashier) {
@@ -9186,9 +10074,9 @@ export const apiRouter = (() => {
         );
       }
 
-      await withTransaction(pool, async (client) => {
+      const nextVersion = await withTransaction(pool, async (client) => {
         await materializeContractAttachments(client, contractId, normalized);
-        await client.query(
+        const { rows: versionRows } = await client.query(
           `
           UPDATE contract_approvals
           SET
@@ -9199,12 +10087,15 @@ export const apiRouter = (() => {
             updated_at = $6,
             submitted_at = $7,
             gm_decision_at = $8,
-            completed_at = $9
+            completed_at = $9,
+            version = version + 1
           WHERE id = $1
+            AND version = $10
+          RETURNING version
           `,
           [
             contractId,
-            JSON.stringify(normalized),
+            JSON.stringify(withoutRecordVersion(normalized)),
             normalized.status,
             normalized.craRequestId ? String(normalized.craRequestId) : null,
             normalized.salesOwnerUserId,
@@ -9212,9 +10103,21 @@ export const apiRouter = (() => {
             normalized.submittedAt ? new Date(normalized.submittedAt) : null,
             normalized.gmDecisionAt ? new Date(normalized.gmDecisionAt) : null,
             normalized.completedAt ? new Date(normalized.completedAt) : null,
+            expectedVersion,
           ]
         );
+        if (!versionRows?.length) {
+          // Roll back the attachment writes as well; the caller reports the conflict.
+          throw createHttpError(409, "Contract approval version conflict", RECORD_VERSION_CONFLICT_CODE);
+        }
+        return parseRecordVersion(versionRows[0].version);
+      }).catch(async (error) => {
+        if (error?.reasonCode !== RECORD_VERSION_CONFLICT_CODE) throw error;
+        respondVersionConflict(await getContractApprovalById(pool, contractId));
+        return null;
       });
+      if (nextVersion === null) return;
+      normalized.version = nextVersion;
 
       if (autoCompletedByCashier) {
         try {
@@ -9261,9 +10164,13 @@ export const apiRouter = (() => {
           fromStatus: existing.status,
           toStatus: normalized.status,
           autoCompletedByCashier,
+          version: normalized.version,
+          expectedVersion,
         },
       });
 
+      setRecordVersionHeader(res, normalized.version);
+      publishContractChanged(normalized, "updated");
       res.json(normalized);
     })
   );
@@ -9298,26 +10205,32 @@ export const apiRouter = (() => {
         return;
       }
 
-      const role = String(req.authUser?.role ?? "").trim().toLowerCase();
       const isOwnerSales =
-        role === "sales" && String(existing.salesOwnerUserId ?? "").trim() === String(req.authUser?.id ?? "").trim();
-      if (requestedStatus === "submitted" && !(isOwnerSales || role === "admin")) {
+        hasRole(req.authUser, "sales") &&
+        String(existing.salesOwnerUserId ?? "").trim() === String(req.authUser?.id ?? "").trim();
+      if (requestedStatus === "submitted" && !(isOwnerSales || hasRole(req.authUser, "admin"))) {
         res.status(403).json({ error: "Only Sales owner or Admin can submit contract approval" });
         return;
       }
-      if ((requestedStatus === "finance_approved" || requestedStatus === "finance_rejected") && role !== "finance") {
+      if (
+        (requestedStatus === "finance_approved" || requestedStatus === "finance_rejected") &&
+        !hasRole(req.authUser, "finance")
+      ) {
         res.status(403).json({ error: "Only Finance can perform this review decision" });
         return;
       }
-      if ((requestedStatus === "gm_approved" || requestedStatus === "gm_rejected") && role !== "admin") {
-        res.status(403).json({ error: "Only Admin can make GM decision" });
+      if (
+        (requestedStatus === "gm_approved" || requestedStatus === "gm_rejected") &&
+        !hasPermission(req.authUser, "approve_gm")
+      ) {
+        res.status(403).json({ error: "Only GM approvers can make the GM decision" });
         return;
       }
       if (requestedStatus === "finance_upload") {
         res.status(400).json({ error: "finance_upload is a legacy status and cannot be set manually" });
         return;
       }
-      if (requestedStatus === "completed" && !(role === "finance" && existing.status === "finance_upload")) {
+      if (requestedStatus === "completed" && !(hasRole(req.authUser, "finance") && existing.status === "finance_upload")) {
         res.status(403).json({ error: "Only Finance can complete legacy finance_upload contracts" });
         return;
       }
@@ -9325,6 +10238,19 @@ export const apiRouter = (() => {
         res.status(400).json({ error: "Reject comment is required" });
         return;
       }
+      const isGmDecision = requestedStatus === "gm_approved" || requestedStatus === "gm_rejected";
+      const signer = isGmDecision ? await verifySignerPassword(pool, req.authUser?.id, req.body?.password) : null;
+      if (isGmDecision && !signer) {
+        await writeAuditLogBestEffort(pool, req, {
+          action: "contract_approval.signature_reauth_failed",
+          targetType: "contract_approval",
+          targetId: contractId,
+          metadata: { status: requestedStatus },
+        });
+        res.status(400).json({ error: "Password confirmation failed" });
+        return;
+      }
+      const reauthenticatedAt = signer ? new Date().toISOString() : null;
 
       const nowIso = new Date().toISOString();
       let updated = normalizeContractApprovalData(
@@ -9381,32 +10307,74 @@ export const apiRouter = (() => {
         }
       }
 
-      await pool.query(
-        `
-        UPDATE contract_approvals
-        SET
-          data = $2::jsonb,
-          status = $3::contract_approval_status,
-          cra_request_id = $4,
-          sales_owner_user_id = $5,
-          updated_at = $6,
-          submitted_at = $7,
-          gm_decision_at = $8,
-          completed_at = $9
-        WHERE id = $1
-        `,
-        [
-          contractId,
-          JSON.stringify(updated),
-          updated.status,
-          updated.craRequestId ? String(updated.craRequestId) : null,
-          updated.salesOwnerUserId,
-          new Date(nowIso),
-          updated.submittedAt ? new Date(updated.submittedAt) : null,
-          updated.gmDecisionAt ? new Date(updated.gmDecisionAt) : null,
-          updated.completedAt ? new Date(updated.completedAt) : null,
-        ]
-      );
+      // The checks above ran on `existing`; a save or another transition since then fails the version predicate.
+      const transitionResult = await withTransaction(pool, async (client) => {
+        const { rows } = await client.query(
+          `
+          UPDATE contract_approvals
+          SET
+            data = $2::jsonb,
+            status = $3::contract_approval_status,
+            cra_request_id = $4,
+            sales_owner_user_id = $5,
+            updated_at = $6,
+            submitted_at = $7,
+            gm_decision_at = $8,
+            completed_at = $9,
+            version = version + 1
+          WHERE id = $1
+            AND version = $10
+          RETURNING version
+          `,
+          [
+            contractId,
+            JSON.stringify(withoutRecordVersion(updated)),
+            updated.status,
+            updated.craRequestId ? String(updated.craRequestId) : null,
+            updated.salesOwnerUserId,
+            new Date(nowIso),
+            updated.submittedAt ? new Date(updated.submittedAt) : null,
+            updated.gmDecisionAt ? new Date(updated.gmDecisionAt) : null,
+            updated.completedAt ? new Date(updated.completedAt) : null,
+            existing.version,
+          ]
+        );
+        if (!rows.length) {
+          throw createHttpError(409, "Contract approval version conflict", RECORD_VERSION_CONFLICT_CODE);
+        }
+        const recorded = signer
+          ? await recordApprovalSignature(client, {
+              targetType: "contract",
+              targetId: contractId,
+              decision: requestedStatus === "gm_approved" ? "approved" : "rejected",
+              record: updated,
+              signer,
+              comment,
+              reauthenticatedAt,
+              signedAt: nowIso,
+            })
+          : null;
+        return { versionRows: rows, signature: recorded };
+      }).catch(async (error) => {
+        if (error?.reasonCode !== RECORD_VERSION_CONFLICT_CODE) throw error;
+        const current = await getContractApprovalById(pool, contractId);
+        if (!current) {
+          res.status(404).json({ error: "Contract approval not found" });
+          return null;
+        }
+        setRecordVersionHeader(res, current.version);
+        res.status(409).json({
+          error: "Contract approval was modified by another user",
+          code: RECORD_VERSION_CONFLICT_CODE,
+          expectedVersion: existing.version,
+          currentVersion: current.version ?? null,
+          current,
+        });
+        return null;
+      });
+      if (!transitionResult) return;
+      const { versionRows, signature } = transitionResult;
+      updated.version = parseRecordVersion(versionRows?.[0]?.version) ?? (existing.version ?? 1) + 1;
 
       const actionByStatus = {
         submitted: "contract_approval.submitted",
@@ -9469,9 +10437,12 @@ export const apiRouter = (() => {
           effectiveStatus: updated.status,
           craRequestId: updated.craRequestId ?? null,
           comment: comment || null,
+          signatureId: signature?.id ?? null,
+          payloadHash: signature?.payloadHash ?? null,
         },
       });
 
+      publishContractChanged(updated, "status_changed");
       res.json(updated);
     })
   );
@@ -9570,12 +10541,16 @@ export const apiRouter = (() => {
     requireAuth,
     asyncHandler(async (req, res) => {
       const pool = await getPool();
-      const { rows } = await pool.query("SELECT id, data FROM requests ORDER BY updated_at DESC");
+      const { rows } = await pool.query("SELECT id, data, version FROM requests ORDER BY updated_at DESC");
 
       const parsed = rows
-        .map((row) => safeParseRequest(row.data, { id: row.id }))
+        .map((row) => {
+          const data = safeParseRequest(row.data, { id: row.id });
+          return data ? { ...withoutRecordVersion(data), version: parseRecordVersion(row.version) ?? 1 } : null;
+        })
         .filter(Boolean);
-      res.json(parsed);
+      const attachmentRules = await getAttachmentAccessRules(pool);
+      res.json(parsed.map((request) => redactRequestForViewer(request, req.authUser, attachmentRules)));
     })
   );
 
@@ -9585,10 +10560,11 @@ export const apiRouter = (() => {
     requireAuth,
     asyncHandler(async (req, res) => {
       const pool = await getPool();
+      const workflow = await getWorkflowDefinition(pool);
       const { rows } = await pool.query(requestSummarySelect);
       res.json(
         rows.map((row) => {
-          const nextAction = resolveNextActionForStatus(row.status);
+          const nextAction = resolveWorkflowNextAction(workflow, row.status);
           return {
             id: row.id,
             status: row.status,
@@ -9608,224 +10584,544 @@ export const apiRouter = (() => {
     })
   );
 
+  // Cursor-paginated, server-filtered listing used by the dashboard table.
   router.get(
-    "/admin/request-status-integrity",
-    requireAdmin,
+    "/requests/list",
+    requireAuth,
     asyncHandler(async (req, res) => {
-      const rawLimit = Number.parseInt(String(req.query.limit ?? "100"), 10);
-      const limit = Number.isFinite(rawLimit) ? rawLimit : 100;
+      const parsed = parseRequestListQuery(req.query);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
       const pool = await getPool();
-      const report = await generateStatusIntegrityReport(pool, { limit });
-      res.json(report);
+      const workflow = await getWorkflowDefinition(pool);
+      const owners = parsed.owners.map((owner) => (owner === "me" ? String(req.authUser?.id ?? "") : owner));
+      const filters = {
+        statuses: parsed.statuses,
+        nextAction: resolveNextActionStatusFilter(workflow, parsed.nextActionRoles),
+        owners: owners.filter(Boolean),
+        countries: parsed.countries,
+        customers: parsed.customers,
+        priorities: parsed.priorities,
+        createdFrom: parsed.createdFrom,
+        createdTo: parsed.createdTo,
+        search: buildRequestSearchTerms(parsed.q, { statusCodes: resolveStatusSearchCodes(parsed.q) }),
+      };
+
+      let page;
+      try {
+        page = await listRequestPage(pool, {
+          filters,
+          sort: parsed.sort,
+          cursor: parsed.cursor,
+          limit: parsed.limit,
+        });
+      } catch (error) {
+        if (error?.status === 400) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+
+      res.json({
+        items: page.rows.map((row) => {
+          const nextAction = resolveWorkflowNextAction(workflow, row.status);
+          return {
+            id: row.id,
+            status: row.status,
+            priority: normalizeRequestPriority(row.priority),
+            clientName: row.clientName ?? "",
+            applicationVehicle: row.applicationVehicle ?? "",
+            country: row.country ?? "",
+            createdBy: row.createdBy ?? "",
+            createdByName: row.createdByName ?? "",
+            createdAt: row.created_at,
+            updatedAt: row.updated_at,
+            version: parseRecordVersion(row.version) ?? 1,
+            nextActionRole: nextAction.role,
+            nextActionLabel: nextAction.label,
+            slaDueAt: row.slaDueAt ?? null,
+            slaState: row.slaState ?? null,
+          };
+        }),
+        nextCursor: page.nextCursor,
+        total: page.total,
+        statusCounts: page.statusCounts,
+        sort: parsed.sort,
+      });
     })
   );
 
-  // Server-side performance overview metrics. The UI intentionally polls the lightweight
-  // `/requests/summary` endpoint (which omits `history`), so we compute KPI aggregates here.
   router.get(
-    "/performance/overview",
+    "/dashboard-views",
     requireAuth,
     asyncHandler(async (req, res) => {
-      const fromRaw = String(req.query.from ?? "").trim();
-      const toRaw = String(req.query.to ?? "").trim();
-      const groupByRaw = String(req.query.groupBy ?? "day").trim();
+      const pool = await getPool();
+      res.json(await listDashboardViews(pool, req.authUser));
+    })
+  );
 
-      const from = new Date(fromRaw);
-      const to = new Date(toRaw);
-      if (!fromRaw || !toRaw || Number.isNaN(+from) || Number.isNaN(+to) || +from > +to) {
-        res.status(400).json({ error: "Invalid query: expected from/to ISO dates (from <= to)" });
-        return;
-      }
-
-      const groupBy = groupByRaw === "week" || groupByRaw === "month" ? groupByRaw : "day";
-      // "Completed" means finished/approved/closed. A GM rejection is not completed:
-      // it returns to Sales follow-up per business process.
-      const COMPLETED_STATUSES = new Set(["gm_approved", "closed"]);
-      const SUBMITTED_STATUSES = new Set(["submitted"]);
-
-      const quantile = (values, p) => {
-        if (!Array.isArray(values) || values.length === 0) return 0;
-        const sorted = [...values].sort((a, b) => a - b);
-        const idx = (sorted.length - 1) * p;
-        const lo = Math.floor(idx);
-        const hi = Math.ceil(idx);
-        if (lo === hi) return sorted[lo];
-        const w = idx - lo;
-        return sorted[lo] * (1 - w) + sorted[hi] * w;
-      };
-
-      const parseHistory = (raw) => {
-        const history = Array.isArray(raw) ? raw : [];
-        const parsed = history
-          .map((h) => {
-            const status = typeof h?.status === "string" ? h.status : null;
-            const rawTs = h?.timestamp ?? h?.ts ?? h?.time ?? null;
-            const ts = rawTs ? new Date(String(rawTs)) : null;
-            if (!status || !ts || Number.isNaN(+ts)) return null;
-            return { status, ts };
-          })
-          .filter(Boolean)
-          .sort((a, b) => +a.ts - +b.ts);
-        return parsed;
-      };
+  router.post(
+    "/dashboard-views",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const name = normalizeDashboardViewName(req.body?.name);
+      if (!name || name.length > DASHBOARD_VIEW_NAME_MAX_LENGTH) {
+        res.status(400).json({ error: `View name is required (max ${DASHBOARD_VIEW_NAME_MAX_LENGTH} characters)` });
+        return;
+      }
+      const sharedRole = parseDashboardViewShareRole(req.body?.sharedRole);
+      if (sharedRole === undefined) {
+        res.status(400).json({ error: `Invalid sharedRole. Use: ${DASHBOARD_VIEW_SHARE_ROLES.join(", ")}` });
+        return;
+      }
+      if (sharedRole && !hasPermission(req.authUser, "manage_settings")) {
+        res.status(403).json({ error: "Only admins can publish shared views" });
+        return;
+      }
 
-      const findFirstStatusTime = (history, predicate) => {
-        for (const h of history) {
-          if (predicate(h.status)) return h.ts;
+      const pool = await getPool();
+      const userId = String(req.authUser?.id ?? "");
+      if (!sharedRole) {
+        const { rows: countRows } = await pool.query(
+          "SELECT COUNT(*)::int AS count FROM dashboard_views WHERE owner_user_id = $1",
+          [userId]
+        );
+        if ((countRows[0]?.count ?? 0) >= DASHBOARD_VIEWS_PER_USER_LIMIT) {
+          res.status(400).json({ error: `You can save up to ${DASHBOARD_VIEWS_PER_USER_LIMIT} views` });
+          return;
         }
-        return null;
-      };
+      }
 
-      const getStatusAt = (history, at) => {
-        let status = null;
-        for (const h of history) {
-          if (+h.ts > +at) break;
-          status = h.status;
-        }
-        return status;
-      };
+      const id = randomUUID();
+      const { rows } = await pool.query(
+        `INSERT INTO dashboard_views (id, name, owner_user_id, shared_role, config, created_by_user_id, created_by_name)
+         VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7)
+         RETURNING id, name, owner_user_id, shared_role, config, created_by_name, created_at, updated_at`,
+        [
+          id,
+          name,
+          sharedRole ? null : userId,
+          sharedRole,
+          JSON.stringify(sanitizeDashboardViewConfig(req.body?.config)),
+          userId,
+          String(req.authUser?.name ?? ""),
+        ]
+      );
+      if (sharedRole) {
+        await writeAuditLogBestEffort(pool, req, {
+          action: "dashboard_view.shared_created",
+          targetType: "dashboard_view",
+          targetId: id,
+          metadata: { name, sharedRole },
+        });
+      }
+      res.status(201).json(mapDashboardViewRow(rows[0], req.authUser));
+    })
+  );
 
+  router.put(
+    "/dashboard-views/:viewId",
+    requireAuth,
+    asyncHandler(async (req, res) => {
       const pool = await getPool();
-      const { rows } = await pool.query("SELECT id, status, data FROM requests");
-
-      const requests = rows.map((row) => {
-        const data = row.data && typeof row.data === "object" ? row.data : {};
-        return {
-          id: String(row.id),
-          status: typeof row.status === "string" ? row.status : String(data?.status ?? ""),
-          history: parseHistory(data?.history),
-        };
-      });
-
-      const inRange = (ts, start, end) => +ts >= +start && +ts <= +end;
-
-      const submittedCount = requests.filter((r) => {
-        const ts = findFirstStatusTime(r.history, (s) => SUBMITTED_STATUSES.has(s));
-        return ts ? inRange(ts, from, to) : false;
-      }).length;
-
-      const completedCount = requests.filter((r) => {
-        const ts = findFirstStatusTime(r.history, (s) => COMPLETED_STATUSES.has(s));
-        return ts ? inRange(ts, from, to) : false;
-      }).length;
-
-      const wipCount = requests.filter((r) => r.status !== "draft" && !COMPLETED_STATUSES.has(r.status)).length;
-
-      const e2eByEnd = [];
-      requests.forEach((r) => {
-        const startAt = findFirstStatusTime(r.history, (s) => SUBMITTED_STATUSES.has(s));
-        const endAt = findFirstStatusTime(r.history, (s) => COMPLETED_STATUSES.has(s));
-        if (!startAt || !endAt) return;
-        const hours = (+endAt - +startAt) / (1000 * 60 * 60);
-        if (hours < 0) return;
-        e2eByEnd.push({ endAt, hours });
-      });
-
-      const e2eValuesInRange = e2eByEnd.filter((x) => inRange(x.endAt, from, to)).map((x) => x.hours);
-      const e2eMedian = Number(quantile(e2eValuesInRange, 0.5).toFixed(1));
-      const e2eP90 = Number(quantile(e2eValuesInRange, 0.9).toFixed(1));
-      const e2eSamples = e2eValuesInRange.length;
-
-      const addMonthsUtc = (date, months) => {
-        const d = new Date(date.getTime());
-        d.setUTCMonth(d.getUTCMonth() + months);
-        return d;
-      };
-
-      const stepNext = (date) => {
-        if (groupBy === "week") return new Date(date.getTime() + 7 * 24 * 60 * 60 * 1000);
-        if (groupBy === "month") return addMonthsUtc(date, 1);
-        return new Date(date.getTime() + 24 * 60 * 60 * 1000);
-      };
-
-      const intervalStarts = [];
-      for (let cursor = new Date(from.getTime()); +cursor <= +to; cursor = stepNext(cursor)) {
-        intervalStarts.push(new Date(cursor.getTime()));
+      const existing = await getDashboardViewRow(pool, String(req.params.viewId ?? ""));
+      if (!existing) {
+        res.status(404).json({ error: "View not found" });
+        return;
+      }
+      if (!canEditDashboardView(existing, req.authUser)) {
+        res.status(403).json({ error: "You cannot edit this view" });
+        return;
       }
 
-      const seriesSubmitted = [];
-      const seriesCompleted = [];
-      const seriesWip = [];
-      const seriesE2eMedian = [];
-
-      for (let i = 0; i < intervalStarts.length; i++) {
-        const start = intervalStarts[i];
-        const next = i + 1 < intervalStarts.length ? intervalStarts[i + 1] : null;
-        const end = next ? new Date(next.getTime() - 1) : new Date(to.getTime());
-        if (+end > +to) end.setTime(to.getTime());
+      const hasName = req.body?.name !== undefined;
+      const name = hasName ? normalizeDashboardViewName(req.body?.name) : existing.name;
+      if (!name || name.length > DASHBOARD_VIEW_NAME_MAX_LENGTH) {
+        res.status(400).json({ error: `View name is required (max ${DASHBOARD_VIEW_NAME_MAX_LENGTH} characters)` });
+        return;
+      }
+      // Shared views can be re-targeted to another role but not turned back into a personal view.
+      let sharedRole = existing.shared_role ?? null;
+      if (existing.shared_role && req.body?.sharedRole !== undefined) {
+        sharedRole = parseDashboardViewShareRole(req.body.sharedRole);
+        if (!sharedRole) {
+          res.status(400).json({ error: `Invalid sharedRole. Use: ${DASHBOARD_VIEW_SHARE_ROLES.join(", ")}` });
+          return;
+        }
+      }
+      const config =
+        req.body?.config !== undefined ? sanitizeDashboardViewConfig(req.body.config) : sanitizeDashboardViewConfig(existing.config);
 
-        let sCount = 0;
-        let cCount = 0;
-        requests.forEach((r) => {
-          const s = findFirstStatusTime(r.history, (st) => SUBMITTED_STATUSES.has(st));
-          if (s && inRange(s, start, end)) sCount++;
-          const c = findFirstStatusTime(r.history, (st) => COMPLETED_STATUSES.has(st));
-          if (c && inRange(c, start, end)) cCount++;
+      const { rows } = await pool.query(
+        `UPDATE dashboard_views
+         SET name = $2, shared_role = $3, config = $4::jsonb, updated_at = now()
+         WHERE id = $1
+         RETURNING id, name, owner_user_id, shared_role, config, created_by_name, created_at, updated_at`,
+        [existing.id, name, sharedRole, JSON.stringify(config)]
+      );
+      if (existing.shared_role) {
+        await writeAuditLogBestEffort(pool, req, {
+          action: "dashboard_view.shared_updated",
+          targetType: "dashboard_view",
+          targetId: existing.id,
+          metadata: { name, sharedRole },
         });
+      }
+      res.json(mapDashboardViewRow(rows[0], req.authUser));
+    })
+  );
 
-        let wipSnap = 0;
-        requests.forEach((r) => {
-          if (!r.history.length) return;
-          const statusAt = getStatusAt(r.history, end);
-          if (!statusAt) return;
-          if (statusAt === "draft") return;
-          if (COMPLETED_STATUSES.has(statusAt)) return;
-          wipSnap++;
+  router.delete(
+    "/dashboard-views/:viewId",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      const existing = await getDashboardViewRow(pool, String(req.params.viewId ?? ""));
+      if (!existing) {
+        res.status(404).json({ error: "View not found" });
+        return;
+      }
+      if (!canEditDashboardView(existing, req.authUser)) {
+        res.status(403).json({ error: "You cannot delete this view" });
+        return;
+      }
+      await pool.query("DELETE FROM dashboard_views WHERE id = $1", [existing.id]);
+      if (existing.shared_role) {
+        await writeAuditLogBestEffort(pool, req, {
+          action: "dashboard_view.shared_deleted",
+          targetType: "dashboard_view",
+          targetId: existing.id,
+          metadata: { name: existing.name, sharedRole: existing.shared_role },
         });
+      }
+      res.status(204).send();
+    })
+  );
 
-        const intervalE2e = e2eByEnd.filter((x) => inRange(x.endAt, start, end)).map((x) => x.hours);
+  router.get(
+    "/admin/sla",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      res.json(await getSlaConfig(pool));
+    })
+  );
 
-        seriesSubmitted.push(sCount);
-        seriesCompleted.push(cCount);
-        seriesWip.push(wipSnap);
-        seriesE2eMedian.push(Number(quantile(intervalE2e, 0.5).toFixed(1)));
+  router.put(
+    "/admin/sla",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const parsed = parseSlaConfigPayload(req.body, { isKnownStatus: isKnownRequestStatus });
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
       }
 
-      res.json({
-        overview: {
-          submittedCount,
-          wipCount,
-          completedCount,
-          e2eMedian,
-          e2eP90,
-          e2eSamples,
-        },
-        series: {
-          submitted: seriesSubmitted,
-          wip: seriesWip,
-          completed: seriesCompleted,
-          e2eMedian: seriesE2eMedian,
+      const pool = await getPool();
+      await withTransaction(pool, (client) =>
+        saveSlaConfig(client, parsed.value, { userId: String(req.authUser?.id ?? "") })
+      );
+      await writeAuditLogBestEffort(pool, req, {
+        action: "admin.sla_updated",
+        targetType: "sla_settings",
+        targetId: "1",
+        metadata: {
+          enabled: parsed.value.settings.enabled,
+          policyCount: parsed.value.policies.length,
+          holidayCount: parsed.value.holidays.length,
         },
       });
+      // Due dates follow the new calendar right away; escalations wait for the next monitor tick.
+      try {
+        await refreshRequestSlaStates(pool);
+      } catch (error) {
+        console.error("Failed to refresh request SLA states:", error);
+      }
+      res.json(await getSlaConfig(pool));
     })
   );
 
-  // Server-side performance section metrics. Uses DB `history` so it works with the
-  // lightweight `/requests/summary` polling (which omits `history`).
   router.get(
-    "/performance/sections",
-    requireAuth,
+    "/admin/attachment-access",
+    requireAdmin,
     asyncHandler(async (req, res) => {
-      const fromRaw = String(req.query.from ?? "").trim();
-      const toRaw = String(req.query.to ?? "").trim();
-      const groupByRaw = String(req.query.groupBy ?? "day").trim();
-      const slaRaw = String(req.query.slaHours ?? "24").trim();
+      const pool = await getPool();
+      res.json({ rules: await getAttachmentAccessRules(pool) });
+    })
+  );
 
-      const from = new Date(fromRaw);
-      const to = new Date(toRaw);
-      const slaHours = Number(slaRaw);
-      if (!fromRaw || !toRaw || Number.isNaN(+from) || Number.isNaN(+to) || +from > +to) {
-        res.status(400).json({ error: "Invalid query: expected from/to ISO dates (from <= to)" });
-        return;
-      }
-      if (!Number.isFinite(slaHours) || slaHours <= 0) {
-        res.status(400).json({ error: "Invalid query: expected slaHours > 0" });
+  router.put(
+    "/admin/attachment-access",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const parsed = parseAttachmentAccessPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
         return;
       }
 
-      const groupBy = groupByRaw === "week" || groupByRaw === "month" ? groupByRaw : "day";
-
-      const COMPLETED_STATUSES = new Set(["gm_approved", "closed"]);
+      const pool = await getPool();
+      const previous = await getAttachmentAccessRules(pool);
+      await withTransaction(pool, (client) =>
+        saveAttachmentAccessRules(client, parsed.value, { userId: String(req.authUser?.id ?? "") })
+      );
+      await writeAuditLogBestEffort(pool, req, {
+        action: "admin.attachment_access_updated",
+        targetType: "attachment_access",
+        targetId: "rules",
+        metadata: { previous, rules: parsed.value },
+      });
+      res.json({ rules: await getAttachmentAccessRules(pool) });
+    })
+  );
+
+  router.get(
+    "/admin/exchange-rates",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      res.json(await getExchangeRateConfig(pool));
+    })
+  );
+
+  router.put(
+    "/admin/exchange-rates",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const parsed = parseExchangeRateConfigPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const pool = await getPool();
+      await withTransaction(pool, (client) =>
+        saveExchangeRateConfig(client, parsed.value, { userId: String(req.authUser?.id ?? "") })
+      );
+      await writeAuditLogBestEffort(pool, req, {
+        action: "admin.exchange_rates_updated",
+        targetType: "exchange_rate_settings",
+        targetId: "1",
+        metadata: {
+          reportingCurrency: parsed.value.reportingCurrency,
+          rateCount: parsed.value.rates.length,
+        },
+      });
+      res.json(await getExchangeRateConfig(pool));
+    })
+  );
+
+  // Sales pick templates in the Client Offer sheet; only admins maintain them.
+  router.get(
+    "/offer-templates",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      const [templates, clauses] = await Promise.all([listOfferTemplates(pool), listOfferClauses(pool)]);
+      res.json({ templates, clauses });
+    })
+  );
+
+  const saveOfferTemplateRoute = (isCreate) =>
+    asyncHandler(async (req, res) => {
+      const parsed = parseOfferTemplatePayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const pool = await getPool();
+      const missingClauseIds = await findMissingOfferClauseIds(pool, parsed.value.clauseIds);
+      if (missingClauseIds.length) {
+        res.status(400).json({ error: "Unknown clause in template" });
+        return;
+      }
+
+      let template;
+      try {
+        template = await saveOfferTemplate(
+          pool,
+          isCreate ? null : String(req.params.templateId ?? ""),
+          parsed.value,
+          req.authUser
+        );
+      } catch (error) {
+        if (String(error?.code ?? "") === "23505") {
+          res.status(409).json({ error: "Offer template name already exists" });
+          return;
+        }
+        throw error;
+      }
+      if (!template) {
+        res.status(404).json({ error: "Offer template not found" });
+        return;
+      }
+
+      await writeAuditLogBestEffort(pool, req, {
+        action: isCreate ? "admin.offer_template_created" : "admin.offer_template_updated",
+        targetType: "offer_template",
+        targetId: template.id,
+        metadata: { name: template.name, clauseCount: template.clauseIds.length },
+      });
+      res.status(isCreate ? 201 : 200).json(template);
+    });
+
+  router.post("/admin/offer-templates", requireAdmin, saveOfferTemplateRoute(true));
+  router.put("/admin/offer-templates/:templateId", requireAdmin, saveOfferTemplateRoute(false));
+
+  router.delete(
+    "/admin/offer-templates/:templateId",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const templateId = String(req.params.templateId ?? "");
+      const pool = await getPool();
+      if (!(await deleteOfferTemplate(pool, templateId))) {
+        res.status(404).json({ error: "Offer template not found" });
+        return;
+      }
+      await writeAuditLogBestEffort(pool, req, {
+        action: "admin.offer_template_deleted",
+        targetType: "offer_template",
+        targetId: templateId,
+      });
+      res.status(204).send();
+    })
+  );
+
+  const saveOfferClauseRoute = (isCreate) =>
+    asyncHandler(async (req, res) => {
+      const parsed = parseOfferClausePayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const pool = await getPool();
+      const clause = await saveOfferClause(
+        pool,
+        isCreate ? null : String(req.params.clauseId ?? ""),
+        parsed.value,
+        req.authUser
+      );
+      if (!clause) {
+        res.status(404).json({ error: "Offer clause not found" });
+        return;
+      }
+
+      await writeAuditLogBestEffort(pool, req, {
+        action: isCreate ? "admin.offer_clause_created" : "admin.offer_clause_updated",
+        targetType: "offer_clause",
+        targetId: clause.id,
+        metadata: { title: clause.title, category: clause.category },
+      });
+      res.status(isCreate ? 201 : 200).json(clause);
+    });
+
+  router.post("/admin/offer-clauses", requireAdmin, saveOfferClauseRoute(true));
+  router.put("/admin/offer-clauses/:clauseId", requireAdmin, saveOfferClauseRoute(false));
+
+  // Offers keep their copy of the clause; only the library and the templates lose it.
+  router.delete(
+    "/admin/offer-clauses/:clauseId",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const clauseId = String(req.params.clauseId ?? "");
+      const pool = await getPool();
+      if (!(await withTransaction(pool, (client) => deleteOfferClause(client, clauseId)))) {
+        res.status(404).json({ error: "Offer clause not found" });
+        return;
+      }
+      await writeAuditLogBestEffort(pool, req, {
+        action: "admin.offer_clause_deleted",
+        targetType: "offer_clause",
+        targetId: clauseId,
+      });
+      res.status(204).send();
+    })
+  );
+
+  // Every signed-in user reads the workflow so the UI can offer only the transitions their role may fire.
+  router.get(
+    "/workflow",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const pool = await getPool();
+      const workflow = await getWorkflowDefinition(pool);
+      res.json(toWorkflowResponse(workflow));
+    })
+  );
+
+  router.put(
+    "/admin/workflow",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const parsed = parseWorkflowDefinitionPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+
+      const pool = await getPool();
+      await withTransaction(pool, (client) =>
+        saveWorkflowDefinition(client, parsed.value, { userId: String(req.authUser?.id ?? "") })
+      );
+      const workflow = await loadWorkflowDefinition(pool);
+      await writeAuditLogBestEffort(pool, req, {
+        action: "admin.workflow_updated",
+        targetType: "workflow",
+        targetId: "1",
+        metadata: {
+          stateCount: parsed.value.states.length,
+          transitionCount: parsed.value.transitions.length,
+        },
+      });
+      res.json(toWorkflowResponse(workflow));
+    })
+  );
+
+  router.get(
+    "/admin/request-status-integrity",
+    requireAdmin,
+    asyncHandler(async (req, res) => {
+      const rawLimit = Number.parseInt(String(req.query.limit ?? "100"), 10);
+      const limit = Number.isFinite(rawLimit) ? rawLimit : 100;
+      const pool = await getPool();
+      const report = await generateStatusIntegrityReport(pool, { limit });
+      res.json(report);
+    })
+  );
+
+  // Server-side performance overview metrics. The UI intentionally polls the lightweight
+  // `/requests/summary` endpoint (which omits `history`), so we compute KPI aggregates here.
+  router.get(
+    "/performance/overview",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const fromRaw = String(req.query.from ?? "").trim();
+      const toRaw = String(req.query.to ?? "").trim();
+      const groupByRaw = String(req.query.groupBy ?? "day").trim();
+
+      const from = new Date(fromRaw);
+      const to = new Date(toRaw);
+      if (!fromRaw || !toRaw || Number.isNaN(+from) || Number.isNaN(+to) || +from > +to) {
+        res.status(400).json({ error: "Invalid query: expected from/to ISO dates (from <= to)" });
+        return;
+      }
+
+      const groupBy = groupByRaw === "week" || groupByRaw === "month" ? groupByRaw : "day";
+      const currencyRaw = String(req.query.currency ?? "").trim();
+      if (currencyRaw && !normalizeCurrency(currencyRaw)) {
+        res.status(400).json({ error: "Invalid query: unknown currency" });
+        return;
+      }
+      // "Completed" means finished/approved/closed. A GM rejection is not completed:
+      // it returns to Sales follow-up per business process.
+      const COMPLETED_STATUSES = new Set(["gm_approved", "closed"]);
+      const SUBMITTED_STATUSES = new Set(["submitted"]);
 
       const quantile = (values, p) => {
         if (!Array.isArray(values) || values.length === 0) return 0;
@@ -9846,303 +11142,537 @@ export const apiRouter = (() => {
             const rawTs = h?.timestamp ?? h?.ts ?? h?.time ?? null;
             const ts = rawTs ? new Date(String(rawTs)) : null;
             if (!status || !ts || Number.isNaN(+ts)) return null;
-            const userName = typeof h?.userName === "string" ? h.userName : undefined;
-            return { status, ts, userName };
+            return { status, ts };
           })
           .filter(Boolean)
           .sort((a, b) => +a.ts - +b.ts);
         return parsed;
       };
 
-      const findFirstStatusTime = (history, statuses) => {
+      const findFirstStatusTime = (history, predicate) => {
         for (const h of history) {
-          if (statuses.includes(h.status)) return h.ts;
+          if (predicate(h.status)) return h.ts;
         }
         return null;
       };
 
-      const findFirstStatusTimeAfter = (history, after, statuses) => {
+      const getStatusAt = (history, at) => {
+        let status = null;
         for (const h of history) {
-          if (+h.ts < +after) continue;
-          if (!statuses.includes(h.status)) continue;
-          return { ts: h.ts, by: h.userName };
-        }
-        return null;
-      };
-
-      const stageEntryTimeForCurrentRun = (history, wipStatuses, now) => {
-        if (!history.length) return null;
-        const wip = new Set(wipStatuses);
-        // Find the last event at/under now.
-        let idx = history.length - 1;
-        while (idx >= 0 && +history[idx].ts > +now) idx--;
-        if (idx < 0) return null;
-
-        let entry = history[idx].ts;
-        for (let i = idx; i >= 0; i--) {
-          if (!wip.has(history[i].status)) break;
-          entry = history[i].ts;
+          if (+h.ts > +at) break;
+          status = h.status;
         }
-        return entry;
-      };
-
-      const computeStageCycles = (requests, stage, range) => {
-        const cycles = [];
-        requests.forEach((r) => {
-          const history = r.history ?? [];
-          const stageStart = findFirstStatusTime(history, stage.startStatuses);
-          if (!stageStart) return;
-          const endHit = findFirstStatusTimeAfter(history, stageStart, stage.endStatuses);
-          if (!endHit) return;
-          if (!isWithinInterval(endHit.ts, range)) return;
-          const diffHours = (+endHit.ts - +stageStart) / (1000 * 60 * 60);
-          if (diffHours < 0) return;
-          cycles.push({
-            requestId: r.id,
-            clientName: r.clientName || "-",
-            startAt: stageStart,
-            endAt: endHit.ts,
-            hours: Number(diffHours.toFixed(1)),
-            endBy: endHit.by,
-          });
-        });
-        cycles.sort((a, b) => b.hours - a.hours);
-        return cycles;
-      };
-
-      const computeClarificationCycles = (requests, range) => {
-        const cycles = [];
-        requests.forEach((r) => {
-          const history = r.history ?? [];
-          for (let i = 0; i < history.length; i++) {
-            const h = history[i];
-            if (h.status !== "clarification_needed") continue;
-            const startAt = h.ts;
-            let endAt = null;
-            let endBy = undefined;
-            for (let j = i + 1; j < history.length; j++) {
-              const next = history[j];
-              if (next.status === "clarification_needed") continue;
-              endAt = next.ts;
-              endBy = next.userName;
-              break;
-            }
-            if (!endAt) continue;
-            if (!isWithinInterval(endAt, range)) continue;
-            const diffHours = (+endAt - +startAt) / (1000 * 60 * 60);
-            if (diffHours < 0) continue;
-            cycles.push({
-              requestId: r.id,
-              clientName: r.clientName || "-",
-              startAt,
-              endAt,
-              hours: Number(diffHours.toFixed(1)),
-              endBy,
-            });
-          }
-        });
-        cycles.sort((a, b) => b.hours - a.hours);
-        return cycles;
+        return status;
       };
 
       const pool = await getPool();
-      const { rows } = await pool.query("SELECT id, status, data FROM requests");
+      const [{ rows }, rateConfig] = await Promise.all([
+        pool.query("SELECT id, status, data FROM requests"),
+        getExchangeRateConfig(pool),
+      ]);
+      const rateTable = buildRateTable(rateConfig);
+      const reportingCurrency = normalizeCurrency(currencyRaw) || rateConfig.reportingCurrency;
+
       const requests = rows.map((row) => {
         const data = row.data && typeof row.data === "object" ? row.data : {};
+        const history = parseHistory(data?.history);
+        const completedAt = findFirstStatusTime(history, (s) => COMPLETED_STATUSES.has(s));
         return {
           id: String(row.id),
           status: typeof row.status === "string" ? row.status : String(data?.status ?? ""),
-          clientName: typeof data?.clientName === "string" ? data.clientName : "",
-          history: parseHistory(data?.history),
+          history,
+          completedAt,
+          // Final price in the reporting currency, at the completion-day rate unless frozen at GM approval.
+          completedValue: completedAt ? convertRequestFinalPrice(rateTable, data, reportingCurrency, completedAt) : null,
+          hasFinalPrice: completedAt ? Boolean(resolveRequestFinalPrice(data)) : false,
         };
       });
 
-      const range = { start: from, end: to };
-      const now = new Date();
+      const sumCompletedValue = (start, end) =>
+        requests.reduce(
+          (total, r) => (r.completedValue && inRange(r.completedAt, start, end) ? total + r.completedValue.amount : total),
+          0
+        );
 
-      const stageDefs = {
-        design: {
-          key: "design",
-          wipStatuses: ["submitted", "edited", "under_review", "clarification_needed", "feasibility_confirmed"],
-          startStatuses: ["submitted"],
-          endStatuses: ["design_result"],
-        },
-        costing: {
-          key: "costing",
-          wipStatuses: ["design_result", "in_costing"],
-          startStatuses: ["design_result", "in_costing"],
-          endStatuses: ["costing_complete"],
-        },
-        sales: {
-          key: "sales",
-          wipStatuses: ["costing_complete", "sales_followup", "gm_rejected"],
-          startStatuses: ["costing_complete", "sales_followup", "gm_rejected"],
-          endStatuses: ["gm_approval_pending"],
-        },
-        gm: {
-          key: "gm",
-          wipStatuses: ["gm_approval_pending"],
-          startStatuses: ["gm_approval_pending"],
-          endStatuses: ["gm_approved", "closed"],
-        },
-      };
+      const inRange = (ts, start, end) => +ts >= +start && +ts <= +end;
 
-      const buildStageMetrics = (key, stage, cycles) => {
-        const values = cycles.map((c) => c.hours);
-        const median = quantile(values, 0.5);
-        const p90 = quantile(values, 0.9);
-        const met = values.length
-          ? Math.round((values.filter((v) => v <= slaHours).length / values.length) * 100)
-          : 0;
+      const submittedCount = requests.filter((r) => {
+        const ts = findFirstStatusTime(r.history, (s) => SUBMITTED_STATUSES.has(s));
+        return ts ? inRange(ts, from, to) : false;
+      }).length;
 
-        const wipNow = requests.filter((r) => stage.wipStatuses.includes(r.status)).length;
-        const ages = requests
-          .filter((r) => stage.wipStatuses.includes(r.status))
-          .map((r) => {
-            const entry = stageEntryTimeForCurrentRun(r.history ?? [], stage.wipStatuses, now);
-            if (!entry) return null;
-            const ageH = (+now - +entry) / (1000 * 60 * 60);
-            return Number.isFinite(ageH) && ageH >= 0 ? ageH : null;
-          })
-          .filter((v) => v !== null);
-        const oldest = ages.length ? Math.max(...ages) : 0;
+      const completedCount = requests.filter((r) => {
+        const ts = findFirstStatusTime(r.history, (s) => COMPLETED_STATUSES.has(s));
+        return ts ? inRange(ts, from, to) : false;
+      }).length;
 
-        return {
-          throughput: cycles.length,
-          medianHours: Number(median.toFixed(1)),
-          p90Hours: Number(p90.toFixed(1)),
-          slaMetPct: met,
-          samples: values.length,
-          cycles: cycles.slice(0, 10).map((c) => ({
-            requestId: c.requestId,
-            clientName: c.clientName,
-            startAt: c.startAt.toISOString(),
-            endAt: c.endAt.toISOString(),
-            hours: c.hours,
-            endBy: c.endBy,
-          })),
-          wipNow,
-          oldestWipHours: Number(oldest.toFixed(1)),
-        };
-      };
+      const completedValue = Number(sumCompletedValue(from, to).toFixed(2));
+      // Priced requests left out of the total because no rate covers their currency and date.
+      const unconvertedCount = requests.filter(
+        (r) => r.hasFinalPrice && !r.completedValue && inRange(r.completedAt, from, to)
+      ).length;
 
-      const designCycles = computeStageCycles(requests, stageDefs.design, range);
-      const costingCycles = computeStageCycles(requests, stageDefs.costing, range);
-      const salesCycles = computeStageCycles(requests, stageDefs.sales, range);
-      const gmCycles = computeStageCycles(requests, stageDefs.gm, range);
-      const clarificationCycles = computeClarificationCycles(requests, range);
+      const wipCount = requests.filter((r) => r.status !== "draft" && !COMPLETED_STATUSES.has(r.status)).length;
 
-      const metricsByStage = {
-        design: buildStageMetrics("design", stageDefs.design, designCycles),
-        costing: buildStageMetrics("costing", stageDefs.costing, costingCycles),
-        sales: buildStageMetrics("sales", stageDefs.sales, salesCycles),
-        gm: buildStageMetrics("gm", stageDefs.gm, gmCycles),
-        clarification: buildStageMetrics("clarification", { wipStatuses: ["clarification_needed"] }, clarificationCycles),
-      };
+      const e2eByEnd = [];
+      requests.forEach((r) => {
+        const startAt = findFirstStatusTime(r.history, (s) => SUBMITTED_STATUSES.has(s));
+        const endAt = findFirstStatusTime(r.history, (s) => COMPLETED_STATUSES.has(s));
+        if (!startAt || !endAt) return;
+        const hours = (+endAt - +startAt) / (1000 * 60 * 60);
+        if (hours < 0) return;
+        e2eByEnd.push({ endAt, hours });
+      });
 
-      const { start, end } = range;
-      const intervals =
-        groupBy === "day"
-          ? eachDayOfInterval({ start, end })
-          : groupBy === "week"
-            ? eachWeekOfInterval({ start, end }, { weekStartsOn: 1 })
-            : eachMonthOfInterval({ start, end });
+      const e2eValuesInRange = e2eByEnd.filter((x) => inRange(x.endAt, from, to)).map((x) => x.hours);
+      const e2eMedian = Number(quantile(e2eValuesInRange, 0.5).toFixed(1));
+      const e2eP90 = Number(quantile(e2eValuesInRange, 0.9).toFixed(1));
+      const e2eSamples = e2eValuesInRange.length;
 
-      const intervalLabel = (date) => (groupBy === "month" ? format(date, "MMM yyyy") : format(date, "MMM dd"));
-      const intervalEnd = (date) => {
-        if (groupBy === "day") return new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1);
-        if (groupBy === "week") return new Date(date.getTime() + 7 * 24 * 60 * 60 * 1000 - 1);
-        return new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59);
+      const addMonthsUtc = (date, months) => {
+        const d = new Date(date.getTime());
+        d.setUTCMonth(d.getUTCMonth() + months);
+        return d;
       };
 
-      const pickIntervalStart = (ts) => {
-        for (const d of intervals) {
-          if (isWithinInterval(ts, { start: d, end: intervalEnd(d) })) return d;
-        }
-        return null;
+      const stepNext = (date) => {
+        if (groupBy === "week") return new Date(date.getTime() + 7 * 24 * 60 * 60 * 1000);
+        if (groupBy === "month") return addMonthsUtc(date, 1);
+        return new Date(date.getTime() + 24 * 60 * 60 * 1000);
       };
 
-      const intervalData = intervals.map((d) => ({
-        date: intervalLabel(d),
-        designCount: 0,
-        designAvg: 0,
-        costingCount: 0,
-        costingAvg: 0,
-        salesCount: 0,
-        salesAvg: 0,
-        gmCount: 0,
-        gmAvg: 0,
-        clarificationCount: 0,
-        clarificationAvg: 0,
-      }));
+      const intervalStarts = [];
+      for (let cursor = new Date(from.getTime()); +cursor <= +to; cursor = stepNext(cursor)) {
+        intervalStarts.push(new Date(cursor.getTime()));
+      }
 
-      const addCyclesToIntervals = (key, cycles) => {
-        const perLabel = {};
-        intervalData.forEach((r) => (perLabel[r.date] = []));
-        cycles.forEach((c) => {
-          const d = pickIntervalStart(c.endAt);
-          if (!d) return;
-          const label = intervalLabel(d);
-          if (!perLabel[label]) perLabel[label] = [];
-          perLabel[label].push(c.hours);
+      const seriesSubmitted = [];
+      const seriesCompleted = [];
+      const seriesWip = [];
+      const seriesE2eMedian = [];
+      const seriesCompletedValue = [];
+
+      for (let i = 0; i < intervalStarts.length; i++) {
+        const start = intervalStarts[i];
+        const next = i + 1 < intervalStarts.length ? intervalStarts[i + 1] : null;
+        const end = next ? new Date(next.getTime() - 1) : new Date(to.getTime());
+        if (+end > +to) end.setTime(to.getTime());
+
+        let sCount = 0;
+        let cCount = 0;
+        requests.forEach((r) => {
+          const s = findFirstStatusTime(r.history, (st) => SUBMITTED_STATUSES.has(st));
+          if (s && inRange(s, start, end)) sCount++;
+          const c = findFirstStatusTime(r.history, (st) => COMPLETED_STATUSES.has(st));
+          if (c && inRange(c, start, end)) cCount++;
         });
-        intervalData.forEach((row) => {
-          const values = perLabel[row.date] || [];
-          const avg = values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
-          if (key === "design") {
-            row.designCount = values.length;
-            row.designAvg = Number(avg.toFixed(1));
-          } else if (key === "costing") {
-            row.costingCount = values.length;
-            row.costingAvg = Number(avg.toFixed(1));
-          } else if (key === "sales") {
-            row.salesCount = values.length;
-            row.salesAvg = Number(avg.toFixed(1));
-          } else if (key === "gm") {
-            row.gmCount = values.length;
-            row.gmAvg = Number(avg.toFixed(1));
-          } else if (key === "clarification") {
-            row.clarificationCount = values.length;
-            row.clarificationAvg = Number(avg.toFixed(1));
-          }
+
+        let wipSnap = 0;
+        requests.forEach((r) => {
+          if (!r.history.length) return;
+          const statusAt = getStatusAt(r.history, end);
+          if (!statusAt) return;
+          if (statusAt === "draft") return;
+          if (COMPLETED_STATUSES.has(statusAt)) return;
+          wipSnap++;
         });
-      };
 
-      addCyclesToIntervals("design", designCycles);
-      addCyclesToIntervals("costing", costingCycles);
-      addCyclesToIntervals("sales", salesCycles);
-      addCyclesToIntervals("gm", gmCycles);
-      addCyclesToIntervals("clarification", clarificationCycles);
+        const intervalE2e = e2eByEnd.filter((x) => inRange(x.endAt, start, end)).map((x) => x.hours);
 
-      res.json({ metricsByStage, intervalData });
+        seriesSubmitted.push(sCount);
+        seriesCompleted.push(cCount);
+        seriesWip.push(wipSnap);
+        seriesE2eMedian.push(Number(quantile(intervalE2e, 0.5).toFixed(1)));
+        seriesCompletedValue.push(Number(sumCompletedValue(start, end).toFixed(2)));
+      }
+
+      res.json({
+        overview: {
+          submittedCount,
+          wipCount,
+          completedCount,
+          e2eMedian,
+          e2eP90,
+          e2eSamples,
+          reportingCurrency,
+          completedValue,
+          unconvertedCount,
+        },
+        series: {
+          submitted: seriesSubmitted,
+          wip: seriesWip,
+          completed: seriesCompleted,
+          e2eMedian: seriesE2eMedian,
+          completedValue: seriesCompletedValue,
+        },
+      });
     })
   );
 
-  router.post(
-    "/requests",
+  // Server-side performance section metrics. Uses DB `history` so it works with the
+  // lightweight `/requests/summary` polling (which omits `history`).
+  router.get(
+    "/performance/sections",
     requireAuth,
     asyncHandler(async (req, res) => {
-      const body = req.body;
-      if (!body || typeof body !== "object") {
-        res.status(400).json({ error: "Invalid JSON body" });
+      const fromRaw = String(req.query.from ?? "").trim();
+      const toRaw = String(req.query.to ?? "").trim();
+      const groupByRaw = String(req.query.groupBy ?? "day").trim();
+      const slaRaw = String(req.query.slaHours ?? "24").trim();
+
+      const from = new Date(fromRaw);
+      const to = new Date(toRaw);
+      const slaHours = Number(slaRaw);
+      if (!fromRaw || !toRaw || Number.isNaN(+from) || Number.isNaN(+to) || +from > +to) {
+        res.status(400).json({ error: "Invalid query: expected from/to ISO dates (from <= to)" });
         return;
       }
-
-      const pool = await getPool();
-      const nowIso = new Date().toISOString();
-      const status = String(body.status ?? "draft").trim() || "draft";
-      if (status === "submitted") {
-        const submittedValidation = validateRequestSubmittedPayload(body);
-        if (!submittedValidation.ok) {
-          res.status(submittedValidation.status).json({ error: submittedValidation.error });
-          return;
-        }
+      if (!Number.isFinite(slaHours) || slaHours <= 0) {
+        res.status(400).json({ error: "Invalid query: expected slaHours > 0" });
+        return;
       }
-      const createdBy = String(body.createdBy ?? req.authUser?.id ?? "").trim();
-      const createdByName = String(body.createdByName ?? req.authUser?.name ?? "").trim();
-      const draftSessionKey = typeof body.draftSessionKey === "string" ? body.draftSessionKey.trim() : "";
-      const idempotentDraftCreate = status === "draft" && createdBy && draftSessionKey;
-      const initialHistory = [
+
+      const groupBy = groupByRaw === "week" || groupByRaw === "month" ? groupByRaw : "day";
+
+      const COMPLETED_STATUSES = new Set(["gm_approved", "closed"]);
+
+      const quantile = (values, p) => {
+        if (!Array.isArray(values) || values.length === 0) return 0;
+        const sorted = [...values].sort((a, b) => a - b);
+        const idx = (sorted.length - 1) * p;
+        const lo = Math.floor(idx);
+        const hi = Math.ceil(idx);
+        if (lo === hi) return sorted[lo];
+        const w = idx - lo;
+        return sorted[lo] * (1 - w) + sorted[hi] * w;
+      };
+
+      const parseHistory = (raw) => {
+        const history = Array.isArray(raw) ? raw : [];
+        const parsed = history
+          .map((h) => {
+            const status = typeof h?.status === "string" ? h.status : null;
+            const rawTs = h?.timestamp ?? h?.ts ?? h?.time ?? null;
+            const ts = rawTs ? new Date(String(rawTs)) : null;
+            if (!status || !ts || Number.isNaN(+ts)) return null;
+            const userName = typeof h?.userName === "string" ? h.userName : undefined;
+            return { status, ts, userName };
+          })
+          .filter(Boolean)
+          .sort((a, b) => +a.ts - +b.ts);
+        return parsed;
+      };
+
+      const findFirstStatusTime = (history, statuses) => {
+        for (const h of history) {
+          if (statuses.includes(h.status)) return h.ts;
+        }
+        return null;
+      };
+
+      const findFirstStatusTimeAfter = (history, after, statuses) => {
+        for (const h of history) {
+          if (+h.ts < +after) continue;
+          if (!statuses.includes(h.status)) continue;
+          return { ts: h.ts, by: h.userName };
+        }
+        return null;
+      };
+
+      const stageEntryTimeForCurrentRun = (history, wipStatuses, now) => {
+        if (!history.length) return null;
+        const wip = new Set(wipStatuses);
+        // Find the last event at/under now.
+        let idx = history.length - 1;
+        while (idx >= 0 && +history[idx].ts > +now) idx--;
+        if (idx < 0) return null;
+
+        let entry = history[idx].ts;
+        for (let i = idx; i >= 0; i--) {
+          if (!wip.has(history[i].status)) break;
+          entry = history[i].ts;
+        }
+        return entry;
+      };
+
+      const computeStageCycles = (requests, stage, range) => {
+        const cycles = [];
+        requests.forEach((r) => {
+          const history = r.history ?? [];
+          const stageStart = findFirstStatusTime(history, stage.startStatuses);
+          if (!stageStart) return;
+          const endHit = findFirstStatusTimeAfter(history, stageStart, stage.endStatuses);
+          if (!endHit) return;
+          if (!isWithinInterval(endHit.ts, range)) return;
+          const diffHours = (+endHit.ts - +stageStart) / (1000 * 60 * 60);
+          if (diffHours < 0) return;
+          cycles.push({
+            requestId: r.id,
+            clientName: r.clientName || "-",
+            startAt: stageStart,
+            endAt: endHit.ts,
+            hours: Number(diffHours.toFixed(1)),
+            endBy: endHit.by,
+          });
+        });
+        cycles.sort((a, b) => b.hours - a.hours);
+        return cycles;
+      };
+
+      const computeClarificationCycles = (requests, range) => {
+        const cycles = [];
+        requests.forEach((r) => {
+          const history = r.history ?? [];
+          for (let i = 0; i < history.length; i++) {
+            const h = history[i];
+            if (h.status !== "clarification_needed") continue;
+            const startAt = h.ts;
+            let endAt = null;
+            let endBy = undefined;
+            for (let j = i + 1; j < history.length; j++) {
+              const next = history[j];
+              if (next.status === "clarification_needed") continue;
+              endAt = next.ts;
+              endBy = next.userName;
+              break;
+            }
+            if (!endAt) continue;
+            if (!isWithinInterval(endAt, range)) continue;
+            const diffHours = (+endAt - +startAt) / (1000 * 60 * 60);
+            if (diffHours < 0) continue;
+            cycles.push({
+              requestId: r.id,
+              clientName: r.clientName || "-",
+              startAt,
+              endAt,
+              hours: Number(diffHours.toFixed(1)),
+              endBy,
+            });
+          }
+        });
+        cycles.sort((a, b) => b.hours - a.hours);
+        return cycles;
+      };
+
+      const pool = await getPool();
+      const { rows } = await pool.query("SELECT id, status, data FROM requests");
+      const requests = rows.map((row) => {
+        const data = row.data && typeof row.data === "object" ? row.data : {};
+        return {
+          id: String(row.id),
+          status: typeof row.status === "string" ? row.status : String(data?.status ?? ""),
+          clientName: typeof data?.clientName === "string" ? data.clientName : "",
+          history: parseHistory(data?.history),
+        };
+      });
+
+      const range = { start: from, end: to };
+      const now = new Date();
+
+      const stageDefs = {
+        design: {
+          key: "design",
+          wipStatuses: ["submitted", "edited", "under_review", "clarification_needed", "feasibility_confirmed"],
+          startStatuses: ["submitted"],
+          endStatuses: ["design_result"],
+        },
+        costing: {
+          key: "costing",
+          wipStatuses: ["design_result", "in_costing"],
+          startStatuses: ["design_result", "in_costing"],
+          endStatuses: ["costing_complete"],
+        },
+        sales: {
+          key: "sales",
+          wipStatuses: ["costing_complete", "sales_followup", "gm_rejected"],
+          startStatuses: ["costing_complete", "sales_followup", "gm_rejected"],
+          endStatuses: ["gm_approval_pending"],
+        },
+        gm: {
+          key: "gm",
+          wipStatuses: ["gm_approval_pending"],
+          startStatuses: ["gm_approval_pending"],
+          endStatuses: ["gm_approved", "closed"],
+        },
+      };
+
+      const buildStageMetrics = (key, stage, cycles) => {
+        const values = cycles.map((c) => c.hours);
+        const median = quantile(values, 0.5);
+        const p90 = quantile(values, 0.9);
+        const met = values.length
+          ? Math.round((values.filter((v) => v <= slaHours).length / values.length) * 100)
+          : 0;
+
+        const wipNow = requests.filter((r) => stage.wipStatuses.includes(r.status)).length;
+        const ages = requests
+          .filter((r) => stage.wipStatuses.includes(r.status))
+          .map((r) => {
+            const entry = stageEntryTimeForCurrentRun(r.history ?? [], stage.wipStatuses, now);
+            if (!entry) return null;
+            const ageH = (+now - +entry) / (1000 * 60 * 60);
+            return Number.isFinite(ageH) && ageH >= 0 ? ageH : null;
+          })
+          .filter((v) => v !== null);
+        const oldest = ages.length ? Math.max(...ages) : 0;
+
+        return {
+          throughput: cycles.length,
+          medianHours: Number(median.toFixed(1)),
+          p90Hours: Number(p90.toFixed(1)),
+          slaMetPct: met,
+          samples: values.length,
+          cycles: cycles.slice(0, 10).map((c) => ({
+            requestId: c.requestId,
+            clientName: c.clientName,
+            startAt: c.startAt.toISOString(),
+            endAt: c.endAt.toISOString(),
+            hours: c.hours,
+            endBy: c.endBy,
+          })),
+          wipNow,
+          oldestWipHours: Number(oldest.toFixed(1)),
+        };
+      };
+
+      const designCycles = computeStageCycles(requests, stageDefs.design, range);
+      const costingCycles = computeStageCycles(requests, stageDefs.costing, range);
+      const salesCycles = computeStageCycles(requests, stageDefs.sales, range);
+      const gmCycles = computeStageCycles(requests, stageDefs.gm, range);
+      const clarificationCycles = computeClarificationCycles(requests, range);
+
+      const metricsByStage = {
+        design: buildStageMetrics("design", stageDefs.design, designCycles),
+        costing: buildStageMetrics("costing", stageDefs.costing, costingCycles),
+        sales: buildStageMetrics("sales", stageDefs.sales, salesCycles),
+        gm: buildStageMetrics("gm", stageDefs.gm, gmCycles),
+        clarification: buildStageMetrics("clarification", { wipStatuses: ["clarification_needed"] }, clarificationCycles),
+      };
+
+      const { start, end } = range;
+      const intervals =
+        groupBy === "day"
+          ? eachDayOfInterval({ start, end })
+          : groupBy === "week"
+            ? eachWeekOfInterval({ start, end }, { weekStartsOn: 1 })
+            : eachMonthOfInterval({ start, end });
+
+      const intervalLabel = (date) => (groupBy === "month" ? format(date, "MMM yyyy") : format(date, "MMM dd"));
+      const intervalEnd = (date) => {
+        if (groupBy === "day") return new Date(date.getTime() + 24 * 60 * 60 * 1000 - 1);
+        if (groupBy === "week") return new Date(date.getTime() + 7 * 24 * 60 * 60 * 1000 - 1);
+        return new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59);
+      };
+
+      const pickIntervalStart = (ts) => {
+        for (const d of intervals) {
+          if (isWithinInterval(ts, { start: d, end: intervalEnd(d) })) return d;
+        }
+        return null;
+      };
+
+      const intervalData = intervals.map((d) => ({
+        date: intervalLabel(d),
+        designCount: 0,
+        designAvg: 0,
+        costingCount: 0,
+        costingAvg: 0,
+        salesCount: 0,
+        salesAvg: 0,
+        gmCount: 0,
+        gmAvg: 0,
+        clarificationCount: 0,
+        clarificationAvg: 0,
+      }));
+
+      const addCyclesToIntervals = (key, cycles) => {
+        const perLabel = {};
+        intervalData.forEach((r) => (perLabel[r.date] = []));
+        cycles.forEach((c) => {
+          const d = pickIntervalStart(c.endAt);
+          if (!d) return;
+          const label = intervalLabel(d);
+          if (!perLabel[label]) perLabel[label] = [];
+          perLabel[label].push(c.hours);
+        });
+        intervalData.forEach((row) => {
+          const values = perLabel[row.date] || [];
+          const avg = values.length ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+          if (key === "design") {
+            row.designCount = values.length;
+            row.designAvg = Number(avg.toFixed(1));
+          } else if (key === "costing") {
+            row.costingCount = values.length;
+            row.costingAvg = Number(avg.toFixed(1));
+          } else if (key === "sales") {
+            row.salesCount = values.length;
+            row.salesAvg = Number(avg.toFixed(1));
+          } else if (key === "gm") {
+            row.gmCount = values.length;
+            row.gmAvg = Number(avg.toFixed(1));
+          } else if (key === "clarification") {
+            row.clarificationCount = values.length;
+            row.clarificationAvg = Number(avg.toFixed(1));
+          }
+        });
+      };
+
+      addCyclesToIntervals("design", designCycles);
+      addCyclesToIntervals("costing", costingCycles);
+      addCyclesToIntervals("sales", salesCycles);
+      addCyclesToIntervals("gm", gmCycles);
+      addCyclesToIntervals("clarification", clarificationCycles);
+
+      res.json({ metricsByStage, intervalData });
+    })
+  );
+
+  router.post(
+    "/requests",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const body = req.body;
+      if (!body || typeof body !== "object") {
+        res.status(400).json({ error: "Invalid JSON body" });
+        return;
+      }
+      // Frozen by the status route on GM approval only.
+      delete body.exchangeRateSnapshot;
+
+      const pool = await getPool();
+      const attachmentRules = await getAttachmentAccessRules(pool);
+      const nowIso = new Date().toISOString();
+      const status = String(body.status ?? "draft").trim() || "draft";
+      if (status === "submitted") {
+        // Creating straight into "submitted" fires draft -> submitted, so it gets the status route's checks.
+        const transition = findWorkflowTransition(await getWorkflowDefinition(pool), "draft", "submitted");
+        if (!transition) {
+          res.status(400).json({ error: "Invalid status transition from 'draft' to 'submitted'" });
+          return;
+        }
+        if (!canUserFireTransition(transition, req.authUser)) {
+          res.status(403).json({ error: "Your role cannot move a request from 'draft' to 'submitted'" });
+          return;
+        }
+        const missingFields = findMissingRequiredFields(body, transition);
+        if (missingFields.length) {
+          res.status(400).json({
+            error: `Required before moving to 'submitted': ${missingFields.join(", ")}`,
+            missingFields,
+          });
+          return;
+        }
+        const issues = evaluateTransitionRules(body, "submitted");
+        if (issues.length) {
+          res.status(400).json({ error: issues[0].message, issues });
+          return;
+        }
+      }
+      const createdBy = String(body.createdBy ?? req.authUser?.id ?? "").trim();
+      const createdByName = String(body.createdByName ?? req.authUser?.name ?? "").trim();
+      const draftSessionKey = typeof body.draftSessionKey === "string" ? body.draftSessionKey.trim() : "";
+      const idempotentDraftCreate = status === "draft" && createdBy && draftSessionKey;
+      const initialHistory = [
         {
           id: `h-${Date.now()}`,
           status,
@@ -10152,510 +11682,975 @@ export const apiRouter = (() => {
         },
       ];
 
-      const result = await withTransaction(pool, async (client) => {
-        if (idempotentDraftCreate) {
-          // Serialize create/update for the same draft session key to avoid race-created siblings.
-          await client.query("SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))", [createdBy, draftSessionKey]);
-          const existingDraftRes = await client.query(
-            `
-            SELECT id, data
-            FROM requests
-            WHERE status = 'draft'
-              AND data->>'createdBy' = $1
-              AND data->>'draftSessionKey' = $2
-            ORDER BY created_at DESC
-            LIMIT 1
-            FOR UPDATE
-            `,
-            [createdBy, draftSessionKey]
-          );
+      const result = await withTransaction(pool, async (client) => {
+        if (idempotentDraftCreate) {
+          // Serialize create/update for the same draft session key to avoid race-created siblings.
+          await client.query("SELECT pg_advisory_xact_lock(hashtext($1), hashtext($2))", [createdBy, draftSessionKey]);
+          const existingDraftRes = await client.query(
+            `
+            SELECT id, data
+            FROM requests
+            WHERE status = 'draft'
+              AND data->>'createdBy' = $1
+              AND data->>'draftSessionKey' = $2
+            ORDER BY created_at DESC
+            LIMIT 1
+            FOR UPDATE
+            `,
+            [createdBy, draftSessionKey]
+          );
+
+          const existingDraft = existingDraftRes.rows[0];
+          if (existingDraft) {
+            const existingData = safeParseRequest(existingDraft.data, `idempotent-draft:${existingDraft.id}`) ?? {};
+            const requestData = normalizeRequestData(
+              {
+                ...existingData,
+                ...keepHiddenAttachmentLists(body, existingData, req.authUser, attachmentRules),
+                id: existingDraft.id,
+                status,
+                createdBy,
+                createdByName,
+                draftSessionKey,
+                createdAt: existingData.createdAt ?? nowIso,
+                updatedAt: nowIso,
+                history: Array.isArray(existingData.history) && existingData.history.length
+                  ? existingData.history
+                  : body.history?.length
+                    ? body.history
+                    : initialHistory,
+              },
+              nowIso
+            );
+            Object.assign(requestData, await resolveCustomerLink(client, requestData));
+            await materializeRequestAttachments(client, existingDraft.id, requestData, req.authUser);
+            // existingData was read FOR UPDATE in this transaction, so nothing can have changed the row since.
+            const { rows: versionRows } = await client.query(
+              "UPDATE requests SET data=$2::jsonb, status=$3, updated_at=$4, version = version + 1 WHERE id=$1 RETURNING version",
+              [existingDraft.id, JSON.stringify(withoutRecordVersion(requestData)), status, new Date(nowIso)]
+            );
+            return {
+              requestData: { ...requestData, version: parseRecordVersion(versionRows?.[0]?.version) ?? 1 },
+              id: existingDraft.id,
+              created: false,
+              reusedDraft: true,
+              fieldChanges: diffRequestFields(existingData, requestData),
+            };
+          }
+        }
+
+        const id = await generateRequestIdInClient(client);
+        const requestData = normalizeRequestData(
+          {
+            ...body,
+            id,
+            status,
+            createdBy,
+            createdByName,
+            draftSessionKey: draftSessionKey || undefined,
+            createdAt: nowIso,
+            updatedAt: nowIso,
+            history: body.history?.length ? body.history : initialHistory,
+          },
+          nowIso
+        );
+
+        Object.assign(requestData, await resolveCustomerLink(client, requestData));
+        const { inserts: attachmentInserts } = extractInlineAttachments(requestData);
+
+        await client.query(
+          "INSERT INTO requests (id, data, status, created_at, updated_at, version) VALUES ($1, $2::jsonb, $3, $4, $5, 1)",
+          [id, JSON.stringify(withoutRecordVersion(requestData)), status, new Date(nowIso), new Date(nowIso)]
+        );
+
+        // Persist attachment binaries (urls were already rewritten to /api/attachments/:id above).
+        for (const att of attachmentInserts) {
+          await insertRequestAttachment(client, id, att);
+        }
+        await claimAttachmentUploads(client, id, collectUploadedAttachmentRefs(requestData), req.authUser);
+        return { requestData: { ...requestData, version: 1 }, id, created: true, reusedDraft: false };
+      });
+
+      const requestData = result.requestData;
+      const id = result.id;
+
+      if (result.reusedDraft) {
+        await recordRequestFieldChangesBestEffort(pool, {
+          requestId: id,
+          changes: result.fieldChanges,
+          actor: { id: req.authUser?.id ?? createdBy, name: req.authUser?.name ?? createdByName },
+          changedAt: nowIso,
+        });
+      }
+
+      try {
+        const createdStatus = String(status ?? "");
+        if (createdStatus && createdStatus !== "draft") {
+          await enqueueInAppNotifications(pool, {
+            request: requestData,
+            requestId: id,
+            status: createdStatus,
+            previousStatus: "",
+            eventType: "request_created",
+            actorUserId: createdBy,
+            actorName: createdByName,
+            comment: "",
+          });
+        }
+      } catch (e) {
+        console.error("Failed to enqueue in-app create notification:", e);
+      }
+
+      // Best-effort email notification enqueue for non-draft creates (ex: create+submit from the UI).
+      try {
+        const createdStatus = String(status ?? "");
+        if (createdStatus && createdStatus !== "draft") {
+          const [settings, tokenState] = await Promise.all([
+            getM365Settings(pool),
+            getM365TokenState(pool),
+          ]);
+          if (settings.enabled && tokenState.hasRefreshToken) {
+            await enqueueRequestEmailByPolicy(pool, {
+              settings,
+              request: requestData,
+              requestId: id,
+              eventType: "request_created",
+              status: createdStatus,
+              previousStatus: "",
+              actorName: createdByName,
+              comment: "",
+              eventAt: new Date(),
+            });
+          }
+        }
+      } catch (e) {
+        console.error("Failed to enqueue create email:", e);
+      }
+
+      await writeAuditLogBestEffort(pool, req, {
+        action: "request.created",
+        targetType: "request",
+        targetId: id,
+        metadata: {
+          status: requestData.status ?? status ?? null,
+          reusedDraft: result.reusedDraft,
+          draftSessionKey: draftSessionKey || null,
+        },
+      });
+
+      publishRequestChanged({ ...requestData, id }, result.created ? "created" : "updated");
+      res
+        .status(result.created ? 201 : 200)
+        .json(redactRequestForViewer(requestData, req.authUser, attachmentRules));
+    })
+  );
+
+  router.post(
+    "/requests/:requestId/status",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { requestId } = req.params;
+      const body = req.body;
+      if (!body?.status) {
+        res.status(400).json({ error: "Missing status" });
+        return;
+      }
+
+      const pool = await getPool();
+      const existing = await getRequestById(pool, requestId);
+      if (!existing) {
+        res.status(404).json({ error: "Request not found" });
+        return;
+      }
+      const actorId = String(req.authUser?.id ?? "").trim();
+      const ownerId = String(existing.createdBy ?? "").trim();
+
+      const previousStatus = String(existing.status ?? "");
+      const requestedStatus = String(body.status ?? "").trim();
+      const comment = typeof body.comment === "string" ? body.comment.trim() : "";
+      const now = new Date();
+      const nowIso = now.toISOString();
+
+      if (!isKnownRequestStatus(requestedStatus)) {
+        res.status(400).json({ error: `Unknown status '${requestedStatus}'` });
+        return;
+      }
+
+      const workflow = await getWorkflowDefinition(pool);
+      const transition = findWorkflowTransition(workflow, previousStatus, requestedStatus);
+      if (!transition && previousStatus !== requestedStatus) {
+        res.status(400).json({
+          error: `Invalid status transition from '${previousStatus}' to '${requestedStatus}'`,
+          allowedTransitions: getAllowedWorkflowTransitions(workflow, previousStatus),
+        });
+        return;
+      }
+      // Sales only process their own requests, unless another role or grant they hold allows the move.
+      const actorWithoutSales = {
+        ...req.authUser,
+        roles: (req.authUser?.roles ?? []).filter((role) => role !== "sales"),
+      };
+      if (
+        hasRole(req.authUser, "sales") &&
+        (!ownerId || ownerId !== actorId) &&
+        !canUserFireTransition(transition, actorWithoutSales)
+      ) {
+        res.status(403).json({ error: "You can only process your own requests in Sales Follow-up" });
+        return;
+      }
+      if (transition && !canUserFireTransition(transition, req.authUser)) {
+        res.status(403).json({
+          error: `Your role cannot move a request from '${previousStatus}' to '${requestedStatus}'`,
+        });
+        return;
+      }
+      if (transition?.commentRequired && !comment) {
+        res.status(400).json({
+          error:
+            COMMENT_REQUIRED_ERRORS[requestedStatus] ??
+            `A comment is required to move a request to '${requestedStatus}'`,
+        });
+        return;
+      }
+      const missingFields = findMissingRequiredFields(existing, transition);
+      if (missingFields.length) {
+        res.status(400).json({
+          error: `Required before moving to '${requestedStatus}': ${missingFields.join(", ")}`,
+          missingFields,
+        });
+        return;
+      }
+      // Rules read the normalized product lines so legacy single-product requests are checked too.
+      const existingAttachments = Array.isArray(existing.attachments) ? existing.attachments : [];
+      const existingProducts = Array.isArray(existing.products) && existing.products.length
+        ? existing.products.map((product) => normalizeProduct(product))
+        : [buildLegacyProduct(existing, existingAttachments)];
+      const ruleIssues = evaluateTransitionRules({ ...existing, products: existingProducts }, requestedStatus);
+      if (ruleIssues.length) {
+        res.status(400).json({ error: ruleIssues[0].message, issues: ruleIssues });
+        return;
+      }
+
+      // Sales resubmission after a GM rejection must include a comment (auditability + context).
+      const historyList = Array.isArray(existing.history) ? existing.history : [];
+      const hasGmRejected = historyList.some((h) => String(h?.status ?? "") === "gm_rejected");
+      if (requestedStatus === "gm_approval_pending" && hasGmRejected && !comment) {
+        res.status(400).json({ error: "Sales comment required when resubmitting after GM rejection" });
+        return;
+      }
+      // GM decisions are signed: the approver confirms their password and the decided figures are hashed.
+      const isGmDecision = requestedStatus === "gm_approved" || requestedStatus === "gm_rejected";
+      const signer = isGmDecision ? await verifySignerPassword(pool, req.authUser?.id, body.password) : null;
+      if (isGmDecision && !signer) {
+        await writeAuditLogBestEffort(pool, req, {
+          action: "request.signature_reauth_failed",
+          targetType: "request",
+          targetId: requestId,
+          metadata: { status: requestedStatus },
+        });
+        res.status(400).json({ error: "Password confirmation failed" });
+        return;
+      }
+      const reauthenticatedAt = signer ? new Date().toISOString() : null;
+
+      // Workflow rule: a GM rejection returns the request to Sales Follow-up (WIP),
+      // but we still record the `gm_rejected` event in history.
+      const isGmReject = requestedStatus === "gm_rejected";
+      const effectiveStatus = isGmReject ? "sales_followup" : requestedStatus;
 
-          const existingDraft = existingDraftRes.rows[0];
-          if (existingDraft) {
-            const existingData = safeParseRequest(existingDraft.data, `idempotent-draft:${existingDraft.id}`) ?? {};
-            const requestData = normalizeRequestData(
-              {
-                ...existingData,
-                ...body,
-                id: existingDraft.id,
-                status,
-                createdBy,
-                createdByName,
-                draftSessionKey,
-                createdAt: existingData.createdAt ?? nowIso,
-                updatedAt: nowIso,
-                history: Array.isArray(existingData.history) && existingData.history.length
-                  ? existingData.history
-                  : body.history?.length
-                    ? body.history
-                    : initialHistory,
-              },
-              nowIso
-            );
-            await materializeRequestAttachments(client, existingDraft.id, requestData);
-            await client.query("UPDATE requests SET data=$2::jsonb, status=$3, updated_at=$4 WHERE id=$1", [
-              existingDraft.id,
-              JSON.stringify(requestData),
-              status,
-              new Date(nowIso),
-            ]);
-            return { requestData, id: existingDraft.id, created: false, reusedDraft: true };
-          }
-        }
+      const baseHistoryEntry = {
+        userId: body.userId ?? "",
+        userName: body.userName ?? "",
+      };
+      const historyEntries = isGmReject
+        ? [
+            {
+              id: `h-${Date.now()}`,
+              status: "gm_rejected",
+              timestamp: nowIso,
+              ...baseHistoryEntry,
+              comment: comment || undefined,
+            },
+            {
+              id: `h-${Date.now()}-sales`,
+              status: "sales_followup",
+              // Ensure deterministic ordering when timestamps are used for calculations.
+              timestamp: new Date(now.getTime() + 1).toISOString(),
+              ...baseHistoryEntry,
+            },
+          ]
+        : [
+            {
+              id: `h-${Date.now()}`,
+              status: requestedStatus,
+              timestamp: nowIso,
+              ...baseHistoryEntry,
+              comment: comment || undefined,
+            },
+          ];
 
-        const id = await generateRequestIdInClient(client);
-        const requestData = normalizeRequestData(
-          {
-            ...body,
-            id,
-            status,
-            createdBy,
-            createdByName,
-            draftSessionKey: draftSessionKey || undefined,
-            createdAt: nowIso,
-            updatedAt: nowIso,
-            history: body.history?.length ? body.history : initialHistory,
-          },
-          nowIso
-        );
+      let requestDataForUpdate = {
+        ...existing,
+        status: effectiveStatus,
+        updatedAt: nowIso,
+        history: [...historyList, ...historyEntries],
+      };
+      if (requestedStatus === "gm_approved") {
+        // Reporting keeps using the rates of the approval day, whatever happens to the table later.
+        const rateTable = buildRateTable(await getExchangeRateConfig(pool));
+        requestDataForUpdate.exchangeRateSnapshot = buildExchangeRateSnapshot(rateTable, now, nowIso);
+      }
+      let salesPrefillApplied = false;
+      let salesPrefillFields = [];
+      if (previousStatus === "costing_complete" && requestedStatus === "sales_followup") {
+        const prefillResult = applyCostingPrefillToSales(requestDataForUpdate);
+        requestDataForUpdate = prefillResult.requestData;
+        salesPrefillApplied = prefillResult.prefillApplied;
+        salesPrefillFields = prefillResult.copiedFields;
+      }
 
-        const { inserts: attachmentInserts } = extractInlineAttachments(requestData);
+      const updated = normalizeRequestData(requestDataForUpdate, nowIso);
 
-        await client.query(
-          "INSERT INTO requests (id, data, status, created_at, updated_at) VALUES ($1, $2::jsonb, $3, $4, $5)",
-          [id, JSON.stringify(requestData), status, new Date(nowIso), new Date(nowIso)]
+      // The checks above ran on `existing`; a save or another transition since then fails the version predicate.
+      const transitionResult = await withTransaction(pool, async (client) => {
+        const { rows } = await client.query(
+          `
+          UPDATE requests
+             SET data=$2::jsonb, status=$3, updated_at=$4, version = version + 1
+           WHERE id=$1
+             AND version = $5
+          RETURNING version
+          `,
+          [requestId, JSON.stringify(withoutRecordVersion(updated)), updated.status, new Date(nowIso), existing.version]
+        );
+        if (!rows.length) {
+          throw createHttpError(409, "Request version conflict", RECORD_VERSION_CONFLICT_CODE);
+        }
+        const recorded = signer
+          ? await recordApprovalSignature(client, {
+              targetType: "request",
+              targetId: requestId,
+              decision: isGmReject ? "rejected" : "approved",
+              record: updated,
+              signer,
+              comment,
+              reauthenticatedAt,
+              signedAt: new Date().toISOString(),
+            })
+          : null;
+        return { versionRows: rows, signature: recorded };
+      }).catch(async (error) => {
+        if (error?.reasonCode !== RECORD_VERSION_CONFLICT_CODE) throw error;
+        const current = await getRequestById(pool, requestId);
+        if (!current) {
+          res.status(404).json({ error: "Request not found" });
+          return null;
+        }
+        setRecordVersionHeader(res, current.version);
+        res.status(409).json({
+          error: "Request was modified by another user",
+          code: RECORD_VERSION_CONFLICT_CODE,
+          expectedVersion: existing.version,
+          currentVersion: current.version ?? null,
+          current: redactRequestForViewer(current, req.authUser, await getAttachmentAccessRules(pool)),
+        });
+        return null;
+      });
+      if (!transitionResult) return;
+      const { versionRows, signature } = transitionResult;
+      updated.version = parseRecordVersion(versionRows?.[0]?.version) ?? (existing.version ?? 1) + 1;
+
+      let deletedSiblingDrafts = 0;
+      const draftSessionKey = String(updated.draftSessionKey ?? existing.draftSessionKey ?? "").trim();
+      const sessionCreatedBy = String(updated.createdBy ?? existing.createdBy ?? "").trim();
+      if (requestedStatus === "submitted" && draftSessionKey && sessionCreatedBy) {
+        const cleanupRes = await pool.query(
+          `
+          DELETE FROM requests
+          WHERE status = 'draft'
+            AND id <> $1
+            AND data->>'createdBy' = $2
+            AND data->>'draftSessionKey' = $3
+          `,
+          [requestId, sessionCreatedBy, draftSessionKey]
         );
+        deletedSiblingDrafts = cleanupRes.rowCount ?? 0;
+      }
 
-        // Persist attachment binaries (urls were already rewritten to /api/attachments/:id above).
-        for (const att of attachmentInserts) {
-          await client.query(
-            `
-            INSERT INTO request_attachments
-              (id, request_id, attachment_type, filename, content_type, byte_size, uploaded_at, uploaded_by, data)
-            VALUES
-              ($1,$2,$3,$4,$5,$6,$7,$8,$9)
-            ON CONFLICT (id) DO NOTHING
-            `,
-            [
-              att.id,
-              id,
-              att.attachmentType,
-              att.filename,
-              att.contentType,
-              att.byteSize,
-              att.uploadedAt,
-              att.uploadedBy,
-              att.data,
-            ]
-          );
+      try {
+        const inAppStatus = isGmReject ? "gm_rejected" : String(updated.status ?? "");
+        if (inAppStatus && inAppStatus !== previousStatus) {
+          await enqueueInAppNotifications(pool, {
+            request: updated,
+            requestId,
+            status: inAppStatus,
+            previousStatus,
+            eventType: "request_status_changed",
+            actorUserId: body.userId ?? "",
+            actorName: body.userName ?? "",
+            comment,
+          });
+        }
+      } catch (e) {
+        console.error("Failed to enqueue in-app status notification:", e);
+      }
+
+      // Best-effort email notification enqueue (do not block status updates if email config is missing).
+      try {
+        // For GM rejection, email should reflect the rejection, even though the effective status
+        // returns to Sales Follow-up.
+        const emailStatus = isGmReject ? "gm_rejected" : String(updated.status ?? "");
+        if (emailStatus && emailStatus !== previousStatus) {
+          const [settings, tokenState] = await Promise.all([
+            getM365Settings(pool),
+            getM365TokenState(pool),
+          ]);
+          if (settings.enabled && tokenState.hasRefreshToken) {
+            await enqueueRequestEmailByPolicy(pool, {
+              settings,
+              request: updated,
+              requestId,
+              eventType: "request_status_changed",
+              status: emailStatus,
+              previousStatus,
+              actorName: body.userName ?? "",
+              comment,
+              eventAt: new Date(nowIso),
+            });
+          }
         }
-        return { requestData, id, created: true, reusedDraft: false };
+      } catch (e) {
+        console.error("Failed to enqueue status change email:", e);
+      }
+
+      await writeAuditLogBestEffort(pool, req, {
+        action: "request.status_changed",
+        targetType: "request",
+        targetId: requestId,
+        metadata: {
+          from: previousStatus,
+          to: requestedStatus || null,
+          effectiveTo: updated.status ?? null,
+          deletedSiblingDrafts: deletedSiblingDrafts || 0,
+          salesPrefillApplied,
+          salesPrefillFields,
+          signatureId: signature?.id ?? null,
+          payloadHash: signature?.payloadHash ?? null,
+        },
       });
 
-      const requestData = result.requestData;
-      const id = result.id;
+      setRecordVersionHeader(res, updated.version);
+
+      if (deletedSiblingDrafts > 0) {
+        await writeAuditLogBestEffort(pool, req, {
+          action: "request.draft_siblings_deleted",
+          targetType: "request",
+          targetId: requestId,
+          metadata: {
+            deletedSiblingDrafts,
+            draftSessionKey,
+            createdBy: sessionCreatedBy,
+          },
+        });
+      }
+
+      publishRequestChanged(updated, "status_changed");
+      res.json(redactRequestForViewer(updated, req.authUser, await getAttachmentAccessRules(pool)));
+    })
+  );
+
+  // Enqueue a notification email without changing status/history.
+  // Used when a role edits its previously submitted data and we need to re-notify the next step.
+  router.post(
+    "/requests/:requestId/notify",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { requestId } = req.params;
+      const body = safeJson(req.body) ?? {};
+      const eventType = String(body.eventType ?? "request_status_changed").trim() || "request_status_changed";
+      const actorName = String(body.actorName ?? "").trim();
+      const comment = typeof body.comment === "string" ? body.comment : "";
+
+      const pool = await getPool();
+      const existing = await getRequestById(pool, requestId);
+      if (!existing) {
+        res.status(404).json({ error: "Request not found" });
+        return;
+      }
+
+      const status = String(body.status ?? existing.status ?? "").trim();
+      const previousStatus = String(body.previousStatus ?? "").trim();
+      const actorUserId = String(req.authUser?.id ?? "").trim();
 
+      let inAppEnqueued = false;
       try {
-        const createdStatus = String(status ?? "");
-        if (createdStatus && createdStatus !== "draft") {
-          await enqueueInAppNotifications(pool, {
-            request: requestData,
-            requestId: id,
-            status: createdStatus,
-            previousStatus: "",
-            eventType: "request_created",
-            actorUserId: createdBy,
-            actorName: createdByName,
-            comment: "",
-          });
-        }
+        const inserted = await enqueueInAppNotifications(pool, {
+          request: existing,
+          requestId,
+          status,
+          previousStatus,
+          eventType,
+          actorUserId,
+          actorName,
+          comment,
+        });
+        inAppEnqueued = inserted > 0;
       } catch (e) {
-        console.error("Failed to enqueue in-app create notification:", e);
+        console.error("Failed to enqueue in-app notify notification:", e);
       }
 
-      // Best-effort email notification enqueue for non-draft creates (ex: create+submit from the UI).
-      try {
-        const createdStatus = String(status ?? "");
-        if (createdStatus && createdStatus !== "draft") {
-          const [settings, tokenState] = await Promise.all([
-            getM365Settings(pool),
-            getM365TokenState(pool),
-          ]);
-          if (settings.enabled && tokenState.hasRefreshToken) {
-            await enqueueRequestEmailByPolicy(pool, {
-              settings,
-              request: requestData,
-              requestId: id,
-              eventType: "request_created",
-              status: createdStatus,
-              previousStatus: "",
-              actorName: createdByName,
-              comment: "",
-              eventAt: new Date(),
-            });
-          }
+      let emailEnqueued = false;
+      let emailReason = null;
+      const [settings, tokenState] = await Promise.all([
+        getM365Settings(pool),
+        getM365TokenState(pool),
+      ]);
+      if (!settings.enabled) {
+        emailReason = "disabled";
+      } else if (!tokenState.hasRefreshToken) {
+        emailReason = "not_connected";
+      } else {
+        const enqueueResult = await enqueueRequestEmailByPolicy(pool, {
+          settings,
+          request: existing,
+          requestId,
+          eventType,
+          status,
+          previousStatus,
+          actorName,
+          comment,
+          eventAt: new Date(),
+        });
+        emailEnqueued = Boolean(enqueueResult?.emailEnqueued);
+        if (!emailEnqueued) {
+          emailReason = "no_recipients";
         }
-      } catch (e) {
-        console.error("Failed to enqueue create email:", e);
       }
 
-      await writeAuditLogBestEffort(pool, req, {
-        action: "request.created",
-        targetType: "request",
-        targetId: id,
-        metadata: {
-          status: requestData.status ?? status ?? null,
-          reusedDraft: result.reusedDraft,
-          draftSessionKey: draftSessionKey || null,
-        },
+      res.json({
+        enqueued: inAppEnqueued || emailEnqueued,
+        inAppEnqueued,
+        emailEnqueued,
+        reason: inAppEnqueued || emailEnqueued ? undefined : emailReason || "no_targets",
       });
-
-      res.status(result.created ? 201 : 200).json(requestData);
     })
   );
 
-  router.post(
-    "/requests/:requestId/status",
+  router.get(
+    "/requests/:requestId/client-offer-profile",
     requireAuth,
     asyncHandler(async (req, res) => {
       const { requestId } = req.params;
-      const body = req.body;
-      if (!body?.status) {
-        res.status(400).json({ error: "Missing status" });
+      const pool = await getPool();
+      const composed = await getRequestOwnerOfferProfileForPdf(pool, requestId);
+      if (!composed) {
+        res.status(404).json({ error: "Request not found" });
         return;
       }
+      res.json(composed);
+    })
+  );
 
+  router.get(
+    "/requests/:requestId/pdf",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { requestId } = req.params;
+      const language = parsePdfLanguage(req.query?.language);
+      if (language.error) {
+        res.status(400).json({ error: language.error });
+        return;
+      }
       const pool = await getPool();
       const existing = await getRequestById(pool, requestId);
       if (!existing) {
         res.status(404).json({ error: "Request not found" });
         return;
       }
-      const actorRole = String(req.authUser?.role ?? "").trim().toLowerCase();
-      const actorId = String(req.authUser?.id ?? "").trim();
-      const ownerId = String(existing.createdBy ?? "").trim();
-      if (actorRole === "sales" && (!ownerId || ownerId !== actorId)) {
-        res.status(403).json({ error: "You can only process your own requests in Sales Follow-up" });
+      const attachmentRules = await getAttachmentAccessRules(pool);
+      const rendered = await renderRequestPdf(redactRequestForViewer(existing, req.authUser, attachmentRules), {
+        language: language.value,
+        loadAttachment: createPdfAttachmentLoader(pool, requestId),
+      });
+      if (!rendered) {
+        res.status(503).json({ error: "PDF rendering is not available on this server" });
         return;
       }
 
-      const previousStatus = String(existing.status ?? "");
-      const requestedStatus = String(body.status ?? "").trim();
-      const comment = typeof body.comment === "string" ? body.comment.trim() : "";
-      const now = new Date();
-      const nowIso = now.toISOString();
+      await writeAuditLogBestEffort(pool, req, {
+        action: "request.pdf_rendered",
+        targetType: "request",
+        targetId: requestId,
+        metadata: { language: language.value },
+      });
 
-      if (!isKnownRequestStatus(requestedStatus)) {
-        res.status(400).json({ error: `Unknown status '${requestedStatus}'` });
-        return;
-      }
+      res.status(200);
+      res.setHeader("Content-Type", "application/pdf");
+      setContentDispositionSafe(res, "inline", rendered.filename);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(rendered.data);
+    })
+  );
 
-      if (!isAllowedStatusTransition(previousStatus, requestedStatus)) {
-        const allowed = getAllowedStatusTransitions(previousStatus);
-        res.status(400).json({
-          error: `Invalid status transition from '${previousStatus}' to '${requestedStatus}'`,
-          allowedTransitions: allowed,
-        });
+  router.get(
+    "/requests/:requestId/client-offer.pdf",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      if (!hasRole(req.authUser, "sales") && !hasRole(req.authUser, "admin")) {
+        res.status(403).json({ error: "Client offers are restricted to Sales and Admin" });
         return;
       }
-      if (previousStatus === "clarification_needed" && requestedStatus === "submitted" && !comment) {
-        res.status(400).json({ error: "Clarification response is required before resubmitting to Design" });
+      const { requestId } = req.params;
+      const language = parsePdfLanguage(req.query?.language);
+      if (language.error) {
+        res.status(400).json({ error: language.error });
         return;
       }
-      if (requestedStatus === "submitted") {
-        const submittedValidation = validateRequestSubmittedPayload(existing);
-        if (!submittedValidation.ok) {
-          res.status(submittedValidation.status).json({ error: submittedValidation.error });
-          return;
-        }
-      }
-
-      // Cancelling a request must include a reason (auditability + context).
-      if (requestedStatus === "cancelled" && !comment) {
-        res.status(400).json({ error: "Sales comment required when cancelling a request" });
+      const pool = await getPool();
+      const existing = await getRequestById(pool, requestId);
+      if (!existing) {
+        res.status(404).json({ error: "Request not found" });
         return;
       }
-
-      // Sales resubmission after a GM rejection must include a comment (auditability + context).
-      const historyList = Array.isArray(existing.history) ? existing.history : [];
-      const hasGmRejected = historyList.some((h) => String(h?.status ?? "") === "gm_rejected");
-      if (requestedStatus === "gm_approval_pending" && hasGmRejected && !comment) {
-        res.status(400).json({ error: "Sales comment required when resubmitting after GM rejection" });
+      if (!hasGmApprovedLifecycle(existing)) {
+        res.status(400).json({ error: "Client Offer Generation is available after GM approval only" });
         return;
       }
-      if (requestedStatus === "design_result") {
-        const bomFolderLink = String(existing.designResultBomFolderLink ?? "").trim();
-        if (!bomFolderLink) {
-          res.status(400).json({ error: "BOM Folder Link is required before submitting Design Result" });
-          return;
-        }
-        const existingAttachments = Array.isArray(existing.attachments) ? existing.attachments : [];
-        const products = Array.isArray(existing.products) && existing.products.length
-          ? existing.products.map((product) => normalizeProduct(product))
-          : [buildLegacyProduct(existing, existingAttachments)];
-        const missingLineNumbers = products
-          .map((product, index) => {
-            const hasName = String(product?.offerProductName ?? "").trim().length > 0;
-            const hasPartNumber = String(product?.offerProductPartNumber ?? "").trim().length > 0;
-            return hasName && hasPartNumber ? null : index + 1;
-          })
-          .filter((value) => value !== null);
-        if (missingLineNumbers.length > 0) {
-          res.status(400).json({
-            error: `Product Name and Product Part Number are required for item(s): ${missingLineNumbers.join(", ")}`,
-          });
-          return;
-        }
+      const profile = await getRequestOwnerOfferProfileForPdf(pool, requestId);
+      const attachmentRules = await getAttachmentAccessRules(pool);
+      const rendered = await renderClientOfferPdf(redactRequestForViewer(existing, req.authUser, attachmentRules), profile, {
+        language: language.value,
+        loadAttachment: createPdfAttachmentLoader(pool, requestId),
+      });
+      if (!rendered) {
+        res.status(503).json({ error: "PDF rendering is not available on this server" });
+        return;
       }
 
-      // Workflow rule: a GM rejection returns the request to Sales Follow-up (WIP),
-      // but we still record the `gm_rejected` event in history.
-      const isGmReject = requestedStatus === "gm_rejected";
-      const effectiveStatus = isGmReject ? "sales_followup" : requestedStatus;
+      await writeAuditLogBestEffort(pool, req, {
+        action: "request.client_offer_pdf_rendered",
+        targetType: "request",
+        targetId: requestId,
+        metadata: { language: language.value },
+      });
 
-      const baseHistoryEntry = {
-        userId: body.userId ?? "",
-        userName: body.userName ?? "",
-      };
-      const historyEntries = isGmReject
-        ? [
-            {
-              id: `h-${Date.now()}`,
-              status: "gm_rejected",
-              timestamp: nowIso,
-              ...baseHistoryEntry,
-              comment: comment || undefined,
-            },
-            {
-              id: `h-${Date.now()}-sales`,
-              status: "sales_followup",
-              // Ensure deterministic ordering when timestamps are used for calculations.
-              timestamp: new Date(now.getTime() + 1).toISOString(),
-              ...baseHistoryEntry,
-            },
-          ]
-        : [
-            {
-              id: `h-${Date.now()}`,
-              status: requestedStatus,
-              timestamp: nowIso,
-              ...baseHistoryEntry,
-              comment: comment || undefined,
-            },
-          ];
+      res.status(200);
+      res.setHeader("Content-Type", "application/pdf");
+      setContentDispositionSafe(res, "inline", rendered.filename);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(rendered.data);
+    })
+  );
 
-      let requestDataForUpdate = {
-        ...existing,
-        status: effectiveStatus,
-        updatedAt: nowIso,
-        history: [...historyList, ...historyEntries],
-      };
-      let salesPrefillApplied = false;
-      let salesPrefillFields = [];
-      if (previousStatus === "costing_complete" && requestedStatus === "sales_followup") {
-        const prefillResult = applyCostingPrefillToSales(requestDataForUpdate);
-        requestDataForUpdate = prefillResult.requestData;
-        salesPrefillApplied = prefillResult.prefillApplied;
-        salesPrefillFields = prefillResult.copiedFields;
+  router.get(
+    "/requests/:requestId",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { requestId } = req.params;
+      const pool = await getPool();
+      const existing = await getRequestById(pool, requestId);
+      if (!existing) {
+        res.status(404).json({ error: "Request not found" });
+        return;
       }
+      setRecordVersionHeader(res, existing.version);
+      res.json(redactRequestForViewer(existing, req.authUser, await getAttachmentAccessRules(pool)));
+    })
+  );
 
-      const updated = normalizeRequestData(requestDataForUpdate, nowIso);
+  router.get(
+    "/requests/:requestId/reference-matches",
+    requirePriceCatalogAccess,
+    asyncHandler(async (req, res) => {
+      const { requestId } = req.params;
+      const pool = await getPool();
+      const existing = await getRequestById(pool, requestId);
+      if (!existing) {
+        res.status(404).json({ error: "Request not found" });
+        return;
+      }
+      const requestedCurrency = String(req.query?.currency ?? "").trim().toUpperCase();
+      const currency = PRICE_CURRENCIES.includes(requestedCurrency)
+        ? requestedCurrency
+        : String(existing.sellingCurrency ?? "EUR").toUpperCase();
+      // Legacy single-product requests are matched through their normalized product line.
+      const products = Array.isArray(existing.products) && existing.products.length
+        ? existing.products.map((product) => normalizeProduct(product))
+        : [buildLegacyProduct(existing, [])];
+      const matches = await matchRequestProducts(pool, products, { currency, user: req.authUser });
+      res.json({ currency, matches });
+    })
+  );
 
-      await pool.query("UPDATE requests SET data=$2::jsonb, status=$3, updated_at=$4 WHERE id=$1", [
-        requestId,
-        JSON.stringify(updated),
-        updated.status,
-        new Date(nowIso),
-      ]);
+  router.get(
+    "/requests/:requestId/similar",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { requestId } = req.params;
+      const pool = await getPool();
+      const existing = await getRequestById(pool, requestId);
+      if (!existing) {
+        res.status(404).json({ error: "Request not found" });
+        return;
+      }
+      const products = Array.isArray(existing.products) && existing.products.length
+        ? existing.products.map((product) => normalizeProduct(product))
+        : [buildLegacyProduct(existing, [])];
+      const similar = await findSimilarRequests(pool, { ...existing, products });
+      // Design result files of other requests follow the same category rule as the viewer's own requests.
+      if (!canViewAttachmentCategory(req.authUser, "design_result", await getAttachmentAccessRules(pool))) {
+        for (const item of similar) item.designResult.files = [];
+      }
+      res.json({ similar });
+    })
+  );
+
+  // Cost sheets are locked once the offer is final.
+  const COST_SHEET_LOCKED_STATUSES = new Set(["gm_approved", "closed", "cancelled"]);
 
-      let deletedSiblingDrafts = 0;
-      const draftSessionKey = String(updated.draftSessionKey ?? existing.draftSessionKey ?? "").trim();
-      const sessionCreatedBy = String(updated.createdBy ?? existing.createdBy ?? "").trim();
-      if (requestedStatus === "submitted" && draftSessionKey && sessionCreatedBy) {
-        const cleanupRes = await pool.query(
-          `
-          DELETE FROM requests
-          WHERE status = 'draft'
-            AND id <> $1
-            AND data->>'createdBy' = $2
-            AND data->>'draftSessionKey' = $3
-          `,
-          [requestId, sessionCreatedBy, draftSessionKey]
-        );
-        deletedSiblingDrafts = cleanupRes.rowCount ?? 0;
+  router.get(
+    "/requests/:requestId/cost-sheets",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { requestId } = req.params;
+      const pool = await getPool();
+      const existing = await getRequestById(pool, requestId);
+      if (!existing) {
+        res.status(404).json({ error: "Request not found" });
+        return;
       }
+      const sheets = filterCostSheetsForUser(await listCostSheets(pool, requestId), req.authUser);
+      res.json({
+        currentRound: resolveCostingRound(existing),
+        canEdit: canEditCostSheets(req.authUser) && !COST_SHEET_LOCKED_STATUSES.has(existing.status),
+        sheets,
+      });
+    })
+  );
 
-      try {
-        const inAppStatus = isGmReject ? "gm_rejected" : String(updated.status ?? "");
-        if (inAppStatus && inAppStatus !== previousStatus) {
-          await enqueueInAppNotifications(pool, {
-            request: updated,
-            requestId,
-            status: inAppStatus,
-            previousStatus,
-            eventType: "request_status_changed",
-            actorUserId: body.userId ?? "",
-            actorName: body.userName ?? "",
-            comment,
-          });
-        }
-      } catch (e) {
-        console.error("Failed to enqueue in-app status notification:", e);
+  router.put(
+    "/requests/:requestId/cost-sheets/:productIndex",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      if (!canEditCostSheets(req.authUser)) {
+        res.status(403).json({ error: "Costing access required" });
+        return;
+      }
+      const { requestId } = req.params;
+      const productIndex = Number(req.params.productIndex);
+      const parsed = parseCostSheetPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
       }
 
-      // Best-effort email notification enqueue (do not block status updates if email config is missing).
-      try {
-        // For GM rejection, email should reflect the rejection, even though the effective status
-        // returns to Sales Follow-up.
-        const emailStatus = isGmReject ? "gm_rejected" : String(updated.status ?? "");
-        if (emailStatus && emailStatus !== previousStatus) {
-          const [settings, tokenState] = await Promise.all([
-            getM365Settings(pool),
-            getM365TokenState(pool),
-          ]);
-          if (settings.enabled && tokenState.hasRefreshToken) {
-            await enqueueRequestEmailByPolicy(pool, {
-              settings,
-              request: updated,
-              requestId,
-              eventType: "request_status_changed",
-              status: emailStatus,
-              previousStatus,
-              actorName: body.userName ?? "",
-              comment,
-              eventAt: new Date(nowIso),
-            });
-          }
-        }
-      } catch (e) {
-        console.error("Failed to enqueue status change email:", e);
+      const pool = await getPool();
+      const existing = await getRequestById(pool, requestId);
+      if (!existing) {
+        res.status(404).json({ error: "Request not found" });
+        return;
+      }
+      const productCount = Array.isArray(existing.products) && existing.products.length ? existing.products.length : 1;
+      if (!Number.isInteger(productIndex) || productIndex < 0 || productIndex >= productCount) {
+        res.status(400).json({ error: "Invalid product line" });
+        return;
+      }
+      if (COST_SHEET_LOCKED_STATUSES.has(existing.status)) {
+        res.status(409).json({ error: "Cost sheets can no longer be changed for this request" });
+        return;
       }
 
+      const round = resolveCostingRound(existing);
+      const { sheet, created } = await withTransaction(pool, (client) =>
+        saveCostSheet(client, requestId, productIndex, round, parsed.value, req.authUser)
+      );
       await writeAuditLogBestEffort(pool, req, {
-        action: "request.status_changed",
+        action: "request.cost_sheet_saved",
         targetType: "request",
         targetId: requestId,
         metadata: {
-          from: previousStatus,
-          to: requestedStatus || null,
-          effectiveTo: updated.status ?? null,
-          deletedSiblingDrafts: deletedSiblingDrafts || 0,
-          salesPrefillApplied,
-          salesPrefillFields,
+          productIndex,
+          costingRound: round,
+          currency: sheet.currency,
+          totalCost: sheet.totalCost,
+          visibleToSales: sheet.visibleToSales,
+          created,
         },
       });
+      res.status(created ? 201 : 200).json(sheet);
+    })
+  );
 
-      if (deletedSiblingDrafts > 0) {
-        await writeAuditLogBestEffort(pool, req, {
-          action: "request.draft_siblings_deleted",
-          targetType: "request",
-          targetId: requestId,
-          metadata: {
-            deletedSiblingDrafts,
-            draftSessionKey,
-            createdBy: sessionCreatedBy,
-          },
-        });
+  router.get(
+    "/requests/:requestId/client-offer-revisions",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { requestId } = req.params;
+      const pool = await getPool();
+      const { rows } = await pool.query("SELECT 1 FROM requests WHERE id = $1", [requestId]);
+      if (!rows.length) {
+        res.status(404).json({ error: "Request not found" });
+        return;
       }
+      res.json({ revisions: await listOfferRevisions(pool, requestId) });
+    })
+  );
 
-      res.json(updated);
+  router.get(
+    "/requests/:requestId/client-offer-revisions/diff",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      const { requestId } = req.params;
+      const fromId = String(req.query?.from ?? "").trim();
+      const toId = String(req.query?.to ?? "").trim();
+      if (!fromId || !toId) {
+        res.status(400).json({ error: "Two revisions are required" });
+        return;
+      }
+      const pool = await getPool();
+      const [from, to] = await Promise.all([
+        getOfferRevision(pool, requestId, fromId),
+        getOfferRevision(pool, requestId, toId),
+      ]);
+      if (!from || !to) {
+        res.status(404).json({ error: "Offer revision not found" });
+        return;
+      }
+      res.json({ from: from.revisionLabel, to: to.revisionLabel, changes: diffOfferRevisions(from, to) });
     })
   );
 
-  // Enqueue a notification email without changing status/history.
-  // Used when a role edits its previously submitted data and we need to re-notify the next step.
   router.post(
-    "/requests/:requestId/notify",
+    "/requests/:requestId/client-offer-revisions",
     requireAuth,
     asyncHandler(async (req, res) => {
+      if (!hasRole(req.authUser, "sales") && !hasRole(req.authUser, "admin")) {
+        res.status(403).json({ error: "Client offer revisions are restricted to Sales and Admin" });
+        return;
+      }
       const { requestId } = req.params;
-      const body = safeJson(req.body) ?? {};
-      const eventType = String(body.eventType ?? "request_status_changed").trim() || "request_status_changed";
-      const actorName = String(body.actorName ?? "").trim();
-      const comment = typeof body.comment === "string" ? body.comment : "";
-
-      const pool = await getPool();
-      const existing = await getRequestById(pool, requestId);
-      if (!existing) {
-        res.status(404).json({ error: "Request not found" });
+      const language = parsePdfLanguage(req.body?.language);
+      if (language.error) {
+        res.status(400).json({ error: language.error });
         return;
       }
 
-      const status = String(body.status ?? existing.status ?? "").trim();
-      const previousStatus = String(body.previousStatus ?? "").trim();
-      const actorUserId = String(req.authUser?.id ?? "").trim();
+      const pool = await getPool();
+      const result = await withTransaction(pool, async (client) => {
+        // Snapshot and PDF both come from the saved offer configuration under the row lock, so a revision always
+        // matches what the request held when it was issued.
+        const { rows } = await client.query("SELECT 1 FROM requests WHERE id = $1 FOR UPDATE", [requestId]);
+        if (!rows.length) return { status: 404, error: "Request not found" };
+        const request = await getRequestById(client, requestId);
+        if (!hasGmApprovedLifecycle(request)) {
+          return { status: 400, error: "Client Offer Generation is available after GM approval only" };
+        }
+        const config = normalizeClientOfferConfig(request.clientOfferConfig, new Date().toISOString());
+        if (!config || !config.lines.length) return { status: 400, error: "The offer has no line items" };
+        const snapshot = buildOfferSnapshot(request, config);
+
+        const profile = await getRequestOwnerOfferProfileForPdf(client, requestId);
+        const attachmentRules = await getAttachmentAccessRules(client);
+        const rendered = await renderClientOfferPdf(
+          applyOfferSnapshot(redactRequestForViewer(request, req.authUser, attachmentRules), snapshot),
+          profile,
+          { language: language.value, loadAttachment: createPdfAttachmentLoader(client, requestId) }
+        );
+        if (!rendered) return { status: 503, error: "PDF rendering is not available on this server" };
 
-      let inAppEnqueued = false;
-      try {
-        const inserted = await enqueueInAppNotifications(pool, {
-          request: existing,
+        const revision = await createOfferRevision(client, {
           requestId,
-          status,
-          previousStatus,
-          eventType,
-          actorUserId,
-          actorName,
-          comment,
+          snapshot,
+          pdf: { ...rendered, language: language.value },
+          actor: req.authUser,
         });
-        inAppEnqueued = inserted > 0;
-      } catch (e) {
-        console.error("Failed to enqueue in-app notify notification:", e);
+        return { revision };
+      });
+      if (result.error) {
+        res.status(result.status).json({ error: result.error });
+        return;
       }
 
-      let emailEnqueued = false;
-      let emailReason = null;
-      const [settings, tokenState] = await Promise.all([
-        getM365Settings(pool),
-        getM365TokenState(pool),
-      ]);
-      if (!settings.enabled) {
-        emailReason = "disabled";
-      } else if (!tokenState.hasRefreshToken) {
-        emailReason = "not_connected";
-      } else {
-        const enqueueResult = await enqueueRequestEmailByPolicy(pool, {
-          settings,
-          request: existing,
-          requestId,
-          eventType,
-          status,
-          previousStatus,
-          actorName,
-          comment,
-          eventAt: new Date(),
-        });
-        emailEnqueued = Boolean(enqueueResult?.emailEnqueued);
-        if (!emailEnqueued) {
-          emailReason = "no_recipients";
+      await writeAuditLogBestEffort(pool, req, {
+        action: "request.client_offer_revision_issued",
+        targetType: "request",
+        targetId: requestId,
+        metadata: {
+          revision: result.revision.revisionLabel,
+          offerNumber: result.revision.snapshot.offerNumber || null,
+          total: result.revision.snapshot.total,
+          currency: result.revision.snapshot.salesCurrency ?? null,
+        },
+      });
+      res.status(201).json(result.revision);
+    })
+  );
+
+  router.post(
+    "/requests/:requestId/client-offer-revisions/:revisionId/sent",
+    requireAuth,
+    asyncHandler(async (req, res) => {
+      if (!hasRole(req.authUser, "sales") && !hasRole(req.authUser, "admin")) {
+        res.status(403).json({ error: "Client offer revisions are restricted to Sales and Admin" });
+        return;
+      }
+      const { requestId, revisionId } = req.params;
+      const parsed = parseOfferSentPayload(req.body);
+      if (parsed.error) {
+        res.status(400).json({ error: parsed.error });
+        return;
+      }
+      const pool = await getPool();
+      const revision = await markOfferRevisionSent(pool, requestId, revisionId, parsed.value, req.authUser);
+      if (!revision) {
+        const current = await getOfferRevision(pool, requestId, revisionId);
+        if (current) {
+          res.status(409).json({ error: "Offer revision was already marked as sent", revision: current });
+          return;
         }
+        res.status(404).json({ error: "Offer revision not found" });
+        return;
       }
-
-      res.json({
-        enqueued: inAppEnqueued || emailEnqueued,
-        inAppEnqueued,
-        emailEnqueued,
-        reason: inAppEnqueued || emailEnqueued ? undefined : emailReason || "no_targets",
+      await writeAuditLogBestEffort(pool, req, {
+        action: "request.client_offer_revision_sent",
+        targetType: "request",
+        targetId: requestId,
+        metadata: { revision: revision.revisionLabel, recipient: parsed.value.recipient, sentOn: parsed.value.sentOn },
       });
+      res.json(revision);
     })
   );
 
   router.get(
-    "/requests/:requestId/client-offer-profile",
+    "/requests/:requestId/changes",
     requireAuth,
     asyncHandler(async (req, res) => {
       const { requestId } = req.params;
+      const section = String(req.query?.section ?? "").trim().toLowerCase();
+      if (section && !REQUEST_CHANGE_SECTIONS.includes(section)) {
+        res.status(400).json({ error: "Invalid section" });
+        return;
+      }
       const pool = await getPool();
-      const composed = await getRequestOwnerOfferProfileForPdf(pool, requestId);
-      if (!composed) {
+      const { rows } = await pool.query("SELECT 1 FROM requests WHERE id = $1", [requestId]);
+      if (!rows.length) {
         res.status(404).json({ error: "Request not found" });
         return;
       }
-      res.json(composed);
+      const changes = await listRequestFieldChanges(pool, requestId, { section: section || null });
+      const attachmentRules = await getAttachmentAccessRules(pool);
+      res.json({
+        changes: redactAttachmentChangesForUser(
+          redactRequestChangesForUser(changes, req.authUser),
+          req.authUser,
+          attachmentRules
+        ),
+      });
     })
   );
 
   router.get(
-    "/requests/:requestId",
+    "/requests/:requestId/approval-signatures",
     requireAuth,
     asyncHandler(async (req, res) => {
       const { requestId } = req.params;
@@ -10665,7 +12660,16 @@ export const apiRouter = (() => {
         res.status(404).json({ error: "Request not found" });
         return;
       }
-      res.json(existing);
+      const verification = await verifyApprovalSignatures(pool, "request", requestId, existing);
+      const attachmentRules = await getAttachmentAccessRules(pool);
+      res.json({
+        ...verification,
+        // Signed snapshots follow the same margin and attachment visibility as the request itself.
+        signatures: verification.signatures.map((signature) => ({
+          ...signature,
+          payload: redactRequestForViewer(signature.payload, req.authUser, attachmentRules),
+        })),
+      });
     })
   );
 
@@ -10686,14 +12690,35 @@ export const apiRouter = (() => {
         res.status(404).json({ error: "Request not found" });
         return;
       }
-      const actorRole = String(req.authUser?.role ?? "").trim().toLowerCase();
       const actorId = String(req.authUser?.id ?? "").trim();
       const ownerId = String(existing.createdBy ?? "").trim();
-      if (actorRole === "sales" && (!ownerId || ownerId !== actorId)) {
+      const canEditAnyRequest = ["admin", "design", "costing"].some((role) => hasRole(req.authUser, role));
+      if (hasRole(req.authUser, "sales") && !canEditAnyRequest && (!ownerId || ownerId !== actorId)) {
         res.status(403).json({ error: "You can only edit your own requests" });
         return;
       }
 
+      const attachmentRules = await getAttachmentAccessRules(pool);
+      const expectedVersion = readExpectedRecordVersion(req, body);
+      const respondVersionConflict = (current) => {
+        setRecordVersionHeader(res, current?.version);
+        res.status(409).json({
+          error: "Request was modified by another user",
+          code: RECORD_VERSION_CONFLICT_CODE,
+          expectedVersion,
+          currentVersion: current?.version ?? null,
+          current: redactRequestForViewer(current, req.authUser, attachmentRules),
+        });
+      };
+      if (expectedVersion === null) {
+        respondVersionRequired(res);
+        return;
+      }
+      if (expectedVersion !== existing.version) {
+        respondVersionConflict(existing);
+        return;
+      }
+
       const nowIso = new Date().toISOString();
       const historyEvent = body.historyEvent;
       const editedBy = body.editedBy;
@@ -10701,8 +12726,19 @@ export const apiRouter = (() => {
       const persistedStatus = String(existing.status ?? "").trim();
       const attemptedStatus = typeof body.status === "string" ? body.status.trim() : "";
       const attemptedStatusChange = Boolean(attemptedStatus && attemptedStatus !== persistedStatus);
-      const sanitizedBody = { ...body };
+      // Attachment lists the user cannot see keep their stored content.
+      const sanitizedBody = { ...keepHiddenAttachmentLists(body, existing, req.authUser, attachmentRules) };
       delete sanitizedBody.status;
+      // Frozen by the status route on GM approval only.
+      delete sanitizedBody.exchangeRateSnapshot;
+      // Users who cannot see margins cannot change them either (their payload never carries the real value).
+      if (!hasPermission(req.authUser, "view_costing_margin")) {
+        delete sanitizedBody.calculatedMargin;
+        delete sanitizedBody.salesMargin;
+        // Their copy of the price lines has no margins, so saving it would wipe them.
+        delete sanitizedBody.costingProductPrices;
+        delete sanitizedBody.salesProductPrices;
+      }
       const clientOfferConfigInPayload = Object.prototype.hasOwnProperty.call(
         sanitizedBody,
         "clientOfferConfig"
@@ -10712,7 +12748,7 @@ export const apiRouter = (() => {
           res.status(401).json({ error: "Authentication required" });
           return;
         }
-        if (actorRole !== "sales" && actorRole !== "admin") {
+        if (!hasRole(req.authUser, "sales") && !hasRole(req.authUser, "admin")) {
           res.status(403).json({ error: "Client offer configuration is restricted to Sales and Admin" });
           return;
         }
@@ -10729,6 +12765,7 @@ export const apiRouter = (() => {
       delete merged.historyEvent;
       delete merged.editedBy;
       delete merged.editedByName;
+      delete merged.expectedVersion;
 
       if (!Array.isArray(body.products) && hasLegacyProductUpdates(body)) {
         const existingProducts = Array.isArray(existing.products) ? existing.products : [];
@@ -10770,15 +12807,51 @@ export const apiRouter = (() => {
       if (Array.isArray(updated.products) && updated.products.length) {
         Object.assign(updated, syncLegacyFromProduct(updated, updated.products[0]));
       }
+      Object.assign(updated, await resolveCustomerLink(pool, updated));
 
-      await materializeRequestAttachments(pool, requestId, updated);
+      const nextVersion = await withTransaction(pool, async (client) => {
+        await materializeRequestAttachments(client, requestId, updated, req.authUser);
+        // The version predicate closes the race between the check above and this write.
+        const { rows: versionRows } = await client.query(
+          `
+          UPDATE requests
+             SET data=$2::jsonb, status=$3, updated_at=$4, version = version + 1
+           WHERE id=$1
+             AND version = $5
+          RETURNING version
+          `,
+          [
+            requestId,
+            JSON.stringify(withoutRecordVersion(updated)),
+            persistedStatus || existing.status,
+            new Date(nowIso),
+            expectedVersion,
+          ]
+        );
+        if (!versionRows?.length) {
+          // Roll back the attachment writes as well; the caller reports the conflict.
+          throw createHttpError(409, "Request version conflict", RECORD_VERSION_CONFLICT_CODE);
+        }
+        return parseRecordVersion(versionRows[0].version) ?? existing.version + 1;
+      }).catch(async (error) => {
+        if (error?.reasonCode !== RECORD_VERSION_CONFLICT_CODE) throw error;
+        const current = await getRequestById(pool, requestId);
+        if (!current) {
+          res.status(404).json({ error: "Request not found" });
+          return null;
+        }
+        respondVersionConflict(current);
+        return null;
+      });
+      if (nextVersion === null) return;
+      updated.version = nextVersion;
 
-      await pool.query("UPDATE requests SET data=$2::jsonb, status=$3, updated_at=$4 WHERE id=$1", [
+      await recordRequestFieldChangesBestEffort(pool, {
         requestId,
-        JSON.stringify(updated),
-        persistedStatus || existing.status,
-        new Date(nowIso),
-      ]);
+        changes: diffRequestFields(existing, updated),
+        actor: { id: req.authUser?.id ?? editedBy, name: req.authUser?.name ?? editedByName },
+        changedAt: nowIso,
+      });
 
       if (attemptedStatusChange) {
         await writeAuditLogBestEffort(pool, req, {
@@ -10802,20 +12875,25 @@ export const apiRouter = (() => {
           attemptedStatus: attemptedStatus || null,
           historyEvent: historyEvent ?? null,
           clientOfferConfigChanged: clientOfferConfigInPayload,
+          version: updated.version,
+          expectedVersion,
         },
       });
 
-      res.json(updated);
+      setRecordVersionHeader(res, updated.version);
+      publishRequestChanged(updated, "updated");
+      res.json(redactRequestForViewer(updated, req.authUser, attachmentRules));
     })
   );
 
   router.delete(
     "/requests/:requestId",
-    requireAuth,
+    requirePermission("delete_requests"),
     asyncHandler(async (req, res) => {
       const { requestId } = req.params;
       const pool = await getPool();
       await pool.query("DELETE FROM requests WHERE id = $1", [requestId]);
+      publishRequestChanged({ id: requestId }, "deleted");
       res.status(204).send();
     })
   );
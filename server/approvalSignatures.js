@@ -0,0 +1,295 @@
+// Signed GM decisions on requests and contract approvals (/api/requests/:id/approval-signatures,
+// /api/contracts/:id/approval-signatures). A GM approval or rejection needs the approver's password again; the
+// decision then stores a snapshot of what was decided on (price, currency, margin, terms and the SHA-256 of every
+// attached file) with its hash, the signer and the time. Each signature also hashes the previous signature of the
+// same record, so rewriting or removing an older row breaks the chain.
+// Verification recomputes the hashes and compares each approved snapshot with the record as it is today.
+
+import { createHash, randomUUID } from "node:crypto";
+import { getAttachmentContentSha256 } from "./attachmentStorage.js";
+import { verifyUserPassword } from "./auth.js";
+
+export const APPROVAL_SIGNATURE_TARGETS = Object.freeze(["request", "contract"]);
+export const APPROVAL_SIGNATURE_DECISIONS = Object.freeze(["approved", "rejected"]);
+
+const SIGNATURE_COLUMNS = `
+  id, target_type, target_id, decision, payload, payload_hash, previous_hash, signature_hash, signer_user_id,
+  signer_name, signer_email, comment, reauthenticated_at, signed_at
+`;
+
+const ATTACHMENT_TABLES = Object.freeze({
+  request: "request_attachments",
+  contract: "contract_approval_attachments",
+});
+
+const toText = (value) => String(value ?? "").trim();
+
+const toIso = (value) => (value instanceof Date ? value.toISOString() : value ? String(value) : null);
+
+const toNumberOrNull = (value) => {
+  const number = typeof value === "number" ? value : Number.parseFloat(toText(value));
+  return Number.isFinite(number) ? number : null;
+};
+
+const toJsonObject = (value) => {
+  if (value && typeof value === "object" && !Array.isArray(value)) return value;
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+  return {};
+};
+
+const sha256Hex = (value) => createHash("sha256").update(value).digest("hex");
+
+// JSON with object keys sorted at every level, so the same payload always hashes the same.
+export const canonicalJson = (value) => {
+  if (Array.isArray(value)) return `[${value.map((item) => canonicalJson(item)).join(",")}]`;
+  if (value && typeof value === "object") {
+    const keys = Object.keys(value)
+      .filter((key) => value[key] !== undefined)
+      .sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const hashApprovalPayload = (payload) => sha256Hex(canonicalJson(payload));
+
+const hashSignature = ({ previousHash, targetType, targetId, decision, payloadHash, signerUserId, signerEmail, signedAt }) =>
+  sha256Hex(
+    canonicalJson({ previousHash, targetType, targetId, decision, payloadHash, signerUserId, signerEmail, signedAt })
+  );
+
+// Re-authentication of the GM decision: the password of the signed-in user.
+export const verifySignerPassword = async (db, userId, password) => {
+  if (!toText(userId) || typeof password !== "string" || !password) return null;
+  const { rows } = await db.query(
+    "SELECT id, name, email, password_hash, is_active FROM app_users WHERE id = $1 LIMIT 1",
+    [toText(userId)]
+  );
+  const row = rows?.[0] ?? null;
+  if (!row || row.is_active === false || !verifyUserPassword(password, row.password_hash)) return null;
+  return { id: row.id, name: row.name ?? "", email: row.email ?? "" };
+};
+
+const attachmentRefs = (list) =>
+  (Array.isArray(list) ? list : [])
+    .map((item) => ({ id: toText(item?.id), filename: toText(item?.filename) }))
+    .filter((item) => item.id || item.filename);
+
+// Attachments as `{ id, filename, sha256 }`, hashed from the stored bytes. A file that is not stored has no hash.
+const digestAttachments = async (db, targetType, list) => {
+  const refs = attachmentRefs(list);
+  const ids = refs.map((item) => item.id).filter(Boolean);
+  const digests = new Map();
+  if (ids.length) {
+    // The bytes are only read for database rows stored before their hash was recorded.
+    const { rows } = await db.query(
+      `
+      SELECT id, content_sha256, CASE WHEN content_sha256 IS NULL THEN data END AS data
+      FROM ${ATTACHMENT_TABLES[targetType]}
+      WHERE id = ANY($1::text[])
+      `,
+      [ids]
+    );
+    for (const row of rows) {
+      const digest = getAttachmentContentSha256(row);
+      if (digest) digests.set(row.id, digest);
+    }
+  }
+  return refs
+    .map((item) => ({ ...item, sha256: digests.get(item.id) ?? null }))
+    .sort((a, b) => a.id.localeCompare(b.id) || a.filename.localeCompare(b.filename));
+};
+
+const orOther = (value, other) => (toText(value) === "other" ? toText(other) : toText(value));
+
+// What the GM approves on a request: the Sales follow-up figures and terms, and the Sales attachments.
+export const buildRequestApprovalPayload = async (db, request) => ({
+  clientName: toText(request?.clientName),
+  salesCurrency: toText(request?.salesCurrency),
+  salesFinalPrice: toNumberOrNull(request?.salesFinalPrice),
+  salesMargin: toNumberOrNull(request?.salesMargin),
+  salesVatMode: toText(request?.salesVatMode),
+  salesVatRate: toNumberOrNull(request?.salesVatRate),
+  salesIncoterm: orOther(request?.salesIncoterm, request?.salesIncotermOther),
+  salesPaymentTerms: (Array.isArray(request?.salesPaymentTerms) ? request.salesPaymentTerms : [])
+    .filter((term) => toText(term?.paymentName) || toNumberOrNull(term?.paymentPercent) !== null)
+    .map((term) => ({
+      name: toText(term?.paymentName),
+      percent: toNumberOrNull(term?.paymentPercent),
+      comments: toText(term?.comments),
+    })),
+  salesOfferValidityPeriod: toText(request?.salesOfferValidityPeriod),
+  salesWarrantyPeriod: toText(request?.salesWarrantyPeriod),
+  salesExpectedDeliveryDate: toText(request?.salesExpectedDeliveryDate),
+  salesProductPrices: (Array.isArray(request?.salesProductPrices) ? request.salesProductPrices : []).map((line) => ({
+    productIndex: toNumberOrNull(line?.productIndex),
+    unitPrice: toNumberOrNull(line?.unitPrice),
+    currency: toText(line?.currency),
+    margin: toNumberOrNull(line?.margin),
+  })),
+  salesAttachments: await digestAttachments(db, "request", request?.salesAttachments),
+});
+
+// What the GM approves on a contract: the approved commercial figures and the draft contract files. Stamped files
+// are uploaded after the decision and are not part of it.
+export const buildContractApprovalPayload = async (db, contract) => ({
+  clientName: toText(contract?.clientName),
+  craNumber: toText(contract?.craNumber),
+  contractAmount: toNumberOrNull(contract?.contractAmount),
+  paymentTerms: toText(contract?.paymentTerms),
+  validity: toText(contract?.validity),
+  approvedFinalUnitPrice: toNumberOrNull(contract?.approvedFinalUnitPrice),
+  approvedCurrency: toText(contract?.approvedCurrency),
+  approvedGrossMargin: toNumberOrNull(contract?.approvedGrossMargin),
+  approvedVatMode: toText(contract?.approvedVatMode),
+  approvedVatRate: toNumberOrNull(contract?.approvedVatRate),
+  approvedIncoterm: toText(contract?.approvedIncoterm),
+  approvedExpectedDeliveryDate: toText(contract?.approvedExpectedDeliveryDate),
+  approvedWarrantyPeriod: toText(contract?.approvedWarrantyPeriod),
+  draftContractAttachments: await digestAttachments(db, "contract", contract?.draftContractAttachments),
+});
+
+export const buildApprovalPayload = (db, targetType, record) =>
+  targetType === "contract" ? buildContractApprovalPayload(db, record) : buildRequestApprovalPayload(db, record);
+
+export const mapApprovalSignatureRow = (row) => ({
+  id: row.id,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  decision: row.decision,
+  payload: toJsonObject(row.payload),
+  payloadHash: row.payload_hash,
+  previousHash: row.previous_hash ?? null,
+  signatureHash: row.signature_hash,
+  signerUserId: row.signer_user_id ?? "",
+  signerName: row.signer_name ?? "",
+  signerEmail: row.signer_email ?? "",
+  comment: row.comment ?? "",
+  reauthenticatedAt: toIso(row.reauthenticated_at),
+  signedAt: toIso(row.signed_at),
+});
+
+export const listApprovalSignatures = async (db, targetType, targetId) => {
+  const { rows } = await db.query(
+    `SELECT ${SIGNATURE_COLUMNS} FROM approval_signatures WHERE target_type = $1 AND target_id = $2 ORDER BY signed_at, id`,
+    [targetType, targetId]
+  );
+  return rows.map(mapApprovalSignatureRow);
+};
+
+// Records a decision. Run it in the transaction that writes the decision, after the record row is updated: the row
+// lock keeps concurrent decisions on the same record in order, so each one chains to the one before.
+export const recordApprovalSignature = async (
+  client,
+  { targetType, targetId, decision, record, signer, comment, reauthenticatedAt, signedAt }
+) => {
+  const payload = await buildApprovalPayload(client, targetType, record);
+  const payloadHash = hashApprovalPayload(payload);
+  const { rows: previousRows } = await client.query(
+    `
+    SELECT signature_hash FROM approval_signatures
+    WHERE target_type = $1 AND target_id = $2
+    ORDER BY signed_at DESC, id DESC
+    LIMIT 1
+    `,
+    [targetType, targetId]
+  );
+  const previousHash = previousRows[0]?.signature_hash ?? null;
+  const signerUserId = toText(signer?.id);
+  const signerEmail = toText(signer?.email).toLowerCase();
+  const signatureHash = hashSignature({
+    previousHash,
+    targetType,
+    targetId,
+    decision,
+    payloadHash,
+    signerUserId,
+    signerEmail,
+    signedAt,
+  });
+  const { rows } = await client.query(
+    `
+    INSERT INTO approval_signatures
+      (id, target_type, target_id, decision, payload, payload_hash, previous_hash, signature_hash, signer_user_id,
+       signer_name, signer_email, comment, reauthenticated_at, signed_at)
+    VALUES ($1,$2,$3,$4,$5::jsonb,$6,$7,$8,$9,$10,$11,$12,$13,$14)
+    RETURNING ${SIGNATURE_COLUMNS}
+    `,
+    [
+      randomUUID(),
+      targetType,
+      targetId,
+      decision,
+      JSON.stringify(payload),
+      payloadHash,
+      previousHash,
+      signatureHash,
+      signerUserId,
+      toText(signer?.name),
+      signerEmail,
+      toText(comment) || null,
+      new Date(reauthenticatedAt),
+      new Date(signedAt),
+    ]
+  );
+  return mapApprovalSignatureRow(rows[0]);
+};
+
+// Top-level payload fields whose values differ.
+export const diffApprovalPayloads = (signed, current) => {
+  const keys = new Set([...Object.keys(signed ?? {}), ...Object.keys(current ?? {})]);
+  return Array.from(keys)
+    .filter((key) => canonicalJson(signed?.[key]) !== canonicalJson(current?.[key]))
+    .sort();
+};
+
+// Checks every signature of a record: the stored snapshot against its hash, the chain against the previous
+// signature, and approved snapshots against the record as it is now.
+export const verifyApprovalSignatures = async (db, targetType, targetId, record) => {
+  const signatures = await listApprovalSignatures(db, targetType, targetId);
+  const currentPayload = await buildApprovalPayload(db, targetType, record);
+  const currentPayloadHash = hashApprovalPayload(currentPayload);
+  let expectedPrevious = null;
+  const items = signatures.map((signature, index) => {
+    const payloadIntact = hashApprovalPayload(signature.payload) === signature.payloadHash;
+    const chainIntact =
+      signature.previousHash === expectedPrevious &&
+      hashSignature({
+        previousHash: signature.previousHash,
+        targetType: signature.targetType,
+        targetId: signature.targetId,
+        decision: signature.decision,
+        payloadHash: signature.payloadHash,
+        signerUserId: signature.signerUserId,
+        signerEmail: signature.signerEmail,
+        signedAt: signature.signedAt,
+      }) === signature.signatureHash;
+    expectedPrevious = signature.signatureHash;
+    const changedFields =
+      signature.decision === "approved" ? diffApprovalPayloads(signature.payload, currentPayload) : [];
+    return {
+      ...signature,
+      latest: index === signatures.length - 1,
+      payloadIntact,
+      chainIntact,
+      matchesCurrent: signature.decision === "approved" ? changedFields.length === 0 : null,
+      changedFields,
+    };
+  });
+  const latestApproval = [...items].reverse().find((item) => item.decision === "approved") ?? null;
+  return {
+    targetType,
+    targetId,
+    currentPayloadHash,
+    signatures: [...items].reverse(),
+    intact: items.every((item) => item.payloadIntact && item.chainIntact),
+    matchesLatestApproval: latestApproval ? latestApproval.matchesCurrent : null,
+  };
+};
@@ -0,0 +1,177 @@
+// Attachment visibility per category and role (Settings > Users > Attachment access). A request file's category is
+// given by the request field that lists it; each category is visible to the roles selected for it, and admins see
+// every category. Hidden categories are removed from the requests returned to a user, refused on download, and left
+// untouched by that user's saves (their copy of the request never carries the hidden lists).
+
+import { USER_ROLES, hasRole } from "./permissions.js";
+
+export const ATTACHMENT_CATEGORIES = Object.freeze(["rim_drawing", "design_result", "costing", "sales"]);
+
+// Roles the rules apply to; admins are not listed because they always see everything.
+export const ATTACHMENT_ACCESS_ROLES = Object.freeze(USER_ROLES.filter((role) => role !== "admin"));
+
+export const DEFAULT_ATTACHMENT_ACCESS = Object.freeze({
+  rim_drawing: ["sales", "design", "costing"],
+  design_result: ["sales", "design", "costing"],
+  costing: ["sales", "costing"],
+  sales: ["sales", "costing"],
+});
+
+// Request-level and per-product fields holding each category.
+export const REQUEST_ATTACHMENT_FIELDS = Object.freeze({
+  attachments: "rim_drawing",
+  designResultAttachments: "design_result",
+  costingAttachments: "costing",
+  salesAttachments: "sales",
+});
+export const PRODUCT_ATTACHMENT_FIELDS = Object.freeze({
+  attachments: "rim_drawing",
+  designResultAttachments: "design_result",
+});
+
+// Issued client offer PDFs are stored with the request without being listed in it.
+const STORED_TYPE_CATEGORIES = Object.freeze({ client_offer_revision: "sales" });
+
+const toText = (value) => String(value ?? "").trim();
+
+export const getAttachmentAccessRules = async (db) => {
+  const { rows } = await db.query("SELECT category, role FROM attachment_access_rules");
+  const rules = Object.fromEntries(ATTACHMENT_CATEGORIES.map((category) => [category, []]));
+  for (const row of rows) {
+    if (!rules[row.category] || !ATTACHMENT_ACCESS_ROLES.includes(row.role)) continue;
+    rules[row.category].push(row.role);
+  }
+  for (const category of ATTACHMENT_CATEGORIES) {
+    rules[category] = ATTACHMENT_ACCESS_ROLES.filter((role) => rules[category].includes(role));
+  }
+  return rules;
+};
+
+// Validates the admin payload for PUT /api/admin/attachment-access. Returns `{ value }` or `{ error }`.
+export const parseAttachmentAccessPayload = (body) => {
+  const input = body?.rules;
+  if (!input || typeof input !== "object" || Array.isArray(input)) return { error: "Invalid attachment access rules" };
+  const rules = {};
+  for (const category of ATTACHMENT_CATEGORIES) {
+    const roles = input[category] ?? [];
+    if (!Array.isArray(roles)) return { error: `Invalid roles for ${category}` };
+    const normalized = roles.map((role) => toText(role).toLowerCase());
+    const unknownRole = normalized.find((role) => !ATTACHMENT_ACCESS_ROLES.includes(role));
+    if (unknownRole !== undefined) return { error: `Unknown role: ${unknownRole || "(empty)"}` };
+    rules[category] = ATTACHMENT_ACCESS_ROLES.filter((role) => normalized.includes(role));
+  }
+  return { value: rules };
+};
+
+// Replaces all rules; callers run this inside a transaction.
+export const saveAttachmentAccessRules = async (client, rules, { userId }) => {
+  await client.query("DELETE FROM attachment_access_rules");
+  const categories = [];
+  const roles = [];
+  for (const category of ATTACHMENT_CATEGORIES) {
+    for (const role of rules[category] ?? []) {
+      categories.push(category);
+      roles.push(role);
+    }
+  }
+  if (categories.length) {
+    await client.query(
+      `
+      INSERT INTO attachment_access_rules (category, role, updated_by_user_id)
+      SELECT category, role, $3 FROM unnest($1::text[], $2::text[]) AS r(category, role)
+      `,
+      [categories, roles, userId || null]
+    );
+  }
+};
+
+export const canViewAttachmentCategory = (user, category, rules) => {
+  if (hasRole(user, "admin")) return true;
+  if (!category) return false;
+  return (rules[category] ?? []).some((role) => hasRole(user, role));
+};
+
+const getHiddenCategories = (user, rules) =>
+  ATTACHMENT_CATEGORIES.filter((category) => !canViewAttachmentCategory(user, category, rules));
+
+const listsAttachment = (list, attachmentId) =>
+  Array.isArray(list) && list.some((item) => toText(item?.id) === attachmentId);
+
+// Category of a stored request attachment, or null when the request does not list it.
+export const findAttachmentCategory = (request, attachmentId, storedType) => {
+  const id = toText(attachmentId);
+  for (const [field, category] of Object.entries(REQUEST_ATTACHMENT_FIELDS)) {
+    if (listsAttachment(request?.[field], id)) return category;
+  }
+  for (const product of Array.isArray(request?.products) ? request.products : []) {
+    for (const [field, category] of Object.entries(PRODUCT_ATTACHMENT_FIELDS)) {
+      if (listsAttachment(product?.[field], id)) return category;
+    }
+  }
+  return STORED_TYPE_CATEGORIES[toText(storedType)] ?? null;
+};
+
+export const redactRequestAttachmentsForUser = (request, user, rules) => {
+  if (!request) return request;
+  const hidden = getHiddenCategories(user, rules);
+  if (!hidden.length) return request;
+  const redacted = { ...request };
+  for (const [field, category] of Object.entries(REQUEST_ATTACHMENT_FIELDS)) {
+    if (hidden.includes(category)) delete redacted[field];
+  }
+  if (Array.isArray(redacted.products)) {
+    redacted.products = redacted.products.map((product) => {
+      if (!product || typeof product !== "object") return product;
+      const next = { ...product };
+      for (const [field, category] of Object.entries(PRODUCT_ATTACHMENT_FIELDS)) {
+        if (hidden.includes(category)) delete next[field];
+      }
+      return next;
+    });
+  }
+  return redacted;
+};
+
+// Puts the stored lists of hidden categories back into a request payload before it is saved, so a user cannot
+// remove (or add) files they cannot see. Products are matched by index, like the per-product price lines.
+export const keepHiddenAttachmentLists = (payload, existing, user, rules) => {
+  const hidden = getHiddenCategories(user, rules);
+  if (!hidden.length || !payload || typeof payload !== "object") return payload;
+  const next = { ...payload };
+  for (const [field, category] of Object.entries(REQUEST_ATTACHMENT_FIELDS)) {
+    if (hidden.includes(category)) delete next[field];
+  }
+  if (Array.isArray(next.products)) {
+    const existingProducts = Array.isArray(existing?.products) ? existing.products : [];
+    next.products = next.products.map((product, index) => {
+      if (!product || typeof product !== "object") return product;
+      const merged = { ...product };
+      for (const [field, category] of Object.entries(PRODUCT_ATTACHMENT_FIELDS)) {
+        if (!hidden.includes(category)) continue;
+        const stored = existingProducts[index]?.[field];
+        if (Array.isArray(stored)) merged[field] = stored;
+        else delete merged[field];
+      }
+      return merged;
+    });
+  }
+  return next;
+};
+
+// Category of a request field-change path (`salesAttachments`, `products.0.designResultAttachments`, ...), or null
+// when the path is not an attachment list.
+const getChangePathCategory = (fieldPath) => {
+  const parts = toText(fieldPath).split(".");
+  if (Object.prototype.hasOwnProperty.call(REQUEST_ATTACHMENT_FIELDS, parts[0])) return REQUEST_ATTACHMENT_FIELDS[parts[0]];
+  if (parts[0] === "products" && Object.prototype.hasOwnProperty.call(PRODUCT_ATTACHMENT_FIELDS, parts[2] ?? "")) {
+    return PRODUCT_ATTACHMENT_FIELDS[parts[2]];
+  }
+  return null;
+};
+
+// Drops change-history rows about attachment lists the user cannot see (their before/after hold the file names).
+export const redactAttachmentChangesForUser = (changes, user, rules) => {
+  const hidden = getHiddenCategories(user, rules);
+  if (!hidden.length) return changes;
+  return changes.filter((change) => !hidden.includes(getChangePathCategory(change?.fieldPath)));
+};
@@ -0,0 +1,374 @@
+// Server-side attachment previews (GET /api/attachments/:id/preview and /thumbnail):
+//   sheet     - XLSX/XLS/ODS/CSV as rows of display text per sheet (xlsx package)
+//   document  - DOCX converted to a small HTML subset built from escaped text only
+//   thumbnail - WebP of an image or of a PDF's first page, drawn with @napi-rs/canvas (installed with pdfjs-dist
+//               for Node); thumbnails are unavailable when that package is missing
+// Results are cached per attachment in attachment_previews together with the content hash they were made from.
+// Files that cannot be previewed are cached too (without data) so broken files are not parsed on every view.
+
+import { createRequire } from "node:module";
+import path from "node:path";
+import XLSX from "xlsx";
+import { sha256Hex } from "./attachmentStorage.js";
+
+// Bump to regenerate cached previews after a renderer change.
+const PREVIEW_RENDERER_VERSION = 1;
+
+const MAX_SOURCE_BYTES = 40 * 1024 * 1024;
+const MAX_SHEETS = 10;
+const MAX_SHEET_ROWS = 500;
+const MAX_SHEET_COLUMNS = 60;
+const MAX_CELL_CHARS = 500;
+const MAX_DOCUMENT_HTML_CHARS = 1024 * 1024;
+const THUMBNAIL_SIZE = 320;
+
+const SHEET_EXTENSIONS = Object.freeze(["xlsx", "xlsm", "xls", "ods", "csv"]);
+const DOCUMENT_EXTENSIONS = Object.freeze(["docx"]);
+const IMAGE_EXTENSIONS = Object.freeze(["jpg", "jpeg", "png", "gif", "webp", "bmp"]);
+
+export const ATTACHMENT_PREVIEW_KINDS = Object.freeze(["sheet", "document", "thumbnail"]);
+
+const fileExtension = (filename) => String(filename ?? "").toLowerCase().split(".").pop() ?? "";
+
+// Kind of full preview (`sheet` / `document`) for a file, or null.
+export const getDocumentPreviewKind = (filename) => {
+  const ext = fileExtension(filename);
+  if (SHEET_EXTENSIONS.includes(ext)) return "sheet";
+  if (DOCUMENT_EXTENSIONS.includes(ext)) return "document";
+  return null;
+};
+
+export const supportsThumbnail = (filename) => {
+  const ext = fileExtension(filename);
+  return ext === "pdf" || IMAGE_EXTENSIONS.includes(ext);
+};
+
+const truncateCell = (value) => {
+  const text = String(value ?? "");
+  return text.length > MAX_CELL_CHARS ? `${text.slice(0, MAX_CELL_CHARS)}...` : text;
+};
+
+const renderSheetPreview = (buffer, filename) => {
+  // CSV is read as UTF-8 text; xlsx would otherwise treat the bytes as a binary string.
+  const workbook =
+    fileExtension(filename) === "csv"
+      ? XLSX.read(buffer.toString("utf8").replace(/^\uFEFF/, ""), { type: "string", sheetRows: MAX_SHEET_ROWS + 1 })
+      : XLSX.read(buffer, { type: "buffer", cellDates: true, sheetRows: MAX_SHEET_ROWS + 1 });
+  const sheets = workbook.SheetNames.slice(0, MAX_SHEETS).map((name) => {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, raw: false, defval: "", blankrows: false });
+    const truncated = rows.length > MAX_SHEET_ROWS || rows.some((row) => row.length > MAX_SHEET_COLUMNS);
+    return {
+      name,
+      rows: rows.slice(0, MAX_SHEET_ROWS).map((row) => row.slice(0, MAX_SHEET_COLUMNS).map(truncateCell)),
+      truncated,
+    };
+  });
+  return { kind: "sheet", sheets, truncatedSheets: workbook.SheetNames.length > MAX_SHEETS };
+};
+
+const decodeXmlEntities = (value) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (match, entity) => {
+    const lower = entity.toLowerCase();
+    if (lower === "amp") return "&";
+    if (lower === "lt") return "<";
+    if (lower === "gt") return ">";
+    if (lower === "quot") return '"';
+    if (lower === "apos") return "'";
+    const code = lower.startsWith("#x") ? Number.parseInt(lower.slice(2), 16) : Number.parseInt(lower.slice(1), 10);
+    return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+  });
+
+const escapeHtml = (value) =>
+  value.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]);
+
+const readXmlAttribute = (attributes, name) => {
+  const match = new RegExp(`${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXmlEntities(match[1]) : null;
+};
+
+// A run property such as <w:b/> is on unless its w:val says otherwise.
+const isToggleOn = (attributes) => !/w:val="(0|false|none)"/.test(attributes);
+
+// Walks word/document.xml and keeps text, headings, bold/italic/underline, line breaks, list items and tables.
+const convertDocxXmlToHtml = (xml) => {
+  const body = /<w:body>([\s\S]*)<\/w:body>/.exec(xml)?.[1] ?? "";
+  const out = [];
+  let paragraph = null;
+  let run = null;
+  let inText = false;
+  let listOpen = false;
+  let length = 0;
+  let truncated = false;
+
+  const emit = (html) => {
+    if (truncated) return;
+    if (length + html.length > MAX_DOCUMENT_HTML_CHARS) {
+      truncated = true;
+      return;
+    }
+    out.push(html);
+    length += html.length;
+  };
+  const closeList = () => {
+    if (listOpen) emit("</ul>");
+    listOpen = false;
+  };
+  const appendText = (html) => {
+    if (!paragraph) return;
+    if (!run || (!run.bold && !run.italic && !run.underline)) {
+      paragraph.html += html;
+      return;
+    }
+    let wrapped = html;
+    if (run.underline) wrapped = `<u>${wrapped}</u>`;
+    if (run.italic) wrapped = `<em>${wrapped}</em>`;
+    if (run.bold) wrapped = `<strong>${wrapped}</strong>`;
+    paragraph.html += wrapped;
+  };
+
+  const tokens = /<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match;
+  while ((match = tokens.exec(body)) && !truncated) {
+    const [, closing, tag, attributes, selfClosing, text] = match;
+    if (text !== undefined) {
+      if (inText) appendText(escapeHtml(decodeXmlEntities(text)));
+      continue;
+    }
+    if (closing) {
+      if (tag === "w:t") inText = false;
+      else if (tag === "w:r") run = null;
+      else if (tag === "w:p" && paragraph) {
+        const content = paragraph.html || "&nbsp;";
+        if (paragraph.list) {
+          if (!listOpen) emit("<ul>");
+          listOpen = true;
+          emit(`<li>${content}</li>`);
+        } else {
+          closeList();
+          emit(`<${paragraph.tag}>${content}</${paragraph.tag}>`);
+        }
+        paragraph = null;
+      } else if (tag === "w:tc") emit("</td>");
+      else if (tag === "w:tr") emit("</tr>");
+      else if (tag === "w:tbl") emit("</table>");
+      continue;
+    }
+    switch (tag) {
+      case "w:p":
+        paragraph = { tag: "p", list: false, html: "" };
+        if (selfClosing) {
+          closeList();
+          emit("<p>&nbsp;</p>");
+          paragraph = null;
+        }
+        break;
+      case "w:pStyle": {
+        const style = String(readXmlAttribute(attributes, "w:val") ?? "").toLowerCase();
+        const level = /^heading([1-6])$/.exec(style)?.[1];
+        if (paragraph && level) paragraph.tag = `h${level}`;
+        else if (paragraph && style === "title") paragraph.tag = "h1";
+        else if (paragraph && style.startsWith("list")) paragraph.list = true;
+        break;
+      }
+      case "w:numPr":
+        if (paragraph) paragraph.list = true;
+        break;
+      case "w:r":
+        run = { bold: false, italic: false, underline: false };
+        break;
+      case "w:b":
+        if (run) run.bold = isToggleOn(attributes);
+        break;
+      case "w:i":
+        if (run) run.italic = isToggleOn(attributes);
+        break;
+      case "w:u":
+        if (run) run.underline = isToggleOn(attributes);
+        break;
+      case "w:t":
+        inText = !selfClosing;
+        break;
+      case "w:tab":
+        if (run) appendText("&emsp;");
+        break;
+      case "w:br":
+      case "w:cr":
+        if (run) appendText("<br>");
+        break;
+      case "w:tbl":
+        closeList();
+        emit("<table>");
+        break;
+      case "w:tr":
+        emit("<tr>");
+        break;
+      case "w:tc":
+        emit("<td>");
+        break;
+      default:
+        break;
+    }
+  }
+  closeList();
+  return { html: out.join(""), truncated };
+};
+
+const renderDocumentPreview = (buffer) => {
+  const archive = XLSX.CFB.read(buffer, { type: "buffer" });
+  const entry = XLSX.CFB.find(archive, "/word/document.xml");
+  if (!entry?.content) throw new Error("Not a DOCX document");
+  const xml = Buffer.from(entry.content).toString("utf8");
+  return { kind: "document", ...convertDocxXmlToHtml(xml) };
+};
+
+let canvasModule;
+const loadCanvas = async () => {
+  if (canvasModule === undefined) {
+    try {
+      canvasModule = await import("@napi-rs/canvas");
+    } catch {
+      canvasModule = null;
+    }
+  }
+  return canvasModule;
+};
+
+const require = createRequire(import.meta.url);
+const pdfjsStandardFontsDir = () =>
+  `${path.join(path.dirname(require.resolve("pdfjs-dist/package.json")), "standard_fonts")}${path.sep}`;
+
+const fitWithin = (width, height) => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height, 1));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const renderPdfThumbnail = async (canvas, buffer) => {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    standardFontDataUrl: pdfjsStandardFontsDir(),
+    verbosity: 0,
+  }).promise;
+  try {
+    const page = await pdf.getPage(1);
+    const base = page.getViewport({ scale: 1 });
+    const size = fitWithin(base.width, base.height);
+    const viewport = page.getViewport({ scale: size.width / base.width });
+    const target = canvas.createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const context = target.getContext("2d");
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, target.width, target.height);
+    await page.render({ canvasContext: context, viewport, canvas: target }).promise;
+    return target.encode("webp", 80);
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const renderImageThumbnail = async (canvas, buffer) => {
+  const image = await canvas.loadImage(buffer);
+  const size = fitWithin(image.width, image.height);
+  const target = canvas.createCanvas(size.width, size.height);
+  target.getContext("2d").drawImage(image, 0, 0, size.width, size.height);
+  return target.encode("webp", 80);
+};
+
+const renderPreview = async (kind, buffer, filename) => {
+  if (kind === "sheet") {
+    return { contentType: "application/json", data: Buffer.from(JSON.stringify(renderSheetPreview(buffer, filename))) };
+  }
+  if (kind === "document") {
+    return { contentType: "application/json", data: Buffer.from(JSON.stringify(renderDocumentPreview(buffer))) };
+  }
+  const canvas = await loadCanvas();
+  if (!canvas) return null;
+  const data =
+    fileExtension(filename) === "pdf"
+      ? await renderPdfThumbnail(canvas, buffer)
+      : await renderImageThumbnail(canvas, buffer);
+  return { contentType: "image/webp", data };
+};
+
+// One render per attachment and kind at a time; concurrent viewers wait for the same result.
+const pendingRenders = new Map();
+
+// Returns `{ contentType, data }` for the preview of `attachment` (`{ id, filename, contentSha256 }`), or null when
+// the file cannot be previewed. `loadContent` reads the attachment bytes and is only called on a cache miss.
+export const getAttachmentPreview = async (db, attachment, kind, loadContent) => {
+  const key = `${attachment.id}:${kind}`;
+  if (pendingRenders.has(key)) return pendingRenders.get(key);
+  const pending = (async () => {
+    let buffer = null;
+    let contentSha256 = attachment.contentSha256;
+    if (!contentSha256) {
+      buffer = await loadContent();
+      if (!buffer) return null;
+      contentSha256 = sha256Hex(buffer);
+    }
+
+    const { rows } = await db.query(
+      `
+      SELECT content_type, data
+      FROM attachment_previews
+      WHERE attachment_id = $1 AND kind = $2 AND content_sha256 = $3 AND renderer_version = $4
+      `,
+      [attachment.id, kind, contentSha256, PREVIEW_RENDERER_VERSION]
+    );
+    if (rows[0]) return rows[0].data ? { contentType: rows[0].content_type, data: rows[0].data } : null;
+
+    buffer ??= await loadContent();
+    if (!buffer) return null;
+    let preview = null;
+    if (buffer.length <= MAX_SOURCE_BYTES) {
+      try {
+        preview = await renderPreview(kind, buffer, attachment.filename);
+      } catch (error) {
+        console.error(`Failed to render ${kind} preview of attachment ${attachment.id}:`, error?.message ?? error);
+      }
+    }
+    // A missing canvas package is an installation issue, not a property of the file: do not cache it.
+    if (!preview && kind === "thumbnail" && !(await loadCanvas())) return null;
+
+    await db.query(
+      `
+      INSERT INTO attachment_previews (attachment_id, kind, content_sha256, renderer_version, content_type, data)
+      VALUES ($1,$2,$3,$4,$5,$6)
+      ON CONFLICT (attachment_id, kind) DO UPDATE SET
+        content_sha256 = EXCLUDED.content_sha256,
+        renderer_version = EXCLUDED.renderer_version,
+        content_type = EXCLUDED.content_type,
+        data = EXCLUDED.data,
+        created_at = now()
+      `,
+      [
+        attachment.id,
+        kind,
+        contentSha256,
+        PREVIEW_RENDERER_VERSION,
+        preview?.contentType ?? "application/octet-stream",
+        preview?.data ?? null,
+      ]
+    );
+    return preview;
+  })();
+  pendingRenders.set(key, pending);
+  try {
+    return await pending;
+  } finally {
+    pendingRenders.delete(key);
+  }
+};
+
+// Drops cached previews of attachments that no longer exist.
+export const deleteOrphanedAttachmentPreviews = async (db) => {
+  const { rowCount } = await db.query(
+    `
+    DELETE FROM attachment_previews p
+    WHERE NOT EXISTS (SELECT 1 FROM request_attachments a WHERE a.id = p.attachment_id)
+      AND NOT EXISTS (SELECT 1 FROM contract_approval_attachments a WHERE a.id = p.attachment_id)
+      AND NOT EXISTS (SELECT 1 FROM attachment_uploads a WHERE a.id = p.attachment_id)
+    `
+  );
+  return rowCount ?? 0;
+};
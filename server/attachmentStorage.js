@@ -0,0 +1,352 @@
+// Attachment content storage. Content is addressed by its SHA-256, so a file attached several times (or uploaded to
+// several requests) is stored once. Backends, selected with ATTACHMENT_STORAGE_BACKEND:
+//   database   - bytes stay in PostgreSQL, in attachment_blobs.data (default; older rows keep them in their own `data`)
+//   filesystem - ATTACHMENT_STORAGE_DIR/<ab>/<cd>/<sha256>
+//   s3         - any S3-compatible service (AWS S3, MinIO, ...); requests are signed with AWS Signature V4
+// Each attachment row records the backend that holds its content (storage_backend, content_sha256), so files written
+// before a backend switch stay readable. `npm run attachments:migrate-storage` moves existing rows to the configured
+// backend; stored content is tracked in attachment_blobs so unreferenced objects can be pruned.
+
+import { createHash, createHmac, randomUUID } from "node:crypto";
+import { createReadStream, promises as fs } from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { fileURLToPath } from "node:url";
+import { getPool, withTransaction } from "./db.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const APP_ROOT = path.resolve(__dirname, "..");
+const HOST_ROOT = path.basename(APP_ROOT).toLowerCase() === "app" ? path.dirname(APP_ROOT) : APP_ROOT;
+
+export const ATTACHMENT_STORAGE_BACKENDS = Object.freeze(["database", "filesystem", "s3"]);
+
+// Tables whose rows hold attachment content; all carry data, content_sha256 and storage_backend.
+export const ATTACHMENT_CONTENT_TABLES = Object.freeze([
+  "request_attachments",
+  "contract_approval_attachments",
+  "attachment_uploads",
+]);
+
+const EMPTY_SHA256 = createHash("sha256").update("").digest("hex");
+const S3_REQUEST_TIMEOUT_MS = 60_000;
+
+const toText = (value) => String(value ?? "").trim();
+
+export const sha256Hex = (buffer) => createHash("sha256").update(buffer).digest("hex");
+
+const isSha256 = (value) => /^[0-9a-f]{64}$/.test(value);
+
+// Two directory levels keep any single directory (or S3 listing prefix) small.
+const contentKey = (sha256) => `${sha256.slice(0, 2)}/${sha256.slice(2, 4)}/${sha256}`;
+
+export const getConfiguredStorageBackend = () => {
+  const name = toText(process.env.ATTACHMENT_STORAGE_BACKEND).toLowerCase() || "database";
+  if (!ATTACHMENT_STORAGE_BACKENDS.includes(name)) {
+    throw new Error(
+      `Invalid ATTACHMENT_STORAGE_BACKEND "${name}" (expected ${ATTACHMENT_STORAGE_BACKENDS.join(", ")})`
+    );
+  }
+  return name;
+};
+
+const createFilesystemBackend = () => {
+  const root = path.resolve(process.env.ATTACHMENT_STORAGE_DIR || path.join(HOST_ROOT, "storage", "attachments"));
+  const filePath = (sha256) => path.join(root, ...contentKey(sha256).split("/"));
+
+  const exists = async (sha256) => {
+    try {
+      await fs.stat(filePath(sha256));
+      return true;
+    } catch (error) {
+      if (error?.code === "ENOENT") return false;
+      throw error;
+    }
+  };
+
+  // Write then rename, so a reader never sees a partial file.
+  const writeObject = async (sha256, write) => {
+    if (await exists(sha256)) return;
+    const target = filePath(sha256);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${randomUUID()}.tmp`;
+    try {
+      await write(temp);
+      await fs.rename(temp, target);
+    } catch (error) {
+      await fs.rm(temp, { force: true }).catch(() => {});
+      throw error;
+    }
+  };
+
+  return {
+    name: "filesystem",
+    exists,
+    async put(sha256, buffer) {
+      await writeObject(sha256, (temp) => fs.writeFile(temp, buffer));
+    },
+    async putFile(sha256, source) {
+      await writeObject(sha256, (temp) => fs.copyFile(source, temp));
+    },
+    async open(sha256) {
+      if (!(await exists(sha256))) return null;
+      return createReadStream(filePath(sha256));
+    },
+    async remove(sha256) {
+      await fs.rm(filePath(sha256), { force: true });
+    },
+  };
+};
+
+const hmac = (key, value) => createHmac("sha256", key).update(value).digest();
+
+// AWS Signature V4 for a request without query parameters. `headers` are the extra headers to sign.
+export const signS3Request = ({ method, url, headers = {}, payloadHash, region, accessKeyId, secretAccessKey, now }) => {
+  const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const signed = { ...headers, host: url.host, "x-amz-content-sha256": payloadHash, "x-amz-date": amzDate };
+  const names = Object.keys(signed)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lookup = Object.fromEntries(Object.entries(signed).map(([name, value]) => [name.toLowerCase(), value]));
+  const canonicalHeaders = names.map((name) => `${name}:${toText(lookup[name])}\n`).join("");
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [method, url.pathname, "", canonicalHeaders, signedHeaders, payloadHash].join("\n");
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, dateStamp), region), "s3"), "aws4_request");
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+  return {
+    ...signed,
+    authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+};
+
+const createS3Backend = () => {
+  const endpoint = toText(process.env.ATTACHMENT_S3_ENDPOINT) || "https://s3.amazonaws.com";
+  const bucket = toText(process.env.ATTACHMENT_S3_BUCKET);
+  const region = toText(process.env.ATTACHMENT_S3_REGION) || "us-east-1";
+  const accessKeyId = toText(process.env.ATTACHMENT_S3_ACCESS_KEY_ID);
+  const secretAccessKey = toText(process.env.ATTACHMENT_S3_SECRET_ACCESS_KEY);
+  const prefix = toText(process.env.ATTACHMENT_S3_PREFIX).replace(/^\/+|\/+$/g, "");
+  // MinIO and most self-hosted services need path-style URLs (endpoint/bucket/key).
+  const pathStyle = !/^(0|false|no)$/i.test(toText(process.env.ATTACHMENT_S3_FORCE_PATH_STYLE) || "true");
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error(
+      "S3 attachment storage needs ATTACHMENT_S3_BUCKET, ATTACHMENT_S3_ACCESS_KEY_ID and ATTACHMENT_S3_SECRET_ACCESS_KEY"
+    );
+  }
+
+  const objectUrl = (sha256) => {
+    const base = new URL(endpoint);
+    const key = [prefix, contentKey(sha256)].filter(Boolean).join("/");
+    const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+    const basePath = base.pathname.replace(/\/+$/, "");
+    if (pathStyle) {
+      base.pathname = `${basePath}/${encodeURIComponent(bucket)}/${encodedKey}`;
+    } else {
+      base.hostname = `${bucket}.${base.hostname}`;
+      base.pathname = `${basePath}/${encodedKey}`;
+    }
+    return base;
+  };
+
+  const send = async (method, sha256, { body = null, payloadHash = EMPTY_SHA256, headers = {} } = {}) => {
+    const url = objectUrl(sha256);
+    const signedHeaders = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash,
+      region,
+      accessKeyId,
+      secretAccessKey,
+      now: new Date(),
+    });
+    const { host: _host, ...requestHeaders } = signedHeaders;
+    // The timeout covers the response headers only; a large download may stream for longer.
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), S3_REQUEST_TIMEOUT_MS);
+    try {
+      // Stream bodies (file uploads) need half-duplex mode and an explicit content-length header.
+      const streaming = typeof body?.pipe === "function";
+      return await fetch(url, {
+        method,
+        headers: requestHeaders,
+        body,
+        signal: controller.signal,
+        ...(streaming ? { duplex: "half" } : {}),
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const fail = async (res, action) => {
+    const detail = await res.text().catch(() => "");
+    const code = detail.match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new Error(`S3 ${action} failed with status ${res.status}${code ? ` (${code})` : ""}`);
+  };
+
+  const exists = async (sha256) => {
+    const res = await send("HEAD", sha256);
+    if (res.status === 404) return false;
+    if (!res.ok) await fail(res, "HEAD");
+    return true;
+  };
+
+  return {
+    name: "s3",
+    exists,
+    async put(sha256, buffer, contentType) {
+      if (await exists(sha256)) return;
+      const headers = contentType ? { "content-type": contentType } : {};
+      const res = await send("PUT", sha256, { body: buffer, payloadHash: sha256, headers });
+      if (!res.ok) await fail(res, "PUT");
+    },
+    async putFile(sha256, source, { byteSize, contentType } = {}) {
+      if (await exists(sha256)) return;
+      const headers = { "content-length": String(byteSize), ...(contentType ? { "content-type": contentType } : {}) };
+      const res = await send("PUT", sha256, { body: createReadStream(source), payloadHash: sha256, headers });
+      if (!res.ok) await fail(res, "PUT");
+    },
+    async open(sha256) {
+      const res = await send("GET", sha256);
+      if (res.status === 404) {
+        await res.body?.cancel();
+        return null;
+      }
+      if (!res.ok) await fail(res, "GET");
+      return Readable.fromWeb(res.body);
+    },
+    async remove(sha256) {
+      const res = await send("DELETE", sha256);
+      if (!res.ok && res.status !== 404) await fail(res, "DELETE");
+    },
+  };
+};
+
+const backends = new Map();
+
+// Backends are built on first use so a missing S3 configuration only fails when S3 is actually needed.
+export const getStorageBackend = (name) => {
+  if (!backends.has(name)) {
+    if (name === "filesystem") backends.set(name, createFilesystemBackend());
+    else if (name === "s3") backends.set(name, createS3Backend());
+    else throw new Error(`Unknown attachment storage backend: ${name}`);
+  }
+  return backends.get(name);
+};
+
+// Recorded before the object is written. Reusing stored content refreshes last_referenced_at and, inside the caller's
+// transaction, holds the blob row lock, so pruneAttachmentBlobs cannot remove the object under the new row. `data` is
+// only passed for the database backend, which keeps the bytes in this row.
+const recordAttachmentBlob = async (db, sha256, storageBackend, byteSize, data = null) => {
+  await db.query(
+    `
+    INSERT INTO attachment_blobs (sha256, storage_backend, byte_size, data)
+    VALUES ($1,$2,$3,$4)
+    ON CONFLICT (sha256, storage_backend) DO UPDATE SET last_referenced_at = now()
+    `,
+    [sha256, storageBackend, byteSize, data]
+  );
+};
+
+// Stores `buffer` in `backendName` (the configured backend by default) and returns the columns for the attachment
+// row: `{ data, contentSha256, storageBackend }`. `data` is always null; the content is read back by its SHA-256.
+export const storeAttachmentContent = async (db, buffer, { contentType = null, backendName } = {}) => {
+  const storageBackend = backendName ?? getConfiguredStorageBackend();
+  const contentSha256 = sha256Hex(buffer);
+  if (storageBackend === "database") {
+    await recordAttachmentBlob(db, contentSha256, storageBackend, buffer.length, buffer);
+    return { data: null, contentSha256, storageBackend };
+  }
+  await recordAttachmentBlob(db, contentSha256, storageBackend, buffer.length);
+  await getStorageBackend(storageBackend).put(contentSha256, buffer, contentType);
+  return { data: null, contentSha256, storageBackend };
+};
+
+// Same as storeAttachmentContent for a file on disk whose hash and size were computed while it was written. The file
+// is streamed to the backend; only the database backend reads it into memory (its `data` column needs the bytes).
+export const storeAttachmentFile = async (db, filePath, { sha256, byteSize, contentType = null, backendName } = {}) => {
+  const storageBackend = backendName ?? getConfiguredStorageBackend();
+  if (storageBackend === "database") {
+    await recordAttachmentBlob(db, sha256, storageBackend, byteSize, await fs.readFile(filePath));
+    return { data: null, contentSha256: sha256, storageBackend };
+  }
+  await recordAttachmentBlob(db, sha256, storageBackend, byteSize);
+  await getStorageBackend(storageBackend).putFile(sha256, filePath, { byteSize, contentType });
+  return { data: null, contentSha256: sha256, storageBackend };
+};
+
+// Readable stream of a row's content (a row with data, content_sha256 and storage_backend), or null when the
+// content is missing.
+export const openAttachmentContent = async (row) => {
+  if (row?.data) return Readable.from([row.data]);
+  const sha256 = toText(row?.content_sha256);
+  const backendName = toText(row?.storage_backend);
+  if (!isSha256(sha256) || !backendName) return null;
+  if (backendName === "database") {
+    const pool = await getPool();
+    const { rows } = await pool.query(
+      "SELECT data FROM attachment_blobs WHERE sha256 = $1 AND storage_backend = 'database'",
+      [sha256]
+    );
+    return rows[0]?.data ? Readable.from([rows[0].data]) : null;
+  }
+  return getStorageBackend(backendName).open(sha256);
+};
+
+export const readAttachmentContent = async (row) => {
+  if (row?.data) return row.data;
+  const stream = await openAttachmentContent(row);
+  if (!stream) return null;
+  const chunks = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+// SHA-256 of a row's content, without reading it when the hash is recorded.
+export const getAttachmentContentSha256 = (row) => {
+  const recorded = toText(row?.content_sha256);
+  if (isSha256(recorded)) return recorded;
+  return row?.data ? sha256Hex(row.data) : null;
+};
+
+// Removes stored content that no attachment row references any more. Recently referenced content is kept: its row
+// may belong to a transaction that has not committed yet. Returns the number removed.
+export const pruneAttachmentBlobs = async (db) => {
+  const references = ATTACHMENT_CONTENT_TABLES.map(
+    (table) => `SELECT 1 FROM ${table} t WHERE t.content_sha256 = b.sha256 AND t.storage_backend = b.storage_backend`
+  );
+  const unreferenced = `
+    b.last_referenced_at < now() - interval '1 hour'
+      AND ${references.map((sql) => `NOT EXISTS (${sql})`).join("\n      AND ")}
+  `;
+  const { rows } = await db.query(`SELECT b.sha256, b.storage_backend FROM attachment_blobs b WHERE ${unreferenced}`);
+  let removed = 0;
+  for (const row of rows) {
+    // Checked again under the row lock: a store that reused this content since the scan has refreshed the row (or
+    // still holds it), and the object is only removed while no store can start referencing it.
+    const pruned = await withTransaction(db, async (client) => {
+      const { rows: locked } = await client.query(
+        `
+        SELECT 1
+        FROM attachment_blobs b
+        WHERE b.sha256 = $1 AND b.storage_backend = $2 AND ${unreferenced}
+        FOR UPDATE OF b SKIP LOCKED
+        `,
+        [row.sha256, row.storage_backend]
+      );
+      if (!locked.length) return false;
+      if (row.storage_backend !== "database") await getStorageBackend(row.storage_backend).remove(row.sha256);
+      await client.query("DELETE FROM attachment_blobs WHERE sha256 = $1 AND storage_backend = $2", [
+        row.sha256,
+        row.storage_backend,
+      ]);
+      return true;
+    });
+    if (pruned) removed += 1;
+  }
+  return removed;
+};
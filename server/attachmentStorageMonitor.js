@@ -0,0 +1,38 @@
+import { getPool } from "./db.js";
+import { pruneAttachmentBlobs } from "./attachmentStorage.js";
+import { deleteExpiredAttachmentUploads } from "./attachmentUploads.js";
+
+const DEFAULT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+// Frees stored content nothing references any more: content is shared by SHA-256, so deleting an attachment row
+// (or a request, or letting an upload expire) never removes the bytes by itself.
+export const startAttachmentStorageMonitor = ({ intervalMs = DEFAULT_INTERVAL_MS } = {}) => {
+  const effectiveIntervalMs = Number.parseInt(String(intervalMs ?? DEFAULT_INTERVAL_MS), 10);
+  const cadenceMs = Number.isFinite(effectiveIntervalMs) && effectiveIntervalMs >= 60_000
+    ? effectiveIntervalMs
+    : DEFAULT_INTERVAL_MS;
+
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const pool = await getPool();
+      const expiredUploads = await deleteExpiredAttachmentUploads(pool);
+      const prunedBlobs = await pruneAttachmentBlobs(pool);
+      if (expiredUploads || prunedBlobs) {
+        console.log("[attachment-storage] pruned", JSON.stringify({ expiredUploads, prunedBlobs }));
+      }
+    } catch (error) {
+      console.error("[attachment-storage] monitor tick failed:", error?.message ?? error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, cadenceMs);
+  timer.unref?.();
+  void tick();
+  return () => clearInterval(timer);
+};
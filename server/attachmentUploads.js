@@ -0,0 +1,234 @@
+// Streamed attachment uploads (POST /api/attachments/uploads). Files arrive as multipart/form-data instead of base64
+// data URLs inside the request JSON. Each part is spooled to a temporary file (hashed on the way) and then streamed to
+// the storage backend, so an upload never sits in memory as a whole. The file is parked in attachment_uploads and the
+// client keeps only a reference ({ id, url: /api/attachments/:id }); the next save of a request that lists the
+// reference copies it to request_attachments. Pending uploads expire after a day.
+
+import Busboy from "busboy";
+import { createHash, randomUUID } from "node:crypto";
+import { createWriteStream, promises as fs } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { storeAttachmentFile } from "./attachmentStorage.js";
+import { hasRole } from "./permissions.js";
+
+const DEFAULT_MAX_BYTES = 100 * 1024 * 1024;
+const MAX_FILES_PER_UPLOAD = 20;
+const UPLOAD_TTL_HOURS = 24;
+const ATTACHMENT_TYPES = Object.freeze(["rim_drawing", "picture", "spec", "other"]);
+
+const parseMaxBytes = (raw) => {
+  const value = Number.parseInt(String(raw ?? "").trim(), 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_BYTES;
+};
+
+export const ATTACHMENT_UPLOAD_MAX_BYTES = parseMaxBytes(process.env.ATTACHMENT_UPLOAD_MAX_BYTES);
+
+const UPLOAD_COLUMNS = "id, attachment_type, filename, content_type, byte_size, uploaded_at, uploaded_by, uploaded_by_name";
+
+const toText = (value) => String(value ?? "").trim();
+
+const toAttachmentType = (value) => (ATTACHMENT_TYPES.includes(toText(value)) ? toText(value) : "other");
+
+// Same shape as the attachments stored in the request data.
+export const mapAttachmentUploadRow = (row) => ({
+  id: row.id,
+  type: toAttachmentType(row.attachment_type),
+  filename: row.filename,
+  url: `/api/attachments/${encodeURIComponent(row.id)}`,
+  contentType: row.content_type ?? "",
+  byteSize: Number(row.byte_size ?? 0),
+  uploadedAt: row.uploaded_at instanceof Date ? row.uploaded_at.toISOString() : String(row.uploaded_at ?? ""),
+  uploadedBy: row.uploaded_by_name || row.uploaded_by || "",
+});
+
+// Removes the temporary files of a read upload.
+export const discardAttachmentUpload = async (upload) => {
+  if (upload?.dir) await fs.rm(upload.dir, { recursive: true, force: true }).catch(() => {});
+};
+
+// Reads the multipart body: one or more `file` parts and an optional `type` field.
+// Resolves `{ value: { type, files, dir } }` or `{ error, status }`; files are
+// `{ filename, contentType, path, sha256, byteSize }` spooled under `dir` (see discardAttachmentUpload).
+export const readAttachmentUpload = async (req, { maxBytes = ATTACHMENT_UPLOAD_MAX_BYTES } = {}) => {
+  let bb;
+  try {
+    bb = Busboy({ headers: req.headers, limits: { files: MAX_FILES_PER_UPLOAD, fileSize: maxBytes } });
+  } catch {
+    return { error: "Expected a multipart/form-data upload", status: 400 };
+  }
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "cra-upload-"));
+
+  const result = await new Promise((resolve) => {
+    const files = [];
+    const pending = [];
+    let type = "other";
+    let failure = null;
+    let settled = false;
+
+    // Busboy closes once the body is parsed; the spooled files may still be flushing.
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      void Promise.allSettled(pending).then(() => {
+        if (failure) resolve(failure);
+        else if (!files.length) resolve({ error: "No file uploaded", status: 400 });
+        else resolve({ value: { type, files, dir } });
+      });
+    };
+
+    bb.on("field", (name, value) => {
+      if (name === "type") type = toAttachmentType(value);
+    });
+
+    bb.on("file", (_name, file, info) => {
+      const filename = toText(info?.filename).slice(0, 255);
+      if (!filename) {
+        file.resume();
+        return;
+      }
+      const filePath = path.join(dir, randomUUID());
+      const hash = createHash("sha256");
+      let byteSize = 0;
+      const hasher = new Transform({
+        transform(chunk, _encoding, callback) {
+          hash.update(chunk);
+          byteSize += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      file.on("limit", () => {
+        failure ??= { error: `File too large: ${filename}`, status: 413 };
+      });
+      pending.push(
+        pipeline(file, hasher, createWriteStream(filePath))
+          .then(() => {
+            if (file.truncated) return;
+            files.push({
+              filename,
+              contentType: toText(info?.mimeType) || null,
+              path: filePath,
+              sha256: hash.digest("hex"),
+              byteSize,
+            });
+          })
+          .catch((error) => {
+            failure ??= { error: String(error?.message ?? error), status: 400 };
+          })
+      );
+    });
+
+    bb.on("filesLimit", () => {
+      failure ??= { error: `At most ${MAX_FILES_PER_UPLOAD} files per upload`, status: 400 };
+    });
+
+    bb.on("error", (error) => {
+      failure ??= { error: String(error?.message ?? error), status: 400 };
+      finish();
+    });
+
+    bb.on("close", finish);
+
+    req.pipe(bb);
+  });
+
+  if (result.error) await discardAttachmentUpload({ dir });
+  return result;
+};
+
+const insertAttachmentUploads = async (db, { type, files }, actor) => {
+  const saved = [];
+  for (const file of files) {
+    const content = await storeAttachmentFile(db, file.path, {
+      sha256: file.sha256,
+      byteSize: file.byteSize,
+      contentType: file.contentType,
+    });
+    const { rows } = await db.query(
+      `
+      INSERT INTO attachment_uploads
+        (id, attachment_type, filename, content_type, byte_size, uploaded_by, uploaded_by_name, data, content_sha256,
+         storage_backend)
+      VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+      RETURNING ${UPLOAD_COLUMNS}
+      `,
+      [
+        randomUUID(),
+        type,
+        file.filename,
+        file.contentType,
+        file.byteSize,
+        actor?.id ?? null,
+        actor?.name ?? null,
+        content.data,
+        content.contentSha256,
+        content.storageBackend,
+      ]
+    );
+    saved.push(mapAttachmentUploadRow(rows[0]));
+  }
+  return saved;
+};
+
+// Stores the files of a read upload and removes their temporary copies.
+export const saveAttachmentUploads = async (db, upload, actor) => {
+  try {
+    return await insertAttachmentUploads(db, upload, actor);
+  } finally {
+    await discardAttachmentUpload(upload);
+  }
+};
+
+// Pending upload with its content columns, for GET /api/attachments/:id before the request is saved.
+export const getAttachmentUpload = async (db, uploadId) => {
+  const { rows } = await db.query(
+    `
+    SELECT id, filename, content_type, byte_size, uploaded_by, data, content_sha256, storage_backend
+    FROM attachment_uploads
+    WHERE id = $1
+    LIMIT 1
+    `,
+    [uploadId]
+  );
+  return rows[0] ?? null;
+};
+
+// Copies the uploads a request now references into request_attachments (stored content is shared, not duplicated). `refs` are `{ id, type }` from the request
+// data; ids that are not pending uploads are ignored, as are uploads made by someone other than `actor` (admins excepted).
+// The pending row stays until it expires, so a save that loses a version conflict can still be retried with the same
+// references.
+export const claimAttachmentUploads = async (client, requestId, refs, actor) => {
+  const ids = [];
+  const types = [];
+  for (const ref of refs) {
+    const id = toText(ref?.id);
+    if (!id || ids.includes(id)) continue;
+    ids.push(id);
+    types.push(toAttachmentType(ref?.type));
+  }
+  if (!ids.length) return 0;
+  const { rowCount } = await client.query(
+    `
+    INSERT INTO request_attachments
+      (id, request_id, attachment_type, filename, content_type, byte_size, uploaded_at, uploaded_by, data, content_sha256,
+       storage_backend)
+    SELECT u.id, $1, ref.type, u.filename, u.content_type, u.byte_size, u.uploaded_at, u.uploaded_by, u.data,
+      u.content_sha256, u.storage_backend
+    FROM attachment_uploads u
+    JOIN unnest($2::text[], $3::text[]) AS ref(id, type) ON ref.id = u.id
+    WHERE $4::text IS NULL OR u.uploaded_by = $4
+    ON CONFLICT (id) DO NOTHING
+    `,
+    [requestId, ids, types, hasRole(actor, "admin") ? null : toText(actor?.id)]
+  );
+  return rowCount ?? 0;
+};
+
+export const deleteExpiredAttachmentUploads = async (db) => {
+  const { rowCount } = await db.query(
+    `DELETE FROM attachment_uploads WHERE uploaded_at < now() - interval '${UPLOAD_TTL_HOURS} hours'`
+  );
+  return rowCount ?? 0;
+};
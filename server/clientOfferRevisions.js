@@ -0,0 +1,225 @@
+// Issued client offer revisions (Client Offer sheet, /api/requests/:id/client-offer-revisions).
+// The client offer configuration on the request stays editable; issuing a revision freezes what goes to the client:
+// the offer lines, the sales commercial terms, the discount and the resulting totals, plus the PDF rendered on the
+// server from that snapshot and stored as a request attachment. Revisions are labelled A, B, C... per request and
+// never change afterwards, apart from the "sent" record (recipient and date), which is recorded once.
+
+import { randomUUID } from "node:crypto";
+import { storeAttachmentContent } from "./attachmentStorage.js";
+import { diffRequestFields } from "./requestFieldChanges.js";
+
+export const OFFER_REVISION_ATTACHMENT_TYPE = "client_offer_revision";
+
+// Sales fields printed in the offer's commercial and delivery terms.
+const TERM_FIELDS = Object.freeze([
+  "salesCurrency",
+  "salesIncoterm",
+  "salesIncotermOther",
+  "salesVatMode",
+  "salesVatRate",
+  "salesWarrantyPeriod",
+  "salesOfferValidityPeriod",
+  "salesExpectedDeliveryDate",
+  "salesPaymentTerms",
+]);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const REVISION_COLUMNS = `
+  id, request_id, revision_number, revision_label, snapshot, pdf_attachment_id, pdf_filename, language,
+  created_by, created_by_name, created_at, sent_on, sent_to, sent_note, sent_by, sent_by_name, sent_recorded_at
+`;
+
+const toText = (value) => String(value ?? "").trim();
+
+const toIso = (value) => (value instanceof Date ? value.toISOString() : value ? String(value) : null);
+
+const toDateKey = (value) => {
+  if (!value) return null;
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  return String(value).slice(0, 10);
+};
+
+const roundMoney = (value) => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const toNumberOrNull = (value) => {
+  const number = typeof value === "number" ? value : Number.parseFloat(toText(value));
+  return Number.isFinite(number) ? number : null;
+};
+
+// 1 -> A, 26 -> Z, 27 -> AA.
+export const formatRevisionLabel = (revisionNumber) => {
+  let remaining = Math.max(1, Math.floor(Number(revisionNumber) || 1));
+  let label = "";
+  while (remaining > 0) {
+    const offset = (remaining - 1) % 26;
+    label = String.fromCharCode(65 + offset) + label;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return label;
+};
+
+// Same arithmetic as the offer PDF: included lines only, discount on the subtotal, VAT on the discounted amount.
+export const computeOfferTotals = (lines, discountPercent, terms) => {
+  const subtotal = roundMoney(
+    lines
+      .filter((line) => line.include !== false)
+      .reduce((sum, line) => {
+        const quantity = toNumberOrNull(line.quantity);
+        const unitPrice = toNumberOrNull(line.unitPrice);
+        return quantity !== null && unitPrice !== null ? sum + roundMoney(quantity * unitPrice) : sum;
+      }, 0)
+  );
+  const discount = discountPercent ? roundMoney((subtotal * discountPercent) / 100) : 0;
+  const vatRate = terms.salesVatMode === "with" ? toNumberOrNull(terms.salesVatRate) ?? 0 : 0;
+  const tax = roundMoney(((subtotal - discount) * vatRate) / 100);
+  return { subtotal, discount, tax, total: roundMoney(subtotal - discount + tax) };
+};
+
+// Frozen content of a revision. `config` must already be normalized (normalizeClientOfferConfig).
+export const buildOfferSnapshot = (request, config) => {
+  const terms = Object.fromEntries(TERM_FIELDS.map((field) => [field, request?.[field] ?? null]));
+  const { updatedAt: _updatedAt, updatedByUserId: _updatedByUserId, ...offer } = config;
+  return {
+    ...offer,
+    ...terms,
+    ...computeOfferTotals(offer.lines ?? [], offer.discountPercent ?? null, terms),
+  };
+};
+
+// The request as the offer PDF sees it for a revision: the snapshot's offer configuration and sales terms.
+export const applyOfferSnapshot = (request, snapshot) => {
+  const { subtotal: _subtotal, discount: _discount, tax: _tax, total: _total, ...frozen } = snapshot;
+  const terms = Object.fromEntries(TERM_FIELDS.map((field) => [field, frozen[field] ?? null]));
+  const config = Object.fromEntries(Object.entries(frozen).filter(([key]) => !TERM_FIELDS.includes(key)));
+  return { ...request, ...terms, clientOfferConfig: config };
+};
+
+export const mapOfferRevisionRow = (row) => ({
+  id: row.id,
+  requestId: row.request_id,
+  revisionNumber: Number(row.revision_number),
+  revisionLabel: row.revision_label,
+  snapshot: row.snapshot && typeof row.snapshot === "object" ? row.snapshot : JSON.parse(row.snapshot || "{}"),
+  pdfUrl: row.pdf_attachment_id ? `/api/attachments/${encodeURIComponent(row.pdf_attachment_id)}` : null,
+  pdfFilename: row.pdf_filename ?? null,
+  language: row.language ?? null,
+  createdBy: row.created_by ?? null,
+  createdByName: row.created_by_name ?? "",
+  createdAt: toIso(row.created_at),
+  sent: row.sent_on
+    ? {
+        sentOn: toDateKey(row.sent_on),
+        recipient: row.sent_to ?? "",
+        note: row.sent_note ?? "",
+        recordedBy: row.sent_by ?? null,
+        recordedByName: row.sent_by_name ?? "",
+        recordedAt: toIso(row.sent_recorded_at),
+      }
+    : null,
+});
+
+// Validates a "mark as sent" payload. Returns `{ value: { recipient, sentOn, note } }` or `{ error }`.
+export const parseOfferSentPayload = (body) => {
+  const recipient = toText(body?.recipient).slice(0, 300);
+  if (!recipient) return { error: "Recipient is required" };
+  const sentOn = toText(body?.sentOn);
+  if (!DATE_PATTERN.test(sentOn) || Number.isNaN(new Date(`${sentOn}T00:00:00Z`).getTime())) {
+    return { error: "Sent date must be a YYYY-MM-DD date" };
+  }
+  return { value: { recipient, sentOn, note: toText(body?.note).slice(0, 2000) } };
+};
+
+// Newest revision first.
+export const listOfferRevisions = async (db, requestId) => {
+  const { rows } = await db.query(
+    `SELECT ${REVISION_COLUMNS} FROM client_offer_revisions WHERE request_id = $1 ORDER BY revision_number DESC`,
+    [requestId]
+  );
+  return rows.map(mapOfferRevisionRow);
+};
+
+export const getOfferRevision = async (db, requestId, revisionId) => {
+  const { rows } = await db.query(
+    `SELECT ${REVISION_COLUMNS} FROM client_offer_revisions WHERE request_id = $1 AND id = $2`,
+    [requestId, revisionId]
+  );
+  return rows[0] ? mapOfferRevisionRow(rows[0]) : null;
+};
+
+// Issues the next revision of a request. The caller holds a lock on the request row so numbers stay sequential.
+// `pdf` is `{ data, filename, language }`, rendered from `snapshot`.
+export const createOfferRevision = async (client, { requestId, snapshot, pdf, actor }) => {
+  const { rows: countRows } = await client.query(
+    "SELECT COALESCE(MAX(revision_number), 0) AS last FROM client_offer_revisions WHERE request_id = $1",
+    [requestId]
+  );
+  const revisionNumber = Number(countRows[0]?.last ?? 0) + 1;
+  const revisionLabel = formatRevisionLabel(revisionNumber);
+  const now = new Date();
+  const attachmentId = randomUUID();
+  const pdfFilename = pdf.filename.replace(/\.pdf$/i, `_Rev${revisionLabel}.pdf`);
+
+  const content = await storeAttachmentContent(client, pdf.data, { contentType: "application/pdf" });
+  await client.query(
+    `
+    INSERT INTO request_attachments
+      (id, request_id, attachment_type, filename, content_type, byte_size, uploaded_at, uploaded_by, data, content_sha256,
+       storage_backend)
+    VALUES ($1,$2,$3,$4,'application/pdf',$5,$6,$7,$8,$9,$10)
+    `,
+    [
+      attachmentId,
+      requestId,
+      OFFER_REVISION_ATTACHMENT_TYPE,
+      pdfFilename,
+      pdf.data.length,
+      now,
+      actor?.id ?? null,
+      content.data,
+      content.contentSha256,
+      content.storageBackend,
+    ]
+  );
+  const { rows } = await client.query(
+    `
+    INSERT INTO client_offer_revisions
+      (id, request_id, revision_number, revision_label, snapshot, pdf_attachment_id, pdf_filename, language,
+       created_by, created_by_name, created_at)
+    VALUES ($1,$2,$3,$4,$5::jsonb,$6,$7,$8,$9,$10,$11)
+    RETURNING ${REVISION_COLUMNS}
+    `,
+    [
+      randomUUID(),
+      requestId,
+      revisionNumber,
+      revisionLabel,
+      JSON.stringify(snapshot),
+      attachmentId,
+      pdfFilename,
+      pdf.language,
+      actor?.id ?? null,
+      actor?.name ?? null,
+      now,
+    ]
+  );
+  return mapOfferRevisionRow(rows[0]);
+};
+
+// Returns null when the revision does not exist or was already marked as sent.
+export const markOfferRevisionSent = async (db, requestId, revisionId, value, actor) => {
+  const { rows } = await db.query(
+    `
+    UPDATE client_offer_revisions
+       SET sent_on = $3, sent_to = $4, sent_note = $5, sent_by = $6, sent_by_name = $7, sent_recorded_at = $8
+     WHERE request_id = $1 AND id = $2 AND sent_on IS NULL
+    RETURNING ${REVISION_COLUMNS}
+    `,
+    [requestId, revisionId, value.sentOn, value.recipient, value.note || null, actor?.id ?? null, actor?.name ?? null, new Date()]
+  );
+  return rows[0] ? mapOfferRevisionRow(rows[0]) : null;
+};
+
+// Field-level differences between two revision snapshots, with the same paths as the request change log.
+export const diffOfferRevisions = (from, to) =>
+  diffRequestFields(from.snapshot, to.snapshot).map(({ fieldPath, before, after }) => ({ fieldPath, before, after }));
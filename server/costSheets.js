@@ -0,0 +1,185 @@
+// Itemised cost sheets for costing (CostingPanel, /api/requests/:id/cost-sheets).
+// Each request product line gets a sheet of unit costs per component plus an overhead percentage; total cost and
+// margin are derived against the sheet's selling price, never typed in. Sheets are versioned per costing round:
+// the round is the number of times the request entered In Costing, and only the current round can be edited.
+
+import { randomUUID } from "node:crypto";
+import { hasPermission, hasRole } from "./permissions.js";
+import { PRICE_CURRENCIES } from "./priceCatalog.js";
+
+export const COST_COMPONENTS = Object.freeze([
+  "material",
+  "machining",
+  "brakeComponents",
+  "surfaceFinish",
+  "packaging",
+  "freight",
+]);
+
+const MAX_AMOUNT = 1e11;
+const MAX_OVERHEAD_PERCENT = 1000;
+
+const SHEET_COLUMNS = `
+  id, request_id, product_index, costing_round, currency, components, overhead_percent, selling_price,
+  visible_to_sales, note, updated_by, updated_by_name, created_at, updated_at
+`;
+
+const toText = (value) => String(value ?? "").trim();
+
+const toNumberOrNull = (value) => {
+  if (value === null || value === undefined || toText(value) === "") return null;
+  const number = typeof value === "number" ? value : Number.parseFloat(toText(value));
+  return Number.isFinite(number) ? number : Number.NaN;
+};
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+const parseJsonObject = (value) => {
+  if (!value) return {};
+  try {
+    const parsed = typeof value === "string" ? JSON.parse(value) : value;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Costing round of a request: how many times it entered In Costing (at least 1).
+export const resolveCostingRound = (request) => {
+  const history = Array.isArray(request?.history) ? request.history : [];
+  const rounds = history.filter((entry) => toText(entry?.status) === "in_costing").length;
+  return Math.max(rounds, 1);
+};
+
+// Direct cost is the sum of components; overhead is a percentage on top of it. Margin is in percent of the
+// selling price, one decimal, and null without a positive selling price.
+export const computeCostSheetTotals = ({ components, overheadPercent, sellingPrice }) => {
+  const directCost = roundMoney(COST_COMPONENTS.reduce((total, key) => total + (Number(components?.[key]) || 0), 0));
+  const overheadAmount = roundMoney((directCost * (Number(overheadPercent) || 0)) / 100);
+  const totalCost = roundMoney(directCost + overheadAmount);
+  const margin =
+    typeof sellingPrice === "number" && sellingPrice > 0
+      ? Math.round(((sellingPrice - totalCost) / sellingPrice) * 1000) / 10
+      : null;
+  return { directCost, overheadAmount, totalCost, margin };
+};
+
+export const mapCostSheetRow = (row) => {
+  const components = parseJsonObject(row.components);
+  const sheet = {
+    id: row.id,
+    requestId: row.request_id,
+    productIndex: Number(row.product_index),
+    costingRound: Number(row.costing_round),
+    currency: row.currency,
+    components: Object.fromEntries(COST_COMPONENTS.map((key) => [key, Number(components[key]) || 0])),
+    overheadPercent: Number(row.overhead_percent),
+    sellingPrice: row.selling_price === null || row.selling_price === undefined ? null : Number(row.selling_price),
+    visibleToSales: Boolean(row.visible_to_sales),
+    note: row.note ?? "",
+    updatedBy: row.updated_by ?? null,
+    updatedByName: row.updated_by_name ?? "",
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+  return { ...sheet, ...computeCostSheetTotals(sheet) };
+};
+
+// Validates a cost sheet payload. Returns `{ value }` or `{ error }`.
+export const parseCostSheetPayload = (body) => {
+  if (!body || typeof body !== "object") return { error: "Invalid JSON body" };
+  const currency = toText(body.currency).toUpperCase();
+  if (!PRICE_CURRENCIES.includes(currency)) return { error: "Currency must be one of USD, EUR or RMB" };
+
+  const components = {};
+  for (const key of COST_COMPONENTS) {
+    const amount = toNumberOrNull(body.components?.[key]);
+    if (Number.isNaN(amount) || (amount !== null && (amount < 0 || amount > MAX_AMOUNT))) {
+      return { error: `Invalid ${key} cost` };
+    }
+    components[key] = amount === null ? 0 : roundMoney(amount);
+  }
+
+  const overheadPercent = toNumberOrNull(body.overheadPercent);
+  if (Number.isNaN(overheadPercent) || (overheadPercent !== null && (overheadPercent < 0 || overheadPercent > MAX_OVERHEAD_PERCENT))) {
+    return { error: "Overhead must be a percentage between 0 and 1000" };
+  }
+  const sellingPrice = toNumberOrNull(body.sellingPrice);
+  if (Number.isNaN(sellingPrice) || (sellingPrice !== null && (sellingPrice < 0 || sellingPrice > MAX_AMOUNT))) {
+    return { error: "Selling price must be a positive amount" };
+  }
+
+  return {
+    value: {
+      currency,
+      components,
+      overheadPercent: overheadPercent === null ? 0 : roundMoney(overheadPercent),
+      sellingPrice: sellingPrice === null ? null : roundMoney(sellingPrice),
+      visibleToSales: body.visibleToSales === true,
+      note: toText(body.note).slice(0, 2000),
+    },
+  };
+};
+
+// All sheets of a request, newest round first.
+export const listCostSheets = async (db, requestId) => {
+  const { rows } = await db.query(
+    `
+    SELECT ${SHEET_COLUMNS}
+      FROM request_cost_sheets
+     WHERE request_id = $1
+     ORDER BY costing_round DESC, product_index
+    `,
+    [requestId]
+  );
+  return rows.map(mapCostSheetRow);
+};
+
+// Creates or replaces the sheet of one product line in `round`. Returns `{ sheet, created }`.
+export const saveCostSheet = async (client, requestId, productIndex, round, value, actor) => {
+  const now = new Date();
+  const { rows } = await client.query(
+    `
+    INSERT INTO request_cost_sheets
+      (id, request_id, product_index, costing_round, currency, components, overhead_percent, selling_price,
+       visible_to_sales, note, updated_by, updated_by_name, created_at, updated_at)
+    VALUES ($1,$2,$3,$4,$5,$6::jsonb,$7,$8,$9,$10,$11,$12,$13,$13)
+    ON CONFLICT (request_id, product_index, costing_round) DO UPDATE
+      SET currency = EXCLUDED.currency,
+          components = EXCLUDED.components,
+          overhead_percent = EXCLUDED.overhead_percent,
+          selling_price = EXCLUDED.selling_price,
+          visible_to_sales = EXCLUDED.visible_to_sales,
+          note = EXCLUDED.note,
+          updated_by = EXCLUDED.updated_by,
+          updated_by_name = EXCLUDED.updated_by_name,
+          updated_at = EXCLUDED.updated_at
+    RETURNING ${SHEET_COLUMNS}, (xmax = 0) AS inserted
+    `,
+    [
+      randomUUID(),
+      requestId,
+      productIndex,
+      round,
+      value.currency,
+      JSON.stringify(value.components),
+      value.overheadPercent,
+      value.sellingPrice,
+      value.visibleToSales,
+      value.note || null,
+      actor?.id ?? null,
+      actor?.name ?? null,
+      now,
+    ]
+  );
+  return { sheet: mapCostSheetRow(rows[0]), created: Boolean(rows[0].inserted) };
+};
+
+export const canEditCostSheets = (user) => hasRole(user, "costing") || hasRole(user, "admin");
+
+// Costing and admin see every round; other users who may view margins only see sheets shared with sales.
+export const filterCostSheetsForUser = (sheets, user) => {
+  if (canEditCostSheets(user)) return sheets;
+  if (!hasPermission(user, "view_costing_margin")) return [];
+  return sheets.filter((sheet) => sheet.visibleToSales);
+};
@@ -0,0 +1,385 @@
+// Customer master data (/api/customers): accounts with contacts, addresses, commercial defaults and an owner
+// salesperson. Requests and contract approvals point at an account with `customerId`; on every save their
+// `clientName` is reset to the account name, so reports group by account instead of by spelling. Renaming or merging
+// an account rewrites that snapshot on the records that reference it.
+
+import { randomUUID } from "node:crypto";
+import { hasRole } from "./permissions.js";
+import { diffRequestFields, recordRequestFieldChanges } from "./requestFieldChanges.js";
+
+export const CUSTOMER_CURRENCIES = Object.freeze(["USD", "EUR", "RMB"]);
+
+const MAX_CONTACTS = 50;
+const MAX_ADDRESSES = 50;
+const MAX_SEARCH_RESULTS = 50;
+
+const CUSTOMER_COLUMNS = `
+  c.id, c.name, c.country, c.city, c.default_incoterm, c.default_currency, c.default_payment_terms,
+  c.owner_user_id, u.name AS owner_name, c.notes, c.created_at, c.updated_at
+`;
+
+const toText = (value) => String(value ?? "").trim();
+
+export const normalizeCustomerName = (value) => toText(value).replace(/\s+/g, " ").toLowerCase();
+
+// Sales maintain accounts (including inline creation from the request form); admins also merge them.
+export const canEditCustomers = (user) => hasRole(user, "sales") || hasRole(user, "admin");
+
+const mapContactRow = (row) => ({
+  id: row.id,
+  name: row.name ?? "",
+  jobTitle: row.job_title ?? "",
+  email: row.email ?? "",
+  phone: row.phone ?? "",
+  isPrimary: Boolean(row.is_primary),
+});
+
+const mapAddressRow = (row) => ({
+  id: row.id,
+  label: row.label ?? "",
+  address: row.address ?? "",
+  isDefaultDelivery: Boolean(row.is_default_delivery),
+});
+
+const mapCustomerRow = (row) => ({
+  id: row.id,
+  name: row.name ?? "",
+  country: row.country ?? "",
+  city: row.city ?? "",
+  defaultIncoterm: row.default_incoterm ?? "",
+  defaultCurrency: row.default_currency ?? "",
+  defaultPaymentTerms: row.default_payment_terms ?? "",
+  ownerUserId: row.owner_user_id ?? null,
+  ownerName: row.owner_name ?? "",
+  notes: row.notes ?? "",
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const parseContacts = (value) => {
+  if (value === undefined || value === null) return { value: [] };
+  if (!Array.isArray(value)) return { error: "Contacts must be a list" };
+  if (value.length > MAX_CONTACTS) return { error: `At most ${MAX_CONTACTS} contacts are allowed` };
+  const contacts = [];
+  for (const item of value) {
+    const name = toText(item?.name).slice(0, 200);
+    if (!name) return { error: "Contact name is required" };
+    contacts.push({
+      id: toText(item?.id),
+      name,
+      jobTitle: toText(item?.jobTitle).slice(0, 200),
+      email: toText(item?.email).slice(0, 320),
+      phone: toText(item?.phone).slice(0, 100),
+      isPrimary: item?.isPrimary === true,
+    });
+  }
+  // Exactly one primary contact when there are contacts: the first flagged one, else the first one.
+  const primaryIndex = Math.max(0, contacts.findIndex((contact) => contact.isPrimary));
+  contacts.forEach((contact, index) => {
+    contact.isPrimary = index === primaryIndex;
+  });
+  return { value: contacts };
+};
+
+const parseAddresses = (value) => {
+  if (value === undefined || value === null) return { value: [] };
+  if (!Array.isArray(value)) return { error: "Addresses must be a list" };
+  if (value.length > MAX_ADDRESSES) return { error: `At most ${MAX_ADDRESSES} addresses are allowed` };
+  const addresses = [];
+  for (const item of value) {
+    const address = toText(item?.address).slice(0, 1000);
+    if (!address) return { error: "Address is required" };
+    addresses.push({
+      id: toText(item?.id),
+      label: toText(item?.label).slice(0, 200),
+      address,
+      isDefaultDelivery: item?.isDefaultDelivery === true,
+    });
+  }
+  const defaultIndex = Math.max(0, addresses.findIndex((address) => address.isDefaultDelivery));
+  addresses.forEach((address, index) => {
+    address.isDefaultDelivery = index === defaultIndex;
+  });
+  return { value: addresses };
+};
+
+// Validates a customer payload. Returns `{ value }` or `{ error }`.
+export const parseCustomerPayload = (body) => {
+  if (!body || typeof body !== "object") return { error: "Invalid JSON body" };
+  const name = toText(body.name).replace(/\s+/g, " ").slice(0, 300);
+  if (!name) return { error: "Customer name is required" };
+  const defaultCurrency = toText(body.defaultCurrency).toUpperCase();
+  if (defaultCurrency && !CUSTOMER_CURRENCIES.includes(defaultCurrency)) {
+    return { error: "Default currency must be one of USD, EUR or RMB" };
+  }
+  const contacts = parseContacts(body.contacts);
+  if (contacts.error) return { error: contacts.error };
+  const addresses = parseAddresses(body.addresses);
+  if (addresses.error) return { error: addresses.error };
+  return {
+    value: {
+      name,
+      country: toText(body.country).slice(0, 200),
+      city: toText(body.city).slice(0, 200),
+      defaultIncoterm: toText(body.defaultIncoterm).slice(0, 100),
+      defaultCurrency,
+      defaultPaymentTerms: toText(body.defaultPaymentTerms).slice(0, 2000),
+      ownerUserId: toText(body.ownerUserId) || null,
+      notes: toText(body.notes).slice(0, 4000),
+      contacts: contacts.value,
+      addresses: addresses.value,
+    },
+  };
+};
+
+// Accounts matching `search` (name, country or city), with how many requests and contracts reference each.
+export const listCustomers = async (db, { search = "", ownerUserId = null } = {}) => {
+  const term = toText(search).toLowerCase();
+  const { rows } = await db.query(
+    `
+    SELECT ${CUSTOMER_COLUMNS},
+           (SELECT count(*)::int FROM requests r WHERE r.data->>'customerId' = c.id) AS request_count,
+           (SELECT count(*)::int FROM contract_approvals ca WHERE ca.data->>'customerId' = c.id) AS contract_count
+      FROM customers c
+      LEFT JOIN app_users u ON u.id = c.owner_user_id
+     WHERE ($1 = '' OR c.normalized_name LIKE $2 OR lower(c.country) LIKE $2 OR lower(c.city) LIKE $2)
+       AND ($3::text IS NULL OR c.owner_user_id = $3)
+     ORDER BY (c.normalized_name LIKE $4) DESC, c.name
+     LIMIT $5
+    `,
+    [term, `%${term}%`, ownerUserId, `${term}%`, term ? MAX_SEARCH_RESULTS : 1000]
+  );
+  return rows.map((row) => ({
+    ...mapCustomerRow(row),
+    requestCount: row.request_count ?? 0,
+    contractCount: row.contract_count ?? 0,
+  }));
+};
+
+export const getCustomerById = async (db, id) => {
+  const { rows } = await db.query(
+    `SELECT ${CUSTOMER_COLUMNS} FROM customers c LEFT JOIN app_users u ON u.id = c.owner_user_id WHERE c.id = $1`,
+    [id]
+  );
+  if (!rows[0]) return null;
+  const [contacts, addresses] = await Promise.all([
+    db.query("SELECT * FROM customer_contacts WHERE customer_id = $1 ORDER BY sort_order, name", [id]),
+    db.query("SELECT * FROM customer_addresses WHERE customer_id = $1 ORDER BY sort_order, label", [id]),
+  ]);
+  return {
+    ...mapCustomerRow(rows[0]),
+    contacts: contacts.rows.map(mapContactRow),
+    addresses: addresses.rows.map(mapAddressRow),
+  };
+};
+
+// Active users holding the sales role, for the owner picker.
+export const listCustomerOwners = async (db) => {
+  const { rows } = await db.query(
+    `
+    SELECT u.id, u.name
+      FROM app_users u
+     WHERE u.is_active = true
+       AND (u.role = 'sales' OR EXISTS (SELECT 1 FROM app_user_roles r WHERE r.user_id = u.id AND r.role = 'sales'))
+     ORDER BY u.name
+    `
+  );
+  return rows.map((row) => ({ id: row.id, name: row.name ?? "" }));
+};
+
+// Returns the existing account with the same normalized name, if any.
+export const findCustomerByName = async (db, name, excludeId = null) => {
+  const { rows } = await db.query(
+    "SELECT id, name FROM customers WHERE normalized_name = $1 AND ($2::text IS NULL OR id <> $2) LIMIT 1",
+    [normalizeCustomerName(name), excludeId]
+  );
+  return rows[0] ?? null;
+};
+
+// Unique violation on the account name: another save took the name between findCustomerByName and the write.
+export const isDuplicateCustomerNameError = (error) =>
+  String(error?.code ?? "") === "23505" && error?.constraint === "idx_customers_normalized_name";
+
+const replaceContactsAndAddresses = async (client, customerId, value) => {
+  await client.query("DELETE FROM customer_contacts WHERE customer_id = $1", [customerId]);
+  await client.query("DELETE FROM customer_addresses WHERE customer_id = $1", [customerId]);
+  for (const [index, contact] of value.contacts.entries()) {
+    await client.query(
+      `
+      INSERT INTO customer_contacts (id, customer_id, name, job_title, email, phone, is_primary, sort_order)
+      VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+      `,
+      [randomUUID(), customerId, contact.name, contact.jobTitle, contact.email, contact.phone, contact.isPrimary, index]
+    );
+  }
+  for (const [index, address] of value.addresses.entries()) {
+    await client.query(
+      `
+      INSERT INTO customer_addresses (id, customer_id, label, address, is_default_delivery, sort_order)
+      VALUES ($1,$2,$3,$4,$5,$6)
+      `,
+      [randomUUID(), customerId, address.label, address.address, address.isDefaultDelivery, index]
+    );
+  }
+};
+
+// Writes `customerId`/`clientName` onto the records of `table` that reference `sourceId`. The version bump makes an
+// editor still holding the old copy get a conflict instead of saving the old name back. Returns the touched rows
+// (id, status, version, updatedAt) with their previous values.
+const patchLinkedRecords = async (client, table, sourceId, fields, now) => {
+  const { rows: current } = await client.query(
+    `
+    SELECT id, data->>'customerId' AS customer_id, data->>'clientName' AS client_name
+      FROM ${table}
+     WHERE data->>'customerId' = $1
+     FOR UPDATE
+    `,
+    [sourceId]
+  );
+  const stale = current.filter((row) => row.customer_id !== fields.customerId || row.client_name !== fields.clientName);
+  if (!stale.length) return [];
+  const { rows } = await client.query(
+    `
+    UPDATE ${table}
+       SET data = data || $2::jsonb, updated_at = $3, version = version + 1
+     WHERE id = ANY($1::text[])
+    RETURNING id, status, version
+    `,
+    [stale.map((row) => row.id), JSON.stringify({ ...fields, updatedAt: now.toISOString() }), now]
+  );
+  const before = new Map(stale.map((row) => [row.id, row]));
+  return rows.map((row) => ({
+    id: row.id,
+    status: row.status,
+    version: row.version,
+    updatedAt: now.toISOString(),
+    before: { customerId: before.get(row.id)?.customer_id ?? null, clientName: before.get(row.id)?.client_name ?? "" },
+  }));
+};
+
+// Re-points every request and contract approval of `sourceId` at `fields` and records the request field changes.
+// Returns `{ requests, contracts }` (see patchLinkedRecords) so the caller can publish realtime events after commit.
+const relinkCustomerRecords = async (client, sourceId, fields, actor) => {
+  const now = new Date();
+  const requests = await patchLinkedRecords(client, "requests", sourceId, fields, now);
+  const contracts = await patchLinkedRecords(client, "contract_approvals", sourceId, fields, now);
+  for (const request of requests) {
+    await recordRequestFieldChanges(client, {
+      requestId: request.id,
+      changes: diffRequestFields(request.before, fields),
+      actor,
+      changedAt: now,
+    });
+  }
+  return { requests, contracts };
+};
+
+// Callers run the writes below inside a transaction and check the name is free with findCustomerByName first.
+export const createCustomer = async (client, value, actor) => {
+  const id = randomUUID();
+  const now = new Date();
+  await client.query(
+    `
+    INSERT INTO customers
+      (id, name, normalized_name, country, city, default_incoterm, default_currency, default_payment_terms,
+       owner_user_id, notes, created_at, updated_at, created_by, updated_by)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$11,$12,$12)
+    `,
+    [
+      id,
+      value.name,
+      normalizeCustomerName(value.name),
+      value.country,
+      value.city,
+      value.defaultIncoterm,
+      value.defaultCurrency,
+      value.defaultPaymentTerms,
+      value.ownerUserId,
+      value.notes,
+      now,
+      actor?.id ?? null,
+    ]
+  );
+  await replaceContactsAndAddresses(client, id, value);
+  return getCustomerById(client, id);
+};
+
+// Returns `{ customer, requests, contracts }` with the records whose client name changed, or null when the account
+// does not exist.
+export const updateCustomer = async (client, id, value, actor) => {
+  const { rowCount } = await client.query(
+    `
+    UPDATE customers
+       SET name = $2, normalized_name = $3, country = $4, city = $5, default_incoterm = $6, default_currency = $7,
+           default_payment_terms = $8, owner_user_id = $9, notes = $10, updated_at = $11, updated_by = $12
+     WHERE id = $1
+    `,
+    [
+      id,
+      value.name,
+      normalizeCustomerName(value.name),
+      value.country,
+      value.city,
+      value.defaultIncoterm,
+      value.defaultCurrency,
+      value.defaultPaymentTerms,
+      value.ownerUserId,
+      value.notes,
+      new Date(),
+      actor?.id ?? null,
+    ]
+  );
+  if (!rowCount) return null;
+  await replaceContactsAndAddresses(client, id, value);
+  const relinked = await relinkCustomerRecords(client, id, { customerId: id, clientName: value.name }, actor);
+  return { customer: await getCustomerById(client, id), ...relinked };
+};
+
+// Moves the contacts, addresses and linked records of `sourceId` to `targetId`, then deletes `sourceId`.
+// Contacts and addresses the target already has (same text) are not copied twice. Returns the relinked
+// `{ requests, contracts }`, or null when either account does not exist.
+export const mergeCustomers = async (client, sourceId, targetId, actor) => {
+  const { rows } = await client.query("SELECT id, name FROM customers WHERE id = ANY($1::text[]) FOR UPDATE", [
+    [sourceId, targetId],
+  ]);
+  const target = rows.find((row) => row.id === targetId);
+  if (!target || !rows.some((row) => row.id === sourceId)) return null;
+
+  await client.query(
+    `
+    UPDATE customer_contacts s
+       SET customer_id = $2, is_primary = false,
+           sort_order = s.sort_order + (SELECT count(*) FROM customer_contacts t WHERE t.customer_id = $2)
+     WHERE s.customer_id = $1
+       AND NOT EXISTS (
+         SELECT 1 FROM customer_contacts t WHERE t.customer_id = $2 AND lower(t.name) = lower(s.name)
+       )
+    `,
+    [sourceId, targetId]
+  );
+  await client.query(
+    `
+    UPDATE customer_addresses s
+       SET customer_id = $2, is_default_delivery = false,
+           sort_order = s.sort_order + (SELECT count(*) FROM customer_addresses t WHERE t.customer_id = $2)
+     WHERE s.customer_id = $1
+       AND NOT EXISTS (
+         SELECT 1 FROM customer_addresses t WHERE t.customer_id = $2 AND lower(t.address) = lower(s.address)
+       )
+    `,
+    [sourceId, targetId]
+  );
+  const relinked = await relinkCustomerRecords(client, sourceId, { customerId: targetId, clientName: target.name }, actor);
+  await client.query("DELETE FROM customers WHERE id = $1", [sourceId]);
+  return relinked;
+};
+
+// Fields to apply to a request or contract approval before it is stored: the account name for a known
+// `customerId`, or no link at all when the id is unknown (the typed client name is kept as is).
+export const resolveCustomerLink = async (db, record) => {
+  const customerId = toText(record?.customerId);
+  if (!customerId) return { customerId: null };
+  const { rows } = await db.query("SELECT id, name FROM customers WHERE id = $1", [customerId]);
+  if (!rows[0]) return { customerId: null };
+  return { customerId: rows[0].id, clientName: rows[0].name };
+};
@@ -0,0 +1,129 @@
+// Saved dashboard views (GET/POST/PUT/DELETE /api/dashboard-views). A view stores the dashboard
+// filters, sort rules, hidden table columns and density. Personal views belong to one user;
+// shared views are published by an admin to one role (or "all") and have no owner.
+
+import { USER_ROLES, hasPermission } from "./permissions.js";
+import { REQUEST_LIST_SORT_KEYS } from "./requestList.js";
+
+export const DASHBOARD_VIEW_SHARE_ROLES = Object.freeze(["all", ...USER_ROLES]);
+export const DASHBOARD_VIEW_NAME_MAX_LENGTH = 80;
+export const DASHBOARD_VIEWS_PER_USER_LIMIT = 50;
+
+const PRIORITY_VALUES = ["low", "normal", "high", "urgent"];
+const NEXT_ACTION_VALUES = ["sales", "design", "costing", "admin", "none"];
+const TABLE_COLUMNS = [
+  "priority",
+  "status",
+  "sla",
+  "nextAction",
+  "clientName",
+  "applicationVehicle",
+  "country",
+  "productType",
+  "createdBy",
+  "createdAt",
+];
+const MAX_LIST_ITEMS = 50;
+
+const toStringList = (value, allowed = null) => {
+  if (!Array.isArray(value)) return [];
+  const out = [];
+  for (const item of value) {
+    const text = String(item ?? "").trim();
+    if (!text || text.length > 120 || out.includes(text)) continue;
+    if (allowed && !allowed.includes(text)) continue;
+    out.push(text);
+    if (out.length >= MAX_LIST_ITEMS) break;
+  }
+  return out;
+};
+
+const toDateInput = (value) => {
+  const text = String(value ?? "").trim();
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) ? text : "";
+};
+
+// Keeps only known keys so stale or hand-crafted payloads cannot grow the stored JSON.
+export const sanitizeDashboardViewConfig = (raw) => {
+  const source = raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {};
+  const filter = String(source.filter ?? "").trim();
+  const sort = [];
+  for (const rule of Array.isArray(source.sort) ? source.sort : []) {
+    const key = String(rule?.key ?? "").trim();
+    if (!REQUEST_LIST_SORT_KEYS.includes(key) || sort.some((item) => item.key === key)) continue;
+    sort.push({ key, direction: rule?.direction === "desc" ? "desc" : "asc" });
+  }
+  return {
+    filter: filter && filter.length <= 64 ? filter : "all",
+    owner: source.owner === "mine" ? "mine" : "all",
+    countries: toStringList(source.countries),
+    priorities: toStringList(source.priorities, PRIORITY_VALUES),
+    nextActionRoles: toStringList(source.nextActionRoles, NEXT_ACTION_VALUES),
+    createdFrom: toDateInput(source.createdFrom),
+    createdTo: toDateInput(source.createdTo),
+    sort,
+    hiddenColumns: toStringList(source.hiddenColumns, TABLE_COLUMNS),
+    density: source.density === "compact" ? "compact" : "comfortable",
+  };
+};
+
+// `undefined` means "present but invalid", `null` means "personal view".
+export const parseDashboardViewShareRole = (value) => {
+  if (value === null || value === undefined || value === "") return null;
+  const role = String(value).trim().toLowerCase();
+  return DASHBOARD_VIEW_SHARE_ROLES.includes(role) ? role : undefined;
+};
+
+export const normalizeDashboardViewName = (value) =>
+  String(value ?? "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const mapDashboardViewRow = (row, authUser) => {
+  const isShared = Boolean(row.shared_role);
+  const isAdmin = hasPermission(authUser, "manage_settings");
+  return {
+    id: row.id,
+    name: row.name,
+    scope: isShared ? "shared" : "personal",
+    sharedRole: row.shared_role ?? null,
+    config: sanitizeDashboardViewConfig(row.config),
+    createdByName: row.created_by_name ?? "",
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    canEdit: isShared ? isAdmin : String(row.owner_user_id ?? "") === String(authUser?.id ?? ""),
+  };
+};
+
+// Personal views first, then shared ones. Admins see every shared view so they can manage them.
+export const listDashboardViews = async (db, authUser) => {
+  const { rows } = await db.query(
+    `
+    SELECT id, name, owner_user_id, shared_role, config, created_by_name, created_at, updated_at
+    FROM dashboard_views
+    WHERE owner_user_id = $1
+       OR shared_role = 'all'
+       OR shared_role = ANY($2::text[])
+       OR ($3 AND shared_role IS NOT NULL)
+    ORDER BY (shared_role IS NOT NULL), lower(name), created_at
+    `,
+    [
+      String(authUser?.id ?? ""),
+      Array.isArray(authUser?.roles) ? authUser.roles : [String(authUser?.role ?? "")],
+      hasPermission(authUser, "manage_settings"),
+    ]
+  );
+  return rows.map((row) => mapDashboardViewRow(row, authUser));
+};
+
+export const getDashboardViewRow = async (db, viewId) => {
+  const { rows } = await db.query(
+    `SELECT id, name, owner_user_id, shared_role, config, created_by_name, created_at, updated_at
+     FROM dashboard_views WHERE id = $1`,
+    [viewId]
+  );
+  return rows[0] ?? null;
+};
+
+export const canEditDashboardView = (row, authUser) =>
+  row.shared_role ? hasPermission(authUser, "manage_settings") : String(row.owner_user_id ?? "") === String(authUser?.id ?? "");
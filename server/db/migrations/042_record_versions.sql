@@ -0,0 +1,6 @@
+-- Optimistic concurrency: every write bumps `version`, and edits must echo the version they were based on.
+ALTER TABLE requests
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+ALTER TABLE contract_approvals
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
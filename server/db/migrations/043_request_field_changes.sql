@@ -0,0 +1,19 @@
+-- Field-level change history: one row per changed field per save, grouped by change_set_id.
+CREATE TABLE IF NOT EXISTS request_field_changes (
+  id text PRIMARY KEY,
+  request_id text NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  change_set_id text NOT NULL,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  actor_user_id text NULL,
+  actor_name text NULL,
+  section text NOT NULL, -- general | technical | costing | sales
+  field_path text NOT NULL,
+  before_value jsonb NULL,
+  after_value jsonb NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_field_changes_request_changed
+  ON request_field_changes (request_id, changed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_request_field_changes_request_section
+  ON request_field_changes (request_id, section, changed_at DESC);
@@ -0,0 +1,5 @@
+-- Supports the cursor-paginated request list (filters on status/owner/country, sort by created/updated).
+CREATE INDEX IF NOT EXISTS idx_requests_status_updated_at ON requests (status, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_requests_created_at ON requests (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_requests_created_by ON requests ((data->>'createdBy'));
+CREATE INDEX IF NOT EXISTS idx_requests_country ON requests ((data->>'country'));
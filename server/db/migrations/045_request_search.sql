@@ -0,0 +1,86 @@
+-- Full-text search over requests: a weighted tsvector for ranking plus a folded text column
+-- for trigram/substring matches (accents, CJK text without word breaks).
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS search_fields jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS search_text text NOT NULL DEFAULT '';
+ALTER TABLE requests ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Searchable fields in display order. `field` is the payload path shown as "matched in ...".
+-- Weights: A = identity, B = products/offer lines/contacts, C = free-text comments.
+-- Internal costing notes and sales feedback are left out: every role can search and sees the matched snippets.
+CREATE OR REPLACE FUNCTION request_search_fields(doc jsonb) RETURNS jsonb
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT COALESCE(
+    jsonb_agg(jsonb_build_object('field', f.field, 'weight', f.weight, 'text', btrim(f.body)) ORDER BY f.ord),
+    '[]'::jsonb
+  )
+  FROM (
+    VALUES
+      (1, 'clientName', 'A', doc->>'clientName'),
+      (2, 'clientContact', 'B', doc->>'clientContact'),
+      (3, 'applicationVehicle', 'B', concat_ws(' ', doc->>'applicationVehicle', doc->>'applicationVehicleOther')),
+      (4, 'country', 'B', concat_ws(' ', doc->>'country', doc->>'countryOther', doc->>'city', doc->>'clientAddressDelivery')),
+      (5, 'products', 'B', (
+        SELECT string_agg(
+          concat_ws(' ', p->>'offerProductName', p->>'offerProductPartNumber', p->>'tyreSize', p->>'productComments'),
+          ' '
+        )
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(doc->'products') = 'array' THEN doc->'products' ELSE '[]'::jsonb END) p
+      )),
+      (6, 'clientOfferConfig.lines', 'B', (
+        SELECT string_agg(
+          concat_ws(' ', l->>'description', l->>'specification', l->>'offerDescription', l->>'offerSpecification', l->>'remark'),
+          ' '
+        )
+        FROM jsonb_array_elements(
+          CASE WHEN jsonb_typeof(doc#>'{clientOfferConfig,lines}') = 'array' THEN doc#>'{clientOfferConfig,lines}' ELSE '[]'::jsonb END
+        ) l
+      )),
+      (7, 'otherRequirements', 'C', doc->>'otherRequirements'),
+      (8, 'designNotes', 'C', doc->>'designNotes'),
+      (9, 'designResultComments', 'C', doc->>'designResultComments'),
+      (10, 'clarificationComment', 'C', doc->>'clarificationComment'),
+      (11, 'clarificationResponse', 'C', doc->>'clarificationResponse')
+  ) AS f(ord, field, weight, body)
+  WHERE COALESCE(btrim(f.body), '') <> ''
+$$;
+
+CREATE OR REPLACE FUNCTION requests_search_refresh() RETURNS trigger
+LANGUAGE plpgsql AS $$
+DECLARE
+  fields jsonb := request_search_fields(NEW.data);
+  weighted text[] := ARRAY['', '', ''];
+  item jsonb;
+BEGIN
+  FOR item IN SELECT value FROM jsonb_array_elements(fields) LOOP
+    IF item->>'weight' = 'A' THEN
+      weighted[1] := weighted[1] || ' ' || (item->>'text');
+    ELSIF item->>'weight' = 'B' THEN
+      weighted[2] := weighted[2] || ' ' || (item->>'text');
+    ELSE
+      weighted[3] := weighted[3] || ' ' || (item->>'text');
+    END IF;
+  END LOOP;
+
+  NEW.search_fields := fields;
+  NEW.search_text := lower(unaccent(NEW.id || ' ' || weighted[1] || ' ' || weighted[2] || ' ' || weighted[3]));
+  NEW.search_vector :=
+    setweight(to_tsvector('simple', lower(unaccent(NEW.id || ' ' || weighted[1]))), 'A') ||
+    setweight(to_tsvector('simple', lower(unaccent(weighted[2]))), 'B') ||
+    setweight(to_tsvector('simple', lower(unaccent(weighted[3]))), 'C');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_requests_search_refresh ON requests;
+CREATE TRIGGER trg_requests_search_refresh
+  BEFORE INSERT OR UPDATE OF data ON requests
+  FOR EACH ROW EXECUTE FUNCTION requests_search_refresh();
+
+-- Backfill existing rows (fires the trigger; updated_at/version are left untouched).
+UPDATE requests SET data = data;
+
+CREATE INDEX IF NOT EXISTS idx_requests_search_vector ON requests USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_requests_search_text_trgm ON requests USING gin (search_text gin_trgm_ops);
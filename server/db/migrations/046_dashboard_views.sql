@@ -0,0 +1,17 @@
+-- Saved dashboard views. Personal views have an owner; shared views are published to a role
+-- ('all' = every dashboard user) and have no owner.
+CREATE TABLE IF NOT EXISTS dashboard_views (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  owner_user_id text NULL,
+  shared_role text NULL,
+  config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by_user_id text NULL,
+  created_by_name text NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT dashboard_views_scope_check CHECK ((owner_user_id IS NULL) <> (shared_role IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_dashboard_views_owner ON dashboard_views (owner_user_id) WHERE owner_user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_dashboard_views_shared_role ON dashboard_views (shared_role) WHERE shared_role IS NOT NULL;
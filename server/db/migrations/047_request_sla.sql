@@ -0,0 +1,59 @@
+-- SLA engine: business calendar (singleton), holidays, per-stage targets and the computed due dates.
+CREATE TABLE IF NOT EXISTS sla_settings (
+  id integer PRIMARY KEY,
+  enabled boolean NOT NULL DEFAULT true,
+  timezone text NOT NULL DEFAULT 'Asia/Shanghai',
+  workday_start_minute integer NOT NULL DEFAULT 510,
+  workday_end_minute integer NOT NULL DEFAULT 1050,
+  -- ISO weekdays, 1 = Monday.
+  working_days integer[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  warning_percent integer NOT NULL DEFAULT 80,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by_user_id text NULL REFERENCES app_users(id) ON DELETE SET NULL
+);
+
+INSERT INTO sla_settings (id)
+VALUES (1)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS sla_holidays (
+  holiday_date date PRIMARY KEY,
+  label text NOT NULL DEFAULT ''
+);
+
+-- Target business hours per status; priority '*' applies when no priority-specific row exists.
+CREATE TABLE IF NOT EXISTS sla_policies (
+  status text NOT NULL,
+  priority text NOT NULL DEFAULT '*',
+  target_hours numeric(8,2) NOT NULL CHECK (target_hours > 0),
+  PRIMARY KEY (status, priority)
+);
+
+INSERT INTO sla_policies (status, priority, target_hours)
+VALUES
+  ('submitted', '*', 8),
+  ('under_review', '*', 24),
+  ('clarification_needed', '*', 24),
+  ('feasibility_confirmed', '*', 16),
+  ('design_result', '*', 8),
+  ('in_costing', '*', 24),
+  ('costing_complete', '*', 16),
+  ('sales_followup', '*', 40),
+  ('gm_approval_pending', '*', 16)
+ON CONFLICT (status, priority) DO NOTHING;
+
+-- Written by the SLA monitor (server/slaMonitor.js); one row per request in a stage with a policy.
+CREATE TABLE IF NOT EXISTS request_sla_state (
+  request_id text PRIMARY KEY REFERENCES requests(id) ON DELETE CASCADE,
+  status text NOT NULL,
+  priority text NOT NULL DEFAULT 'normal',
+  stage_started_at timestamptz NOT NULL,
+  target_hours numeric(8,2) NOT NULL,
+  due_at timestamptz NOT NULL,
+  warning_at timestamptz NOT NULL,
+  warning_notified_at timestamptz NULL,
+  breach_notified_at timestamptz NULL,
+  computed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_sla_state_due_at ON request_sla_state (due_at);
@@ -0,0 +1,87 @@
+-- Request workflow definition, editable by admins (Settings > Workflow).
+-- States map a request status to the roles notified in-app and the next-action owner shown on dashboards.
+CREATE TABLE IF NOT EXISTS workflow_states (
+  status text PRIMARY KEY,
+  notify_roles text[] NOT NULL DEFAULT '{}',
+  next_action_role text NOT NULL DEFAULT 'none',
+  -- Empty = use the translated role name.
+  next_action_label text NOT NULL DEFAULT '',
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS workflow_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  roles text[] NOT NULL DEFAULT '{admin}',
+  required_fields text[] NOT NULL DEFAULT '{}',
+  comment_required boolean NOT NULL DEFAULT false,
+  PRIMARY KEY (from_status, to_status)
+);
+
+CREATE TABLE IF NOT EXISTS workflow_settings (
+  id integer PRIMARY KEY,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by_user_id text NULL REFERENCES app_users(id) ON DELETE SET NULL
+);
+
+INSERT INTO workflow_settings (id)
+VALUES (1)
+ON CONFLICT (id) DO NOTHING;
+
+-- Seeded with the workflow that used to be hard-coded in statusIntegrity.js and api.js.
+INSERT INTO workflow_states (status, notify_roles, next_action_role, sort_order)
+VALUES
+  ('draft', '{}'::text[], 'none', 0),
+  ('submitted', '{design}'::text[], 'design', 1),
+  ('under_review', '{design}'::text[], 'design', 2),
+  ('clarification_needed', '{sales}'::text[], 'sales', 3),
+  ('feasibility_confirmed', '{costing}'::text[], 'costing', 4),
+  ('design_result', '{costing}'::text[], 'costing', 5),
+  ('in_costing', '{costing}'::text[], 'costing', 6),
+  ('costing_complete', '{sales}'::text[], 'sales', 7),
+  ('sales_followup', '{sales}'::text[], 'sales', 8),
+  ('gm_approval_pending', '{admin}'::text[], 'admin', 9),
+  ('gm_rejected', '{sales}'::text[], 'sales', 10),
+  ('gm_approved', '{sales}'::text[], 'none', 11),
+  ('closed', '{sales}'::text[], 'none', 12),
+  ('cancelled', '{sales}'::text[], 'none', 13)
+ON CONFLICT (status) DO NOTHING;
+
+INSERT INTO workflow_transitions (from_status, to_status, roles, required_fields, comment_required)
+VALUES
+  ('draft', 'submitted', '{sales,admin}'::text[], '{}'::text[], false),
+  ('draft', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('submitted', 'under_review', '{design,admin}'::text[], '{}'::text[], false),
+  ('submitted', 'clarification_needed', '{design,admin}'::text[], '{}'::text[], false),
+  ('submitted', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('under_review', 'feasibility_confirmed', '{design,admin}'::text[], '{}'::text[], false),
+  ('under_review', 'design_result', '{design,admin}'::text[], '{designResultBomFolderLink}'::text[], false),
+  ('under_review', 'clarification_needed', '{design,admin}'::text[], '{}'::text[], false),
+  ('under_review', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('clarification_needed', 'submitted', '{sales,admin}'::text[], '{}'::text[], true),
+  ('clarification_needed', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('feasibility_confirmed', 'design_result', '{design,admin}'::text[], '{designResultBomFolderLink}'::text[], false),
+  ('feasibility_confirmed', 'in_costing', '{costing,admin}'::text[], '{}'::text[], false),
+  ('feasibility_confirmed', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('design_result', 'in_costing', '{costing,admin}'::text[], '{}'::text[], false),
+  ('design_result', 'costing_complete', '{costing,admin}'::text[], '{}'::text[], false),
+  ('design_result', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('in_costing', 'costing_complete', '{costing,admin}'::text[], '{}'::text[], false),
+  ('in_costing', 'clarification_needed', '{costing,admin}'::text[], '{}'::text[], false),
+  ('in_costing', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('costing_complete', 'sales_followup', '{sales,admin}'::text[], '{}'::text[], false),
+  ('costing_complete', 'gm_approval_pending', '{sales,admin}'::text[], '{}'::text[], false),
+  ('costing_complete', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('costing_complete', 'closed', '{sales,admin}'::text[], '{}'::text[], false),
+  ('sales_followup', 'gm_approval_pending', '{sales,admin}'::text[], '{}'::text[], false),
+  ('sales_followup', 'gm_approved', '{admin}'::text[], '{}'::text[], false),
+  ('sales_followup', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('sales_followup', 'closed', '{sales,admin}'::text[], '{}'::text[], false),
+  ('gm_approval_pending', 'gm_approved', '{admin}'::text[], '{}'::text[], false),
+  ('gm_approval_pending', 'gm_rejected', '{admin}'::text[], '{}'::text[], false),
+  ('gm_approval_pending', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true),
+  ('gm_approved', 'closed', '{sales,admin}'::text[], '{}'::text[], false),
+  ('gm_rejected', 'sales_followup', '{sales,admin}'::text[], '{}'::text[], false),
+  ('gm_rejected', 'gm_approval_pending', '{sales,admin}'::text[], '{}'::text[], false),
+  ('gm_rejected', 'cancelled', '{sales,admin}'::text[], '{}'::text[], true)
+ON CONFLICT (from_status, to_status) DO NOTHING;
@@ -0,0 +1,14 @@
+-- Extra roles and individually granted permissions (Settings > Users).
+-- app_users.role stays the primary role; rows here add to it, they never replace it.
+CREATE TABLE IF NOT EXISTS app_user_roles (
+  user_id text NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+  role text NOT NULL,
+  PRIMARY KEY (user_id, role)
+);
+
+-- Grants on top of the permissions implied by the user's roles (see server/permissions.js).
+CREATE TABLE IF NOT EXISTS app_user_permissions (
+  user_id text NOT NULL REFERENCES app_users(id) ON DELETE CASCADE,
+  permission text NOT NULL,
+  PRIMARY KEY (user_id, permission)
+);
@@ -0,0 +1,29 @@
+-- Pricing catalog behind the Price List page (server/priceCatalog.js).
+-- Reference products get a part number; prices are versioned rows that are superseded, never edited in place.
+ALTER TABLE reference_products ADD COLUMN IF NOT EXISTS part_number text NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reference_products_part_number
+  ON reference_products (lower(part_number))
+  WHERE part_number IS NOT NULL AND part_number <> '';
+
+CREATE TABLE IF NOT EXISTS reference_product_prices (
+  id text PRIMARY KEY,
+  product_id text NOT NULL REFERENCES reference_products(id) ON DELETE CASCADE,
+  currency text NOT NULL,
+  base_price numeric(14,2) NOT NULL,
+  cost numeric(14,2) NULL,
+  effective_from date NOT NULL,
+  -- Inclusive; NULL while the price is still open-ended.
+  effective_to date NULL,
+  -- [{ "minQuantity": 10, "unitPrice": 95.5 }, ...] sorted by minQuantity.
+  quantity_breaks jsonb NOT NULL DEFAULT '[]'::jsonb,
+  note text NULL,
+  created_by text NULL,
+  created_by_name text NULL,
+  created_at timestamptz NOT NULL,
+  updated_at timestamptz NOT NULL,
+  UNIQUE (product_id, currency, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reference_product_prices_product
+  ON reference_product_prices (product_id, currency, effective_from DESC);
@@ -0,0 +1,19 @@
+-- Exchange rates for normalized reporting (server/exchangeRates.js).
+-- Rates are stored against EUR: one unit of `currency` is worth `rate` EUR from `effective_from` on.
+CREATE TABLE IF NOT EXISTS exchange_rate_settings (
+  id integer PRIMARY KEY,
+  reporting_currency text NOT NULL DEFAULT 'EUR',
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by_user_id text NULL REFERENCES app_users(id) ON DELETE SET NULL
+);
+
+INSERT INTO exchange_rate_settings (id)
+VALUES (1)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  currency text NOT NULL,
+  effective_from date NOT NULL,
+  rate numeric(18,8) NOT NULL CHECK (rate > 0),
+  PRIMARY KEY (currency, effective_from)
+);
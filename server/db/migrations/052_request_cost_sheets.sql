@@ -0,0 +1,24 @@
+-- Itemised cost sheets per request product line (server/costSheets.js).
+-- One sheet per product line and costing round: a new round starts each time the request re-enters In Costing,
+-- so earlier rounds stay as read-only versions.
+CREATE TABLE IF NOT EXISTS request_cost_sheets (
+  id text PRIMARY KEY,
+  request_id text NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  product_index integer NOT NULL,
+  costing_round integer NOT NULL,
+  currency text NOT NULL,
+  -- Unit costs: { "material": 120.5, "machining": 40, ... } keyed by component.
+  components jsonb NOT NULL DEFAULT '{}'::jsonb,
+  overhead_percent numeric(6,2) NOT NULL DEFAULT 0,
+  selling_price numeric(14,2) NULL,
+  visible_to_sales boolean NOT NULL DEFAULT false,
+  note text NULL,
+  updated_by text NULL,
+  updated_by_name text NULL,
+  created_at timestamptz NOT NULL,
+  updated_at timestamptz NOT NULL,
+  UNIQUE (request_id, product_index, costing_round)
+);
+
+CREATE INDEX IF NOT EXISTS idx_request_cost_sheets_request
+  ON request_cost_sheets (request_id, costing_round DESC, product_index);
@@ -0,0 +1,26 @@
+-- Issued client offer revisions (server/clientOfferRevisions.js).
+-- A revision freezes the offer lines, commercial terms and discount at the time it was issued; the generated PDF is
+-- kept in request_attachments (attachment_type 'client_offer_revision'). Only the sent fields change afterwards.
+CREATE TABLE IF NOT EXISTS client_offer_revisions (
+  id text PRIMARY KEY,
+  request_id text NOT NULL REFERENCES requests(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  revision_label text NOT NULL,
+  snapshot jsonb NOT NULL,
+  pdf_attachment_id text NULL,
+  pdf_filename text NULL,
+  language text NULL,
+  created_by text NULL,
+  created_by_name text NULL,
+  created_at timestamptz NOT NULL,
+  sent_on date NULL,
+  sent_to text NULL,
+  sent_note text NULL,
+  sent_by text NULL,
+  sent_by_name text NULL,
+  sent_recorded_at timestamptz NULL,
+  UNIQUE (request_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_offer_revisions_request
+  ON client_offer_revisions (request_id, revision_number DESC);
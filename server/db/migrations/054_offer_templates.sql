@@ -0,0 +1,35 @@
+-- Client offer templates and clause library (server/offerTemplates.js), managed by admins in Settings.
+-- A template presets the offer intro and closing text, the visible sections, the line-item columns and an ordered
+-- list of library clauses. Applying a template copies the clauses into the request's offer configuration, so library
+-- edits never change offers that were already prepared or issued.
+CREATE TABLE IF NOT EXISTS offer_clauses (
+  id text PRIMARY KEY,
+  title text NOT NULL,
+  body text NOT NULL,
+  category text NOT NULL DEFAULT 'general',
+  language text NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by text NULL,
+  updated_by_name text NULL
+);
+
+CREATE TABLE IF NOT EXISTS offer_templates (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  market text NOT NULL DEFAULT '',
+  countries jsonb NOT NULL DEFAULT '[]'::jsonb,
+  language text NULL,
+  intro_text text NOT NULL DEFAULT '',
+  closing_text text NOT NULL DEFAULT '',
+  section_visibility jsonb NOT NULL DEFAULT '{}'::jsonb,
+  line_columns jsonb NOT NULL DEFAULT '[]'::jsonb,
+  clause_ids jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by text NULL,
+  updated_by_name text NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_offer_templates_name ON offer_templates (lower(name));
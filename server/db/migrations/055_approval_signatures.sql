@@ -0,0 +1,22 @@
+-- Signed GM decisions on requests and contract approvals (server/approvalSignatures.js).
+-- Rows are only ever inserted: each one keeps the decided payload with its SHA-256 and chains to the previous
+-- signature of the same record through previous_hash / signature_hash.
+CREATE TABLE IF NOT EXISTS approval_signatures (
+  id text PRIMARY KEY,
+  target_type text NOT NULL CHECK (target_type IN ('request', 'contract')),
+  target_id text NOT NULL,
+  decision text NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  payload jsonb NOT NULL,
+  payload_hash text NOT NULL,
+  previous_hash text NULL,
+  signature_hash text NOT NULL UNIQUE,
+  signer_user_id text NOT NULL,
+  signer_name text NULL,
+  signer_email text NULL,
+  comment text NULL,
+  reauthenticated_at timestamptz NOT NULL,
+  signed_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_signatures_target
+  ON approval_signatures (target_type, target_id, signed_at DESC);
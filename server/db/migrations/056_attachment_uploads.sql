@@ -0,0 +1,16 @@
+-- Streamed attachment uploads waiting for the request save that references them (server/attachmentUploads.js).
+-- Claimed rows are copied to request_attachments; every pending row is removed after a day.
+CREATE TABLE IF NOT EXISTS attachment_uploads (
+  id text PRIMARY KEY,
+  attachment_type text NOT NULL DEFAULT 'other',
+  filename text NOT NULL,
+  content_type text NULL,
+  byte_size integer NOT NULL,
+  uploaded_at timestamptz NOT NULL DEFAULT now(),
+  uploaded_by text NULL,
+  uploaded_by_name text NULL,
+  data bytea NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_uploads_uploaded_at
+  ON attachment_uploads (uploaded_at);
@@ -0,0 +1,34 @@
+-- Pluggable attachment storage (server/attachmentStorage.js). `data` is only set for rows stored in the database;
+-- other rows point at content stored by SHA-256 in the backend named by storage_backend.
+ALTER TABLE request_attachments
+  ALTER COLUMN data DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS content_sha256 text NULL,
+  ADD COLUMN IF NOT EXISTS storage_backend text NOT NULL DEFAULT 'database';
+
+ALTER TABLE contract_approval_attachments
+  ALTER COLUMN data DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS content_sha256 text NULL,
+  ADD COLUMN IF NOT EXISTS storage_backend text NOT NULL DEFAULT 'database';
+
+ALTER TABLE attachment_uploads
+  ALTER COLUMN data DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS content_sha256 text NULL,
+  ADD COLUMN IF NOT EXISTS storage_backend text NOT NULL DEFAULT 'database';
+
+CREATE INDEX IF NOT EXISTS idx_request_attachments_content
+  ON request_attachments (content_sha256, storage_backend);
+
+CREATE INDEX IF NOT EXISTS idx_contract_approval_attachments_content
+  ON contract_approval_attachments (content_sha256, storage_backend);
+
+CREATE INDEX IF NOT EXISTS idx_attachment_uploads_content
+  ON attachment_uploads (content_sha256, storage_backend);
+
+-- Objects written to the filesystem / S3 backends, one per distinct content and backend.
+CREATE TABLE IF NOT EXISTS attachment_blobs (
+  sha256 text NOT NULL,
+  storage_backend text NOT NULL,
+  byte_size bigint NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (sha256, storage_backend)
+);
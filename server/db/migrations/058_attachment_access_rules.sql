@@ -0,0 +1,23 @@
+-- Roles allowed to see each request attachment category (server/attachmentAccess.js). Admins always see every
+-- category; a category without rows is visible to admins only.
+CREATE TABLE IF NOT EXISTS attachment_access_rules (
+  category text NOT NULL CHECK (category IN ('rim_drawing', 'design_result', 'costing', 'sales')),
+  role text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  updated_by_user_id text NULL,
+  PRIMARY KEY (category, role)
+);
+
+INSERT INTO attachment_access_rules (category, role)
+VALUES
+  ('rim_drawing', 'sales'),
+  ('rim_drawing', 'design'),
+  ('rim_drawing', 'costing'),
+  ('design_result', 'sales'),
+  ('design_result', 'design'),
+  ('design_result', 'costing'),
+  ('costing', 'sales'),
+  ('costing', 'costing'),
+  ('sales', 'sales'),
+  ('sales', 'costing')
+ON CONFLICT (category, role) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Cached previews of attachments (server/attachmentPreviews.js): sheet tables, DOCX HTML and thumbnails.
+-- A row is valid for the content hash and renderer version it was made from; `data` is NULL when the file could not
+-- be previewed.
+CREATE TABLE IF NOT EXISTS attachment_previews (
+  attachment_id text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('sheet', 'document', 'thumbnail')),
+  content_sha256 text NOT NULL,
+  renderer_version integer NOT NULL,
+  content_type text NOT NULL,
+  data bytea NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (attachment_id, kind)
+);
@@ -0,0 +1,110 @@
+-- Customer master data (server/customers.js). Requests and contract approvals reference an account through
+-- data->>'customerId' and keep clientName as the account name at save time (PDFs, lists and search read it).
+CREATE TABLE IF NOT EXISTS customers (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  -- lower(name) with collapsed whitespace; one account per spelling.
+  normalized_name text NOT NULL,
+  country text NOT NULL DEFAULT '',
+  city text NOT NULL DEFAULT '',
+  default_incoterm text NOT NULL DEFAULT '',
+  default_currency text NOT NULL DEFAULT '',
+  default_payment_terms text NOT NULL DEFAULT '',
+  owner_user_id text NULL REFERENCES app_users(id) ON DELETE SET NULL,
+  notes text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  created_by text NULL,
+  updated_by text NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customers_normalized_name ON customers (normalized_name);
+
+CREATE TABLE IF NOT EXISTS customer_contacts (
+  id text PRIMARY KEY,
+  customer_id text NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  job_title text NOT NULL DEFAULT '',
+  email text NOT NULL DEFAULT '',
+  phone text NOT NULL DEFAULT '',
+  is_primary boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_contacts_customer ON customer_contacts (customer_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS customer_addresses (
+  id text PRIMARY KEY,
+  customer_id text NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  label text NOT NULL DEFAULT '',
+  address text NOT NULL,
+  is_default_delivery boolean NOT NULL DEFAULT false,
+  sort_order integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_addresses_customer ON customer_addresses (customer_id, sort_order);
+
+CREATE INDEX IF NOT EXISTS idx_requests_customer ON requests ((data->>'customerId'));
+CREATE INDEX IF NOT EXISTS idx_contract_approvals_customer ON contract_approvals ((data->>'customerId'));
+
+-- Backfill: one account per distinct client name spelling (differences in case and spacing only), taking country,
+-- city, contacts and delivery addresses from the requests that used it. Remaining duplicates are merged by admins
+-- from the customer page.
+CREATE TEMP TABLE customer_backfill ON COMMIT DROP AS
+SELECT
+  r.id AS request_id,
+  r.updated_at,
+  trim(r.data->>'clientName') AS client_name,
+  lower(regexp_replace(trim(r.data->>'clientName'), '\s+', ' ', 'g')) AS normalized_name,
+  CASE WHEN r.data->>'country' = 'other' THEN COALESCE(trim(r.data->>'countryOther'), '') ELSE COALESCE(trim(r.data->>'country'), '') END AS country,
+  COALESCE(trim(r.data->>'city'), '') AS city,
+  COALESCE(trim(r.data->>'clientContact'), '') AS contact,
+  COALESCE(trim(r.data->>'clientAddressDelivery'), '') AS address
+FROM requests r
+WHERE COALESCE(trim(r.data->>'clientName'), '') <> ''
+  AND COALESCE(r.data->>'customerId', '') = '';
+
+INSERT INTO customers (id, name, normalized_name, country, city, created_at, updated_at)
+SELECT DISTINCT ON (normalized_name)
+  'cus-' || md5(normalized_name), client_name, normalized_name, country, city, now(), now()
+FROM customer_backfill
+ORDER BY normalized_name, updated_at DESC
+ON CONFLICT (normalized_name) DO NOTHING;
+
+INSERT INTO customer_contacts (id, customer_id, name, is_primary, sort_order)
+SELECT
+  'cct-' || md5(c.id || '|' || lower(b.contact)),
+  c.id,
+  min(b.contact),
+  false,
+  0
+FROM customer_backfill b
+JOIN customers c ON c.normalized_name = b.normalized_name
+WHERE b.contact <> ''
+GROUP BY c.id, lower(b.contact)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO customer_addresses (id, customer_id, address, is_default_delivery, sort_order)
+SELECT
+  'cad-' || md5(c.id || '|' || lower(b.address)),
+  c.id,
+  min(b.address),
+  false,
+  0
+FROM customer_backfill b
+JOIN customers c ON c.normalized_name = b.normalized_name
+WHERE b.address <> ''
+GROUP BY c.id, lower(b.address)
+ON CONFLICT (id) DO NOTHING;
+
+UPDATE requests r
+SET data = r.data || jsonb_build_object('customerId', c.id)
+FROM customer_backfill b
+JOIN customers c ON c.normalized_name = b.normalized_name
+WHERE r.id = b.request_id;
+
+UPDATE contract_approvals ca
+SET data = ca.data || jsonb_build_object('customerId', c.id)
+FROM customers c
+WHERE COALESCE(ca.data->>'customerId', '') = ''
+  AND c.normalized_name = lower(regexp_replace(trim(ca.data->>'clientName'), '\s+', ' ', 'g'));
@@ -0,0 +1,6 @@
+-- Database-backend content is stored once per SHA-256 in attachment_blobs.data (rows written before this migration keep
+-- their bytes in their own data column). last_referenced_at is refreshed whenever stored content is reused, so pruning
+-- never removes an object a new attachment row is about to point at.
+ALTER TABLE attachment_blobs
+  ADD COLUMN IF NOT EXISTS data bytea NULL,
+  ADD COLUMN IF NOT EXISTS last_referenced_at timestamptz NOT NULL DEFAULT now();
@@ -0,0 +1,169 @@
+// Exchange rates and the reporting currency (Settings > Currencies, /api/admin/exchange-rates).
+// Rates are kept against EUR with effective dates; amounts convert through EUR using the rate in effect on the
+// amount's date. A GM approval freezes the rates of that day on the request (`exchangeRateSnapshot`) so its
+// reported value no longer moves when the table is edited.
+
+export const BASE_CURRENCY = "EUR";
+export const CURRENCIES = Object.freeze(["USD", "EUR", "RMB"]);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RATES = 500;
+
+const toDateKey = (value) => {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? "" : value.toISOString().slice(0, 10);
+  return String(value ?? "").slice(0, 10);
+};
+
+const isValidDateKey = (value) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+};
+
+export const normalizeCurrency = (value) => {
+  const normalized = String(value ?? "").trim().toUpperCase();
+  return CURRENCIES.includes(normalized) ? normalized : "";
+};
+
+// Validates the admin payload. Returns `{ value: { reportingCurrency, rates } }` or `{ error }`.
+export const parseExchangeRateConfigPayload = (body) => {
+  const reportingCurrency = normalizeCurrency(body?.reportingCurrency);
+  if (!reportingCurrency) return { error: "Invalid reporting currency" };
+
+  const entries = Array.isArray(body?.rates) ? body.rates : [];
+  if (entries.length > MAX_RATES) return { error: `At most ${MAX_RATES} exchange rates are allowed` };
+  const rates = [];
+  for (const entry of entries) {
+    const currency = normalizeCurrency(entry?.currency);
+    if (!currency || currency === BASE_CURRENCY) return { error: "Exchange rates can only be set for USD and RMB" };
+    const effectiveFrom = String(entry?.effectiveFrom ?? "").trim();
+    if (!isValidDateKey(effectiveFrom)) return { error: "Exchange rate dates must use YYYY-MM-DD" };
+    const rate = Number(entry?.rate);
+    if (!Number.isFinite(rate) || rate <= 0 || rate > 1e6) return { error: `Invalid exchange rate for ${currency}` };
+    if (rates.some((item) => item.currency === currency && item.effectiveFrom === effectiveFrom)) {
+      return { error: `Duplicate ${currency} rate for ${effectiveFrom}` };
+    }
+    rates.push({ currency, effectiveFrom, rate });
+  }
+  rates.sort((a, b) => a.currency.localeCompare(b.currency) || a.effectiveFrom.localeCompare(b.effectiveFrom));
+  return { value: { reportingCurrency, rates } };
+};
+
+export const getExchangeRateConfig = async (db) => {
+  const [settingsResult, ratesResult] = await Promise.all([
+    db.query("SELECT reporting_currency, updated_at FROM exchange_rate_settings WHERE id = 1"),
+    db.query("SELECT currency, effective_from::text AS effective_from, rate FROM exchange_rates ORDER BY currency, effective_from"),
+  ]);
+  const settings = settingsResult.rows[0] ?? null;
+  return {
+    baseCurrency: BASE_CURRENCY,
+    reportingCurrency: normalizeCurrency(settings?.reporting_currency) || BASE_CURRENCY,
+    updatedAt: settings?.updated_at ?? null,
+    rates: ratesResult.rows.map((row) => ({
+      currency: row.currency,
+      effectiveFrom: toDateKey(row.effective_from),
+      rate: Number(row.rate),
+    })),
+  };
+};
+
+// Replaces the whole table; callers run this inside a transaction.
+export const saveExchangeRateConfig = async (client, { reportingCurrency, rates }, { userId }) => {
+  await client.query(
+    `
+    INSERT INTO exchange_rate_settings (id, reporting_currency, updated_at, updated_by_user_id)
+    VALUES (1, $1, now(), $2)
+    ON CONFLICT (id) DO UPDATE SET
+      reporting_currency = EXCLUDED.reporting_currency,
+      updated_at = now(),
+      updated_by_user_id = EXCLUDED.updated_by_user_id
+    `,
+    [reportingCurrency, userId || null]
+  );
+  await client.query("DELETE FROM exchange_rates");
+  if (rates.length) {
+    await client.query(
+      `
+      INSERT INTO exchange_rates (currency, effective_from, rate)
+      SELECT * FROM unnest($1::text[], $2::date[], $3::numeric[])
+      `,
+      [rates.map((item) => item.currency), rates.map((item) => item.effectiveFrom), rates.map((item) => item.rate)]
+    );
+  }
+};
+
+// Builds a lookup over the configured rates: `rateOn(currency, date)` is the EUR value of one unit on that date
+// (null when no rate is in effect yet) and `convert(amount, from, to, date)` returns null when a rate is missing.
+export const buildRateTable = (config) => {
+  const byCurrency = new Map();
+  for (const entry of config?.rates ?? []) {
+    const list = byCurrency.get(entry.currency) ?? [];
+    list.push(entry);
+    byCurrency.set(entry.currency, list);
+  }
+  for (const list of byCurrency.values()) list.sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+  const rateOn = (currency, date) => {
+    if (currency === BASE_CURRENCY) return 1;
+    const dateKey = toDateKey(date);
+    let rate = null;
+    for (const entry of byCurrency.get(currency) ?? []) {
+      if (entry.effectiveFrom > dateKey) break;
+      rate = entry.rate;
+    }
+    return rate;
+  };
+
+  const convert = (amount, from, to, date) => {
+    const source = normalizeCurrency(from);
+    const target = normalizeCurrency(to);
+    if (!Number.isFinite(amount) || !source || !target) return null;
+    if (source === target) return amount;
+    const sourceRate = rateOn(source, date);
+    const targetRate = rateOn(target, date);
+    if (sourceRate === null || targetRate === null) return null;
+    return (amount * sourceRate) / targetRate;
+  };
+
+  return { rateOn, convert };
+};
+
+// Rates of `date` for every currency that has one, frozen onto a request at GM approval.
+export const buildExchangeRateSnapshot = (table, date, frozenAt) => {
+  const rates = {};
+  for (const currency of CURRENCIES) {
+    const rate = table.rateOn(currency, date);
+    if (rate !== null) rates[currency] = rate;
+  }
+  return { baseCurrency: BASE_CURRENCY, date: toDateKey(date), rates, frozenAt };
+};
+
+// The negotiated sales price when there is one, else the costing selling price.
+export const resolveRequestFinalPrice = (data) => {
+  const sales = Number(data?.salesFinalPrice);
+  if (data?.salesFinalPrice !== null && data?.salesFinalPrice !== "" && Number.isFinite(sales) && sales > 0) {
+    return { amount: sales, currency: normalizeCurrency(data?.salesCurrency) || BASE_CURRENCY, source: "sales" };
+  }
+  const costing = Number(data?.sellingPrice);
+  if (data?.sellingPrice !== null && data?.sellingPrice !== "" && Number.isFinite(costing) && costing > 0) {
+    return { amount: costing, currency: normalizeCurrency(data?.sellingCurrency) || BASE_CURRENCY, source: "costing" };
+  }
+  return null;
+};
+
+// Converts a request's final price into `target`: frozen rates when the request carries a snapshot, otherwise
+// the table rate on `date`. Returns `{ amount, currency, rate, frozen }` (rate = target units per source unit)
+// or null when there is no price or no rate.
+export const convertRequestFinalPrice = (table, data, target, date) => {
+  const price = resolveRequestFinalPrice(data);
+  if (!price) return null;
+  const snapshot = data?.exchangeRateSnapshot;
+  const snapshotRates = snapshot && typeof snapshot.rates === "object" ? snapshot.rates : null;
+  if (snapshotRates && (price.currency === target || (snapshotRates[price.currency] && snapshotRates[target]))) {
+    const rate = price.currency === target ? 1 : snapshotRates[price.currency] / snapshotRates[target];
+    return { amount: price.amount * rate, currency: target, rate, frozen: true };
+  }
+  const converted = table.convert(price.amount, price.currency, target, date);
+  if (converted === null) return null;
+  return { amount: converted, currency: target, rate: converted / price.amount, frozen: false };
+};
@@ -3,12 +3,14 @@ import path from "node:path";
 import fs from "node:fs";
 import { fileURLToPath } from "node:url";
 import dotenv from "dotenv";
-import { apiRouter } from "./api.js";
+import { apiRouter, enqueueSlaEscalationNotifications } from "./api.js";
 import { pingDb } from "./db.js";
 import { startNotificationsWorker } from "./notificationsWorker.js";
 import { startDbMonitor } from "./dbMonitor.js";
 import { startDbBackupScheduler } from "./dbBackup.js";
 import { startStatusIntegrityMonitor } from "./statusIntegrityMonitor.js";
+import { startSlaMonitor } from "./slaMonitor.js";
+import { startAttachmentStorageMonitor } from "./attachmentStorageMonitor.js";
 
 dotenv.config();
 
@@ -134,6 +136,27 @@ connectWithRetry()
     } catch (e) {
       console.error("Failed to start status integrity monitor:", e);
     }
+
+    try {
+      startSlaMonitor({
+        intervalMs: process.env.SLA_MONITOR_INTERVAL_MS
+          ? Number.parseInt(process.env.SLA_MONITOR_INTERVAL_MS, 10)
+          : undefined,
+        onEscalation: enqueueSlaEscalationNotifications,
+      });
+    } catch (e) {
+      console.error("Failed to start SLA monitor:", e);
+    }
+
+    try {
+      startAttachmentStorageMonitor({
+        intervalMs: process.env.ATTACHMENT_PRUNE_INTERVAL_MS
+          ? Number.parseInt(process.env.ATTACHMENT_PRUNE_INTERVAL_MS, 10)
+          : undefined,
+      });
+    } catch (e) {
+      console.error("Failed to start attachment storage monitor:", e);
+    }
   })
   .catch((error) => {
     console.error("Database connection failed (giving up):", error);
@@ -0,0 +1,287 @@
+// Client offer templates and clause library (GET /api/offer-templates, /api/admin/offer-templates,
+// /api/admin/offer-clauses). Admins maintain named templates per market or language; Sales pick one in the Client
+// Offer sheet, which copies the template's texts, sections, columns and clauses into the request's offer config.
+// Texts may hold {{placeholders}}; they are stored as typed and resolved when the PDF is generated
+// (src/lib/offerTemplates.ts).
+
+import { randomUUID } from "node:crypto";
+
+export const OFFER_TEMPLATE_LANGUAGES = Object.freeze(["en", "fr", "zh"]);
+export const OFFER_CLAUSE_CATEGORIES = Object.freeze(["general", "commercial", "delivery", "warranty", "legal"]);
+export const OFFER_LINE_COLUMNS = Object.freeze([
+  "item",
+  "description",
+  "specification",
+  "quantity",
+  "unitPrice",
+  "lineTotal",
+  "remark",
+]);
+const OFFER_SECTION_KEYS = Object.freeze(["general", "lineItems", "commercialTerms", "deliveryTerms", "clauses", "appendix"]);
+
+const NAME_MAX_LENGTH = 120;
+const TEXT_MAX_LENGTH = 8000;
+const MAX_TEMPLATE_CLAUSES = 60;
+const MAX_OFFER_CLAUSES = 60;
+
+const CLAUSE_COLUMNS = "id, title, body, category, language, updated_at, updated_by_name";
+const TEMPLATE_COLUMNS = `
+  id, name, description, market, countries, language, intro_text, closing_text, section_visibility, line_columns,
+  clause_ids, updated_at, updated_by_name
+`;
+
+const toText = (value) => String(value ?? "").trim();
+
+// Multi-line text keeps its line breaks; only the outer whitespace is trimmed.
+const toLongText = (value) => String(value ?? "").replace(/\r\n/g, "\n").trim();
+
+const toIso = (value) => (value instanceof Date ? value.toISOString() : value ? String(value) : null);
+
+const toJsonArray = (value) => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+};
+
+const toJsonObject = (value) => {
+  if (value && typeof value === "object" && !Array.isArray(value)) return value;
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+  return {};
+};
+
+const toLanguage = (value) => (OFFER_TEMPLATE_LANGUAGES.includes(toText(value)) ? toText(value) : null);
+
+const toUniqueList = (value, { allowed = null, max = 100 } = {}) => {
+  const out = [];
+  for (const item of Array.isArray(value) ? value : []) {
+    const text = toText(item);
+    if (!text || text.length > 120 || out.includes(text)) continue;
+    if (allowed && !allowed.includes(text)) continue;
+    out.push(text);
+    if (out.length >= max) break;
+  }
+  return out;
+};
+
+// Every section is shown unless explicitly turned off.
+export const normalizeOfferSectionVisibility = (raw) => {
+  const source = toJsonObject(raw);
+  return Object.fromEntries(OFFER_SECTION_KEYS.map((key) => [key, source[key] !== false]));
+};
+
+// Columns in display order; an empty selection means "all columns".
+export const normalizeOfferLineColumns = (raw) => {
+  const selected = toUniqueList(toJsonArray(raw), { allowed: OFFER_LINE_COLUMNS });
+  return OFFER_LINE_COLUMNS.filter((column) => selected.includes(column));
+};
+
+export const mapOfferClauseRow = (row) => ({
+  id: row.id,
+  title: row.title,
+  body: row.body,
+  category: OFFER_CLAUSE_CATEGORIES.includes(row.category) ? row.category : "general",
+  language: toLanguage(row.language),
+  updatedAt: toIso(row.updated_at),
+  updatedByName: row.updated_by_name ?? "",
+});
+
+export const mapOfferTemplateRow = (row) => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? "",
+  market: row.market ?? "",
+  countries: toUniqueList(toJsonArray(row.countries)),
+  language: toLanguage(row.language),
+  introText: row.intro_text ?? "",
+  closingText: row.closing_text ?? "",
+  sectionVisibility: normalizeOfferSectionVisibility(row.section_visibility),
+  lineColumns: normalizeOfferLineColumns(row.line_columns),
+  clauseIds: toUniqueList(toJsonArray(row.clause_ids), { max: MAX_TEMPLATE_CLAUSES }),
+  updatedAt: toIso(row.updated_at),
+  updatedByName: row.updated_by_name ?? "",
+});
+
+// Validates a clause from the admin editor. Returns `{ value }` or `{ error }`.
+export const parseOfferClausePayload = (body) => {
+  const title = toText(body?.title);
+  if (!title) return { error: "Clause title is required" };
+  if (title.length > NAME_MAX_LENGTH) return { error: `Clause title must be at most ${NAME_MAX_LENGTH} characters` };
+  const text = toLongText(body?.body);
+  if (!text) return { error: "Clause text is required" };
+  if (text.length > TEXT_MAX_LENGTH) return { error: `Clause text must be at most ${TEXT_MAX_LENGTH} characters` };
+  const category = toText(body?.category) || "general";
+  if (!OFFER_CLAUSE_CATEGORIES.includes(category)) return { error: "Unknown clause category" };
+  return { value: { title, body: text, category, language: toLanguage(body?.language) } };
+};
+
+// Validates a template from the admin editor. Returns `{ value }` or `{ error }`; clause ids are checked by the caller.
+export const parseOfferTemplatePayload = (body) => {
+  const name = toText(body?.name);
+  if (!name) return { error: "Template name is required" };
+  if (name.length > NAME_MAX_LENGTH) return { error: `Template name must be at most ${NAME_MAX_LENGTH} characters` };
+  const introText = toLongText(body?.introText);
+  const closingText = toLongText(body?.closingText);
+  if (introText.length > TEXT_MAX_LENGTH || closingText.length > TEXT_MAX_LENGTH) {
+    return { error: `Template texts must be at most ${TEXT_MAX_LENGTH} characters` };
+  }
+  const lineColumns = normalizeOfferLineColumns(body?.lineColumns);
+  if (lineColumns.length && !lineColumns.includes("description")) {
+    return { error: "The line item columns must include the description" };
+  }
+  return {
+    value: {
+      name,
+      description: toText(body?.description).slice(0, 500),
+      market: toText(body?.market).slice(0, NAME_MAX_LENGTH),
+      countries: toUniqueList(body?.countries),
+      language: toLanguage(body?.language),
+      introText,
+      closingText,
+      sectionVisibility: normalizeOfferSectionVisibility(body?.sectionVisibility),
+      lineColumns,
+      clauseIds: toUniqueList(body?.clauseIds, { max: MAX_TEMPLATE_CLAUSES }),
+    },
+  };
+};
+
+// Template fields of a request's client offer config (see normalizeClientOfferConfig in api.js).
+export const normalizeOfferConfigTemplateFields = (raw) => {
+  const clauses = [];
+  for (const clause of Array.isArray(raw?.clauses) ? raw.clauses : []) {
+    const title = toText(clause?.title).slice(0, NAME_MAX_LENGTH);
+    const body = toLongText(clause?.body).slice(0, TEXT_MAX_LENGTH);
+    if (!title && !body) continue;
+    clauses.push({ id: toText(clause?.id) || randomUUID(), title, body });
+    if (clauses.length >= MAX_OFFER_CLAUSES) break;
+  }
+  return {
+    templateId: toText(raw?.templateId) || null,
+    templateName: toText(raw?.templateName).slice(0, NAME_MAX_LENGTH),
+    closingText: typeof raw?.closingText === "string" ? raw.closingText.slice(0, TEXT_MAX_LENGTH) : "",
+    lineColumns: normalizeOfferLineColumns(raw?.lineColumns),
+    clauses,
+  };
+};
+
+export const listOfferClauses = async (db) => {
+  const { rows } = await db.query(`SELECT ${CLAUSE_COLUMNS} FROM offer_clauses ORDER BY category, lower(title)`);
+  return rows.map(mapOfferClauseRow);
+};
+
+export const listOfferTemplates = async (db) => {
+  const { rows } = await db.query(`SELECT ${TEMPLATE_COLUMNS} FROM offer_templates ORDER BY lower(name)`);
+  return rows.map(mapOfferTemplateRow);
+};
+
+// Clause ids of a template payload that are not in the library.
+export const findMissingOfferClauseIds = async (db, clauseIds) => {
+  if (!clauseIds.length) return [];
+  const { rows } = await db.query("SELECT id FROM offer_clauses WHERE id = ANY($1::text[])", [clauseIds]);
+  const known = new Set(rows.map((row) => row.id));
+  return clauseIds.filter((id) => !known.has(id));
+};
+
+// Creates the clause when `clauseId` is null; returns null when the clause to update does not exist.
+export const saveOfferClause = async (db, clauseId, value, actor) => {
+  const params = [value.title, value.body, value.category, value.language, actor?.id ?? null, actor?.name ?? null];
+  const { rows } = clauseId
+    ? await db.query(
+        `
+        UPDATE offer_clauses
+        SET title = $2, body = $3, category = $4, language = $5, updated_at = now(), updated_by = $6, updated_by_name = $7
+        WHERE id = $1
+        RETURNING ${CLAUSE_COLUMNS}
+        `,
+        [clauseId, ...params]
+      )
+    : await db.query(
+        `
+        INSERT INTO offer_clauses (id, title, body, category, language, updated_by, updated_by_name)
+        VALUES ($1,$2,$3,$4,$5,$6,$7)
+        RETURNING ${CLAUSE_COLUMNS}
+        `,
+        [randomUUID(), ...params]
+      );
+  return rows[0] ? mapOfferClauseRow(rows[0]) : null;
+};
+
+// Also drops the clause from the templates that listed it. Returns false when the clause does not exist.
+export const deleteOfferClause = async (client, clauseId) => {
+  const { rowCount } = await client.query("DELETE FROM offer_clauses WHERE id = $1", [clauseId]);
+  if (!rowCount) return false;
+  await client.query(
+    "UPDATE offer_templates SET clause_ids = clause_ids - $1::text WHERE clause_ids ? $1::text",
+    [clauseId]
+  );
+  return true;
+};
+
+// Creates the template when `templateId` is null; returns null when the template to update does not exist.
+export const saveOfferTemplate = async (db, templateId, value, actor) => {
+  const params = [
+    value.name,
+    value.description,
+    value.market,
+    JSON.stringify(value.countries),
+    value.language,
+    value.introText,
+    value.closingText,
+    JSON.stringify(value.sectionVisibility),
+    JSON.stringify(value.lineColumns),
+    JSON.stringify(value.clauseIds),
+    actor?.id ?? null,
+    actor?.name ?? null,
+  ];
+  const { rows } = templateId
+    ? await db.query(
+        `
+        UPDATE offer_templates
+        SET name = $2,
+            description = $3,
+            market = $4,
+            countries = $5::jsonb,
+            language = $6,
+            intro_text = $7,
+            closing_text = $8,
+            section_visibility = $9::jsonb,
+            line_columns = $10::jsonb,
+            clause_ids = $11::jsonb,
+            updated_at = now(),
+            updated_by = $12,
+            updated_by_name = $13
+        WHERE id = $1
+        RETURNING ${TEMPLATE_COLUMNS}
+        `,
+        [templateId, ...params]
+      )
+    : await db.query(
+        `
+        INSERT INTO offer_templates
+          (id, name, description, market, countries, language, intro_text, closing_text, section_visibility,
+           line_columns, clause_ids, updated_by, updated_by_name)
+        VALUES ($1,$2,$3,$4,$5::jsonb,$6,$7,$8,$9::jsonb,$10::jsonb,$11::jsonb,$12,$13)
+        RETURNING ${TEMPLATE_COLUMNS}
+        `,
+        [randomUUID(), ...params]
+      );
+  return rows[0] ? mapOfferTemplateRow(rows[0]) : null;
+};
+
+export const deleteOfferTemplate = async (db, templateId) => {
+  const { rowCount } = await db.query("DELETE FROM offer_templates WHERE id = $1", [templateId]);
+  return rowCount > 0;
+};
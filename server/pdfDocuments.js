@@ -0,0 +1,138 @@
+// Server-side rendering of the request report and the client offer PDF, for GET /api/requests/:id/pdf and
+// GET /api/requests/:id/client-offer.pdf. Mail notifications do not attach these documents yet; attaching them to
+// the m365 sendMail payload (notificationsWorker.js) is follow-up work.
+// The documents come from the same generators as the browser downloads (src/utils/pdfExport.ts,
+// src/utils/clientOfferPdf.ts), bundled for Node by `vite build --config vite.pdf.config.ts` into
+// dist-ssr/pdfDocuments.js.
+// Node has no canvas: PNG and JPEG images are embedded as they are, other image formats and PDF attachment pages
+// are listed without a preview.
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const RENDERER_PATH = path.join(ROOT_DIR, "dist-ssr", "pdfDocuments.js");
+// The built app first, then the sources (local development).
+const ASSET_DIRS = [path.join(ROOT_DIR, "dist"), path.join(ROOT_DIR, "public")];
+const PDF_LANGUAGES = new Set(["en", "fr", "zh"]);
+const ATTACHMENT_URL_PATTERN = /^\/api\/attachments\/([^/?#]+)$/;
+
+let rendererPromise = null;
+
+// Returns the bundled generators, or null when the bundle has not been built on this server.
+const loadRenderer = () => {
+  if (!rendererPromise) {
+    rendererPromise = import(pathToFileURL(RENDERER_PATH).href).catch((error) => {
+      console.error(`PDF renderer is not available (${RENDERER_PATH}):`, error?.message ?? error);
+      rendererPromise = null;
+      return null;
+    });
+  }
+  return rendererPromise;
+};
+
+// `?language=` of the PDF routes. Returns `{ value }` or `{ error }`; defaults to English.
+export const parsePdfLanguage = (raw) => {
+  const value = String(raw ?? "").trim().toLowerCase();
+  if (!value) return { value: "en" };
+  if (!PDF_LANGUAGES.has(value)) return { error: "Invalid language (expected en, fr or zh)" };
+  return { value };
+};
+
+// Pixel size of a PNG or JPEG, or null for any other format.
+const readImageSize = (bytes) => {
+  const data = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47 && data.readUInt32BE(4) === 0x0d0a1a0a) {
+    return { mime: "image/png", width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length && data[offset] === 0xff) {
+      const marker = data[offset + 1];
+      // SOF0..SOF15, except DHT (C4), JPG (C8) and DAC (CC), carry the frame size.
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { mime: "image/jpeg", width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return null;
+};
+
+const readAsset = async (assetPath) => {
+  for (const dir of ASSET_DIRS) {
+    // Normalizing against "/" keeps the path inside the asset directory.
+    const filePath = path.join(dir, path.posix.normalize(`/${String(assetPath ?? "")}`));
+    try {
+      return new Uint8Array(await fs.readFile(filePath));
+    } catch {}
+  }
+  return null;
+};
+
+const decodeImageDataUrl = (dataUrl) => {
+  const match = String(dataUrl ?? "").match(/^data:[^,]*;base64,(.*)$/s);
+  return match ? new Uint8Array(Buffer.from(match[1], "base64")) : null;
+};
+
+// `loadAttachment(id)` returns `{ contentType, data }` for an attachment of the rendered request, or null.
+const createNodePdfPlatform = ({ loadAttachment }) => ({
+  defaultLanguage: () => "en",
+  readAsset,
+  loadImage: async (assetPath) => {
+    const bytes = await readAsset(assetPath);
+    const size = bytes ? readImageSize(bytes) : null;
+    if (!size) throw new Error(`Image not available: ${assetPath}`);
+    return {
+      dataUrl: `data:${size.mime};base64,${Buffer.from(bytes).toString("base64")}`,
+      width: size.width,
+      height: size.height,
+    };
+  },
+  measureImage: async (dataUrl) => {
+    const bytes = decodeImageDataUrl(dataUrl);
+    const size = bytes ? readImageSize(bytes) : null;
+    if (!size) throw new Error("Unsupported image format");
+    return { width: size.width, height: size.height };
+  },
+  renderPdfPages: async () => [],
+  fetchAttachment: async (url) => {
+    const match = String(url ?? "").match(ATTACHMENT_URL_PATTERN);
+    const attachment = match ? await loadAttachment(decodeURIComponent(match[1])) : null;
+    if (!attachment?.data) return { status: 404, contentType: "", bytes: null };
+    return {
+      status: 200,
+      contentType: String(attachment.contentType ?? "").toLowerCase(),
+      bytes: new Uint8Array(attachment.data),
+    };
+  },
+});
+
+const outputOptions = (loadAttachment) => ({
+  platform: createNodePdfPlatform({ loadAttachment }),
+  download: false,
+  keepBytes: true,
+});
+
+// Request report. Returns `{ filename, data }` (data is a Buffer), or null when the renderer is not built.
+export const renderRequestPdf = async (request, { language, loadAttachment }) => {
+  const renderer = await loadRenderer();
+  if (!renderer) return null;
+  const { filename, bytes } = await renderer.generateRequestPDF(request, language, outputOptions(loadAttachment));
+  return { filename, data: Buffer.from(bytes) };
+};
+
+// Client offer from the request's saved offer configuration and the composed offer profile.
+export const renderClientOfferPdf = async (request, profile, { language, loadAttachment }) => {
+  const renderer = await loadRenderer();
+  if (!renderer) return null;
+  const { filename, bytes } = await renderer.generateClientOfferPDF(
+    request,
+    request?.clientOfferConfig,
+    profile,
+    language,
+    outputOptions(loadAttachment)
+  );
+  return { filename, data: Buffer.from(bytes) };
+};
@@ -0,0 +1,147 @@
+// Role assignments and permissions (Settings > Users, /api/admin/users).
+// Every user keeps one primary role (app_users.role) that picks their dashboard and request panels, and may
+// hold extra roles (app_user_roles). Effective permissions are the defaults of every held role plus the
+// permissions granted to the user directly (app_user_permissions). Grants only add: revoking a role default
+// means removing the role.
+
+export const USER_ROLES = Object.freeze(["sales", "design", "costing", "admin", "finance", "cashier"]);
+
+export const PERMISSIONS = Object.freeze([
+  "manage_settings",
+  "view_costing_margin",
+  "approve_gm",
+  "delete_requests",
+]);
+
+export const ROLE_PERMISSIONS = Object.freeze({
+  sales: ["view_costing_margin"],
+  design: [],
+  costing: ["view_costing_margin"],
+  admin: ["manage_settings", "view_costing_margin", "approve_gm", "delete_requests"],
+  finance: [],
+  cashier: [],
+});
+
+// Request fields only returned to (and accepted from) users who may view costing margins.
+export const MARGIN_FIELDS = Object.freeze(["calculatedMargin", "salesMargin"]);
+// Per-product price lines ({ productIndex, unitPrice, currency, margin }); only their `margin` is restricted.
+export const PRODUCT_PRICE_FIELDS = Object.freeze(["costingProductPrices", "salesProductPrices"]);
+
+const toList = (value, allowed) => {
+  if (!Array.isArray(value)) return [];
+  const out = [];
+  for (const item of value) {
+    const normalized = String(item ?? "").trim().toLowerCase();
+    if (allowed.includes(normalized) && !out.includes(normalized)) out.push(normalized);
+  }
+  return out;
+};
+
+// Builds the access fields exposed on a user: `roles` includes the primary role first.
+export const resolveUserAccess = ({ role, extraRoles, grantedPermissions }) => {
+  const primary = String(role ?? "").trim().toLowerCase();
+  const roles = toList([primary, ...(extraRoles ?? [])], USER_ROLES);
+  const granted = toList(grantedPermissions, PERMISSIONS);
+  const permissions = PERMISSIONS.filter(
+    (permission) => granted.includes(permission) || roles.some((item) => ROLE_PERMISSIONS[item].includes(permission))
+  );
+  return { roles, grantedPermissions: granted, permissions };
+};
+
+// Returns Map<userId, { extraRoles, grantedPermissions }> for the given users.
+export const loadUserAccessRows = async (db, userIds) => {
+  const ids = Array.from(new Set((userIds ?? []).map((id) => String(id ?? "").trim()).filter(Boolean)));
+  if (!ids.length) return new Map();
+  const { rows } = await db.query(
+    `
+    SELECT u.id,
+           ARRAY(SELECT r.role FROM app_user_roles r WHERE r.user_id = u.id ORDER BY r.role) AS extra_roles,
+           ARRAY(SELECT p.permission FROM app_user_permissions p WHERE p.user_id = u.id ORDER BY p.permission)
+             AS granted_permissions
+      FROM unnest($1::text[]) AS u(id)
+    `,
+    [ids]
+  );
+  return new Map(
+    rows.map((row) => [row.id, { extraRoles: row.extra_roles ?? [], grantedPermissions: row.granted_permissions ?? [] }])
+  );
+};
+
+// Adds `roles`, `grantedPermissions` and `permissions` to serialized users.
+export const withUserAccess = async (db, users) => {
+  const access = await loadUserAccessRows(db, users.map((user) => user?.id));
+  return users.map((user) => ({
+    ...user,
+    ...resolveUserAccess({ role: user.role, ...access.get(String(user?.id ?? "").trim()) }),
+  }));
+};
+
+export const hasRole = (user, role) => {
+  const roles = Array.isArray(user?.roles) ? user.roles : [user?.role];
+  return roles.includes(role);
+};
+
+export const hasPermission = (user, permission) =>
+  Array.isArray(user?.permissions) ? user.permissions.includes(permission) : false;
+
+// Validates the optional access part of an admin user payload. Returns `{ value }` (null when the
+// payload carries no access fields, so callers leave access untouched) or `{ error }`.
+export const parseUserAccessPayload = (body) => {
+  const hasRoles = Object.prototype.hasOwnProperty.call(body ?? {}, "roles");
+  const hasGrants = Object.prototype.hasOwnProperty.call(body ?? {}, "grantedPermissions");
+  if (!hasRoles && !hasGrants) return { value: null };
+  if ((hasRoles && !Array.isArray(body.roles)) || (hasGrants && !Array.isArray(body.grantedPermissions))) {
+    return { error: "Invalid roles or permissions" };
+  }
+  const unknownRole = (body.roles ?? []).find((role) => !USER_ROLES.includes(String(role ?? "").trim().toLowerCase()));
+  if (unknownRole !== undefined) return { error: `Unknown role: ${String(unknownRole)}` };
+  const unknownPermission = (body.grantedPermissions ?? []).find(
+    (permission) => !PERMISSIONS.includes(String(permission ?? "").trim().toLowerCase())
+  );
+  if (unknownPermission !== undefined) return { error: `Unknown permission: ${String(unknownPermission)}` };
+  return {
+    value: {
+      roles: toList(body.roles, USER_ROLES),
+      grantedPermissions: toList(body.grantedPermissions, PERMISSIONS),
+    },
+  };
+};
+
+// Replaces a user's extra roles and grants; the primary role is never stored as an extra role.
+export const saveUserAccess = async (client, userId, primaryRole, { roles, grantedPermissions }) => {
+  const extraRoles = roles.filter((role) => role !== primaryRole);
+  await client.query("DELETE FROM app_user_roles WHERE user_id = $1", [userId]);
+  if (extraRoles.length) {
+    await client.query(
+      "INSERT INTO app_user_roles (user_id, role) SELECT $1, unnest($2::text[])",
+      [userId, extraRoles]
+    );
+  }
+  await client.query("DELETE FROM app_user_permissions WHERE user_id = $1", [userId]);
+  if (grantedPermissions.length) {
+    await client.query(
+      "INSERT INTO app_user_permissions (user_id, permission) SELECT $1, unnest($2::text[])",
+      [userId, grantedPermissions]
+    );
+  }
+};
+
+const isMarginPath = (path) => {
+  const parts = String(path ?? "").split(".");
+  if (MARGIN_FIELDS.includes(parts[0])) return true;
+  return PRODUCT_PRICE_FIELDS.includes(parts[0]) && (parts.length < 3 || parts[2] === "margin");
+};
+
+export const redactRequestForUser = (request, user) => {
+  if (!request || hasPermission(user, "view_costing_margin")) return request;
+  const redacted = { ...request };
+  for (const field of MARGIN_FIELDS) delete redacted[field];
+  for (const field of PRODUCT_PRICE_FIELDS) {
+    if (!Array.isArray(redacted[field])) continue;
+    redacted[field] = redacted[field].map(({ margin: _margin, ...line }) => line);
+  }
+  return redacted;
+};
+
+export const redactRequestChangesForUser = (changes, user) =>
+  hasPermission(user, "view_costing_margin") ? changes : changes.filter((change) => !isMarginPath(change?.fieldPath));
@@ -0,0 +1,411 @@
+// Pricing catalog behind the Price List page: reference products (part number + configuration) and their
+// versioned prices. A price version covers one currency over [effectiveFrom, effectiveTo] (inclusive, open when
+// effectiveTo is null) with optional quantity breaks. Adding a version closes the open version it supersedes;
+// versions are never edited in place except through an XLSX re-import of the same (currency, effectiveFrom).
+
+import { randomUUID } from "node:crypto";
+import { hasPermission } from "./permissions.js";
+
+export const PRICE_CURRENCIES = Object.freeze(["USD", "EUR", "RMB"]);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_PRICE = 1e11;
+const MAX_QUANTITY_BREAKS = 20;
+const MAX_IMPORT_ROWS = 5000;
+
+const PRODUCT_COLUMNS =
+  "id, part_number, configuration_type, articulation_type, brake_type, brake_size, studs_pcd_standards, created_at, updated_at";
+const PRICE_COLUMNS = `
+  id, product_id, currency, base_price, cost,
+  to_char(effective_from, 'YYYY-MM-DD') AS effective_from,
+  to_char(effective_to, 'YYYY-MM-DD') AS effective_to,
+  quantity_breaks, note, created_by, created_by_name, created_at, updated_at
+`;
+
+const toText = (value) => String(value ?? "").trim();
+
+const toNumberOrNull = (value) => {
+  if (value === null || value === undefined || toText(value) === "") return null;
+  const number = typeof value === "number" ? value : Number.parseFloat(toText(value));
+  return Number.isFinite(number) ? number : Number.NaN;
+};
+
+const roundMoney = (value) => Math.round(value * 100) / 100;
+
+const isValidDateKey = (value) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+};
+
+const shiftDateKey = (value, days) => {
+  const parsed = new Date(`${value}T00:00:00Z`);
+  parsed.setUTCDate(parsed.getUTCDate() + days);
+  return parsed.toISOString().slice(0, 10);
+};
+
+const parseJsonArray = (value) => {
+  if (!value) return [];
+  try {
+    const parsed = typeof value === "string" ? JSON.parse(value) : value;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+export const mapReferenceProductRow = (row) => ({
+  id: row.id,
+  partNumber: row.part_number ?? "",
+  configurationType: row.configuration_type ?? "",
+  articulationType: row.articulation_type ?? "",
+  brakeType: row.brake_type ?? "",
+  brakeSize: row.brake_size ?? "",
+  studsPcdStandards: parseJsonArray(row.studs_pcd_standards),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const mapPriceEntryRow = (row) => ({
+  id: row.id,
+  productId: row.product_id,
+  currency: row.currency,
+  basePrice: Number(row.base_price),
+  cost: row.cost === null || row.cost === undefined ? null : Number(row.cost),
+  effectiveFrom: row.effective_from,
+  effectiveTo: row.effective_to ?? null,
+  quantityBreaks: parseJsonArray(row.quantity_breaks),
+  note: row.note ?? "",
+  createdBy: row.created_by ?? null,
+  createdByName: row.created_by_name ?? "",
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+// Cost is margin data: only users who may view costing margins get it.
+export const redactPriceEntryForUser = (entry, user) => {
+  if (hasPermission(user, "view_costing_margin")) return entry;
+  const { cost: _cost, ...rest } = entry;
+  return rest;
+};
+
+// Validates a reference product payload. Returns `{ value }` or `{ error }`.
+export const parseReferenceProductPayload = (body) => {
+  if (!body || typeof body !== "object") return { error: "Invalid JSON body" };
+  const studs = Array.isArray(body.studsPcdStandards) ? body.studsPcdStandards.map(toText).filter(Boolean) : [];
+  return {
+    value: {
+      partNumber: toText(body.partNumber),
+      configurationType: toText(body.configurationType),
+      articulationType: toText(body.articulationType),
+      brakeType: toText(body.brakeType),
+      brakeSize: toText(body.brakeSize),
+      studsPcdStandards: Array.from(new Set(studs)),
+    },
+  };
+};
+
+const parseQuantityBreaks = (value) => {
+  if (value === null || value === undefined) return { value: [] };
+  if (!Array.isArray(value)) return { error: "Quantity breaks must be a list" };
+  if (value.length > MAX_QUANTITY_BREAKS) return { error: `At most ${MAX_QUANTITY_BREAKS} quantity breaks are allowed` };
+  const breaks = [];
+  for (const item of value) {
+    const minQuantity = Number(item?.minQuantity);
+    const unitPrice = toNumberOrNull(item?.unitPrice);
+    if (!Number.isInteger(minQuantity) || minQuantity < 2) {
+      return { error: "Quantity break minimum must be a whole number of at least 2" };
+    }
+    if (unitPrice === null || Number.isNaN(unitPrice) || unitPrice < 0 || unitPrice > MAX_PRICE) {
+      return { error: "Quantity break unit price must be a positive amount" };
+    }
+    if (breaks.some((existing) => existing.minQuantity === minQuantity)) {
+      return { error: `Duplicate quantity break for ${minQuantity}` };
+    }
+    breaks.push({ minQuantity, unitPrice: roundMoney(unitPrice) });
+  }
+  breaks.sort((a, b) => a.minQuantity - b.minQuantity);
+  return { value: breaks };
+};
+
+// Validates a price version payload. Returns `{ value }` or `{ error }`.
+export const parsePriceEntryPayload = (body) => {
+  if (!body || typeof body !== "object") return { error: "Invalid JSON body" };
+  const currency = toText(body.currency).toUpperCase();
+  if (!PRICE_CURRENCIES.includes(currency)) return { error: "Currency must be one of USD, EUR or RMB" };
+
+  const basePrice = toNumberOrNull(body.basePrice);
+  if (basePrice === null || Number.isNaN(basePrice) || basePrice < 0 || basePrice > MAX_PRICE) {
+    return { error: "Base price must be a positive amount" };
+  }
+  const cost = toNumberOrNull(body.cost);
+  if (Number.isNaN(cost) || (cost !== null && (cost < 0 || cost > MAX_PRICE))) {
+    return { error: "Cost must be a positive amount" };
+  }
+
+  const effectiveFrom = toText(body.effectiveFrom).slice(0, 10);
+  if (!isValidDateKey(effectiveFrom)) return { error: "Effective from must be a date (YYYY-MM-DD)" };
+  const effectiveTo = toText(body.effectiveTo).slice(0, 10) || null;
+  if (effectiveTo !== null && !isValidDateKey(effectiveTo)) return { error: "Effective to must be a date (YYYY-MM-DD)" };
+  if (effectiveTo !== null && effectiveTo < effectiveFrom) return { error: "Effective to cannot be before effective from" };
+
+  const breaks = parseQuantityBreaks(body.quantityBreaks);
+  if (breaks.error) return { error: breaks.error };
+
+  return {
+    value: {
+      currency,
+      basePrice: roundMoney(basePrice),
+      cost: cost === null ? null : roundMoney(cost),
+      effectiveFrom,
+      effectiveTo,
+      quantityBreaks: breaks.value,
+      note: toText(body.note).slice(0, 500),
+    },
+  };
+};
+
+export const listReferenceProducts = async (db) => {
+  const { rows } = await db.query(`SELECT ${PRODUCT_COLUMNS} FROM reference_products ORDER BY updated_at DESC`);
+  return rows.map(mapReferenceProductRow);
+};
+
+// Price versions, newest first per product and currency. `productId` narrows to one product.
+export const listPriceEntries = async (db, productId = null) => {
+  const { rows } = await db.query(
+    `
+    SELECT ${PRICE_COLUMNS}
+      FROM reference_product_prices
+     WHERE ($1::text IS NULL OR product_id = $1)
+     ORDER BY product_id, currency, effective_from DESC
+    `,
+    [productId]
+  );
+  return rows.map(mapPriceEntryRow);
+};
+
+// Picks the version in effect on `dateKey` for each currency.
+export const selectCurrentPrices = (entries, dateKey) => {
+  const current = new Map();
+  for (const entry of entries) {
+    if (entry.effectiveFrom > dateKey) continue;
+    if (entry.effectiveTo && entry.effectiveTo < dateKey) continue;
+    const existing = current.get(entry.currency);
+    if (!existing || existing.effectiveFrom < entry.effectiveFrom) current.set(entry.currency, entry);
+  }
+  return PRICE_CURRENCIES.map((currency) => current.get(currency)).filter(Boolean);
+};
+
+export const todayDateKey = () => new Date().toISOString().slice(0, 10);
+
+// Adds a version, or replaces the one starting the same day in the same currency. An earlier open-ended
+// version in that currency is closed the day before the new one starts.
+// Returns `{ entry, created }`.
+export const savePriceEntry = async (client, productId, value, actor) => {
+  const nowIso = new Date().toISOString();
+  // A back-dated open-ended version stops where the next existing version starts.
+  const { rows: nextRows } = await client.query(
+    `
+    SELECT to_char(MIN(effective_from), 'YYYY-MM-DD') AS next_from
+      FROM reference_product_prices
+     WHERE product_id = $1 AND currency = $2 AND effective_from > $3::date
+    `,
+    [productId, value.currency, value.effectiveFrom]
+  );
+  const nextFrom = nextRows[0]?.next_from ?? null;
+  const effectiveTo = value.effectiveTo ?? (nextFrom ? shiftDateKey(nextFrom, -1) : null);
+  await client.query(
+    `
+    UPDATE reference_product_prices
+       SET effective_to = $4::date, updated_at = $5
+     WHERE product_id = $1
+       AND currency = $2
+       AND effective_to IS NULL
+       AND effective_from < $3::date
+    `,
+    [productId, value.currency, value.effectiveFrom, shiftDateKey(value.effectiveFrom, -1), new Date(nowIso)]
+  );
+  const { rows } = await client.query(
+    `
+    INSERT INTO reference_product_prices
+      (id, product_id, currency, base_price, cost, effective_from, effective_to, quantity_breaks, note,
+       created_by, created_by_name, created_at, updated_at)
+    VALUES ($1,$2,$3,$4,$5,$6::date,$7::date,$8::jsonb,$9,$10,$11,$12,$12)
+    ON CONFLICT (product_id, currency, effective_from) DO UPDATE
+      SET base_price = EXCLUDED.base_price,
+          cost = EXCLUDED.cost,
+          effective_to = EXCLUDED.effective_to,
+          quantity_breaks = EXCLUDED.quantity_breaks,
+          note = EXCLUDED.note,
+          updated_at = EXCLUDED.updated_at
+    RETURNING ${PRICE_COLUMNS}, (xmax = 0) AS inserted
+    `,
+    [
+      randomUUID(),
+      productId,
+      value.currency,
+      value.basePrice,
+      value.cost,
+      value.effectiveFrom,
+      effectiveTo,
+      JSON.stringify(value.quantityBreaks),
+      value.note || null,
+      actor?.id ?? null,
+      actor?.name ?? null,
+      new Date(nowIso),
+    ]
+  );
+  return { entry: mapPriceEntryRow(rows[0]), created: Boolean(rows[0].inserted) };
+};
+
+// Removes a version; the version it had closed takes over its period again. Returns false when not found.
+export const deletePriceEntry = async (client, productId, priceId) => {
+  const { rows } = await client.query(
+    `
+    DELETE FROM reference_product_prices
+     WHERE id = $1 AND product_id = $2
+    RETURNING currency, to_char(effective_from, 'YYYY-MM-DD') AS effective_from,
+              to_char(effective_to, 'YYYY-MM-DD') AS effective_to
+    `,
+    [priceId, productId]
+  );
+  const deleted = rows[0];
+  if (!deleted) return false;
+  await client.query(
+    `
+    UPDATE reference_product_prices
+       SET effective_to = $4::date, updated_at = $5
+     WHERE product_id = $1 AND currency = $2 AND effective_to = $3::date
+    `,
+    [productId, deleted.currency, shiftDateKey(deleted.effective_from, -1), deleted.effective_to, new Date()]
+  );
+  return true;
+};
+
+// Validates an XLSX import (rows already read client-side into `{ products, prices }`).
+// Returns `{ value }` or `{ issues: [{ sheet, row, message }] }`; row numbers match the sheet (header = row 1).
+export const parseCatalogImport = (body) => {
+  const productRows = Array.isArray(body?.products) ? body.products : [];
+  const priceRows = Array.isArray(body?.prices) ? body.prices : [];
+  if (!productRows.length && !priceRows.length) return { issues: [{ sheet: "", row: 0, message: "The file has no rows" }] };
+  if (productRows.length + priceRows.length > MAX_IMPORT_ROWS) {
+    return { issues: [{ sheet: "", row: 0, message: `At most ${MAX_IMPORT_ROWS} rows can be imported at once` }] };
+  }
+
+  const issues = [];
+  const products = [];
+  const seenPartNumbers = new Set();
+  productRows.forEach((raw, index) => {
+    const row = index + 2;
+    const parsed = parseReferenceProductPayload({
+      ...raw,
+      studsPcdStandards: toText(raw?.studsPcdStandards)
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean),
+    });
+    const partNumber = parsed.value.partNumber;
+    if (!partNumber) {
+      issues.push({ sheet: "Products", row, message: "Part number is required" });
+      return;
+    }
+    const key = partNumber.toLowerCase();
+    if (seenPartNumbers.has(key)) {
+      issues.push({ sheet: "Products", row, message: `Duplicate part number ${partNumber}` });
+      return;
+    }
+    seenPartNumbers.add(key);
+    products.push({ id: toText(raw?.id), ...parsed.value });
+  });
+
+  const prices = [];
+  priceRows.forEach((raw, index) => {
+    const row = index + 2;
+    const partNumber = toText(raw?.partNumber);
+    if (!partNumber) {
+      issues.push({ sheet: "Prices", row, message: "Part number is required" });
+      return;
+    }
+    const parsed = parsePriceEntryPayload(raw);
+    if (parsed.error) {
+      issues.push({ sheet: "Prices", row, message: parsed.error });
+      return;
+    }
+    prices.push({ row, partNumber, value: parsed.value });
+  });
+
+  return issues.length ? { issues } : { value: { products, prices } };
+};
+
+// Applies a parsed import inside the caller's transaction. Products match by id, then part number.
+// Price rows match their product by part number; re-importing an exported file changes nothing.
+// Returns `{ summary }` or `{ issues }` (unknown part numbers).
+export const applyCatalogImport = async (client, { products, prices }, actor) => {
+  const summary = { productsCreated: 0, productsUpdated: 0, pricesCreated: 0, pricesUpdated: 0 };
+  const { rows: existingRows } = await client.query("SELECT id, part_number FROM reference_products");
+  const byId = new Map(existingRows.map((row) => [row.id, row]));
+  const idByPartNumber = new Map(
+    existingRows.filter((row) => toText(row.part_number)).map((row) => [toText(row.part_number).toLowerCase(), row.id])
+  );
+
+  // Reject unknown part numbers before writing anything.
+  const knownPartNumbers = new Set([...idByPartNumber.keys(), ...products.map((item) => item.partNumber.toLowerCase())]);
+  const issues = prices
+    .filter((price) => !knownPartNumbers.has(price.partNumber.toLowerCase()))
+    .map((price) => ({ sheet: "Prices", row: price.row, message: `Unknown part number ${price.partNumber}` }));
+  if (issues.length) return { issues };
+
+  for (const product of products) {
+    const nowIso = new Date().toISOString();
+    const targetId = byId.has(product.id) ? product.id : idByPartNumber.get(product.partNumber.toLowerCase());
+    const values = [
+      product.partNumber,
+      product.configurationType,
+      product.articulationType,
+      product.brakeType,
+      product.brakeSize,
+      JSON.stringify(product.studsPcdStandards),
+      new Date(nowIso),
+    ];
+    if (targetId) {
+      await client.query(
+        `
+        UPDATE reference_products
+           SET part_number=$2, configuration_type=$3, articulation_type=$4, brake_type=$5, brake_size=$6,
+               studs_pcd_standards=$7::jsonb, updated_at=$8
+         WHERE id=$1
+        `,
+        [targetId, ...values]
+      );
+      summary.productsUpdated += 1;
+      idByPartNumber.set(product.partNumber.toLowerCase(), targetId);
+    } else {
+      const id = randomUUID();
+      await client.query(
+        `
+        INSERT INTO reference_products
+          (id, part_number, configuration_type, articulation_type, brake_type, brake_size, studs_pcd_standards,
+           created_at, updated_at)
+        VALUES ($1,$2,$3,$4,$5,$6,$7::jsonb,$8,$8)
+        `,
+        [id, ...values]
+      );
+      summary.productsCreated += 1;
+      idByPartNumber.set(product.partNumber.toLowerCase(), id);
+    }
+  }
+
+  // Oldest first, so each version closes the one before it the same way manual entry does.
+  const ordered = [...prices].sort((a, b) => a.value.effectiveFrom.localeCompare(b.value.effectiveFrom));
+  for (const price of ordered) {
+    const { created } = await savePriceEntry(
+      client,
+      idByPartNumber.get(price.partNumber.toLowerCase()),
+      price.value,
+      actor
+    );
+    if (created) summary.pricesCreated += 1;
+    else summary.pricesUpdated += 1;
+  }
+  return { summary };
+};
@@ -0,0 +1,152 @@
+// Reference-product matching for costing (CostingPanel suggestions, GET /api/requests/:id/reference-matches).
+// Each request product line is scored against the Price List catalog field by field; every candidate carries
+// the per-field outcome so costing can see what matched and what did not, plus a suggested selling price taken
+// from the reference product's current price (quantity breaks applied) and the margin that price implies.
+
+import { hasPermission } from "./permissions.js";
+import { listPriceEntries, listReferenceProducts, selectCurrentPrices, todayDateKey } from "./priceCatalog.js";
+
+// Weights sum to 100 so a score reads as a percentage.
+const MATCH_FIELDS = Object.freeze([
+  { field: "configurationType", weight: 30 },
+  { field: "articulationType", weight: 20 },
+  { field: "brakeType", weight: 20 },
+  { field: "brakeSize", weight: 15 },
+  { field: "studsPcdStandards", weight: 15 },
+]);
+
+const DEFAULT_CANDIDATE_LIMIT = 3;
+
+const toText = (value) => String(value ?? "").trim();
+
+// Case and spacing differences ("Ø 400 x 80" vs "ø400x80") should not break a match.
+const normalizeKey = (value) => toText(value).toLowerCase().replace(/\s+/g, "");
+
+// "other" selections carry their free text in the matching *Other field.
+const resolveValue = (product, field) => {
+  const value = toText(product?.[field]);
+  if (value.toLowerCase() === "other") return toText(product?.[`${field}Other`]);
+  return value;
+};
+
+const compareSingle = (requestValue, referenceValue) => {
+  if (!requestValue || !referenceValue) return { status: "unknown", credit: 0 };
+  return normalizeKey(requestValue) === normalizeKey(referenceValue)
+    ? { status: "match", credit: 1 }
+    : { status: "mismatch", credit: 0 };
+};
+
+// Credit is the share of requested standards the reference product covers.
+const compareStuds = (requested, offered) => {
+  if (!requested.length || !offered.length) return { status: "unknown", credit: 0 };
+  const offeredKeys = new Set(offered.map(normalizeKey));
+  const covered = requested.filter((item) => offeredKeys.has(normalizeKey(item))).length;
+  if (covered === requested.length) return { status: "match", credit: 1 };
+  if (covered === 0) return { status: "mismatch", credit: 0 };
+  return { status: "partial", credit: covered / requested.length };
+};
+
+// Scores one reference product against one request product line.
+// Returns `{ score, fields: [{ field, status, requestValue, referenceValue }] }`, score 0-100.
+export const scoreReferenceProduct = (requestProduct, referenceProduct) => {
+  let score = 0;
+  const fields = MATCH_FIELDS.map(({ field, weight }) => {
+    if (field === "studsPcdStandards") {
+      const requested =
+        toText(requestProduct?.studsPcdMode) === "special"
+          ? []
+          : (Array.isArray(requestProduct?.studsPcdStandardSelections) ? requestProduct.studsPcdStandardSelections : [])
+              .map(toText)
+              .filter(Boolean);
+      const offered = (referenceProduct?.studsPcdStandards ?? []).map(toText).filter(Boolean);
+      const outcome = compareStuds(requested, offered);
+      score += weight * outcome.credit;
+      return {
+        field,
+        status: toText(requestProduct?.studsPcdMode) === "special" ? "special" : outcome.status,
+        requestValue:
+          toText(requestProduct?.studsPcdMode) === "special" ? toText(requestProduct?.studsPcdSpecialText) : requested.join(", "),
+        referenceValue: offered.join(", "),
+      };
+    }
+    const requestValue = resolveValue(requestProduct, field);
+    const referenceValue = toText(referenceProduct?.[field]);
+    const outcome = compareSingle(requestValue, referenceValue);
+    score += weight * outcome.credit;
+    return { field, status: outcome.status, requestValue, referenceValue };
+  });
+  return { score: Math.round(score), fields };
+};
+
+// Unit price for `quantity`: the deepest quantity break reached, else the base price.
+export const resolveUnitPrice = (entry, quantity) => {
+  const qty = Number.isFinite(quantity) && quantity > 0 ? quantity : 1;
+  let unitPrice = entry.basePrice;
+  let appliedBreak = null;
+  for (const item of entry.quantityBreaks ?? []) {
+    if (item.minQuantity <= qty) {
+      unitPrice = item.unitPrice;
+      appliedBreak = item;
+    }
+  }
+  return { unitPrice, appliedBreak };
+};
+
+// Margin in percent of the selling price, one decimal; null without a cost or a positive price.
+const computeMargin = (unitPrice, cost) => {
+  if (cost === null || cost === undefined || !(unitPrice > 0)) return null;
+  return Math.round(((unitPrice - cost) / unitPrice) * 1000) / 10;
+};
+
+// Prefers the price in `currency`; falls back to the first current price so costing still sees a figure.
+const buildSuggestion = (currentPrices, currency, quantity, canViewCost) => {
+  const entry = currentPrices.find((item) => item.currency === currency) ?? currentPrices[0];
+  if (!entry) return null;
+  const { unitPrice, appliedBreak } = resolveUnitPrice(entry, quantity);
+  const suggestion = {
+    priceId: entry.id,
+    currency: entry.currency,
+    basePrice: entry.basePrice,
+    unitPrice,
+    quantityBreak: appliedBreak,
+    effectiveFrom: entry.effectiveFrom,
+    effectiveTo: entry.effectiveTo,
+  };
+  if (!canViewCost) return suggestion;
+  return { ...suggestion, cost: entry.cost, margin: computeMargin(unitPrice, entry.cost) };
+};
+
+// Matches every product line of `products` against the catalog.
+// Returns `[{ productIndex, quantity, candidates: [{ product, score, fields, suggestion }] }]`, best first.
+export const matchRequestProducts = async (db, products, { currency, user, limit = DEFAULT_CANDIDATE_LIMIT } = {}) => {
+  const [references, entries] = await Promise.all([listReferenceProducts(db), listPriceEntries(db)]);
+  const entriesByProduct = new Map();
+  for (const entry of entries) {
+    const list = entriesByProduct.get(entry.productId) ?? [];
+    list.push(entry);
+    entriesByProduct.set(entry.productId, list);
+  }
+  const dateKey = todayDateKey();
+  const canViewCost = hasPermission(user, "view_costing_margin");
+
+  return products.map((requestProduct, productIndex) => {
+    const quantity = Number.isFinite(Number(requestProduct?.quantity)) ? Number(requestProduct.quantity) : null;
+    const candidates = references
+      .map((reference) => ({ reference, ...scoreReferenceProduct(requestProduct, reference) }))
+      .filter((item) => item.score > 0)
+      .sort((a, b) => b.score - a.score || a.reference.partNumber.localeCompare(b.reference.partNumber))
+      .slice(0, limit)
+      .map(({ reference, score, fields }) => ({
+        product: reference,
+        score,
+        fields,
+        suggestion: buildSuggestion(
+          selectCurrentPrices(entriesByProduct.get(reference.id) ?? [], dateKey),
+          currency,
+          quantity,
+          canViewCost
+        ),
+      }));
+    return { productIndex, quantity, candidates };
+  });
+};
@@ -0,0 +1,77 @@
+// In-process server-sent events hub. Clients subscribe via GET /api/events; writers publish small
+// "something changed" events and the UI re-fetches what it needs. Polling stays as the fallback.
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const CLIENT_RETRY_MS = 5_000;
+
+const clients = new Set();
+let nextEventId = 1;
+
+const writeEvent = (client, eventId, type, data) => {
+  try {
+    client.res.write(`id: ${eventId}\nevent: ${type}\ndata: ${JSON.stringify(data ?? {})}\n\n`);
+  } catch (error) {
+    console.error("Failed to write realtime event:", error);
+    clients.delete(client);
+  }
+};
+
+const normalizeIdList = (values) =>
+  Array.isArray(values) || values instanceof Set
+    ? new Set(Array.from(values, (value) => String(value ?? "").trim()).filter(Boolean))
+    : null;
+
+export const openRealtimeStream = (req, res, user) => {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-store, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Disable proxy buffering (IIS/nginx) so events are delivered immediately.
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders?.();
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+
+  const client = {
+    res,
+    userId: String(user?.id ?? "").trim(),
+    roles: Array.isArray(user?.roles) ? user.roles : [String(user?.role ?? "").trim().toLowerCase()],
+  };
+  clients.add(client);
+  writeEvent(client, nextEventId++, "ready", { connectedAt: new Date().toISOString() });
+
+  const heartbeat = setInterval(() => {
+    try {
+      res.write(": ping\n\n");
+    } catch {
+      clearInterval(heartbeat);
+      clients.delete(client);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref?.();
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(client);
+  });
+};
+
+// `userIds` / `roles` narrow the audience; omit both to broadcast to every connected user.
+export const publishRealtimeEvent = (type, data, { userIds, roles } = {}) => {
+  const eventType = String(type ?? "").trim();
+  if (!eventType || !clients.size) return 0;
+  const userIdSet = normalizeIdList(userIds);
+  const roleSet = normalizeIdList(roles);
+  if ((userIdSet && !userIdSet.size) || (roleSet && !roleSet.size)) return 0;
+
+  const eventId = nextEventId++;
+  let delivered = 0;
+  for (const client of Array.from(clients)) {
+    if (userIdSet && !userIdSet.has(client.userId)) continue;
+    if (roleSet && !client.roles.some((role) => roleSet.has(role))) continue;
+    writeEvent(client, eventId, eventType, data);
+    delivered += 1;
+  }
+  return delivered;
+};
+
+export const getRealtimeClientCount = () => clients.size;
@@ -0,0 +1,218 @@
+import { randomUUID } from "node:crypto";
+
+export const REQUEST_CHANGE_SECTIONS = Object.freeze(["general", "technical", "costing", "sales"]);
+
+// Bookkeeping keys rewritten on every save; they never show up as user edits.
+const IGNORED_KEYS = new Set([
+  "id",
+  "status",
+  "history",
+  "createdAt",
+  "updatedAt",
+  "createdBy",
+  "createdByName",
+  "nextActionRole",
+  "nextActionLabel",
+  "draftSessionKey",
+  "version",
+  "expectedVersion",
+  "historyEvent",
+  "editedBy",
+  "editedByName",
+  "updatedByUserId",
+]);
+
+// Top-level copies of products[0] kept for legacy readers; the products[] diff already covers them.
+const LEGACY_MIRROR_KEYS = new Set([
+  "axleLocation",
+  "axleLocationOther",
+  "articulationType",
+  "articulationTypeOther",
+  "configurationType",
+  "configurationTypeOther",
+  "loadsKg",
+  "speedsKmh",
+  "tyreSize",
+  "trackMm",
+  "studsPcdMode",
+  "studsPcdStandardSelections",
+  "studsPcdSpecialText",
+  "wheelBase",
+  "finish",
+  "brakeType",
+  "brakeSize",
+  "brakePowerType",
+  "brakeCertificate",
+  "mainBodySectionType",
+  "clientSealingRequest",
+  "cupLogo",
+  "suspension",
+  "otherRequirements",
+  "offerProductName",
+  "offerProductPartNumber",
+  "designResultAttachments",
+]);
+
+const TECHNICAL_KEYS = new Set([
+  "products",
+  "designNotes",
+  "acceptanceMessage",
+  "expectedDesignReplyDate",
+  "designResultComments",
+  "designResultBomFolderLink",
+  "designResultAttachments",
+  "clarificationComment",
+  "clarificationResponse",
+  ...LEGACY_MIRROR_KEYS,
+]);
+
+const COSTING_KEYS = new Set([
+  "costingNotes",
+  "sellingPrice",
+  "sellingCurrency",
+  "calculatedMargin",
+  "costingProductPrices",
+  "incoterm",
+  "incotermOther",
+  "vatMode",
+  "vatRate",
+  "deliveryLeadtime",
+  "costingAttachments",
+]);
+
+const MAX_DEPTH = 4;
+const MAX_STRING_LENGTH = 2000;
+
+export const getRequestChangeSection = (fieldPath) => {
+  const key = String(fieldPath ?? "").split(".")[0];
+  if (TECHNICAL_KEYS.has(key)) return "technical";
+  if (COSTING_KEYS.has(key)) return "costing";
+  if (key.startsWith("sales") || key === "clientOfferConfig") return "sales";
+  return "general";
+};
+
+const isPlainObject = (value) =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value) && !(value instanceof Date);
+
+const isAttachmentList = (value) =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((item) => isPlainObject(item) && (item.filename !== undefined || item.url !== undefined));
+
+// Attachments are stored as file names only so the change log never copies file payloads.
+const toStoredValue = (value) => {
+  if (value === undefined || value === null || value === "") return null;
+  if (isAttachmentList(value)) {
+    return value.map((item) => String(item?.filename ?? item?.id ?? "").trim()).filter(Boolean);
+  }
+  if (typeof value === "string" && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}…`;
+  }
+  return value;
+};
+
+const toComparable = (value) => {
+  const stored = toStoredValue(value);
+  if (stored === null) return "";
+  if (Array.isArray(stored) && stored.length === 0) return "";
+  return JSON.stringify(stored);
+};
+
+const collectDiff = (before, after, path, depth, out) => {
+  if (toComparable(before) === toComparable(after)) return;
+
+  const canDescend = depth < MAX_DEPTH && !isAttachmentList(before) && !isAttachmentList(after);
+  if (canDescend && (isPlainObject(before) || isPlainObject(after)) && !Array.isArray(before) && !Array.isArray(after)) {
+    const left = isPlainObject(before) ? before : {};
+    const right = isPlainObject(after) ? after : {};
+    for (const key of new Set([...Object.keys(left), ...Object.keys(right)])) {
+      if (IGNORED_KEYS.has(key)) continue;
+      collectDiff(left[key], right[key], `${path}.${key}`, depth + 1, out);
+    }
+    return;
+  }
+
+  const objectItems = (value) => Array.isArray(value) && value.length > 0 && value.every(isPlainObject);
+  if (canDescend && (objectItems(before) || objectItems(after))) {
+    const left = Array.isArray(before) ? before : [];
+    const right = Array.isArray(after) ? after : [];
+    const length = Math.max(left.length, right.length);
+    for (let index = 0; index < length; index += 1) {
+      collectDiff(left[index], right[index], `${path}.${index}`, depth + 1, out);
+    }
+    return;
+  }
+
+  out.push({ fieldPath: path, before: toStoredValue(before), after: toStoredValue(after) });
+};
+
+export const diffRequestFields = (before, after) => {
+  const left = isPlainObject(before) ? before : {};
+  const right = isPlainObject(after) ? after : {};
+  const hasProducts = Array.isArray(right.products) && right.products.length > 0;
+  const out = [];
+
+  for (const key of new Set([...Object.keys(left), ...Object.keys(right)])) {
+    if (IGNORED_KEYS.has(key)) continue;
+    if (hasProducts && LEGACY_MIRROR_KEYS.has(key)) continue;
+    collectDiff(left[key], right[key], key, 1, out);
+  }
+
+  return out.map((change) => ({ ...change, section: getRequestChangeSection(change.fieldPath) }));
+};
+
+export const recordRequestFieldChanges = async (db, { requestId, changes, actor, changedAt }) => {
+  if (!requestId || !Array.isArray(changes) || !changes.length) return 0;
+  const changeSetId = randomUUID();
+  const ts = changedAt ? new Date(changedAt) : new Date();
+  const actorUserId = actor?.id ? String(actor.id) : null;
+  const actorName = actor?.name ? String(actor.name) : null;
+
+  for (const change of changes) {
+    await db.query(
+      `INSERT INTO request_field_changes
+        (id, request_id, change_set_id, changed_at, actor_user_id, actor_name, section, field_path, before_value, after_value)
+       VALUES
+        ($1,$2,$3,$4,$5,$6,$7,$8,$9::jsonb,$10::jsonb)`,
+      [
+        randomUUID(),
+        requestId,
+        changeSetId,
+        ts,
+        actorUserId,
+        actorName,
+        change.section,
+        change.fieldPath,
+        JSON.stringify(change.before ?? null),
+        JSON.stringify(change.after ?? null),
+      ]
+    );
+  }
+  return changes.length;
+};
+
+export const listRequestFieldChanges = async (db, requestId, { section, limit = 500 } = {}) => {
+  const normalizedSection = REQUEST_CHANGE_SECTIONS.includes(section) ? section : null;
+  const { rows } = await db.query(
+    `
+    SELECT id, change_set_id, changed_at, actor_user_id, actor_name, section, field_path, before_value, after_value
+      FROM request_field_changes
+     WHERE request_id = $1
+       AND ($2::text IS NULL OR section = $2)
+     ORDER BY changed_at DESC, field_path ASC
+     LIMIT $3
+    `,
+    [requestId, normalizedSection, Math.max(1, Math.min(2000, Number(limit) || 500))]
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    changeSetId: row.change_set_id,
+    changedAt: row.changed_at instanceof Date ? row.changed_at.toISOString() : String(row.changed_at ?? ""),
+    actorUserId: row.actor_user_id ?? null,
+    actorName: row.actor_name ?? null,
+    section: row.section,
+    fieldPath: row.field_path,
+    before: row.before_value ?? null,
+    after: row.after_value ?? null,
+  }));
+};
@@ -0,0 +1,263 @@
+// Cursor-paginated request listing (GET /api/requests/list). Filters and sort run in SQL so the
+// dashboard never has to download the whole archive; the cursor encodes the last row's sort values.
+
+import { buildRequestSearchClause } from "./requestSearch.js";
+import { slaStateSql } from "./sla.js";
+
+export const REQUEST_LIST_DEFAULT_LIMIT = 50;
+export const REQUEST_LIST_MAX_LIMIT = 200;
+
+const PRIORITY_VALUES = ["low", "normal", "high", "urgent"];
+
+// Every expression is NOT NULL so keyset comparisons behave the same for blank values.
+const SORT_COLUMNS = Object.freeze({
+  id: { expr: "r.id", type: "text" },
+  priority: {
+    expr:
+      "CASE lower(COALESCE(r.data->>'priority', '')) WHEN 'low' THEN 1 WHEN 'high' THEN 3 WHEN 'urgent' THEN 4 ELSE 2 END",
+    type: "integer",
+  },
+  status: { expr: "r.status", type: "text" },
+  clientName: { expr: "lower(COALESCE(r.data->>'clientName', ''))", type: "text" },
+  applicationVehicle: { expr: "lower(COALESCE(r.data->>'applicationVehicle', ''))", type: "text" },
+  country: { expr: "lower(COALESCE(r.data->>'country', ''))", type: "text" },
+  createdByName: { expr: "lower(COALESCE(r.data->>'createdByName', ''))", type: "text" },
+  createdAt: { expr: "r.created_at", type: "timestamptz" },
+  updatedAt: { expr: "r.updated_at", type: "timestamptz" },
+});
+
+export const REQUEST_LIST_SORT_KEYS = Object.freeze(Object.keys(SORT_COLUMNS));
+
+const DEFAULT_SORT = Object.freeze([{ key: "updatedAt", direction: "desc" }]);
+
+const toList = (value) => {
+  const raw = Array.isArray(value) ? value : [value];
+  return Array.from(
+    new Set(
+      raw
+        .flatMap((item) => String(item ?? "").split(","))
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+  );
+};
+
+// `undefined` means "present but invalid", `null` means "not provided".
+export const parseRequestDateParam = (value, { endOfDay = false } = {}) => {
+  const raw = String(value ?? "").trim();
+  if (!raw) return null;
+  // Plain dates (YYYY-MM-DD) cover the whole day.
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(raw) ? new Date(`${raw}T00:00:00.000Z`) : new Date(raw);
+  if (Number.isNaN(date.getTime())) return undefined;
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(raw)) date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+};
+
+// `sort=createdAt:desc,clientName:asc`; unknown keys are rejected so typos do not silently fall back.
+export const parseRequestListSort = (value) => {
+  const rules = [];
+  for (const part of toList(value)) {
+    const [key, rawDirection] = part.split(":");
+    if (!SORT_COLUMNS[key]) return null;
+    if (rules.some((rule) => rule.key === key)) continue;
+    const direction = String(rawDirection ?? "asc").trim().toLowerCase();
+    if (direction !== "asc" && direction !== "desc") return null;
+    rules.push({ key, direction });
+  }
+  return rules.length ? rules : DEFAULT_SORT.map((rule) => ({ ...rule }));
+};
+
+// Parses query-string filters. Returns `{ error }` for malformed input.
+export const parseRequestListQuery = (query) => {
+  const sort = parseRequestListSort(query?.sort);
+  if (!sort) return { error: `Invalid sort. Use key:asc|desc with keys: ${REQUEST_LIST_SORT_KEYS.join(", ")}` };
+
+  const createdFrom = parseRequestDateParam(query?.createdFrom);
+  const createdTo = parseRequestDateParam(query?.createdTo, { endOfDay: true });
+  if (createdFrom === undefined || createdTo === undefined) return { error: "Invalid createdFrom/createdTo date" };
+  if (createdFrom && createdTo && +createdFrom > +createdTo) return { error: "createdFrom must be before createdTo" };
+
+  const priorities = toList(query?.priority).map((value) => value.toLowerCase());
+  if (priorities.some((value) => !PRIORITY_VALUES.includes(value))) {
+    return { error: `Invalid priority. Use: ${PRIORITY_VALUES.join(", ")}` };
+  }
+
+  const limitRaw = Number.parseInt(String(query?.limit ?? ""), 10);
+  const limit = Number.isFinite(limitRaw)
+    ? Math.min(Math.max(limitRaw, 1), REQUEST_LIST_MAX_LIMIT)
+    : REQUEST_LIST_DEFAULT_LIMIT;
+
+  return {
+    statuses: toList(query?.status),
+    owners: toList(query?.owner),
+    countries: toList(query?.country),
+    customers: toList(query?.customer),
+    priorities,
+    nextActionRoles: toList(query?.nextActionRole).map((value) => value.toLowerCase()),
+    createdFrom,
+    createdTo,
+    q: String(query?.q ?? "").trim(),
+    sort,
+    cursor: String(query?.cursor ?? "").trim() || null,
+    limit,
+  };
+};
+
+const buildSortRules = (sort) => {
+  const rules = (Array.isArray(sort) && sort.length ? sort : DEFAULT_SORT).filter((rule) => SORT_COLUMNS[rule.key]);
+  // `id` is unique, so appending it makes the order (and the cursor) total.
+  return rules.some((rule) => rule.key === "id") ? rules : [...rules, { key: "id", direction: "asc" }];
+};
+
+const sortSignature = (rules) => rules.map((rule) => `${rule.key}:${rule.direction}`).join(",");
+
+const encodeCursor = (rules, values) =>
+  Buffer.from(JSON.stringify({ s: sortSignature(rules), v: values }), "utf8").toString("base64url");
+
+const decodeCursor = (cursor, rules) => {
+  try {
+    const parsed = JSON.parse(Buffer.from(String(cursor), "base64url").toString("utf8"));
+    if (parsed?.s !== sortSignature(rules) || !Array.isArray(parsed?.v) || parsed.v.length !== rules.length) return null;
+    return parsed.v.map((value) => String(value ?? ""));
+  } catch {
+    return null;
+  }
+};
+
+// Filters shared by the page query, the total and the per-status counts.
+// `includeStatusFilters: false` leaves out status/next-action so KPI counts keep their meaning.
+const buildWhere = (filters, params, { includeStatusFilters = true } = {}) => {
+  const clauses = [];
+  const push = (value) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (includeStatusFilters && filters.statuses?.length) {
+    clauses.push(`r.status = ANY(${push(filters.statuses)}::text[])`);
+  }
+  if (includeStatusFilters && filters.nextAction) {
+    const { statuses, includeNoAction, actionableStatuses } = filters.nextAction;
+    const parts = [`r.status = ANY(${push(statuses ?? [])}::text[])`];
+    if (includeNoAction) parts.push(`NOT (r.status = ANY(${push(actionableStatuses ?? [])}::text[]))`);
+    clauses.push(`(${parts.join(" OR ")})`);
+  }
+  if (filters.owners?.length) {
+    clauses.push(`r.data->>'createdBy' = ANY(${push(filters.owners)}::text[])`);
+  }
+  if (filters.countries?.length) {
+    clauses.push(`r.data->>'country' = ANY(${push(filters.countries)}::text[])`);
+  }
+  if (filters.customers?.length) {
+    clauses.push(`r.data->>'customerId' = ANY(${push(filters.customers)}::text[])`);
+  }
+  if (filters.priorities?.length) {
+    clauses.push(
+      `COALESCE(NULLIF(lower(r.data->>'priority'), ''), 'normal') = ANY(${push(filters.priorities)}::text[])`
+    );
+  }
+  if (filters.createdFrom) clauses.push(`r.created_at >= ${push(filters.createdFrom)}`);
+  if (filters.createdTo) clauses.push(`r.created_at < ${push(filters.createdTo)}`);
+  if (filters.search) clauses.push(buildRequestSearchClause(push, filters.search));
+  return clauses;
+};
+
+const buildCursorClause = (rules, cursorValues, params) => {
+  const push = (value) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  const branches = rules.map((rule, index) => {
+    const parts = [];
+    for (let prev = 0; prev < index; prev += 1) {
+      const column = SORT_COLUMNS[rules[prev].key];
+      parts.push(`${column.expr} = ${push(cursorValues[prev])}::${column.type}`);
+    }
+    const column = SORT_COLUMNS[rule.key];
+    const op = rule.direction === "desc" ? "<" : ">";
+    parts.push(`${column.expr} ${op} ${push(cursorValues[index])}::${column.type}`);
+    return `(${parts.join(" AND ")})`;
+  });
+  return `(${branches.join(" OR ")})`;
+};
+
+export const listRequestPage = async (db, { filters = {}, sort, cursor, limit = REQUEST_LIST_DEFAULT_LIMIT } = {}) => {
+  const rules = buildSortRules(sort);
+  const pageSize = Math.min(Math.max(Number(limit) || REQUEST_LIST_DEFAULT_LIMIT, 1), REQUEST_LIST_MAX_LIMIT);
+
+  let cursorValues = null;
+  if (cursor) {
+    cursorValues = decodeCursor(cursor, rules);
+    if (!cursorValues) {
+      const error = new Error("Invalid or expired cursor");
+      error.status = 400;
+      throw error;
+    }
+  }
+
+  const pageParams = [];
+  const pageClauses = buildWhere(filters, pageParams);
+  if (cursorValues) pageClauses.push(buildCursorClause(rules, cursorValues, pageParams));
+  pageParams.push(pageSize + 1);
+  const sortSelect = rules.map((rule, index) => `(${SORT_COLUMNS[rule.key].expr})::text AS sort_${index}`).join(", ");
+  const orderBy = rules.map((rule) => `${SORT_COLUMNS[rule.key].expr} ${rule.direction.toUpperCase()}`).join(", ");
+
+  const { rows } = await db.query(
+    `
+    SELECT
+      r.id,
+      r.status,
+      r.created_at,
+      r.updated_at,
+      r.version,
+      r.data->>'clientName' AS "clientName",
+      r.data->>'applicationVehicle' AS "applicationVehicle",
+      r.data->>'country' AS "country",
+      r.data->>'priority' AS "priority",
+      r.data->>'createdBy' AS "createdBy",
+      r.data->>'createdByName' AS "createdByName",
+      s.due_at AS "slaDueAt",
+      ${slaStateSql("s")} AS "slaState",
+      ${sortSelect}
+    FROM requests r
+    LEFT JOIN request_sla_state s ON s.request_id = r.id AND s.status = r.status
+    ${pageClauses.length ? `WHERE ${pageClauses.join(" AND ")}` : ""}
+    ORDER BY ${orderBy}
+    LIMIT $${pageParams.length}
+    `,
+    pageParams
+  );
+
+  const hasMore = rows.length > pageSize;
+  const pageRows = hasMore ? rows.slice(0, pageSize) : rows;
+  const last = pageRows[pageRows.length - 1];
+  const nextCursor = hasMore && last ? encodeCursor(rules, rules.map((_, index) => last[`sort_${index}`])) : null;
+
+  const statusCountParams = [];
+  const statusCountClauses = buildWhere(filters, statusCountParams, { includeStatusFilters: false });
+  const totalParams = [];
+  const totalClauses = buildWhere(filters, totalParams);
+  const [statusCountsResult, totalResult] = await Promise.all([
+    db.query(
+      `SELECT r.status, COUNT(*)::int AS count FROM requests r
+       ${statusCountClauses.length ? `WHERE ${statusCountClauses.join(" AND ")}` : ""}
+       GROUP BY r.status`,
+      statusCountParams
+    ),
+    db.query(
+      `SELECT COUNT(*)::int AS count FROM requests r
+       ${totalClauses.length ? `WHERE ${totalClauses.join(" AND ")}` : ""}`,
+      totalParams
+    ),
+  ]);
+
+  const statusCounts = {};
+  for (const row of statusCountsResult.rows) statusCounts[row.status] = row.count;
+
+  return {
+    rows: pageRows,
+    nextCursor,
+    total: totalResult.rows[0]?.count ?? 0,
+    statusCounts,
+  };
+};
@@ -0,0 +1,136 @@
+// Ranked request search backed by the search_vector/search_text columns (migration 045).
+// Matching runs in SQL; snippets and highlight ranges are built here from `search_fields`.
+
+export const REQUEST_SEARCH_MIN_LENGTH = 2;
+const SNIPPET_RADIUS = 60;
+const MAX_MATCHES_PER_RESULT = 2;
+
+// Lowercases and strips accents one character at a time so indexes still line up with the original text.
+const foldText = (text) =>
+  Array.from(String(text ?? ""), (char) => {
+    const folded = char.normalize("NFD").replace(/\p{M}+/gu, "").toLowerCase();
+    return folded.length === char.length ? folded : char;
+  }).join("");
+
+const escapeLike = (value) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+// Returns null when the query is too short to search.
+export const buildRequestSearchTerms = (query, { statusCodes = [] } = {}) => {
+  const raw = String(query ?? "").replace(/\s+/g, " ").trim();
+  if (raw.length < REQUEST_SEARCH_MIN_LENGTH) return null;
+  const needle = foldText(raw);
+  const tokens = Array.from(new Set(needle.split(/[^\p{L}\p{N}]+/u).filter(Boolean)));
+  return {
+    needle,
+    tokens,
+    // Tokens only contain letters/digits, so they are safe to splice into to_tsquery syntax.
+    tsquery: tokens.length ? tokens.map((token) => `${token}:*`).join(" & ") : null,
+    like: `%${escapeLike(needle)}%`,
+    statusCodes: Array.isArray(statusCodes) ? statusCodes : [],
+  };
+};
+
+// SQL predicate for `terms`; `push` appends a parameter and returns its placeholder.
+export const buildRequestSearchClause = (push, terms, alias = "r") => {
+  const parts = [`${alias}.search_text LIKE ${push(terms.like)}`];
+  if (terms.tsquery) parts.push(`${alias}.search_vector @@ to_tsquery('simple', ${push(terms.tsquery)})`);
+  if (terms.statusCodes.length) parts.push(`${alias}.status = ANY(${push(terms.statusCodes)}::text[])`);
+  return `(${parts.join(" OR ")})`;
+};
+
+const findRanges = (folded, terms) => {
+  const ranges = [];
+  const needles = terms.tokens.length ? terms.tokens : [terms.needle];
+  for (const token of needles) {
+    let from = folded.indexOf(token);
+    while (from >= 0) {
+      ranges.push([from, from + token.length]);
+      from = folded.indexOf(token, from + token.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+  return merged;
+};
+
+// Builds `{ field, snippet, highlights }` where highlights are [start, end) offsets into `snippet`.
+export const buildSearchSnippet = (field, text, terms) => {
+  const source = String(text ?? "").replace(/\s+/g, " ").trim();
+  const ranges = findRanges(foldText(source), terms);
+  if (!ranges.length) return null;
+
+  let start = Math.max(0, ranges[0][0] - SNIPPET_RADIUS);
+  let end = Math.min(source.length, ranges[0][1] + SNIPPET_RADIUS * 2);
+  if (start > 0) {
+    const space = source.indexOf(" ", start);
+    if (space >= 0 && space < ranges[0][0]) start = space + 1;
+  }
+  if (end < source.length) {
+    const space = source.lastIndexOf(" ", end);
+    if (space > ranges[0][1]) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < source.length ? "…" : "";
+  const highlights = ranges
+    .filter(([from, to]) => from >= start && to <= end)
+    .map(([from, to]) => [from - start + prefix.length, to - start + prefix.length]);
+
+  return { field, snippet: `${prefix}${source.slice(start, end)}${suffix}`, highlights };
+};
+
+export const searchRequests = async (db, { terms, statuses = [], createdFrom = null, createdTo = null, limit = 20 }) => {
+  const params = [];
+  const push = (value) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  const needle = push(terms.needle);
+  const rankParts = [`CASE WHEN lower(r.id) = ${needle} THEN 10 ELSE 0 END`, `word_similarity(${needle}, r.search_text)`];
+  if (terms.tsquery) {
+    rankParts.push(`ts_rank_cd(r.search_vector, to_tsquery('simple', ${push(terms.tsquery)})) * 4`);
+  }
+
+  const clauses = [buildRequestSearchClause(push, terms)];
+  if (statuses.length) clauses.push(`r.status = ANY(${push(statuses)}::text[])`);
+  if (createdFrom) clauses.push(`r.created_at >= ${push(createdFrom)}`);
+  if (createdTo) clauses.push(`r.created_at < ${push(createdTo)}`);
+
+  const { rows } = await db.query(
+    `
+    SELECT
+      r.id,
+      r.status,
+      r.created_at,
+      r.updated_at,
+      r.search_fields,
+      r.data->>'clientName' AS "clientName",
+      r.data->>'applicationVehicle' AS "applicationVehicle",
+      r.data->>'country' AS "country",
+      r.data->>'createdByName' AS "createdByName",
+      r.data->>'priority' AS "priority",
+      (${rankParts.join(" + ")}) AS rank
+    FROM requests r
+    WHERE ${clauses.join(" AND ")}
+    ORDER BY rank DESC, r.updated_at DESC
+    LIMIT ${push(limit)}
+    `,
+    params
+  );
+
+  return rows.map((row) => {
+    const matches = [];
+    for (const entry of Array.isArray(row.search_fields) ? row.search_fields : []) {
+      if (matches.length >= MAX_MATCHES_PER_RESULT) break;
+      const snippet = buildSearchSnippet(String(entry?.field ?? ""), entry?.text, terms);
+      if (snippet) matches.push(snippet);
+    }
+    return { ...row, rank: Number(row.rank ?? 0), matches };
+  });
+};
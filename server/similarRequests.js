@@ -0,0 +1,207 @@
+// "Similar requests" finder for design and costing (GET /api/requests/:id/similar).
+// Past requests are scored against the open one on the technical fields of their product lines (loads, speeds,
+// tyre size, track, studs/PCD, brake, configuration) and on client/application data, so earlier design results,
+// BOM folders and final prices can be reused instead of redone.
+
+import { resolveRequestFinalPrice } from "./exchangeRates.js";
+
+const SCAN_LIMIT = 1000;
+const DEFAULT_LIMIT = 5;
+// Below this score a request is noise rather than a useful precedent.
+const MIN_SCORE = 40;
+
+// Weights sum to 100 across both groups; fields the open request leaves empty are left out of the total.
+const PRODUCT_FIELDS = Object.freeze([
+  { field: "loadsKg", weight: 15, compare: "numeric", tolerance: 0.25 },
+  { field: "speedsKmh", weight: 10, compare: "numeric", tolerance: 0.25 },
+  { field: "tyreSize", weight: 10, compare: "text" },
+  { field: "trackMm", weight: 10, compare: "numeric", tolerance: 0.1 },
+  { field: "studsPcd", weight: 10, compare: "studs" },
+  { field: "brakeType", weight: 8, compare: "text" },
+  { field: "brakeSize", weight: 7, compare: "text" },
+  { field: "configurationType", weight: 8, compare: "option" },
+]);
+
+const REQUEST_FIELDS = Object.freeze([
+  { field: "clientName", weight: 8, compare: "text" },
+  { field: "applicationVehicle", weight: 6, compare: "option" },
+  { field: "workingCondition", weight: 3, compare: "option" },
+  { field: "usageType", weight: 3, compare: "option" },
+  { field: "environment", weight: 2, compare: "option" },
+]);
+
+const toText = (value) => String(value ?? "").trim();
+
+const normalizeKey = (value) => toText(value).toLowerCase().replace(/\s+/g, "");
+
+// Loads and speeds are free text in older requests ("3 500 kg", "12,5"); the first number wins.
+const toNumber = (value) => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const match = toText(value).replace(/\s+/g, "").match(/-?\d+(?:[.,]\d+)?/);
+  if (!match) return null;
+  const parsed = Number(match[0].replace(",", "."));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// "other" selections carry their free text in the matching *Other field.
+const resolveOption = (source, field) => {
+  const value = toText(source?.[field]);
+  if (value.toLowerCase() === "other") return toText(source?.[`${field}Other`]);
+  return value;
+};
+
+const readStuds = (product) => {
+  if (toText(product?.studsPcdMode) === "special") {
+    const text = normalizeKey(product?.studsPcdSpecialText);
+    return text ? [`special:${text}`] : [];
+  }
+  const selections = Array.isArray(product?.studsPcdStandardSelections) ? product.studsPcdStandardSelections : [];
+  return selections.map(normalizeKey).filter(Boolean);
+};
+
+const readField = (source, { field, compare }) => {
+  if (compare === "numeric") return toNumber(source?.[field]);
+  if (compare === "studs") return readStuds(source);
+  if (compare === "option") return normalizeKey(resolveOption(source, field)) || null;
+  return normalizeKey(source?.[field]) || null;
+};
+
+const isEmpty = (value) => value === null || (Array.isArray(value) && value.length === 0);
+
+// Credit in [0, 1] for one field; numeric fields earn partial credit inside their relative tolerance.
+const fieldCredit = (spec, target, candidate) => {
+  if (isEmpty(candidate)) return 0;
+  if (spec.compare === "numeric") {
+    const scale = Math.max(Math.abs(target), Math.abs(candidate));
+    if (scale === 0) return 1;
+    const gap = Math.abs(target - candidate) / scale;
+    return gap >= spec.tolerance ? 0 : 1 - gap / spec.tolerance;
+  }
+  if (spec.compare === "studs") {
+    const offered = new Set(candidate);
+    return target.filter((item) => offered.has(item)).length / target.length;
+  }
+  return target === candidate ? 1 : 0;
+};
+
+// Scores `specs` of `candidate` against `target`. Returns `{ earned, possible, matched: [field] }`.
+const scoreFields = (specs, target, candidate) => {
+  let earned = 0;
+  let possible = 0;
+  const matched = [];
+  for (const spec of specs) {
+    const targetValue = readField(target, spec);
+    if (isEmpty(targetValue)) continue;
+    possible += spec.weight;
+    const credit = fieldCredit(spec, targetValue, readField(candidate, spec));
+    earned += spec.weight * credit;
+    if (credit >= 0.5) matched.push(spec.field);
+  }
+  return { earned, possible, matched };
+};
+
+// Legacy single-product requests keep their technical fields on the request itself.
+const readProducts = (data, products) => (Array.isArray(products) && products.length ? products : [data ?? {}]);
+
+// Each open product line is paired with its closest past line; the result is averaged over the open lines.
+const scoreProducts = (targetProducts, candidateProducts) => {
+  let earned = 0;
+  let possible = 0;
+  const matched = new Set();
+  for (const target of targetProducts) {
+    let best = null;
+    for (const candidate of candidateProducts) {
+      const result = scoreFields(PRODUCT_FIELDS, target, candidate);
+      if (!best || result.earned > best.earned) best = result;
+    }
+    if (!best) continue;
+    earned += best.earned / targetProducts.length;
+    possible += best.possible / targetProducts.length;
+    for (const field of best.matched) matched.add(field);
+  }
+  return { earned, possible, matched: Array.from(matched) };
+};
+
+// Returns `{ score, matchedFields }`, score 0-100.
+export const scoreSimilarRequest = (target, candidate) => {
+  const products = scoreProducts(
+    readProducts(target, target?.products),
+    readProducts(candidate, candidate?.products)
+  );
+  const request = scoreFields(REQUEST_FIELDS, target, candidate);
+  const possible = products.possible + request.possible;
+  if (possible === 0) return { score: 0, matchedFields: [] };
+  return {
+    score: Math.round(((products.earned + request.earned) / possible) * 100),
+    matchedFields: [...products.matched, ...request.matched],
+  };
+};
+
+const arrayOrEmpty = (expression) => `CASE WHEN jsonb_typeof(${expression}) = 'array' THEN ${expression} ELSE '[]'::jsonb END`;
+
+// Attachment payloads are left out: only their names are listed, the full request stays one click away.
+const loadCandidates = async (db, excludeId) => {
+  const { rows } = await db.query(
+    `
+    SELECT
+      r.id,
+      r.status,
+      r.created_at,
+      r.updated_at,
+      r.data - 'products' - 'attachments' - 'designResultAttachments' - 'costingAttachments' - 'salesAttachments'
+        - 'history' AS data,
+      COALESCE(
+        (SELECT jsonb_agg(p - 'attachments' - 'designResultAttachments')
+           FROM jsonb_array_elements(${arrayOrEmpty("r.data->'products'")}) p),
+        '[]'::jsonb
+      ) AS products,
+      COALESCE(
+        (SELECT jsonb_agg(jsonb_build_object('id', files.a->>'id', 'filename', files.a->>'filename'))
+           FROM (
+             SELECT jsonb_array_elements(${arrayOrEmpty("r.data->'designResultAttachments'")}) AS a
+             UNION ALL
+             SELECT jsonb_array_elements(${arrayOrEmpty("p->'designResultAttachments'")})
+               FROM jsonb_array_elements(${arrayOrEmpty("r.data->'products'")}) p
+           ) files),
+        '[]'::jsonb
+      ) AS design_result_files
+    FROM requests r
+    WHERE r.id <> $1 AND r.status <> 'draft'
+    ORDER BY r.updated_at DESC
+    LIMIT $2
+    `,
+    [excludeId, SCAN_LIMIT]
+  );
+  return rows;
+};
+
+// Closest past requests to `target` (a request with normalized product lines), best first.
+export const findSimilarRequests = async (db, target, { limit = DEFAULT_LIMIT } = {}) => {
+  const rows = await loadCandidates(db, target.id);
+  return rows
+    .map((row) => {
+      const data = row.data ?? {};
+      const { score, matchedFields } = scoreSimilarRequest(target, { ...data, products: row.products });
+      return { row, data, score, matchedFields };
+    })
+    .filter((item) => item.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || new Date(b.row.updated_at) - new Date(a.row.updated_at))
+    .slice(0, limit)
+    .map(({ row, data, score, matchedFields }) => ({
+      id: row.id,
+      status: row.status,
+      clientName: toText(data.clientName),
+      applicationVehicle: resolveOption(data, "applicationVehicle"),
+      country: resolveOption(data, "country"),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      score,
+      matchedFields,
+      designResult: {
+        comments: toText(data.designResultComments),
+        bomFolderLink: toText(data.designResultBomFolderLink),
+        files: Array.isArray(row.design_result_files) ? row.design_result_files : [],
+      },
+      finalPrice: resolveRequestFinalPrice(data),
+    }));
+};
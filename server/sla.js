@@ -0,0 +1,298 @@
+// SLA policy per workflow stage: target business hours per request status (optionally per priority),
+// counted on a business calendar (working days, working hours, holidays) in the company time zone.
+
+export const SLA_PRIORITY_ANY = "*";
+export const SLA_PRIORITIES = Object.freeze([SLA_PRIORITY_ANY, "urgent", "high", "normal", "low"]);
+export const SLA_MAX_TARGET_HOURS = 2000;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Guards the calendar walk against a calendar with no working time left (e.g. every day a holiday).
+const MAX_CALENDAR_DAYS = 3660;
+
+export const DEFAULT_SLA_SETTINGS = Object.freeze({
+  enabled: true,
+  timezone: "Asia/Shanghai",
+  workdayStart: "08:30",
+  workdayEnd: "17:30",
+  workingDays: [1, 2, 3, 4, 5],
+  warningPercent: 80,
+});
+
+const toMinuteOfDay = (value) => {
+  const match = TIME_PATTERN.exec(String(value ?? "").trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+const formatMinuteOfDay = (minutes) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+const isValidTimeZone = (value) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toDateKey = (value) => {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? "" : value.toISOString().slice(0, 10);
+  const text = String(value ?? "").trim().slice(0, 10);
+  return DATE_PATTERN.test(text) ? text : "";
+};
+
+export const mapSlaSettingsRow = (row) => {
+  const start = Number.parseInt(String(row?.workday_start_minute ?? ""), 10);
+  const end = Number.parseInt(String(row?.workday_end_minute ?? ""), 10);
+  const workingDays = Array.isArray(row?.working_days)
+    ? row.working_days.map((day) => Number(day)).filter((day) => day >= 1 && day <= 7)
+    : DEFAULT_SLA_SETTINGS.workingDays;
+  return {
+    enabled: row ? row.enabled !== false : DEFAULT_SLA_SETTINGS.enabled,
+    timezone: isValidTimeZone(row?.timezone) ? row.timezone : DEFAULT_SLA_SETTINGS.timezone,
+    workdayStart: Number.isFinite(start) ? formatMinuteOfDay(start) : DEFAULT_SLA_SETTINGS.workdayStart,
+    workdayEnd: Number.isFinite(end) ? formatMinuteOfDay(end) : DEFAULT_SLA_SETTINGS.workdayEnd,
+    workingDays: workingDays.length ? Array.from(new Set(workingDays)).sort() : DEFAULT_SLA_SETTINGS.workingDays,
+    warningPercent: Number.isFinite(Number(row?.warning_percent))
+      ? Number(row.warning_percent)
+      : DEFAULT_SLA_SETTINGS.warningPercent,
+    updatedAt: row?.updated_at ?? null,
+  };
+};
+
+// Validates the admin payload for PUT /api/admin/sla. Returns `{ value }` or `{ error }`.
+export const parseSlaConfigPayload = (body, { isKnownStatus }) => {
+  const settings = body?.settings ?? {};
+  const timezone = String(settings.timezone ?? "").trim();
+  if (!timezone || !isValidTimeZone(timezone)) return { error: "Invalid time zone" };
+
+  const startMinute = toMinuteOfDay(settings.workdayStart);
+  const endMinute = toMinuteOfDay(settings.workdayEnd);
+  if (startMinute === null || endMinute === null) return { error: "Working hours must use HH:MM" };
+  if (startMinute >= endMinute) return { error: "Working day must end after it starts" };
+
+  const workingDays = Array.isArray(settings.workingDays)
+    ? Array.from(new Set(settings.workingDays.map((day) => Number(day)))).filter((day) => Number.isInteger(day) && day >= 1 && day <= 7)
+    : [];
+  if (!workingDays.length) return { error: "Select at least one working day" };
+
+  const warningPercent = Number(settings.warningPercent);
+  if (!Number.isInteger(warningPercent) || warningPercent < 10 || warningPercent > 99) {
+    return { error: "Warning threshold must be between 10 and 99 percent" };
+  }
+
+  const policies = [];
+  for (const entry of Array.isArray(body?.policies) ? body.policies : []) {
+    const status = String(entry?.status ?? "").trim();
+    const priority = String(entry?.priority ?? SLA_PRIORITY_ANY).trim().toLowerCase() || SLA_PRIORITY_ANY;
+    if (!isKnownStatus(status)) return { error: `Unknown status in SLA policy: ${status || "(empty)"}` };
+    if (!SLA_PRIORITIES.includes(priority)) return { error: `Invalid SLA priority: ${priority}` };
+    const targetHours = Number(entry?.targetHours);
+    if (!Number.isFinite(targetHours) || targetHours <= 0 || targetHours > SLA_MAX_TARGET_HOURS) {
+      return { error: `Target hours for ${status} must be between 0 and ${SLA_MAX_TARGET_HOURS}` };
+    }
+    if (policies.some((policy) => policy.status === status && policy.priority === priority)) continue;
+    policies.push({ status, priority, targetHours: Math.round(targetHours * 100) / 100 });
+  }
+
+  const holidays = [];
+  for (const entry of Array.isArray(body?.holidays) ? body.holidays : []) {
+    const date = toDateKey(entry?.date);
+    if (!date || Number.isNaN(new Date(`${date}T00:00:00Z`).getTime())) return { error: "Holidays must use YYYY-MM-DD" };
+    if (holidays.some((holiday) => holiday.date === date)) continue;
+    holidays.push({ date, label: String(entry?.label ?? "").trim().slice(0, 120) });
+  }
+
+  return {
+    value: {
+      settings: { enabled: settings.enabled !== false, timezone, startMinute, endMinute, workingDays, warningPercent },
+      policies,
+      holidays,
+    },
+  };
+};
+
+export const getSlaConfig = async (db) => {
+  const [settingsResult, policiesResult, holidaysResult] = await Promise.all([
+    db.query("SELECT * FROM sla_settings WHERE id = 1"),
+    db.query("SELECT status, priority, target_hours FROM sla_policies ORDER BY status, priority"),
+    db.query("SELECT holiday_date::text AS holiday_date, label FROM sla_holidays ORDER BY holiday_date"),
+  ]);
+  return {
+    settings: mapSlaSettingsRow(settingsResult.rows[0] ?? null),
+    policies: policiesResult.rows.map((row) => ({
+      status: row.status,
+      priority: row.priority,
+      targetHours: Number(row.target_hours),
+    })),
+    holidays: holidaysResult.rows.map((row) => ({ date: toDateKey(row.holiday_date), label: row.label ?? "" })),
+  };
+};
+
+// Replaces the whole configuration; callers run this inside a transaction.
+export const saveSlaConfig = async (client, { settings, policies, holidays }, { userId }) => {
+  await client.query(
+    `
+    INSERT INTO sla_settings
+      (id, enabled, timezone, workday_start_minute, workday_end_minute, working_days, warning_percent, updated_at, updated_by_user_id)
+    VALUES (1, $1, $2, $3, $4, $5::int[], $6, now(), $7)
+    ON CONFLICT (id) DO UPDATE SET
+      enabled = EXCLUDED.enabled,
+      timezone = EXCLUDED.timezone,
+      workday_start_minute = EXCLUDED.workday_start_minute,
+      workday_end_minute = EXCLUDED.workday_end_minute,
+      working_days = EXCLUDED.working_days,
+      warning_percent = EXCLUDED.warning_percent,
+      updated_at = now(),
+      updated_by_user_id = EXCLUDED.updated_by_user_id
+    `,
+    [
+      settings.enabled,
+      settings.timezone,
+      settings.startMinute,
+      settings.endMinute,
+      settings.workingDays,
+      settings.warningPercent,
+      userId || null,
+    ]
+  );
+  await client.query("DELETE FROM sla_policies");
+  if (policies.length) {
+    await client.query(
+      `
+      INSERT INTO sla_policies (status, priority, target_hours)
+      SELECT * FROM unnest($1::text[], $2::text[], $3::numeric[])
+      `,
+      [policies.map((p) => p.status), policies.map((p) => p.priority), policies.map((p) => p.targetHours)]
+    );
+  }
+  await client.query("DELETE FROM sla_holidays");
+  if (holidays.length) {
+    await client.query(
+      `
+      INSERT INTO sla_holidays (holiday_date, label)
+      SELECT * FROM unnest($1::date[], $2::text[])
+      `,
+      [holidays.map((h) => h.date), holidays.map((h) => h.label)]
+    );
+  }
+};
+
+// A priority-specific target wins over the "*" row for the same status.
+export const resolveSlaTargetHours = (policies, status, priority) => {
+  const normalizedPriority = String(priority ?? "").trim().toLowerCase() || "normal";
+  const exact = policies.find((policy) => policy.status === status && policy.priority === normalizedPriority);
+  if (exact) return exact.targetHours;
+  const fallback = policies.find((policy) => policy.status === status && policy.priority === SLA_PRIORITY_ANY);
+  return fallback ? fallback.targetHours : null;
+};
+
+const formatterCache = new Map();
+
+const getZonedParts = (date, timeZone) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  const parts = {};
+  for (const part of formatter.formatToParts(date)) parts[part.type] = part.value;
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    minuteOfDay: Number(parts.hour) * 60 + Number(parts.minute) + Number(parts.second) / 60,
+  };
+};
+
+const getTimeZoneOffsetMs = (utcMs, timeZone) => {
+  const parts = getZonedParts(new Date(utcMs), timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day) + parts.minuteOfDay * 60_000;
+  return Math.round((asUtc - utcMs) / 60_000) * 60_000;
+};
+
+// Converts a wall-clock time in `timeZone` to an instant; re-checks the offset once for DST changes.
+const zonedTimeToUtc = (year, month, day, minuteOfDay, timeZone) => {
+  const wallMs = Date.UTC(year, month - 1, day) + minuteOfDay * 60_000;
+  let utcMs = wallMs - getTimeZoneOffsetMs(wallMs, timeZone);
+  const corrected = wallMs - getTimeZoneOffsetMs(utcMs, timeZone);
+  if (corrected !== utcMs) utcMs = corrected;
+  return new Date(utcMs);
+};
+
+export const buildSlaCalendar = ({ settings, holidays }) => ({
+  timeZone: settings.timezone,
+  startMinute: toMinuteOfDay(settings.workdayStart) ?? 0,
+  endMinute: toMinuteOfDay(settings.workdayEnd) ?? 24 * 60,
+  workingDays: new Set(settings.workingDays),
+  holidays: new Set(holidays.map((holiday) => holiday.date)),
+});
+
+// Walks the business calendar from `start` and returns the instant after `hours` working hours.
+export const addBusinessHours = (start, hours, calendar) => {
+  let remaining = Math.max(0, Number(hours) || 0) * 60;
+  const startParts = getZonedParts(start, calendar.timeZone);
+  let cursorDay = Date.UTC(startParts.year, startParts.month - 1, startParts.day);
+  let cursorMinute = startParts.minuteOfDay;
+
+  for (let index = 0; index < MAX_CALENDAR_DAYS; index += 1) {
+    const day = new Date(cursorDay);
+    const isoWeekday = day.getUTCDay() === 0 ? 7 : day.getUTCDay();
+    const dateKey = day.toISOString().slice(0, 10);
+    if (calendar.workingDays.has(isoWeekday) && !calendar.holidays.has(dateKey)) {
+      const from = Math.max(cursorMinute, calendar.startMinute);
+      if (from < calendar.endMinute) {
+        const available = calendar.endMinute - from;
+        if (remaining <= available) {
+          return zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), from + remaining, calendar.timeZone);
+        }
+        remaining -= available;
+      }
+    }
+    cursorDay += 24 * 60 * 60 * 1000;
+    cursorMinute = 0;
+  }
+  return null;
+};
+
+// The current stage starts at the latest history entry for the current status.
+export const resolveStageStartedAt = (request, fallback) => {
+  const status = String(request?.status ?? "");
+  const history = Array.isArray(request?.history) ? request.history : [];
+  let latest = null;
+  for (const entry of history) {
+    if (String(entry?.status ?? "") !== status) continue;
+    const ts = new Date(entry?.timestamp ?? "");
+    if (Number.isNaN(ts.getTime())) continue;
+    if (!latest || ts > latest) latest = ts;
+  }
+  if (latest) return latest;
+  const fallbackDate = fallback ? new Date(fallback) : null;
+  return fallbackDate && !Number.isNaN(fallbackDate.getTime()) ? fallbackDate : null;
+};
+
+export const computeStageSla = ({ status, priority, stageStartedAt }, { policies, calendar, warningPercent }) => {
+  const targetHours = resolveSlaTargetHours(policies, status, priority);
+  if (!targetHours || !stageStartedAt) return null;
+  const dueAt = addBusinessHours(stageStartedAt, targetHours, calendar);
+  if (!dueAt) return null;
+  const warningAt = addBusinessHours(stageStartedAt, (targetHours * warningPercent) / 100, calendar) ?? dueAt;
+  return { targetHours, dueAt, warningAt };
+};
+
+// SQL expression for the live SLA state of a `request_sla_state` row aliased as `alias`.
+export const slaStateSql = (alias = "s") =>
+  `CASE WHEN ${alias}.due_at IS NULL THEN NULL
+        WHEN ${alias}.due_at <= now() THEN 'breached'
+        WHEN ${alias}.warning_at <= now() THEN 'at_risk'
+        ELSE 'on_track' END`;
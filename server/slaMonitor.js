@@ -0,0 +1,154 @@
+import { getPool } from "./db.js";
+import { buildSlaCalendar, computeStageSla, getSlaConfig, resolveStageStartedAt } from "./sla.js";
+
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+// Breaches older than this when first detected (e.g. right after enabling SLAs) are recorded without escalating.
+const ESCALATION_MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Recomputes due dates for every request sitting in a stage with an SLA policy.
+// A row keeps its "notified" markers only while the request stays in the same stage.
+export const refreshRequestSlaStates = async (pool) => {
+  const config = await getSlaConfig(pool);
+  if (!config.settings.enabled) {
+    await pool.query("DELETE FROM request_sla_state");
+    return { tracked: 0 };
+  }
+
+  const statuses = Array.from(new Set(config.policies.map((policy) => policy.status)));
+  if (!statuses.length) {
+    await pool.query("DELETE FROM request_sla_state");
+    return { tracked: 0 };
+  }
+
+  const { rows } = await pool.query(
+    `
+    SELECT id, status, updated_at, data->>'priority' AS priority, data->'history' AS history
+      FROM requests
+     WHERE status = ANY($1::text[])
+    `,
+    [statuses]
+  );
+
+  const calendar = buildSlaCalendar(config);
+  const tracked = [];
+  for (const row of rows) {
+    const stageStartedAt = resolveStageStartedAt({ status: row.status, history: row.history }, row.updated_at);
+    const sla = computeStageSla(
+      { status: row.status, priority: row.priority, stageStartedAt },
+      { policies: config.policies, calendar, warningPercent: config.settings.warningPercent }
+    );
+    if (!sla) continue;
+    tracked.push({ id: row.id, status: row.status, priority: row.priority || "normal", stageStartedAt, ...sla });
+  }
+
+  await pool.query(
+    `
+    INSERT INTO request_sla_state
+      (request_id, status, priority, stage_started_at, target_hours, due_at, warning_at, computed_at)
+    SELECT t.request_id, t.status, t.priority, t.stage_started_at, t.target_hours, t.due_at, t.warning_at, now()
+      FROM unnest($1::text[], $2::text[], $3::text[], $4::timestamptz[], $5::numeric[], $6::timestamptz[], $7::timestamptz[])
+        AS t(request_id, status, priority, stage_started_at, target_hours, due_at, warning_at)
+    ON CONFLICT (request_id) DO UPDATE SET
+      warning_notified_at = CASE
+        WHEN request_sla_state.status = EXCLUDED.status AND request_sla_state.stage_started_at = EXCLUDED.stage_started_at
+        THEN request_sla_state.warning_notified_at END,
+      breach_notified_at = CASE
+        WHEN request_sla_state.status = EXCLUDED.status AND request_sla_state.stage_started_at = EXCLUDED.stage_started_at
+        THEN request_sla_state.breach_notified_at END,
+      status = EXCLUDED.status,
+      priority = EXCLUDED.priority,
+      stage_started_at = EXCLUDED.stage_started_at,
+      target_hours = EXCLUDED.target_hours,
+      due_at = EXCLUDED.due_at,
+      warning_at = EXCLUDED.warning_at,
+      computed_at = now()
+    `,
+    [
+      tracked.map((item) => item.id),
+      tracked.map((item) => item.status),
+      tracked.map((item) => item.priority),
+      tracked.map((item) => item.stageStartedAt),
+      tracked.map((item) => item.targetHours),
+      tracked.map((item) => item.dueAt),
+      tracked.map((item) => item.warningAt),
+    ]
+  );
+  await pool.query("DELETE FROM request_sla_state WHERE NOT (request_id = ANY($1::text[]))", [
+    tracked.map((item) => item.id),
+  ]);
+
+  return { tracked: tracked.length };
+};
+
+const listPendingEscalations = async (pool) => {
+  const { rows } = await pool.query(
+    `
+    SELECT s.request_id, s.status, s.due_at, s.warning_at, s.warning_notified_at, s.breach_notified_at, r.data
+      FROM request_sla_state s
+      JOIN requests r ON r.id = s.request_id AND r.status = s.status
+     WHERE (s.due_at <= now() AND s.breach_notified_at IS NULL)
+        OR (s.warning_at <= now() AND s.due_at > now() AND s.warning_notified_at IS NULL)
+     ORDER BY s.due_at
+     LIMIT 200
+    `
+  );
+  return rows;
+};
+
+const markEscalated = (pool, requestId, level) =>
+  pool.query(
+    level === "breached"
+      ? "UPDATE request_sla_state SET breach_notified_at = now(), warning_notified_at = COALESCE(warning_notified_at, now()) WHERE request_id = $1"
+      : "UPDATE request_sla_state SET warning_notified_at = now() WHERE request_id = $1",
+    [requestId]
+  );
+
+// `onEscalation(pool, { request, level, dueAt })` sends the in-app/M365 notifications (see api.js).
+export const startSlaMonitor = ({ intervalMs = DEFAULT_INTERVAL_MS, onEscalation } = {}) => {
+  const effectiveIntervalMs = Number.parseInt(String(intervalMs ?? DEFAULT_INTERVAL_MS), 10);
+  const cadenceMs = Number.isFinite(effectiveIntervalMs) && effectiveIntervalMs >= 30_000
+    ? effectiveIntervalMs
+    : DEFAULT_INTERVAL_MS;
+
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const pool = await getPool();
+      await refreshRequestSlaStates(pool);
+
+      let escalated = 0;
+      for (const row of await listPendingEscalations(pool)) {
+        const level = new Date(row.due_at) <= new Date() ? "breached" : "warning";
+        const dueAt = new Date(row.due_at);
+        const isStale = level === "breached" && Date.now() - dueAt.getTime() > ESCALATION_MAX_AGE_MS;
+        if (!isStale && typeof onEscalation === "function") {
+          try {
+            await onEscalation(pool, {
+              request: { ...(row.data ?? {}), id: row.request_id, status: row.status },
+              level,
+              dueAt: dueAt.toISOString(),
+            });
+            escalated += 1;
+          } catch (error) {
+            console.error("[sla] escalation failed:", row.request_id, error?.message ?? error);
+            continue;
+          }
+        }
+        await markEscalated(pool, row.request_id, level);
+      }
+      if (escalated) console.info("[sla] escalations sent", JSON.stringify({ count: escalated }));
+    } catch (error) {
+      console.error("[sla] monitor tick failed:", error?.message ?? error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, cadenceMs);
+  timer.unref?.();
+  void tick();
+  return () => clearInterval(timer);
+};
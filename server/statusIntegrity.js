@@ -1,3 +1,4 @@
+// Known request statuses in lifecycle order. Allowed transitions are admin-editable (see workflow.js).
 const WORKFLOW_STATUS_ORDER = Object.freeze([
   "draft",
   "submitted",
@@ -17,23 +18,6 @@ const WORKFLOW_STATUS_ORDER = Object.freeze([
 
 const toTransitionSet = (values) => new Set(values.map((value) => String(value ?? "").trim()));
 
-const REQUEST_STATUS_TRANSITIONS = Object.freeze({
-  draft: toTransitionSet(["submitted", "cancelled"]),
-  submitted: toTransitionSet(["under_review", "clarification_needed", "cancelled"]),
-  under_review: toTransitionSet(["feasibility_confirmed", "design_result", "clarification_needed", "cancelled"]),
-  clarification_needed: toTransitionSet(["submitted", "cancelled"]),
-  feasibility_confirmed: toTransitionSet(["design_result", "in_costing", "cancelled"]),
-  design_result: toTransitionSet(["in_costing", "costing_complete", "cancelled"]),
-  in_costing: toTransitionSet(["costing_complete", "clarification_needed", "cancelled"]),
-  costing_complete: toTransitionSet(["sales_followup", "gm_approval_pending", "cancelled", "closed"]),
-  sales_followup: toTransitionSet(["gm_approval_pending", "gm_approved", "cancelled", "closed"]),
-  gm_approval_pending: toTransitionSet(["gm_approved", "gm_rejected", "cancelled"]),
-  gm_approved: toTransitionSet(["closed"]),
-  gm_rejected: toTransitionSet(["sales_followup", "gm_approval_pending", "cancelled"]),
-  closed: toTransitionSet([]),
-  cancelled: toTransitionSet([]),
-});
-
 const CONTRACT_APPROVAL_STATUS_ORDER = Object.freeze([
   "draft",
   "submitted",
@@ -127,23 +111,6 @@ export const isKnownRequestStatus = (status) => WORKFLOW_STATUS_SET.has(String(s
 export const isKnownContractApprovalStatus = (status) =>
   CONTRACT_APPROVAL_STATUS_SET.has(String(status ?? "").trim());
 
-export const isAllowedStatusTransition = (fromStatus, toStatus) => {
-  const from = String(fromStatus ?? "").trim();
-  const to = String(toStatus ?? "").trim();
-  if (!to || !isKnownRequestStatus(to)) return false;
-  if (!from || !isKnownRequestStatus(from)) return false;
-  if (from === to) return true;
-  const allowed = REQUEST_STATUS_TRANSITIONS[from];
-  if (!allowed) return false;
-  return allowed.has(to);
-};
-
-export const getAllowedStatusTransitions = (status) => {
-  const normalized = String(status ?? "").trim();
-  if (!isKnownRequestStatus(normalized)) return [];
-  return Array.from(REQUEST_STATUS_TRANSITIONS[normalized] ?? []);
-};
-
 export const isAllowedContractApprovalStatusTransition = (fromStatus, toStatus) => {
   const from = String(fromStatus ?? "").trim();
   const to = String(toStatus ?? "").trim();
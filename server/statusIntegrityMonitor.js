@@ -1,6 +1,7 @@
 import { randomUUID } from "node:crypto";
 import { getPool } from "./db.js";
 import { getM365Settings, getM365TokenState, parseEmailList } from "./m365.js";
+import { publishRealtimeEvent } from "./realtime.js";
 import { generateStatusIntegrityReport } from "./statusIntegrity.js";
 
 const DEFAULT_INTERVAL_MS = 24 * 60 * 60 * 1000;
@@ -32,6 +33,7 @@ const enqueueInAppIntegrityAlerts = async (pool, report) => {
   if (!admins?.length) return 0;
 
   let inserted = 0;
+  const notifiedUserIds = [];
   for (const admin of admins) {
     const { rowCount } = await pool.query(
       `
@@ -44,8 +46,10 @@ const enqueueInAppIntegrityAlerts = async (pool, report) => {
       [randomUUID(), String(admin.id), title, body, JSON.stringify(payload)]
     );
     inserted += rowCount ?? 0;
+    if (rowCount) notifiedUserIds.push(String(admin.id));
   }
 
+  publishRealtimeEvent("notification.created", { notificationType: "status_integrity_alert" }, { userIds: notifiedUserIds });
   return inserted;
 };
 
@@ -0,0 +1,148 @@
+// Field validation rules checked before a request moves to a status (POST /api/requests/:id/status).
+// Rules are keyed by target status and served with the workflow (GET /api/workflow) so the request
+// form reports the same issues inline (src/lib/transitionRules.ts evaluates them the same way).
+// Admin-picked transition fields (workflow.js) are checked separately; these rules cover the checks
+// a simple "is filled" test cannot express.
+
+const CURRENCIES = ["USD", "EUR", "RMB"];
+const VAT_MODES = ["with", "without"];
+const VAT_APPLIES = { field: "vatMode", equals: "with" };
+const SALES_VAT_APPLIES = { field: "salesVatMode", equals: "with" };
+
+export const TRANSITION_RULES = Object.freeze({
+  submitted: [
+    { field: "sellingCurrency", check: "oneOf", values: CURRENCIES, message: "Currency is required before submission" },
+    { field: "incoterm", check: "required", message: "Incoterm is required before submission" },
+    {
+      field: "incotermOther",
+      check: "required",
+      when: { field: "incoterm", equals: "other" },
+      message: "Incoterm detail is required when Incoterm is Other",
+    },
+    { field: "vatMode", check: "oneOf", values: VAT_MODES, message: "Taxation is required before submission" },
+    {
+      field: "clientAddressDelivery",
+      check: "required",
+      message: "Client Address Delivery is required before submission",
+    },
+  ],
+  design_result: [
+    {
+      field: "products",
+      check: "eachRequired",
+      itemFields: ["offerProductName", "offerProductPartNumber"],
+      message: "Product Name and Product Part Number are required for item(s): {items}",
+    },
+  ],
+  costing_complete: [
+    { field: "sellingPrice", check: "positive", message: "Selling price must be greater than 0" },
+    { field: "sellingCurrency", check: "oneOf", values: CURRENCIES, message: "Currency is required before completing costing" },
+    { field: "calculatedMargin", check: "number", message: "Margin is required before completing costing" },
+    { field: "incoterm", check: "required", message: "Incoterm is required before completing costing" },
+    {
+      field: "incotermOther",
+      check: "required",
+      when: { field: "incoterm", equals: "other" },
+      message: "Incoterm detail is required when Incoterm is Other",
+    },
+    { field: "vatMode", check: "oneOf", values: VAT_MODES, message: "Taxation is required before completing costing" },
+    { field: "vatRate", check: "number", when: VAT_APPLIES, message: "VAT rate is required when VAT applies" },
+  ],
+  gm_approval_pending: [
+    { field: "salesFinalPrice", check: "positive", message: "Final agreed price must be greater than 0" },
+    { field: "salesVatRate", check: "number", when: SALES_VAT_APPLIES, message: "VAT rate is required when VAT applies" },
+    { field: "salesMargin", check: "number", message: "Sales margin is required before GM approval" },
+    { field: "salesExpectedDeliveryDate", check: "required", message: "Expected delivery date is required before GM approval" },
+    {
+      field: "salesPaymentTerms",
+      check: "eachRequired",
+      itemFields: ["paymentName", "paymentPercent"],
+      message: "Payment name and percentage are required for payment(s): {items}",
+    },
+    {
+      field: "salesPaymentTerms",
+      check: "sum",
+      itemField: "paymentPercent",
+      total: 100,
+      message: "Payment percentages must total exactly 100%",
+    },
+  ],
+});
+
+// Rounding slack for the "sum" check (percents typed with decimals).
+const SUM_TOLERANCE = 0.01;
+
+const toNumber = (value) => {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number.parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const isFilled = (value) => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (typeof value === "number") return Number.isFinite(value);
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+};
+
+const normalizeText = (value) => String(value ?? "").trim().toLowerCase();
+
+const ruleApplies = (rule, request) => !rule.when || normalizeText(request?.[rule.when.field]) === normalizeText(rule.when.equals);
+
+// Returns the 1-based positions of the items failing the rule, or null when the rule passes.
+const checkRule = (rule, request) => {
+  const value = request?.[rule.field];
+  switch (rule.check) {
+    case "required":
+      return isFilled(value) ? null : [];
+    case "number":
+      return toNumber(value) === null ? [] : null;
+    case "positive": {
+      const number = toNumber(value);
+      return number !== null && number > 0 ? null : [];
+    }
+    case "oneOf": {
+      const wanted = normalizeText(value);
+      return rule.values.some((option) => normalizeText(option) === wanted) ? null : [];
+    }
+    case "eachRequired": {
+      const items = Array.isArray(value) ? value : [];
+      if (!items.length) return [];
+      const failing = items
+        .map((item, index) => (rule.itemFields.every((field) => isFilled(item?.[field])) ? null : index + 1))
+        .filter((position) => position !== null);
+      return failing.length ? failing : null;
+    }
+    case "sum": {
+      const items = Array.isArray(value) ? value : [];
+      const total = items.reduce((sum, item) => sum + (toNumber(item?.[rule.itemField]) ?? 0), 0);
+      return Math.abs(total - rule.total) < SUM_TOLERANCE ? null : [];
+    }
+    default:
+      return null;
+  }
+};
+
+export const getTransitionRules = (status) => TRANSITION_RULES[String(status ?? "").trim()] ?? [];
+
+// Evaluates the rules for `status` against a request-shaped object.
+// Returns `[{ field, check, items, message }]`; empty when the request may move on.
+export const evaluateTransitionRules = (request, status) => {
+  const issues = [];
+  for (const rule of getTransitionRules(status)) {
+    if (!ruleApplies(rule, request)) continue;
+    const items = checkRule(rule, request);
+    if (!items) continue;
+    issues.push({
+      field: rule.field,
+      check: rule.check,
+      items,
+      message: rule.message.replace("{items}", items.join(", ")),
+    });
+  }
+  return issues;
+};
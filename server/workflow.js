@@ -0,0 +1,269 @@
+// Request workflow definition (GET /api/workflow, GET/PUT /api/admin/workflow).
+// States route a status to the roles notified in-app and the next-action owner; transitions list the
+// roles allowed to fire them, the request fields that must be filled first and whether a comment is
+// required. The set of statuses itself stays fixed (see statusIntegrity.js): panels are built per status.
+
+import { hasPermission, hasRole } from "./permissions.js";
+import { getWorkflowStatusOrder, isKnownRequestStatus } from "./statusIntegrity.js";
+
+export const WORKFLOW_ROLES = Object.freeze(["sales", "design", "costing", "admin", "finance", "cashier"]);
+export const WORKFLOW_NEXT_ACTION_ROLES = Object.freeze(["sales", "design", "costing", "admin", "none"]);
+export const WORKFLOW_NEXT_ACTION_LABEL_MAX_LENGTH = 60;
+// Transitions a user may also fire through a granted permission, whatever roles the transition lists.
+export const WORKFLOW_TRANSITION_PERMISSIONS = Object.freeze({ gm_approved: "approve_gm", gm_rejected: "approve_gm" });
+
+// Request fields an admin can make mandatory for a transition.
+export const WORKFLOW_REQUIRED_FIELDS = Object.freeze([
+  "clientName",
+  "clientContact",
+  "clientAddressDelivery",
+  "country",
+  "applicationVehicle",
+  "expectedQty",
+  "clientExpectedDeliveryDate",
+  "acceptanceMessage",
+  "expectedDesignReplyDate",
+  "designResultComments",
+  "designResultBomFolderLink",
+  "designResultAttachments",
+  "costingNotes",
+  "sellingPrice",
+  "sellingCurrency",
+  "calculatedMargin",
+  "incoterm",
+  "vatMode",
+  "deliveryLeadtime",
+  "costingAttachments",
+  "salesFinalPrice",
+  "salesCurrency",
+  "salesIncoterm",
+  "salesVatMode",
+  "salesMargin",
+  "salesWarrantyPeriod",
+  "salesOfferValidityPeriod",
+  "salesExpectedDeliveryDate",
+  "salesPaymentTerms",
+  "salesFeedbackComment",
+  "salesAttachments",
+]);
+
+const ROLE_LABELS = Object.freeze({ sales: "Sales", design: "Design", costing: "Costing", admin: "Admin" });
+// Admin saves invalidate the cache immediately; the TTL only matters for other server processes.
+const CACHE_TTL_MS = 60 * 1000;
+
+let cachedDefinition = null;
+let cachedAt = 0;
+
+const toRoleList = (value, allowed) => {
+  if (!Array.isArray(value)) return [];
+  const out = [];
+  for (const item of value) {
+    const role = String(item ?? "").trim().toLowerCase();
+    if (allowed.includes(role) && !out.includes(role)) out.push(role);
+  }
+  return out;
+};
+
+const toFieldList = (value) => {
+  if (!Array.isArray(value)) return [];
+  const out = [];
+  for (const item of value) {
+    const field = String(item ?? "").trim();
+    if (WORKFLOW_REQUIRED_FIELDS.includes(field) && !out.includes(field)) out.push(field);
+  }
+  return out;
+};
+
+const mapStateRow = (row) => ({
+  status: row.status,
+  notifyRoles: toRoleList(row.notify_roles, WORKFLOW_ROLES),
+  nextActionRole: WORKFLOW_NEXT_ACTION_ROLES.includes(row.next_action_role) ? row.next_action_role : "none",
+  nextActionLabel: String(row.next_action_label ?? ""),
+});
+
+const mapTransitionRow = (row) => ({
+  from: row.from_status,
+  to: row.to_status,
+  roles: toRoleList(row.roles, WORKFLOW_ROLES),
+  requiredFields: toFieldList(row.required_fields),
+  commentRequired: row.comment_required === true,
+});
+
+// Every known status gets a state, even if its row is missing, so lookups never come back empty.
+const buildDefinition = ({ stateRows, transitionRows, updatedAt }) => {
+  const statesByStatus = new Map(stateRows.map((row) => [row.status, mapStateRow(row)]));
+  const states = getWorkflowStatusOrder().map(
+    (status) => statesByStatus.get(status) ?? { status, notifyRoles: [], nextActionRole: "none", nextActionLabel: "" }
+  );
+  const transitions = transitionRows
+    .map(mapTransitionRow)
+    .filter((transition) => isKnownRequestStatus(transition.from) && isKnownRequestStatus(transition.to));
+  return { states, transitions, updatedAt: updatedAt ?? null };
+};
+
+export const loadWorkflowDefinition = async (db) => {
+  const [statesResult, transitionsResult, settingsResult] = await Promise.all([
+    db.query("SELECT * FROM workflow_states ORDER BY sort_order, status"),
+    db.query("SELECT * FROM workflow_transitions ORDER BY from_status, to_status"),
+    db.query("SELECT updated_at FROM workflow_settings WHERE id = 1"),
+  ]);
+  cachedDefinition = buildDefinition({
+    stateRows: statesResult.rows,
+    transitionRows: transitionsResult.rows,
+    updatedAt: settingsResult.rows[0]?.updated_at ?? null,
+  });
+  cachedAt = Date.now();
+  return cachedDefinition;
+};
+
+export const getWorkflowDefinition = async (db) => {
+  if (cachedDefinition && Date.now() - cachedAt < CACHE_TTL_MS) return cachedDefinition;
+  return loadWorkflowDefinition(db);
+};
+
+// Validates the admin payload for PUT /api/admin/workflow. Returns `{ value }` or `{ error }`.
+export const parseWorkflowDefinitionPayload = (body) => {
+  const rawStates = Array.isArray(body?.states) ? body.states : [];
+  const states = [];
+  for (const raw of rawStates) {
+    const status = String(raw?.status ?? "").trim();
+    if (!isKnownRequestStatus(status)) return { error: `Unknown workflow state: ${status || "(empty)"}` };
+    if (states.some((state) => state.status === status)) return { error: `Duplicate workflow state: ${status}` };
+    const nextActionRole = String(raw?.nextActionRole ?? "none").trim().toLowerCase();
+    if (!WORKFLOW_NEXT_ACTION_ROLES.includes(nextActionRole)) {
+      return { error: `Invalid next-action role for ${status}` };
+    }
+    const nextActionLabel = String(raw?.nextActionLabel ?? "").trim();
+    if (nextActionLabel.length > WORKFLOW_NEXT_ACTION_LABEL_MAX_LENGTH) {
+      return { error: `Next-action label for ${status} is too long` };
+    }
+    states.push({
+      status,
+      notifyRoles: toRoleList(raw?.notifyRoles, WORKFLOW_ROLES),
+      nextActionRole,
+      nextActionLabel,
+    });
+  }
+
+  const rawTransitions = Array.isArray(body?.transitions) ? body.transitions : [];
+  const transitions = [];
+  for (const raw of rawTransitions) {
+    const from = String(raw?.from ?? "").trim();
+    const to = String(raw?.to ?? "").trim();
+    if (!isKnownRequestStatus(from) || !isKnownRequestStatus(to)) {
+      return { error: `Unknown status in transition ${from || "?"} -> ${to || "?"}` };
+    }
+    if (from === to) return { error: `Transition ${from} -> ${to} must change the status` };
+    if (transitions.some((item) => item.from === from && item.to === to)) {
+      return { error: `Duplicate transition ${from} -> ${to}` };
+    }
+    const roles = toRoleList(raw?.roles, WORKFLOW_ROLES);
+    if (!roles.length) return { error: `Transition ${from} -> ${to} needs at least one role` };
+    transitions.push({
+      from,
+      to,
+      roles,
+      requiredFields: toFieldList(raw?.requiredFields),
+      commentRequired: raw?.commentRequired === true,
+    });
+  }
+
+  return { value: { states, transitions } };
+};
+
+// Replaces the whole definition; callers run this inside a transaction and then reload the cache.
+export const saveWorkflowDefinition = async (client, { states, transitions }, { userId }) => {
+  const order = getWorkflowStatusOrder();
+  await client.query("DELETE FROM workflow_states");
+  if (states.length) {
+    await client.query(
+      `
+      INSERT INTO workflow_states (status, notify_roles, next_action_role, next_action_label, sort_order)
+      SELECT s.status, ARRAY(SELECT jsonb_array_elements_text(s.notify_roles)), s.next_action_role, s.next_action_label, s.sort_order
+        FROM unnest($1::text[], $2::jsonb[], $3::text[], $4::text[], $5::int[])
+          AS s(status, notify_roles, next_action_role, next_action_label, sort_order)
+      `,
+      [
+        states.map((state) => state.status),
+        states.map((state) => JSON.stringify(state.notifyRoles)),
+        states.map((state) => state.nextActionRole),
+        states.map((state) => state.nextActionLabel),
+        states.map((state) => order.indexOf(state.status)),
+      ]
+    );
+  }
+  await client.query("DELETE FROM workflow_transitions");
+  if (transitions.length) {
+    await client.query(
+      `
+      INSERT INTO workflow_transitions (from_status, to_status, roles, required_fields, comment_required)
+      SELECT t.from_status, t.to_status,
+             ARRAY(SELECT jsonb_array_elements_text(t.roles)),
+             ARRAY(SELECT jsonb_array_elements_text(t.required_fields)),
+             t.comment_required
+        FROM unnest($1::text[], $2::text[], $3::jsonb[], $4::jsonb[], $5::boolean[])
+          AS t(from_status, to_status, roles, required_fields, comment_required)
+      `,
+      [
+        transitions.map((transition) => transition.from),
+        transitions.map((transition) => transition.to),
+        transitions.map((transition) => JSON.stringify(transition.roles)),
+        transitions.map((transition) => JSON.stringify(transition.requiredFields)),
+        transitions.map((transition) => transition.commentRequired),
+      ]
+    );
+  }
+  await client.query(
+    `
+    INSERT INTO workflow_settings (id, updated_at, updated_by_user_id)
+    VALUES (1, now(), $1)
+    ON CONFLICT (id) DO UPDATE SET updated_at = now(), updated_by_user_id = EXCLUDED.updated_by_user_id
+    `,
+    [userId || null]
+  );
+  cachedDefinition = null;
+};
+
+export const findWorkflowTransition = (definition, fromStatus, toStatus) => {
+  const from = String(fromStatus ?? "").trim();
+  const to = String(toStatus ?? "").trim();
+  return definition.transitions.find((transition) => transition.from === from && transition.to === to) ?? null;
+};
+
+export const getAllowedWorkflowTransitions = (definition, fromStatus) => {
+  const from = String(fromStatus ?? "").trim();
+  return definition.transitions.filter((transition) => transition.from === from).map((transition) => transition.to);
+};
+
+export const canUserFireTransition = (transition, user) => {
+  if (!transition) return false;
+  if (transition.roles.some((role) => hasRole(user, role))) return true;
+  const permission = WORKFLOW_TRANSITION_PERMISSIONS[transition.to];
+  return Boolean(permission) && hasPermission(user, permission);
+};
+
+const getWorkflowState = (definition, status) => {
+  const normalized = String(status ?? "").trim();
+  return definition.states.find((state) => state.status === normalized) ?? null;
+};
+
+export const resolveWorkflowNotifyRoles = (definition, status) =>
+  (getWorkflowState(definition, status)?.notifyRoles ?? []).filter((role) => role in ROLE_LABELS);
+
+export const resolveWorkflowNextAction = (definition, status) => {
+  const state = getWorkflowState(definition, status);
+  const role = state?.nextActionRole ?? "none";
+  if (role === "none") return { role: "none", label: state?.nextActionLabel || "No action" };
+  return { role, label: state.nextActionLabel || ROLE_LABELS[role] };
+};
+
+const isFilledValue = (value) => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === "string") return value.trim().length > 0;
+  if (typeof value === "number") return Number.isFinite(value);
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+};
+
+export const findMissingRequiredFields = (request, transition) =>
+  (transition?.requiredFields ?? []).filter((field) => !isFilledValue(request?.[field]));
@@ -8,6 +8,8 @@ import { AuthProvider, useAuth } from "./context/AuthContext";
 import { RequestProvider } from "./context/RequestContext";
 import { ContractApprovalProvider } from "./context/ContractApprovalContext";
 import { AdminSettingsProvider } from "./context/AdminSettingsContext";
+import { DashboardViewsProvider } from "./context/DashboardViewsContext";
+import { WorkflowProvider } from "./context/WorkflowContext";
 import { LanguageProvider, useLanguage } from "./context/LanguageContext";
 import { AppShellProvider } from "./context/AppShellContext";
 import MainLayout from "./components/layout/MainLayout";
@@ -18,6 +20,8 @@ const RequestForm = React.lazy(() => import("./pages/RequestForm"));
 const Performance = React.lazy(() => import("./pages/Performance"));
 const Settings = React.lazy(() => import("./pages/Settings"));
 const PriceList = React.lazy(() => import("./pages/PriceList"));
+const Customers = React.lazy(() => import("./pages/Customers"));
+const CustomerDetail = React.lazy(() => import("./pages/CustomerDetail"));
 const Downloads = React.lazy(() => import("./pages/Downloads"));
 const ContractApprovals = React.lazy(() => import("./pages/ContractApprovals"));
 const ContractApprovalForm = React.lazy(() => import("./pages/ContractApprovalForm"));
@@ -177,36 +181,42 @@ const App = () => (
           <AdminSettingsProvider>
             <RequestProvider>
               <ContractApprovalProvider>
-                <Toaster />
-                <Sonner />
-                <BrowserRouter>
-                  <AppShellProvider>
-                    <DesktopReadyNotifier />
-                    <Suspense
-                      fallback={<AppLoadingFallback />}
-                    >
-                      <Routes>
-                        <Route path="/login" element={<Login />} />
-                        <Route path="/" element={<Navigate to="/dashboard" replace />} />
-                        <Route element={<MainLayout />}>
-                          <Route path="/dashboard" element={<Dashboard />} />
-                          <Route path="/performance" element={<Performance />} />
-                          <Route path="/requests/new" element={<RequestForm />} />
-                          <Route path="/requests/:id" element={<RequestForm />} />
-                          <Route path="/requests/:id/edit" element={<RequestForm />} />
-                          <Route path="/contract-approvals" element={<ContractApprovals />} />
-                          <Route path="/contract-approvals/new" element={<ContractApprovalForm />} />
-                          <Route path="/contract-approvals/:id" element={<ContractApprovalForm />} />
-                          <Route path="/contract-approvals/:id/edit" element={<ContractApprovalForm />} />
-                          <Route path="/price-list" element={<PriceList />} />
-                          <Route path="/downloads" element={<Downloads />} />
-                          <Route path="/settings" element={<Settings />} />
-                        </Route>
-                        <Route path="*" element={<NotFound />} />
-                      </Routes>
-                    </Suspense>
-                  </AppShellProvider>
-                </BrowserRouter>
+                <WorkflowProvider>
+                  <DashboardViewsProvider>
+                    <Toaster />
+                    <Sonner />
+                    <BrowserRouter>
+                      <AppShellProvider>
+                        <DesktopReadyNotifier />
+                        <Suspense
+                          fallback={<AppLoadingFallback />}
+                        >
+                          <Routes>
+                            <Route path="/login" element={<Login />} />
+                            <Route path="/" element={<Navigate to="/dashboard" replace />} />
+                            <Route element={<MainLayout />}>
+                              <Route path="/dashboard" element={<Dashboard />} />
+                              <Route path="/performance" element={<Performance />} />
+                              <Route path="/requests/new" element={<RequestForm />} />
+                              <Route path="/requests/:id" element={<RequestForm />} />
+                              <Route path="/requests/:id/edit" element={<RequestForm />} />
+                              <Route path="/contract-approvals" element={<ContractApprovals />} />
+                              <Route path="/contract-approvals/new" element={<ContractApprovalForm />} />
+                              <Route path="/contract-approvals/:id" element={<ContractApprovalForm />} />
+                              <Route path="/contract-approvals/:id/edit" element={<ContractApprovalForm />} />
+                              <Route path="/price-list" element={<PriceList />} />
+                              <Route path="/customers" element={<Customers />} />
+                              <Route path="/customers/:id" element={<CustomerDetail />} />
+                              <Route path="/downloads" element={<Downloads />} />
+                              <Route path="/settings" element={<Settings />} />
+                            </Route>
+                            <Route path="*" element={<NotFound />} />
+                          </Routes>
+                        </Suspense>
+                      </AppShellProvider>
+                    </BrowserRouter>
+                  </DashboardViewsProvider>
+                </WorkflowProvider>
               </ContractApprovalProvider>
             </RequestProvider>
           </AdminSettingsProvider>
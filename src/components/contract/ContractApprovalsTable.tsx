@@ -20,7 +20,7 @@ import { cn } from '@/lib/utils';
 
 interface Props {
   contracts: ContractApproval[];
-  userRole: UserRole;
+  userRoles: UserRole[];
   onQuickReview: (id: string) => void;
   onView: (id: string) => void;
   onEdit: (id: string) => void;
@@ -60,9 +60,31 @@ const toAmount = (value: number | null | undefined) => {
   return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 };
 
+// Amount in its approved currency, with the reporting-currency equivalent underneath when they differ.
+const renderAmount = (contract: ContractApproval) => {
+  if (typeof contract.contractAmount !== 'number') return '-';
+  const currency = contract.approvedCurrency || 'EUR';
+  const showReporting =
+    contract.reportingCurrency && contract.reportingCurrency !== currency && typeof contract.contractAmountReporting === 'number';
+  return (
+    <>
+      <span>{`${currency} ${toAmount(contract.contractAmount)}`}</span>
+      {showReporting && (
+        <span className="block text-xs text-muted-foreground">
+          {`≈ ${contract.reportingCurrency} ${toAmount(contract.contractAmountReporting)}`}
+        </span>
+      )}
+    </>
+  );
+};
+
+// Sorting compares reporting-currency amounts so mixed currencies order correctly.
+const sortableAmount = (contract: ContractApproval) =>
+  Number(contract.contractAmountReporting ?? contract.contractAmount ?? Number.NEGATIVE_INFINITY);
+
 const ContractApprovalsTable: React.FC<Props> = ({
   contracts,
-  userRole,
+  userRoles,
   onQuickReview,
   onView,
   onEdit,
@@ -106,7 +128,7 @@ const ContractApprovalsTable: React.FC<Props> = ({
       },
     ];
 
-    if ((userRole === 'sales' || userRole === 'admin') && (contract.status === 'draft' || contract.status === 'finance_rejected' || contract.status === 'gm_rejected')) {
+    if ((userRoles.includes('sales') || userRoles.includes('admin')) && (contract.status === 'draft' || contract.status === 'finance_rejected' || contract.status === 'gm_rejected')) {
       actions.push({
         key: 'edit',
         label: t.table.edit,
@@ -115,7 +137,7 @@ const ContractApprovalsTable: React.FC<Props> = ({
       });
     }
 
-    if (userRole === 'cashier' && contract.status === 'gm_approved') {
+    if (userRoles.includes('cashier') && contract.status === 'gm_approved') {
       actions.push({
         key: 'cashier-upload',
         label: t.contractApproval.uploadStamped,
@@ -124,7 +146,7 @@ const ContractApprovalsTable: React.FC<Props> = ({
       });
     }
 
-    if (userRole === 'finance' && contract.status === 'finance_upload') {
+    if (userRoles.includes('finance') && contract.status === 'finance_upload') {
       actions.push({
         key: 'complete',
         label: t.contractApproval.markCompleted,
@@ -190,7 +212,7 @@ const ContractApprovalsTable: React.FC<Props> = ({
           result = String(left.salesOwnerName ?? '').localeCompare(String(right.salesOwnerName ?? ''), undefined, { sensitivity: 'base' });
           break;
         case 'contractAmount':
-          result = Number(left.contractAmount ?? Number.NEGATIVE_INFINITY) - Number(right.contractAmount ?? Number.NEGATIVE_INFINITY);
+          result = sortableAmount(left) - sortableAmount(right);
           break;
         case 'status':
           result = String(left.status ?? '').localeCompare(String(right.status ?? ''), undefined, { sensitivity: 'base' });
@@ -344,7 +366,7 @@ const ContractApprovalsTable: React.FC<Props> = ({
               </div>
               <div className="flex justify-between gap-3">
                 <span className="text-muted-foreground">{t.contractApproval.table.amount}</span>
-                <span className="font-medium text-right tabular-nums">{toAmount(contract.contractAmount)}</span>
+                <span className="font-medium text-right tabular-nums">{renderAmount(contract)}</span>
               </div>
               <div className="flex justify-between gap-3">
                 <span className="text-muted-foreground">{t.table.nextActionBy}</span>
@@ -424,7 +446,7 @@ const ContractApprovalsTable: React.FC<Props> = ({
                 <TableCell className={cn('max-w-[180px] truncate', density === 'compact' ? 'py-1' : 'py-2')}>{contract.clientName || '-'}</TableCell>
                 <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>{contract.craNumber || '-'}</TableCell>
                 <TableCell className={cn('max-w-[160px] truncate', density === 'compact' ? 'py-1' : 'py-2')}>{contract.salesOwnerName || '-'}</TableCell>
-                <TableCell className={cn('text-right tabular-nums', density === 'compact' ? 'py-1' : 'py-2')}>{toAmount(contract.contractAmount)}</TableCell>
+                <TableCell className={cn('text-right tabular-nums', density === 'compact' ? 'py-1' : 'py-2')}>{renderAmount(contract)}</TableCell>
                 <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>
                   <ContractStatusBadge status={contract.status} />
                 </TableCell>
@@ -20,7 +20,7 @@ type Props = {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   contractId: string | null;
-  userRole: UserRole;
+  userRoles: UserRole[];
   onView: (id: string) => void;
   onEdit: (id: string) => void;
   onApprove: (id: string, comment?: string) => Promise<boolean> | boolean;
@@ -61,7 +61,7 @@ const ContractReviewDrawer: React.FC<Props> = ({
   open,
   onOpenChange,
   contractId,
-  userRole,
+  userRoles,
   onView,
   onEdit,
   onApprove,
@@ -69,7 +69,7 @@ const ContractReviewDrawer: React.FC<Props> = ({
   onFinanceUpload,
   onComplete,
 }) => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const { t } = useLanguage();
   const { getContractById, getContractByIdAsync } = useContractApprovals();
 
@@ -122,17 +122,17 @@ const ContractReviewDrawer: React.FC<Props> = ({
 
   const canEdit = useMemo(() => {
     if (!contract) return false;
-    if (userRole === 'admin') return contract.status === 'draft' || contract.status === 'finance_rejected' || contract.status === 'gm_rejected';
-    if (userRole === 'sales') {
+    if (userRoles.includes('admin')) return contract.status === 'draft' || contract.status === 'finance_rejected' || contract.status === 'gm_rejected';
+    if (userRoles.includes('sales')) {
       return contract.salesOwnerUserId === user?.id && (contract.status === 'draft' || contract.status === 'finance_rejected' || contract.status === 'gm_rejected');
     }
     return false;
-  }, [contract, user?.id, userRole]);
+  }, [contract, user?.id, userRoles]);
 
-  const canFinanceDecision = userRole === 'finance' && contract?.status === 'submitted';
-  const canAdminDecision = userRole === 'admin' && contract?.status === 'finance_approved';
-  const canCashierUpload = userRole === 'cashier' && contract?.status === 'gm_approved';
-  const canMarkCompleted = userRole === 'finance' && contract?.status === 'finance_upload';
+  const canFinanceDecision = userRoles.includes('finance') && contract?.status === 'submitted';
+  const canAdminDecision = hasPermission('approve_gm') && contract?.status === 'finance_approved';
+  const canCashierUpload = userRoles.includes('cashier') && contract?.status === 'gm_approved';
+  const canMarkCompleted = userRoles.includes('finance') && contract?.status === 'finance_upload';
   const primaryActionBtnClass = 'h-11 min-w-40 justify-center';
 
   const headerSubtitle = useMemo(() => {
@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+
+import { useAdminSettings } from '@/context/AdminSettingsContext';
+import { useAuth } from '@/context/AuthContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Customer, CustomerAddress, CustomerContact } from '@/types';
+import { localizeApiError } from '@/utils/localizeApiError';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+
+type CustomerDraft = Omit<Customer, 'id' | 'ownerName' | 'createdAt' | 'updatedAt'>;
+
+const emptyDraft = (name = ''): CustomerDraft => ({
+  name,
+  country: '',
+  city: '',
+  defaultIncoterm: '',
+  defaultCurrency: '',
+  defaultPaymentTerms: '',
+  ownerUserId: null,
+  notes: '',
+  contacts: [],
+  addresses: [],
+});
+
+const toDraft = (customer: Customer): CustomerDraft => ({
+  name: customer.name,
+  country: customer.country,
+  city: customer.city,
+  defaultIncoterm: customer.defaultIncoterm,
+  defaultCurrency: customer.defaultCurrency,
+  defaultPaymentTerms: customer.defaultPaymentTerms,
+  ownerUserId: customer.ownerUserId,
+  notes: customer.notes,
+  contacts: customer.contacts,
+  addresses: customer.addresses,
+});
+
+interface CustomerFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Account to edit; when null a new account is created with `initialName`.
+  customer?: Customer | null;
+  initialName?: string;
+  onSaved: (customer: Customer) => void;
+}
+
+const CustomerFormDialog: React.FC<CustomerFormDialogProps> = ({
+  open,
+  onOpenChange,
+  customer = null,
+  initialName = '',
+  onSaved,
+}) => {
+  const { user, hasRole } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { countries } = useAdminSettings();
+  const [draft, setDraft] = useState<CustomerDraft>(emptyDraft());
+  const [owners, setOwners] = useState<Array<{ id: string; name: string }>>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(
+      customer
+        ? toDraft(customer)
+        : { ...emptyDraft(initialName.trim()), ownerUserId: hasRole('sales') ? user?.id ?? null : null }
+    );
+    fetch('/api/customers/owners', { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => setOwners(Array.isArray(data) ? data : []))
+      .catch(() => setOwners([]));
+  }, [open, customer, initialName, hasRole, user?.id]);
+
+  const update = <K extends keyof CustomerDraft>(field: K, value: CustomerDraft[K]) =>
+    setDraft((prev) => ({ ...prev, [field]: value }));
+
+  const updateContact = (index: number, patch: Partial<CustomerContact>) =>
+    setDraft((prev) => ({
+      ...prev,
+      contacts: prev.contacts.map((contact, i) => {
+        if (i === index) return { ...contact, ...patch };
+        return patch.isPrimary ? { ...contact, isPrimary: false } : contact;
+      }),
+    }));
+
+  const updateAddress = (index: number, patch: Partial<CustomerAddress>) =>
+    setDraft((prev) => ({
+      ...prev,
+      addresses: prev.addresses.map((address, i) => {
+        if (i === index) return { ...address, ...patch };
+        return patch.isDefaultDelivery ? { ...address, isDefaultDelivery: false } : address;
+      }),
+    }));
+
+  const save = async () => {
+    if (!draft.name.trim()) {
+      toast({ title: t.request.error, description: t.customers.nameRequired, variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(customer ? `/api/customers/${encodeURIComponent(customer.id)}` : '/api/customers', {
+        method: customer ? 'PUT' : 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(draft),
+      });
+      const data = await res.json().catch(() => null);
+      // Creating a name that already exists picks the existing account instead of failing the inline flow.
+      if (!customer && res.status === 409 && data?.customerId) {
+        const existing = await fetch(`/api/customers/${encodeURIComponent(data.customerId)}`, { cache: 'no-store' });
+        if (existing.ok) {
+          toast({ title: t.customers.title, description: t.customers.duplicateSelected });
+          onSaved((await existing.json()) as Customer);
+          onOpenChange(false);
+          return;
+        }
+      }
+      if (!res.ok || !data) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      toast({ title: t.customers.title, description: t.customers.saved });
+      onSaved(data as Customer);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{customer ? t.customers.editCustomer : t.customers.newCustomer}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="customerName">
+                {t.customers.name} <span className="text-destructive">*</span>
+              </Label>
+              <Input id="customerName" value={draft.name} onChange={(e) => update('name', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customerCountry">{t.customers.country}</Label>
+              <Input
+                id="customerCountry"
+                list="customer-country-options"
+                value={draft.country}
+                onChange={(e) => update('country', e.target.value)}
+              />
+              <datalist id="customer-country-options">
+                {countries.map((item) => (
+                  <option key={item.id} value={item.value} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customerCity">{t.customers.city}</Label>
+              <Input id="customerCity" value={draft.city} onChange={(e) => update('city', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>{t.customers.owner}</Label>
+              <Select
+                value={draft.ownerUserId || 'none'}
+                onValueChange={(value) => update('ownerUserId', value === 'none' ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t.customers.noOwner}</SelectItem>
+                  {owners.map((owner) => (
+                    <SelectItem key={owner.id} value={owner.id}>
+                      {owner.name}
+                    </SelectItem>
+                  ))}
+                  {draft.ownerUserId && !owners.some((owner) => owner.id === draft.ownerUserId) && (
+                    <SelectItem value={draft.ownerUserId}>{customer?.ownerName || draft.ownerUserId}</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t.customers.defaultCurrency}</Label>
+              <Select
+                value={draft.defaultCurrency || 'none'}
+                onValueChange={(value) => update('defaultCurrency', value === 'none' ? '' : (value as Customer['defaultCurrency']))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">-</SelectItem>
+                  <SelectItem value="USD">{t.panels.currencyUsd}</SelectItem>
+                  <SelectItem value="EUR">{t.panels.currencyEur}</SelectItem>
+                  <SelectItem value="RMB">{t.panels.currencyRmb}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="customerIncoterm">{t.customers.defaultIncoterm}</Label>
+              <Input
+                id="customerIncoterm"
+                list="customer-incoterm-options"
+                value={draft.defaultIncoterm}
+                onChange={(e) => update('defaultIncoterm', e.target.value)}
+              />
+              <datalist id="customer-incoterm-options">
+                <option value="EXW" />
+                <option value="FOB" />
+              </datalist>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="customerPaymentTerms">{t.customers.defaultPaymentTerms}</Label>
+              <Textarea
+                id="customerPaymentTerms"
+                rows={2}
+                value={draft.defaultPaymentTerms}
+                onChange={(e) => update('defaultPaymentTerms', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-foreground">{t.customers.contacts}</h4>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  update('contacts', [
+                    ...draft.contacts,
+                    { id: '', name: '', jobTitle: '', email: '', phone: '', isPrimary: draft.contacts.length === 0 },
+                  ])
+                }
+              >
+                <Plus size={14} className="mr-1" />
+                {t.customers.addContact}
+              </Button>
+            </div>
+            {draft.contacts.length === 0 && <p className="text-sm text-muted-foreground">{t.customers.noContacts}</p>}
+            {draft.contacts.map((contact, index) => (
+              <div key={contact.id || `new-${index}`} className="grid gap-2 rounded-md border border-border p-3 md:grid-cols-4">
+                <Input placeholder={t.customers.contactName} value={contact.name} onChange={(e) => updateContact(index, { name: e.target.value })} />
+                <Input placeholder={t.customers.jobTitle} value={contact.jobTitle} onChange={(e) => updateContact(index, { jobTitle: e.target.value })} />
+                <Input placeholder={t.customers.email} type="email" value={contact.email} onChange={(e) => updateContact(index, { email: e.target.value })} />
+                <Input placeholder={t.customers.phone} value={contact.phone} onChange={(e) => updateContact(index, { phone: e.target.value })} />
+                <div className="flex items-center justify-between md:col-span-4">
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Checkbox checked={contact.isPrimary} onCheckedChange={(checked) => checked === true && updateContact(index, { isPrimary: true })} />
+                    {t.customers.primaryContact}
+                  </label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => update('contacts', draft.contacts.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 size={14} className="mr-1" />
+                    {t.common.delete}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-foreground">{t.customers.addresses}</h4>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() =>
+                  update('addresses', [
+                    ...draft.addresses,
+                    { id: '', label: '', address: '', isDefaultDelivery: draft.addresses.length === 0 },
+                  ])
+                }
+              >
+                <Plus size={14} className="mr-1" />
+                {t.customers.addAddress}
+              </Button>
+            </div>
+            {draft.addresses.length === 0 && <p className="text-sm text-muted-foreground">{t.customers.noAddresses}</p>}
+            {draft.addresses.map((address, index) => (
+              <div key={address.id || `new-${index}`} className="grid gap-2 rounded-md border border-border p-3 md:grid-cols-4">
+                <Input placeholder={t.customers.addressLabel} value={address.label} onChange={(e) => updateAddress(index, { label: e.target.value })} />
+                <Input
+                  className="md:col-span-3"
+                  placeholder={t.customers.address}
+                  value={address.address}
+                  onChange={(e) => updateAddress(index, { address: e.target.value })}
+                />
+                <div className="flex items-center justify-between md:col-span-4">
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Checkbox
+                      checked={address.isDefaultDelivery}
+                      onCheckedChange={(checked) => checked === true && updateAddress(index, { isDefaultDelivery: true })}
+                    />
+                    {t.customers.defaultDelivery}
+                  </label>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => update('addresses', draft.addresses.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 size={14} className="mr-1" />
+                    {t.common.delete}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="customerNotes">{t.customers.notes}</Label>
+            <Textarea id="customerNotes" rows={3} value={draft.notes} onChange={(e) => update('notes', e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            {t.common.cancel}
+          </Button>
+          <Button onClick={() => void save()} disabled={saving}>
+            {saving ? t.common.saving : t.common.save}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerFormDialog;
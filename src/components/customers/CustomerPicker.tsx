@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Check, ChevronsUpDown, Loader2, Plus } from 'lucide-react';
+
+import { useAuth } from '@/context/AuthContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Customer, CustomerListItem } from '@/types';
+import { localizeApiError } from '@/utils/localizeApiError';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import CustomerFormDialog from '@/components/customers/CustomerFormDialog';
+
+interface CustomerPickerProps {
+  id?: string;
+  customerId?: string | null;
+  // Name shown on the trigger; records created before customer accounts only have this free-text name.
+  clientName: string;
+  onSelect: (customer: Customer) => void;
+  disabled?: boolean;
+  invalid?: boolean;
+  // Hides this account from the results (e.g. the source of a merge).
+  excludeId?: string;
+}
+
+// Searchable customer account selector; Sales and Admin can create a missing account inline.
+const CustomerPicker: React.FC<CustomerPickerProps> = ({
+  id,
+  customerId,
+  clientName,
+  onSelect,
+  disabled = false,
+  invalid = false,
+  excludeId,
+}) => {
+  const { hasRole } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<CustomerListItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectingId, setSelectingId] = useState<string | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  const canCreate = hasRole('sales') || hasRole('admin');
+
+  useEffect(() => {
+    if (!open) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      setLoading(true);
+      fetch(`/api/customers?q=${encodeURIComponent(search.trim())}`, { cache: 'no-store', signal: controller.signal })
+        .then((res) => (res.ok ? res.json() : []))
+        .then((data) => setResults(Array.isArray(data) ? data : []))
+        .catch(() => {
+          if (!controller.signal.aborted) setResults([]);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setLoading(false);
+        });
+    }, 250);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, search]);
+
+  const select = async (item: CustomerListItem) => {
+    setSelectingId(item.id);
+    try {
+      const res = await fetch(`/api/customers/${encodeURIComponent(item.id)}`, { cache: 'no-store' });
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      onSelect(data as Customer);
+      setOpen(false);
+      setSearch('');
+    } catch (error) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    } finally {
+      setSelectingId(null);
+    }
+  };
+
+  const visibleResults = excludeId ? results.filter((item) => item.id !== excludeId) : results;
+  const trimmedSearch = search.trim();
+  const hasExactMatch = visibleResults.some((item) => item.name.toLowerCase() === trimmedSearch.toLowerCase());
+
+  return (
+    <div className="space-y-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled}
+            className={cn('w-full justify-between font-normal', invalid && 'border-destructive')}
+          >
+            <span className={cn('truncate', !clientName && 'text-muted-foreground')}>
+              {clientName || t.customers.pickerPlaceholder}
+            </span>
+            <ChevronsUpDown size={16} className="ml-2 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[var(--radix-popover-trigger-width)] min-w-[280px] p-2" align="start">
+          <Input
+            autoFocus
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t.customers.pickerSearch}
+            className="h-9"
+          />
+          <div className="mt-2 max-h-64 overflow-y-auto scrollbar-thin">
+            {loading && (
+              <div className="flex items-center gap-2 px-2 py-2 text-sm text-muted-foreground">
+                <Loader2 size={14} className="animate-spin" />
+                {t.common.loading}
+              </div>
+            )}
+            {!loading && visibleResults.length === 0 && (
+              <div className="px-2 py-2 text-sm text-muted-foreground">{t.customers.pickerNoResults}</div>
+            )}
+            {!loading &&
+              visibleResults.map((item) => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => void select(item)}
+                  disabled={selectingId !== null}
+                  className="flex w-full items-start gap-2 rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground"
+                >
+                  <Check size={14} className={cn('mt-0.5 shrink-0', item.id === customerId ? 'opacity-100' : 'opacity-0')} />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate font-medium">{item.name}</span>
+                    {(item.city || item.country) && (
+                      <span className="block truncate text-xs text-muted-foreground">
+                        {[item.city, item.country].filter(Boolean).join(', ')}
+                      </span>
+                    )}
+                  </span>
+                  {selectingId === item.id && <Loader2 size={14} className="mt-0.5 animate-spin" />}
+                </button>
+              ))}
+          </div>
+          {canCreate && trimmedSearch && !hasExactMatch && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="mt-1 w-full justify-start"
+              onClick={() => {
+                setOpen(false);
+                setCreateOpen(true);
+              }}
+            >
+              <Plus size={14} className="mr-2" />
+              {t.customers.pickerCreate.replace('{name}', trimmedSearch)}
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+      {clientName && !customerId && (
+        <p className="text-xs text-muted-foreground">{t.customers.pickerUnlinked}</p>
+      )}
+      {canCreate && (
+        <CustomerFormDialog
+          open={createOpen}
+          onOpenChange={setCreateOpen}
+          initialName={trimmedSearch}
+          onSaved={(customer) => {
+            setSearch('');
+            onSelect(customer);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CustomerPicker;
@@ -23,8 +23,11 @@ import {
   ARTICULATION_TYPES,
   CONFIGURATION_TYPES,
   RequestPriority,
+  RequestListSortKey,
+  RequestListSortRule,
 } from '@/types';
 import StatusBadge from '@/components/ui/StatusBadge';
+import SlaBadge from '@/components/ui/SlaBadge';
 import { Button } from '@/components/ui/button';
 import RequestReviewDrawer from '@/components/dashboard/RequestReviewDrawer';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -37,6 +40,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { cn } from '@/lib/utils';
+import { RequestTableColumnKey } from '@/lib/requestList';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -53,29 +57,25 @@ import { useLanguage } from '@/context/LanguageContext';
 import { useRequests } from '@/context/RequestContext';
 import { useAppShell } from '@/context/AppShellContext';
 import { useAuth } from '@/context/AuthContext';
+import { useWorkflow } from '@/hooks/use-workflow';
 import { Language } from '@/i18n/translations';
 
 interface RequestsTableProps {
   requests: CustomerRequest[];
   userRole: UserRole;
   onDelete?: (id: string) => void;
+  // Sorting runs on the server; the table only edits the rules (shift+click adds a column).
+  sortRules: RequestListSortRule[];
+  onSortRulesChange: (rules: RequestListSortRule[]) => void;
+  totalCount?: number;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  hiddenColumns?: RequestTableColumnKey[];
 }
 
-type SortDirection = 'asc' | 'desc';
-type SortKey =
-  | 'id'
-  | 'priority'
-  | 'status'
-  | 'clientName'
-  | 'applicationVehicle'
-  | 'country'
-  | 'createdByName'
-  | 'createdAt';
-
-interface SortRule {
-  key: SortKey;
-  direction: SortDirection;
-}
+type SortDirection = RequestListSortRule['direction'];
+type SortKey = RequestListSortKey;
 
 interface RowContextMenuState {
   x: number;
@@ -92,12 +92,6 @@ interface RowActionItem {
   destructive?: boolean;
 }
 
-const PRIORITY_WEIGHT: Record<RequestPriority, number> = {
-  low: 1,
-  normal: 2,
-  high: 3,
-  urgent: 4,
-};
 const CONTEXT_MENU_EDGE_GAP = 8;
 const CONTEXT_MENU_BOTTOM_SAFE_GAP = 40;
 
@@ -106,7 +100,7 @@ const toPriority = (value?: string): RequestPriority => {
   return 'normal';
 };
 
-const nextSortDirection = (direction?: SortDirection) => {
+const nextSortDirection = (direction?: SortDirection): SortDirection | null => {
   if (!direction) return 'asc';
   if (direction === 'asc') return 'desc';
   return null;
@@ -145,21 +139,23 @@ const buildRowCsv = (request: CustomerRequest) => {
   return `${header.join(',')}\n${values.map(escapeCsv).join(',')}`;
 };
 
-const compareString = (left: string, right: string, direction: SortDirection) => {
-  const result = left.localeCompare(right, undefined, { sensitivity: 'base' });
-  return direction === 'asc' ? result : -result;
-};
-
-const compareNumber = (left: number, right: number, direction: SortDirection) => {
-  const result = left - right;
-  return direction === 'asc' ? result : -result;
-};
-
-const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDelete }) => {
+const RequestsTable: React.FC<RequestsTableProps> = ({
+  requests,
+  userRole,
+  onDelete,
+  sortRules,
+  onSortRulesChange,
+  totalCount,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  hiddenColumns = [],
+}) => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { t, translateOption, language } = useLanguage();
   const { density, setSaveState } = useAppShell();
+  const { getNextAction } = useWorkflow();
   const { getRequestByIdAsync, updateRequest } = useRequests();
   const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
   const [pdfLanguage, setPdfLanguage] = useState<Language>(language);
@@ -167,7 +163,6 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
   const [isPdfDialogOpen, setIsPdfDialogOpen] = useState(false);
   const [reviewRequestId, setReviewRequestId] = useState<string | null>(null);
   const [isReviewOpen, setIsReviewOpen] = useState(false);
-  const [sortRules, setSortRules] = useState<SortRule[]>([]);
   const [rowContextMenu, setRowContextMenu] = useState<RowContextMenuState | null>(null);
   const rowContextMenuRef = useRef<HTMLDivElement | null>(null);
   const quickReviewTimerRef = useRef<number | null>(null);
@@ -249,6 +244,9 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
 
   const getNextActionLabel = (request: CustomerRequest) => {
     if (request.nextActionRole === 'none') return '';
+    // An admin-defined label (Settings > Workflow) wins over the translated role name.
+    const customLabel = getNextAction(request.status).label.trim();
+    if (customLabel) return customLabel;
     if (request.nextActionRole && t.roles[request.nextActionRole]) {
       return t.roles[request.nextActionRole];
     }
@@ -323,7 +321,7 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
   const handlePriorityChange = async (requestId: string, priority: RequestPriority) => {
     try {
       setSaveState('saving');
-      await updateRequest(requestId, { priority, historyEvent: 'edited' });
+      await updateRequest(requestId, { priority, historyEvent: 'edited' }, await getRequestByIdAsync(requestId));
       setSaveState('saved');
       toast.success(t.table.priorityUpdated);
     } catch (error) {
@@ -390,59 +388,15 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
     return actions;
   };
 
-  const sortedRequests = useMemo(() => {
-    if (!sortRules.length) return requests;
-    const sorted = [...requests];
-    sorted.sort((left, right) => {
-      for (const rule of sortRules) {
-        let result = 0;
-        switch (rule.key) {
-          case 'id':
-            result = compareString(left.id, right.id, rule.direction);
-            break;
-          case 'priority':
-            result = compareNumber(PRIORITY_WEIGHT[toPriority(left.priority)], PRIORITY_WEIGHT[toPriority(right.priority)], rule.direction);
-            break;
-          case 'status':
-            result = compareString(left.status, right.status, rule.direction);
-            break;
-          case 'clientName':
-            result = compareString(left.clientName ?? '', right.clientName ?? '', rule.direction);
-            break;
-          case 'applicationVehicle':
-            result = compareString(left.applicationVehicle ?? '', right.applicationVehicle ?? '', rule.direction);
-            break;
-          case 'country':
-            result = compareString(left.country ?? '', right.country ?? '', rule.direction);
-            break;
-          case 'createdByName':
-            result = compareString(left.createdByName ?? '', right.createdByName ?? '', rule.direction);
-            break;
-          case 'createdAt':
-            result = compareNumber(new Date(left.createdAt).getTime(), new Date(right.createdAt).getTime(), rule.direction);
-            break;
-          default:
-            result = 0;
-        }
-        if (result !== 0) return result;
-      }
-      return 0;
-    });
-    return sorted;
-  }, [requests, sortRules]);
-
   const updateSort = (key: SortKey, append: boolean) => {
-    setSortRules((previous) => {
-      const existing = previous.find((rule) => rule.key === key);
-      const nextDirection = nextSortDirection(existing?.direction);
-      if (!append) {
-        if (!nextDirection) return [];
-        return [{ key, direction: nextDirection }];
-      }
-      const withoutCurrent = previous.filter((rule) => rule.key !== key);
-      if (!nextDirection) return withoutCurrent;
-      return [...withoutCurrent, { key, direction: nextDirection }];
-    });
+    const existing = sortRules.find((rule) => rule.key === key);
+    const nextDirection = nextSortDirection(existing?.direction);
+    if (!append) {
+      onSortRulesChange(nextDirection ? [{ key, direction: nextDirection }] : []);
+      return;
+    }
+    const withoutCurrent = sortRules.filter((rule) => rule.key !== key);
+    onSortRulesChange(nextDirection ? [...withoutCurrent, { key, direction: nextDirection }] : withoutCurrent);
   };
 
   const sortIcon = (key: SortKey) => {
@@ -537,6 +491,8 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
     handleView(requestId);
   };
 
+  const isColumnVisible = (column: RequestTableColumnKey) => !hiddenColumns.includes(column);
+
   const renderSortableHead = (label: string, key: SortKey) => (
     <TableHead className="font-semibold">
       <button
@@ -562,7 +518,7 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
   return (
     <div className="bg-card rounded-lg border border-border overflow-hidden shadow-sm">
       <div className="md:hidden divide-y divide-border">
-        {sortedRequests.map((request) => (
+        {requests.map((request) => (
           <div
             key={request.id}
             className={cn('space-y-3 cursor-pointer transition-colors hover:bg-muted/20', density === 'compact' ? 'p-2.5' : 'p-4')}
@@ -581,7 +537,10 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
                 <p className="text-sm text-muted-foreground">{t.table.requestId}</p>
                 <p className="font-semibold text-primary">{request.id}</p>
               </div>
-              <StatusBadge status={request.status} />
+              <div className="flex flex-col items-end gap-1">
+                <StatusBadge status={request.status} />
+                <SlaBadge state={request.slaState} dueAt={request.slaDueAt} size="sm" />
+              </div>
             </div>
 
             <div className="space-y-1 text-sm">
@@ -658,30 +617,33 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
           <TableHeader>
             <TableRow className="bg-muted/70 hover:bg-muted/70">
               {renderSortableHead(t.table.requestId, 'id')}
-              {renderSortableHead(t.table.priority, 'priority')}
-              {renderSortableHead(t.table.status, 'status')}
-              <TableHead className="font-semibold">{t.table.nextActionBy}</TableHead>
-              {renderSortableHead(t.table.clientName, 'clientName')}
-              {renderSortableHead(t.table.application, 'applicationVehicle')}
-              {renderSortableHead(t.table.country, 'country')}
-              <TableHead className="font-semibold">{t.table.productType}</TableHead>
-              {renderSortableHead(t.table.createdBy, 'createdByName')}
-              <TableHead className="font-semibold whitespace-nowrap min-w-[132px]">
-                <button
-                  type="button"
-                  className="inline-flex items-center gap-1 hover:text-foreground transition-colors whitespace-nowrap"
-                  onClick={(event) => updateSort('createdAt', event.shiftKey)}
-                >
-                  <span className="whitespace-nowrap">{t.table.created}</span>
-                  {sortIcon('createdAt')}
-                  {sortOrderBadge('createdAt')}
-                </button>
-              </TableHead>
+              {isColumnVisible('priority') && renderSortableHead(t.table.priority, 'priority')}
+              {isColumnVisible('status') && renderSortableHead(t.table.status, 'status')}
+              {isColumnVisible('sla') && <TableHead className="font-semibold">{t.table.sla}</TableHead>}
+              {isColumnVisible('nextAction') && <TableHead className="font-semibold">{t.table.nextActionBy}</TableHead>}
+              {isColumnVisible('clientName') && renderSortableHead(t.table.clientName, 'clientName')}
+              {isColumnVisible('applicationVehicle') && renderSortableHead(t.table.application, 'applicationVehicle')}
+              {isColumnVisible('country') && renderSortableHead(t.table.country, 'country')}
+              {isColumnVisible('productType') && <TableHead className="font-semibold">{t.table.productType}</TableHead>}
+              {isColumnVisible('createdBy') && renderSortableHead(t.table.createdBy, 'createdByName')}
+              {isColumnVisible('createdAt') && (
+                <TableHead className="font-semibold whitespace-nowrap min-w-[132px]">
+                  <button
+                    type="button"
+                    className="inline-flex items-center gap-1 hover:text-foreground transition-colors whitespace-nowrap"
+                    onClick={(event) => updateSort('createdAt', event.shiftKey)}
+                  >
+                    <span className="whitespace-nowrap">{t.table.created}</span>
+                    {sortIcon('createdAt')}
+                    {sortOrderBadge('createdAt')}
+                  </button>
+                </TableHead>
+              )}
               <TableHead className="text-right font-semibold">{t.table.actions}</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {sortedRequests.map((request, index) => (
+            {requests.map((request, index) => (
               <TableRow
                 key={request.id}
                 className={cn(
@@ -703,7 +665,8 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
                 }}
               >
                 <TableCell className={cn('font-medium text-primary', density === 'compact' ? 'py-1' : 'py-2')}>{request.id}</TableCell>
-                <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')} onClick={(event) => event.stopPropagation()}>
+                {isColumnVisible('priority') && (
+                  <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')} onClick={(event) => event.stopPropagation()}>
                     <Select
                       value={toPriority(request.priority)}
                       onValueChange={(value) => handlePriorityChange(request.id, value as RequestPriority)}
@@ -722,27 +685,49 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
                             {option.label}
                           </SelectItem>
                         ))}
-                    </SelectContent>
-                  </Select>
-                </TableCell>
-                <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>
-                  <StatusBadge status={request.status} />
-                </TableCell>
-                <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>
-                  {getNextActionLabel(request)}
-                </TableCell>
-                <TableCell className={cn('max-w-[180px] truncate', density === 'compact' ? 'py-1' : 'py-2')}>{request.clientName}</TableCell>
-                <TableCell className={cn('max-w-[180px] truncate', density === 'compact' ? 'py-1' : 'py-2')}>
-                  {translateOption(request.applicationVehicle)}
-                </TableCell>
-                <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>{translateOption(request.country)}</TableCell>
-                <TableCell className={cn('max-w-[220px] truncate', density === 'compact' ? 'py-1' : 'py-2')}>
-                  {getProductTypeLabel(getPrimaryProduct(request))}
-                </TableCell>
-                <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>{request.createdByName}</TableCell>
-                <TableCell className={cn('whitespace-nowrap min-w-[132px]', density === 'compact' ? 'py-1' : 'py-2')}>
-                  {format(new Date(request.createdAt), 'MMM d, yyyy')}
-                </TableCell>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                )}
+                {isColumnVisible('status') && (
+                  <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>
+                    <StatusBadge status={request.status} />
+                  </TableCell>
+                )}
+                {isColumnVisible('sla') && (
+                  <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>
+                    <SlaBadge state={request.slaState} dueAt={request.slaDueAt} size={density === 'compact' ? 'sm' : 'md'} />
+                  </TableCell>
+                )}
+                {isColumnVisible('nextAction') && (
+                  <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>
+                    {getNextActionLabel(request)}
+                  </TableCell>
+                )}
+                {isColumnVisible('clientName') && (
+                  <TableCell className={cn('max-w-[180px] truncate', density === 'compact' ? 'py-1' : 'py-2')}>{request.clientName}</TableCell>
+                )}
+                {isColumnVisible('applicationVehicle') && (
+                  <TableCell className={cn('max-w-[180px] truncate', density === 'compact' ? 'py-1' : 'py-2')}>
+                    {translateOption(request.applicationVehicle)}
+                  </TableCell>
+                )}
+                {isColumnVisible('country') && (
+                  <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>{translateOption(request.country)}</TableCell>
+                )}
+                {isColumnVisible('productType') && (
+                  <TableCell className={cn('max-w-[220px] truncate', density === 'compact' ? 'py-1' : 'py-2')}>
+                    {getProductTypeLabel(getPrimaryProduct(request))}
+                  </TableCell>
+                )}
+                {isColumnVisible('createdBy') && (
+                  <TableCell className={cn(density === 'compact' ? 'py-1' : 'py-2')}>{request.createdByName}</TableCell>
+                )}
+                {isColumnVisible('createdAt') && (
+                  <TableCell className={cn('whitespace-nowrap min-w-[132px]', density === 'compact' ? 'py-1' : 'py-2')}>
+                    {format(new Date(request.createdAt), 'MMM d, yyyy')}
+                  </TableCell>
+                )}
                 <TableCell className={cn('text-right', density === 'compact' ? 'py-1' : 'py-2')} onClick={(event) => event.stopPropagation()}>
                   <div className="flex items-center justify-end gap-2">
                     <DropdownMenu>
@@ -779,6 +764,19 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, userRole, onDel
         </Table>
       </div>
 
+      {hasMore || (totalCount !== undefined && totalCount > requests.length) ? (
+        <div className="flex items-center justify-between gap-3 border-t border-border px-4 py-2 text-xs text-muted-foreground">
+          <span>
+            {t.table.showingCount.replace('{shown}', String(requests.length)).replace('{total}', String(totalCount ?? requests.length))}
+          </span>
+          {hasMore && onLoadMore ? (
+            <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? t.common.loading : t.table.loadMore}
+            </Button>
+          ) : null}
+        </div>
+      ) : null}
+
       {rowContextMenu ? (
         <div
           ref={rowContextMenuRef}
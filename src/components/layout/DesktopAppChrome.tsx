@@ -18,18 +18,22 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner';
 
-import { useAppShell } from '@/context/AppShellContext';
+import { AppShellSearchMatch, useAppShell } from '@/context/AppShellContext';
 import { useAuth } from '@/context/AuthContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { useRequests } from '@/context/RequestContext';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import UserHubMenu from '@/components/layout/UserHubMenu';
 import DesktopUpdateConfirmDialog from '@/components/layout/DesktopUpdateConfirmDialog';
 import DesktopUpdateProgressDialog from '@/components/layout/DesktopUpdateProgressDialog';
 import { cn } from '@/lib/utils';
+import { subscribeRealtime, subscribeRealtimeConnection } from '@/lib/realtime';
+import { getRequestFieldLabel } from '@/lib/requestFieldLabels';
+import { STATUS_CONFIG } from '@/types';
 
 interface DesktopAppChromeProps {
   sidebarCollapsed: boolean;
@@ -625,6 +629,24 @@ const resolveRequestStatusLabel = (status: string, t: any) => {
   return (t.statuses as Record<string, string> | undefined)?.[key] ?? humanizeKey(key);
 };
 
+const ANY_SEARCH_STATUS = '__any__';
+
+const renderSearchSnippet = (match: AppShellSearchMatch) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  match.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(match.snippet.slice(cursor, start));
+    parts.push(
+      <mark key={index} className="rounded-sm bg-primary/15 px-0.5 text-foreground">
+        {match.snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < match.snippet.length) parts.push(match.snippet.slice(cursor));
+  return parts;
+};
+
 const resolveContractStatusLabel = (status: string, t: any) => {
   const key = String(status ?? '').trim();
   if (!key) return '';
@@ -832,6 +854,23 @@ const routeContext = (pathname: string, t: any): RouteContext => {
       ],
     };
   }
+  if (pathname.startsWith('/customers/')) {
+    return {
+      breadcrumb: [
+        { label: 'CRA', to: '/dashboard' },
+        { label: t.nav.customers, to: '/customers' },
+        { label: t.appChrome.detail },
+      ],
+    };
+  }
+  if (pathname.startsWith('/customers')) {
+    return {
+      breadcrumb: [
+        { label: 'CRA', to: '/dashboard' },
+        { label: t.nav.customers },
+      ],
+    };
+  }
   if (pathname.startsWith('/downloads')) {
     return {
       breadcrumb: [
@@ -867,7 +906,7 @@ const isTypingElement = (target: EventTarget | null) => {
 const DesktopAppChrome: React.FC<DesktopAppChromeProps> = ({ sidebarCollapsed, onToggleSidebar }) => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, hasRole, hasPermission } = useAuth();
   const { t } = useLanguage();
   const {
     density,
@@ -876,6 +915,8 @@ const DesktopAppChrome: React.FC<DesktopAppChromeProps> = ({ sidebarCollapsed, o
     setGlobalSearchQuery,
     commandPaletteOpen,
     setCommandPaletteOpen,
+    searchFilters,
+    setSearchFilters,
     searchResults,
     isSearchLoading,
     shellStatus,
@@ -940,18 +981,18 @@ const DesktopAppChrome: React.FC<DesktopAppChromeProps> = ({ sidebarCollapsed, o
         { id: 'go-dashboard', label: t.appChrome.goToRequestAnalysis, path: '/dashboard', icon: LayoutGrid },
         { id: 'go-contract-approvals', label: t.appChrome.goToContractApproval, path: '/contract-approvals', icon: FileText },
       ];
-      if (user?.role === 'sales' || user?.role === 'admin') {
+      if (hasRole('sales') || hasRole('admin')) {
         commands.push(
           { id: 'go-new-request', label: t.nav.newRequest, path: '/requests/new', icon: Plus },
           { id: 'go-new-contract', label: t.appChrome.newContractApproval, path: '/contract-approvals/new', icon: Plus }
         );
       }
-      if (user?.role === 'admin') {
+      if (hasPermission('manage_settings')) {
         commands.push({ id: 'go-settings', label: t.appChrome.goToSettings, path: '/settings', icon: Settings });
       }
       return commands;
     },
-    [t.appChrome.goToContractApproval, t.appChrome.goToRequestAnalysis, t.appChrome.goToSettings, t.appChrome.newContractApproval, t.nav.newRequest, user?.role]
+    [t.appChrome.goToContractApproval, t.appChrome.goToRequestAnalysis, t.appChrome.goToSettings, t.appChrome.newContractApproval, t.nav.newRequest, hasRole, hasPermission]
   );
 
   const utilityCommands = useMemo(
@@ -1960,22 +2001,39 @@ const DesktopAppChrome: React.FC<DesktopAppChromeProps> = ({ sidebarCollapsed, o
 
   useEffect(() => {
     let timerId: number | undefined;
+    let realtimeConnected = false;
 
-    const tick = async () => {
-      if (document.visibilityState !== 'visible') return;
+    const refresh = async () => {
       await fetchUnreadCount();
       if (notificationsOpen) {
         await fetchNotifications(notificationsFilter, { silent: true });
       }
     };
 
+    // New notifications are pushed over the realtime stream; polling only covers a dropped stream.
+    const tick = async () => {
+      if (document.visibilityState !== 'visible' || realtimeConnected) return;
+      await refresh();
+    };
+
+    const unsubscribeEvents = user ? subscribeRealtime('notification.created', () => void refresh()) : undefined;
+    const unsubscribeConnection = user
+      ? subscribeRealtimeConnection((connected) => {
+          const reconnected = connected && !realtimeConnected;
+          realtimeConnected = connected;
+          if (reconnected) void refresh();
+        })
+      : undefined;
+
     void tick();
     timerId = window.setInterval(tick, 20_000);
 
     return () => {
       if (timerId) window.clearInterval(timerId);
+      unsubscribeEvents?.();
+      unsubscribeConnection?.();
     };
-  }, [fetchNotifications, fetchUnreadCount, notificationsFilter, notificationsOpen]);
+  }, [fetchNotifications, fetchUnreadCount, notificationsFilter, notificationsOpen, user]);
 
   const syncClientUpdateNotification = useCallback(async () => {
     if (!user) return;
@@ -2500,6 +2558,54 @@ const DesktopAppChrome: React.FC<DesktopAppChromeProps> = ({ sidebarCollapsed, o
               className="h-10"
               autoFocus
             />
+            <div className="mt-2 flex flex-wrap items-center gap-2">
+              <Select
+                value={searchFilters.status || ANY_SEARCH_STATUS}
+                onValueChange={(value) =>
+                  setSearchFilters({ ...searchFilters, status: value === ANY_SEARCH_STATUS ? '' : value })
+                }
+              >
+                <SelectTrigger className="h-8 w-[190px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_SEARCH_STATUS}>{t.appChrome.searchAnyStatus}</SelectItem>
+                  {Object.keys(STATUS_CONFIG).map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {resolveRequestStatusLabel(status, t)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-xs text-muted-foreground">{t.appChrome.searchCreatedFrom}</span>
+              <Input
+                type="date"
+                value={searchFilters.createdFrom}
+                max={searchFilters.createdTo || undefined}
+                onChange={(event) => setSearchFilters({ ...searchFilters, createdFrom: event.target.value })}
+                className="h-8 w-[140px] text-xs"
+              />
+              <span className="text-xs text-muted-foreground">{t.appChrome.searchCreatedTo}</span>
+              <Input
+                type="date"
+                value={searchFilters.createdTo}
+                min={searchFilters.createdFrom || undefined}
+                onChange={(event) => setSearchFilters({ ...searchFilters, createdTo: event.target.value })}
+                className="h-8 w-[140px] text-xs"
+              />
+              {searchFilters.status || searchFilters.createdFrom || searchFilters.createdTo ? (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-xs"
+                  onClick={() => setSearchFilters({ status: '', createdFrom: '', createdTo: '' })}
+                >
+                  <X className="mr-1 h-3 w-3" />
+                  {t.common.clearFilters}
+                </Button>
+              ) : null}
+            </div>
           </div>
           <div className="max-h-[70vh] overflow-y-auto scrollbar-thin p-2 space-y-2">
             <div>
@@ -2540,11 +2646,19 @@ const DesktopAppChrome: React.FC<DesktopAppChromeProps> = ({ sidebarCollapsed, o
                     >
                       <div className="flex items-center justify-between gap-2">
                         <span className="text-sm font-medium">{item.id}</span>
-                        <span className="text-xs text-muted-foreground">{item.status}</span>
+                        <span className="text-xs text-muted-foreground">{resolveRequestStatusLabel(item.status, t)}</span>
                       </div>
                       <div className="text-xs text-muted-foreground truncate">
                         {item.clientName} - {item.country}
                       </div>
+                      {item.matches?.map((match) => (
+                        <div key={match.field} className="mt-1 text-xs text-muted-foreground">
+                          <span className="mr-1 text-[10px] uppercase tracking-wide">
+                            {interpolate(t.appChrome.searchMatchedIn, { field: getRequestFieldLabel(t, match.field) })}
+                          </span>
+                          <span className="line-clamp-2 break-words">{renderSearchSnippet(match)}</span>
+                        </div>
+                      ))}
                     </button>
                   ))}
                 </div>
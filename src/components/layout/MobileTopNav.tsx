@@ -40,7 +40,7 @@ DrawerItem.displayName = 'DrawerItem';
 const MobileTopNav: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const { t } = useLanguage();
 
   const [isMenuOpen, setIsMenuOpen] = useState(false);
@@ -59,13 +59,14 @@ const MobileTopNav: React.FC = () => {
   const navItems = [
     { path: '/dashboard', label: t.nav.dashboard, roles: ['sales', 'design', 'costing', 'admin'] },
     { path: '/contract-approvals', label: t.nav.contractApprovals, roles: ['sales', 'admin', 'finance', 'cashier'] },
-    { path: '/price-list', label: t.nav.priceList, roles: ['sales', 'admin'] },
+    { path: '/price-list', label: t.nav.priceList, roles: ['sales', 'costing', 'admin'] },
+    { path: '/customers', label: t.nav.customers, roles: ['sales', 'design', 'costing', 'admin', 'finance', 'cashier'] },
     { path: '/performance', label: t.nav.performance, roles: ['sales', 'design', 'costing', 'admin'] },
   ];
 
-  const filteredNavItems = navItems.filter((item) => user && item.roles.includes(user.role));
+  const filteredNavItems = navItems.filter((item) => user && user.roles.some((role) => item.roles.includes(role)));
   const adminNavItems =
-    user?.role === 'admin'
+    hasPermission('manage_settings')
         ? [
           { tab: 'export', label: t.settings.export },
           { tab: 'lists', label: t.settings.systemLists },
@@ -73,6 +74,9 @@ const MobileTopNav: React.FC = () => {
           { tab: 'offer-profile', label: t.settings.offerProfileTab },
           { tab: 'feedback', label: t.settings.feedbackTab },
           { tab: 'm365', label: t.settings.m365Tab },
+          { tab: 'workflow', label: t.settings.workflowTab },
+          { tab: 'sla', label: t.settings.slaTab },
+          { tab: 'currencies', label: t.settings.currenciesTab },
           { tab: 'dbmonitor', label: t.settings.dbMonitorTab },
           { tab: 'auditlog', label: t.settings.auditLogTab },
           { tab: 'deployments', label: t.settings.deploymentsTab },
@@ -2,9 +2,13 @@
 import { Link, useLocation } from 'react-router-dom';
 import {
   BarChart3,
+  Bookmark,
+  Building2,
   ChevronDown,
+  Coins,
   Database,
   FileText,
+  GitBranch,
   LayoutGrid,
   Languages,
   Mail,
@@ -13,13 +17,16 @@ import {
   Server,
   Settings,
   Tags,
+  Timer,
   Users,
 } from 'lucide-react';
 
 import { useAuth } from '@/context/AuthContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { useAppShell } from '@/context/AppShellContext';
+import { useDashboardViews } from '@/hooks/use-dashboard-views';
 import { cn } from '@/lib/utils';
+import { DASHBOARD_VIEW_PARAM, dashboardViewToSearchParams } from '@/lib/requestList';
 import LanguageSelector from '@/components/LanguageSelector';
 import {
   DropdownMenu,
@@ -37,9 +44,10 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle: _onToggle, width, onResize }) => {
   const location = useLocation();
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const { t, language, setLanguage } = useLanguage();
-  const { density } = useAppShell();
+  const { density, setDensity } = useAppShell();
+  const { views: dashboardViews } = useDashboardViews();
   const [adminOpen, setAdminOpen] = useState(location.pathname === '/settings');
   const resizeStartX = useRef(0);
   const resizeStartWidth = useRef(width);
@@ -62,13 +70,14 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle: _onToggle, wid
     () => [
       { path: '/dashboard', labelKey: 'dashboard' as const, icon: LayoutGrid, roles: ['sales', 'design', 'costing', 'admin'] },
       { path: '/contract-approvals', labelKey: 'contractApprovals' as const, icon: FileText, roles: ['sales', 'admin', 'finance', 'cashier'] },
-      { path: '/price-list', labelKey: 'priceList' as const, icon: Tags, roles: ['sales', 'admin'] },
+      { path: '/price-list', labelKey: 'priceList' as const, icon: Tags, roles: ['sales', 'costing', 'admin'] },
+      { path: '/customers', labelKey: 'customers' as const, icon: Building2, roles: ['sales', 'design', 'costing', 'admin', 'finance', 'cashier'] },
       { path: '/performance', labelKey: 'performance' as const, icon: BarChart3, roles: ['sales', 'design', 'costing', 'admin'] },
     ],
     []
   );
 
-  const filteredNavItems = navItems.filter((item) => user && item.roles.includes(user.role));
+  const filteredNavItems = navItems.filter((item) => user && user.roles.some((role) => item.roles.includes(role)));
 
   const adminNavItems = useMemo(
     () => [
@@ -78,6 +87,9 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle: _onToggle, wid
       { tab: 'offer-profile', label: t.settings.offerProfileTab, icon: FileText },
       { tab: 'feedback', label: t.settings.feedbackTab, icon: MessageCircle },
       { tab: 'm365', label: t.settings.m365Tab, icon: Mail },
+      { tab: 'workflow', label: t.settings.workflowTab, icon: GitBranch },
+      { tab: 'sla', label: t.settings.slaTab, icon: Timer },
+      { tab: 'currencies', label: t.settings.currenciesTab, icon: Coins },
       { tab: 'dbmonitor', label: t.settings.dbMonitorTab, icon: Database },
       { tab: 'auditlog', label: t.settings.auditLogTab, icon: ScrollText },
       { tab: 'deployments', label: t.settings.deploymentsTab, icon: Server },
@@ -86,6 +98,8 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle: _onToggle, wid
   );
 
   const isActive = (path: string) => location.pathname === path;
+  const activeDashboardViewId =
+    location.pathname === '/dashboard' ? new URLSearchParams(location.search).get(DASHBOARD_VIEW_PARAM) : null;
 
   const startResize = (event: React.MouseEvent) => {
     if (isCollapsed) return;
@@ -124,7 +138,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle: _onToggle, wid
           {filteredNavItems.map((item) => {
             const Icon = item.icon;
             const active = isActive(item.path);
-            return (
+            const link = (
               <Link
                 key={item.path}
                 to={item.path}
@@ -141,10 +155,38 @@ const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle: _onToggle, wid
                 {!isCollapsed ? <span className="font-medium truncate">{t.nav[item.labelKey]}</span> : null}
               </Link>
             );
+            if (item.path !== '/dashboard' || isCollapsed || dashboardViews.length === 0) return link;
+            return (
+              <React.Fragment key={item.path}>
+                {link}
+                <div className="mt-1 space-y-1 pl-3" aria-label={t.dashboard.savedViews}>
+                  {dashboardViews.map((savedView) => {
+                    const viewActive = activeDashboardViewId === savedView.id;
+                    return (
+                      <Link
+                        key={savedView.id}
+                        to={`/dashboard?${dashboardViewToSearchParams(savedView.id, savedView.config).toString()}`}
+                        onClick={() => setDensity(savedView.config.density)}
+                        className={cn(
+                          'flex items-center gap-3 px-3 py-2 rounded-lg transition-all duration-150 text-sm',
+                          viewActive
+                            ? 'bg-sidebar-accent/90 text-sidebar-foreground'
+                            : 'text-sidebar-muted hover:bg-sidebar-accent/70 hover:text-sidebar-foreground'
+                        )}
+                        title={savedView.scope === 'shared' ? `${savedView.name} (${t.dashboard.sharedView})` : savedView.name}
+                      >
+                        <Bookmark size={16} className={viewActive ? 'text-primary' : ''} />
+                        <span className="truncate">{savedView.name}</span>
+                      </Link>
+                    );
+                  })}
+                </div>
+              </React.Fragment>
+            );
           })}
         </div>
 
-        {user?.role === 'admin' ? (
+        {hasPermission('manage_settings') ? (
           <div className={cn('pt-2', isCollapsed && 'pt-0')}>
             {isCollapsed ? (
               <Link
@@ -19,6 +19,7 @@ import {
   Calculator,
   CheckCircle2,
   Clock,
+  Coins,
   Inbox,
   Layers,
   ListChecks,
@@ -29,7 +30,7 @@ import {
 } from "lucide-react";
 import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
 
-import { CustomerRequest, RequestStatus } from "@/types";
+import { CustomerRequest, PriceCurrency, RequestStatus } from "@/types";
 import { useLanguage } from "@/context/LanguageContext";
 
 import InfoTip from "@/components/performance/InfoTip";
@@ -300,15 +301,26 @@ type PerformanceOverviewResponse = {
     e2eMedian: number;
     e2eP90: number;
     e2eSamples: number;
+    // Final prices of completed requests, in the reporting currency.
+    reportingCurrency: PriceCurrency;
+    completedValue: number;
+    // Completed requests with a price but no exchange rate for its currency.
+    unconvertedCount: number;
   };
   series: {
     submitted: number[];
     wip: number[];
     completed: number[];
     e2eMedian: number[];
+    completedValue: number[];
   };
 };
 
+const REPORTING_CURRENCIES: PriceCurrency[] = ["EUR", "USD", "RMB"];
+
+const formatMoney = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
 const WorkflowPerformance: React.FC<{ requests: CustomerRequest[] }> = ({ requests }) => {
   const navigate = useNavigate();
   const { t } = useLanguage();
@@ -318,6 +330,8 @@ const WorkflowPerformance: React.FC<{ requests: CustomerRequest[] }> = ({ reques
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [selectedStage, setSelectedStage] = useState<StageKey | null>(null);
   const [overviewApi, setOverviewApi] = useState<PerformanceOverviewResponse | null>(null);
+  // Empty until chosen: the server then reports in the currency configured in Settings.
+  const [reportingCurrency, setReportingCurrency] = useState<PriceCurrency | "">("");
   const [sectionsApi, setSectionsApi] = useState<{
     metricsByStage: Record<StageKey, StageMetrics>;
     intervalData: Array<Record<string, any>>;
@@ -336,6 +350,7 @@ const WorkflowPerformance: React.FC<{ requests: CustomerRequest[] }> = ({ reques
           to: timeRange.end.toISOString(),
           groupBy: timeRange.groupBy,
         });
+        if (reportingCurrency) qs.set("currency", reportingCurrency);
         const res = await fetch(`/api/performance/overview?${qs.toString()}`, { signal: controller.signal });
         if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
         const data = (await res.json()) as PerformanceOverviewResponse;
@@ -350,7 +365,7 @@ const WorkflowPerformance: React.FC<{ requests: CustomerRequest[] }> = ({ reques
 
     run();
     return () => controller.abort();
-  }, [timeRange.end, timeRange.groupBy, timeRange.start]);
+  }, [reportingCurrency, timeRange.end, timeRange.groupBy, timeRange.start]);
 
   useEffect(() => {
     const controller = new AbortController();
@@ -835,6 +850,22 @@ const WorkflowPerformance: React.FC<{ requests: CustomerRequest[] }> = ({ reques
             </SelectContent>
           </Select>
 
+          <Select
+            value={reportingCurrency || overviewApi?.overview.reportingCurrency || "EUR"}
+            onValueChange={(v) => setReportingCurrency(v as PriceCurrency)}
+          >
+            <SelectTrigger className="w-[110px]" aria-label={t.performance.reportingCurrencyLabel}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border border-border">
+              {REPORTING_CURRENCIES.map((currency) => (
+                <SelectItem key={currency} value={currency}>
+                  {currency}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <div className="flex items-center gap-2">
             <Label className="text-xs text-muted-foreground">{t.performance.slaThresholdLabel}</Label>
             <Input
@@ -954,6 +985,33 @@ const WorkflowPerformance: React.FC<{ requests: CustomerRequest[] }> = ({ reques
             </div>
           </div>
         </div>
+
+        {overviewApi ? (
+          <div className="mt-4 border-t border-border pt-4 grid grid-cols-1 lg:grid-cols-4 gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="inline-flex h-7 w-7 items-center justify-center rounded-md bg-muted/10 border border-border text-primary">
+                  <Coins className="h-4 w-4" />
+                </span>
+                <div className="flex items-center gap-1 min-w-0">
+                  <p className="text-xs font-medium text-muted-foreground truncate">{t.performance.kpiCompletedValue}</p>
+                  <InfoTip text={t.performance.helpCompletedValue} />
+                </div>
+              </div>
+              <p className="mt-2 text-3xl font-semibold text-foreground">
+                {overviewApi.overview.reportingCurrency} {formatMoney(overviewApi.overview.completedValue)}
+              </p>
+              {overviewApi.overview.unconvertedCount > 0 ? (
+                <p className="mt-1 text-xs text-warning">
+                  {t.performance.unconvertedNote.replace("{count}", String(overviewApi.overview.unconvertedCount))}
+                </p>
+              ) : null}
+              <div className="mt-2">
+                <MiniSparkline values={overviewApi.series.completedValue ?? []} color="hsl(142, 71%, 45%)" />
+              </div>
+            </div>
+          </div>
+        ) : null}
       </Card>
 
       <Card className="p-5">
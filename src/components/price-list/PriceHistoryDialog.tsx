@@ -0,0 +1,363 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { PriceCurrency, PriceEntry, ReferenceProduct } from '@/types';
+import { formatQuantityBreaks, parseQuantityBreaks } from '@/lib/priceCatalogXlsx';
+import { localizeApiError } from '@/utils/localizeApiError';
+import { cn } from '@/lib/utils';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const CURRENCIES: PriceCurrency[] = ['EUR', 'USD', 'RMB'];
+
+interface PriceDraft {
+  currency: PriceCurrency;
+  basePrice: string;
+  cost: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+  quantityBreaks: string;
+  note: string;
+}
+
+const emptyDraft = (): PriceDraft => ({
+  currency: 'EUR',
+  basePrice: '',
+  cost: '',
+  effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+  effectiveTo: '',
+  quantityBreaks: '',
+  note: '',
+});
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+interface PriceHistoryDialogProps {
+  product: ReferenceProduct | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canEdit: boolean;
+  canViewCost: boolean;
+  // Called after a version is added or removed so the page can refresh current prices.
+  onChanged: () => void;
+}
+
+const PriceHistoryDialog: React.FC<PriceHistoryDialogProps> = ({
+  product,
+  open,
+  onOpenChange,
+  canEdit,
+  canViewCost,
+  onChanged,
+}) => {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<PriceEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draft, setDraft] = useState<PriceDraft>(emptyDraft());
+
+  const productId = product?.id ?? '';
+
+  const loadEntries = useCallback(async () => {
+    if (!productId) return;
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/price-list/${encodeURIComponent(productId)}/prices`, { cache: 'no-store' });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      setEntries(Array.isArray(data) ? data : []);
+    } catch (error) {
+      toast({
+        title: t.priceList.loadFailed,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId, t, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setDraft(emptyDraft());
+    void loadEntries();
+  }, [open, loadEntries]);
+
+  const currentIds = useMemo(() => new Set(product?.currentPrices.map((entry) => entry.id) ?? []), [product]);
+
+  const savePrice = async () => {
+    if (!productId) return;
+    setIsSaving(true);
+    try {
+      const res = await fetch(`/api/price-list/${encodeURIComponent(productId)}/prices`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          currency: draft.currency,
+          basePrice: draft.basePrice,
+          cost: draft.cost,
+          effectiveFrom: draft.effectiveFrom,
+          effectiveTo: draft.effectiveTo || null,
+          quantityBreaks: parseQuantityBreaks(draft.quantityBreaks),
+          note: draft.note,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      toast({ title: t.priceList.priceSaved });
+      setDraft(emptyDraft());
+      await loadEntries();
+      onChanged();
+    } catch (error) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePrice = async (entry: PriceEntry) => {
+    try {
+      const res = await fetch(
+        `/api/price-list/${encodeURIComponent(productId)}/prices/${encodeURIComponent(entry.id)}`,
+        { method: 'DELETE' }
+      );
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      }
+      toast({ title: t.priceList.priceDeleted });
+      await loadEntries();
+      onChanged();
+    } catch (error) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card max-w-4xl max-h-[90vh] overflow-y-auto scrollbar-thin">
+        <DialogHeader>
+          <DialogTitle>{t.priceList.priceHistory}</DialogTitle>
+          <DialogDescription>
+            {product?.partNumber ? `${product.partNumber} · ` : ''}
+            {t.priceList.priceHistoryDesc}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-lg border border-border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50 hover:bg-muted/50">
+                <TableHead>{t.priceList.currency}</TableHead>
+                <TableHead className="text-right">{t.priceList.basePrice}</TableHead>
+                {canViewCost ? <TableHead className="text-right">{t.priceList.cost}</TableHead> : null}
+                <TableHead>{t.priceList.validity}</TableHead>
+                <TableHead>{t.priceList.quantityBreaks}</TableHead>
+                <TableHead>{t.priceList.note}</TableHead>
+                {canEdit ? <TableHead className="w-12" /> : null}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {t.common.loading}
+                  </TableCell>
+                </TableRow>
+              ) : null}
+              {!isLoading && entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    {t.priceList.noPriceHistory}
+                  </TableCell>
+                </TableRow>
+              ) : null}
+              {entries.map((entry) => {
+                const isCurrent = currentIds.has(entry.id);
+                return (
+                  <TableRow key={entry.id} className={cn(isCurrent && 'bg-primary/5')}>
+                    <TableCell className="font-medium">
+                      {entry.currency}
+                      {isCurrent ? (
+                        <span className="ml-2 rounded-full border border-primary/40 px-2 py-0.5 text-[11px] text-primary">
+                          {t.priceList.current}
+                        </span>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">{formatMoney(entry.basePrice)}</TableCell>
+                    {canViewCost ? (
+                      <TableCell className="text-right tabular-nums">
+                        {typeof entry.cost === 'number' ? formatMoney(entry.cost) : '-'}
+                      </TableCell>
+                    ) : null}
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {entry.effectiveFrom} → {entry.effectiveTo ?? t.priceList.openEnded}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.quantityBreaks.length ? formatQuantityBreaks(entry.quantityBreaks) : '-'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {entry.note || '-'}
+                      {entry.createdByName ? <div className="text-[11px]">{entry.createdByName}</div> : null}
+                    </TableCell>
+                    {canEdit ? (
+                      <TableCell>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                              title={t.common.delete}
+                            >
+                              <Trash2 size={14} />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent className="bg-card">
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>{t.priceList.deletePriceConfirm}</AlertDialogTitle>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>{t.common.cancel}</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => void deletePrice(entry)}>
+                                {t.common.confirm}
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    ) : null}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+
+        {canEdit ? (
+          <div className="rounded-lg border border-border p-4 space-y-4">
+            <div>
+              <div className="text-sm font-semibold text-foreground">{t.priceList.addPriceVersion}</div>
+              <p className="text-xs text-muted-foreground">{t.priceList.addPriceVersionDesc}</p>
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label>{t.priceList.currency}</Label>
+                <Select
+                  value={draft.currency}
+                  onValueChange={(value) => setDraft((prev) => ({ ...prev, currency: value as PriceCurrency }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((currency) => (
+                      <SelectItem key={currency} value={currency}>
+                        {currency}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-base">{t.priceList.basePrice}</Label>
+                <Input
+                  id="price-base"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={draft.basePrice}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, basePrice: e.target.value }))}
+                />
+              </div>
+              {canViewCost ? (
+                <div className="space-y-2">
+                  <Label htmlFor="price-cost">{t.priceList.cost}</Label>
+                  <Input
+                    id="price-cost"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.cost}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, cost: e.target.value }))}
+                  />
+                </div>
+              ) : null}
+              <div className="space-y-2">
+                <Label htmlFor="price-from">{t.priceList.effectiveFrom}</Label>
+                <Input
+                  id="price-from"
+                  type="date"
+                  value={draft.effectiveFrom}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, effectiveFrom: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-to">{t.priceList.effectiveTo}</Label>
+                <Input
+                  id="price-to"
+                  type="date"
+                  value={draft.effectiveTo}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, effectiveTo: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="price-breaks">{t.priceList.quantityBreaks}</Label>
+                <Input
+                  id="price-breaks"
+                  value={draft.quantityBreaks}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, quantityBreaks: e.target.value }))}
+                  placeholder="10:95; 50:90"
+                />
+                <p className="text-xs text-muted-foreground">{t.priceList.quantityBreaksHint}</p>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="price-note">{t.priceList.note}</Label>
+              <Input
+                id="price-note"
+                value={draft.note}
+                onChange={(e) => setDraft((prev) => ({ ...prev, note: e.target.value }))}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => void savePrice()} disabled={isSaving || !draft.basePrice || !draft.effectiveFrom}>
+                <Plus size={14} className="mr-2" />
+                {t.priceList.savePrice}
+              </Button>
+            </div>
+          </div>
+        ) : null}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PriceHistoryDialog;
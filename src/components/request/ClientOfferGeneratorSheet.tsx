@@ -1,11 +1,28 @@
 ﻿import React, { useEffect, useMemo, useState } from 'react';
-import { Download, FileText, Loader2, Save } from 'lucide-react';
+import { format, Locale } from 'date-fns';
+import { enUS, fr, zhCN } from 'date-fns/locale';
+import { Download, FileText, LayoutTemplate, Loader2, Plus, Save, Stamp, Trash2 } from 'lucide-react';
 
 import { useAuth } from '@/context/AuthContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { useToast } from '@/hooks/use-toast';
 import { Language, translations } from '@/i18n/translations';
 import { generateClientOfferPDF } from '@/utils/clientOfferPdf';
+import { findProductPrice } from '@/lib/productPricing';
+import {
+  OFFER_LINE_COLUMNS,
+  OFFER_SECTION_KEYS,
+  applyOfferTemplate,
+  buildOfferPlaceholderValues,
+  findUnknownPlaceholders,
+  getOfferLineColumnLabel,
+  getOfferLineColumns,
+  getOfferSectionLabel,
+  resolveOfferPlaceholders,
+  suggestOfferTemplate,
+  toOfferClause,
+} from '@/lib/offerTemplates';
+import { localizeApiError } from '@/utils/localizeApiError';
 import {
   Attachment,
   AXLE_LOCATIONS,
@@ -14,6 +31,9 @@ import {
   ClientOfferLine,
   CONFIGURATION_TYPES,
   CustomerRequest,
+  OfferClause,
+  OfferLineColumn,
+  OfferTemplate,
   RequestProduct,
 } from '@/types';
 import { Button } from '@/components/ui/button';
@@ -31,6 +51,7 @@ import {
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Switch } from '@/components/ui/switch';
 import { Textarea } from '@/components/ui/textarea';
+import ClientOfferRevisionsPanel from './ClientOfferRevisionsPanel';
 
 type OfferAttachmentOption = {
   id: string;
@@ -112,7 +133,19 @@ const toCanonicalLines = (
   translateOption: (value: string) => string,
   existingLines?: ClientOfferLine[]
 ): ClientOfferLine[] => {
-  const gmApprovedUnitPrice = normalizeLineUnitPrice(request.salesFinalPrice);
+  // Each line takes the unit price negotiated for its product (sales, else costing). Requests priced before
+  // per-product pricing only have the request-level final price, which then applies to every line.
+  const hasProductPrices = [request.salesProductPrices, request.costingProductPrices].some(
+    (lines) => Array.isArray(lines) && lines.length > 0
+  );
+  const resolveUnitPrice = (productIndex?: number | null) => {
+    if (!hasProductPrices) return normalizeLineUnitPrice(request.salesFinalPrice);
+    if (typeof productIndex !== 'number') return null;
+    const line =
+      findProductPrice(request.salesProductPrices, productIndex) ??
+      findProductPrice(request.costingProductPrices, productIndex);
+    return normalizeLineUnitPrice(line?.unitPrice);
+  };
   const existingByKey = new Map<
     string,
     Pick<ClientOfferLine, 'offerDescription' | 'offerSpecification' | 'remark'>
@@ -139,7 +172,7 @@ const toCanonicalLines = (
       ...line,
       include: true,
       quantity: normalizeLineQuantity(line.quantity),
-      unitPrice: gmApprovedUnitPrice,
+      unitPrice: resolveUnitPrice(line.sourceProductIndex),
       offerDescription: savedOfferDescription.trim() ? savedOfferDescription : defaultOfferDescription,
       offerSpecification: savedOfferSpecification.trim() ? savedOfferSpecification : defaultOfferSpecification,
       remark: typeof saved?.remark === 'string' ? saved.remark : '',
@@ -157,6 +190,25 @@ const formatLineUnitPrice = (value: number | null) => {
   return normalized === null ? '-' : normalized.toFixed(2);
 };
 
+const PDF_DATE_LOCALES: Record<Language, Locale> = { en: enUS, fr, zh: zhCN };
+
+const createClauseId = () => `clause-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Same arithmetic as the PDF summary, for the {{offer.total}} preview.
+const estimateOfferTotal = (request: CustomerRequest, config: ClientOfferConfig) => {
+  const subtotal = config.lines
+    .filter((line) => line.include !== false)
+    .reduce(
+      (sum, line) => sum + (normalizeLineQuantity(line.quantity) ?? 0) * (normalizeLineUnitPrice(line.unitPrice) ?? 0),
+      0
+    );
+  const discountPercent = normalizeDiscountPercent(config.discountPercent);
+  const discounted = subtotal - (discountPercent === null ? 0 : (subtotal * discountPercent) / 100);
+  const vatRate = request.salesVatMode === 'with' ? parseOptionalNumber(request.salesVatRate) ?? 0 : 0;
+  const total = Math.round((discounted * (1 + vatRate / 100) + Number.EPSILON) * 100) / 100;
+  return `${request.salesCurrency || 'EUR'} ${total.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
 const resolveOther = (value: string | undefined | null, other?: string | null) => {
   if (!value) return '';
   if (value === 'other') return String(other ?? '').trim();
@@ -334,8 +386,20 @@ const normalizeConfig = (
       lineItems: source?.sectionVisibility?.lineItems !== false,
       commercialTerms: source?.sectionVisibility?.commercialTerms !== false,
       deliveryTerms: source?.sectionVisibility?.deliveryTerms !== false,
+      clauses: source?.sectionVisibility?.clauses !== false,
       appendix: source?.sectionVisibility?.appendix !== false,
     },
+    templateId: source?.templateId ?? null,
+    templateName: String(source?.templateName ?? ''),
+    closingText: normalizeOfferText(source?.closingText),
+    lineColumns: getOfferLineColumns(source),
+    clauses: Array.isArray(source?.clauses)
+      ? source.clauses.map((clause) => ({
+          id: String(clause?.id ?? '') || createClauseId(),
+          title: normalizeOfferText(clause?.title),
+          body: normalizeOfferText(clause?.body),
+        }))
+      : [],
     lines,
     selectedAttachmentIds: Array.isArray(source?.selectedAttachmentIds)
       ? Array.from(new Set(source.selectedAttachmentIds.map((id) => String(id ?? '').trim()).filter(Boolean)))
@@ -386,8 +450,13 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
   const [config, setConfig] = useState<ClientOfferConfig | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [revisionsRefreshKey, setRevisionsRefreshKey] = useState(0);
   const [pdfLanguage, setPdfLanguage] = useState<Language>(language);
   const [isIntroAutoPrefilled, setIsIntroAutoPrefilled] = useState(true);
+  const [templates, setTemplates] = useState<OfferTemplate[]>([]);
+  const [clauseLibrary, setClauseLibrary] = useState<OfferClause[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
 
   const attachments = useMemo(() => collectRequestAttachments(request), [request]);
   const selectedAttachmentCount = useMemo(() => {
@@ -395,6 +464,47 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
     const selected = new Set(config.selectedAttachmentIds);
     return attachments.filter((entry) => selected.has(entry.id)).length;
   }, [attachments, config]);
+  const suggestedTemplate = useMemo(
+    () =>
+      suggestOfferTemplate(templates, {
+        country: resolveOther(request.country, request.countryOther),
+        language: pdfLanguage,
+      }),
+    [templates, request.country, request.countryOther, pdfLanguage]
+  );
+  const templateChoice = selectedTemplateId || config?.templateId || suggestedTemplate?.id || '';
+  const availableLibraryClauses = useMemo(() => {
+    const used = new Set((config?.clauses ?? []).map((clause) => clause.id));
+    return clauseLibrary.filter((clause) => !used.has(clause.id));
+  }, [clauseLibrary, config?.clauses]);
+
+  const textPreview = useMemo(() => {
+    if (!config) return null;
+    const values = buildOfferPlaceholderValues({
+      request,
+      config,
+      profile,
+      offerDate: format(new Date(), 'PPP', { locale: PDF_DATE_LOCALES[pdfLanguage] }),
+      total: estimateOfferTotal(request, config),
+      translateOption,
+    });
+    const texts = [
+      config.introText,
+      ...(config.clauses ?? []).flatMap((clause) => [clause.title, clause.body]),
+      config.closingText ?? '',
+    ];
+    return {
+      introText: resolveOfferPlaceholders(config.introText, values),
+      clauses: (config.clauses ?? []).map((clause) => ({
+        id: clause.id,
+        title: resolveOfferPlaceholders(clause.title, values),
+        body: resolveOfferPlaceholders(clause.body, values),
+      })),
+      closingText: resolveOfferPlaceholders(config.closingText ?? '', values),
+      unknown: Array.from(new Set(texts.flatMap(findUnknownPlaceholders))),
+    };
+  }, [config, profile, request, pdfLanguage, translateOption]);
+
   const selectedAppendixCountText = String(t.clientOffer.selectedAppendixCount ?? '')
     .replace('{selected}', String(selectedAttachmentCount))
     .replace('{total}', String(attachments.length));
@@ -480,6 +590,76 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
     });
   }, [open, config, isIntroAutoPrefilled, profile, pdfLanguage, t.clientOffer.defaultIntro]);
 
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch('/api/offer-templates', { cache: 'no-store' });
+        const data = await response.json().catch(() => null);
+        if (!response.ok) throw new Error(String(data?.error ?? `Request failed with status ${response.status}`));
+        if (cancelled) return;
+        setTemplates(Array.isArray(data?.templates) ? data.templates : []);
+        setClauseLibrary(Array.isArray(data?.clauses) ? data.clauses : []);
+      } catch {
+        if (cancelled) return;
+        toast({
+          title: t.request.error,
+          description: t.clientOffer.templatesLoadFailed,
+          variant: 'destructive',
+        });
+      }
+    };
+    void loadTemplates();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, t.clientOffer.templatesLoadFailed, t.request.error, toast]);
+
+  const handleApplyTemplate = () => {
+    const template = templates.find((item) => item.id === templateChoice);
+    if (!template) return;
+    setConfig((prev) => (prev ? applyOfferTemplate(prev, template, clauseLibrary) : prev));
+    if (template.introText.trim()) setIsIntroAutoPrefilled(false);
+    if (template.language) setPdfLanguage(template.language);
+    toast({
+      title: t.clientOffer.offerTemplate,
+      description: t.clientOffer.templateApplied.replace('{name}', template.name),
+    });
+  };
+
+  const addClause = (libraryClause?: OfferClause) => {
+    setConfig((prev) => {
+      if (!prev) return prev;
+      const clause = libraryClause ? toOfferClause(libraryClause) : { id: createClauseId(), title: '', body: '' };
+      return { ...prev, clauses: [...(prev.clauses ?? []), clause] };
+    });
+  };
+
+  const updateClause = (clauseId: string, patch: { title?: string; body?: string }) => {
+    setConfig((prev) =>
+      prev
+        ? { ...prev, clauses: (prev.clauses ?? []).map((clause) => (clause.id === clauseId ? { ...clause, ...patch } : clause)) }
+        : prev
+    );
+  };
+
+  const removeClause = (clauseId: string) => {
+    setConfig((prev) =>
+      prev ? { ...prev, clauses: (prev.clauses ?? []).filter((clause) => clause.id !== clauseId) } : prev
+    );
+  };
+
+  const toggleLineColumn = (column: OfferLineColumn, checked: boolean) => {
+    setConfig((prev) => {
+      if (!prev) return prev;
+      const current = new Set(getOfferLineColumns(prev));
+      if (checked) current.add(column);
+      else current.delete(column);
+      return { ...prev, lineColumns: OFFER_LINE_COLUMNS.filter((item) => current.has(item)) };
+    });
+  };
+
   const toggleAttachment = (attachmentId: string, checked: boolean) => {
     setConfig((prev) => {
       if (!prev) return prev;
@@ -529,15 +709,16 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
     }
   };
 
-  const handleGeneratePdf = async () => {
-    if (!config) return;
+  // Checks that the offer can be printed; returns the config to print, or null after telling the user why.
+  const prepareOfferForPdf = (): ClientOfferConfig | null => {
+    if (!config) return null;
     if (!profile) {
       toast({
         title: t.request.error,
         description: t.clientOffer.profileLoadFailed,
         variant: 'destructive',
       });
-      return;
+      return null;
     }
     if (!profile.contactComplete) {
       toast({
@@ -545,7 +726,7 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
         description: t.clientOffer.salesContactIncomplete,
         variant: 'destructive',
       });
-      return;
+      return null;
     }
 
     const canonicalLines = toCanonicalLines(request, translateOption, config.lines);
@@ -555,7 +736,7 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
         description: t.clientOffer.discountInvalid,
         variant: 'destructive',
       });
-      return;
+      return null;
     }
     const hasMissingLineText = canonicalLines.some((line) =>
       !String(line.offerDescription ?? '').trim() || !String(line.offerSpecification ?? '').trim()
@@ -566,43 +747,91 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
         description: t.clientOffer.offerLineTextRequired,
         variant: 'destructive',
       });
+      return null;
+    }
+
+    return {
+      ...config,
+      discountPercent: normalizeDiscountPercent(config.discountPercent),
+      lines: canonicalLines,
+    };
+  };
+
+  const reportPdfError = (error: unknown) => {
+    const rawMessage = String((error as any)?.message ?? '').trim();
+    const isChunkLoadIssue =
+      /Failed to fetch dynamically imported module|Importing a module script failed|Loading chunk|ChunkLoadError/i.test(
+        rawMessage
+      );
+    if (isChunkLoadIssue) {
+      toast({
+        title: t.request.error,
+        description: 'App was updated. Please refresh the page (Ctrl+F5) and try again.',
+        variant: 'destructive',
+      });
       return;
     }
+    toast({
+      title: t.request.error,
+      description: rawMessage ? localizeApiError(t, rawMessage) : t.common.pdfDownloadFailed,
+      variant: 'destructive',
+    });
+  };
+
+  const handleGeneratePdf = async () => {
+    const offer = prepareOfferForPdf();
+    if (!offer || !profile) return;
 
     setIsGenerating(true);
     try {
-      await generateClientOfferPDF(
-        request,
-        {
-          ...config,
-          discountPercent: normalizeDiscountPercent(config.discountPercent),
-          lines: canonicalLines,
-        },
-        profile,
-        pdfLanguage
-      );
-      toast({ title: t.common.download, description: `${t.common.pdfDownloaded} ${config.offerNumber || request.id}` });
+      await generateClientOfferPDF(request, offer, profile, pdfLanguage);
+      toast({ title: t.common.download, description: `${t.common.pdfDownloaded} ${config?.offerNumber || request.id}` });
     } catch (error) {
-      const rawMessage = String((error as any)?.message ?? '').trim();
-      const isChunkLoadIssue =
-        /Failed to fetch dynamically imported module|Importing a module script failed|Loading chunk|ChunkLoadError/i.test(
-          rawMessage
-        );
-      if (isChunkLoadIssue) {
-        toast({
-          title: t.request.error,
-          description: 'App was updated. Please refresh the page (Ctrl+F5) and try again.',
-          variant: 'destructive',
-        });
-        return;
+      reportPdfError(error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  // Saves the configuration and issues the next immutable revision; the server renders its PDF from the saved
+  // configuration, which is then downloaded.
+  const handleIssueRevision = async () => {
+    const offer = prepareOfferForPdf();
+    if (!offer || !profile) return;
+
+    setIsIssuing(true);
+    try {
+      const payload: ClientOfferConfig = {
+        ...offer,
+        updatedAt: new Date().toISOString(),
+        updatedByUserId: String(user?.id ?? ''),
+      };
+      await onSaveConfig(payload);
+      setConfig(payload);
+      const res = await fetch(`/api/requests/${encodeURIComponent(request.id)}/client-offer-revisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ language: pdfLanguage }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      setRevisionsRefreshKey((value) => value + 1);
+      if (data?.pdfUrl) {
+        const link = document.createElement('a');
+        link.href = data.pdfUrl;
+        link.download = String(data.pdfFilename ?? '');
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
       }
       toast({
-        title: t.request.error,
-        description: rawMessage || t.common.pdfDownloadFailed,
-        variant: 'destructive',
+        title: t.clientOffer.revisionsTitle,
+        description: t.clientOffer.revisionIssuedToast.replace('{label}', String(data?.revisionLabel ?? '')),
       });
+    } catch (error) {
+      reportPdfError(error);
     } finally {
-      setIsGenerating(false);
+      setIsIssuing(false);
     }
   };
 
@@ -625,9 +854,54 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
           <div className="mt-4 space-y-2.5">
             <Accordion
               type="multiple"
-              defaultValue={['line-items', 'appendix', 'export-actions']}
+              defaultValue={['offer-template', 'line-items', 'appendix', 'export-actions', 'revisions']}
               className="space-y-2"
             >
+              <AccordionItem value="offer-template" className="border border-border rounded-lg bg-card px-3 border-b-0">
+                <AccordionTrigger className="py-2.5 text-sm font-semibold hover:no-underline">
+                  {t.clientOffer.offerTemplate}
+                </AccordionTrigger>
+                <AccordionContent className="pt-1 pb-2">
+                  {templates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{t.clientOffer.noTemplates}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Select value={templateChoice} onValueChange={setSelectedTemplateId}>
+                          <SelectTrigger className="w-full sm:w-72">
+                            <SelectValue placeholder={t.clientOffer.selectTemplate} />
+                          </SelectTrigger>
+                          <SelectContent className="bg-card border border-border">
+                            {templates.map((template) => (
+                              <SelectItem key={template.id} value={template.id}>
+                                {template.name}
+                                {template.market ? ` (${template.market})` : ''}
+                                {template.id === suggestedTemplate?.id ? ` - ${t.clientOffer.templateSuggested}` : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="outline" onClick={handleApplyTemplate} disabled={!templateChoice} className="h-10">
+                          <LayoutTemplate size={14} className="mr-2" />
+                          {t.clientOffer.applyTemplate}
+                        </Button>
+                        {suggestedTemplate && templateChoice === suggestedTemplate.id ? (
+                          <span className="rounded-full bg-primary/10 px-2 py-0.5 text-xs font-medium text-primary">
+                            {t.clientOffer.templateSuggested}
+                          </span>
+                        ) : null}
+                      </div>
+                      {config.templateName ? (
+                        <p className="text-xs text-foreground">
+                          {t.clientOffer.currentTemplate.replace('{name}', config.templateName)}
+                        </p>
+                      ) : null}
+                      <p className="text-xs text-muted-foreground">{t.clientOffer.templateApplyHint}</p>
+                    </div>
+                  )}
+                </AccordionContent>
+              </AccordionItem>
+
               <AccordionItem value="offer-basics" className="border border-border rounded-lg bg-card px-3 border-b-0">
                 <AccordionTrigger className="py-2.5 text-sm font-semibold hover:no-underline">
                   {t.clientOffer.offerBasics}
@@ -660,6 +934,14 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
                         rows={3}
                       />
                     </div>
+                    <div className="space-y-1.5 md:col-span-2">
+                      <Label>{t.clientOffer.closingText}</Label>
+                      <Textarea
+                        value={config.closingText ?? ''}
+                        onChange={(e) => setConfig((prev) => prev ? { ...prev, closingText: e.target.value } : prev)}
+                        rows={2}
+                      />
+                    </div>
                   </div>
                 </AccordionContent>
               </AccordionItem>
@@ -670,15 +952,9 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
                 </AccordionTrigger>
                 <AccordionContent className="pt-1 pb-2">
                   <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-1.5">
-                    {([
-                      ['general', t.clientOffer.generalInformation],
-                      ['lineItems', t.clientOffer.lineItemsTitle],
-                      ['commercialTerms', t.clientOffer.commercialTermsTitle],
-                      ['deliveryTerms', t.clientOffer.deliveryTermsTitle],
-                      ['appendix', t.clientOffer.appendixTitle],
-                    ] as Array<[keyof ClientOfferConfig['sectionVisibility'], string]>).map(([key, label]) => (
+                    {OFFER_SECTION_KEYS.map((key) => (
                       <div key={key} className="h-9 rounded-md border border-border px-2.5 flex items-center justify-between gap-2">
-                        <span className="text-xs font-medium leading-none truncate">{label}</span>
+                        <span className="text-xs font-medium leading-none truncate">{getOfferSectionLabel(t, key)}</span>
                         <Switch
                           className="scale-90 origin-right shrink-0"
                           checked={Boolean(config.sectionVisibility[key])}
@@ -699,9 +975,124 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
                       </div>
                     ))}
                   </div>
+                  <div className="mt-3 space-y-1.5">
+                    <Label className="text-xs">{t.clientOffer.lineColumns}</Label>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                      {OFFER_LINE_COLUMNS.map((column) => (
+                        <label key={column} className="flex items-center gap-2 text-xs">
+                          <Checkbox
+                            checked={getOfferLineColumns(config).includes(column)}
+                            disabled={column === 'description'}
+                            onCheckedChange={(next) => toggleLineColumn(column, next === true)}
+                          />
+                          {getOfferLineColumnLabel(t, column)}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+
+              <AccordionItem value="clauses" className="border border-border rounded-lg bg-card px-3 border-b-0">
+                <AccordionTrigger className="py-2.5 text-sm font-semibold hover:no-underline">
+                  {t.clientOffer.clausesTitle} ({config.clauses?.length ?? 0})
+                </AccordionTrigger>
+                <AccordionContent className="pt-1 pb-2">
+                  <div className="space-y-2.5">
+                    {(config.clauses ?? []).length === 0 ? (
+                      <p className="text-sm text-muted-foreground">{t.clientOffer.noClauses}</p>
+                    ) : (
+                      (config.clauses ?? []).map((clause) => (
+                        <div key={clause.id} className="rounded-md border border-border bg-card/40 p-2 space-y-1.5">
+                          <div className="flex items-center gap-2">
+                            <Input
+                              value={clause.title}
+                              onChange={(e) => updateClause(clause.id, { title: e.target.value })}
+                              placeholder={t.clientOffer.clauseTitle}
+                              className="h-9"
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-9 w-9 shrink-0"
+                              onClick={() => removeClause(clause.id)}
+                              title={t.clientOffer.removeClause}
+                            >
+                              <Trash2 size={14} />
+                            </Button>
+                          </div>
+                          <Textarea
+                            value={clause.body}
+                            onChange={(e) => updateClause(clause.id, { body: e.target.value })}
+                            placeholder={t.clientOffer.clauseBody}
+                            rows={3}
+                          />
+                        </div>
+                      ))
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => addClause()}>
+                        <Plus size={14} className="mr-1.5" />
+                        {t.clientOffer.addClause}
+                      </Button>
+                      {availableLibraryClauses.length > 0 ? (
+                        <Select
+                          value=""
+                          onValueChange={(clauseId) => {
+                            const clause = clauseLibrary.find((item) => item.id === clauseId);
+                            if (clause) addClause(clause);
+                          }}
+                        >
+                          <SelectTrigger className="h-9 w-full sm:w-64">
+                            <SelectValue placeholder={t.clientOffer.addClauseFromLibrary} />
+                          </SelectTrigger>
+                          <SelectContent className="bg-card border border-border">
+                            {availableLibraryClauses.map((clause) => (
+                              <SelectItem key={clause.id} value={clause.id}>
+                                {clause.title}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : null}
+                    </div>
+                  </div>
                 </AccordionContent>
               </AccordionItem>
 
+              {textPreview ? (
+                <AccordionItem value="text-preview" className="border border-border rounded-lg bg-card px-3 border-b-0">
+                  <AccordionTrigger className="py-2.5 text-sm font-semibold hover:no-underline">
+                    {t.clientOffer.placeholderPreview}
+                  </AccordionTrigger>
+                  <AccordionContent className="pt-1 pb-2">
+                    <div className="space-y-2">
+                      <p className="text-xs text-muted-foreground">{t.clientOffer.placeholderPreviewHint}</p>
+                      {textPreview.unknown.length > 0 ? (
+                        <p className="text-xs text-destructive">
+                          {t.clientOffer.unknownPlaceholders.replace('{list}', textPreview.unknown.join(', '))}
+                        </p>
+                      ) : null}
+                      <div className="rounded-md border border-border bg-background/40 p-3 space-y-2 text-sm text-foreground">
+                        <p className="whitespace-pre-wrap">{textPreview.introText}</p>
+                        {config.sectionVisibility.clauses !== false &&
+                          textPreview.clauses.map((clause, index) => (
+                            <div key={clause.id}>
+                              {clause.title ? (
+                                <p className="font-medium">
+                                  {index + 1}. {clause.title}
+                                </p>
+                              ) : null}
+                              <p className="whitespace-pre-wrap text-muted-foreground">{clause.body}</p>
+                            </div>
+                          ))}
+                        {textPreview.closingText ? <p className="whitespace-pre-wrap">{textPreview.closingText}</p> : null}
+                      </div>
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+              ) : null}
+
               <AccordionItem value="line-items" className="border border-border rounded-lg bg-card px-3 border-b-0">
                 <AccordionTrigger className="py-2.5 text-sm font-semibold hover:no-underline">
                   {t.clientOffer.lineItemsTitle}
@@ -915,14 +1306,38 @@ const ClientOfferGeneratorSheet: React.FC<ClientOfferGeneratorSheetProps> = ({
                         {isSaving ? <Loader2 size={14} className="mr-2 animate-spin" /> : <Save size={14} className="mr-2" />}
                         {t.clientOffer.saveConfig}
                       </Button>
-                      <Button onClick={handleGeneratePdf} disabled={isGenerating || isSaving} className="h-10">
+                      <Button
+                        variant="outline"
+                        onClick={handleGeneratePdf}
+                        disabled={isGenerating || isSaving || isIssuing}
+                        className="h-10"
+                      >
                         {isGenerating ? <Loader2 size={14} className="mr-2 animate-spin" /> : <Download size={14} className="mr-2" />}
                         {t.clientOffer.generatePdf}
                       </Button>
+                      <Button onClick={handleIssueRevision} disabled={isGenerating || isSaving || isIssuing} className="h-10">
+                        {isIssuing ? <Loader2 size={14} className="mr-2 animate-spin" /> : <Stamp size={14} className="mr-2" />}
+                        {t.clientOffer.issueRevision}
+                      </Button>
                     </div>
+                    <p className="text-xs text-muted-foreground">{t.clientOffer.issueRevisionHint}</p>
                   </div>
                 </AccordionContent>
               </AccordionItem>
+
+              <AccordionItem value="revisions" className="border border-border rounded-lg bg-card px-3 border-b-0">
+                <AccordionTrigger className="py-2.5 text-sm font-semibold hover:no-underline">
+                  {t.clientOffer.revisionsTitle}
+                </AccordionTrigger>
+                <AccordionContent className="pt-1 pb-2">
+                  <ClientOfferRevisionsPanel
+                    requestId={request.id}
+                    canManage
+                    refreshKey={revisionsRefreshKey}
+                    defaultRecipient={config.recipientName || request.clientContact || request.clientName || ''}
+                  />
+                </AccordionContent>
+              </AccordionItem>
             </Accordion>
 
             {profile ? (
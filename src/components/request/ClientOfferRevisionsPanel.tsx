@@ -0,0 +1,291 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { FileText, GitCompare, Loader2, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ClientOfferRevision, ClientOfferRevisionChange } from '@/types';
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { localizeApiError } from '@/utils/localizeApiError';
+import { formatRequestFieldValue, getRequestFieldLabel } from '@/lib/requestFieldLabels';
+
+interface ClientOfferRevisionsPanelProps {
+  requestId: string;
+  // Sales and admin may record that a revision was sent.
+  canManage: boolean;
+  // Bumped by the parent after it issued a revision.
+  refreshKey?: number;
+  defaultRecipient?: string;
+}
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : format(date, 'MMM d, yyyy HH:mm');
+};
+
+const ClientOfferRevisionsPanel: React.FC<ClientOfferRevisionsPanelProps> = ({
+  requestId,
+  canManage,
+  refreshKey = 0,
+  defaultRecipient = '',
+}) => {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [revisions, setRevisions] = useState<ClientOfferRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [compareFrom, setCompareFrom] = useState('');
+  const [compareTo, setCompareTo] = useState('');
+  const [changes, setChanges] = useState<ClientOfferRevisionChange[] | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [sentTarget, setSentTarget] = useState<ClientOfferRevision | null>(null);
+  const [sentRecipient, setSentRecipient] = useState('');
+  const [sentOn, setSentOn] = useState('');
+  const [sentNote, setSentNote] = useState('');
+  const [isSavingSent, setIsSavingSent] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/requests/${encodeURIComponent(requestId)}/client-offer-revisions`, { cache: 'no-store' });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      const list: ClientOfferRevision[] = Array.isArray(data?.revisions) ? data.revisions : [];
+      setRevisions(list);
+      // Compare the latest revision with the one before it by default.
+      setCompareTo(list[0]?.id ?? '');
+      setCompareFrom(list[1]?.id ?? '');
+      setChanges(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [requestId]);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshKey]);
+
+  const compare = async () => {
+    if (!compareFrom || !compareTo) return;
+    setIsComparing(true);
+    try {
+      const params = new URLSearchParams({ from: compareFrom, to: compareTo });
+      const res = await fetch(
+        `/api/requests/${encodeURIComponent(requestId)}/client-offer-revisions/diff?${params.toString()}`,
+        { cache: 'no-store' }
+      );
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      setChanges(Array.isArray(data?.changes) ? data.changes : []);
+    } catch (err) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, err instanceof Error ? err.message : String(err)),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const openSentDialog = (revision: ClientOfferRevision) => {
+    setSentTarget(revision);
+    setSentRecipient(defaultRecipient);
+    setSentOn(new Date().toISOString().slice(0, 10));
+    setSentNote('');
+  };
+
+  const saveSent = async () => {
+    if (!sentTarget) return;
+    setIsSavingSent(true);
+    try {
+      const res = await fetch(
+        `/api/requests/${encodeURIComponent(requestId)}/client-offer-revisions/${encodeURIComponent(sentTarget.id)}/sent`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ recipient: sentRecipient, sentOn, note: sentNote }),
+        }
+      );
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      setRevisions((prev) => prev.map((item) => (item.id === data.id ? (data as ClientOfferRevision) : item)));
+      setSentTarget(null);
+      toast({ title: t.clientOffer.revisionsTitle, description: t.clientOffer.revisionMarkedSent });
+    } catch (err) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, err instanceof Error ? err.message : String(err)),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSavingSent(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 size={14} className="animate-spin" />
+        {t.common.loading}
+      </div>
+    );
+  }
+  if (error) {
+    return <p className="text-xs text-destructive">{localizeApiError(t, error)}</p>;
+  }
+  if (!revisions.length) {
+    return <p className="text-sm text-muted-foreground">{t.clientOffer.noRevisions}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {revisions.map((revision) => (
+          <div
+            key={revision.id}
+            className="flex flex-wrap items-center justify-between gap-2 rounded-md border border-border bg-background px-3 py-2"
+          >
+            <div className="min-w-0 space-y-0.5">
+              <p className="text-sm font-medium text-foreground">
+                {t.clientOffer.revisionLabel.replace('{label}', revision.revisionLabel)}
+                <span className="ml-2 text-muted-foreground tabular-nums">
+                  {revision.snapshot.salesCurrency ?? ''} {formatMoney(revision.snapshot.total)}
+                </span>
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {t.clientOffer.revisionIssued
+                  .replace('{date}', formatDateTime(revision.createdAt))
+                  .replace('{name}', revision.createdByName || '-')}
+              </p>
+              <p className={`text-xs ${revision.sent ? 'text-success' : 'text-muted-foreground'}`}>
+                {revision.sent
+                  ? t.clientOffer.revisionSentTo
+                      .replace('{recipient}', revision.sent.recipient)
+                      .replace('{date}', revision.sent.sentOn)
+                  : t.clientOffer.revisionNotSent}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              {revision.pdfUrl && (
+                <Button asChild size="sm" variant="ghost" className="h-8">
+                  <a href={revision.pdfUrl} target="_blank" rel="noreferrer" title={revision.pdfFilename ?? undefined}>
+                    <FileText size={14} className="mr-1.5" />
+                    PDF
+                  </a>
+                </Button>
+              )}
+              {canManage && !revision.sent && (
+                <Button size="sm" variant="outline" className="h-8" onClick={() => openSentDialog(revision)}>
+                  <Send size={14} className="mr-1.5" />
+                  {t.clientOffer.markAsSent}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="space-y-2 rounded-md border border-border bg-muted/20 p-3">
+          <div className="flex flex-wrap items-end gap-2">
+            {([
+              [t.clientOffer.compareFrom, compareFrom, setCompareFrom],
+              [t.clientOffer.compareTo, compareTo, setCompareTo],
+            ] as Array<[string, string, (value: string) => void]>).map(([label, value, setValue]) => (
+              <div key={label} className="space-y-1">
+                <Label className="text-xs">{label}</Label>
+                <Select value={value} onValueChange={setValue}>
+                  <SelectTrigger className="h-8 w-[120px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {revisions.map((revision) => (
+                      <SelectItem key={revision.id} value={revision.id}>
+                        {t.clientOffer.revisionLabel.replace('{label}', revision.revisionLabel)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-8"
+              onClick={() => void compare()}
+              disabled={isComparing || !compareFrom || !compareTo || compareFrom === compareTo}
+            >
+              {isComparing ? <Loader2 size={14} className="mr-1.5 animate-spin" /> : <GitCompare size={14} className="mr-1.5" />}
+              {t.clientOffer.compareRevisions}
+            </Button>
+          </div>
+          {changes !== null &&
+            (changes.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t.clientOffer.noRevisionChanges}</p>
+            ) : (
+              <ul className="space-y-1">
+                {changes.map((change) => (
+                  <li key={change.fieldPath} className="text-xs text-foreground">
+                    <span className="font-medium">{getRequestFieldLabel(t, change.fieldPath)}:</span>{' '}
+                    <span className="text-muted-foreground line-through">{formatRequestFieldValue(change.before)}</span>
+                    {' → '}
+                    <span>{formatRequestFieldValue(change.after)}</span>
+                  </li>
+                ))}
+              </ul>
+            ))}
+        </div>
+      )}
+
+      <Dialog open={Boolean(sentTarget)} onOpenChange={(open) => !open && setSentTarget(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {sentTarget ? t.clientOffer.markRevisionSentTitle.replace('{label}', sentTarget.revisionLabel) : ''}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1.5">
+              <Label htmlFor="offer-sent-recipient">{t.clientOffer.sentRecipient} *</Label>
+              <Input
+                id="offer-sent-recipient"
+                value={sentRecipient}
+                onChange={(e) => setSentRecipient(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="offer-sent-on">{t.clientOffer.sentOn} *</Label>
+              <Input id="offer-sent-on" type="date" value={sentOn} onChange={(e) => setSentOn(e.target.value)} />
+            </div>
+            <div className="space-y-1.5">
+              <Label htmlFor="offer-sent-note">{t.clientOffer.sentNote}</Label>
+              <Textarea id="offer-sent-note" rows={2} value={sentNote} onChange={(e) => setSentNote(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSentTarget(null)} disabled={isSavingSent}>
+              {t.common.cancel}
+            </Button>
+            <Button onClick={() => void saveSent()} disabled={isSavingSent || !sentRecipient.trim() || !sentOn}>
+              {isSavingSent && <Loader2 size={14} className="mr-2 animate-spin" />}
+              {t.common.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ClientOfferRevisionsPanel;
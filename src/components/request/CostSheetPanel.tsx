@@ -0,0 +1,375 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Calculator, Loader2, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CostComponent, CostSheet, CustomerRequest, PriceCurrency, RequestCostSheets } from '@/types';
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { localizeApiError } from '@/utils/localizeApiError';
+import { findProductPrice } from '@/lib/productPricing';
+
+interface CostSheetPanelProps {
+  request: CustomerRequest;
+  // Fills the costing form from a saved sheet; omitted where the panel is read-only (sales).
+  onApply?: (sheet: CostSheet) => void;
+}
+
+const COST_COMPONENTS: CostComponent[] = ['material', 'machining', 'brakeComponents', 'surfaceFinish', 'packaging', 'freight'];
+
+interface SheetDraft {
+  currency: PriceCurrency;
+  components: Record<CostComponent, string>;
+  overheadPercent: string;
+  sellingPrice: string;
+  visibleToSales: boolean;
+  note: string;
+}
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const toDraft = (
+  sheet: CostSheet | undefined,
+  request: CustomerRequest,
+  productIndex: number,
+  productCount: number
+): SheetDraft => ({
+  currency: sheet?.currency ?? request.sellingCurrency ?? 'EUR',
+  components: Object.fromEntries(
+    COST_COMPONENTS.map((key) => [key, sheet && sheet.components[key] ? String(sheet.components[key]) : ''])
+  ) as Record<CostComponent, string>,
+  overheadPercent: sheet ? String(sheet.overheadPercent) : '',
+  // A new sheet starts from the line's costing price, or the request selling price for a single line.
+  sellingPrice: String(
+    sheet?.sellingPrice ??
+      findProductPrice(request.costingProductPrices, productIndex)?.unitPrice ??
+      (productCount === 1 ? request.sellingPrice ?? '' : '')
+  ),
+  visibleToSales: sheet?.visibleToSales ?? false,
+  note: sheet?.note ?? '',
+});
+
+// Same arithmetic as computeCostSheetTotals in server/costSheets.js, for live feedback while typing.
+const computeTotals = (draft: SheetDraft) => {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const directCost = round(COST_COMPONENTS.reduce((total, key) => total + (parseFloat(draft.components[key]) || 0), 0));
+  const overheadAmount = round((directCost * (parseFloat(draft.overheadPercent) || 0)) / 100);
+  const totalCost = round(directCost + overheadAmount);
+  const sellingPrice = parseFloat(draft.sellingPrice);
+  const margin = sellingPrice > 0 ? Math.round(((sellingPrice - totalCost) / sellingPrice) * 1000) / 10 : null;
+  return { directCost, overheadAmount, totalCost, margin };
+};
+
+const CostSheetPanel: React.FC<CostSheetPanelProps> = ({ request, onApply }) => {
+  const { t, translateOption } = useLanguage();
+  const { toast } = useToast();
+  const [data, setData] = useState<RequestCostSheets | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedRound, setSelectedRound] = useState<number | null>(null);
+  const [drafts, setDrafts] = useState<Record<number, SheetDraft>>({});
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+
+  const products = useMemo(
+    () => (Array.isArray(request.products) && request.products.length ? request.products : [null]),
+    [request.products]
+  );
+  const productCount = products.length;
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/requests/${encodeURIComponent(request.id)}/cost-sheets`, { cache: 'no-store' });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(body?.error ?? `Request failed with status ${res.status}`));
+      const next = body as RequestCostSheets;
+      setData(next);
+      setSelectedRound(next.currentRound);
+      const current = new Map(
+        next.sheets.filter((sheet) => sheet.costingRound === next.currentRound).map((sheet) => [sheet.productIndex, sheet])
+      );
+      setDrafts(
+        Object.fromEntries(
+          Array.from({ length: productCount }, (_, index) => [index, toDraft(current.get(index), request, index, productCount)])
+        )
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+    // The request object changes on every save and refresh; reloading then would drop unsaved drafts.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [request.id, productCount]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const rounds = useMemo(() => {
+    if (!data) return [];
+    const set = new Set(data.sheets.map((sheet) => sheet.costingRound));
+    if (data.canEdit) set.add(data.currentRound);
+    return Array.from(set).sort((a, b) => b - a);
+  }, [data]);
+
+  const patchDraft = (index: number, patch: Partial<SheetDraft>) =>
+    setDrafts((prev) => ({ ...prev, [index]: { ...prev[index], ...patch } }));
+
+  const save = async (index: number) => {
+    const draft = drafts[index];
+    if (!draft) return;
+    setSavingIndex(index);
+    try {
+      const res = await fetch(`/api/requests/${encodeURIComponent(request.id)}/cost-sheets/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currency: draft.currency,
+          components: Object.fromEntries(COST_COMPONENTS.map((key) => [key, draft.components[key]])),
+          overheadPercent: draft.overheadPercent,
+          sellingPrice: draft.sellingPrice,
+          visibleToSales: draft.visibleToSales,
+          note: draft.note,
+        }),
+      });
+      const body = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(body?.error ?? `Request failed with status ${res.status}`));
+      const saved = body as CostSheet;
+      setData((prev) =>
+        prev
+          ? {
+              ...prev,
+              sheets: [
+                ...prev.sheets.filter(
+                  (sheet) => !(sheet.costingRound === saved.costingRound && sheet.productIndex === saved.productIndex)
+                ),
+                saved,
+              ],
+            }
+          : prev
+      );
+      toast({ title: t.panels.costBreakdown, description: t.panels.costSheetSaved });
+    } catch (err) {
+      toast({
+        title: t.panels.costBreakdown,
+        description: localizeApiError(t, err instanceof Error ? err.message : String(err)),
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingIndex(null);
+    }
+  };
+
+  const componentLabels: Record<CostComponent, string> = {
+    material: t.panels.costMaterial,
+    machining: t.panels.costMachining,
+    brakeComponents: t.panels.costBrakeComponents,
+    surfaceFinish: t.panels.costSurfaceFinish,
+    packaging: t.panels.costPackaging,
+    freight: t.panels.costFreight,
+  };
+
+  const productTitle = (index: number) => {
+    const product = products[index];
+    const name = product?.offerProductName || (product?.configurationType ? translateOption(product.configurationType) : '');
+    return `${t.request.productLabel} ${index + 1}${name ? ` · ${name}` : ''}`;
+  };
+
+  // Sales only see what costing shared; nothing shared means nothing to show.
+  if (!onApply && !isLoading && (!data || data.sheets.length === 0)) return null;
+
+  const isEditableRound = Boolean(data?.canEdit && onApply && selectedRound === data.currentRound);
+  const roundSheets = (data?.sheets ?? []).filter((sheet) => sheet.costingRound === selectedRound);
+
+  const renderTotals = (totals: ReturnType<typeof computeTotals>, currency: PriceCurrency) => (
+    <div className="grid grid-cols-2 gap-2 rounded-md bg-muted/40 px-3 py-2 text-xs sm:grid-cols-4">
+      <p>
+        <span className="text-muted-foreground">{t.panels.directCost}:</span> {currency} {formatMoney(totals.directCost)}
+      </p>
+      <p>
+        <span className="text-muted-foreground">{t.panels.overheadAmount}:</span> {currency} {formatMoney(totals.overheadAmount)}
+      </p>
+      <p className="font-medium">
+        <span className="text-muted-foreground">{t.panels.totalCost}:</span> {currency} {formatMoney(totals.totalCost)}
+      </p>
+      <p className="font-medium">
+        <span className="text-muted-foreground">{t.panels.margin}:</span>{' '}
+        {totals.margin === null ? '-' : `${totals.margin.toFixed(1)}%`}
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-muted/20 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="flex items-start gap-2">
+          <Calculator size={16} className="mt-0.5 text-primary" />
+          <div>
+            <p className="text-sm font-medium text-foreground">{t.panels.costBreakdown}</p>
+            <p className="text-xs text-muted-foreground">{t.panels.costBreakdownDesc}</p>
+          </div>
+        </div>
+        {rounds.length > 1 && selectedRound !== null && (
+          <Select value={String(selectedRound)} onValueChange={(value) => setSelectedRound(Number(value))}>
+            <SelectTrigger className="h-8 w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-card border border-border">
+              {rounds.map((round) => (
+                <SelectItem key={round} value={String(round)}>
+                  {t.panels.costingRound.replace('{round}', String(round))}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t.common.loading}
+        </div>
+      ) : error ? (
+        <p className="text-xs text-destructive">{localizeApiError(t, error)}</p>
+      ) : isEditableRound ? (
+        products.map((_, index) => {
+          const draft = drafts[index];
+          if (!draft) return null;
+          const savedSheet = roundSheets.find((sheet) => sheet.productIndex === index);
+          return (
+            <div key={index} className="space-y-3 rounded-md border border-border bg-background px-3 py-3">
+              <p className="text-sm font-medium text-foreground">{productTitle(index)}</p>
+              <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+                {COST_COMPONENTS.map((key) => (
+                  <div key={key} className="space-y-1">
+                    <Label className="text-xs">{componentLabels[key]}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={draft.components[key]}
+                      onChange={(e) =>
+                        patchDraft(index, { components: { ...draft.components, [key]: e.target.value } })
+                      }
+                      className="h-8 bg-background"
+                    />
+                  </div>
+                ))}
+                <div className="space-y-1">
+                  <Label className="text-xs">{t.panels.overheadPercent}</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={draft.overheadPercent}
+                    onChange={(e) => patchDraft(index, { overheadPercent: e.target.value })}
+                    className="h-8 bg-background"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">{t.panels.sellingPrice}</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={draft.sellingPrice}
+                    onChange={(e) => patchDraft(index, { sellingPrice: e.target.value })}
+                    className="h-8 bg-background"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">{t.panels.currency}</Label>
+                  <Select
+                    value={draft.currency}
+                    onValueChange={(value) => patchDraft(index, { currency: value as PriceCurrency })}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border border-border">
+                      <SelectItem value="USD">{t.panels.currencyUsd}</SelectItem>
+                      <SelectItem value="EUR">{t.panels.currencyEur}</SelectItem>
+                      <SelectItem value="RMB">{t.panels.currencyRmb}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              {renderTotals(computeTotals(draft), draft.currency)}
+              <Textarea
+                value={draft.note}
+                onChange={(e) => patchDraft(index, { note: e.target.value })}
+                placeholder={t.panels.costSheetNote}
+                rows={2}
+              />
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <Switch
+                    checked={draft.visibleToSales}
+                    onCheckedChange={(checked) => patchDraft(index, { visibleToSales: checked })}
+                  />
+                  {t.panels.visibleToSales}
+                </label>
+                <div className="flex items-center gap-2">
+                  {savedSheet && onApply && (
+                    <Button type="button" size="sm" variant="outline" onClick={() => onApply(savedSheet)}>
+                      {t.panels.useCostSheet}
+                    </Button>
+                  )}
+                  <Button type="button" size="sm" onClick={() => void save(index)} disabled={savingIndex !== null}>
+                    {savingIndex === index ? (
+                      <Loader2 size={14} className="mr-2 animate-spin" />
+                    ) : (
+                      <Save size={14} className="mr-2" />
+                    )}
+                    {t.panels.saveCostSheet}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          );
+        })
+      ) : roundSheets.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{t.panels.noCostSheets}</p>
+      ) : (
+        roundSheets
+          .sort((a, b) => a.productIndex - b.productIndex)
+          .map((sheet) => (
+            <div key={sheet.id} className="space-y-2 rounded-md border border-border bg-background px-3 py-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm font-medium text-foreground">{productTitle(sheet.productIndex)}</p>
+                <p className="text-xs text-muted-foreground">
+                  {sheet.updatedByName}
+                  {sheet.updatedAt ? ` · ${new Date(sheet.updatedAt).toLocaleString()}` : ''}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-1 text-xs sm:grid-cols-3">
+                {COST_COMPONENTS.map((key) => (
+                  <p key={key}>
+                    <span className="text-muted-foreground">{componentLabels[key]}:</span> {formatMoney(sheet.components[key])}
+                  </p>
+                ))}
+                <p>
+                  <span className="text-muted-foreground">{t.panels.overheadPercent}:</span> {sheet.overheadPercent}%
+                </p>
+                <p>
+                  <span className="text-muted-foreground">{t.panels.sellingPrice}:</span>{' '}
+                  {sheet.sellingPrice === null ? '-' : `${sheet.currency} ${formatMoney(sheet.sellingPrice)}`}
+                </p>
+              </div>
+              {renderTotals(sheet, sheet.currency)}
+              {sheet.note && <p className="whitespace-pre-line text-xs text-muted-foreground">{sheet.note}</p>}
+            </div>
+          ))
+      )}
+    </div>
+  );
+};
+
+export default CostSheetPanel;
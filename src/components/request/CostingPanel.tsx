@@ -3,9 +3,10 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { DollarSign, CheckCircle, Loader2, TrendingUp, Upload, File, Eye, Download, X } from 'lucide-react';
-import { Attachment, CustomerRequest, RequestStatus } from '@/types';
+import { DollarSign, CheckCircle, Loader2, Upload, File, Eye, Download, X } from 'lucide-react';
+import { Attachment, CostSheet, CustomerRequest, ProductPrice, ReferencePriceSuggestion, RequestStatus } from '@/types';
 import { useLanguage } from '@/context/LanguageContext';
+import { useWorkflow } from '@/hooks/use-workflow';
 import {
   Select,
   SelectContent,
@@ -14,6 +15,15 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import ReferenceMatchSuggestions from './ReferenceMatchSuggestions';
+import SimilarRequestsPanel from './SimilarRequestsPanel';
+import CostSheetPanel from './CostSheetPanel';
+import ProductPricingTable from './ProductPricingTable';
+import UploadProgress from '@/components/shared/UploadProgress';
+import AttachmentDocumentPreview from '@/components/shared/AttachmentDocumentPreview';
+import AttachmentThumbnail from '@/components/shared/AttachmentThumbnail';
+import { AttachmentUploadError, findOversizedFile, uploadAttachments } from '@/lib/attachmentUpload';
+import { ProductPriceDraft, rollUpProductPrices, seedProductPriceDrafts, toProductPrices } from '@/lib/productPricing';
 
 interface CostingPanelProps {
   request: CustomerRequest;
@@ -23,6 +33,7 @@ interface CostingPanelProps {
     sellingPrice?: number;
     sellingCurrency?: 'USD' | 'EUR' | 'RMB';
     calculatedMargin?: number;
+    costingProductPrices?: ProductPrice[];
     incoterm?: string;
     incotermOther?: string;
     vatMode?: 'with' | 'without';
@@ -36,6 +47,7 @@ interface CostingPanelProps {
     sellingPrice?: number;
     sellingCurrency?: 'USD' | 'EUR' | 'RMB';
     calculatedMargin?: number;
+    costingProductPrices?: ProductPrice[];
     incoterm?: string;
     incotermOther?: string;
     vatMode?: 'with' | 'without';
@@ -62,15 +74,21 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
 }) => {
   const DEFAULT_VAT_RATE = '13';
   const [costingNotes, setCostingNotes] = useState(request.costingNotes || '');
-  const [sellingPrice, setSellingPrice] = useState<string>(
-    request.sellingPrice?.toString() || ''
+  const products = request.products ?? [];
+  const [productPrices, setProductPrices] = useState<ProductPriceDraft[]>(() =>
+    seedProductPriceDrafts(products.length, [request.costingProductPrices], {
+      unitPrice: request.sellingPrice,
+      margin: request.calculatedMargin,
+    })
   );
   const [sellingCurrency, setSellingCurrency] = useState<'USD' | 'EUR' | 'RMB'>(
     request.sellingCurrency || 'EUR'
   );
-  const [calculatedMargin, setCalculatedMargin] = useState<string>(
-    request.calculatedMargin?.toString() || ''
-  );
+  // The request-level price and margin are rolled up from the product lines.
+  const costingProductPrices = toProductPrices(productPrices, sellingCurrency);
+  const costingRollUp = rollUpProductPrices(costingProductPrices, products);
+  const sellingPrice = costingRollUp.total !== null ? costingRollUp.total.toFixed(2) : '';
+  const calculatedMargin = costingRollUp.margin !== null ? costingRollUp.margin.toString() : '';
   const [incoterm, setIncoterm] = useState<string>(request.incoterm || '');
   const [incotermOther, setIncotermOther] = useState<string>(request.incotermOther || '');
   const [vatMode, setVatMode] = useState<'with' | 'without'>(request.vatMode || 'without');
@@ -88,8 +106,10 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
   const [previewUrl, setPreviewUrl] = useState('');
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { t } = useLanguage();
+  const { canTransition, validateTransition } = useWorkflow();
 
   const openPreview = (attachment: Attachment) => {
     setPreviewAttachment(attachment);
@@ -211,39 +231,23 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
     };
   }, [previewAttachment]);
 
-  const readAsDataUrl = (file: File, index: number) =>
-    new Promise<Attachment>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        resolve({
-          id: `${Date.now()}-${index}`,
-          type: 'other',
-          filename: file.name,
-          url: typeof reader.result === 'string' ? reader.result : '',
-          uploadedAt: new Date(),
-          uploadedBy: 'current-user',
-        });
-      };
-      reader.onerror = () => reject(reader.error);
-      reader.readAsDataURL(file);
-    });
-
   const handleFileUpload = async (files: FileList | null) => {
     if (!files || readOnly) return;
-    const maxSize = 10 * 1024 * 1024;
-    const tooLarge = Array.from(files).find((f) => f.size > maxSize);
-    if (tooLarge) {
+    const selected = Array.from(files);
+    if (findOversizedFile(selected)) {
       setUploadError(t.panels.costingUploadError);
       return;
     }
     setUploadError(null);
+    setUploadProgress(0);
     try {
-      const newAttachments = await Promise.all(
-        Array.from(files).map((file, index) => readAsDataUrl(file, index))
-      );
+      const newAttachments = await uploadAttachments(selected, { onProgress: setUploadProgress });
       setCostingAttachments((prev) => [...prev, ...newAttachments]);
-    } catch {
-      setUploadError(t.panels.costingUploadError);
+    } catch (error) {
+      const tooLarge = error instanceof AttachmentUploadError && error.status === 413;
+      setUploadError(tooLarge ? t.panels.costingUploadError : t.common.uploadFailed);
+    } finally {
+      setUploadProgress(null);
     }
   };
 
@@ -251,26 +255,47 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
     setCostingAttachments((prev) => prev.filter((a) => a.id !== id));
   };
 
+  const updateProductPrice = (index: number, patch: Partial<ProductPriceDraft>) => {
+    setProductPrices((prev) => prev.map((line, lineIndex) => (lineIndex === index ? { ...line, ...patch } : line)));
+  };
+
+  // Accepting a catalog suggestion only fills the product line; costing still reviews and submits it.
+  const acceptSuggestion = (suggestion: ReferencePriceSuggestion, productIndex: number) => {
+    updateProductPrice(productIndex, {
+      unitPrice: suggestion.unitPrice.toFixed(2),
+      ...(typeof suggestion.margin === 'number' ? { margin: suggestion.margin.toString() } : {}),
+    });
+    setSellingCurrency(suggestion.currency);
+  };
+
+  // A saved cost sheet carries its own selling price and the margin derived from it.
+  const applyCostSheet = (sheet: CostSheet) => {
+    updateProductPrice(sheet.productIndex, {
+      ...(sheet.sellingPrice !== null ? { unitPrice: sheet.sellingPrice.toFixed(2) } : {}),
+      ...(sheet.margin !== null ? { margin: sheet.margin.toString() } : {}),
+    });
+    setSellingCurrency(sheet.currency);
+  };
+
   const handleSetInCosting = () => {
     onUpdateStatus('in_costing');
   };
 
-  const handleSubmitCosting = () => {
+  const handleSubmitCosting = async () => {
     const priceValue = parseFloat(sellingPrice);
     const marginValue = parseFloat(calculatedMargin);
 
-    if (isNaN(priceValue) || priceValue <= 0) {
-      return;
-    }
-    if (isNaN(marginValue)) {
+    if (completionIssues.length) {
       return;
     }
 
-    onUpdateCostingData({
+    // The status change is validated against the saved request, so the costing data must land first.
+    await onUpdateCostingData({
       costingNotes,
       sellingPrice: priceValue,
       sellingCurrency,
       calculatedMargin: marginValue,
+      costingProductPrices,
       incoterm,
       incotermOther,
       vatMode,
@@ -279,7 +304,7 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
       clientAddressDelivery,
       costingAttachments,
     });
-    onUpdateStatus(
+    await onUpdateStatus(
       'costing_complete',
       `${t.panels.sellingPrice}: ${sellingCurrency} ${priceValue.toFixed(2)}, ${t.panels.margin}: ${marginValue.toFixed(1)}%`
     );
@@ -299,9 +324,9 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
     });
   };
 
-  const canSetInCosting = !editMode && (forceEnableActions || ['feasibility_confirmed', 'design_result'].includes(request.status));
+  const canSetInCosting = !editMode && (forceEnableActions || canTransition(request.status, 'in_costing'));
   const showSetInCosting = !editMode && (forceEnableActions || ['feasibility_confirmed', 'design_result', 'in_costing'].includes(request.status));
-  const canComplete = !editMode && (forceEnableActions || request.status === 'in_costing');
+  const canComplete = !editMode && (forceEnableActions || canTransition(request.status, 'costing_complete'));
   const canEditFields = forceEnableActions || editMode || request.status === 'in_costing';
   const vatRateValid = vatMode === 'without' || (vatRate !== '' && !isNaN(parseFloat(vatRate)));
   const isValidSubmission =
@@ -310,6 +335,22 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
     calculatedMargin &&
     !isNaN(parseFloat(calculatedMargin)) &&
     vatRateValid;
+  const completionIssues = canComplete
+    ? validateTransition('costing_complete', {
+        ...request,
+        sellingPrice: parseFloat(sellingPrice),
+        sellingCurrency,
+        calculatedMargin: parseFloat(calculatedMargin),
+        costingProductPrices,
+        incoterm,
+        incotermOther,
+        vatMode,
+        vatRate: vatMode === 'with' ? parseFloat(vatRate) : null,
+        deliveryLeadtime,
+        clientAddressDelivery,
+        costingAttachments,
+      })
+    : [];
 
   const incotermDisplay = incoterm === 'other' ? incotermOther : incoterm;
 
@@ -346,60 +387,26 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
 
       {!readOnly && canEditFields && (
         <>
-          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="sellingPrice" className="text-sm font-medium flex items-center gap-2">
-                <DollarSign size={14} className="text-success" />
-                {t.panels.sellingPrice} *
-              </Label>
-              <div className="flex gap-2">
-                <Input
-                  id="sellingPrice"
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  value={sellingPrice}
-                  onChange={(e) => setSellingPrice(e.target.value)}
-                  placeholder={`${t.common.add} ${t.panels.sellingPrice.toLowerCase()}...`}
-                  className="bg-background flex-1"
-                  disabled={readOnly}
-                />
-                <div className="min-w-[130px]">
-                  <Label className="sr-only">{t.panels.currency}</Label>
-                  <Select
-                    value={sellingCurrency}
-                    onValueChange={(value) => setSellingCurrency(value as 'USD' | 'EUR' | 'RMB')}
-                    disabled={readOnly}
-                  >
-                    <SelectTrigger className="w-full">
-                      <SelectValue placeholder={t.panels.selectCurrency} />
-                    </SelectTrigger>
-                    <SelectContent className="bg-card border border-border">
-                      <SelectItem value="USD">{t.panels.currencyUsd}</SelectItem>
-                      <SelectItem value="EUR">{t.panels.currencyEur}</SelectItem>
-                      <SelectItem value="RMB">{t.panels.currencyRmb}</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-              </div>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="calculatedMargin" className="text-sm font-medium flex items-center gap-2">
-                <TrendingUp size={14} className="text-info" />
-                {t.panels.margin} (%) *
-              </Label>
-              <Input
-                id="calculatedMargin"
-                type="number"
-                step="0.1"
-                value={calculatedMargin}
-                onChange={(e) => setCalculatedMargin(e.target.value)}
-                placeholder={`${t.common.add} ${t.panels.margin.toLowerCase()}...`}
-                className="bg-background"
-                disabled={readOnly}
-              />
-            </div>
-          </div>
+          <ReferenceMatchSuggestions
+            requestId={request.id}
+            currency={sellingCurrency}
+            disabled={isUpdating}
+            onAccept={acceptSuggestion}
+          />
+
+          <SimilarRequestsPanel requestId={request.id} />
+
+          <CostSheetPanel request={request} onApply={applyCostSheet} />
+
+          <ProductPricingTable
+            products={products}
+            lines={productPrices}
+            currency={sellingCurrency}
+            priceLabel={t.panels.sellingPrice}
+            marginLabel={t.panels.margin}
+            onCurrencyChange={setSellingCurrency}
+            onLineChange={updateProductPrice}
+          />
 
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
             <div className="space-y-2">
@@ -487,11 +494,12 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
               variant="outline"
               onClick={() => fileInputRef.current?.click()}
               className="w-full border-dashed"
-              disabled={readOnly}
+              disabled={readOnly || uploadProgress !== null}
             >
               <Upload size={16} className="mr-2" />
               {t.panels.uploadCostingDocs}
             </Button>
+            <UploadProgress percent={uploadProgress} />
             {uploadError && (
               <p className="text-xs text-destructive">{uploadError}</p>
             )}
@@ -503,7 +511,7 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
                     className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/40 px-3 py-2"
                   >
                     <div className="flex min-w-0 flex-1 items-center gap-2">
-                      <File size={16} className="text-primary" />
+                      <AttachmentThumbnail attachment={attachment} />
                       <span className="text-sm truncate">{attachment.filename}</span>
                     </div>
                     <div className="flex items-center gap-1">
@@ -569,6 +577,7 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
                 sellingPrice: sellingPrice ? parseFloat(sellingPrice) : undefined,
                 sellingCurrency,
                 calculatedMargin: calculatedMargin ? parseFloat(calculatedMargin) : undefined,
+                costingProductPrices,
                 incoterm,
                 incotermOther,
                 vatMode,
@@ -583,13 +592,22 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
                 await onUpdateCostingData(payload);
               }
             } : handleSubmitCosting}
-            disabled={!isValidSubmission || isUpdating}
+            disabled={!isValidSubmission || completionIssues.length > 0 || isUpdating}
             className={`w-full ${editMode ? 'bg-primary hover:bg-primary/90 text-primary-foreground' : 'bg-success hover:bg-success/90 text-success-foreground'}`}
           >
             {isUpdating && <Loader2 size={16} className="mr-2 animate-spin" />}
             <CheckCircle size={16} className="mr-2" />
             {editMode ? t.common.save : t.panels.submitCostingComplete}
           </Button>
+          {completionIssues.length > 0 && (
+            <ul className="space-y-1">
+              {completionIssues.map((issue) => (
+                <li key={issue.message} className="text-xs text-destructive">
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
         </>
       )}
 
@@ -634,13 +652,25 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
               </p>
             )}
           </div>
+          {products.length > 1 && Array.isArray(request.costingProductPrices) && request.costingProductPrices.length > 0 && (
+            <ProductPricingTable
+              products={products}
+              lines={seedProductPriceDrafts(products.length, [request.costingProductPrices])}
+              currency={request.sellingCurrency ?? 'EUR'}
+              priceLabel={t.panels.sellingPrice}
+              marginLabel={t.panels.margin}
+              showMargin={typeof request.calculatedMargin === 'number'}
+              readOnly
+            />
+          )}
+          {(readOnly || !canEditFields) && <CostSheetPanel request={request} />}
           {Array.isArray(request.costingAttachments) && request.costingAttachments.length > 0 && (
             <div className="space-y-2">
               <p className="text-sm font-medium text-foreground">{t.panels.costingAttachments}</p>
               {request.costingAttachments.map((attachment) => (
                 <div key={attachment.id} className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/40 px-3 py-2">
                   <div className="flex min-w-0 flex-1 items-center gap-2">
-                    <File size={16} className="text-primary" />
+                    <AttachmentThumbnail attachment={attachment} />
                     <span className="text-sm truncate">{attachment.filename}</span>
                   </div>
                   <div className="flex items-center gap-1">
@@ -691,9 +721,7 @@ const CostingPanel: React.FC<CostingPanelProps> = ({
             {previewAttachment &&
               !isImageFile(previewAttachment.filename) &&
               !isPdfFile(previewAttachment.filename) && (
-                <div className="text-sm text-muted-foreground">
-                  {t.request.previewNotAvailable}
-                </div>
+                <AttachmentDocumentPreview attachment={previewAttachment} />
               )}
             {previewAttachment && !previewUrl && (
               <div className="text-sm text-muted-foreground">
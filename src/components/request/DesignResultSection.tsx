@@ -7,6 +7,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Upload, File, X, Eye, Download } from 'lucide-react';
 import { Attachment } from '@/types';
 import { useLanguage } from '@/context/LanguageContext';
+import UploadProgress from '@/components/shared/UploadProgress';
+import AttachmentDocumentPreview from '@/components/shared/AttachmentDocumentPreview';
+import AttachmentThumbnail from '@/components/shared/AttachmentThumbnail';
+import { AttachmentUploadError, findOversizedFile, uploadAttachments } from '@/lib/attachmentUpload';
 
 interface DesignResultSectionProps {
   bomFolderLink: string;
@@ -49,6 +53,9 @@ const DesignResultSection: React.FC<DesignResultSectionProps> = ({
   const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null);
   const [previewUrl, setPreviewUrl] = useState('');
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  // Per product line; null once the upload finished.
+  const [uploadProgress, setUploadProgress] = useState<Record<number, number | null>>({});
+  const [uploadErrors, setUploadErrors] = useState<Record<number, string | null>>({});
   const { t } = useLanguage();
 
   const openPreview = (attachment: Attachment) => {
@@ -170,36 +177,27 @@ const DesignResultSection: React.FC<DesignResultSectionProps> = ({
 
   const handleFileUpload = async (lineIndex: number, files: FileList | null) => {
     if (!files || !onProductLineAttachmentsChange) return;
+    const selected = Array.from(files);
+    if (findOversizedFile(selected)) {
+      setUploadErrors((prev) => ({ ...prev, [lineIndex]: t.common.uploadTooLarge }));
+      return;
+    }
 
-    const readAsDataUrl = (file: File, index: number) =>
-      new Promise<Attachment>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => {
-          resolve({
-            id: `${Date.now()}-${lineIndex}-${index}`,
-            type: 'other',
-            filename: file.name,
-            url: typeof reader.result === 'string' ? reader.result : '',
-            uploadedAt: new Date(),
-            uploadedBy: 'current-user',
-          });
-        };
-        reader.onerror = () => {
-          reject(reader.error);
-        };
-        reader.readAsDataURL(file);
-      });
-
+    setUploadErrors((prev) => ({ ...prev, [lineIndex]: null }));
+    setUploadProgress((prev) => ({ ...prev, [lineIndex]: 0 }));
     try {
-      const newAttachments = await Promise.all(
-        Array.from(files).map((file, index) => readAsDataUrl(file, index))
-      );
+      const newAttachments = await uploadAttachments(selected, {
+        onProgress: (percent) => setUploadProgress((prev) => ({ ...prev, [lineIndex]: percent })),
+      });
       const current = Array.isArray(productLineFields[lineIndex]?.designResultAttachments)
         ? productLineFields[lineIndex].designResultAttachments
         : [];
       onProductLineAttachmentsChange(lineIndex, [...current, ...newAttachments]);
-    } catch {
-      // Ignore failed reads; keep existing attachments intact.
+    } catch (error) {
+      const tooLarge = error instanceof AttachmentUploadError && error.status === 413;
+      setUploadErrors((prev) => ({ ...prev, [lineIndex]: tooLarge ? t.common.uploadTooLarge : t.common.uploadFailed }));
+    } finally {
+      setUploadProgress((prev) => ({ ...prev, [lineIndex]: null }));
     }
   };
 
@@ -349,10 +347,13 @@ const DesignResultSection: React.FC<DesignResultSectionProps> = ({
                           variant="outline"
                           onClick={() => inputRefs.current[index]?.click()}
                           className="w-full border-dashed"
+                          disabled={uploadProgress[index] != null}
                         >
                           <Upload size={16} className="mr-2" />
                           {t.panels.uploadDesignDocs}
                         </Button>
+                        <UploadProgress percent={uploadProgress[index] ?? null} />
+                        {uploadErrors[index] && <p className="text-xs text-destructive">{uploadErrors[index]}</p>}
                       </>
                     )}
 
@@ -364,7 +365,7 @@ const DesignResultSection: React.FC<DesignResultSectionProps> = ({
                             className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/40 px-3 py-2"
                           >
                             <div className="flex min-w-0 flex-1 items-center gap-2">
-                              <File size={16} className="text-primary" />
+                              <AttachmentThumbnail attachment={attachment} />
                               <span className="text-sm truncate">{attachment.filename}</span>
                             </div>
                             <div className="flex items-center gap-1">
@@ -432,9 +433,7 @@ const DesignResultSection: React.FC<DesignResultSectionProps> = ({
             {previewAttachment &&
               !isImageFile(previewAttachment.filename) &&
               !isPdfFile(previewAttachment.filename) && (
-                <div className="text-sm text-muted-foreground">
-                  {t.request.downloadFile}
-                </div>
+                <AttachmentDocumentPreview attachment={previewAttachment} />
               )}
             {previewAttachment && !previewUrl && (
               <div className="text-sm text-muted-foreground">
@@ -9,6 +9,8 @@ import { Calendar as CalendarIcon, CheckCircle, AlertCircle, Clock, Loader2 } fr
 import { CustomerRequest, RequestStatus } from '@/types';
 import { cn } from '@/lib/utils';
 import { useLanguage } from '@/context/LanguageContext';
+import { useWorkflow } from '@/hooks/use-workflow';
+import SimilarRequestsPanel from './SimilarRequestsPanel';
 interface DesignReviewPanelProps {
   request: CustomerRequest;
   onUpdateStatus: (status: RequestStatus, data?: { comment?: string; message?: string; date?: Date }) => void;
@@ -32,6 +34,7 @@ const DesignReviewPanel: React.FC<DesignReviewPanelProps> = ({
   const [showClarificationForm, setShowClarificationForm] = useState(false);
   const [showAcceptanceForm, setShowAcceptanceForm] = useState(false);
   const { t } = useLanguage();
+  const { canTransition } = useWorkflow();
   const today = startOfDay(new Date());
 
   const handleSetUnderReview = () => {
@@ -53,9 +56,9 @@ const DesignReviewPanel: React.FC<DesignReviewPanelProps> = ({
     setShowAcceptanceForm(false);
   };
 
-  const canSetUnderReview = forceEnableActions || request.status === 'submitted';
-  const canRequestClarification = forceEnableActions || request.status === 'submitted' || request.status === 'under_review';
-  const canAccept = forceEnableActions || request.status === 'submitted' || request.status === 'under_review';
+  const canSetUnderReview = forceEnableActions || canTransition(request.status, 'under_review');
+  const canRequestClarification = forceEnableActions || canTransition(request.status, 'clarification_needed');
+  const canAccept = forceEnableActions || canTransition(request.status, 'feasibility_confirmed');
   const isAccepted = [
     'feasibility_confirmed',
     'design_result',
@@ -264,6 +267,8 @@ const DesignReviewPanel: React.FC<DesignReviewPanelProps> = ({
           )}
         </div>
       )}
+
+      {showActions && <SimilarRequestsPanel requestId={request.id} />}
     </>
   );
 
@@ -0,0 +1,152 @@
+import React from 'react';
+import { DollarSign } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PriceCurrency, RequestProduct } from '@/types';
+import { useLanguage } from '@/context/LanguageContext';
+import { ProductPriceDraft, getLineQuantity, rollUpProductPrices, toProductPrices } from '@/lib/productPricing';
+
+interface ProductPricingTableProps {
+  products: RequestProduct[];
+  lines: ProductPriceDraft[];
+  currency: PriceCurrency;
+  priceLabel: string;
+  marginLabel: string;
+  onCurrencyChange?: (currency: PriceCurrency) => void;
+  onLineChange?: (index: number, patch: Partial<ProductPriceDraft>) => void;
+  // Shows the saved lines as text, for request summaries.
+  readOnly?: boolean;
+  showMargin?: boolean;
+}
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const ProductPricingTable: React.FC<ProductPricingTableProps> = ({
+  products,
+  lines,
+  currency,
+  priceLabel,
+  marginLabel,
+  onCurrencyChange,
+  onLineChange,
+  readOnly = false,
+  showMargin = true,
+}) => {
+  const { t, translateOption } = useLanguage();
+  const prices = toProductPrices(lines, currency);
+  const rollUp = rollUpProductPrices(prices, products);
+
+  const productTitle = (index: number) => {
+    const product = products[index];
+    const name = product?.offerProductName || (product?.configurationType ? translateOption(product.configurationType) : '');
+    return `${t.request.productLabel} ${index + 1}${name ? ` · ${name}` : ''}`;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-end justify-between gap-2">
+        <div className="space-y-1">
+          <Label className="text-sm font-medium flex items-center gap-2">
+            <DollarSign size={14} className="text-success" />
+            {priceLabel}
+            {!readOnly && ' *'}
+          </Label>
+          {!readOnly && <p className="text-xs text-muted-foreground">{t.panels.productPricesDesc}</p>}
+        </div>
+        {readOnly ? (
+          <span className="text-sm text-muted-foreground">{currency}</span>
+        ) : (
+          <div className="min-w-[130px]">
+            <Label className="sr-only">{t.panels.currency}</Label>
+            <Select value={currency} onValueChange={(value) => onCurrencyChange?.(value as PriceCurrency)}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder={t.panels.selectCurrency} />
+              </SelectTrigger>
+              <SelectContent className="bg-card border border-border">
+                <SelectItem value="USD">{t.panels.currencyUsd}</SelectItem>
+                <SelectItem value="EUR">{t.panels.currencyEur}</SelectItem>
+                <SelectItem value="RMB">{t.panels.currencyRmb}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border bg-background/60 overflow-x-auto scrollbar-thin">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[180px]">{t.request.productLabel}</TableHead>
+              <TableHead className="w-[70px] text-right">{t.clientOffer.quantity}</TableHead>
+              <TableHead className="min-w-[130px] text-right">{t.clientOffer.unitPrice}</TableHead>
+              {showMargin && <TableHead className="min-w-[100px] text-right">{marginLabel} (%)</TableHead>}
+              <TableHead className="min-w-[120px] text-right">{t.clientOffer.lineTotal}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {lines.map((line, index) => {
+              const quantity = getLineQuantity(products[index]);
+              const unitPrice = prices[index].unitPrice;
+              return (
+                <TableRow key={index}>
+                  <TableCell className="py-2 text-sm">{productTitle(index)}</TableCell>
+                  <TableCell className="py-2 text-right tabular-nums">{quantity}</TableCell>
+                  <TableCell className="py-2 text-right tabular-nums">
+                    {readOnly ? (
+                      unitPrice !== null ? formatMoney(unitPrice) : '-'
+                    ) : (
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="h-8 text-right bg-background"
+                        value={line.unitPrice}
+                        onChange={(e) => onLineChange?.(index, { unitPrice: e.target.value })}
+                      />
+                    )}
+                  </TableCell>
+                  {showMargin && (
+                    <TableCell className="py-2 text-right tabular-nums">
+                      {readOnly ? (
+                        prices[index].margin !== null ? `${prices[index].margin?.toFixed(1)}%` : '-'
+                      ) : (
+                        <Input
+                          type="number"
+                          step="0.1"
+                          className="h-8 text-right bg-background"
+                          value={line.margin}
+                          onChange={(e) => onLineChange?.(index, { margin: e.target.value })}
+                        />
+                      )}
+                    </TableCell>
+                  )}
+                  <TableCell className="py-2 text-right tabular-nums">
+                    {unitPrice !== null && unitPrice > 0 ? formatMoney(unitPrice * quantity) : '-'}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            <TableRow className="bg-muted/40 hover:bg-muted/40">
+              <TableCell colSpan={3} className="py-2 text-sm font-medium">
+                {t.panels.requestTotal}
+              </TableCell>
+              {showMargin && (
+                <TableCell className="py-2 text-right tabular-nums" title={t.panels.weightedMargin}>
+                  {rollUp.margin !== null ? `${rollUp.margin.toFixed(1)}%` : '-'}
+                </TableCell>
+              )}
+              <TableCell className="py-2 text-right font-semibold tabular-nums">
+                {rollUp.total !== null ? `${currency} ${formatMoney(rollUp.total)}` : '-'}
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default ProductPricingTable;
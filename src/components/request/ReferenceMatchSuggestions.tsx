@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { Check, CircleHelp, Loader2, Minus, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  PriceCurrency,
+  ReferenceMatchField,
+  ReferenceMatchStatus,
+  ReferencePriceSuggestion,
+  RequestProductMatches,
+} from '@/types';
+import { useLanguage } from '@/context/LanguageContext';
+import { localizeApiError } from '@/utils/localizeApiError';
+
+interface ReferenceMatchSuggestionsProps {
+  requestId: string;
+  // Suggestions are priced in this currency when the reference product has a price in it.
+  currency: PriceCurrency;
+  disabled?: boolean;
+  // Called with the product line the suggestion was made for.
+  onAccept: (suggestion: ReferencePriceSuggestion, productIndex: number) => void;
+}
+
+const STATUS_STYLES: Record<ReferenceMatchStatus, { icon: React.ElementType; className: string }> = {
+  match: { icon: Check, className: 'text-success' },
+  partial: { icon: Minus, className: 'text-warning' },
+  mismatch: { icon: X, className: 'text-destructive' },
+  unknown: { icon: CircleHelp, className: 'text-muted-foreground' },
+  special: { icon: CircleHelp, className: 'text-muted-foreground' },
+};
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const ReferenceMatchSuggestions: React.FC<ReferenceMatchSuggestionsProps> = ({
+  requestId,
+  currency,
+  disabled = false,
+  onAccept,
+}) => {
+  const { t, translateOption } = useLanguage();
+  const [matches, setMatches] = useState<RequestProductMatches[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Accepted price per product line.
+  const [acceptedPriceIds, setAcceptedPriceIds] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    let isActive = true;
+    setIsLoading(true);
+    setError(null);
+    fetch(`/api/requests/${encodeURIComponent(requestId)}/reference-matches?currency=${currency}`, { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => null);
+        if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+        if (isActive) setMatches(Array.isArray(data?.matches) ? data.matches : []);
+      })
+      .catch((err) => {
+        if (isActive) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (isActive) setIsLoading(false);
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [requestId, currency]);
+
+  const fieldLabels: Record<ReferenceMatchField['field'], string> = {
+    configurationType: t.request.configurationType,
+    articulationType: t.request.articulationType,
+    brakeType: t.request.brakeType,
+    brakeSize: t.request.brakeSize,
+    studsPcdStandards: t.priceList.studsPcdStandards,
+  };
+  const statusLabels: Record<ReferenceMatchStatus, string> = {
+    match: t.panels.matchStatusMatch,
+    partial: t.panels.matchStatusPartial,
+    mismatch: t.panels.matchStatusMismatch,
+    unknown: t.panels.matchStatusUnknown,
+    special: t.panels.matchStatusSpecial,
+  };
+
+  const displayValue = (field: ReferenceMatchField['field'], value: string) => {
+    if (!value) return t.priceList.notSet;
+    return field === 'studsPcdStandards' || field === 'brakeSize' ? value : translateOption(value);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-muted/20 p-4">
+      <div className="flex items-start gap-2">
+        <Sparkles size={16} className="mt-0.5 text-primary" />
+        <div>
+          <p className="text-sm font-medium text-foreground">{t.panels.referenceMatches}</p>
+          <p className="text-xs text-muted-foreground">{t.panels.referenceMatchesDesc}</p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t.common.loading}
+        </div>
+      ) : error ? (
+        <p className="text-xs text-destructive">{localizeApiError(t, error)}</p>
+      ) : (
+        matches.map((line) => (
+          <div key={line.productIndex} className="space-y-2">
+            {matches.length > 1 && (
+              <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                {t.request.productLabel} {line.productIndex + 1}
+                {line.quantity ? ` · ${t.request.quantity}: ${line.quantity}` : ''}
+              </p>
+            )}
+            {line.candidates.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t.panels.noReferenceMatches}</p>
+            ) : (
+              line.candidates.map((candidate) => {
+                const suggestion = candidate.suggestion;
+                return (
+                  <div
+                    key={candidate.product.id}
+                    className="space-y-2 rounded-md border border-border bg-background px-3 py-2"
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium text-foreground">
+                          {candidate.product.partNumber || translateOption(candidate.product.configurationType)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {t.panels.matchScore.replace('{score}', String(candidate.score))}
+                        </p>
+                      </div>
+                      {suggestion ? (
+                        <div className="flex items-center gap-2">
+                          <div className="text-right">
+                            <p className="text-sm font-semibold text-foreground">
+                              {suggestion.currency} {formatMoney(suggestion.unitPrice)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {suggestion.quantityBreak
+                                ? t.panels.quantityBreakApplied.replace(
+                                    '{quantity}',
+                                    String(suggestion.quantityBreak.minQuantity)
+                                  )
+                                : t.panels.basePriceApplied}
+                              {typeof suggestion.margin === 'number'
+                                ? ` · ${t.panels.margin}: ${suggestion.margin.toFixed(1)}%`
+                                : ''}
+                            </p>
+                          </div>
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant={acceptedPriceIds[line.productIndex] === suggestion.priceId ? 'secondary' : 'outline'}
+                            disabled={disabled}
+                            onClick={() => {
+                              setAcceptedPriceIds((prev) => ({ ...prev, [line.productIndex]: suggestion.priceId }));
+                              onAccept(suggestion, line.productIndex);
+                            }}
+                          >
+                            {acceptedPriceIds[line.productIndex] === suggestion.priceId ? t.panels.suggestionAccepted : t.panels.acceptSuggestion}
+                          </Button>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">{t.priceList.noCurrentPrice}</p>
+                      )}
+                    </div>
+                    <ul className="grid gap-1 sm:grid-cols-2">
+                      {candidate.fields.map((item) => {
+                        const style = STATUS_STYLES[item.status];
+                        const Icon = style.icon;
+                        return (
+                          <li key={item.field} className="flex items-start gap-1.5 text-xs">
+                            <Icon size={12} className={`mt-0.5 shrink-0 ${style.className}`} aria-label={statusLabels[item.status]} />
+                            <span className="text-muted-foreground">
+                              <span className="font-medium text-foreground">{fieldLabels[item.field]}:</span>{' '}
+                              {displayValue(item.field, item.requestValue)}
+                              {item.status !== 'match' && ` → ${displayValue(item.field, item.referenceValue)}`}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ReferenceMatchSuggestions;
@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowRight, Loader2 } from 'lucide-react';
+import { RequestChangeSection, RequestFieldChange } from '@/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatRequestFieldValue, getRequestFieldLabel } from '@/lib/requestFieldLabels';
+import { useLanguage } from '@/context/LanguageContext';
+
+interface RequestChangeHistoryProps {
+  requestId: string;
+  // Changes whenever the request is saved so the list reloads.
+  refreshKey?: string | number;
+}
+
+type SectionFilter = 'all' | RequestChangeSection;
+
+const SECTION_FILTERS: SectionFilter[] = ['all', 'general', 'technical', 'costing', 'sales'];
+
+type RequestFieldChangeRow = Omit<RequestFieldChange, 'changedAt'> & { changedAt: string };
+
+const reviveChange = (row: RequestFieldChangeRow): RequestFieldChange => ({
+  ...row,
+  changeSetId: row.changeSetId || row.id,
+  changedAt: row.changedAt ? new Date(row.changedAt) : new Date(),
+});
+
+const RequestChangeHistory: React.FC<RequestChangeHistoryProps> = ({ requestId, refreshKey }) => {
+  const { t } = useLanguage();
+  const [section, setSection] = useState<SectionFilter>('all');
+  const [changes, setChanges] = useState<RequestFieldChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const qs = section === 'all' ? '' : `?section=${encodeURIComponent(section)}`;
+    setIsLoading(true);
+    setLoadError(null);
+    void (async () => {
+      try {
+        const res = await fetch(`/api/requests/${encodeURIComponent(requestId)}/changes${qs}`);
+        const data = (await res.json().catch(() => null)) as { changes?: RequestFieldChangeRow[]; error?: string } | null;
+        if (!res.ok) {
+          throw new Error(String(data?.error ?? `Failed to load changes (${res.status})`));
+        }
+        if (cancelled) return;
+        setChanges(Array.isArray(data?.changes) ? data.changes.map(reviveChange) : []);
+      } catch (error) {
+        if (cancelled) return;
+        setChanges([]);
+        setLoadError(String((error as Error)?.message ?? error));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, section, refreshKey]);
+
+  // One group per save, newest first (the API already sorts by changedAt DESC).
+  const groups = useMemo(() => {
+    const out: Array<{ id: string; changedAt: Date; actorName: string | null; items: RequestFieldChange[] }> = [];
+    const byId = new Map<string, (typeof out)[number]>();
+    for (const change of changes) {
+      let group = byId.get(change.changeSetId);
+      if (!group) {
+        group = { id: change.changeSetId, changedAt: change.changedAt, actorName: change.actorName, items: [] };
+        byId.set(change.changeSetId, group);
+        out.push(group);
+      }
+      group.items.push(change);
+    }
+    return out;
+  }, [changes]);
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-4 md:p-6">
+      <div className="flex items-center justify-between gap-2 mb-3 md:mb-4">
+        <h3 className="font-semibold text-foreground text-sm md:text-base">{t.timeline.changes}</h3>
+        <Select value={section} onValueChange={(value) => setSection(value as SectionFilter)}>
+          <SelectTrigger className="h-8 w-[140px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SECTION_FILTERS.map((value) => (
+              <SelectItem key={value} value={value}>
+                {t.timeline.sections[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && !groups.length ? (
+        <div className="flex items-center gap-2 text-xs md:text-sm text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t.common.loading}
+        </div>
+      ) : loadError ? (
+        <p className="text-xs md:text-sm text-destructive">{loadError}</p>
+      ) : !groups.length ? (
+        <p className="text-xs md:text-sm text-muted-foreground">{t.timeline.noChanges}</p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <div key={group.id} className="space-y-2">
+              <div className="flex flex-wrap items-center gap-1 md:gap-2">
+                <span className="font-medium text-foreground text-xs md:text-sm">{group.actorName || '-'}</span>
+                <span className="text-[10px] md:text-xs text-muted-foreground">
+                  {format(group.changedAt, 'MMM d, yyyy HH:mm')}
+                </span>
+              </div>
+              <div className="space-y-1.5">
+                {group.items.map((change) => (
+                  <div key={change.id} className="p-2 rounded-lg bg-muted/50 border border-border">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-xs font-medium text-foreground break-words">
+                        {getRequestFieldLabel(t, change.fieldPath)}
+                      </p>
+                      <span className="text-[10px] uppercase tracking-wide text-muted-foreground shrink-0">
+                        {t.timeline.sections[change.section] ?? change.section}
+                      </span>
+                    </div>
+                    <div className="mt-1 flex items-start gap-1.5 text-xs">
+                      <span className="text-muted-foreground line-through break-words min-w-0">
+                        {formatRequestFieldValue(change.before)}
+                      </span>
+                      <ArrowRight size={12} className="mt-0.5 shrink-0 text-muted-foreground" />
+                      <span className="text-foreground break-words min-w-0">{formatRequestFieldValue(change.after)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RequestChangeHistory;
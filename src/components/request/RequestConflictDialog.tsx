@@ -0,0 +1,109 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { ConflictChoice, getPathValue } from '@/lib/concurrency';
+import { formatRequestFieldValue, getRequestFieldLabel } from '@/lib/requestFieldLabels';
+import { useLanguage } from '@/context/LanguageContext';
+
+interface RequestConflictDialogProps {
+  open: boolean;
+  fields: string[];
+  mine: unknown;
+  theirs: unknown;
+  theirsEditedBy?: string;
+  choices: Record<string, ConflictChoice>;
+  onChoiceChange: (path: string, choice: ConflictChoice) => void;
+  onApply: () => void;
+  onDiscard: () => void;
+  isApplying?: boolean;
+}
+
+const RequestConflictDialog: React.FC<RequestConflictDialogProps> = ({
+  open,
+  fields,
+  mine,
+  theirs,
+  theirsEditedBy,
+  choices,
+  onChoiceChange,
+  onApply,
+  onDiscard,
+  isApplying = false,
+}) => {
+  const { t } = useLanguage();
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent className="bg-card max-w-2xl max-h-[90vh] overflow-auto scrollbar-thin">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{t.request.conflictTitle}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {theirsEditedBy
+              ? t.request.conflictDescBy.replace('{name}', theirsEditedBy)
+              : t.request.conflictDesc}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          {fields.map((path) => {
+            const choice = choices[path] ?? 'mine';
+            const itemId = `conflict-${path.replace(/\./g, '-')}`;
+            return (
+              <div key={path} className="rounded-lg border border-border bg-muted/30 p-3 space-y-2">
+                <p className="text-sm font-medium text-foreground">{getRequestFieldLabel(t, path)}</p>
+                <RadioGroup
+                  value={choice}
+                  onValueChange={(value) => onChoiceChange(path, value as ConflictChoice)}
+                  className="grid gap-2 sm:grid-cols-2"
+                  disabled={isApplying}
+                >
+                  <div className="flex items-start gap-2 rounded-md border border-border bg-background p-2">
+                    <RadioGroupItem value="mine" id={`${itemId}-mine`} className="mt-0.5" />
+                    <Label htmlFor={`${itemId}-mine`} className="cursor-pointer space-y-1">
+                      <span className="block text-xs text-muted-foreground">{t.request.conflictKeepMine}</span>
+                      <span className="block text-sm break-words">{formatRequestFieldValue(getPathValue(mine, path))}</span>
+                    </Label>
+                  </div>
+                  <div className="flex items-start gap-2 rounded-md border border-border bg-background p-2">
+                    <RadioGroupItem value="theirs" id={`${itemId}-theirs`} className="mt-0.5" />
+                    <Label htmlFor={`${itemId}-theirs`} className="cursor-pointer space-y-1">
+                      <span className="block text-xs text-muted-foreground">{t.request.conflictUseTheirs}</span>
+                      <span className="block text-sm break-words">{formatRequestFieldValue(getPathValue(theirs, path))}</span>
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            );
+          })}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onDiscard} disabled={isApplying}>
+            {t.request.conflictDiscardMine}
+          </AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              onApply();
+            }}
+            disabled={isApplying}
+          >
+            {isApplying ? t.request.saving : t.request.conflictApplyMerge}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default RequestConflictDialog;
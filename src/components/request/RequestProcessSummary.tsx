@@ -1,7 +1,9 @@
 import React, { useMemo, useState } from "react";
 import { format } from "date-fns";
 import { Download, Eye, File, Paperclip } from "lucide-react";
+import AttachmentDocumentPreview from "@/components/shared/AttachmentDocumentPreview";
 
+import { useAuth } from "@/context/AuthContext";
 import { useLanguage } from "@/context/LanguageContext";
 import { Attachment, CustomerRequest, RequestStatus } from "@/types";
 import { cn } from "@/lib/utils";
@@ -169,8 +171,8 @@ const AttachmentList: React.FC<{
             {previewAttachment &&
               !isImageFile(previewAttachment.filename) &&
               !isPdfFile(previewAttachment.filename) && (
-                <div className="space-y-3 text-center">
-                  <div className="text-sm text-muted-foreground">{t.request.previewNotAvailable}</div>
+                <div className="w-full space-y-3 text-center">
+                  <AttachmentDocumentPreview attachment={previewAttachment} />
                   <a
                     href={buildAttachmentHref(previewAttachment)}
                     download={previewAttachment.filename}
@@ -219,6 +221,8 @@ const StepTile: React.FC<{
 
 const RequestProcessSummary: React.FC<Props> = ({ request }) => {
   const { t, translateOption } = useLanguage();
+  const { hasPermission } = useAuth();
+  const canViewMargin = hasPermission("view_costing_margin");
   const products = Array.isArray(request.products) ? request.products : [];
   const perProductDesignAttachmentGroups = products
     .map((product, index) => ({
@@ -429,10 +433,12 @@ const RequestProcessSummary: React.FC<Props> = ({ request }) => {
               label={t.panels.currency}
               value={request.sellingCurrency?.trim() ? request.sellingCurrency : "-"}
             />
-            <FieldLine
-              label={t.panels.margin}
-              value={typeof request.calculatedMargin === "number" ? `${request.calculatedMargin.toFixed(1)}%` : "-"}
-            />
+            {canViewMargin ? (
+              <FieldLine
+                label={t.panels.margin}
+                value={typeof request.calculatedMargin === "number" ? `${request.calculatedMargin.toFixed(1)}%` : "-"}
+              />
+            ) : null}
             <FieldLine
               label={t.panels.incoterm}
               value={(() => {
@@ -483,10 +489,12 @@ const RequestProcessSummary: React.FC<Props> = ({ request }) => {
               label={t.panels.salesFinalPrice}
               value={typeof request.salesFinalPrice === "number" ? `${request.salesCurrency ?? "EUR"} ${request.salesFinalPrice.toFixed(2)}` : "-"}
             />
-            <FieldLine
-              label={t.panels.salesMargin}
-              value={typeof request.salesMargin === "number" ? `${request.salesMargin.toFixed(2)}%` : "-"}
-            />
+            {canViewMargin ? (
+              <FieldLine
+                label={t.panels.salesMargin}
+                value={typeof request.salesMargin === "number" ? `${request.salesMargin.toFixed(2)}%` : "-"}
+              />
+            ) : null}
             <FieldLine
               label={t.panels.warrantyPeriod}
               value={(request.salesWarrantyPeriod ?? "").trim() || "-"}
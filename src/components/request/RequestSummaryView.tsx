@@ -1,6 +1,7 @@
 import React, { useMemo, useState } from "react";
 import { format } from "date-fns";
 import { Download, Eye, File, Paperclip } from "lucide-react";
+import AttachmentDocumentPreview from "@/components/shared/AttachmentDocumentPreview";
 
 import { useLanguage } from "@/context/LanguageContext";
 import { Attachment, CustomerRequest, RequestProduct } from "@/types";
@@ -375,8 +376,8 @@ const RequestSummaryView: React.FC<Props> = ({ request }) => {
             {previewAttachment &&
               !isImageFile(previewAttachment.filename) &&
               !isPdfFile(previewAttachment.filename) && (
-                <div className="space-y-3 text-center">
-                  <div className="text-sm text-muted-foreground">{t.request.previewNotAvailable}</div>
+                <div className="w-full space-y-3 text-center">
+                  <AttachmentDocumentPreview attachment={previewAttachment} />
                   <a
                     href={buildAttachmentHref(previewAttachment)}
                     download={previewAttachment.filename}
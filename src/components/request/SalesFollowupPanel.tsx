@@ -3,8 +3,17 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Attachment, CustomerRequest, RequestStatus, SalesPaymentTerm } from '@/types';
+import {
+  ApprovalSignatureDecision,
+  Attachment,
+  CustomerRequest,
+  ProductPrice,
+  RequestStatus,
+  SalesPaymentTerm,
+  StatusChangeOptions,
+} from '@/types';
 import { useLanguage } from '@/context/LanguageContext';
+import { useWorkflow } from '@/hooks/use-workflow';
 import { DollarSign, CheckCircle, Loader2, Upload, File, Eye, Download, X, ShieldCheck } from 'lucide-react';
 import {
   AlertDialog,
@@ -24,10 +33,20 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import ApprovalSignaturesPanel from '@/components/shared/ApprovalSignaturesPanel';
+import SignatureConfirmDialog from '@/components/shared/SignatureConfirmDialog';
+import CostSheetPanel from './CostSheetPanel';
+import ProductPricingTable from './ProductPricingTable';
+import UploadProgress from '@/components/shared/UploadProgress';
+import AttachmentDocumentPreview from '@/components/shared/AttachmentDocumentPreview';
+import AttachmentThumbnail from '@/components/shared/AttachmentThumbnail';
+import { AttachmentUploadError, findOversizedFile, uploadAttachments } from '@/lib/attachmentUpload';
+import { ProductPriceDraft, rollUpProductPrices, seedProductPriceDrafts, toProductPrices } from '@/lib/productPricing';
 
 type SalesFollowupData = {
   salesFinalPrice?: number;
   salesCurrency?: 'USD' | 'EUR' | 'RMB';
+  salesProductPrices?: ProductPrice[];
   salesIncoterm?: string;
   salesIncotermOther?: string;
   salesVatMode?: 'with' | 'without';
@@ -210,13 +229,15 @@ const normalizePaymentTermsForEditor = (
 
 interface SalesFollowupPanelProps {
   request: CustomerRequest;
-  onUpdateStatus: (status: RequestStatus, comment?: string) => void | Promise<void>;
+  // GM decisions pass the approver's password; the call rejects when the decision was not recorded.
+  onUpdateStatus: (status: RequestStatus, comment?: string, options?: StatusChangeOptions) => void | Promise<void>;
   onUpdateSalesData: (data: SalesFollowupData) => void | Promise<void>;
   onSaveEdits?: (data: SalesFollowupData) => void | Promise<void>;
   isUpdating: boolean;
   readOnly?: boolean;
   forceEnableActions?: boolean;
-  isAdmin?: boolean;
+  // Holds the approve_gm permission (GM decision on gm_approval_pending).
+  isGmApprover?: boolean;
   isSales?: boolean;
   editMode?: boolean;
 }
@@ -229,18 +250,24 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
   isUpdating,
   readOnly = false,
   forceEnableActions = false,
-  isAdmin = false,
+  isGmApprover = false,
   isSales = false,
   editMode = false,
 }) => {
   const { t } = useLanguage();
+  const { canTransition, validateTransition } = useWorkflow();
   const initialSalesValues = resolveInitialSalesValues(request);
   const initialPaymentTermState = normalizePaymentTermsForEditor(
     Array.isArray(request.salesPaymentTerms) ? request.salesPaymentTerms : [],
     request.salesPaymentTermCount
   );
-  const [salesFinalPrice, setSalesFinalPrice] = useState<string>(
-    initialSalesValues.salesFinalPrice
+  const products = request.products ?? [];
+  // Sales start from their own saved lines, else from the prices costing handed over.
+  const [productPrices, setProductPrices] = useState<ProductPriceDraft[]>(() =>
+    seedProductPriceDrafts(products.length, [request.salesProductPrices, request.costingProductPrices], {
+      unitPrice: parseFiniteNumber(initialSalesValues.salesFinalPrice),
+      margin: parseFiniteNumber(initialSalesValues.salesMargin),
+    })
   );
   const [salesCurrency, setSalesCurrency] = useState<'USD' | 'EUR' | 'RMB'>(
     initialSalesValues.salesCurrency
@@ -251,9 +278,6 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
   const [salesVatRate, setSalesVatRate] = useState<string>(
     initialSalesValues.salesVatRate
   );
-  const [salesMargin, setSalesMargin] = useState<string>(
-    initialSalesValues.salesMargin
-  );
   const [salesWarrantyPeriod, setSalesWarrantyPeriod] = useState<string>(
     initialSalesValues.salesWarrantyPeriod
   );
@@ -272,6 +296,8 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
   );
   const [resubmitCommentError, setResubmitCommentError] = useState<string | null>(null);
   const [submissionError, setSubmissionError] = useState<string | null>(null);
+  // Rule issues are listed once a submission was attempted, then update live as fields are fixed.
+  const [showApprovalIssues, setShowApprovalIssues] = useState(false);
   const [salesAttachments, setSalesAttachments] = useState<Attachment[]>(
     Array.isArray(request.salesAttachments) ? request.salesAttachments : []
   );
@@ -279,12 +305,24 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
   const [previewUrl, setPreviewUrl] = useState('');
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
   const [approvalComment, setApprovalComment] = useState<string>('');
+  const [signingDecision, setSigningDecision] = useState<ApprovalSignatureDecision | null>(null);
   const [isCancelOpen, setIsCancelOpen] = useState(false);
   const [cancelReason, setCancelReason] = useState('');
   const [cancelReasonError, setCancelReasonError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // The request-level final price and margin are rolled up from the product lines.
+  const salesProductPrices = toProductPrices(productPrices, salesCurrency);
+  const salesRollUp = rollUpProductPrices(salesProductPrices, products);
+  const salesFinalPrice = salesRollUp.total !== null ? salesRollUp.total.toFixed(2) : '';
+  const salesMargin = salesRollUp.margin !== null ? salesRollUp.margin.toString() : '';
+
+  const updateProductPrice = (index: number, patch: Partial<ProductPriceDraft>) => {
+    setProductPrices((prev) => prev.map((line, lineIndex) => (lineIndex === index ? { ...line, ...patch } : line)));
+  };
+
   const parseOptionalNumber = (value: string): number | null => {
     const trimmed = value.trim();
     if (!trimmed) return null;
@@ -425,39 +463,23 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
     };
   }, [previewAttachment]);
 
-  const readAsDataUrl = (file: File, index: number) =>
-    new Promise<Attachment>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        resolve({
-          id: `${Date.now()}-${index}`,
-          type: 'other',
-          filename: file.name,
-          url: typeof reader.result === 'string' ? reader.result : '',
-          uploadedAt: new Date(),
-          uploadedBy: 'current-user',
-        });
-      };
-      reader.onerror = () => reject(reader.error);
-      reader.readAsDataURL(file);
-    });
-
   const handleFileUpload = async (files: FileList | null) => {
     if (!files || readOnly) return;
-    const maxSize = 10 * 1024 * 1024;
-    const tooLarge = Array.from(files).find((f) => f.size > maxSize);
-    if (tooLarge) {
+    const selected = Array.from(files);
+    if (findOversizedFile(selected)) {
       setUploadError(t.panels.salesUploadError);
       return;
     }
     setUploadError(null);
+    setUploadProgress(0);
     try {
-      const newAttachments = await Promise.all(
-        Array.from(files).map((file, index) => readAsDataUrl(file, index))
-      );
+      const newAttachments = await uploadAttachments(selected, { onProgress: setUploadProgress });
       setSalesAttachments((prev) => [...prev, ...newAttachments]);
-    } catch {
-      setUploadError(t.panels.salesUploadError);
+    } catch (error) {
+      const tooLarge = error instanceof AttachmentUploadError && error.status === 413;
+      setUploadError(tooLarge ? t.panels.salesUploadError : t.common.uploadFailed);
+    } finally {
+      setUploadProgress(null);
     }
   };
 
@@ -553,6 +575,7 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
     return {
       salesFinalPrice: finalPriceValue ?? undefined,
       salesCurrency,
+      salesProductPrices,
       salesIncoterm,
       salesIncotermOther,
       salesVatMode,
@@ -590,43 +613,9 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
 
   const handleSubmitForApproval = async () => {
     setSubmissionError(null);
-    const payload = buildSalesPayload(true);
-    if (!payload) {
-      setSubmissionError(`${t.panels.salesFinalPrice} ${t.common.required}`);
-      return;
-    }
-
-    const localVatRate = parseOptionalNumber(salesVatRate);
-    if (salesVatMode === 'with' && localVatRate === null) {
-      setSubmissionError(t.panels.enterVatRate);
-      return;
-    }
-
-    const localMargin = parseOptionalNumber(salesMargin);
-    if (localMargin === null) {
-      setSubmissionError(t.panels.enterSalesMargin);
-      return;
-    }
-
-    if (salesExpectedDeliveryDate.trim().length === 0) {
-      setSubmissionError(`${t.panels.salesExpectedDeliveryDate} ${t.common.required}`);
-      return;
-    }
-
-    const localTerms = getActivePaymentTerms();
-    const localTermsComplete = localTerms.every(
-      (term) =>
-        term.paymentName.trim().length > 0 &&
-        term.paymentPercent !== null &&
-        (term.paymentNamePreset !== 'other' || term.paymentNameOther.trim().length > 0)
-    );
-    if (!localTermsComplete) {
-      setSubmissionError(t.panels.paymentTermsRequired);
-      return;
-    }
-    const localPaymentTotal = localTerms.reduce((sum, term) => sum + (term.paymentPercent ?? 0), 0);
-    if (Math.abs(localPaymentTotal - 100) >= 0.01) {
-      setSubmissionError(t.panels.paymentTermsTotalInvalid);
+    setShowApprovalIssues(true);
+    const payload = buildSalesPayload(false);
+    if (!payload || approvalIssues.length) {
       return;
     }
 
@@ -653,15 +642,25 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
   };
 
   const handleApproveDeal = () => {
-    onUpdateStatus('gm_approved', approvalComment?.trim() || undefined);
+    setSigningDecision('approved');
   };
 
   const handleRejectDeal = () => {
-    onUpdateStatus('gm_rejected', approvalComment?.trim() || undefined);
+    setSigningDecision('rejected');
+  };
+
+  const handleSignDecision = async (password: string) => {
+    const status: RequestStatus = signingDecision === 'rejected' ? 'gm_rejected' : 'gm_approved';
+    try {
+      await onUpdateStatus(status, approvalComment?.trim() || undefined, { password });
+    } catch {
+      return false;
+    }
+    setSigningDecision(null);
+    return true;
   };
 
-  const canCancelRequest =
-    isSales && ['sales_followup', 'gm_approval_pending', 'gm_rejected'].includes(request.status);
+  const canCancelRequest = isSales && canTransition(request.status, 'cancelled');
 
   const handleConfirmCancel = async () => {
     const reason = cancelReason.trim();
@@ -675,10 +674,16 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
     setCancelReason('');
   };
 
-  const canStartFollowup = forceEnableActions || request.status === 'costing_complete';
+  const canStartFollowup = forceEnableActions || canTransition(request.status, 'sales_followup');
   const canEditSales = forceEnableActions || (isSales && ['sales_followup', 'gm_rejected'].includes(request.status));
-  const canSubmitForApproval = isSales && canEditSales;
-  const canApprove = isAdmin && (forceEnableActions || request.status === 'gm_approval_pending');
+  const canSubmitForApproval = isSales && canEditSales && canTransition(request.status, 'gm_approval_pending');
+  const approvalIssues = canSubmitForApproval
+    ? validateTransition('gm_approval_pending', { ...request, ...buildSalesPayload(false) })
+    : [];
+  // The GM decision needs both outcomes to be available from the current status.
+  const canApprove =
+    isGmApprover &&
+    (forceEnableActions || (canTransition(request.status, 'gm_approved') && canTransition(request.status, 'gm_rejected')));
   const finalPriceValue = parseOptionalNumber(salesFinalPrice);
   const vatRateValue = parseOptionalNumber(salesVatRate);
   const marginValue = parseOptionalNumber(salesMargin);
@@ -727,6 +732,9 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
   const gmDecisionEntry = gmDecisionStatus
     ? [...request.history].reverse().find((entry) => entry.status === gmDecisionStatus)
     : undefined;
+  const hasGmDecisionHistory = (request.history ?? []).some(
+    (entry) => entry.status === 'gm_approved' || entry.status === 'gm_rejected'
+  );
 
   const showEditor = !readOnly && (editMode || (isSales && ['sales_followup', 'gm_rejected'].includes(request.status)));
   const summaryPaymentTerms = Array.isArray(request.salesPaymentTerms) ? request.salesPaymentTerms : [];
@@ -777,45 +785,20 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
 
       {showEditor && (
         <>
+          <CostSheetPanel request={request} />
+
           <div className="rounded-lg border border-border bg-muted/20 p-4 space-y-4">
             <h4 className="text-sm font-semibold text-foreground">{t.panels.commercialTerms}</h4>
+            <ProductPricingTable
+              products={products}
+              lines={productPrices}
+              currency={salesCurrency}
+              priceLabel={t.panels.salesFinalPrice}
+              marginLabel={t.panels.salesMargin}
+              onCurrencyChange={setSalesCurrency}
+              onLineChange={updateProductPrice}
+            />
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="salesFinalPrice" className="text-sm font-medium flex items-center gap-2">
-                  <DollarSign size={14} className="text-info" />
-                  {t.panels.salesFinalPrice} *
-                </Label>
-                <div className="flex gap-2">
-                  <Input
-                    id="salesFinalPrice"
-                    type="number"
-                    min="0"
-                    step="0.01"
-                    value={salesFinalPrice}
-                    onChange={(e) => setSalesFinalPrice(e.target.value)}
-                    placeholder={`${t.common.add} ${t.panels.salesFinalPrice.toLowerCase()}...`}
-                    className="bg-background flex-1"
-                    disabled={readOnly}
-                  />
-                  <div className="min-w-[130px]">
-                    <Label className="sr-only">{t.panels.currency}</Label>
-                    <Select
-                      value={salesCurrency}
-                      onValueChange={(value) => setSalesCurrency(value as 'USD' | 'EUR' | 'RMB')}
-                      disabled={readOnly}
-                    >
-                      <SelectTrigger className="w-full">
-                        <SelectValue placeholder={t.panels.selectCurrency} />
-                      </SelectTrigger>
-                      <SelectContent className="bg-card border border-border">
-                        <SelectItem value="USD">{t.panels.currencyUsd}</SelectItem>
-                        <SelectItem value="EUR">{t.panels.currencyEur}</SelectItem>
-                        <SelectItem value="RMB">{t.panels.currencyRmb}</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-              </div>
               <div className="space-y-2">
                 <Label className="text-sm font-medium">{t.panels.vatMode}</Label>
                 <Select value={salesVatMode} onValueChange={(value) => setSalesVatMode(value as 'with' | 'without')} disabled={readOnly}>
@@ -842,22 +825,6 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
               </div>
             </div>
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="salesMargin" className="text-sm font-medium">
-                  {t.panels.salesMargin} (%) *
-                </Label>
-                <Input
-                  id="salesMargin"
-                  type="number"
-                  min="0"
-                  step="0.01"
-                  value={salesMargin}
-                  onChange={(e) => setSalesMargin(e.target.value)}
-                  placeholder={t.panels.enterSalesMargin}
-                  className="bg-background"
-                  disabled={readOnly}
-                />
-              </div>
               <div className="space-y-2">
                 <Label htmlFor="salesWarrantyPeriod" className="text-sm font-medium">
                   {t.panels.warrantyPeriod}
@@ -1050,11 +1017,12 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
               variant="outline"
               onClick={() => fileInputRef.current?.click()}
               className="w-full border-dashed"
-              disabled={readOnly}
+              disabled={readOnly || uploadProgress !== null}
             >
               <Upload size={16} className="mr-2" />
               {t.panels.salesUploadDocs}
             </Button>
+            <UploadProgress percent={uploadProgress} />
             {uploadError && <p className="text-xs text-destructive">{uploadError}</p>}
             {salesAttachments.length > 0 && (
               <div className="space-y-2">
@@ -1064,7 +1032,7 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
                     className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/40 px-3 py-2"
                   >
                     <div className="flex min-w-0 flex-1 items-center gap-2">
-                      <File size={16} className="text-primary" />
+                      <AttachmentThumbnail attachment={attachment} />
                       <span className="text-sm truncate">{attachment.filename}</span>
                     </div>
                     <div className="flex items-center gap-1">
@@ -1126,6 +1094,15 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
               </Button>
             )}
             {submissionError && <p className="text-xs text-destructive">{submissionError}</p>}
+            {showApprovalIssues && approvalIssues.length > 0 && (
+              <ul className="space-y-1">
+                {approvalIssues.map((issue) => (
+                  <li key={issue.message} className="text-xs text-destructive">
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
           {editMode ? (
@@ -1179,6 +1156,17 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
                   <span className="text-muted-foreground">{t.panels.salesMargin}:</span> {request.salesMargin.toFixed(2)}%
                 </p>
               )}
+              {products.length > 1 && Array.isArray(request.salesProductPrices) && request.salesProductPrices.length > 0 && (
+                <ProductPricingTable
+                  products={products}
+                  lines={seedProductPriceDrafts(products.length, [request.salesProductPrices])}
+                  currency={request.salesCurrency ?? 'EUR'}
+                  priceLabel={t.panels.salesFinalPrice}
+                  marginLabel={t.panels.salesMargin}
+                  showMargin={typeof request.salesMargin === 'number'}
+                  readOnly
+                />
+              )}
               {(request.salesWarrantyPeriod ?? '').trim().length > 0 && (
                 <p className="text-sm text-foreground">
                   <span className="text-muted-foreground">{t.panels.warrantyPeriod}:</span> {request.salesWarrantyPeriod}
@@ -1236,7 +1224,7 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
               {request.salesAttachments.map((attachment) => (
                 <div key={attachment.id} className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/40 px-3 py-2">
                   <div className="flex min-w-0 flex-1 items-center gap-2">
-                    <File size={16} className="text-primary" />
+                    <AttachmentThumbnail attachment={attachment} />
                     <span className="text-sm truncate">{attachment.filename}</span>
                   </div>
                   <div className="flex items-center gap-1">
@@ -1352,6 +1340,18 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
         </div>
       )}
 
+      {hasGmDecisionHistory && (
+        <div className="border-t border-border/60 pt-6">
+          <ApprovalSignaturesPanel targetType="request" targetId={request.id} refreshKey={request.version} />
+        </div>
+      )}
+
+      <SignatureConfirmDialog
+        decision={signingDecision}
+        onCancel={() => setSigningDecision(null)}
+        onConfirm={handleSignDecision}
+      />
+
       <AlertDialog open={isCancelOpen} onOpenChange={setIsCancelOpen}>
         <AlertDialogContent className="bg-card">
           <AlertDialogHeader>
@@ -1410,9 +1410,7 @@ const SalesFollowupPanel: React.FC<SalesFollowupPanelProps> = ({
             {previewAttachment &&
               !isImageFile(previewAttachment.filename) &&
               !isPdfFile(previewAttachment.filename) && (
-                <div className="text-sm text-muted-foreground">
-                  {t.request.previewNotAvailable}
-                </div>
+                <AttachmentDocumentPreview attachment={previewAttachment} />
               )}
             {previewAttachment && !previewUrl && (
               <div className="text-sm text-muted-foreground">
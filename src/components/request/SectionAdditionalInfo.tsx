@@ -7,6 +7,12 @@ import { Upload, File, X, Eye, Download } from 'lucide-react';
 import { RequestProduct, Attachment } from '@/types';
 import { cn } from '@/lib/utils';
 import { useLanguage } from '@/context/LanguageContext';
+import UploadProgress from '@/components/shared/UploadProgress';
+import AttachmentDocumentPreview from '@/components/shared/AttachmentDocumentPreview';
+import AttachmentThumbnail from '@/components/shared/AttachmentThumbnail';
+import { AttachmentUploadError, findOversizedFile, uploadAttachments } from '@/lib/attachmentUpload';
+
+type UploadType = 'rim_drawing' | 'picture';
 
 interface SectionAdditionalInfoProps {
   formData: Partial<RequestProduct>;
@@ -31,6 +37,8 @@ const SectionAdditionalInfo: React.FC<SectionAdditionalInfoProps> = ({
   const picturesInputRef = useRef<HTMLInputElement>(null);
   const [previewAttachment, setPreviewAttachment] = useState<Attachment | null>(null);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<Partial<Record<UploadType, number | null>>>({});
+  const [uploadErrors, setUploadErrors] = useState<Partial<Record<UploadType, string | null>>>({});
   const { t } = useLanguage();
   const fieldId = (suffix: string) => (idPrefix ? `${idPrefix}-${suffix}` : suffix);
 
@@ -56,37 +64,34 @@ const SectionAdditionalInfo: React.FC<SectionAdditionalInfoProps> = ({
 
   const attachments = formData.attachments || [];
 
-  const readAsDataUrl = (file: File) =>
-    new Promise<string>((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : '');
-      reader.onerror = () => reject(reader.error);
-      reader.readAsDataURL(file);
-    });
+  // Uploads can take a while; append to the attachments as they are when the upload finishes.
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
 
-  const handleFileUpload = async (files: FileList | null, type: 'rim_drawing' | 'picture') => {
+  const handleFileUpload = async (files: FileList | null, type: UploadType) => {
     if (!files) return;
+    const selected = Array.from(files);
+    if (findOversizedFile(selected)) {
+      setUploadErrors((prev) => ({ ...prev, [type]: t.common.uploadTooLarge }));
+      return;
+    }
 
+    setUploadErrors((prev) => ({ ...prev, [type]: null }));
+    setUploadProgress((prev) => ({ ...prev, [type]: 0 }));
     try {
-      const newAttachments: Attachment[] = await Promise.all(
-        Array.from(files).map(async (file, index) => ({
-          id: `${Date.now()}-${index}`,
-          type,
-          filename: file.name,
-          // Persist as data URL (base64) so the server can store it and it still works after reopening.
-          url: await readAsDataUrl(file),
-          uploadedAt: new Date(),
-          uploadedBy: 'current-user',
-        }))
-      );
-
-      // Ignore any failed reads; keep existing attachments intact.
-      const valid = newAttachments.filter((a) => typeof a.url === 'string' && a.url.trim());
-      if (valid.length) {
-        onChange('attachments', [...attachments, ...valid]);
+      const newAttachments = await uploadAttachments(selected, {
+        type,
+        onProgress: (percent) => setUploadProgress((prev) => ({ ...prev, [type]: percent })),
+      });
+      if (newAttachments.length) {
+        onChange('attachments', [...attachmentsRef.current, ...newAttachments]);
       }
-    } catch {
-      // Ignore failed reads; keep existing attachments intact.
+    } catch (error) {
+      // Keep existing attachments intact.
+      const tooLarge = error instanceof AttachmentUploadError && error.status === 413;
+      setUploadErrors((prev) => ({ ...prev, [type]: tooLarge ? t.common.uploadTooLarge : t.common.uploadFailed }));
+    } finally {
+      setUploadProgress((prev) => ({ ...prev, [type]: null }));
     }
   };
 
@@ -130,10 +135,13 @@ const SectionAdditionalInfo: React.FC<SectionAdditionalInfoProps> = ({
                 variant="outline"
                 onClick={() => rimDrawingInputRef.current?.click()}
                 className="w-full border-dashed"
+                disabled={uploadProgress.rim_drawing != null}
               >
                 <Upload size={16} className="mr-2" />
                 {t.request.uploadRimDrawing}
               </Button>
+              <UploadProgress percent={uploadProgress.rim_drawing ?? null} />
+              {uploadErrors.rim_drawing && <p className="text-xs text-destructive">{uploadErrors.rim_drawing}</p>}
             </>
           )}
 
@@ -145,7 +153,7 @@ const SectionAdditionalInfo: React.FC<SectionAdditionalInfoProps> = ({
                   className="flex items-center justify-between p-3 rounded-lg bg-muted/50 border border-border"
                 >
                   <div className="flex items-center gap-2 min-w-0 flex-1">
-                    <File size={16} className="text-primary flex-shrink-0" />
+                    <AttachmentThumbnail attachment={attachment} />
                     <span className="text-sm truncate">{attachment.filename}</span>
                   </div>
                   <div className="flex items-center gap-1 flex-shrink-0">
@@ -205,10 +213,13 @@ const SectionAdditionalInfo: React.FC<SectionAdditionalInfoProps> = ({
                 variant="outline"
                 onClick={() => picturesInputRef.current?.click()}
                 className="w-full border-dashed"
+                disabled={uploadProgress.picture != null}
               >
                 <Upload size={16} className="mr-2" />
                 {t.request.uploadPictures}
               </Button>
+              <UploadProgress percent={uploadProgress.picture ?? null} />
+              {uploadErrors.picture && <p className="text-xs text-destructive">{uploadErrors.picture}</p>}
             </>
           )}
 
@@ -220,7 +231,7 @@ const SectionAdditionalInfo: React.FC<SectionAdditionalInfoProps> = ({
                   className="flex items-center justify-between p-3 rounded-lg bg-muted/50 border border-border"
                 >
                   <div className="flex items-center gap-2 min-w-0 flex-1">
-                    <File size={16} className="text-primary flex-shrink-0" />
+                    <AttachmentThumbnail attachment={attachment} />
                     <span className="text-sm truncate">{attachment.filename}</span>
                   </div>
                   <div className="flex items-center gap-1 flex-shrink-0">
@@ -295,9 +306,8 @@ const SectionAdditionalInfo: React.FC<SectionAdditionalInfoProps> = ({
               />
             )}
             {previewAttachment && !isImageFile(previewAttachment.filename) && !isPdfFile(previewAttachment.filename) && (
-              <div className="text-center space-y-4">
-                <File size={64} className="mx-auto text-muted-foreground" />
-                <p className="text-muted-foreground">{t.request.previewNotAvailable}</p>
+              <div className="w-full text-center space-y-4">
+                <AttachmentDocumentPreview attachment={previewAttachment} />
                 <a
                   href={previewAttachment.url}
                   download={previewAttachment.filename}
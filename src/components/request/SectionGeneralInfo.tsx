@@ -1,4 +1,6 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ExternalLink } from 'lucide-react';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import {
@@ -8,8 +10,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { CustomerRequest } from '@/types';
+import { Customer, CustomerContact, CustomerRequest } from '@/types';
 import { useLanguage } from '@/context/LanguageContext';
+import CustomerPicker from '@/components/customers/CustomerPicker';
 
 interface SectionGeneralInfoProps {
   formData: Partial<CustomerRequest>;
@@ -19,6 +22,9 @@ interface SectionGeneralInfoProps {
   countryOptions?: string[];
 }
 
+const formatContact = (contact: CustomerContact) =>
+  [contact.name, contact.phone, contact.email].filter(Boolean).join(', ');
+
 const SectionGeneralInfo: React.FC<SectionGeneralInfoProps> = ({
   formData,
   onChange,
@@ -31,6 +37,51 @@ const SectionGeneralInfo: React.FC<SectionGeneralInfoProps> = ({
   const showCity = formData.country === 'China';
   const showIncotermOther = String(formData.incoterm ?? '').trim().toLowerCase() === 'other';
   const hasCountryOptions = countryOptions.length > 0;
+  const customerId = formData.customerId || null;
+  const [customer, setCustomer] = useState<Customer | null>(null);
+
+  // Contacts and addresses of the linked account feed the suggestion lists below.
+  useEffect(() => {
+    if (!customerId || isReadOnly) return;
+    if (customer?.id === customerId) return;
+    let isActive = true;
+    fetch(`/api/customers/${encodeURIComponent(customerId)}`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (isActive && data) setCustomer(data as Customer);
+      })
+      .catch(() => {});
+    return () => {
+      isActive = false;
+    };
+  }, [customerId, customer?.id, isReadOnly]);
+
+  // Copies the account details into the request; commercial defaults only fill fields that are still empty.
+  const applyCustomer = (selected: Customer) => {
+    setCustomer(selected);
+    onChange('customerId', selected.id);
+    onChange('clientName', selected.name);
+    const contact = selected.contacts.find((item) => item.isPrimary) ?? selected.contacts[0];
+    if (contact) onChange('clientContact', formatContact(contact));
+    const address = selected.addresses.find((item) => item.isDefaultDelivery) ?? selected.addresses[0];
+    if (address) onChange('clientAddressDelivery', address.address);
+    if (selected.country) {
+      const option = countryOptions.find((item) => item.toLowerCase() === selected.country.toLowerCase());
+      const country = hasCountryOptions ? option ?? 'other' : selected.country;
+      onChange('country', country);
+      onChange('countryOther', country === 'other' ? selected.country : '');
+      onChange('city', country === 'China' ? selected.city : '');
+    }
+    if (!formData.sellingCurrency && selected.defaultCurrency) {
+      onChange('sellingCurrency', selected.defaultCurrency);
+    }
+    if (!formData.incoterm && selected.defaultIncoterm) {
+      const incoterm = selected.defaultIncoterm.toUpperCase();
+      const isStandard = incoterm === 'EXW' || incoterm === 'FOB';
+      onChange('incoterm', isStandard ? incoterm : 'other');
+      onChange('incotermOther', isStandard ? '' : selected.defaultIncoterm);
+    }
+  };
 
   return (
     <div className="space-y-4 md:space-y-6">
@@ -42,16 +93,27 @@ const SectionGeneralInfo: React.FC<SectionGeneralInfoProps> = ({
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 md:gap-6">
         {/* Client Name */}
         <div className="space-y-2">
-          <Label htmlFor="clientName" className="text-sm font-medium">
-            {t.request.clientName} <span className="text-destructive">*</span>
+          <Label htmlFor="clientName" className="text-sm font-medium flex items-center gap-2">
+            <span>
+              {t.request.clientName} <span className="text-destructive">*</span>
+            </span>
+            {customerId && (
+              <Link
+                to={`/customers/${encodeURIComponent(customerId)}`}
+                className="inline-flex items-center gap-1 text-xs font-normal text-primary hover:underline"
+              >
+                <ExternalLink size={12} />
+                {t.customers.viewCustomer}
+              </Link>
+            )}
           </Label>
-          <Input
+          <CustomerPicker
             id="clientName"
-            value={formData.clientName || ''}
-            onChange={(e) => onChange('clientName', e.target.value)}
-            placeholder={t.request.enterClientName}
+            customerId={customerId}
+            clientName={formData.clientName || ''}
+            onSelect={applyCustomer}
             disabled={isReadOnly}
-            className={errors.clientName ? 'border-destructive' : ''}
+            invalid={Boolean(errors.clientName)}
           />
           {errors.clientName && (
             <p className="text-xs text-destructive">{errors.clientName}</p>
@@ -67,10 +129,18 @@ const SectionGeneralInfo: React.FC<SectionGeneralInfoProps> = ({
             id="clientContact"
             value={formData.clientContact || ''}
             onChange={(e) => onChange('clientContact', e.target.value)}
+            list={customer ? 'customer-contact-options' : undefined}
             placeholder={t.request.enterClientContact}
             disabled={isReadOnly}
             className={errors.clientContact ? 'border-destructive' : ''}
           />
+          {customer && (
+            <datalist id="customer-contact-options">
+              {customer.contacts.map((contact) => (
+                <option key={contact.id} value={formatContact(contact)} />
+              ))}
+            </datalist>
+          )}
           {errors.clientContact && (
             <p className="text-xs text-destructive">{errors.clientContact}</p>
           )}
@@ -247,10 +317,20 @@ const SectionGeneralInfo: React.FC<SectionGeneralInfoProps> = ({
             id="clientAddressDelivery"
             value={formData.clientAddressDelivery || ''}
             onChange={(e) => onChange('clientAddressDelivery', e.target.value)}
+            list={customer ? 'customer-address-options' : undefined}
             placeholder={t.request.enterClientAddressDelivery}
             disabled={isReadOnly}
             className={errors.clientAddressDelivery ? 'border-destructive' : ''}
           />
+          {customer && (
+            <datalist id="customer-address-options">
+              {customer.addresses.map((address) => (
+                <option key={address.id} value={address.address}>
+                  {address.label}
+                </option>
+              ))}
+            </datalist>
+          )}
           {errors.clientAddressDelivery && (
             <p className="text-xs text-destructive">{errors.clientAddressDelivery}</p>
           )}
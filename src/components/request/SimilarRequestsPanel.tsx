@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ExternalLink, File, History, Loader2 } from 'lucide-react';
+import StatusBadge from '@/components/ui/StatusBadge';
+import { SimilarRequest } from '@/types';
+import { useLanguage } from '@/context/LanguageContext';
+import { localizeApiError } from '@/utils/localizeApiError';
+
+interface SimilarRequestsPanelProps {
+  requestId: string;
+}
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const isHttpLink = (value: string) => value.startsWith('http://') || value.startsWith('https://');
+
+const SimilarRequestsPanel: React.FC<SimilarRequestsPanelProps> = ({ requestId }) => {
+  const { t, translateOption } = useLanguage();
+  const [similar, setSimilar] = useState<SimilarRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+    setIsLoading(true);
+    setError(null);
+    fetch(`/api/requests/${encodeURIComponent(requestId)}/similar`, { cache: 'no-store' })
+      .then(async (res) => {
+        const data = await res.json().catch(() => null);
+        if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+        if (isActive) setSimilar(Array.isArray(data?.similar) ? data.similar : []);
+      })
+      .catch((err) => {
+        if (isActive) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (isActive) setIsLoading(false);
+      });
+    return () => {
+      isActive = false;
+    };
+  }, [requestId]);
+
+  const fieldLabels: Record<string, string> = {
+    loadsKg: t.request.loads,
+    speedsKmh: t.request.speeds,
+    tyreSize: t.request.tyreSize,
+    trackMm: t.request.track,
+    studsPcd: t.request.studsPcd,
+    brakeType: t.request.brakeType,
+    brakeSize: t.request.brakeSize,
+    configurationType: t.request.configurationType,
+    clientName: t.request.clientName,
+    applicationVehicle: t.request.applicationVehicle,
+    workingCondition: t.request.workingCondition,
+    usageType: t.request.usageType,
+    environment: t.request.environment,
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-muted/20 p-4">
+      <div className="flex items-start gap-2">
+        <History size={16} className="mt-0.5 text-primary" />
+        <div>
+          <p className="text-sm font-medium text-foreground">{t.panels.similarRequests}</p>
+          <p className="text-xs text-muted-foreground">{t.panels.similarRequestsDesc}</p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t.common.loading}
+        </div>
+      ) : error ? (
+        <p className="text-xs text-destructive">{localizeApiError(t, error)}</p>
+      ) : similar.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{t.panels.noSimilarRequests}</p>
+      ) : (
+        similar.map((item) => (
+          <div key={item.id} className="space-y-2 rounded-md border border-border bg-background px-3 py-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="min-w-0">
+                <Link
+                  to={`/requests/${encodeURIComponent(item.id)}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-sm font-medium text-primary hover:underline"
+                >
+                  {item.id}
+                </Link>
+                <p className="truncate text-xs text-muted-foreground">
+                  {[item.clientName, item.applicationVehicle ? translateOption(item.applicationVehicle) : '', item.country]
+                    .filter(Boolean)
+                    .join(' · ')}
+                  {item.createdAt ? ` · ${format(new Date(item.createdAt), 'PP')}` : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-medium text-muted-foreground">
+                  {t.panels.matchScore.replace('{score}', String(item.score))}
+                </span>
+                <StatusBadge status={item.status} size="sm" />
+              </div>
+            </div>
+
+            {item.matchedFields.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{t.panels.similarOn}:</span>{' '}
+                {item.matchedFields.map((field) => fieldLabels[field] ?? field).join(', ')}
+              </p>
+            )}
+
+            <div className="grid gap-1 text-xs sm:grid-cols-2">
+              <p className="text-muted-foreground">
+                <span className="font-medium text-foreground">{t.panels.finalPrice}:</span>{' '}
+                {item.finalPrice
+                  ? `${item.finalPrice.currency} ${formatMoney(item.finalPrice.amount)} (${
+                      item.finalPrice.source === 'sales' ? t.panels.salesFollowup : t.panels.costingPanel
+                    })`
+                  : t.priceList.notSet}
+              </p>
+              {item.designResult.bomFolderLink && (
+                <p className="flex min-w-0 items-center gap-1 text-muted-foreground">
+                  <span className="font-medium text-foreground">{t.panels.designResultBomFolderLink}:</span>
+                  {isHttpLink(item.designResult.bomFolderLink) ? (
+                    <a
+                      href={item.designResult.bomFolderLink}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex min-w-0 items-center gap-1 text-primary hover:underline"
+                    >
+                      <span className="truncate">{item.designResult.bomFolderLink}</span>
+                      <ExternalLink size={12} className="shrink-0" />
+                    </a>
+                  ) : (
+                    <span className="truncate">{item.designResult.bomFolderLink}</span>
+                  )}
+                </p>
+              )}
+            </div>
+
+            {item.designResult.comments && (
+              <p className="whitespace-pre-line text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{t.panels.designResultComments}:</span>{' '}
+                {item.designResult.comments}
+              </p>
+            )}
+
+            {item.designResult.files.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {item.designResult.files.map((file) => (
+                  <span
+                    key={`${file.id}-${file.filename}`}
+                    className="inline-flex items-center gap-1 rounded border border-border bg-muted/40 px-1.5 py-0.5 text-xs"
+                  >
+                    <File size={12} className="text-primary" />
+                    {file.filename}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+export default SimilarRequestsPanel;
@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, Save } from 'lucide-react';
+
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AttachmentAccessRules, AttachmentCategory } from '@/types';
+
+type AccessRole = AttachmentAccessRules['rules'][AttachmentCategory][number];
+
+const CATEGORIES: AttachmentCategory[] = ['rim_drawing', 'design_result', 'costing', 'sales'];
+const ROLES: AccessRole[] = ['sales', 'design', 'costing', 'finance', 'cashier'];
+
+const EMPTY_RULES: AttachmentAccessRules['rules'] = { rim_drawing: [], design_result: [], costing: [], sales: [] };
+
+const AttachmentAccessPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AttachmentAccessRules['rules']>(EMPTY_RULES);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const categoryLabels: Record<AttachmentCategory, string> = {
+    rim_drawing: t.settings.attachmentCategoryRimDrawing,
+    design_result: t.settings.attachmentCategoryDesignResult,
+    costing: t.settings.attachmentCategoryCosting,
+    sales: t.settings.attachmentCategorySales,
+  };
+
+  const applyRules = (data: AttachmentAccessRules) => setRules({ ...EMPTY_RULES, ...(data.rules ?? {}) });
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/attachment-access', { cache: 'no-store' });
+      const data = (await res.json().catch(() => null)) as (AttachmentAccessRules & { error?: string }) | null;
+      if (!res.ok || !data) throw new Error(String(data?.error ?? `Failed to load attachment access (${res.status})`));
+      applyRules(data);
+    } catch (e) {
+      toast({
+        title: t.settings.attachmentAccessTitle,
+        description: e instanceof Error ? e.message : String(e),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, t.settings.attachmentAccessTitle]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const toggle = (category: AttachmentCategory, role: AccessRole, checked: boolean) => {
+    setRules((prev) => {
+      const next = new Set(prev[category]);
+      if (checked) next.add(role);
+      else next.delete(role);
+      return { ...prev, [category]: ROLES.filter((item) => next.has(item)) };
+    });
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/attachment-access', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules }),
+      });
+      const data = (await res.json().catch(() => null)) as (AttachmentAccessRules & { error?: string }) | null;
+      if (!res.ok || !data) throw new Error(String(data?.error ?? `Failed to save attachment access (${res.status})`));
+      applyRules(data);
+      toast({ title: t.settings.attachmentAccessTitle, description: t.settings.attachmentAccessSaved });
+    } catch (e) {
+      toast({
+        title: t.settings.attachmentAccessTitle,
+        description: e instanceof Error ? e.message : String(e),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-4 md:p-6 space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-foreground">{t.settings.attachmentAccessTitle}</h3>
+          <p className="text-sm text-muted-foreground">{t.settings.attachmentAccessDesc}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => void load()} disabled={loading || saving}>
+            <RefreshCw size={16} className={loading ? 'mr-2 animate-spin' : 'mr-2'} />
+            {t.common.refresh}
+          </Button>
+          <Button onClick={() => void save()} disabled={loading || saving}>
+            <Save size={16} className="mr-2" />
+            {t.common.save}
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t.settings.attachmentAccessCategory}</TableHead>
+              {ROLES.map((role) => (
+                <TableHead key={role} className="text-center">
+                  {t.roles[role]}
+                </TableHead>
+              ))}
+              <TableHead className="text-center">{t.roles.admin}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {CATEGORIES.map((category) => (
+              <TableRow key={category}>
+                <TableCell className="font-medium">{categoryLabels[category]}</TableCell>
+                {ROLES.map((role) => (
+                  <TableCell key={role} className="text-center">
+                    <Checkbox
+                      checked={rules[category].includes(role)}
+                      onCheckedChange={(checked) => toggle(category, role, checked === true)}
+                      disabled={loading || saving}
+                      aria-label={`${categoryLabels[category]} - ${t.roles[role]}`}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="text-center">
+                  <Checkbox checked disabled aria-label={`${categoryLabels[category]} - ${t.roles.admin}`} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <p className="text-xs text-muted-foreground">{t.settings.attachmentAccessNote}</p>
+    </div>
+  );
+};
+
+export default AttachmentAccessPanel;
@@ -0,0 +1,256 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ExchangeRate, ExchangeRateConfig, PriceCurrency } from '@/types';
+
+const CURRENCIES: PriceCurrency[] = ['EUR', 'USD', 'RMB'];
+// Rates are kept against EUR, so only the other currencies get rows.
+const RATE_CURRENCIES: PriceCurrency[] = ['USD', 'RMB'];
+
+interface RateDraft {
+  key: number;
+  currency: PriceCurrency;
+  effectiveFrom: string;
+  rate: string;
+}
+
+let nextDraftKey = 0;
+
+const toDraft = (rate: ExchangeRate): RateDraft => ({
+  key: nextDraftKey++,
+  currency: rate.currency,
+  effectiveFrom: rate.effectiveFrom,
+  rate: String(rate.rate),
+});
+
+const ExchangeRatePanel: React.FC = () => {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+
+  const [reportingCurrency, setReportingCurrency] = useState<PriceCurrency>('EUR');
+  const [rates, setRates] = useState<RateDraft[]>([]);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const applyConfig = (config: ExchangeRateConfig) => {
+    setReportingCurrency(config.reportingCurrency ?? 'EUR');
+    setRates(Array.isArray(config.rates) ? config.rates.map(toDraft) : []);
+    setUpdatedAt(config.updatedAt ?? null);
+  };
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/exchange-rates', { cache: 'no-store' });
+      const data = (await res.json().catch(() => null)) as (ExchangeRateConfig & { error?: string }) | null;
+      if (!res.ok || !data) throw new Error(String(data?.error ?? `Failed to load exchange rates (${res.status})`));
+      applyConfig(data);
+    } catch (e) {
+      toast({
+        title: t.settings.currenciesTab,
+        description: e instanceof Error ? e.message : String(e),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, t.settings.currenciesTab]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const patchRate = (key: number, patch: Partial<RateDraft>) =>
+    setRates((prev) => prev.map((item) => (item.key === key ? { ...item, ...patch } : item)));
+
+  const addRate = () =>
+    setRates((prev) => [
+      ...prev,
+      { key: nextDraftKey++, currency: 'USD', effectiveFrom: new Date().toISOString().slice(0, 10), rate: '' },
+    ]);
+
+  const save = async () => {
+    const payload: ExchangeRate[] = [];
+    for (const item of rates) {
+      const rate = Number(item.rate);
+      if (!item.effectiveFrom || !Number.isFinite(rate) || rate <= 0) {
+        toast({
+          title: t.settings.currenciesTab,
+          description: t.settings.exchangeRateInvalid.replace('{currency}', item.currency),
+          variant: 'destructive',
+        });
+        return;
+      }
+      payload.push({ currency: item.currency, effectiveFrom: item.effectiveFrom, rate });
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/exchange-rates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reportingCurrency, rates: payload }),
+      });
+      const data = (await res.json().catch(() => null)) as (ExchangeRateConfig & { error?: string }) | null;
+      if (!res.ok || !data) throw new Error(String(data?.error ?? `Failed to save exchange rates (${res.status})`));
+      applyConfig(data);
+      toast({ title: t.settings.currenciesTab, description: t.settings.exchangeRatesSaved });
+    } catch (e) {
+      toast({
+        title: t.settings.currenciesTab,
+        description: e instanceof Error ? e.message : String(e),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sortedRates = [...rates].sort(
+    (a, b) => a.currency.localeCompare(b.currency) || b.effectiveFrom.localeCompare(a.effectiveFrom) || a.key - b.key
+  );
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-4 md:p-6 space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-foreground">{t.settings.currenciesTitle}</h3>
+          <p className="text-sm text-muted-foreground">{t.settings.currenciesDesc}</p>
+          {updatedAt ? (
+            <p className="text-xs text-muted-foreground">
+              {t.settings.currenciesUpdatedAt}: {new Date(updatedAt).toLocaleString()}
+            </p>
+          ) : null}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => void load()} disabled={loading || saving}>
+            <RefreshCw size={16} className={loading ? 'mr-2 animate-spin' : 'mr-2'} />
+            {t.common.refresh}
+          </Button>
+          <Button onClick={() => void save()} disabled={loading || saving}>
+            <Save size={16} className="mr-2" />
+            {t.common.save}
+          </Button>
+        </div>
+      </div>
+
+      <section className="rounded-xl border border-border bg-muted/10 p-4 space-y-4">
+        <div className="space-y-1">
+          <div className="text-sm font-semibold text-foreground">{t.settings.reportingCurrency}</div>
+          <div className="text-xs text-muted-foreground">{t.settings.reportingCurrencyDesc}</div>
+        </div>
+        <div className="max-w-[200px] space-y-2">
+          <Label htmlFor="reporting-currency">{t.priceList.currency}</Label>
+          <Select value={reportingCurrency} onValueChange={(value) => setReportingCurrency(value as PriceCurrency)}>
+            <SelectTrigger id="reporting-currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((currency) => (
+                <SelectItem key={currency} value={currency}>
+                  {currency}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-border bg-muted/10 p-4 space-y-3">
+        <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-1">
+            <div className="text-sm font-semibold text-foreground">{t.settings.exchangeRatesTitle}</div>
+            <div className="text-xs text-muted-foreground">{t.settings.exchangeRatesDesc}</div>
+          </div>
+          <Button variant="outline" onClick={addRate}>
+            <Plus size={16} className="mr-2" />
+            {t.settings.addExchangeRate}
+          </Button>
+        </div>
+
+        {sortedRates.length ? (
+          <div className="rounded-lg border border-border bg-background/60 overflow-x-auto scrollbar-thin">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[120px]">{t.priceList.currency}</TableHead>
+                  <TableHead className="min-w-[160px]">{t.priceList.effectiveFrom}</TableHead>
+                  <TableHead className="min-w-[160px]">{t.settings.exchangeRateValue}</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedRates.map((item) => (
+                  <TableRow key={item.key}>
+                    <TableCell className="py-2">
+                      <Select
+                        value={item.currency}
+                        onValueChange={(value) => patchRate(item.key, { currency: value as PriceCurrency })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RATE_CURRENCIES.map((currency) => (
+                            <SelectItem key={currency} value={currency}>
+                              {currency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="py-2">
+                      <Input
+                        type="date"
+                        className="h-8"
+                        value={item.effectiveFrom}
+                        onChange={(e) => patchRate(item.key, { effectiveFrom: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell className="py-2">
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <span className="whitespace-nowrap">1 {item.currency} =</span>
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.0001"
+                          className="h-8"
+                          value={item.rate}
+                          onChange={(e) => patchRate(item.key, { rate: e.target.value })}
+                        />
+                        <span>EUR</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="py-2">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        onClick={() => setRates((prev) => prev.filter((entry) => entry.key !== item.key))}
+                        aria-label={t.common.delete}
+                      >
+                        <Trash2 size={14} />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">{t.settings.noExchangeRates}</p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ExchangeRatePanel;
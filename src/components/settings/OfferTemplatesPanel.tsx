@@ -0,0 +1,754 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Pencil, Plus, RefreshCw, Trash2 } from 'lucide-react';
+
+import { useAdminSettings } from '@/context/AdminSettingsContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { localizeApiError } from '@/utils/localizeApiError';
+import {
+  OFFER_LINE_COLUMNS,
+  OFFER_PLACEHOLDERS,
+  OFFER_SECTION_KEYS,
+  SAMPLE_PLACEHOLDER_VALUES,
+  findUnknownPlaceholders,
+  formatPlaceholder,
+  getOfferLineColumnLabel,
+  getOfferSectionLabel,
+  resolveOfferPlaceholders,
+} from '@/lib/offerTemplates';
+import { OfferClause, OfferClauseCategory, OfferTemplate, OfferTemplateLanguage } from '@/types';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+
+const CLAUSE_CATEGORIES: OfferClauseCategory[] = ['general', 'commercial', 'delivery', 'warranty', 'legal'];
+const ANY_LANGUAGE = 'any';
+
+type TemplateDraft = Omit<OfferTemplate, 'id' | 'updatedAt' | 'updatedByName'> & { id: string | null };
+type ClauseDraft = Pick<OfferClause, 'title' | 'body' | 'category' | 'language'> & { id: string | null };
+type TemplateTextField = 'introText' | 'closingText';
+
+const emptyTemplate = (): TemplateDraft => ({
+  id: null,
+  name: '',
+  description: '',
+  market: '',
+  countries: [],
+  language: null,
+  introText: '',
+  closingText: '',
+  sectionVisibility: {
+    general: true,
+    lineItems: true,
+    commercialTerms: true,
+    deliveryTerms: true,
+    clauses: true,
+    appendix: true,
+  },
+  lineColumns: [...OFFER_LINE_COLUMNS],
+  clauseIds: [],
+});
+
+const emptyClause = (): ClauseDraft => ({ id: null, title: '', body: '', category: 'general', language: null });
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+// Placeholders are appended where the admin last typed; the editor has no caret tracking.
+const appendPlaceholder = (text: string, key: string) => {
+  const token = formatPlaceholder(key);
+  if (!text) return token;
+  return /\s$/.test(text) ? `${text}${token}` : `${text} ${token}`;
+};
+
+const OfferTemplatesPanel: React.FC = () => {
+  const { t, translateOption } = useLanguage();
+  const { toast } = useToast();
+  const { countries } = useAdminSettings();
+
+  const [templates, setTemplates] = useState<OfferTemplate[]>([]);
+  const [clauses, setClauses] = useState<OfferClause[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+  const [clauseDraft, setClauseDraft] = useState<ClauseDraft | null>(null);
+  const [lastTemplateField, setLastTemplateField] = useState<TemplateTextField>('introText');
+  const [deleteTarget, setDeleteTarget] = useState<
+    { kind: 'template'; item: OfferTemplate } | { kind: 'clause'; item: OfferClause } | null
+  >(null);
+
+  const clausesById = useMemo(() => new Map(clauses.map((clause) => [clause.id, clause])), [clauses]);
+
+  const categoryLabel = (category: OfferClauseCategory) => {
+    if (category === 'commercial') return t.offerTemplates.categoryCommercial;
+    if (category === 'delivery') return t.offerTemplates.categoryDelivery;
+    if (category === 'warranty') return t.offerTemplates.categoryWarranty;
+    if (category === 'legal') return t.offerTemplates.categoryLegal;
+    return t.offerTemplates.categoryGeneral;
+  };
+
+  const languageLabel = (language: OfferTemplateLanguage | null) => {
+    if (language === 'en') return t.common.languageEnglish;
+    if (language === 'fr') return t.common.languageFrench;
+    if (language === 'zh') return t.common.languageChinese;
+    return t.offerTemplates.anyLanguage;
+  };
+
+  const reportError = (error: unknown) => {
+    toast({
+      title: t.offerTemplates.title,
+      description: localizeApiError(t, error instanceof Error ? error.message : String(error)),
+      variant: 'destructive',
+    });
+  };
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/offer-templates', { cache: 'no-store' });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(data?.error ?? t.offerTemplates.loadFailed));
+      setTemplates(Array.isArray(data?.templates) ? data.templates : []);
+      setClauses(Array.isArray(data?.clauses) ? data.clauses : []);
+    } catch (e) {
+      toast({
+        title: t.offerTemplates.title,
+        description: localizeApiError(t, e instanceof Error ? e.message : String(e)),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, t]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const sendJson = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(url, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const data = res.status === 204 ? null : await res.json().catch(() => null);
+    if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+    return data;
+  };
+
+  const saveTemplate = async () => {
+    if (!templateDraft) return;
+    setSaving(true);
+    try {
+      const { id, ...payload } = templateDraft;
+      const saved = (await sendJson(
+        id ? `/api/admin/offer-templates/${encodeURIComponent(id)}` : '/api/admin/offer-templates',
+        id ? 'PUT' : 'POST',
+        payload
+      )) as OfferTemplate;
+      setTemplates((prev) =>
+        [...prev.filter((item) => item.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setTemplateDraft(null);
+      toast({ title: t.offerTemplates.title, description: t.offerTemplates.templateSaved });
+    } catch (e) {
+      reportError(e);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveClause = async () => {
+    if (!clauseDraft) return;
+    setSaving(true);
+    try {
+      const { id, ...payload } = clauseDraft;
+      const saved = (await sendJson(
+        id ? `/api/admin/offer-clauses/${encodeURIComponent(id)}` : '/api/admin/offer-clauses',
+        id ? 'PUT' : 'POST',
+        payload
+      )) as OfferClause;
+      setClauses((prev) => [...prev.filter((item) => item.id !== saved.id), saved]);
+      setClauseDraft(null);
+      toast({ title: t.offerTemplates.clauseLibraryTitle, description: t.offerTemplates.clauseSaved });
+    } catch (e) {
+      reportError(e);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!deleteTarget) return;
+    try {
+      if (deleteTarget.kind === 'template') {
+        await sendJson(`/api/admin/offer-templates/${encodeURIComponent(deleteTarget.item.id)}`, 'DELETE');
+        setTemplates((prev) => prev.filter((item) => item.id !== deleteTarget.item.id));
+        toast({ title: t.offerTemplates.title, description: t.offerTemplates.templateDeleted });
+      } else {
+        const clauseId = deleteTarget.item.id;
+        await sendJson(`/api/admin/offer-clauses/${encodeURIComponent(clauseId)}`, 'DELETE');
+        setClauses((prev) => prev.filter((item) => item.id !== clauseId));
+        setTemplates((prev) =>
+          prev.map((item) => ({ ...item, clauseIds: item.clauseIds.filter((id) => id !== clauseId) }))
+        );
+        toast({ title: t.offerTemplates.clauseLibraryTitle, description: t.offerTemplates.clauseDeleted });
+      }
+    } catch (e) {
+      reportError(e);
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  const patchTemplate = (patch: Partial<TemplateDraft>) =>
+    setTemplateDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  const templateTexts = templateDraft
+    ? [
+        templateDraft.introText,
+        templateDraft.closingText,
+        ...templateDraft.clauseIds.flatMap((id) => [clausesById.get(id)?.title ?? '', clausesById.get(id)?.body ?? '']),
+      ]
+    : [];
+  const unknownTemplatePlaceholders = Array.from(new Set(templateTexts.flatMap(findUnknownPlaceholders)));
+  const unknownClausePlaceholders = clauseDraft
+    ? Array.from(new Set([clauseDraft.title, clauseDraft.body].flatMap(findUnknownPlaceholders)))
+    : [];
+
+  const renderPlaceholderChips = (onPick: (key: string) => void) => (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{t.offerTemplates.placeholders}</Label>
+      <div className="flex flex-wrap gap-1">
+        {OFFER_PLACEHOLDERS.map((key) => (
+          <button
+            key={key}
+            type="button"
+            className="rounded border border-border bg-muted/30 px-1.5 py-0.5 font-mono text-[11px] text-foreground hover:bg-muted"
+            onClick={() => onPick(key)}
+          >
+            {formatPlaceholder(key)}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">{t.offerTemplates.placeholdersHint}</p>
+    </div>
+  );
+
+  const renderUnknownWarning = (unknown: string[]) =>
+    unknown.length ? (
+      <p className="text-xs text-destructive">{t.offerTemplates.unknownPlaceholders.replace('{list}', unknown.join(', '))}</p>
+    ) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-card rounded-lg border border-border p-4 md:p-6 space-y-4">
+        <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-1">
+            <h3 className="text-lg font-semibold text-foreground">{t.offerTemplates.title}</h3>
+            <p className="text-sm text-muted-foreground">{t.offerTemplates.description}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => void load()} disabled={loading}>
+              <RefreshCw size={16} className={loading ? 'mr-2 animate-spin' : 'mr-2'} />
+              {t.common.refresh}
+            </Button>
+            <Button
+              onClick={() => {
+                setLastTemplateField('introText');
+                setTemplateDraft(emptyTemplate());
+              }}
+              disabled={loading}
+            >
+              <Plus size={16} className="mr-2" />
+              {t.offerTemplates.addTemplate}
+            </Button>
+          </div>
+        </div>
+
+        {templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{loading ? t.common.loading : t.offerTemplates.noTemplates}</p>
+        ) : (
+          <div className="space-y-2">
+            {templates.map((template) => (
+              <div
+                key={template.id}
+                className="flex flex-wrap items-start justify-between gap-2 rounded-md border border-border bg-background px-3 py-2"
+              >
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm font-medium text-foreground">
+                    {template.name}
+                    {template.market ? <span className="ml-2 text-muted-foreground">{template.market}</span> : null}
+                  </p>
+                  {template.description ? (
+                    <p className="text-xs text-muted-foreground">{template.description}</p>
+                  ) : null}
+                  <p className="text-xs text-muted-foreground">
+                    {languageLabel(template.language)}
+                    {template.countries.length ? ` | ${template.countries.map(translateOption).join(', ')}` : ''}
+                    {` | ${t.offerTemplates.clauseCount.replace('{count}', String(template.clauseIds.length))}`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {t.offerTemplates.updatedBy
+                      .replace('{date}', formatDateTime(template.updatedAt))
+                      .replace('{name}', template.updatedByName || '-')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setLastTemplateField('introText');
+                      setTemplateDraft({ ...template });
+                    }}
+                    title={t.offerTemplates.editTemplate}
+                  >
+                    <Pencil size={14} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => setDeleteTarget({ kind: 'template', item: template })}
+                    title={t.common.delete}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-card rounded-lg border border-border p-4 md:p-6 space-y-4">
+        <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-1">
+            <h3 className="text-lg font-semibold text-foreground">{t.offerTemplates.clauseLibraryTitle}</h3>
+            <p className="text-sm text-muted-foreground">{t.offerTemplates.clauseLibraryDescription}</p>
+          </div>
+          <Button onClick={() => setClauseDraft(emptyClause())} disabled={loading}>
+            <Plus size={16} className="mr-2" />
+            {t.offerTemplates.addClause}
+          </Button>
+        </div>
+
+        {clauses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{loading ? t.common.loading : t.offerTemplates.noClauses}</p>
+        ) : (
+          <div className="space-y-2">
+            {clauses.map((clause) => (
+              <div
+                key={clause.id}
+                className="flex items-start justify-between gap-2 rounded-md border border-border bg-background px-3 py-2"
+              >
+                <div className="min-w-0 space-y-0.5">
+                  <p className="text-sm font-medium text-foreground">
+                    {clause.title}
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {categoryLabel(clause.category)} | {languageLabel(clause.language)}
+                    </span>
+                  </p>
+                  <p className="text-xs text-muted-foreground line-clamp-2 whitespace-pre-wrap">{clause.body}</p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setClauseDraft({ ...clause })}
+                    title={t.offerTemplates.editClause}
+                  >
+                    <Pencil size={14} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => setDeleteTarget({ kind: 'clause', item: clause })}
+                    title={t.common.delete}
+                  >
+                    <Trash2 size={14} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Dialog open={Boolean(templateDraft)} onOpenChange={(open) => !open && setTemplateDraft(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto scrollbar-thin">
+          <DialogHeader>
+            <DialogTitle>{templateDraft?.id ? t.offerTemplates.editTemplate : t.offerTemplates.addTemplate}</DialogTitle>
+          </DialogHeader>
+          {templateDraft ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="offer-template-name">{t.offerTemplates.name} *</Label>
+                  <Input
+                    id="offer-template-name"
+                    value={templateDraft.name}
+                    onChange={(e) => patchTemplate({ name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="offer-template-market">{t.offerTemplates.market}</Label>
+                  <Input
+                    id="offer-template-market"
+                    value={templateDraft.market}
+                    placeholder={t.offerTemplates.marketPlaceholder}
+                    onChange={(e) => patchTemplate({ market: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5 md:col-span-2">
+                  <Label htmlFor="offer-template-description">{t.offerTemplates.templateDescription}</Label>
+                  <Input
+                    id="offer-template-description"
+                    value={templateDraft.description}
+                    onChange={(e) => patchTemplate({ description: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label>{t.offerTemplates.language}</Label>
+                  <Select
+                    value={templateDraft.language ?? ANY_LANGUAGE}
+                    onValueChange={(value) =>
+                      patchTemplate({ language: value === ANY_LANGUAGE ? null : (value as OfferTemplateLanguage) })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border border-border">
+                      <SelectItem value={ANY_LANGUAGE}>{t.offerTemplates.anyLanguage}</SelectItem>
+                      <SelectItem value="en">{t.common.languageEnglish}</SelectItem>
+                      <SelectItem value="fr">{t.common.languageFrench}</SelectItem>
+                      <SelectItem value="zh">{t.common.languageChinese}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5 md:col-span-2">
+                  <Label>{t.offerTemplates.countries}</Label>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                    {countries.map((country) => (
+                      <label key={country.id} className="flex items-center gap-2 text-xs">
+                        <Checkbox
+                          checked={templateDraft.countries.includes(country.value)}
+                          onCheckedChange={(next) =>
+                            patchTemplate({
+                              countries:
+                                next === true
+                                  ? [...templateDraft.countries, country.value]
+                                  : templateDraft.countries.filter((value) => value !== country.value),
+                            })
+                          }
+                        />
+                        {translateOption(country.value)}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">{t.offerTemplates.countriesHint}</p>
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label htmlFor="offer-template-intro">{t.offerTemplates.introText}</Label>
+                <Textarea
+                  id="offer-template-intro"
+                  rows={4}
+                  value={templateDraft.introText}
+                  onFocus={() => setLastTemplateField('introText')}
+                  onChange={(e) => patchTemplate({ introText: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">{t.offerTemplates.introTextHint}</p>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="offer-template-closing">{t.offerTemplates.closingText}</Label>
+                <Textarea
+                  id="offer-template-closing"
+                  rows={3}
+                  value={templateDraft.closingText}
+                  onFocus={() => setLastTemplateField('closingText')}
+                  onChange={(e) => patchTemplate({ closingText: e.target.value })}
+                />
+              </div>
+              {renderPlaceholderChips((key) =>
+                patchTemplate({ [lastTemplateField]: appendPlaceholder(templateDraft[lastTemplateField], key) })
+              )}
+              {renderUnknownWarning(unknownTemplatePlaceholders)}
+
+              <div className="space-y-1.5">
+                <Label>{t.offerTemplates.sections}</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-1.5">
+                  {OFFER_SECTION_KEYS.map((key) => (
+                    <div key={key} className="h-9 rounded-md border border-border px-2.5 flex items-center justify-between gap-2">
+                      <span className="text-xs font-medium leading-none truncate">{getOfferSectionLabel(t, key)}</span>
+                      <Switch
+                        className="scale-90 origin-right shrink-0"
+                        checked={templateDraft.sectionVisibility[key]}
+                        onCheckedChange={(checked) =>
+                          patchTemplate({
+                            sectionVisibility: { ...templateDraft.sectionVisibility, [key]: Boolean(checked) },
+                          })
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>{t.offerTemplates.lineColumns}</Label>
+                <div className="flex flex-wrap gap-x-4 gap-y-1.5">
+                  {OFFER_LINE_COLUMNS.map((column) => (
+                    <label key={column} className="flex items-center gap-2 text-xs">
+                      <Checkbox
+                        checked={templateDraft.lineColumns.includes(column)}
+                        disabled={column === 'description'}
+                        onCheckedChange={(next) =>
+                          patchTemplate({
+                            lineColumns: OFFER_LINE_COLUMNS.filter((item) =>
+                              item === column ? next === true : templateDraft.lineColumns.includes(item)
+                            ),
+                          })
+                        }
+                      />
+                      {getOfferLineColumnLabel(t, column)}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">{t.offerTemplates.lineColumnsHint}</p>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>{t.offerTemplates.clauses}</Label>
+                {templateDraft.clauseIds.length > 0 ? (
+                  <ol className="space-y-1">
+                    {templateDraft.clauseIds.map((clauseId, index) => (
+                      <li
+                        key={clauseId}
+                        className="flex items-center justify-between gap-2 rounded-md border border-border px-2.5 py-1.5 text-sm"
+                      >
+                        <span className="truncate">
+                          {index + 1}. {clausesById.get(clauseId)?.title ?? clauseId}
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7"
+                          onClick={() =>
+                            patchTemplate({ clauseIds: templateDraft.clauseIds.filter((id) => id !== clauseId) })
+                          }
+                          title={t.clientOffer.removeClause}
+                        >
+                          <Trash2 size={14} />
+                        </Button>
+                      </li>
+                    ))}
+                  </ol>
+                ) : null}
+                {clauses.some((clause) => !templateDraft.clauseIds.includes(clause.id)) ? (
+                  <Select
+                    value=""
+                    onValueChange={(clauseId) => patchTemplate({ clauseIds: [...templateDraft.clauseIds, clauseId] })}
+                  >
+                    <SelectTrigger className="h-9 w-full sm:w-72">
+                      <SelectValue placeholder={t.offerTemplates.addClauseToTemplate} />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border border-border">
+                      {clauses
+                        .filter((clause) => !templateDraft.clauseIds.includes(clause.id))
+                        .map((clause) => (
+                          <SelectItem key={clause.id} value={clause.id}>
+                            {clause.title} ({categoryLabel(clause.category)})
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                ) : null}
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>{t.offerTemplates.preview}</Label>
+                <div className="rounded-md border border-border bg-muted/20 p-3 space-y-2 text-sm text-foreground">
+                  <p className="whitespace-pre-wrap">
+                    {resolveOfferPlaceholders(templateDraft.introText, SAMPLE_PLACEHOLDER_VALUES) || '-'}
+                  </p>
+                  {templateDraft.sectionVisibility.clauses &&
+                    templateDraft.clauseIds.map((clauseId, index) => {
+                      const clause = clausesById.get(clauseId);
+                      if (!clause) return null;
+                      return (
+                        <div key={clauseId}>
+                          <p className="font-medium">
+                            {index + 1}. {resolveOfferPlaceholders(clause.title, SAMPLE_PLACEHOLDER_VALUES)}
+                          </p>
+                          <p className="whitespace-pre-wrap text-muted-foreground">
+                            {resolveOfferPlaceholders(clause.body, SAMPLE_PLACEHOLDER_VALUES)}
+                          </p>
+                        </div>
+                      );
+                    })}
+                  {templateDraft.closingText ? (
+                    <p className="whitespace-pre-wrap">
+                      {resolveOfferPlaceholders(templateDraft.closingText, SAMPLE_PLACEHOLDER_VALUES)}
+                    </p>
+                  ) : null}
+                </div>
+                <p className="text-xs text-muted-foreground">{t.offerTemplates.previewHint}</p>
+              </div>
+            </div>
+          ) : null}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTemplateDraft(null)} disabled={saving}>
+              {t.common.cancel}
+            </Button>
+            <Button onClick={() => void saveTemplate()} disabled={saving || !templateDraft?.name.trim()}>
+              {saving ? t.common.saving : t.common.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={Boolean(clauseDraft)} onOpenChange={(open) => !open && setClauseDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto scrollbar-thin">
+          <DialogHeader>
+            <DialogTitle>{clauseDraft?.id ? t.offerTemplates.editClause : t.offerTemplates.addClause}</DialogTitle>
+          </DialogHeader>
+          {clauseDraft ? (
+            <div className="space-y-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="offer-clause-title">{t.offerTemplates.clauseTitle} *</Label>
+                <Input
+                  id="offer-clause-title"
+                  value={clauseDraft.title}
+                  onChange={(e) => setClauseDraft((prev) => (prev ? { ...prev, title: e.target.value } : prev))}
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label>{t.offerTemplates.category}</Label>
+                  <Select
+                    value={clauseDraft.category}
+                    onValueChange={(value) =>
+                      setClauseDraft((prev) => (prev ? { ...prev, category: value as OfferClauseCategory } : prev))
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border border-border">
+                      {CLAUSE_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {categoryLabel(category)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1.5">
+                  <Label>{t.offerTemplates.language}</Label>
+                  <Select
+                    value={clauseDraft.language ?? ANY_LANGUAGE}
+                    onValueChange={(value) =>
+                      setClauseDraft((prev) =>
+                        prev
+                          ? { ...prev, language: value === ANY_LANGUAGE ? null : (value as OfferTemplateLanguage) }
+                          : prev
+                      )
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border border-border">
+                      <SelectItem value={ANY_LANGUAGE}>{t.offerTemplates.anyLanguage}</SelectItem>
+                      <SelectItem value="en">{t.common.languageEnglish}</SelectItem>
+                      <SelectItem value="fr">{t.common.languageFrench}</SelectItem>
+                      <SelectItem value="zh">{t.common.languageChinese}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="offer-clause-body">{t.offerTemplates.clauseBody} *</Label>
+                <Textarea
+                  id="offer-clause-body"
+                  rows={6}
+                  value={clauseDraft.body}
+                  onChange={(e) => setClauseDraft((prev) => (prev ? { ...prev, body: e.target.value } : prev))}
+                />
+              </div>
+              {renderPlaceholderChips((key) =>
+                setClauseDraft((prev) => (prev ? { ...prev, body: appendPlaceholder(prev.body, key) } : prev))
+              )}
+              {renderUnknownWarning(unknownClausePlaceholders)}
+              <div className="space-y-1.5">
+                <Label>{t.offerTemplates.preview}</Label>
+                <p className="rounded-md border border-border bg-muted/20 p-3 text-sm text-foreground whitespace-pre-wrap">
+                  {resolveOfferPlaceholders(clauseDraft.body, SAMPLE_PLACEHOLDER_VALUES) || '-'}
+                </p>
+              </div>
+            </div>
+          ) : null}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClauseDraft(null)} disabled={saving}>
+              {t.common.cancel}
+            </Button>
+            <Button
+              onClick={() => void saveClause()}
+              disabled={saving || !clauseDraft?.title.trim() || !clauseDraft?.body.trim()}
+            >
+              {saving ? t.common.saving : t.common.save}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={Boolean(deleteTarget)} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent className="bg-card">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t.common.delete}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.kind === 'template'
+                ? t.offerTemplates.deleteTemplateConfirm.replace('{name}', deleteTarget.item.name)
+                : deleteTarget?.kind === 'clause'
+                  ? t.offerTemplates.deleteClauseConfirm.replace('{title}', deleteTarget.item.title)
+                  : ''}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t.common.cancel}</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => void confirmDelete()}
+            >
+              {t.common.delete}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default OfferTemplatesPanel;
@@ -0,0 +1,362 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RequestStatus, SlaConfig, SlaHoliday, SlaPolicy, SlaSettings } from '@/types';
+
+// Stages a request can wait in; draft and final statuses never carry an SLA.
+const SLA_STATUSES: RequestStatus[] = [
+  'submitted',
+  'under_review',
+  'clarification_needed',
+  'feasibility_confirmed',
+  'design_result',
+  'in_costing',
+  'costing_complete',
+  'sales_followup',
+  'gm_approval_pending',
+];
+const SLA_PRIORITY_COLUMNS: SlaPolicy['priority'][] = ['*', 'urgent', 'high', 'normal', 'low'];
+const ISO_WEEKDAYS = [1, 2, 3, 4, 5, 6, 7];
+
+const DEFAULT_SETTINGS: SlaSettings = {
+  enabled: true,
+  timezone: 'Asia/Shanghai',
+  workdayStart: '08:30',
+  workdayEnd: '17:30',
+  workingDays: [1, 2, 3, 4, 5],
+  warningPercent: 80,
+};
+
+const policyKey = (status: string, priority: string) => `${status}|${priority}`;
+
+const toPolicyDraft = (policies: SlaPolicy[]) => {
+  const draft: Record<string, string> = {};
+  for (const policy of policies) draft[policyKey(policy.status, policy.priority)] = String(policy.targetHours);
+  return draft;
+};
+
+const SlaPolicyPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+
+  const [settings, setSettings] = useState<SlaSettings>(DEFAULT_SETTINGS);
+  const [policyDraft, setPolicyDraft] = useState<Record<string, string>>({});
+  const [holidays, setHolidays] = useState<SlaHoliday[]>([]);
+  const [newHoliday, setNewHoliday] = useState<SlaHoliday>({ date: '', label: '' });
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const weekdayLabels = useMemo<Record<number, string>>(
+    () => ({
+      1: t.settings.slaMon,
+      2: t.settings.slaTue,
+      3: t.settings.slaWed,
+      4: t.settings.slaThu,
+      5: t.settings.slaFri,
+      6: t.settings.slaSat,
+      7: t.settings.slaSun,
+    }),
+    [t.settings]
+  );
+
+  const priorityLabels: Record<SlaPolicy['priority'], string> = {
+    '*': t.settings.slaAnyPriority,
+    urgent: t.table.priorityUrgent,
+    high: t.table.priorityHigh,
+    normal: t.table.priorityNormal,
+    low: t.table.priorityLow,
+  };
+
+  const applyConfig = (config: SlaConfig) => {
+    setSettings({ ...DEFAULT_SETTINGS, ...(config.settings ?? {}) });
+    setPolicyDraft(toPolicyDraft(Array.isArray(config.policies) ? config.policies : []));
+    setHolidays(Array.isArray(config.holidays) ? config.holidays : []);
+  };
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/sla', { cache: 'no-store' });
+      const data = (await res.json().catch(() => null)) as (SlaConfig & { error?: string }) | null;
+      if (!res.ok || !data) throw new Error(String(data?.error ?? `Failed to load SLA settings (${res.status})`));
+      applyConfig(data);
+    } catch (e) {
+      toast({
+        title: t.settings.slaTab,
+        description: e instanceof Error ? e.message : String(e),
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast, t.settings.slaTab]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const patchSettings = (patch: Partial<SlaSettings>) => setSettings((prev) => ({ ...prev, ...patch }));
+
+  const toggleWorkingDay = (day: number, checked: boolean) => {
+    setSettings((prev) => {
+      const next = new Set(prev.workingDays);
+      if (checked) next.add(day);
+      else next.delete(day);
+      return { ...prev, workingDays: Array.from(next).sort((a, b) => a - b) };
+    });
+  };
+
+  const addHoliday = () => {
+    const date = newHoliday.date.trim();
+    if (!date) return;
+    setHolidays((prev) =>
+      [...prev.filter((item) => item.date !== date), { date, label: newHoliday.label.trim() }].sort((a, b) =>
+        a.date.localeCompare(b.date)
+      )
+    );
+    setNewHoliday({ date: '', label: '' });
+  };
+
+  const save = async () => {
+    const policies: SlaPolicy[] = [];
+    for (const status of SLA_STATUSES) {
+      for (const priority of SLA_PRIORITY_COLUMNS) {
+        const raw = String(policyDraft[policyKey(status, priority)] ?? '').trim();
+        if (!raw) continue;
+        const targetHours = Number(raw);
+        if (!Number.isFinite(targetHours) || targetHours <= 0) {
+          toast({
+            title: t.settings.slaTab,
+            description: t.settings.slaInvalidTarget.replace('{status}', t.statuses[status] ?? status),
+            variant: 'destructive',
+          });
+          return;
+        }
+        policies.push({ status, priority, targetHours });
+      }
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/sla', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ settings, policies, holidays }),
+      });
+      const data = (await res.json().catch(() => null)) as (SlaConfig & { error?: string }) | null;
+      if (!res.ok || !data) throw new Error(String(data?.error ?? `Failed to save SLA settings (${res.status})`));
+      applyConfig(data);
+      toast({ title: t.settings.slaTab, description: t.settings.slaSaved });
+    } catch (e) {
+      toast({
+        title: t.settings.slaTab,
+        description: e instanceof Error ? e.message : String(e),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-4 md:p-6 space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-foreground">{t.settings.slaTitle}</h3>
+          <p className="text-sm text-muted-foreground">{t.settings.slaDesc}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => void load()} disabled={loading || saving}>
+            <RefreshCw size={16} className={loading ? 'mr-2 animate-spin' : 'mr-2'} />
+            {t.common.refresh}
+          </Button>
+          <Button onClick={() => void save()} disabled={loading || saving}>
+            <Save size={16} className="mr-2" />
+            {t.common.save}
+          </Button>
+        </div>
+      </div>
+
+      <section className="rounded-xl border border-border bg-muted/10 p-4 space-y-4">
+        <div className="space-y-1">
+          <div className="text-sm font-semibold text-foreground">{t.settings.slaCalendarTitle}</div>
+          <div className="text-xs text-muted-foreground">{t.settings.slaCalendarDesc}</div>
+        </div>
+
+        <div className="flex items-center justify-between rounded-lg border border-border bg-background/60 p-3">
+          <div className="space-y-0.5">
+            <div className="text-sm font-medium text-foreground">{t.settings.slaEnabled}</div>
+            <div className="text-xs text-muted-foreground">{t.settings.slaEnabledDesc}</div>
+          </div>
+          <Switch checked={settings.enabled} onCheckedChange={(checked) => patchSettings({ enabled: checked })} />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="sla-timezone">{t.settings.slaTimezone}</Label>
+            <Input
+              id="sla-timezone"
+              value={settings.timezone}
+              onChange={(e) => patchSettings({ timezone: e.target.value })}
+              placeholder="Asia/Shanghai"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sla-workday-start">{t.settings.slaWorkdayStart}</Label>
+            <Input
+              id="sla-workday-start"
+              type="time"
+              value={settings.workdayStart}
+              onChange={(e) => patchSettings({ workdayStart: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sla-workday-end">{t.settings.slaWorkdayEnd}</Label>
+            <Input
+              id="sla-workday-end"
+              type="time"
+              value={settings.workdayEnd}
+              onChange={(e) => patchSettings({ workdayEnd: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sla-warning-percent">{t.settings.slaWarningPercent}</Label>
+            <Input
+              id="sla-warning-percent"
+              type="number"
+              min={1}
+              max={99}
+              value={String(settings.warningPercent)}
+              onChange={(e) => patchSettings({ warningPercent: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t.settings.slaWorkingDays}</Label>
+          <div className="flex flex-wrap gap-4">
+            {ISO_WEEKDAYS.map((day) => (
+              <label key={day} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={settings.workingDays.includes(day)}
+                  onCheckedChange={(checked) => toggleWorkingDay(day, checked === true)}
+                />
+                {weekdayLabels[day]}
+              </label>
+            ))}
+          </div>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-border bg-muted/10 p-4 space-y-3">
+        <div className="space-y-1">
+          <div className="text-sm font-semibold text-foreground">{t.settings.slaPoliciesTitle}</div>
+          <div className="text-xs text-muted-foreground">{t.settings.slaPoliciesDesc}</div>
+        </div>
+
+        <div className="rounded-lg border border-border bg-background/60 overflow-x-auto scrollbar-thin">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[200px]">{t.table.status}</TableHead>
+                {SLA_PRIORITY_COLUMNS.map((priority) => (
+                  <TableHead key={priority} className="min-w-[110px] text-center">
+                    {priorityLabels[priority]}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {SLA_STATUSES.map((status) => (
+                <TableRow key={status}>
+                  <TableCell className="font-medium py-2">{t.statuses[status] ?? status}</TableCell>
+                  {SLA_PRIORITY_COLUMNS.map((priority) => {
+                    const key = policyKey(status, priority);
+                    return (
+                      <TableCell key={priority} className="py-2 px-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="0.5"
+                          className="h-8 text-center"
+                          value={policyDraft[key] ?? ''}
+                          placeholder="-"
+                          onChange={(e) => setPolicyDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                        />
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-border bg-muted/10 p-4 space-y-3">
+        <div className="space-y-1">
+          <div className="text-sm font-semibold text-foreground">{t.settings.slaHolidaysTitle}</div>
+          <div className="text-xs text-muted-foreground">{t.settings.slaHolidaysDesc}</div>
+        </div>
+
+        <div className="flex flex-col gap-2 md:flex-row md:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="sla-holiday-date">{t.common.date}</Label>
+            <Input
+              id="sla-holiday-date"
+              type="date"
+              value={newHoliday.date}
+              onChange={(e) => setNewHoliday((prev) => ({ ...prev, date: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2 flex-1">
+            <Label htmlFor="sla-holiday-label">{t.settings.slaHolidayLabel}</Label>
+            <Input
+              id="sla-holiday-label"
+              value={newHoliday.label}
+              onChange={(e) => setNewHoliday((prev) => ({ ...prev, label: e.target.value }))}
+            />
+          </div>
+          <Button variant="outline" onClick={addHoliday} disabled={!newHoliday.date}>
+            <Plus size={16} className="mr-2" />
+            {t.settings.slaAddHoliday}
+          </Button>
+        </div>
+
+        {holidays.length ? (
+          <div className="divide-y divide-border rounded-lg border border-border bg-background/60">
+            {holidays.map((holiday) => (
+              <div key={holiday.date} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                <div>
+                  <span className="font-medium">{holiday.date}</span>
+                  {holiday.label ? <span className="ml-3 text-muted-foreground">{holiday.label}</span> : null}
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-7 w-7"
+                  onClick={() => setHolidays((prev) => prev.filter((item) => item.date !== holiday.date))}
+                  aria-label={t.common.delete}
+                >
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">{t.settings.slaNoHolidays}</p>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default SlaPolicyPanel;
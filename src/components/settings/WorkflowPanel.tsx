@@ -0,0 +1,327 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, Plus, RefreshCw, Save, Trash2 } from 'lucide-react';
+
+import { useLanguage } from '@/context/LanguageContext';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RequestStatus, UserRole, WorkflowNextActionRole, WorkflowState, WorkflowTransition } from '@/types';
+
+// Roles that receive in-app notifications (finance and cashier have no request inbox).
+const NOTIFY_ROLES: UserRole[] = ['sales', 'design', 'costing', 'admin'];
+
+const toggleValue = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? (values.includes(value) ? values : [...values, value]) : values.filter((item) => item !== value);
+
+const WorkflowPanel: React.FC = () => {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { workflow, isLoading, refreshWorkflow, saveWorkflow } = useWorkflow();
+
+  const [states, setStates] = useState<WorkflowState[]>([]);
+  const [transitions, setTransitions] = useState<WorkflowTransition[]>([]);
+  const [newFrom, setNewFrom] = useState<RequestStatus | ''>('');
+  const [newTo, setNewTo] = useState<RequestStatus | ''>('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!workflow) return;
+    setStates(workflow.states);
+    setTransitions(workflow.transitions);
+  }, [workflow]);
+
+  const statuses = useMemo(() => states.map((state) => state.status), [states]);
+  const roles = workflow?.roles ?? [];
+  const nextActionRoles = workflow?.nextActionRoles ?? [];
+  const requiredFieldOptions = workflow?.requiredFieldOptions ?? [];
+
+  const statusLabel = (status: RequestStatus) => t.statuses[status as keyof typeof t.statuses] || status;
+  const roleLabel = (role: WorkflowNextActionRole | UserRole) => (role === 'none' ? t.table.noAction : t.roles[role]);
+
+  const patchState = (status: RequestStatus, patch: Partial<WorkflowState>) =>
+    setStates((prev) => prev.map((state) => (state.status === status ? { ...state, ...patch } : state)));
+
+  const patchTransition = (from: RequestStatus, to: RequestStatus, patch: Partial<WorkflowTransition>) =>
+    setTransitions((prev) =>
+      prev.map((transition) =>
+        transition.from === from && transition.to === to ? { ...transition, ...patch } : transition
+      )
+    );
+
+  const removeTransition = (from: RequestStatus, to: RequestStatus) =>
+    setTransitions((prev) => prev.filter((transition) => !(transition.from === from && transition.to === to)));
+
+  const canAddTransition =
+    Boolean(newFrom && newTo) &&
+    newFrom !== newTo &&
+    !transitions.some((transition) => transition.from === newFrom && transition.to === newTo);
+
+  const addTransition = () => {
+    if (!newFrom || !newTo || !canAddTransition) return;
+    setTransitions((prev) => [
+      ...prev,
+      { from: newFrom, to: newTo, roles: ['admin'], requiredFields: [], commentRequired: false },
+    ]);
+    setNewTo('');
+  };
+
+  // Rows follow the lifecycle order of the source status, then of the target.
+  const sortedTransitions = useMemo(
+    () =>
+      [...transitions].sort(
+        (a, b) => statuses.indexOf(a.from) - statuses.indexOf(b.from) || statuses.indexOf(a.to) - statuses.indexOf(b.to)
+      ),
+    [statuses, transitions]
+  );
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await saveWorkflow({ states, transitions });
+      toast({ title: t.settings.workflowTab, description: t.settings.workflowSaved });
+    } catch (e) {
+      toast({
+        title: t.settings.workflowTab,
+        description: e instanceof Error ? e.message : String(e),
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-4 md:p-6 space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-foreground">{t.settings.workflowTitle}</h3>
+          <p className="text-sm text-muted-foreground">{t.settings.workflowDesc}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => void refreshWorkflow()} disabled={isLoading || saving}>
+            <RefreshCw size={16} className={isLoading ? 'mr-2 animate-spin' : 'mr-2'} />
+            {t.common.refresh}
+          </Button>
+          <Button onClick={() => void save()} disabled={!workflow || isLoading || saving}>
+            <Save size={16} className="mr-2" />
+            {t.common.save}
+          </Button>
+        </div>
+      </div>
+
+      <section className="rounded-xl border border-border bg-muted/10 p-4 space-y-3">
+        <div className="space-y-1">
+          <div className="text-sm font-semibold text-foreground">{t.settings.workflowStatesTitle}</div>
+          <div className="text-xs text-muted-foreground">{t.settings.workflowStatesDesc}</div>
+        </div>
+
+        <div className="rounded-lg border border-border bg-background/60 overflow-x-auto scrollbar-thin">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[180px]">{t.table.status}</TableHead>
+                <TableHead className="min-w-[160px]">{t.table.nextActionBy}</TableHead>
+                <TableHead className="min-w-[180px]">{t.settings.workflowNextActionLabel}</TableHead>
+                {NOTIFY_ROLES.map((role) => (
+                  <TableHead key={role} className="min-w-[90px] text-center">
+                    {t.roles[role]}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {states.map((state) => (
+                <TableRow key={state.status}>
+                  <TableCell className="font-medium py-2">{statusLabel(state.status)}</TableCell>
+                  <TableCell className="py-2">
+                    <Select
+                      value={state.nextActionRole}
+                      onValueChange={(value) =>
+                        patchState(state.status, { nextActionRole: value as WorkflowNextActionRole })
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {nextActionRoles.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {roleLabel(role)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <Input
+                      className="h-8"
+                      value={state.nextActionLabel}
+                      placeholder={t.settings.workflowLabelPlaceholder}
+                      maxLength={60}
+                      onChange={(e) => patchState(state.status, { nextActionLabel: e.target.value })}
+                    />
+                  </TableCell>
+                  {NOTIFY_ROLES.map((role) => (
+                    <TableCell key={role} className="py-2 text-center">
+                      <Checkbox
+                        checked={state.notifyRoles.includes(role)}
+                        aria-label={`${statusLabel(state.status)} - ${t.roles[role]}`}
+                        onCheckedChange={(checked) =>
+                          patchState(state.status, {
+                            notifyRoles: toggleValue(state.notifyRoles, role, checked === true),
+                          })
+                        }
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+
+      <section className="rounded-xl border border-border bg-muted/10 p-4 space-y-3">
+        <div className="space-y-1">
+          <div className="text-sm font-semibold text-foreground">{t.settings.workflowTransitionsTitle}</div>
+          <div className="text-xs text-muted-foreground">{t.settings.workflowTransitionsDesc}</div>
+        </div>
+
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <Select value={newFrom} onValueChange={(value) => setNewFrom(value as RequestStatus)}>
+            <SelectTrigger className="md:w-[220px]">
+              <SelectValue placeholder={t.settings.workflowFrom} />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {statusLabel(status)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={newTo} onValueChange={(value) => setNewTo(value as RequestStatus)}>
+            <SelectTrigger className="md:w-[220px]">
+              <SelectValue placeholder={t.settings.workflowTo} />
+            </SelectTrigger>
+            <SelectContent>
+              {statuses
+                .filter((status) => status !== newFrom)
+                .map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {statusLabel(status)}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={addTransition} disabled={!canAddTransition}>
+            <Plus size={16} className="mr-2" />
+            {t.settings.workflowAddTransition}
+          </Button>
+        </div>
+
+        <div className="rounded-lg border border-border bg-background/60 overflow-x-auto scrollbar-thin">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="min-w-[160px]">{t.settings.workflowFrom}</TableHead>
+                <TableHead className="min-w-[160px]">{t.settings.workflowTo}</TableHead>
+                {roles.map((role) => (
+                  <TableHead key={role} className="min-w-[80px] text-center">
+                    {t.roles[role]}
+                  </TableHead>
+                ))}
+                <TableHead className="min-w-[170px]">{t.settings.workflowRequiredFields}</TableHead>
+                <TableHead className="min-w-[100px] text-center">{t.settings.workflowCommentRequired}</TableHead>
+                <TableHead className="w-[52px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sortedTransitions.map((transition) => (
+                <TableRow key={`${transition.from}|${transition.to}`}>
+                  <TableCell className="py-2">{statusLabel(transition.from)}</TableCell>
+                  <TableCell className="py-2 font-medium">{statusLabel(transition.to)}</TableCell>
+                  {roles.map((role) => (
+                    <TableCell key={role} className="py-2 text-center">
+                      <Checkbox
+                        checked={transition.roles.includes(role)}
+                        aria-label={`${statusLabel(transition.from)} → ${statusLabel(transition.to)} - ${t.roles[role]}`}
+                        onCheckedChange={(checked) =>
+                          patchTransition(transition.from, transition.to, {
+                            roles: toggleValue(transition.roles, role, checked === true),
+                          })
+                        }
+                      />
+                    </TableCell>
+                  ))}
+                  <TableCell className="py-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="sm" className="h-8 w-full justify-between">
+                          <span className="truncate">
+                            {transition.requiredFields.length
+                              ? t.settings.workflowFieldsSelected.replace('{count}', String(transition.requiredFields.length))
+                              : t.settings.workflowNoFields}
+                          </span>
+                          <ChevronDown size={14} className="ml-2 shrink-0" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto bg-card border border-border shadow-lg">
+                        {requiredFieldOptions.map((field) => (
+                          <DropdownMenuCheckboxItem
+                            key={field}
+                            checked={transition.requiredFields.includes(field)}
+                            onCheckedChange={(checked) =>
+                              patchTransition(transition.from, transition.to, {
+                                requiredFields: toggleValue(transition.requiredFields, field, checked === true),
+                              })
+                            }
+                            onSelect={(event) => event.preventDefault()}
+                          >
+                            <span className="font-mono text-xs">{field}</span>
+                          </DropdownMenuCheckboxItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                  <TableCell className="py-2 text-center">
+                    <Checkbox
+                      checked={transition.commentRequired}
+                      aria-label={t.settings.workflowCommentRequired}
+                      onCheckedChange={(checked) =>
+                        patchTransition(transition.from, transition.to, { commentRequired: checked === true })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      onClick={() => removeTransition(transition.from, transition.to)}
+                      aria-label={t.common.delete}
+                    >
+                      <Trash2 size={14} />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default WorkflowPanel;
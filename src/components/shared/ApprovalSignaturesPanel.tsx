@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Fingerprint, Loader2, ShieldCheck } from 'lucide-react';
+import { ApprovalSignature, ApprovalSignatureVerification } from '@/types';
+import { useLanguage } from '@/context/LanguageContext';
+
+interface ApprovalSignaturesPanelProps {
+  targetType: 'request' | 'contract';
+  targetId: string;
+  // Changes whenever the record is saved, so the comparison with the signed values is redone.
+  refreshKey?: string | number;
+}
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : format(date, 'MMM d, yyyy HH:mm');
+};
+
+const shortHash = (value: string | null | undefined) => (value ? `${value.slice(0, 12)}...${value.slice(-6)}` : '-');
+
+const ApprovalSignaturesPanel: React.FC<ApprovalSignaturesPanelProps> = ({ targetType, targetId, refreshKey }) => {
+  const { t } = useLanguage();
+  const [verification, setVerification] = useState<ApprovalSignatureVerification | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const base = targetType === 'contract' ? '/api/contracts' : '/api/requests';
+      const res = await fetch(`${base}/${encodeURIComponent(targetId)}/approval-signatures`, { cache: 'no-store' });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+      setVerification(data as ApprovalSignatureVerification);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [targetId, targetType]);
+
+  useEffect(() => {
+    void load();
+  }, [load, refreshKey]);
+
+  const fieldLabels = t.approvalSignatures.fields as Record<string, string>;
+  const getFieldLabel = (field: string) => fieldLabels[field] ?? field;
+
+  const renderSignature = (signature: ApprovalSignature) => {
+    const isApproval = signature.decision === 'approved';
+    const verified = signature.payloadIntact && signature.chainIntact;
+    return (
+      <div key={signature.id} className="rounded-lg border border-border bg-muted/30 p-3 space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <span className={`text-sm font-medium ${isApproval ? 'text-success' : 'text-destructive'}`}>
+            {isApproval ? t.approvalSignatures.approved : t.approvalSignatures.rejected}
+          </span>
+          <span className="text-xs text-muted-foreground">
+            {t.approvalSignatures.signedBy
+              .replace('{name}', signature.signerName || signature.signerEmail || '-')
+              .replace('{date}', formatDateTime(signature.signedAt))}
+          </span>
+        </div>
+        {signature.comment && <p className="text-sm text-foreground">{signature.comment}</p>}
+        <div className="grid gap-1 text-xs text-muted-foreground sm:grid-cols-2">
+          <span className="font-mono" title={signature.payloadHash}>
+            {t.approvalSignatures.payloadHash}: {shortHash(signature.payloadHash)}
+          </span>
+          <span className="font-mono" title={signature.signatureHash}>
+            {t.approvalSignatures.signatureHash}: {shortHash(signature.signatureHash)}
+          </span>
+        </div>
+        {!verified && (
+          <p className="flex items-start gap-2 text-sm text-destructive">
+            <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+            {t.approvalSignatures.tampered}
+          </p>
+        )}
+        {verified && signature.matchesCurrent === true && (
+          <p className="flex items-start gap-2 text-sm text-success">
+            <ShieldCheck size={14} className="mt-0.5 shrink-0" />
+            {t.approvalSignatures.matches}
+          </p>
+        )}
+        {signature.matchesCurrent === false && (
+          <div className="rounded-md border border-warning/40 bg-warning/10 p-2 text-sm text-warning">
+            <p className="flex items-start gap-2">
+              <AlertTriangle size={14} className="mt-0.5 shrink-0" />
+              {t.approvalSignatures.mismatch}
+            </p>
+            <ul className="mt-1 list-disc pl-8 text-foreground">
+              {signature.changedFields.map((field) => (
+                <li key={field}>{getFieldLabel(field)}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Fingerprint size={18} className="text-muted-foreground" />
+        <div>
+          <h4 className="text-sm font-semibold text-foreground">{t.approvalSignatures.title}</h4>
+          <p className="text-xs text-muted-foreground">{t.approvalSignatures.description}</p>
+        </div>
+      </div>
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 size={14} className="animate-spin" />
+          {t.common.loading}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{t.approvalSignatures.loadFailed}</p>
+      ) : !verification?.signatures.length ? (
+        <p className="text-sm text-muted-foreground">{t.approvalSignatures.noSignatures}</p>
+      ) : (
+        <>
+          {verification.intact && <p className="text-xs text-muted-foreground">{t.approvalSignatures.allIntact}</p>}
+          {verification.signatures.map(renderSignature)}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ApprovalSignaturesPanel;
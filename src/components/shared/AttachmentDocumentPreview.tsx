@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+
+import { useLanguage } from '@/context/LanguageContext';
+import { Attachment } from '@/types';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { getStoredAttachmentId, isDocumentPreviewFile } from '@/lib/attachmentPreview';
+
+type SheetPreview = { name: string; rows: string[][]; truncated: boolean };
+
+type DocumentPreview =
+  | { kind: 'sheet'; sheets: SheetPreview[]; truncatedSheets: boolean }
+  | { kind: 'document'; html: string; truncated: boolean };
+
+// Styles for the DOCX preview frame; the frame is sandboxed and the server only emits escaped text in simple tags.
+const DOCUMENT_FRAME_STYLE =
+  'body{font-family:system-ui,sans-serif;font-size:14px;line-height:1.5;color:#111;margin:16px;}' +
+  'table{border-collapse:collapse;margin:8px 0;}td{border:1px solid #ccc;padding:4px 8px;vertical-align:top;}' +
+  'td p{margin:0;}h1,h2,h3,h4,h5,h6{margin:16px 0 8px;}';
+
+interface AttachmentDocumentPreviewProps {
+  attachment: Attachment;
+}
+
+// Server-rendered preview of a spreadsheet or Word attachment; other files only get the "not available" note.
+const AttachmentDocumentPreview: React.FC<AttachmentDocumentPreviewProps> = ({ attachment }) => {
+  const { t } = useLanguage();
+  const attachmentId = isDocumentPreviewFile(attachment.filename) ? getStoredAttachmentId(attachment) : null;
+  const [preview, setPreview] = useState<DocumentPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setPreview(null);
+    setFailed(false);
+    if (!attachmentId) return;
+    const controller = new AbortController();
+    setLoading(true);
+    fetch(`/api/attachments/${encodeURIComponent(attachmentId)}/preview`, { signal: controller.signal })
+      .then(async (res) => {
+        const data = (await res.json().catch(() => null)) as DocumentPreview | null;
+        if (!res.ok || !data) throw new Error(`Failed to load preview (${res.status})`);
+        setPreview(data);
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setFailed(true);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [attachmentId]);
+
+  if (!attachmentId) {
+    return <div className="text-sm text-muted-foreground">{t.request.previewNotAvailable}</div>;
+  }
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 size={16} className="animate-spin" />
+        {t.request.previewLoading}
+      </div>
+    );
+  }
+  if (failed || !preview) {
+    return <div className="text-sm text-muted-foreground">{t.request.previewFailed}</div>;
+  }
+
+  if (preview.kind === 'document') {
+    return (
+      <div className="w-full space-y-2 text-left">
+        <iframe
+          title={attachment.filename}
+          sandbox=""
+          srcDoc={`<!doctype html><html><head><meta charset="utf-8"><style>${DOCUMENT_FRAME_STYLE}</style></head><body>${preview.html}</body></html>`}
+          className="h-[70vh] w-full rounded border border-border bg-white"
+        />
+        {preview.truncated && <p className="text-xs text-muted-foreground">{t.request.previewTruncated}</p>}
+      </div>
+    );
+  }
+
+  if (!preview.sheets.length) {
+    return <div className="text-sm text-muted-foreground">{t.request.previewFailed}</div>;
+  }
+
+  return (
+    <Tabs defaultValue="0" className="w-full self-start text-left">
+      {preview.sheets.length > 1 && (
+        <TabsList className="h-auto flex-wrap justify-start">
+          {preview.sheets.map((sheet, index) => (
+            <TabsTrigger key={`${sheet.name}-${index}`} value={String(index)}>
+              {sheet.name}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      )}
+      {preview.sheets.map((sheet, index) => (
+        <TabsContent key={`${sheet.name}-${index}`} value={String(index)} className="space-y-2">
+          <div className="max-h-[65vh] overflow-auto rounded border border-border scrollbar-thin">
+            <table className="w-full border-collapse text-xs">
+              <tbody>
+                {sheet.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className={rowIndex === 0 ? 'bg-muted/60 font-medium' : undefined}>
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="whitespace-pre-wrap border border-border px-2 py-1 align-top">
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {sheet.truncated && <p className="text-xs text-muted-foreground">{t.request.previewTruncated}</p>}
+        </TabsContent>
+      ))}
+      {preview.truncatedSheets && <p className="mt-2 text-xs text-muted-foreground">{t.request.previewSheetsTruncated}</p>}
+    </Tabs>
+  );
+};
+
+export default AttachmentDocumentPreview;
@@ -4,6 +4,7 @@ import { Download } from 'lucide-react';
 import { useLanguage } from '@/context/LanguageContext';
 import { Attachment } from '@/types';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import AttachmentDocumentPreview from '@/components/shared/AttachmentDocumentPreview';
 import { buildAttachmentHref, isImageFile, isPdfFile } from '@/lib/attachmentPreview';
 
 type Props = {
@@ -35,8 +36,8 @@ const AttachmentPreviewDialog: React.FC<Props> = ({ open, onOpenChange, attachme
           {showImage ? <img src={href} alt={filename} className="max-h-[70vh] max-w-full object-contain" /> : null}
           {showPdf ? <iframe src={href} title={filename} className="h-[70vh] w-full border border-border rounded" /> : null}
           {showFallback ? (
-            <div className="space-y-3 text-center">
-              <div className="text-sm text-muted-foreground">{t.request.previewNotAvailable}</div>
+            <div className="w-full space-y-3 text-center">
+              <AttachmentDocumentPreview attachment={attachment} />
               {href ? (
                 <a
                   href={href}
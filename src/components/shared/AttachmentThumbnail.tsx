@@ -0,0 +1,30 @@
+import React, { useState } from 'react';
+import { File } from 'lucide-react';
+
+import { Attachment } from '@/types';
+import { buildAttachmentThumbnailHref } from '@/lib/attachmentPreview';
+
+interface AttachmentThumbnailProps {
+  attachment: Attachment;
+}
+
+// Small preview of an image or PDF in attachment lists; other files (or a failed thumbnail) show the file icon.
+const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({ attachment }) => {
+  const href = buildAttachmentThumbnailHref(attachment);
+  const [failedHref, setFailedHref] = useState<string | null>(null);
+
+  if (!href || failedHref === href) {
+    return <File size={16} className="text-primary flex-shrink-0" />;
+  }
+  return (
+    <img
+      src={href}
+      alt=""
+      loading="lazy"
+      onError={() => setFailedHref(href)}
+      className="h-8 w-8 flex-shrink-0 rounded border border-border bg-white object-cover"
+    />
+  );
+};
+
+export default AttachmentThumbnail;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ApprovalSignatureDecision } from '@/types';
+import { useLanguage } from '@/context/LanguageContext';
+
+interface SignatureConfirmDialogProps {
+  // The decision being signed; null closes the dialog.
+  decision: ApprovalSignatureDecision | null;
+  onCancel: () => void;
+  // Resolves to false when the decision was not recorded (e.g. wrong password); the dialog then stays open.
+  onConfirm: (password: string) => Promise<boolean>;
+}
+
+// Password step of a GM decision; the API signs the decision with the approver's identity.
+const SignatureConfirmDialog: React.FC<SignatureConfirmDialogProps> = ({ decision, onCancel, onConfirm }) => {
+  const { t } = useLanguage();
+  const [password, setPassword] = useState('');
+  const [failed, setFailed] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+
+  useEffect(() => {
+    setPassword('');
+    setFailed(false);
+  }, [decision]);
+
+  const submit = async () => {
+    if (!password || isSigning) return;
+    setIsSigning(true);
+    setFailed(false);
+    try {
+      const ok = await onConfirm(password);
+      if (!ok) setFailed(true);
+    } catch {
+      setFailed(true);
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <Dialog open={decision !== null} onOpenChange={(open) => !open && !isSigning && onCancel()}>
+      <DialogContent className="bg-card">
+        <DialogHeader>
+          <DialogTitle>
+            {decision === 'rejected' ? t.approvalSignatures.confirmRejectTitle : t.approvalSignatures.confirmApproveTitle}
+          </DialogTitle>
+          <DialogDescription>{t.approvalSignatures.confirmDescription}</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void submit();
+          }}
+        >
+          <Label htmlFor="signature-password">{t.approvalSignatures.passwordLabel}</Label>
+          <Input
+            id="signature-password"
+            type="password"
+            autoComplete="current-password"
+            autoFocus
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            disabled={isSigning}
+          />
+          {failed && <p className="text-sm text-destructive">{t.approvalSignatures.confirmFailed}</p>}
+        </form>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSigning}>
+            {t.common.cancel}
+          </Button>
+          <Button
+            onClick={() => void submit()}
+            disabled={!password || isSigning}
+            variant={decision === 'rejected' ? 'destructive' : 'default'}
+          >
+            {isSigning ? <Loader2 size={16} className="mr-2 animate-spin" /> : <ShieldCheck size={16} className="mr-2" />}
+            {t.approvalSignatures.signAction}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SignatureConfirmDialog;
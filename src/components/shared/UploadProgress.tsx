@@ -0,0 +1,28 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { useLanguage } from '@/context/LanguageContext';
+
+interface UploadProgressProps {
+  // 0-100; null hides the bar.
+  percent: number | null;
+}
+
+const UploadProgress: React.FC<UploadProgressProps> = ({ percent }) => {
+  const { t } = useLanguage();
+  if (percent === null) return null;
+  const value = Math.max(0, Math.min(100, percent));
+
+  return (
+    <div className="space-y-1" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={value}>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 size={12} className="animate-spin" />
+        {t.common.uploadProgress.replace('{percent}', String(value))}
+      </div>
+      <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+        <div className="h-full bg-primary transition-all" style={{ width: `${value}%` }} />
+      </div>
+    </div>
+  );
+};
+
+export default UploadProgress;
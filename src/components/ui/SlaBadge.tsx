@@ -0,0 +1,44 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { RequestSlaState } from '@/types';
+import { cn } from '@/lib/utils';
+import { useLanguage } from '@/context/LanguageContext';
+
+interface SlaBadgeProps {
+  state?: RequestSlaState | null;
+  dueAt?: Date | null;
+  size?: 'sm' | 'md';
+}
+
+const SLA_STATE_CLASSES: Record<RequestSlaState, string> = {
+  on_track: 'border-emerald-500/40 bg-emerald-500/10 text-emerald-700 dark:text-emerald-300',
+  at_risk: 'border-amber-500/50 bg-amber-500/10 text-amber-700 dark:text-amber-300',
+  breached: 'border-rose-500/50 bg-rose-500/10 text-rose-700 dark:text-rose-300',
+};
+
+const SlaBadge: React.FC<SlaBadgeProps> = ({ state, dueAt, size = 'md' }) => {
+  const { t } = useLanguage();
+  if (!state) return null;
+
+  const labels: Record<RequestSlaState, string> = {
+    on_track: t.table.slaOnTrack,
+    at_risk: t.table.slaDueSoon,
+    breached: t.table.slaOverdue,
+  };
+  const dueLabel = dueAt ? t.table.slaDue.replace('{date}', format(dueAt, 'MMM d, yyyy HH:mm')) : undefined;
+
+  return (
+    <span
+      title={dueLabel}
+      className={cn(
+        'inline-flex items-center rounded-md border font-medium whitespace-nowrap leading-none',
+        size === 'sm' ? 'h-6 px-2 text-[11px]' : 'h-7 px-2.5 text-xs',
+        SLA_STATE_CLASSES[state]
+      )}
+    >
+      {labels[state]}
+    </span>
+  );
+};
+
+export default SlaBadge;
@@ -1,4 +1,5 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { Permission, UserRole } from '@/types';
 
 const MIN_SPINNER_MS = 600;
 const sleepMs = (ms: number) => new Promise<void>((resolve) => window.setTimeout(resolve, ms));
@@ -17,6 +18,11 @@ interface UserItem {
   name: string;
   email: string;
   role: 'sales' | 'design' | 'costing' | 'admin' | 'finance' | 'cashier';
+  // Primary role first, then extra roles.
+  roles: UserRole[];
+  // Granted directly; `permissions` also includes every role default.
+  grantedPermissions: Permission[];
+  permissions: Permission[];
   preferredLanguage: 'en' | 'fr' | 'zh';
   createdAt?: string | null;
   online?: boolean;
@@ -30,6 +36,8 @@ interface UserCreateInput {
   role: UserItem['role'];
   preferredLanguage: UserItem['preferredLanguage'];
   password: string;
+  roles?: UserRole[];
+  grantedPermissions?: Permission[];
 }
 
 interface UserUpdateInput {
@@ -38,6 +46,14 @@ interface UserUpdateInput {
   role: UserItem['role'];
   preferredLanguage: UserItem['preferredLanguage'];
   newPassword?: string;
+  // Omit both to leave the user's extra roles and grants unchanged.
+  roles?: UserRole[];
+  grantedPermissions?: Permission[];
+}
+
+interface PermissionCatalog {
+  permissions: Permission[];
+  rolePermissions: Record<UserRole, Permission[]>;
 }
 
 interface AdminSettingsContextType {
@@ -68,6 +84,7 @@ interface AdminSettingsContextType {
   // Users
   users: UserItem[];
   isUsersLoading: boolean;
+  permissionCatalog: PermissionCatalog | null;
   refreshUsers: (options?: { silent?: boolean }) => Promise<void>;
   createUser: (input: UserCreateInput) => Promise<UserItem>;
   updateUser: (id: string, input: UserUpdateInput) => Promise<UserItem>;
@@ -214,6 +231,7 @@ export type ListCategory =
 
 const API_BASE = '/api/admin/lists';
 const USERS_API_BASE = '/api/admin/users';
+const PERMISSIONS_API = '/api/admin/permissions';
 
 const normalizeEmail = (value: unknown) => String(value ?? '').trim().toLowerCase();
 const normalizeName = (value: unknown) => String(value ?? '').trim();
@@ -225,6 +243,14 @@ const normalizeRole = (value: unknown): UserItem['role'] | null => {
   return null;
 };
 
+const ALL_ROLES: UserRole[] = ['sales', 'design', 'costing', 'admin', 'finance', 'cashier'];
+const ALL_PERMISSIONS: Permission[] = ['manage_settings', 'view_costing_margin', 'approve_gm', 'delete_requests'];
+
+const normalizeRoleList = (value: unknown): UserRole[] =>
+  Array.isArray(value) ? ALL_ROLES.filter((role) => value.includes(role)) : [];
+const normalizePermissionList = (value: unknown): Permission[] =>
+  Array.isArray(value) ? ALL_PERMISSIONS.filter((permission) => value.includes(permission)) : [];
+
 const normalizePreferredLanguage = (value: unknown): UserItem['preferredLanguage'] => {
   const lang = String(value ?? '').trim().toLowerCase();
   if (lang === 'fr' || lang === 'zh') return lang;
@@ -266,6 +292,7 @@ export const AdminSettingsProvider: React.FC<{ children: React.ReactNode }> = ({
   const [configurationTypes, setConfigurationTypes] = useState<ListItem[]>(DEFAULT_DATA.configurationTypes);
   const [users, setUsers] = useState<UserItem[]>([]);
   const [isUsersLoading, setIsUsersLoading] = useState(false);
+  const [permissionCatalog, setPermissionCatalog] = useState<PermissionCatalog | null>(null);
 
   const fetchJson = async <T,>(input: RequestInfo, init?: RequestInit): Promise<T> => {
     const res = await fetch(input, init);
@@ -430,6 +457,9 @@ export const AdminSettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       name: String(raw?.name ?? ''),
       email: String(raw?.email ?? ''),
       role,
+      roles: [role, ...normalizeRoleList(raw?.roles).filter((item) => item !== role)],
+      grantedPermissions: normalizePermissionList(raw?.grantedPermissions),
+      permissions: normalizePermissionList(raw?.permissions),
       preferredLanguage,
       createdAt: raw?.createdAt ? String(raw.createdAt) : null,
       online: Boolean(raw?.online),
@@ -445,9 +475,13 @@ export const AdminSettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       setIsUsersLoading(true);
     }
     try {
-      const data = await fetchJson<UserItem[]>(USERS_API_BASE);
+      const [data, catalog] = await Promise.all([
+        fetchJson<UserItem[]>(USERS_API_BASE),
+        fetchJson<PermissionCatalog>(PERMISSIONS_API),
+      ]);
       const mapped = Array.isArray(data) ? data.map(mapUser) : [];
       setUsers(mapped.filter((item) => item.id && item.email));
+      setPermissionCatalog(catalog);
     } finally {
       if (!silent) {
         await ensureMinSpinnerMs(startedAt);
@@ -463,6 +497,8 @@ export const AdminSettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       role: normalizeRole(input.role),
       preferredLanguage: normalizePreferredLanguage(input.preferredLanguage),
       password: String(input.password ?? ''),
+      ...(input.roles ? { roles: normalizeRoleList(input.roles) } : {}),
+      ...(input.grantedPermissions ? { grantedPermissions: normalizePermissionList(input.grantedPermissions) } : {}),
     };
     if (!payload.name || !payload.email || !payload.role || !payload.preferredLanguage || !payload.password.trim()) {
       throw new Error('Invalid user payload');
@@ -487,6 +523,8 @@ export const AdminSettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       role: normalizeRole(input.role),
       preferredLanguage: normalizePreferredLanguage(input.preferredLanguage),
       newPassword: String(input.newPassword ?? ''),
+      ...(input.roles ? { roles: normalizeRoleList(input.roles) } : {}),
+      ...(input.grantedPermissions ? { grantedPermissions: normalizePermissionList(input.grantedPermissions) } : {}),
     };
     if (!payload.name || !payload.email || !payload.role || !payload.preferredLanguage) {
       throw new Error('Invalid user payload');
@@ -575,6 +613,7 @@ export const AdminSettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       reorderListItems,
       users,
       isUsersLoading,
+      permissionCatalog,
       refreshUsers,
       createUser,
       updateUser,
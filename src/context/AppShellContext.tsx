@@ -21,6 +21,13 @@ export interface AppShellStatus {
   serverTime: string;
 }
 
+// Highlight ranges are [start, end) offsets into `snippet`.
+export interface AppShellSearchMatch {
+  field: string;
+  snippet: string;
+  highlights: Array<[number, number]>;
+}
+
 export interface AppShellSearchResult {
   id: string;
   status: string;
@@ -29,9 +36,20 @@ export interface AppShellSearchResult {
   applicationVehicle: string;
   country: string;
   createdByName: string;
+  createdAt?: string;
   updatedAt: string;
+  rank?: number;
+  matches?: AppShellSearchMatch[];
+}
+
+export interface AppShellSearchFilters {
+  status: string;
+  createdFrom: string;
+  createdTo: string;
 }
 
+const EMPTY_SEARCH_FILTERS: AppShellSearchFilters = { status: '', createdFrom: '', createdTo: '' };
+
 interface SaveState {
   kind: SaveStateKind;
   at: Date | null;
@@ -47,6 +65,8 @@ interface AppShellContextType {
   setCommandPaletteOpen: (open: boolean) => void;
   globalSearchQuery: string;
   setGlobalSearchQuery: (query: string) => void;
+  searchFilters: AppShellSearchFilters;
+  setSearchFilters: (filters: AppShellSearchFilters) => void;
   searchResults: AppShellSearchResult[];
   isSearchLoading: boolean;
   shellStatus: AppShellStatus | null;
@@ -82,6 +102,7 @@ export const AppShellProvider: React.FC<{ children: React.ReactNode }> = ({ chil
   });
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
   const [globalSearchQuery, setGlobalSearchQuery] = useState('');
+  const [searchFilters, setSearchFilters] = useState<AppShellSearchFilters>(EMPTY_SEARCH_FILTERS);
   const [searchResults, setSearchResults] = useState<AppShellSearchResult[]>([]);
   const [isSearchLoading, setIsSearchLoading] = useState(false);
   const [shellStatus, setShellStatus] = useState<AppShellStatus | null>(null);
@@ -166,6 +187,9 @@ export const AppShellProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       setIsSearchLoading(true);
       try {
         const params = new URLSearchParams({ q: query, limit: '25' });
+        if (searchFilters.status) params.set('status', searchFilters.status);
+        if (searchFilters.createdFrom) params.set('createdFrom', searchFilters.createdFrom);
+        if (searchFilters.createdTo) params.set('createdTo', searchFilters.createdTo);
         const res = await fetch(`/api/requests/search?${params.toString()}`, {
           cache: 'no-store',
           signal: controller.signal,
@@ -188,7 +212,7 @@ export const AppShellProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       controller.abort();
       window.clearTimeout(timer);
     };
-  }, [globalSearchQuery, isAuthenticated]);
+  }, [globalSearchQuery, isAuthenticated, searchFilters]);
 
   const value = useMemo<AppShellContextType>(
     () => ({
@@ -200,6 +224,8 @@ export const AppShellProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       setCommandPaletteOpen,
       globalSearchQuery,
       setGlobalSearchQuery,
+      searchFilters,
+      setSearchFilters,
       searchResults,
       isSearchLoading,
       shellStatus,
@@ -216,6 +242,7 @@ export const AppShellProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       setSidebarWidth,
       commandPaletteOpen,
       globalSearchQuery,
+      searchFilters,
       searchResults,
       isSearchLoading,
       shellStatus,
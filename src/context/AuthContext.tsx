@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import { User } from '@/types';
+import { Permission, User, UserRole } from '@/types';
 
 interface AuthContextType {
   user: User | null;
@@ -8,10 +8,16 @@ interface AuthContextType {
   logout: () => Promise<void>;
   refreshMe: () => Promise<void>;
   isLoading: boolean;
+  // Checks against every role the user holds (primary and extra) and their effective permissions.
+  hasRole: (role: UserRole) => boolean;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const USER_ROLES: UserRole[] = ['sales', 'design', 'costing', 'admin', 'finance', 'cashier'];
+const PERMISSIONS: Permission[] = ['manage_settings', 'view_costing_margin', 'approve_gm', 'delete_requests'];
+
 const mapServerUser = (raw: any): User | null => {
   if (!raw || typeof raw !== 'object') return null;
   const id = String(raw.id ?? '').trim();
@@ -22,11 +28,19 @@ const mapServerUser = (raw: any): User | null => {
   if (role !== 'sales' && role !== 'design' && role !== 'costing' && role !== 'admin' && role !== 'finance' && role !== 'cashier') return null;
   const createdAtRaw = String(raw.createdAt ?? '').trim();
   const createdAt = createdAtRaw ? new Date(createdAtRaw) : new Date();
+  const extraRoles: UserRole[] = Array.isArray(raw.roles)
+    ? USER_ROLES.filter((item) => item !== role && raw.roles.includes(item))
+    : [];
+  const permissions: Permission[] = Array.isArray(raw.permissions)
+    ? PERMISSIONS.filter((item) => raw.permissions.includes(item))
+    : [];
   return {
     id,
     email,
     name,
     role,
+    roles: [role, ...extraRoles],
+    permissions,
     createdAt: Number.isNaN(createdAt.getTime()) ? new Date() : createdAt,
   };
 };
@@ -105,6 +119,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  const hasRole = useCallback((role: UserRole) => Boolean(user?.roles.includes(role)), [user]);
+  const hasPermission = useCallback(
+    (permission: Permission) => Boolean(user?.permissions.includes(permission)),
+    [user]
+  );
+
   return (
     <AuthContext.Provider value={{
       user,
@@ -113,6 +133,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       logout,
       refreshMe,
       isLoading,
+      hasRole,
+      hasPermission,
     }}>
       {children}
     </AuthContext.Provider>
@@ -1,6 +1,8 @@
-import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
-import { Attachment, ContractApproval, ContractApprovalStatus } from '@/types';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { Attachment, ContractApproval, ContractApprovalStatus, StatusChangeOptions } from '@/types';
 import { useAuth } from './AuthContext';
+import { createConcurrencyConflictError, isConcurrencyConflictError, isVersionConflictPayload } from '@/lib/concurrency';
+import { subscribeRealtime, subscribeRealtimeConnection } from '@/lib/realtime';
 
 type ContractUpdatePayload = Partial<ContractApproval>;
 
@@ -15,12 +17,19 @@ interface ContractApprovalContextType {
   getContractByIdAsync: (id: string) => Promise<ContractApproval | undefined>;
   createContract: (payload: ContractUpdatePayload) => Promise<ContractApproval>;
   updateContract: (id: string, payload: ContractUpdatePayload) => Promise<ContractApproval>;
-  updateStatus: (id: string, status: ContractApprovalStatus, comment?: string) => Promise<ContractApproval>;
+  // GM decisions need the approver's password (`options.password`); the server signs them.
+  updateStatus: (
+    id: string,
+    status: ContractApprovalStatus,
+    comment?: string,
+    options?: StatusChangeOptions
+  ) => Promise<ContractApproval>;
 }
 
 const ContractApprovalContext = createContext<ContractApprovalContextType | undefined>(undefined);
 
 const API_BASE = '/api/contracts';
+const CONTRACT_ROLES = new Set<string>(['sales', 'admin', 'finance', 'cashier']);
 
 const reviveAttachment = (a: any): Attachment => ({
   ...a,
@@ -31,9 +40,14 @@ const reviveContract = (raw: any): ContractApproval => ({
   id: String(raw?.id ?? '').trim(),
   status: String(raw?.status ?? 'draft') as ContractApprovalStatus,
   clientName: String(raw?.clientName ?? ''),
+  customerId: raw?.customerId ? String(raw.customerId) : null,
   craNumber: String(raw?.craNumber ?? ''),
   craRequestId: raw?.craRequestId ? String(raw.craRequestId) : null,
   contractAmount: typeof raw?.contractAmount === 'number' ? raw.contractAmount : null,
+  contractAmountReporting: typeof raw?.contractAmountReporting === 'number' ? raw.contractAmountReporting : null,
+  reportingCurrency: raw?.reportingCurrency === 'USD' || raw?.reportingCurrency === 'EUR' || raw?.reportingCurrency === 'RMB'
+    ? raw.reportingCurrency
+    : undefined,
   paymentTerms: String(raw?.paymentTerms ?? ''),
   validity: String(raw?.validity ?? ''),
   approvedFinalUnitPrice: typeof raw?.approvedFinalUnitPrice === 'number' ? raw.approvedFinalUnitPrice : null,
@@ -70,6 +84,7 @@ const reviveContract = (raw: any): ContractApproval => ({
   completedAt: raw?.completedAt ? new Date(raw.completedAt) : null,
   createdAt: raw?.createdAt ? new Date(raw.createdAt) : new Date(),
   updatedAt: raw?.updatedAt ? new Date(raw.updatedAt) : new Date(),
+  version: typeof raw?.version === 'number' ? raw.version : undefined,
   nextActionRole: raw?.nextActionRole ? String(raw.nextActionRole) : undefined,
   nextActionLabel: raw?.nextActionLabel ? String(raw.nextActionLabel) : undefined,
 });
@@ -78,18 +93,27 @@ const fetchJson = async <T,>(input: RequestInfo, init?: RequestInit): Promise<T>
   const res = await fetch(input, init);
   if (!res.ok) {
     let detail = '';
+    let conflict: Record<string, unknown> | null = null;
     try {
       const contentType = String(res.headers.get('content-type') ?? '');
       if (contentType.includes('application/json')) {
         const payload = await res.json();
         detail = String(payload?.error ?? payload?.message ?? '').trim();
+        if (res.status === 409 && isVersionConflictPayload(payload)) conflict = payload;
       } else {
         detail = String(await res.text()).trim();
       }
     } catch {
       detail = '';
     }
-    throw new Error(`Request failed with status ${res.status}${detail ? `: ${detail}` : ''}`);
+    const message = `Request failed with status ${res.status}${detail ? `: ${detail}` : ''}`;
+    if (conflict) {
+      throw createConcurrencyConflictError(message, {
+        serverCopy: conflict.current,
+        serverVersion: typeof conflict.currentVersion === 'number' ? conflict.currentVersion : null,
+      });
+    }
+    throw new Error(message);
   }
   return res.json() as Promise<T>;
 };
@@ -105,6 +129,11 @@ export const ContractApprovalProvider: React.FC<{ children: React.ReactNode }> =
   const [lastSyncAt, setLastSyncAt] = useState<Date | null>(null);
   const [syncState, setSyncState] = useState<'idle' | 'refreshing' | 'error'>('idle');
   const [syncError, setSyncError] = useState<string | null>(null);
+  const contractsRef = useRef<StoredContract[]>([]);
+
+  useEffect(() => {
+    contractsRef.current = contracts;
+  }, [contracts]);
 
   const refreshContracts = useCallback(async () => {
     if (!user) {
@@ -113,7 +142,7 @@ export const ContractApprovalProvider: React.FC<{ children: React.ReactNode }> =
       setSyncError(null);
       return;
     }
-    if (user.role !== 'sales' && user.role !== 'admin' && user.role !== 'finance' && user.role !== 'cashier') {
+    if (!user.roles.some((role) => CONTRACT_ROLES.has(role))) {
       setContracts([]);
       setSyncState('idle');
       setSyncError(null);
@@ -135,8 +164,11 @@ export const ContractApprovalProvider: React.FC<{ children: React.ReactNode }> =
               ...existing,
               status: row.status,
               clientName: row.clientName,
+              customerId: row.customerId,
               craNumber: row.craNumber,
               contractAmount: row.contractAmount,
+              contractAmountReporting: row.contractAmountReporting,
+              reportingCurrency: row.reportingCurrency,
               salesOwnerName: row.salesOwnerName,
               nextActionRole: row.nextActionRole,
               nextActionLabel: row.nextActionLabel,
@@ -160,6 +192,35 @@ export const ContractApprovalProvider: React.FC<{ children: React.ReactNode }> =
     }
   }, [user]);
 
+  // Same as requests: push updates while the realtime stream is up, 30s polling as the fallback.
+  const realtimeConnectedRef = useRef(false);
+
+  useEffect(() => {
+    if (!user || !user.roles.some((role) => CONTRACT_ROLES.has(role))) return;
+    let debounceId: number | undefined;
+    const scheduleRefresh = () => {
+      if (debounceId) window.clearTimeout(debounceId);
+      debounceId = window.setTimeout(() => {
+        debounceId = undefined;
+        void refreshContracts();
+      }, 300);
+    };
+
+    const unsubscribeEvents = subscribeRealtime('contract.changed', scheduleRefresh);
+    const unsubscribeConnection = subscribeRealtimeConnection((connected) => {
+      const reconnected = connected && !realtimeConnectedRef.current;
+      realtimeConnectedRef.current = connected;
+      if (reconnected) scheduleRefresh();
+    });
+
+    return () => {
+      if (debounceId) window.clearTimeout(debounceId);
+      unsubscribeEvents();
+      unsubscribeConnection();
+      realtimeConnectedRef.current = false;
+    };
+  }, [user, refreshContracts]);
+
   useEffect(() => {
     let intervalId: number | undefined;
 
@@ -167,7 +228,7 @@ export const ContractApprovalProvider: React.FC<{ children: React.ReactNode }> =
       if (intervalId) return;
       void refreshContracts();
       intervalId = window.setInterval(() => {
-        if (document.visibilityState === 'visible') {
+        if (document.visibilityState === 'visible' && !realtimeConnectedRef.current) {
           void refreshContracts();
         }
       }, 30_000);
@@ -231,11 +292,26 @@ export const ContractApprovalProvider: React.FC<{ children: React.ReactNode }> =
   }, []);
 
   const updateContract = useCallback(async (id: string, payload: ContractUpdatePayload) => {
-    const updated = await fetchJson<any>(`${API_BASE}/${encodeURIComponent(id)}`, {
-      method: 'PUT',
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
+    const stored = contractsRef.current.find((row) => row.id === id);
+    const baseCopy = stored && isFullContract(stored) ? stored : null;
+    let updated: unknown;
+    try {
+      updated = await fetchJson<any>(`${API_BASE}/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ ...payload, expectedVersion: baseCopy?.version }),
+      });
+    } catch (error) {
+      if (!isConcurrencyConflictError(error)) throw error;
+      // Keep the server copy so the form reloads it and the next save uses the latest version.
+      const serverCopy = markFull(reviveContract(error.serverCopy));
+      setContracts((prev) => prev.map((row) => (row.id === id ? serverCopy : row)));
+      throw createConcurrencyConflictError<ContractApproval>(error.message, {
+        serverCopy,
+        serverVersion: error.serverVersion ?? serverCopy.version ?? null,
+        baseCopy,
+      });
+    }
     const normalized = markFull(reviveContract(updated));
     setContracts((prev) => prev.map((row) => (row.id === id ? normalized : row)));
     setLastSyncAt(new Date());
@@ -244,11 +320,11 @@ export const ContractApprovalProvider: React.FC<{ children: React.ReactNode }> =
     return normalized;
   }, []);
 
-  const updateStatus = useCallback(async (id: string, status: ContractApprovalStatus, comment?: string) => {
+  const updateStatus = useCallback(async (id: string, status: ContractApprovalStatus, comment?: string, options?: StatusChangeOptions) => {
     const updated = await fetchJson<any>(`${API_BASE}/${encodeURIComponent(id)}/status`, {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ status, comment }),
+      body: JSON.stringify({ status, comment, password: options?.password }),
     });
     const normalized = markFull(reviveContract(updated));
     setContracts((prev) => prev.map((row) => (row.id === id ? normalized : row)));
@@ -0,0 +1,96 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { DashboardView } from '@/types';
+import { DashboardViewInput, DashboardViewsContext } from '@/hooks/use-dashboard-views';
+import { useAuth } from './AuthContext';
+
+const API_BASE = '/api/dashboard-views';
+const DASHBOARD_ROLES = new Set<string>(['sales', 'design', 'costing', 'admin']);
+
+type DashboardViewRow = Omit<DashboardView, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string };
+
+const reviveView = (row: DashboardViewRow): DashboardView => ({
+  ...row,
+  createdAt: row.createdAt ? new Date(row.createdAt) : new Date(),
+  updatedAt: row.updatedAt ? new Date(row.updatedAt) : new Date(),
+});
+
+const fetchJson = async <T,>(input: RequestInfo, init?: RequestInit): Promise<T> => {
+  const res = await fetch(input, init);
+  if (!res.ok) {
+    let detail = '';
+    try {
+      const payload = await res.json();
+      detail = String(payload?.error ?? '').trim();
+    } catch {
+      detail = '';
+    }
+    throw new Error(detail || `Request failed with status ${res.status}`);
+  }
+  if (res.status === 204) return undefined as T;
+  return res.json() as Promise<T>;
+};
+
+const sortViews = (views: DashboardView[]) =>
+  [...views].sort((a, b) => {
+    if (a.scope !== b.scope) return a.scope === 'personal' ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+
+export const DashboardViewsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [views, setViews] = useState<DashboardView[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshViews = useCallback(async () => {
+    if (!user || !user.roles.some((role) => DASHBOARD_ROLES.has(role))) {
+      setViews([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const rows = await fetchJson<DashboardViewRow[]>(API_BASE, { cache: 'no-store' });
+      setViews(sortViews((Array.isArray(rows) ? rows : []).map(reviveView)));
+    } catch (e) {
+      console.error('Failed to load dashboard views:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    void refreshViews();
+  }, [refreshViews]);
+
+  const createView = useCallback(async (input: DashboardViewInput) => {
+    const row = await fetchJson<DashboardViewRow>(API_BASE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    const view = reviveView(row);
+    setViews((prev) => sortViews([...prev, view]));
+    return view;
+  }, []);
+
+  const updateView = useCallback(async (id: string, patch: Partial<DashboardViewInput>) => {
+    const row = await fetchJson<DashboardViewRow>(`${API_BASE}/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(patch),
+    });
+    const view = reviveView(row);
+    setViews((prev) => sortViews(prev.map((item) => (item.id === id ? view : item))));
+    return view;
+  }, []);
+
+  const deleteView = useCallback(async (id: string) => {
+    await fetchJson<void>(`${API_BASE}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    setViews((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  return (
+    <DashboardViewsContext.Provider value={{ views, isLoading, refreshViews, createView, updateView, deleteView }}>
+      {children}
+    </DashboardViewsContext.Provider>
+  );
+};
@@ -1,6 +1,16 @@
-import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import { ClientOfferConfig, ClientOfferLine, CustomerRequest, RequestProduct, RequestStatus, SalesPaymentTerm } from '@/types';
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
+import {
+  ClientOfferConfig,
+  ClientOfferLine,
+  CustomerRequest,
+  RequestProduct,
+  RequestStatus,
+  SalesPaymentTerm,
+  StatusChangeOptions,
+} from '@/types';
 import { useAuth } from './AuthContext';
+import { createConcurrencyConflictError, isConcurrencyConflictError, isVersionConflictPayload } from '@/lib/concurrency';
+import { subscribeRealtime, subscribeRealtimeConnection } from '@/lib/realtime';
 
 type RequestUpdatePayload = Partial<CustomerRequest> & {
   historyEvent?: 'edited';
@@ -22,8 +32,11 @@ interface RequestContextType {
   getRequestById: (id: string) => CustomerRequest | undefined;
   getRequestByIdAsync: (id: string) => Promise<CustomerRequest | undefined>;
   createRequest: (request: Omit<CustomerRequest, 'id' | 'createdAt' | 'updatedAt' | 'history' | 'createdBy' | 'createdByName'>) => Promise<CustomerRequest>;
-  updateRequest: (id: string, updates: RequestUpdatePayload) => Promise<void>;
-  updateStatus: (id: string, status: RequestStatus, comment?: string) => Promise<void>;
+  // `baseCopy` is the copy the edit started from. Its version is sent, so a save over someone else's newer changes
+  // fails with a conflict instead of overwriting them. Resolves to the saved copy (the next edit's base).
+  updateRequest: (id: string, updates: RequestUpdatePayload, baseCopy: CustomerRequest | undefined) => Promise<CustomerRequest>;
+  // GM decisions need the approver's password (`options.password`); the server signs them.
+  updateStatus: (id: string, status: RequestStatus, comment?: string, options?: StatusChangeOptions) => Promise<CustomerRequest>;
   notifyRequest: (id: string, payload?: RequestNotifyPayload) => Promise<{ enqueued: boolean; reason?: string }>;
   deleteRequest: (id: string) => Promise<void>;
 }
@@ -219,6 +232,7 @@ const reviveRequest = (r: any): CustomerRequest => {
     products: normalizedProducts,
     createdAt: r?.createdAt ? new Date(r.createdAt) : new Date(),
     updatedAt: r?.updatedAt ? new Date(r.updatedAt) : new Date(),
+    version: typeof r?.version === 'number' ? r.version : undefined,
     expectedDesignReplyDate: r?.expectedDesignReplyDate ? new Date(r.expectedDesignReplyDate) : undefined,
     expectedDeliverySelections: Array.isArray(r?.expectedDeliverySelections) ? r.expectedDeliverySelections : [],
     clientExpectedDeliveryDate: r?.clientExpectedDeliveryDate ?? '',
@@ -269,17 +283,26 @@ const fetchJson = async <T,>(input: RequestInfo, init?: RequestInit): Promise<T>
   const res = await fetch(input, init);
   if (!res.ok) {
     let detail = "";
+    let conflict: Record<string, unknown> | null = null;
     try {
       const ct = String(res.headers.get("content-type") || "");
       if (ct.includes("application/json")) {
         const data: any = await res.json();
         detail = String(data?.error || data?.message || "").trim();
+        if (res.status === 409 && isVersionConflictPayload(data)) conflict = data;
       } else {
         detail = String(await res.text()).trim();
       }
     } catch {}
 
-    throw new Error(`Request failed with status ${res.status}${detail ? `: ${detail}` : ""}`);
+    const message = `Request failed with status ${res.status}${detail ? `: ${detail}` : ""}`;
+    if (conflict) {
+      throw createConcurrencyConflictError(message, {
+        serverCopy: conflict.current,
+        serverVersion: typeof conflict.currentVersion === 'number' ? conflict.currentVersion : null,
+      });
+    }
+    throw new Error(message);
   }
   return res.json() as Promise<T>;
 };
@@ -291,6 +314,12 @@ export const RequestProvider: React.FC<{ children: React.ReactNode }> = ({ child
   const [lastSyncAt, setLastSyncAt] = useState<Date | null>(null);
   const [syncState, setSyncState] = useState<'idle' | 'refreshing' | 'error'>('idle');
   const [syncError, setSyncError] = useState<string | null>(null);
+  // Save callbacks read the latest stored copy (and its version) without re-creating on every refresh.
+  const requestsRef = useRef<StoredRequest[]>([]);
+
+  useEffect(() => {
+    requestsRef.current = requests;
+  }, [requests]);
 
   const refreshRequests = useCallback(async () => {
     setIsLoading(true);
@@ -338,6 +367,86 @@ export const RequestProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   }, []);
 
+  // Live updates arrive over the realtime stream; the 30s poll only runs while the stream is down.
+  const realtimeConnectedRef = useRef(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let debounceId: number | undefined;
+    const scheduleRefresh = () => {
+      if (debounceId) window.clearTimeout(debounceId);
+      debounceId = window.setTimeout(() => {
+        debounceId = undefined;
+        void refreshRequests();
+      }, 300);
+    };
+
+    // Changed requests are re-fetched one by one; a burst touching many requests falls back to a full refresh.
+    const changedIds = new Set<string>();
+    let changedDebounceId: number | undefined;
+    const applyChangedRequests = async (ids: string[]) => {
+      try {
+        const loaded = await Promise.all(
+          ids.map((id) => fetchJson<CustomerRequest>(`${API_BASE}/${id}`).then((r) => markFullRequest(reviveRequest(r))))
+        );
+        const loadedById = new Map(loaded.map((r) => [r.id, r]));
+        setRequests((prev) => [
+          ...prev.map((r) => loadedById.get(r.id) ?? r),
+          ...loaded.filter((r) => !prev.some((existing) => existing.id === r.id)),
+        ]);
+        setLastSyncAt(new Date());
+      } catch (e) {
+        console.error('Failed to load changed requests:', e);
+        scheduleRefresh();
+      }
+    };
+    const scheduleChanged = (requestId: string) => {
+      changedIds.add(requestId);
+      if (changedDebounceId) window.clearTimeout(changedDebounceId);
+      changedDebounceId = window.setTimeout(() => {
+        changedDebounceId = undefined;
+        const ids = [...changedIds];
+        changedIds.clear();
+        if (ids.length > 20) scheduleRefresh();
+        else void applyChangedRequests(ids);
+      }, 300);
+    };
+
+    const unsubscribeEvents = subscribeRealtime('request.changed', (payload) => {
+      if (payload.action === 'deleted') {
+        setRequests((prev) => prev.filter((r) => r.id !== payload.requestId));
+        setLastSyncAt(new Date());
+        return;
+      }
+      // Our own saves already stored this version.
+      const stored = requestsRef.current.find((r) => r.id === payload.requestId);
+      if (
+        stored &&
+        isFullRequest(stored) &&
+        typeof payload.version === 'number' &&
+        typeof stored.version === 'number' &&
+        stored.version >= payload.version
+      ) {
+        return;
+      }
+      scheduleChanged(payload.requestId);
+    });
+    const unsubscribeConnection = subscribeRealtimeConnection((connected) => {
+      const reconnected = connected && !realtimeConnectedRef.current;
+      realtimeConnectedRef.current = connected;
+      // Catch up on anything missed while the stream was down.
+      if (reconnected) scheduleRefresh();
+    });
+
+    return () => {
+      if (debounceId) window.clearTimeout(debounceId);
+      if (changedDebounceId) window.clearTimeout(changedDebounceId);
+      unsubscribeEvents();
+      unsubscribeConnection();
+      realtimeConnectedRef.current = false;
+    };
+  }, [user, refreshRequests]);
+
   useEffect(() => {
     let intervalId: number | undefined;
 
@@ -345,7 +454,7 @@ export const RequestProvider: React.FC<{ children: React.ReactNode }> = ({ child
       if (intervalId) return;
       refreshRequests();
       intervalId = window.setInterval(() => {
-        if (document.visibilityState === "visible") {
+        if (document.visibilityState === "visible" && !realtimeConnectedRef.current) {
           refreshRequests();
         }
       }, 30_000);
@@ -418,32 +527,48 @@ export const RequestProvider: React.FC<{ children: React.ReactNode }> = ({ child
     return revived;
   }, [user]);
 
-  const updateRequest = useCallback(async (id: string, updates: RequestUpdatePayload) => {
+  const updateRequest = useCallback(async (id: string, updates: RequestUpdatePayload, baseCopy: CustomerRequest | undefined) => {
     const payload = {
       ...updates,
+      expectedVersion: baseCopy?.version,
       editedBy: user?.id || '',
       editedByName: user?.name || '',
     };
-    const updated = await fetchJson<CustomerRequest>(`${API_BASE}/${id}`, {
-      method: 'PUT',
-      headers: { 'content-type': 'application/json' },
-      body: JSON.stringify(payload),
-    });
+    let updated: CustomerRequest;
+    try {
+      updated = await fetchJson<CustomerRequest>(`${API_BASE}/${id}`, {
+        method: 'PUT',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+    } catch (e) {
+      if (!isConcurrencyConflictError(e)) throw e;
+      // Keep the server copy so the next save is based on the latest version.
+      const serverCopy = markFullRequest(reviveRequest(e.serverCopy));
+      setRequests(prev => prev.map(r => (r.id === id ? serverCopy : r)));
+      throw createConcurrencyConflictError<CustomerRequest>(e.message, {
+        serverCopy,
+        serverVersion: e.serverVersion ?? serverCopy.version ?? null,
+        baseCopy,
+      });
+    }
 
     const revived = markFullRequest(reviveRequest(updated));
     setRequests(prev => prev.map(r => (r.id === id ? revived : r)));
     setLastSyncAt(new Date());
     setSyncError(null);
     setSyncState('idle');
+    return revived;
   }, [user]);
 
-  const updateStatus = useCallback(async (id: string, status: RequestStatus, comment?: string) => {
+  const updateStatus = useCallback(async (id: string, status: RequestStatus, comment?: string, options?: StatusChangeOptions) => {
     const updated = await fetchJson<CustomerRequest>(`${API_BASE}/${id}/status`, {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
       body: JSON.stringify({
         status,
         comment,
+        password: options?.password,
         userId: user?.id || '',
         userName: user?.name || '',
       }),
@@ -454,6 +579,7 @@ export const RequestProvider: React.FC<{ children: React.ReactNode }> = ({ child
     setLastSyncAt(new Date());
     setSyncError(null);
     setSyncState('idle');
+    return revived;
   }, [user]);
 
   const notifyRequest = useCallback(async (id: string, payload?: RequestNotifyPayload) => {
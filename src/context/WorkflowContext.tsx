@@ -0,0 +1,114 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CustomerRequest, RequestStatus, TransitionRule, WorkflowDefinition, WorkflowState } from '@/types';
+import { describeTransitionRuleFailure, evaluateTransitionRules } from '@/lib/transitionRules';
+import { WorkflowContext, WorkflowDefinitionInput } from '@/hooks/use-workflow';
+import { useAuth } from './AuthContext';
+import { useLanguage } from './LanguageContext';
+
+const fetchJson = async <T,>(input: RequestInfo, init?: RequestInit): Promise<T> => {
+  const res = await fetch(input, init);
+  if (!res.ok) {
+    let detail = '';
+    try {
+      const payload = await res.json();
+      detail = String(payload?.error ?? '').trim();
+    } catch {
+      detail = '';
+    }
+    throw new Error(detail || `Request failed with status ${res.status}`);
+  }
+  return res.json() as Promise<T>;
+};
+
+export const WorkflowProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, hasPermission } = useAuth();
+  const { t } = useLanguage();
+  const [workflow, setWorkflow] = useState<WorkflowDefinition | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshWorkflow = useCallback(async () => {
+    if (!user) {
+      setWorkflow(null);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setWorkflow(await fetchJson<WorkflowDefinition>('/api/workflow', { cache: 'no-store' }));
+    } catch (e) {
+      console.error('Failed to load workflow:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    void refreshWorkflow();
+  }, [refreshWorkflow]);
+
+  const saveWorkflow = useCallback(async (input: WorkflowDefinitionInput) => {
+    const next = await fetchJson<WorkflowDefinition>('/api/admin/workflow', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    });
+    setWorkflow(next);
+    return next;
+  }, []);
+
+  const getTransition = useCallback(
+    (from: RequestStatus, to: RequestStatus) =>
+      workflow?.transitions.find((transition) => transition.from === from && transition.to === to) ?? null,
+    [workflow]
+  );
+
+  const canTransition = useCallback(
+    (from: RequestStatus, to: RequestStatus) => {
+      const transition = getTransition(from, to);
+      if (!transition || !user) return false;
+      const permission = workflow?.transitionPermissions?.[to];
+      return user.roles.some((role) => transition.roles.includes(role)) || Boolean(permission && hasPermission(permission));
+    },
+    [getTransition, user, workflow, hasPermission]
+  );
+
+  const getNextAction = useCallback(
+    (status: RequestStatus) => {
+      const state: WorkflowState | undefined = workflow?.states.find((item) => item.status === status);
+      return { role: state?.nextActionRole ?? 'none', label: state?.nextActionLabel ?? '' };
+    },
+    [workflow]
+  );
+
+  const validateTransition = useCallback(
+    (to: RequestStatus, request: Partial<CustomerRequest>) => {
+      if (!workflow) return [];
+      const transition = request.status ? getTransition(request.status, to) : null;
+      const requiredRules: TransitionRule[] = (transition?.requiredFields ?? []).map((field) => ({
+        field,
+        check: 'required',
+        message: '',
+      }));
+      return evaluateTransitionRules([...requiredRules, ...(workflow.validationRules?.[to] ?? [])], request).map(
+        (failure) => ({ field: failure.rule.field, message: describeTransitionRuleFailure(t, failure) })
+      );
+    },
+    [workflow, getTransition, t]
+  );
+
+  return (
+    <WorkflowContext.Provider
+      value={{
+        workflow,
+        isLoading,
+        refreshWorkflow,
+        saveWorkflow,
+        getTransition,
+        canTransition,
+        getNextAction,
+        validateTransition,
+      }}
+    >
+      {children}
+    </WorkflowContext.Provider>
+  );
+};
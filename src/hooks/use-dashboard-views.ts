@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import { DashboardView, DashboardViewConfig, DashboardViewShareRole } from '@/types';
+
+// Kept apart from DashboardViewsProvider so that module only exports components (fast refresh).
+
+export interface DashboardViewInput {
+  name: string;
+  config: DashboardViewConfig;
+  sharedRole?: DashboardViewShareRole | null;
+}
+
+export interface DashboardViewsContextType {
+  views: DashboardView[];
+  isLoading: boolean;
+  refreshViews: () => Promise<void>;
+  createView: (input: DashboardViewInput) => Promise<DashboardView>;
+  updateView: (id: string, patch: Partial<DashboardViewInput>) => Promise<DashboardView>;
+  deleteView: (id: string) => Promise<void>;
+}
+
+export const DashboardViewsContext = createContext<DashboardViewsContextType | undefined>(undefined);
+
+export const useDashboardViews = () => {
+  const context = useContext(DashboardViewsContext);
+  if (context === undefined) {
+    throw new Error('useDashboardViews must be used within DashboardViewsProvider');
+  }
+  return context;
+};
@@ -0,0 +1,104 @@
+import * as React from "react";
+import { CustomerRequest, RequestListPage } from "@/types";
+import {
+  REQUEST_LIST_MAX_PAGE_SIZE,
+  REQUEST_LIST_PAGE_SIZE,
+  RequestListQuery,
+  fetchRequestListPage,
+} from "@/lib/requestList";
+
+const isAbortError = (error: unknown) => error instanceof Error && error.name === "AbortError";
+
+// Loads the server-side request list page by page. `refreshKey` changes (e.g. after a realtime
+// update) reload every row already on screen so the scroll position is kept.
+export function useRequestList(query: RequestListQuery, refreshKey?: unknown) {
+  const [items, setItems] = React.useState<CustomerRequest[]>([]);
+  const [total, setTotal] = React.useState(0);
+  const [statusCounts, setStatusCounts] = React.useState<RequestListPage["statusCounts"]>({});
+  const [nextCursor, setNextCursor] = React.useState<string | null>(null);
+  const [isLoading, setIsLoading] = React.useState(true);
+  const [isLoadingMore, setIsLoadingMore] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const loadedCountRef = React.useRef(0);
+  const queryKey = JSON.stringify(query);
+  const lastQueryKeyRef = React.useRef(queryKey);
+  const controllerRef = React.useRef<AbortController | null>(null);
+
+  const load = React.useCallback(
+    async ({ keepLoaded }: { keepLoaded: boolean }) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const limit = keepLoaded
+        ? Math.min(Math.max(loadedCountRef.current, REQUEST_LIST_PAGE_SIZE), REQUEST_LIST_MAX_PAGE_SIZE)
+        : REQUEST_LIST_PAGE_SIZE;
+      if (!keepLoaded) setIsLoading(true);
+      setError(null);
+      try {
+        const page = await fetchRequestListPage(JSON.parse(queryKey) as RequestListQuery, {
+          limit,
+          signal: controller.signal,
+        });
+        loadedCountRef.current = page.items.length;
+        setItems(page.items);
+        setTotal(page.total);
+        setStatusCounts(page.statusCounts);
+        setNextCursor(page.nextCursor);
+      } catch (e) {
+        if (isAbortError(e)) return;
+        console.error("Failed to load request list:", e);
+        setError(String((e as Error)?.message ?? e));
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsLoading(false);
+        }
+      }
+    },
+    [queryKey]
+  );
+
+  React.useEffect(() => {
+    const queryChanged = lastQueryKeyRef.current !== queryKey;
+    lastQueryKeyRef.current = queryKey;
+    void load({ keepLoaded: !queryChanged && loadedCountRef.current > 0 });
+  }, [load, queryKey, refreshKey]);
+
+  React.useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const loadMore = React.useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchRequestListPage(JSON.parse(queryKey) as RequestListQuery, { cursor: nextCursor });
+      setItems((prev) => {
+        const seen = new Set(prev.map((item) => item.id));
+        const merged = [...prev, ...page.items.filter((item) => !seen.has(item.id))];
+        loadedCountRef.current = merged.length;
+        return merged;
+      });
+      setTotal(page.total);
+      setStatusCounts(page.statusCounts);
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      console.error("Failed to load more requests:", e);
+      setError(String((e as Error)?.message ?? e));
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [isLoadingMore, nextCursor, queryKey]);
+
+  const reload = React.useCallback(() => load({ keepLoaded: true }), [load]);
+
+  return {
+    items,
+    total,
+    statusCounts,
+    hasMore: Boolean(nextCursor),
+    isLoading,
+    isLoadingMore,
+    error,
+    loadMore,
+    reload,
+  };
+}
@@ -0,0 +1,36 @@
+import { createContext, useContext } from 'react';
+import {
+  CustomerRequest,
+  RequestStatus,
+  TransitionRuleIssue,
+  WorkflowDefinition,
+  WorkflowNextActionRole,
+  WorkflowTransition,
+} from '@/types';
+
+// Kept apart from WorkflowProvider so that module only exports components (fast refresh).
+
+export type WorkflowDefinitionInput = Pick<WorkflowDefinition, 'states' | 'transitions'>;
+
+export interface WorkflowContextType {
+  workflow: WorkflowDefinition | null;
+  isLoading: boolean;
+  refreshWorkflow: () => Promise<void>;
+  saveWorkflow: (input: WorkflowDefinitionInput) => Promise<WorkflowDefinition>;
+  getTransition: (from: RequestStatus, to: RequestStatus) => WorkflowTransition | null;
+  // True when the workflow allows `from -> to` and one of the signed-in user's roles (or a gating permission) may fire it.
+  canTransition: (from: RequestStatus, to: RequestStatus) => boolean;
+  getNextAction: (status: RequestStatus) => { role: WorkflowNextActionRole; label: string };
+  // Same checks the server runs before moving `request` (usually with unsaved edits merged in) to `to`.
+  validateTransition: (to: RequestStatus, request: Partial<CustomerRequest>) => TransitionRuleIssue[];
+}
+
+export const WorkflowContext = createContext<WorkflowContextType | undefined>(undefined);
+
+export const useWorkflow = () => {
+  const context = useContext(WorkflowContext);
+  if (context === undefined) {
+    throw new Error('useWorkflow must be used within WorkflowProvider');
+  }
+  return context;
+};
@@ -66,6 +66,9 @@ export const translations = {
       openLink: 'Open link',
       upload: 'Upload',
       uploading: 'Uploading...',
+      uploadProgress: 'Uploading... {percent}%',
+      uploadFailed: 'Upload failed. Please try again.',
+      uploadTooLarge: 'File too large (max 100 MB).',
       download: 'Download',
       downloading: 'Downloading...',
       restore: 'Restore',
@@ -106,6 +109,7 @@ export const translations = {
       newRequest: 'New Request',
       contractApprovals: 'Contract Approval',
       priceList: 'Price List',
+      customers: 'Customers',
       downloads: 'Downloads',
       admin: 'Admin',
       settings: 'Settings',
@@ -164,6 +168,32 @@ export const translations = {
       myRequests: 'My Requests',
       allStatuses: 'All Statuses',
       ownership: 'Ownership',
+      allCountries: 'All countries',
+      allPriorities: 'All priorities',
+      allNextActions: 'Any next action',
+      noNextAction: 'No action',
+      nextActionBy: 'Next action',
+      createdFrom: 'Created from',
+      createdTo: 'Created to',
+      listLoadFailed: 'Unable to load requests. Please refresh and try again.',
+      savedViews: 'Saved views',
+      saveView: 'Save view',
+      saveViewTitle: 'Save dashboard view',
+      saveViewDesc: 'Saves the current filters, sort, visible columns and density.',
+      viewName: 'View name',
+      viewNamePlaceholder: 'e.g. My urgent requests',
+      viewVisibility: 'Visible to',
+      viewOnlyMe: 'Only me',
+      viewEveryone: 'Everyone',
+      updateCurrentView: 'Update "{name}"',
+      deleteCurrentView: 'Delete "{name}"',
+      viewSaved: 'View saved',
+      viewUpdated: 'View updated',
+      viewDeleted: 'View deleted',
+      viewSaveFailed: 'Unable to save the view.',
+      noSavedViews: 'No saved views yet',
+      sharedView: 'Shared',
+      columns: 'Columns',
       vsLastMonth: 'vs last month',
       reviewOpenRequest: 'Open request',
       reviewUpdatedLabel: 'Updated',
@@ -211,6 +241,10 @@ export const translations = {
       utilities: 'Utilities',
       searching: 'Searching...',
       noMatchingRequests: 'No matching requests.',
+      searchAnyStatus: 'Any status',
+      searchCreatedFrom: 'Created from',
+      searchCreatedTo: 'to',
+      searchMatchedIn: 'Matched in {field}',
       commandPaletteHint: 'Ctrl+K command palette | / focus search | N new request',
       unread: 'unread',
       markAllRead: 'Mark all read',
@@ -361,6 +395,7 @@ export const translations = {
         craNumber: 'CRA Number',
         salesOwner: 'Sales Owner',
         amount: 'Amount',
+        totalValue: 'Total value',
         status: 'Status',
         submissionDate: 'Submission Date',
         lastUpdated: 'Last Updated',
@@ -404,6 +439,7 @@ export const translations = {
         completed: 'Contract approval completed.',
         prefillApplied: 'CRA prefill applied.',
         prefillApprovedSnapshotApplied: 'CRA prefill applied with GM-approved commercial snapshot.',
+        versionConflict: 'This contract was modified by another user. The latest version has been loaded; please re-apply your changes.',
       },
       validation: {
         invalidCra: 'CRA number is invalid or not GM-approved.',
@@ -594,6 +630,10 @@ export const translations = {
       helpSubmitted: 'Count of requests whose first Submitted event happened in the selected period.',
       helpWip: 'Requests currently in progress (not Draft, not Completed).',
       helpCompleted: 'Requests that reached Completed in the selected period (GM Approved or Closed).',
+      reportingCurrencyLabel: 'Reporting currency',
+      kpiCompletedValue: 'Completed value',
+      helpCompletedValue: 'Final prices of requests completed in the period, converted into the reporting currency (rates frozen at GM approval when available).',
+      unconvertedNote: '{count} request(s) left out: no exchange rate for their currency.',
       helpE2eLeadTime: 'Time from first Submitted to first Completed (GM Approved or Closed), shown as Median and P90.',
       helpThroughput: 'Number of items completed for this section in the selected period.',
       helpCycleTime: 'Time between the start and end of this section for completed items in the selected period. SLA = Service Level Agreement.',
@@ -631,7 +671,7 @@ export const translations = {
     // Price List
     priceList: {
       title: 'Price List',
-      description: 'Pricing references for sales and admin users.',
+      description: 'Reference products and their versioned prices.',
       emptyState: 'Price list data will appear here.',
       selectReference: 'Select Your Reference Product',
       selectReferenceDesc: 'Use the filters to narrow down reference products.',
@@ -639,13 +679,100 @@ export const translations = {
       selectOption: 'Select an option',
       clearFilters: 'Clear filters',
       keywordFilter: 'Keyword filter',
-      keywordPlaceholder: 'Search configuration, brake, or studs/PCD...',
+      keywordPlaceholder: 'Search part number, configuration, brake, or studs/PCD...',
       studsPcdStandards: 'Studs/PCD Standards',
       selected: 'Selected',
       notSet: 'Not set',
       addReference: 'Add Reference Product',
       editReference: 'Edit Reference Product',
       deleteConfirm: 'Delete this reference product?',
+      partNumber: 'Part number',
+      noCurrentPrice: 'No current price',
+      priceHistory: 'Price history',
+      priceHistoryDesc: 'Every price version for this product, newest first. Saving a new version closes the previous one in the same currency.',
+      currency: 'Currency',
+      basePrice: 'Base price',
+      cost: 'Cost',
+      validity: 'Validity',
+      effectiveFrom: 'Effective from',
+      effectiveTo: 'Effective to',
+      openEnded: 'open-ended',
+      quantityBreaks: 'Quantity breaks',
+      quantityBreaksHint: 'Minimum quantity and unit price, e.g. 10:95.5; 50:90',
+      note: 'Note',
+      noPriceHistory: 'No prices recorded yet.',
+      current: 'Current',
+      addPriceVersion: 'Add price version',
+      addPriceVersionDesc: 'Leave "Effective to" empty to keep the price open-ended.',
+      savePrice: 'Save price',
+      priceSaved: 'Price saved',
+      priceDeleted: 'Price deleted',
+      deletePriceConfirm: 'Delete this price version? The previous version is reopened.',
+      loadFailed: 'Failed to load prices',
+      exportXlsx: 'Export XLSX',
+      importXlsx: 'Import XLSX',
+      importDone: 'Price list imported',
+      importSummary: 'Products: {productsCreated} created, {productsUpdated} updated. Prices: {pricesCreated} created, {pricesUpdated} updated.',
+      importFailed: 'Import failed',
+      importIssue: '{sheet} row {row}: {message}',
+    },
+
+    customers: {
+      title: 'Customers',
+      description: 'Customer accounts with their contacts, delivery addresses and commercial defaults.',
+      newCustomer: 'New customer',
+      editCustomer: 'Edit customer',
+      nameRequired: 'Customer name is required.',
+      saved: 'Customer saved.',
+      duplicateSelected: 'A customer with this name already exists and was selected.',
+      searchPlaceholder: 'Search by name, country, city or owner',
+      allCustomers: 'All customers',
+      myCustomers: 'My customers',
+      emptyState: 'No customers found.',
+      notFound: 'Customer not found.',
+      backToList: 'All customers',
+      details: 'Details',
+      name: 'Customer name',
+      location: 'Location',
+      country: 'Country',
+      city: 'City',
+      owner: 'Owner (Sales)',
+      noOwner: 'No owner',
+      defaultIncoterm: 'Default incoterm',
+      defaultCurrency: 'Default currency',
+      defaultPaymentTerms: 'Default payment terms',
+      notes: 'Notes',
+      updatedAt: 'Last updated',
+      contacts: 'Contacts',
+      addContact: 'Add contact',
+      noContacts: 'No contacts yet.',
+      contactName: 'Contact name',
+      jobTitle: 'Job title',
+      email: 'Email',
+      phone: 'Phone',
+      primaryContact: 'Primary contact',
+      addresses: 'Addresses',
+      addAddress: 'Add address',
+      noAddresses: 'No addresses yet.',
+      addressLabel: 'Label (e.g. Warehouse)',
+      address: 'Address',
+      defaultDelivery: 'Default delivery address',
+      requests: 'CRAs',
+      contracts: 'Contracts',
+      noRequests: 'No CRAs for this customer.',
+      noContracts: 'No contracts for this customer.',
+      createdBy: 'Created by',
+      pickerPlaceholder: 'Select a customer',
+      pickerSearch: 'Search customers...',
+      pickerNoResults: 'No matching customer.',
+      pickerCreate: 'Create "{name}"',
+      pickerUnlinked: 'Free-text name, not linked to a customer account.',
+      viewCustomer: 'View customer',
+      merge: 'Merge into...',
+      mergeTitle: 'Merge customer',
+      mergeDesc: 'All CRAs and contracts of {name} move to the selected customer, and {name} is deleted.',
+      mergeConfirm: 'Merge',
+      merged: 'Customers merged.',
     },
 
     // Request Form
@@ -679,6 +806,13 @@ export const translations = {
       clarificationSaveOnlyHint: 'Changes saved. Reply to clarification to send back to Design.',
       clarificationResponseRequired: 'Clarification response is required before resubmitting to Design.',
       failedSave: 'Failed to save changes. Please try again.',
+      conflictTitle: 'Request modified by someone else',
+      conflictDesc: 'Another user saved this request while you were editing. Choose which value to keep for each field changed on both sides.',
+      conflictDescBy: '{name} saved this request while you were editing. Choose which value to keep for each field changed on both sides.',
+      conflictKeepMine: 'Keep my change',
+      conflictUseTheirs: 'Use their change',
+      conflictApplyMerge: 'Apply merge',
+      conflictDiscardMine: 'Discard my changes',
       editNotifyCommentDesign: 'Design updated their submission.',
       editNotifyCommentCosting: 'Costing updated their submission.',
       editNotifyCommentSales: 'Sales updated their submission.',
@@ -704,9 +838,13 @@ export const translations = {
       salesOwnerOnlyAction: 'Only the request owner can submit Sales Follow-up for GM approval.',
       salesProcessOwnOnlyError: 'You can only process your own requests in Sales Follow-up.',
       salesSubmitFailedDetailed: 'Sales Follow-up submit failed: {reason}',
-      designResultBomRequired: 'BOM Folder Link is required before submitting Design Result.',
-      designResultProductFieldsRequired: 'Product Name and Product Part Number are required for item(s): {items}.',
       designResultProductFieldsInlineRequired: 'Item #{item}: Product Name and Product Part Number are required.',
+      transitionRuleRequired: '{field} is required.',
+      transitionRuleNumber: '{field} must be a number.',
+      transitionRulePositive: '{field} must be greater than 0.',
+      transitionRuleOneOf: '{field}: select a valid option.',
+      transitionRuleEachRequired: '{field} #{items}: {fields} required.',
+      transitionRuleSum: '{field} must total {total}%.',
       statusUpdated: 'Status updated',
       chaptersStep: 'General Informations',
       productsStep: 'Products',
@@ -836,6 +974,10 @@ export const translations = {
       picturesDesc: 'Additional drawings or pictures',
       uploadPictures: 'Upload Pictures',
       previewNotAvailable: 'Preview not available for this file type',
+      previewLoading: 'Loading preview...',
+      previewFailed: 'This file could not be previewed.',
+      previewTruncated: 'Only the first rows and columns are shown. Download the file to see everything.',
+      previewSheetsTruncated: 'Only the first sheets are shown.',
       downloadFile: 'Download file',
       noItemsYet: 'No items yet',
       itemAdded: 'Item added',
@@ -918,6 +1060,23 @@ export const translations = {
       enterEmailAddress: 'Enter email address',
       enterPassword: 'Enter password',
       updateUserDesc: 'Update user details and role assignment.',
+      additionalRoles: 'Additional roles',
+      additionalRolesDesc: 'Extra roles add their workflow steps and menus. The primary role still decides the dashboard and request layout.',
+      permissionsTitle: 'Permissions',
+      permissionsDesc: 'Permissions included with the assigned roles are always on. Grant others individually.',
+      permissionFromRole: 'Included with role',
+      permissionNames: {
+        manage_settings: 'Manage settings',
+        view_costing_margin: 'View costing margins',
+        approve_gm: 'Approve as GM',
+        delete_requests: 'Delete requests',
+      },
+      permissionDescriptions: {
+        manage_settings: 'Settings, users, workflow and shared dashboard views.',
+        view_costing_margin: 'See and edit costing and sales margins on requests.',
+        approve_gm: 'Make the GM decision on requests and contract approvals.',
+        delete_requests: 'Permanently delete requests.',
+      },
       sendAccessEmail: 'Send Access Email',
       sendAccessEmailDesc: 'Send a professional onboarding email with login link and temporary password.',
       appPlatformLink: 'App Platform Link',
@@ -948,6 +1107,74 @@ export const translations = {
       auditLogDetails: 'Log details',
       auditLogMetadata: 'Metadata',
       auditLogUserAgent: 'User agent',
+      attachmentAccessTitle: 'Attachment access',
+      attachmentAccessDesc: 'Choose which roles can see each category of request files. Hidden files are left out of the request and cannot be downloaded; every download is recorded in the audit log.',
+      attachmentAccessCategory: 'File category',
+      attachmentAccessNote: 'Admins always see every category. Users cannot add or remove files in a category they cannot see.',
+      attachmentAccessSaved: 'Attachment access saved.',
+      attachmentCategoryRimDrawing: 'Request files (rim drawings, pictures)',
+      attachmentCategoryDesignResult: 'Design result files',
+      attachmentCategoryCosting: 'Costing files',
+      attachmentCategorySales: 'Sales files and issued offers',
+      slaTab: 'SLA',
+      slaTitle: 'SLA policies',
+      slaDesc: 'Target business hours per workflow stage. Overdue and soon-due requests are flagged on the dashboard and escalated by notification.',
+      slaCalendarTitle: 'Business calendar',
+      slaCalendarDesc: 'Only working hours on working days count towards an SLA; holidays are skipped.',
+      slaEnabled: 'Track SLAs',
+      slaEnabledDesc: 'Compute due dates and send escalations for open requests.',
+      slaTimezone: 'Time zone (IANA)',
+      slaWorkdayStart: 'Workday starts',
+      slaWorkdayEnd: 'Workday ends',
+      slaWarningPercent: 'Warn at (% of target)',
+      slaWorkingDays: 'Working days',
+      slaMon: 'Mon',
+      slaTue: 'Tue',
+      slaWed: 'Wed',
+      slaThu: 'Thu',
+      slaFri: 'Fri',
+      slaSat: 'Sat',
+      slaSun: 'Sun',
+      slaPoliciesTitle: 'Targets (business hours)',
+      slaPoliciesDesc: '"Any" applies to priorities without their own target. Leave a cell empty for no SLA.',
+      slaAnyPriority: 'Any',
+      slaInvalidTarget: 'Invalid target for {status}.',
+      slaHolidaysTitle: 'Holidays',
+      slaHolidaysDesc: 'Dates that are not counted as working days.',
+      slaHolidayLabel: 'Label',
+      slaAddHoliday: 'Add holiday',
+      slaNoHolidays: 'No holidays configured.',
+      slaSaved: 'SLA settings saved.',
+      currenciesTab: 'Currencies',
+      currenciesTitle: 'Currencies and exchange rates',
+      currenciesDesc: 'Amounts keep their own currency; totals in performance, exports and contract summaries are converted into the reporting currency. GM approval freezes the rates of that day on the request.',
+      currenciesUpdatedAt: 'Last updated',
+      reportingCurrency: 'Reporting currency',
+      reportingCurrencyDesc: 'Currency used for totals and normalized report columns.',
+      exchangeRatesTitle: 'Exchange rates',
+      exchangeRatesDesc: 'Value of one unit in EUR. A rate applies from its effective date until the next one of the same currency.',
+      addExchangeRate: 'Add rate',
+      exchangeRateValue: 'Rate',
+      noExchangeRates: 'No exchange rates configured. Amounts in USD or RMB cannot be converted until one is added.',
+      exchangeRateInvalid: 'Enter a positive rate and an effective date for {currency}.',
+      exchangeRatesSaved: 'Exchange rates saved.',
+      workflowTab: 'Workflow',
+      workflowTitle: 'Request workflow',
+      workflowDesc: 'Who is notified and who acts at each status, and which status changes each role may make. The server enforces these rules.',
+      workflowStatesTitle: 'States',
+      workflowStatesDesc: 'Next-action owner shown on the dashboard, and the roles notified in-app when a request enters the status.',
+      workflowNextActionLabel: 'Next-action label',
+      workflowLabelPlaceholder: 'Role name',
+      workflowTransitionsTitle: 'Transitions',
+      workflowTransitionsDesc: 'Allowed status changes, the roles that may make them, fields that must be filled first and whether a comment is required.',
+      workflowFrom: 'From',
+      workflowTo: 'To',
+      workflowRequiredFields: 'Required fields',
+      workflowCommentRequired: 'Comment',
+      workflowAddTransition: 'Add transition',
+      workflowNoFields: 'None',
+      workflowFieldsSelected: '{count} field(s)',
+      workflowSaved: 'Workflow saved.',
       dbMonitorTitle: 'Database Monitor',
       dbMonitorDescription: 'Read-only hourly snapshot of PostgreSQL activity (low overhead).',
       dbMonitorAutoRefresh: 'Auto refresh',
@@ -1280,7 +1507,48 @@ export const translations = {
       saveConfig: 'Save Offer Config',
       configSaved: 'Offer configuration saved.',
       configSaveFailed: 'Failed to save offer configuration.',
+      offerTemplate: 'Offer Template',
+      selectTemplate: 'Select a template',
+      noTemplates: 'No offer template is set up yet. Admins manage templates in Settings > Client Offer Profile.',
+      applyTemplate: 'Apply Template',
+      templateSuggested: 'Suggested',
+      templateApplied: 'Template "{name}" applied.',
+      currentTemplate: 'Current template: {name}',
+      templateApplyHint: 'Applying a template replaces the introduction, closing text, sections, columns and clauses. Lines and appendix stay as they are.',
+      templatesLoadFailed: 'Failed to load offer templates.',
+      closingText: 'Closing Text',
+      clausesTitle: 'Terms and Conditions',
+      addClause: 'Add Clause',
+      addClauseFromLibrary: 'Add from library',
+      noClauses: 'No clause in this offer.',
+      clauseTitle: 'Title',
+      clauseBody: 'Text',
+      removeClause: 'Remove clause',
+      lineColumns: 'Line Item Columns',
+      placeholderPreview: 'Text Preview',
+      placeholderPreviewHint: 'Texts as they will be printed, with placeholders filled from this request.',
+      unknownPlaceholders: 'Unknown placeholders: {list}',
       generatePdf: 'Generate Client Offer PDF',
+      issueRevision: 'Issue Revision',
+      issueRevisionHint: 'Issuing saves the configuration, downloads the PDF and keeps both as a new revision that can no longer change.',
+      revisionIssuedToast: 'Revision {label} issued.',
+      revisionsTitle: 'Offer Revisions',
+      noRevisions: 'No revision issued yet.',
+      revisionLabel: 'Rev {label}',
+      revisionIssued: 'Issued {date} by {name}',
+      revisionSentTo: 'Sent to {recipient} on {date}',
+      revisionNotSent: 'Not sent yet',
+      markAsSent: 'Mark as sent',
+      markRevisionSentTitle: 'Rev {label} sent to client',
+      sentRecipient: 'Recipient',
+      sentOn: 'Sent on',
+      sentNote: 'Note',
+      revisionMarkedSent: 'Sent record saved.',
+      compareFrom: 'From',
+      compareTo: 'To',
+      compareRevisions: 'Compare',
+      noRevisionChanges: 'No differences between these revisions.',
+      tax: 'VAT',
       pdfTitle: 'Commercial Offer',
       companyNameLocal: 'Company Name (Local)',
       companyNameEn: 'Company Name (English)',
@@ -1301,6 +1569,108 @@ export const translations = {
       defaultDeliveryTerm: 'Delivery details will be confirmed after order confirmation.',
     },
 
+    // Offer templates
+    offerTemplates: {
+      title: 'Offer Templates',
+      description: 'Reusable offer layouts per market or language. Sales pick one in the Client Offer sheet.',
+      loadFailed: 'Failed to load offer templates.',
+      addTemplate: 'New Template',
+      editTemplate: 'Edit Template',
+      noTemplates: 'No template yet.',
+      name: 'Name',
+      templateDescription: 'Description',
+      market: 'Market',
+      marketPlaceholder: 'e.g. EU, China domestic',
+      countries: 'Countries',
+      countriesHint: 'Requests from these countries get this template suggested first.',
+      language: 'Language',
+      anyLanguage: 'Any language',
+      introText: 'Introduction',
+      introTextHint: 'Leave empty to keep the introduction from the offer profile.',
+      closingText: 'Closing Text',
+      sections: 'Sections',
+      lineColumns: 'Line Item Columns',
+      lineColumnsHint: 'The product name column is always printed.',
+      clauses: 'Clauses',
+      clauseCount: '{count} clauses',
+      addClauseToTemplate: 'Add clause',
+      placeholders: 'Placeholders',
+      placeholdersHint: 'Click a placeholder to add it to the text you edited last. Values come from the request when the PDF is generated.',
+      unknownPlaceholders: 'Unknown placeholders: {list}',
+      preview: 'Preview',
+      previewHint: 'Shown with sample values.',
+      templateSaved: 'Offer template saved.',
+      templateDeleted: 'Offer template deleted.',
+      deleteTemplateConfirm: 'Delete template "{name}"? Offers that used it keep their texts.',
+      clauseLibraryTitle: 'Clause Library',
+      clauseLibraryDescription: 'Clauses that templates can include. Offers keep a copy, so editing a clause only affects offers that apply a template afterwards.',
+      addClause: 'New Clause',
+      editClause: 'Edit Clause',
+      noClauses: 'No clause in the library yet.',
+      clauseTitle: 'Title',
+      clauseBody: 'Text',
+      category: 'Category',
+      categoryGeneral: 'General',
+      categoryCommercial: 'Commercial',
+      categoryDelivery: 'Delivery',
+      categoryWarranty: 'Warranty',
+      categoryLegal: 'Legal',
+      clauseSaved: 'Clause saved.',
+      clauseDeleted: 'Clause deleted.',
+      deleteClauseConfirm: 'Delete clause "{title}"? Templates that include it lose it; existing offers keep their copy.',
+      updatedBy: 'Updated {date} by {name}',
+    },
+
+    approvalSignatures: {
+      confirmApproveTitle: 'Sign approval',
+      confirmRejectTitle: 'Sign rejection',
+      confirmDescription: 'Your decision is recorded with your name, the time and a fingerprint of the current figures, terms and attachments. Enter your password to sign it.',
+      passwordLabel: 'Password',
+      signAction: 'Sign decision',
+      confirmFailed: 'The decision was not recorded. Check your password and try again.',
+      title: 'Signed Decisions',
+      description: 'GM decisions with the fingerprint of what was decided.',
+      loadFailed: 'Failed to load the signed decisions.',
+      noSignatures: 'No signed decision yet.',
+      approved: 'Approved',
+      rejected: 'Rejected',
+      signedBy: 'Signed by {name} on {date}',
+      payloadHash: 'Fingerprint',
+      signatureHash: 'Signature',
+      matches: 'The current values match this approval.',
+      mismatch: 'Changed since this approval:',
+      tampered: 'This signature record does not verify. It was altered after signing.',
+      allIntact: 'Signature records verified.',
+      fields: {
+        clientName: 'Client',
+        craNumber: 'CRA number',
+        contractAmount: 'Contract amount',
+        paymentTerms: 'Payment terms',
+        validity: 'Validity',
+        approvedFinalUnitPrice: 'Final unit price',
+        approvedCurrency: 'Currency',
+        approvedGrossMargin: 'Gross margin',
+        approvedVatMode: 'VAT mode',
+        approvedVatRate: 'VAT rate',
+        approvedIncoterm: 'Incoterm',
+        approvedExpectedDeliveryDate: 'Expected delivery date',
+        approvedWarrantyPeriod: 'Warranty period',
+        draftContractAttachments: 'Contract files',
+        salesCurrency: 'Currency',
+        salesFinalPrice: 'Final price',
+        salesMargin: 'Margin',
+        salesVatMode: 'VAT mode',
+        salesVatRate: 'VAT rate',
+        salesIncoterm: 'Incoterm',
+        salesPaymentTerms: 'Payment terms',
+        salesOfferValidityPeriod: 'Offer validity',
+        salesWarrantyPeriod: 'Warranty period',
+        salesExpectedDeliveryDate: 'Expected delivery date',
+        salesProductPrices: 'Product prices',
+        salesAttachments: 'Sales attachments',
+      },
+    },
+
     // Help
     help: {
       title: 'Help',
@@ -1428,7 +1798,7 @@ export const translations = {
         salesFeedback: 'Client Feedback',
           salesAttachments: 'Sales Attachments',
           salesUploadDocs: 'Upload email, quote, or supporting files',
-          salesUploadError: 'File too large (max 10MB).',
+          salesUploadError: 'File too large (max 100MB).',
           submitForApproval: 'Submit for GM Approval',
           submittedToGm: 'Submitted to GM',
           gmApproval: 'GM Approval',
@@ -1478,7 +1848,49 @@ export const translations = {
       enterVatRate: 'Enter VAT rate (%)',
       costingAttachments: 'Costing Documents',
       uploadCostingDocs: 'Upload PDF, Excel, or supporting files',
-      costingUploadError: 'File too large. Max size is 10 MB.',
+      costingUploadError: 'File too large. Max size is 100 MB.',
+      referenceMatches: 'Reference product matches',
+      referenceMatchesDesc: 'Price List products closest to each product line, priced as of today.',
+      noReferenceMatches: 'No matching reference product in the price list.',
+      matchScore: '{score}% match',
+      matchStatusMatch: 'Matches',
+      matchStatusPartial: 'Partly matches',
+      matchStatusMismatch: 'Does not match',
+      matchStatusUnknown: 'Not set on one side',
+      matchStatusSpecial: 'Special studs/PCD request',
+      basePriceApplied: 'Base price',
+      quantityBreakApplied: 'Quantity break {quantity}+ applied',
+      acceptSuggestion: 'Accept',
+      suggestionAccepted: 'Accepted',
+      similarRequests: 'Similar past requests',
+      similarRequestsDesc: 'Earlier requests with close technical and application data, with their design results and prices.',
+      noSimilarRequests: 'No similar past request found.',
+      similarOn: 'Similar on',
+      finalPrice: 'Final price',
+      productPricesDesc: 'Unit price and margin per product line. The request total and margin are rolled up from them.',
+      requestTotal: 'Request total',
+      weightedMargin: 'Margin weighted by line totals',
+      costingProductPrices: 'Selling price per product',
+      salesProductPrices: 'Final price per product',
+      costBreakdown: 'Cost breakdown',
+      costBreakdownDesc: 'Unit costs per product line for this costing round. Total cost and margin are computed against the selling price.',
+      costingRound: 'Round {round}',
+      costMaterial: 'Material',
+      costMachining: 'Machining',
+      costBrakeComponents: 'Brake components',
+      costSurfaceFinish: 'Surface finish',
+      costPackaging: 'Packaging',
+      costFreight: 'Freight',
+      overheadPercent: 'Overhead (%)',
+      directCost: 'Direct cost',
+      overheadAmount: 'Overhead',
+      totalCost: 'Total cost',
+      visibleToSales: 'Visible to sales',
+      costSheetNote: 'Notes on this cost sheet...',
+      saveCostSheet: 'Save sheet',
+      costSheetSaved: 'Cost sheet saved.',
+      useCostSheet: 'Use price and margin',
+      noCostSheets: 'No cost sheet for this round.',
       clarificationRequested: 'Clarification Requested',
       designTeamNeedsInfo: 'Design team needs more information',
       designComment: 'Design Comment',
@@ -1506,6 +1918,16 @@ export const translations = {
     // Timeline
     timeline: {
       statusHistory: 'Status History',
+      status: 'Status',
+      changes: 'Changes',
+      noChanges: 'No field changes recorded yet.',
+      sections: {
+        all: 'All sections',
+        general: 'General',
+        technical: 'Technical',
+        costing: 'Costing',
+        sales: 'Sales',
+      },
     },
 
     // Branding
@@ -1696,6 +2118,11 @@ export const translations = {
       status: 'Status',
       nextActionBy: 'Next Action By',
       noAction: 'No action',
+      sla: 'SLA',
+      slaOnTrack: 'On track',
+      slaDueSoon: 'Due soon',
+      slaOverdue: 'Overdue',
+      slaDue: 'Due {date}',
       lastUpdate: 'Last Update',
       actions: 'Actions',
       view: 'View',
@@ -1713,6 +2140,8 @@ export const translations = {
       selectPdfLanguageDesc: 'Choose the language for the PDF before downloading.',
       pdfLanguage: 'PDF Language',
       noRequestsFound: 'No requests found',
+      showingCount: 'Showing {shown} of {total}',
+      loadMore: 'Load more',
     },
   },
 
@@ -1781,6 +2210,9 @@ export const translations = {
       openLink: 'Ouvrir le lien',
       upload: 'Téléverser',
       uploading: 'Téléversement...',
+      uploadProgress: 'Téléversement... {percent} %',
+      uploadFailed: 'Échec du téléversement. Veuillez réessayer.',
+      uploadTooLarge: 'Fichier trop volumineux (max 100 Mo).',
       download: 'Télécharger',
       downloading: 'Téléchargement...',
       restore: 'Restaurer',
@@ -1821,6 +2253,7 @@ export const translations = {
       newRequest: 'Nouvelle demande',
       contractApprovals: 'Approbation de contrat',
       priceList: 'Liste de prix',
+      customers: 'Clients',
       downloads: 'Téléchargements',
       admin: 'Admin',
       settings: 'Paramètres',
@@ -1879,6 +2312,32 @@ export const translations = {
       myRequests: 'Mes demandes',
       allStatuses: 'Tous les statuts',
       ownership: 'Responsabilité',
+      allCountries: 'Tous les pays',
+      allPriorities: 'Toutes les priorités',
+      allNextActions: 'Toute action suivante',
+      noNextAction: 'Aucune action',
+      nextActionBy: 'Action suivante',
+      createdFrom: 'Créée du',
+      createdTo: 'Créée au',
+      listLoadFailed: 'Impossible de charger les demandes. Veuillez actualiser et réessayer.',
+      savedViews: 'Vues enregistrées',
+      saveView: 'Enregistrer la vue',
+      saveViewTitle: 'Enregistrer la vue du tableau de bord',
+      saveViewDesc: 'Enregistre les filtres, le tri, les colonnes visibles et la densité actuels.',
+      viewName: 'Nom de la vue',
+      viewNamePlaceholder: 'ex. Mes demandes urgentes',
+      viewVisibility: 'Visible par',
+      viewOnlyMe: 'Moi uniquement',
+      viewEveryone: 'Tout le monde',
+      updateCurrentView: 'Mettre à jour « {name} »',
+      deleteCurrentView: 'Supprimer « {name} »',
+      viewSaved: 'Vue enregistrée',
+      viewUpdated: 'Vue mise à jour',
+      viewDeleted: 'Vue supprimée',
+      viewSaveFailed: "Impossible d'enregistrer la vue.",
+      noSavedViews: 'Aucune vue enregistrée',
+      sharedView: 'Partagée',
+      columns: 'Colonnes',
       vsLastMonth: 'vs mois dernier',
       reviewOpenRequest: 'Ouvrir la demande',
       reviewUpdatedLabel: 'Mis à jour',
@@ -1926,6 +2385,10 @@ export const translations = {
       utilities: 'Outils',
       searching: 'Recherche...',
       noMatchingRequests: 'Aucune demande correspondante.',
+      searchAnyStatus: 'Tous les statuts',
+      searchCreatedFrom: 'Créée du',
+      searchCreatedTo: 'au',
+      searchMatchedIn: 'Trouvé dans {field}',
       commandPaletteHint: 'Ctrl+K palette de commandes | / focus recherche | N nouvelle demande',
       unread: 'non lues',
       markAllRead: 'Tout marquer comme lu',
@@ -2076,6 +2539,7 @@ export const translations = {
         craNumber: 'Numéro CRA',
         salesOwner: 'Commercial',
         amount: 'Montant',
+        totalValue: 'Valeur totale',
         status: 'Statut',
         submissionDate: 'Date de soumission',
         lastUpdated: 'Dernière mise à jour',
@@ -2119,6 +2583,7 @@ export const translations = {
         completed: 'Approbation de contrat terminée.',
         prefillApplied: 'Préremplissage CRA appliqué.',
         prefillApprovedSnapshotApplied: 'Préremplissage CRA appliqué avec instantané commercial approuvé par la DG.',
+        versionConflict: 'Ce contrat a été modifié par un autre utilisateur. La dernière version a été chargée ; veuillez réappliquer vos modifications.',
       },
       validation: {
         invalidCra: "Le numéro CRA est invalide ou non approuvé par le DG.",
@@ -2309,6 +2774,10 @@ export const translations = {
       helpSubmitted: "Nombre de demandes dont le premier statut 'Soumis' est dans la période sélectionnée.",
       helpWip: 'Demandes actuellement en cours (pas en Brouillon, pas Terminées).',
       helpCompleted: "Demandes ayant atteint 'Terminé' dans la période (Approuvé GM ou Clôturé).",
+      reportingCurrencyLabel: 'Devise de reporting',
+      kpiCompletedValue: 'Valeur terminée',
+      helpCompletedValue: "Prix finaux des demandes terminées dans la période, convertis dans la devise de reporting (taux figés à l'approbation DG si disponibles).",
+      unconvertedNote: '{count} demande(s) exclue(s) : aucun taux de change pour leur devise.',
       helpE2eLeadTime: "Durée entre le premier 'Soumis' et le premier 'Terminé' (Approuvé GM ou Clôturé), affichée en médiane et P90.",
       helpThroughput: 'Nombre d’éléments terminés pour cette section sur la période sélectionnée.',
       helpCycleTime: "Durée entre le début et la fin de cette section pour les éléments terminés sur la période. SLA = accord de niveau de service.",
@@ -2346,7 +2815,7 @@ export const translations = {
     // Price List
     priceList: {
       title: 'Liste de prix',
-      description: 'Références tarifaires pour les ventes et les admins.',
+      description: 'Produits de référence et leurs prix versionnés.',
       emptyState: 'Les données de la liste de prix apparaîtront ici.',
       selectReference: 'Sélectionnez votre produit de référence',
       selectReferenceDesc: 'Utilisez les filtres pour réduire les références.',
@@ -2354,13 +2823,100 @@ export const translations = {
       selectOption: 'Sélectionner une option',
       clearFilters: 'Effacer les filtres',
       keywordFilter: 'Filtre par mot-clé',
-      keywordPlaceholder: 'Rechercher configuration, frein ou goujons/PCD...',
+      keywordPlaceholder: 'Rechercher référence article, configuration, frein ou goujons/PCD...',
       studsPcdStandards: 'Normes goujons/PCD',
       selected: 'Sélectionné',
       notSet: 'Non défini',
       addReference: 'Ajouter un produit de référence',
       editReference: 'Modifier le produit de référence',
       deleteConfirm: 'Supprimer ce produit de référence ?',
+      partNumber: 'Référence article',
+      noCurrentPrice: 'Aucun prix en vigueur',
+      priceHistory: 'Historique des prix',
+      priceHistoryDesc: 'Toutes les versions de prix de ce produit, de la plus récente à la plus ancienne. Une nouvelle version clôt la précédente dans la même devise.',
+      currency: 'Devise',
+      basePrice: 'Prix de base',
+      cost: 'Coût',
+      validity: 'Validité',
+      effectiveFrom: 'En vigueur du',
+      effectiveTo: 'En vigueur jusqu’au',
+      openEnded: 'sans fin',
+      quantityBreaks: 'Paliers de quantité',
+      quantityBreaksHint: 'Quantité minimale et prix unitaire, ex. 10:95.5; 50:90',
+      note: 'Note',
+      noPriceHistory: 'Aucun prix enregistré pour l’instant.',
+      current: 'En vigueur',
+      addPriceVersion: 'Ajouter une version de prix',
+      addPriceVersionDesc: 'Laissez « En vigueur jusqu’au » vide pour un prix sans date de fin.',
+      savePrice: 'Enregistrer le prix',
+      priceSaved: 'Prix enregistré',
+      priceDeleted: 'Prix supprimé',
+      deletePriceConfirm: 'Supprimer cette version de prix ? La version précédente est rouverte.',
+      loadFailed: 'Impossible de charger les prix',
+      exportXlsx: 'Exporter XLSX',
+      importXlsx: 'Importer XLSX',
+      importDone: 'Liste de prix importée',
+      importSummary: 'Produits : {productsCreated} créés, {productsUpdated} mis à jour. Prix : {pricesCreated} créés, {pricesUpdated} mis à jour.',
+      importFailed: 'Échec de l’import',
+      importIssue: '{sheet} ligne {row} : {message}',
+    },
+
+    customers: {
+      title: 'Clients',
+      description: 'Comptes clients avec leurs contacts, adresses de livraison et conditions commerciales par défaut.',
+      newCustomer: 'Nouveau client',
+      editCustomer: 'Modifier le client',
+      nameRequired: 'Le nom du client est obligatoire.',
+      saved: 'Client enregistré.',
+      duplicateSelected: 'Un client portant ce nom existe déjà et a été sélectionné.',
+      searchPlaceholder: 'Rechercher par nom, pays, ville ou responsable',
+      allCustomers: 'Tous les clients',
+      myCustomers: 'Mes clients',
+      emptyState: 'Aucun client trouvé.',
+      notFound: 'Client introuvable.',
+      backToList: 'Tous les clients',
+      details: 'Détails',
+      name: 'Nom du client',
+      location: 'Localisation',
+      country: 'Pays',
+      city: 'Ville',
+      owner: 'Responsable (Ventes)',
+      noOwner: 'Aucun responsable',
+      defaultIncoterm: 'Incoterm par défaut',
+      defaultCurrency: 'Devise par défaut',
+      defaultPaymentTerms: 'Conditions de paiement par défaut',
+      notes: 'Notes',
+      updatedAt: 'Dernière mise à jour',
+      contacts: 'Contacts',
+      addContact: 'Ajouter un contact',
+      noContacts: 'Aucun contact.',
+      contactName: 'Nom du contact',
+      jobTitle: 'Fonction',
+      email: 'E-mail',
+      phone: 'Téléphone',
+      primaryContact: 'Contact principal',
+      addresses: 'Adresses',
+      addAddress: 'Ajouter une adresse',
+      noAddresses: 'Aucune adresse.',
+      addressLabel: 'Libellé (ex. Entrepôt)',
+      address: 'Adresse',
+      defaultDelivery: 'Adresse de livraison par défaut',
+      requests: 'CRA',
+      contracts: 'Contrats',
+      noRequests: 'Aucune CRA pour ce client.',
+      noContracts: 'Aucun contrat pour ce client.',
+      createdBy: 'Créé par',
+      pickerPlaceholder: 'Sélectionner un client',
+      pickerSearch: 'Rechercher un client...',
+      pickerNoResults: 'Aucun client correspondant.',
+      pickerCreate: 'Créer « {name} »',
+      pickerUnlinked: 'Nom saisi librement, non lié à un compte client.',
+      viewCustomer: 'Voir le client',
+      merge: 'Fusionner dans...',
+      mergeTitle: 'Fusionner le client',
+      mergeDesc: 'Toutes les CRA et tous les contrats de {name} sont rattachés au client sélectionné, puis {name} est supprimé.',
+      mergeConfirm: 'Fusionner',
+      merged: 'Clients fusionnés.',
     },
 
     // Request Form
@@ -2394,6 +2950,13 @@ export const translations = {
       clarificationSaveOnlyHint: 'Modifications enregistrées. Répondez à la clarification pour renvoyer à la conception.',
       clarificationResponseRequired: 'Une réponse de clarification est requise avant de renvoyer à la conception.',
       failedSave: 'Échec de l’enregistrement. Veuillez réessayer.',
+      conflictTitle: 'Demande modifiée par un autre utilisateur',
+      conflictDesc: 'Un autre utilisateur a enregistré cette demande pendant votre modification. Choisissez la valeur à conserver pour chaque champ modifié des deux côtés.',
+      conflictDescBy: '{name} a enregistré cette demande pendant votre modification. Choisissez la valeur à conserver pour chaque champ modifié des deux côtés.',
+      conflictKeepMine: 'Conserver ma modification',
+      conflictUseTheirs: 'Utiliser sa modification',
+      conflictApplyMerge: 'Appliquer la fusion',
+      conflictDiscardMine: 'Abandonner mes modifications',
       editNotifyCommentDesign: 'Le bureau d’études a mis à jour sa soumission.',
       editNotifyCommentCosting: 'Le chiffrage a mis à jour sa soumission.',
       editNotifyCommentSales: 'Les ventes ont mis à jour leur soumission.',
@@ -2419,9 +2982,13 @@ export const translations = {
       salesOwnerOnlyAction: 'Seul le proprietaire de la demande peut soumettre le suivi commercial pour approbation DG.',
       salesProcessOwnOnlyError: 'Vous ne pouvez traiter que vos propres demandes dans le suivi commercial.',
       salesSubmitFailedDetailed: 'Echec de soumission du suivi commercial : {reason}',
-      designResultBomRequired: 'Le lien du dossier BOM est requis avant de soumettre le résultat de conception.',
-      designResultProductFieldsRequired: 'Le nom du produit et le numero de piece produit sont requis pour les lignes : {items}.',
       designResultProductFieldsInlineRequired: 'Ligne #{item} : le nom du produit et le numero de piece produit sont requis.',
+      transitionRuleRequired: '{field} est requis.',
+      transitionRuleNumber: '{field} doit être un nombre.',
+      transitionRulePositive: '{field} doit être supérieur à 0.',
+      transitionRuleOneOf: '{field} : sélectionnez une option valide.',
+      transitionRuleEachRequired: '{field} #{items} : {fields} requis.',
+      transitionRuleSum: '{field} doit totaliser {total} %.',
       statusUpdated: 'Statut mis à jour',
       chaptersStep: 'Informations générales',
       productsStep: 'Produits',
@@ -2551,6 +3118,10 @@ export const translations = {
       picturesDesc: 'Dessins ou photos supplémentaires',
       uploadPictures: 'Téléverser des images',
       previewNotAvailable: 'Aperçu non disponible pour ce type de fichier',
+      previewLoading: 'Chargement de l’aperçu...',
+      previewFailed: 'Impossible d’afficher l’aperçu de ce fichier.',
+      previewTruncated: 'Seules les premières lignes et colonnes sont affichées. Téléchargez le fichier pour tout voir.',
+      previewSheetsTruncated: 'Seules les premières feuilles sont affichées.',
       downloadFile: 'Télécharger le fichier',
       noItemsYet: 'Aucun élément pour l’instant',
       itemAdded: 'Élément ajouté',
@@ -2633,6 +3204,23 @@ export const translations = {
       enterEmailAddress: 'Saisir l’adresse e-mail',
       enterPassword: 'Saisir le mot de passe',
       updateUserDesc: 'Mettre à jour les informations et le rôle utilisateur.',
+      additionalRoles: 'Rôles supplémentaires',
+      additionalRolesDesc: 'Les rôles supplémentaires ajoutent leurs étapes de workflow et menus. Le rôle principal détermine toujours le tableau de bord et la mise en page des demandes.',
+      permissionsTitle: 'Permissions',
+      permissionsDesc: 'Les permissions incluses dans les rôles attribués sont toujours actives. Accordez les autres individuellement.',
+      permissionFromRole: 'Incluse dans le rôle',
+      permissionNames: {
+        manage_settings: 'Gérer les paramètres',
+        view_costing_margin: 'Voir les marges de chiffrage',
+        approve_gm: 'Approuver en tant que DG',
+        delete_requests: 'Supprimer des demandes',
+      },
+      permissionDescriptions: {
+        manage_settings: 'Paramètres, utilisateurs, workflow et vues de tableau de bord partagées.',
+        view_costing_margin: 'Voir et modifier les marges de chiffrage et de vente des demandes.',
+        approve_gm: 'Prendre la décision DG sur les demandes et les approbations de contrat.',
+        delete_requests: 'Supprimer définitivement des demandes.',
+      },
       sendAccessEmail: 'Envoyer l’e-mail d’accès',
       sendAccessEmailDesc: 'Envoyer un e-mail professionnel avec le lien de connexion et le mot de passe temporaire.',
       appPlatformLink: 'Lien de la plateforme',
@@ -2663,6 +3251,74 @@ export const translations = {
       auditLogDetails: "Détails du log",
       auditLogMetadata: 'Métadonnées',
       auditLogUserAgent: 'Agent utilisateur',
+      attachmentAccessTitle: 'Accès aux pièces jointes',
+      attachmentAccessDesc: 'Choisissez quels rôles voient chaque catégorie de fichiers des demandes. Les fichiers masqués sont retirés de la demande et ne peuvent pas être téléchargés ; chaque téléchargement est enregistré dans le journal d\'audit.',
+      attachmentAccessCategory: 'Catégorie de fichiers',
+      attachmentAccessNote: 'Les administrateurs voient toujours toutes les catégories. Un utilisateur ne peut ni ajouter ni supprimer de fichiers dans une catégorie qu\'il ne voit pas.',
+      attachmentAccessSaved: 'Accès aux pièces jointes enregistré.',
+      attachmentCategoryRimDrawing: 'Fichiers de la demande (plans de jante, photos)',
+      attachmentCategoryDesignResult: 'Fichiers du résultat de conception',
+      attachmentCategoryCosting: 'Fichiers de chiffrage',
+      attachmentCategorySales: 'Fichiers commerciaux et offres émises',
+      slaTab: 'SLA',
+      slaTitle: 'Politiques SLA',
+      slaDesc: 'Objectif en heures ouvrées par étape du workflow. Les demandes en retard ou bientôt dues sont signalées sur le tableau de bord et escaladées par notification.',
+      slaCalendarTitle: 'Calendrier ouvré',
+      slaCalendarDesc: 'Seules les heures ouvrées des jours ouvrés comptent pour un SLA ; les jours fériés sont ignorés.',
+      slaEnabled: 'Suivre les SLA',
+      slaEnabledDesc: 'Calculer les échéances et envoyer les escalades pour les demandes ouvertes.',
+      slaTimezone: 'Fuseau horaire (IANA)',
+      slaWorkdayStart: 'Début de journée',
+      slaWorkdayEnd: 'Fin de journée',
+      slaWarningPercent: "Alerter à (% de l'objectif)",
+      slaWorkingDays: 'Jours ouvrés',
+      slaMon: 'Lun',
+      slaTue: 'Mar',
+      slaWed: 'Mer',
+      slaThu: 'Jeu',
+      slaFri: 'Ven',
+      slaSat: 'Sam',
+      slaSun: 'Dim',
+      slaPoliciesTitle: 'Objectifs (heures ouvrées)',
+      slaPoliciesDesc: "« Toutes » s'applique aux priorités sans objectif propre. Laissez une cellule vide pour aucun SLA.",
+      slaAnyPriority: 'Toutes',
+      slaInvalidTarget: 'Objectif invalide pour {status}.',
+      slaHolidaysTitle: 'Jours fériés',
+      slaHolidaysDesc: 'Dates non comptées comme jours ouvrés.',
+      slaHolidayLabel: 'Libellé',
+      slaAddHoliday: 'Ajouter un jour férié',
+      slaNoHolidays: 'Aucun jour férié configuré.',
+      slaSaved: 'Paramètres SLA enregistrés.',
+      currenciesTab: 'Devises',
+      currenciesTitle: 'Devises et taux de change',
+      currenciesDesc: "Les montants gardent leur devise ; les totaux des performances, des exports et des synthèses de contrats sont convertis dans la devise de reporting. L'approbation DG fige les taux du jour sur la demande.",
+      currenciesUpdatedAt: 'Dernière mise à jour',
+      reportingCurrency: 'Devise de reporting',
+      reportingCurrencyDesc: 'Devise utilisée pour les totaux et les colonnes normalisées des rapports.',
+      exchangeRatesTitle: 'Taux de change',
+      exchangeRatesDesc: "Valeur d'une unité en EUR. Un taux s'applique à partir de sa date d'effet jusqu'au suivant de la même devise.",
+      addExchangeRate: 'Ajouter un taux',
+      exchangeRateValue: 'Taux',
+      noExchangeRates: "Aucun taux de change configuré. Les montants en USD ou RMB ne peuvent pas être convertis tant qu'aucun taux n'est ajouté.",
+      exchangeRateInvalid: "Saisissez un taux positif et une date d'effet pour {currency}.",
+      exchangeRatesSaved: 'Taux de change enregistrés.',
+      workflowTab: 'Workflow',
+      workflowTitle: 'Workflow des demandes',
+      workflowDesc: 'Qui est notifié et qui agit à chaque statut, et quels changements de statut chaque rôle peut effectuer. Le serveur applique ces règles.',
+      workflowStatesTitle: 'États',
+      workflowStatesDesc: "Responsable de la prochaine action affiché sur le tableau de bord, et rôles notifiés lorsqu'une demande entre dans le statut.",
+      workflowNextActionLabel: 'Libellé de la prochaine action',
+      workflowLabelPlaceholder: 'Nom du rôle',
+      workflowTransitionsTitle: 'Transitions',
+      workflowTransitionsDesc: 'Changements de statut autorisés, rôles pouvant les effectuer, champs à remplir au préalable et commentaire obligatoire ou non.',
+      workflowFrom: 'De',
+      workflowTo: 'Vers',
+      workflowRequiredFields: 'Champs obligatoires',
+      workflowCommentRequired: 'Commentaire',
+      workflowAddTransition: 'Ajouter une transition',
+      workflowNoFields: 'Aucun',
+      workflowFieldsSelected: '{count} champ(s)',
+      workflowSaved: 'Workflow enregistré.',
       dbMonitorTitle: 'Surveillance de la base de données',
       dbMonitorDescription: "Instantané en lecture seule (toutes les heures) de l’activité PostgreSQL (faible charge).",
       dbMonitorAutoRefresh: 'Actualisation auto',
@@ -2995,7 +3651,48 @@ export const translations = {
       saveConfig: 'Enregistrer la configuration',
       configSaved: 'Configuration de l’offre enregistrée.',
       configSaveFailed: 'Échec de l’enregistrement de la configuration.',
+      offerTemplate: "Modèle d'offre",
+      selectTemplate: 'Choisir un modèle',
+      noTemplates: "Aucun modèle d'offre n'est configuré. Les administrateurs gèrent les modèles dans Paramètres > Profil offre client.",
+      applyTemplate: 'Appliquer le modèle',
+      templateSuggested: 'Suggéré',
+      templateApplied: 'Modèle « {name} » appliqué.',
+      currentTemplate: 'Modèle actuel : {name}',
+      templateApplyHint: "Appliquer un modèle remplace l'introduction, le texte de clôture, les sections, les colonnes et les clauses. Les lignes et l'annexe restent inchangées.",
+      templatesLoadFailed: "Échec du chargement des modèles d'offre.",
+      closingText: 'Texte de clôture',
+      clausesTitle: 'Conditions générales',
+      addClause: 'Ajouter une clause',
+      addClauseFromLibrary: 'Ajouter depuis la bibliothèque',
+      noClauses: 'Aucune clause dans cette offre.',
+      clauseTitle: 'Titre',
+      clauseBody: 'Texte',
+      removeClause: 'Retirer la clause',
+      lineColumns: 'Colonnes des lignes',
+      placeholderPreview: 'Aperçu des textes',
+      placeholderPreviewHint: 'Textes tels qu\'ils seront imprimés, avec les variables remplies depuis cette demande.',
+      unknownPlaceholders: 'Variables inconnues : {list}',
       generatePdf: 'Générer le PDF offre client',
+      issueRevision: 'Émettre une révision',
+      issueRevisionHint: 'L’émission enregistre la configuration, télécharge le PDF et conserve les deux dans une nouvelle révision qui ne peut plus être modifiée.',
+      revisionIssuedToast: 'Révision {label} émise.',
+      revisionsTitle: 'Révisions de l’offre',
+      noRevisions: 'Aucune révision émise.',
+      revisionLabel: 'Rév. {label}',
+      revisionIssued: 'Émise le {date} par {name}',
+      revisionSentTo: 'Envoyée à {recipient} le {date}',
+      revisionNotSent: 'Pas encore envoyée',
+      markAsSent: 'Marquer comme envoyée',
+      markRevisionSentTitle: 'Rév. {label} envoyée au client',
+      sentRecipient: 'Destinataire',
+      sentOn: 'Envoyée le',
+      sentNote: 'Remarque',
+      revisionMarkedSent: 'Envoi enregistré.',
+      compareFrom: 'De',
+      compareTo: 'À',
+      compareRevisions: 'Comparer',
+      noRevisionChanges: 'Aucune différence entre ces révisions.',
+      tax: 'TVA',
       pdfTitle: 'Offre commerciale',
       companyNameLocal: 'Nom société (local)',
       companyNameEn: 'Nom société (anglais)',
@@ -3016,6 +3713,108 @@ export const translations = {
       defaultDeliveryTerm: 'Les modalités de livraison seront confirmées après la commande.',
     },
 
+    // Offer templates
+    offerTemplates: {
+      title: "Modèles d'offre",
+      description: "Mises en page d'offre réutilisables par marché ou par langue. Les commerciaux en choisissent un dans le panneau Offre client.",
+      loadFailed: "Échec du chargement des modèles d'offre.",
+      addTemplate: 'Nouveau modèle',
+      editTemplate: 'Modifier le modèle',
+      noTemplates: 'Aucun modèle pour le moment.',
+      name: 'Nom',
+      templateDescription: 'Description',
+      market: 'Marché',
+      marketPlaceholder: 'ex. UE, Chine domestique',
+      countries: 'Pays',
+      countriesHint: 'Ce modèle est suggéré en priorité pour les demandes de ces pays.',
+      language: 'Langue',
+      anyLanguage: 'Toutes langues',
+      introText: 'Introduction',
+      introTextHint: "Laisser vide pour conserver l'introduction du profil d'offre.",
+      closingText: 'Texte de clôture',
+      sections: 'Sections',
+      lineColumns: 'Colonnes des lignes',
+      lineColumnsHint: 'La colonne du nom de produit est toujours imprimée.',
+      clauses: 'Clauses',
+      clauseCount: '{count} clauses',
+      addClauseToTemplate: 'Ajouter une clause',
+      placeholders: 'Variables',
+      placeholdersHint: 'Cliquez sur une variable pour l\'ajouter au dernier texte modifié. Les valeurs viennent de la demande lors de la génération du PDF.',
+      unknownPlaceholders: 'Variables inconnues : {list}',
+      preview: 'Aperçu',
+      previewHint: "Affiché avec des valeurs d'exemple.",
+      templateSaved: "Modèle d'offre enregistré.",
+      templateDeleted: "Modèle d'offre supprimé.",
+      deleteTemplateConfirm: 'Supprimer le modèle « {name} » ? Les offres qui l\'ont utilisé conservent leurs textes.',
+      clauseLibraryTitle: 'Bibliothèque de clauses',
+      clauseLibraryDescription: "Clauses que les modèles peuvent inclure. Les offres en gardent une copie : modifier une clause n'affecte que les offres qui appliquent un modèle ensuite.",
+      addClause: 'Nouvelle clause',
+      editClause: 'Modifier la clause',
+      noClauses: 'Aucune clause dans la bibliothèque.',
+      clauseTitle: 'Titre',
+      clauseBody: 'Texte',
+      category: 'Catégorie',
+      categoryGeneral: 'Général',
+      categoryCommercial: 'Commercial',
+      categoryDelivery: 'Livraison',
+      categoryWarranty: 'Garantie',
+      categoryLegal: 'Juridique',
+      clauseSaved: 'Clause enregistrée.',
+      clauseDeleted: 'Clause supprimée.',
+      deleteClauseConfirm: 'Supprimer la clause « {title} » ? Les modèles qui l\'incluent la perdent ; les offres existantes gardent leur copie.',
+      updatedBy: 'Modifié le {date} par {name}',
+    },
+
+    approvalSignatures: {
+      confirmApproveTitle: "Signer l'approbation",
+      confirmRejectTitle: 'Signer le rejet',
+      confirmDescription: "Votre décision est enregistrée avec votre nom, l'heure et une empreinte des montants, conditions et pièces jointes actuels. Saisissez votre mot de passe pour la signer.",
+      passwordLabel: 'Mot de passe',
+      signAction: 'Signer la décision',
+      confirmFailed: "La décision n'a pas été enregistrée. Vérifiez votre mot de passe et réessayez.",
+      title: 'Décisions signées',
+      description: "Décisions DG avec l'empreinte de ce qui a été décidé.",
+      loadFailed: 'Impossible de charger les décisions signées.',
+      noSignatures: 'Aucune décision signée.',
+      approved: 'Approuvé',
+      rejected: 'Rejeté',
+      signedBy: 'Signé par {name} le {date}',
+      payloadHash: 'Empreinte',
+      signatureHash: 'Signature',
+      matches: 'Les valeurs actuelles correspondent à cette approbation.',
+      mismatch: 'Modifié depuis cette approbation :',
+      tampered: "Cette signature ne se vérifie pas. L'enregistrement a été modifié après la signature.",
+      allIntact: 'Signatures vérifiées.',
+      fields: {
+        clientName: 'Client',
+        craNumber: 'Numéro CRA',
+        contractAmount: 'Montant du contrat',
+        paymentTerms: 'Conditions de paiement',
+        validity: 'Validité',
+        approvedFinalUnitPrice: 'Prix unitaire final',
+        approvedCurrency: 'Devise',
+        approvedGrossMargin: 'Marge brute',
+        approvedVatMode: 'Mode TVA',
+        approvedVatRate: 'Taux de TVA',
+        approvedIncoterm: 'Incoterm',
+        approvedExpectedDeliveryDate: 'Date de livraison prévue',
+        approvedWarrantyPeriod: 'Période de garantie',
+        draftContractAttachments: 'Fichiers du contrat',
+        salesCurrency: 'Devise',
+        salesFinalPrice: 'Prix final',
+        salesMargin: 'Marge',
+        salesVatMode: 'Mode TVA',
+        salesVatRate: 'Taux de TVA',
+        salesIncoterm: 'Incoterm',
+        salesPaymentTerms: 'Conditions de paiement',
+        salesOfferValidityPeriod: "Validité de l'offre",
+        salesWarrantyPeriod: 'Période de garantie',
+        salesExpectedDeliveryDate: 'Date de livraison prévue',
+        salesProductPrices: 'Prix par produit',
+        salesAttachments: 'Pièces jointes ventes',
+      },
+    },
+
     // Help
     help: {
       title: 'Aide',
@@ -3143,7 +3942,7 @@ export const translations = {
           salesFeedback: 'Retour client',
             salesAttachments: 'Pièces jointes commerciales',
             salesUploadDocs: 'Télécharger e-mail, devis ou fichiers',
-            salesUploadError: 'Fichier trop volumineux (max 10 Mo).',
+            salesUploadError: 'Fichier trop volumineux (max 100 Mo).',
             submitForApproval: 'Soumettre pour approbation du DG',
             submittedToGm: 'Soumis au DG',
             gmApproval: 'Approbation DG',
@@ -3193,7 +3992,49 @@ export const translations = {
       enterVatRate: 'Saisir le taux de TVA (%)',
       costingAttachments: 'Documents de chiffrage',
       uploadCostingDocs: 'Téléverser des fichiers PDF, Excel ou autres',
-      costingUploadError: 'Fichier trop volumineux. Taille max 10 Mo.',
+      costingUploadError: 'Fichier trop volumineux. Taille max 100 Mo.',
+      referenceMatches: 'Produits de référence correspondants',
+      referenceMatchesDesc: 'Produits de la liste de prix les plus proches de chaque ligne produit, aux prix en vigueur aujourd’hui.',
+      noReferenceMatches: 'Aucun produit de référence correspondant dans la liste de prix.',
+      matchScore: 'Correspondance {score} %',
+      matchStatusMatch: 'Correspond',
+      matchStatusPartial: 'Correspond en partie',
+      matchStatusMismatch: 'Ne correspond pas',
+      matchStatusUnknown: 'Non renseigné d’un côté',
+      matchStatusSpecial: 'Demande goujons/PCD spéciale',
+      basePriceApplied: 'Prix de base',
+      quantityBreakApplied: 'Palier {quantity}+ appliqué',
+      acceptSuggestion: 'Accepter',
+      suggestionAccepted: 'Accepté',
+      similarRequests: 'Demandes similaires passées',
+      similarRequestsDesc: 'Demandes antérieures aux données techniques et d’application proches, avec leurs résultats design et leurs prix.',
+      noSimilarRequests: 'Aucune demande similaire trouvée.',
+      similarOn: 'Similaire sur',
+      finalPrice: 'Prix final',
+      productPricesDesc: 'Prix unitaire et marge par ligne produit. Le total et la marge de la demande en sont déduits.',
+      requestTotal: 'Total de la demande',
+      weightedMargin: 'Marge pondérée par le total des lignes',
+      costingProductPrices: 'Prix de vente par produit',
+      salesProductPrices: 'Prix final par produit',
+      costBreakdown: 'Détail des coûts',
+      costBreakdownDesc: 'Coûts unitaires par ligne produit pour ce tour de chiffrage. Le coût total et la marge sont calculés par rapport au prix de vente.',
+      costingRound: 'Tour {round}',
+      costMaterial: 'Matière',
+      costMachining: 'Usinage',
+      costBrakeComponents: 'Composants de frein',
+      costSurfaceFinish: 'Traitement de surface',
+      costPackaging: 'Emballage',
+      costFreight: 'Transport',
+      overheadPercent: 'Frais généraux (%)',
+      directCost: 'Coût direct',
+      overheadAmount: 'Frais généraux',
+      totalCost: 'Coût total',
+      visibleToSales: 'Visible par les commerciaux',
+      costSheetNote: 'Notes sur cette fiche de coûts...',
+      saveCostSheet: 'Enregistrer la fiche',
+      costSheetSaved: 'Fiche de coûts enregistrée.',
+      useCostSheet: 'Utiliser prix et marge',
+      noCostSheets: 'Aucune fiche de coûts pour ce tour.',
       clarificationRequested: 'Clarification demandée',
       designTeamNeedsInfo: 'L’équipe conception a besoin d’informations',
       designComment: 'Commentaire de conception',
@@ -3221,6 +4062,16 @@ export const translations = {
     // Timeline
     timeline: {
       statusHistory: 'Historique des statuts',
+      status: 'Statut',
+      changes: 'Modifications',
+      noChanges: 'Aucune modification de champ enregistrée pour le moment.',
+      sections: {
+        all: 'Toutes les sections',
+        general: 'Général',
+        technical: 'Technique',
+        costing: 'Chiffrage',
+        sales: 'Ventes',
+      },
     },
 
     // Branding
@@ -3411,6 +4262,11 @@ export const translations = {
       status: 'Statut',
       nextActionBy: 'Prochaine action',
       noAction: 'Aucune action',
+      sla: 'SLA',
+      slaOnTrack: 'Dans les délais',
+      slaDueSoon: 'Échéance proche',
+      slaOverdue: 'En retard',
+      slaDue: 'Échéance {date}',
       lastUpdate: 'Dernière mise à jour',
       actions: 'Actions',
       view: 'Voir',
@@ -3428,6 +4284,8 @@ export const translations = {
       selectPdfLanguageDesc: 'Choisissez la langue du PDF avant le téléchargement.',
       pdfLanguage: 'Langue du PDF',
       noRequestsFound: 'Aucune demande trouvée',
+      showingCount: '{shown} sur {total} affichées',
+      loadMore: 'Charger plus',
     },
   },
 
@@ -3496,6 +4354,9 @@ export const translations = {
       openLink: '打开链接',
       upload: '上传',
       uploading: '上传中...',
+      uploadProgress: '上传中... {percent}%',
+      uploadFailed: '上传失败，请重试。',
+      uploadTooLarge: '文件过大（最大 100 MB）。',
       download: '下载',
       downloading: '下载中...',
       restore: '恢复',
@@ -3536,6 +4397,7 @@ export const translations = {
       newRequest: '新建请求',
       contractApprovals: '合同审批',
       priceList: '价格清单',
+      customers: '客户',
       downloads: '下载',
       admin: '管理员',
       settings: '设置',
@@ -3594,6 +4456,32 @@ export const translations = {
       myRequests: '我的请求',
       allStatuses: '所有状态',
       ownership: '归属',
+      allCountries: '所有国家',
+      allPriorities: '所有优先级',
+      allNextActions: '任意下一步',
+      noNextAction: '无需操作',
+      nextActionBy: '下一步',
+      createdFrom: '创建起始',
+      createdTo: '创建截止',
+      listLoadFailed: '无法加载请求。请刷新后重试。',
+      savedViews: '已保存视图',
+      saveView: '保存视图',
+      saveViewTitle: '保存仪表板视图',
+      saveViewDesc: '保存当前的筛选、排序、可见列和显示密度。',
+      viewName: '视图名称',
+      viewNamePlaceholder: '例如：我的紧急请求',
+      viewVisibility: '可见范围',
+      viewOnlyMe: '仅自己',
+      viewEveryone: '所有人',
+      updateCurrentView: '更新“{name}”',
+      deleteCurrentView: '删除“{name}”',
+      viewSaved: '视图已保存',
+      viewUpdated: '视图已更新',
+      viewDeleted: '视图已删除',
+      viewSaveFailed: '无法保存视图。',
+      noSavedViews: '暂无已保存视图',
+      sharedView: '共享',
+      columns: '列',
       vsLastMonth: '较上月',
       reviewOpenRequest: '打开请求',
       reviewUpdatedLabel: '更新时间',
@@ -3641,6 +4529,10 @@ export const translations = {
       utilities: '工具',
       searching: '搜索中...',
       noMatchingRequests: '没有匹配的请求。',
+      searchAnyStatus: '任意状态',
+      searchCreatedFrom: '创建于',
+      searchCreatedTo: '至',
+      searchMatchedIn: '匹配字段：{field}',
       commandPaletteHint: 'Ctrl+K 命令面板 | / 聚焦搜索 | N 新建请求',
       unread: '未读',
       markAllRead: '全部标记已读',
@@ -3791,6 +4683,7 @@ export const translations = {
         craNumber: 'CRA 编号',
         salesOwner: '销售负责人',
         amount: '金额',
+        totalValue: '总金额',
         status: '状态',
         submissionDate: '提交日期',
         lastUpdated: '最后更新',
@@ -3834,6 +4727,7 @@ export const translations = {
         completed: '合同审批已完成。',
         prefillApplied: 'CRA 预填充已应用。',
         prefillApprovedSnapshotApplied: '已应用 CRA 预填充并带入总经理已批准商业快照。',
+        versionConflict: '该合同已被其他用户修改。已加载最新版本，请重新应用您的更改。',
       },
       validation: {
         invalidCra: 'CRA 编号无效或未经过总经理批准。',
@@ -4024,6 +4918,10 @@ export const translations = {
       helpSubmitted: '所选时间段内，首次进入“已提交”状态的请求数量。',
       helpWip: '当前进行中的请求数量（非草稿，且未完成）。',
       helpCompleted: '所选时间段内达到完成状态的请求数量（GM 已批准或已关闭）。',
+      reportingCurrencyLabel: '报表币种',
+      kpiCompletedValue: '完成金额',
+      helpCompletedValue: '所选时间段内完成请求的最终价格，换算为报表币种（如有则使用 GM 批准时固定的汇率）。',
+      unconvertedNote: '{count} 个请求未计入：其币种没有汇率。',
       helpE2eLeadTime: '从首次“已提交”到首次“已完成”（GM 已批准或已关闭）的耗时，显示中位数和 P90。',
       helpThroughput: '所选时间段内，该环节完成的数量。',
       helpCycleTime: '所选时间段内，已完成项目在该环节从开始到结束的耗时。SLA = 服务级别协议。',
@@ -4061,7 +4959,7 @@ export const translations = {
     // Price List
     priceList: {
       title: '价格清单',
-      description: '销售和管理员的价格参考。',
+      description: '参考产品及其版本化价格。',
       emptyState: '价格清单数据将显示在此处。',
       selectReference: '选择参考产品',
       selectReferenceDesc: '使用筛选条件缩小参考产品范围。',
@@ -4069,13 +4967,100 @@ export const translations = {
       selectOption: '请选择',
       clearFilters: '清除筛选',
       keywordFilter: '关键词筛选',
-      keywordPlaceholder: '搜索配置、制动器或螺柱/PCD...',
+      keywordPlaceholder: '搜索零件号、配置、制动器或螺柱/PCD...',
       studsPcdStandards: '螺柱/PCD标准',
       selected: '已选择',
       notSet: '未设置',
       addReference: '新增参考产品',
       editReference: '编辑参考产品',
       deleteConfirm: '删除此参考产品？',
+      partNumber: '零件号',
+      noCurrentPrice: '暂无现行价格',
+      priceHistory: '价格历史',
+      priceHistoryDesc: '此产品的所有价格版本，最新在前。保存新版本会关闭同币种的上一版本。',
+      currency: '币种',
+      basePrice: '基础价格',
+      cost: '成本',
+      validity: '有效期',
+      effectiveFrom: '生效日期',
+      effectiveTo: '截止日期',
+      openEnded: '长期有效',
+      quantityBreaks: '数量阶梯',
+      quantityBreaksHint: '最小数量和单价，例如 10:95.5; 50:90',
+      note: '备注',
+      noPriceHistory: '尚无价格记录。',
+      current: '现行',
+      addPriceVersion: '新增价格版本',
+      addPriceVersionDesc: '截止日期留空表示价格长期有效。',
+      savePrice: '保存价格',
+      priceSaved: '价格已保存',
+      priceDeleted: '价格已删除',
+      deletePriceConfirm: '删除此价格版本？上一版本将重新生效。',
+      loadFailed: '加载价格失败',
+      exportXlsx: '导出 XLSX',
+      importXlsx: '导入 XLSX',
+      importDone: '价格清单已导入',
+      importSummary: '产品：新建 {productsCreated}，更新 {productsUpdated}。价格：新建 {pricesCreated}，更新 {pricesUpdated}。',
+      importFailed: '导入失败',
+      importIssue: '{sheet} 第 {row} 行：{message}',
+    },
+
+    customers: {
+      title: '客户',
+      description: '客户账户及其联系人、交货地址和默认商务条款。',
+      newCustomer: '新建客户',
+      editCustomer: '编辑客户',
+      nameRequired: '客户名称为必填项。',
+      saved: '客户已保存。',
+      duplicateSelected: '同名客户已存在，已为您选择该客户。',
+      searchPlaceholder: '按名称、国家、城市或负责人搜索',
+      allCustomers: '全部客户',
+      myCustomers: '我的客户',
+      emptyState: '未找到客户。',
+      notFound: '未找到该客户。',
+      backToList: '全部客户',
+      details: '详情',
+      name: '客户名称',
+      location: '地区',
+      country: '国家',
+      city: '城市',
+      owner: '负责人（销售）',
+      noOwner: '无负责人',
+      defaultIncoterm: '默认贸易条款',
+      defaultCurrency: '默认币种',
+      defaultPaymentTerms: '默认付款条件',
+      notes: '备注',
+      updatedAt: '最后更新',
+      contacts: '联系人',
+      addContact: '添加联系人',
+      noContacts: '暂无联系人。',
+      contactName: '联系人姓名',
+      jobTitle: '职位',
+      email: '邮箱',
+      phone: '电话',
+      primaryContact: '主要联系人',
+      addresses: '地址',
+      addAddress: '添加地址',
+      noAddresses: '暂无地址。',
+      addressLabel: '标签（如：仓库）',
+      address: '地址',
+      defaultDelivery: '默认交货地址',
+      requests: 'CRA',
+      contracts: '合同',
+      noRequests: '该客户暂无 CRA。',
+      noContracts: '该客户暂无合同。',
+      createdBy: '创建人',
+      pickerPlaceholder: '选择客户',
+      pickerSearch: '搜索客户...',
+      pickerNoResults: '没有匹配的客户。',
+      pickerCreate: '创建“{name}”',
+      pickerUnlinked: '自由填写的名称，未关联客户账户。',
+      viewCustomer: '查看客户',
+      merge: '合并到...',
+      mergeTitle: '合并客户',
+      mergeDesc: '{name} 的所有 CRA 和合同将转移到所选客户，随后删除 {name}。',
+      mergeConfirm: '合并',
+      merged: '客户已合并。',
     },
 
     // Request Form
@@ -4109,6 +5094,13 @@ export const translations = {
       clarificationSaveOnlyHint: '更改已保存。请先回复澄清，再提交回设计。',
       clarificationResponseRequired: '重新提交给设计前，必须填写澄清回复。',
       failedSave: '保存失败。请重试。',
+      conflictTitle: '申请已被他人修改',
+      conflictDesc: '您编辑期间，其他用户已保存此申请。请为双方都修改过的每个字段选择要保留的值。',
+      conflictDescBy: '您编辑期间，{name} 已保存此申请。请为双方都修改过的每个字段选择要保留的值。',
+      conflictKeepMine: '保留我的修改',
+      conflictUseTheirs: '使用对方的修改',
+      conflictApplyMerge: '应用合并',
+      conflictDiscardMine: '放弃我的修改',
       editNotifyCommentDesign: '设计已更新其提交内容。',
       editNotifyCommentCosting: '成本核算已更新其提交内容。',
       editNotifyCommentSales: '销售已更新其提交内容。',
@@ -4134,9 +5126,13 @@ export const translations = {
       salesOwnerOnlyAction: '只有请求创建人可以提交销售跟进以进入总经理审批。',
       salesProcessOwnOnlyError: '您只能处理自己创建的销售跟进请求。',
       salesSubmitFailedDetailed: '销售跟进提交失败：{reason}',
-      designResultBomRequired: '提交设计结果前必须填写 BOM 文件夹链接。',
-      designResultProductFieldsRequired: '以下行必须填写产品名称和产品编号：{items}。',
       designResultProductFieldsInlineRequired: '第 #{item} 行：产品名称和产品编号均为必填。',
+      transitionRuleRequired: '{field}为必填项。',
+      transitionRuleNumber: '{field}必须为数字。',
+      transitionRulePositive: '{field}必须大于 0。',
+      transitionRuleOneOf: '{field}：请选择有效选项。',
+      transitionRuleEachRequired: '{field} 第 #{items} 项：{fields}为必填项。',
+      transitionRuleSum: '{field}合计必须为 {total}%。',
       statusUpdated: '状态已更新',
       chaptersStep: '基本信息',
       productsStep: '产品',
@@ -4266,6 +5262,10 @@ export const translations = {
       picturesDesc: '附加图纸或图片',
       uploadPictures: '上传图片',
       previewNotAvailable: '此文件类型无法预览',
+      previewLoading: '正在加载预览...',
+      previewFailed: '无法预览此文件。',
+      previewTruncated: '仅显示前若干行和列。请下载文件查看完整内容。',
+      previewSheetsTruncated: '仅显示前若干个工作表。',
       downloadFile: '下载文件',
       noItemsYet: '暂无项目',
       itemAdded: '项目已添加',
@@ -4348,6 +5348,23 @@ export const translations = {
       enterEmailAddress: '输入邮箱地址',
       enterPassword: '输入密码',
       updateUserDesc: '更新用户详情和角色分配。',
+      additionalRoles: '附加角色',
+      additionalRolesDesc: '附加角色会增加其流程步骤和菜单。仪表板和请求页面布局仍由主角色决定。',
+      permissionsTitle: '权限',
+      permissionsDesc: '已分配角色包含的权限始终生效，其他权限可单独授予。',
+      permissionFromRole: '角色已包含',
+      permissionNames: {
+        manage_settings: '管理设置',
+        view_costing_margin: '查看成本利润率',
+        approve_gm: '总经理审批',
+        delete_requests: '删除请求',
+      },
+      permissionDescriptions: {
+        manage_settings: '设置、用户、流程和共享仪表板视图。',
+        view_costing_margin: '查看和编辑请求中的成本及销售利润率。',
+        approve_gm: '对请求和合同审批做出总经理决定。',
+        delete_requests: '永久删除请求。',
+      },
       sendAccessEmail: '发送访问邮件',
       sendAccessEmailDesc: '发送专业开通邮件，包含登录链接和临时密码。',
       appPlatformLink: '平台访问链接',
@@ -4378,6 +5395,74 @@ export const translations = {
       auditLogDetails: '日志详情',
       auditLogMetadata: '元数据',
       auditLogUserAgent: '用户代理',
+      attachmentAccessTitle: '附件访问权限',
+      attachmentAccessDesc: '选择每类申请文件可由哪些角色查看。隐藏的文件不会出现在申请中，也无法下载；每次下载都会记录到审计日志。',
+      attachmentAccessCategory: '文件类别',
+      attachmentAccessNote: '管理员始终可以查看所有类别。用户无法在其不可见的类别中添加或删除文件。',
+      attachmentAccessSaved: '附件访问权限已保存。',
+      attachmentCategoryRimDrawing: '申请文件（轮辋图纸、图片）',
+      attachmentCategoryDesignResult: '设计结果文件',
+      attachmentCategoryCosting: '成本核算文件',
+      attachmentCategorySales: '销售文件和已发出的报价',
+      slaTab: 'SLA',
+      slaTitle: 'SLA 策略',
+      slaDesc: '按流程阶段设置目标工作小时数。逾期和即将到期的申请会在仪表板上标记并通过通知升级。',
+      slaCalendarTitle: '工作日历',
+      slaCalendarDesc: '仅工作日的工作时间计入 SLA，节假日不计。',
+      slaEnabled: '跟踪 SLA',
+      slaEnabledDesc: '为未结申请计算截止时间并发送升级通知。',
+      slaTimezone: '时区 (IANA)',
+      slaWorkdayStart: '上班时间',
+      slaWorkdayEnd: '下班时间',
+      slaWarningPercent: '预警阈值（目标的 %）',
+      slaWorkingDays: '工作日',
+      slaMon: '周一',
+      slaTue: '周二',
+      slaWed: '周三',
+      slaThu: '周四',
+      slaFri: '周五',
+      slaSat: '周六',
+      slaSun: '周日',
+      slaPoliciesTitle: '目标（工作小时）',
+      slaPoliciesDesc: '“任意”适用于没有单独目标的优先级。留空表示不设 SLA。',
+      slaAnyPriority: '任意',
+      slaInvalidTarget: '{status} 的目标无效。',
+      slaHolidaysTitle: '节假日',
+      slaHolidaysDesc: '不计为工作日的日期。',
+      slaHolidayLabel: '名称',
+      slaAddHoliday: '添加节假日',
+      slaNoHolidays: '尚未配置节假日。',
+      slaSaved: 'SLA 设置已保存。',
+      currenciesTab: '币种',
+      currenciesTitle: '币种与汇率',
+      currenciesDesc: '金额保留原币种；绩效、导出和合同汇总中的合计会换算为报表币种。GM 批准时会将当日汇率固定到请求上。',
+      currenciesUpdatedAt: '最后更新',
+      reportingCurrency: '报表币种',
+      reportingCurrencyDesc: '用于合计和报表标准化列的币种。',
+      exchangeRatesTitle: '汇率',
+      exchangeRatesDesc: '一个单位等于多少 EUR。汇率从生效日期起适用，直到同一币种的下一个汇率。',
+      addExchangeRate: '添加汇率',
+      exchangeRateValue: '汇率',
+      noExchangeRates: '尚未配置汇率。添加汇率前，USD 或 RMB 金额无法换算。',
+      exchangeRateInvalid: '请为 {currency} 输入正数汇率和生效日期。',
+      exchangeRatesSaved: '汇率已保存。',
+      workflowTab: '流程',
+      workflowTitle: '申请流程',
+      workflowDesc: '每个状态由谁处理、通知谁，以及各角色可以进行哪些状态变更。服务器会强制执行这些规则。',
+      workflowStatesTitle: '状态',
+      workflowStatesDesc: '仪表板上显示的下一步负责人，以及申请进入该状态时收到站内通知的角色。',
+      workflowNextActionLabel: '下一步标签',
+      workflowLabelPlaceholder: '角色名称',
+      workflowTransitionsTitle: '状态流转',
+      workflowTransitionsDesc: '允许的状态变更、可执行的角色、需先填写的字段以及是否需要备注。',
+      workflowFrom: '从',
+      workflowTo: '到',
+      workflowRequiredFields: '必填字段',
+      workflowCommentRequired: '备注',
+      workflowAddTransition: '添加流转',
+      workflowNoFields: '无',
+      workflowFieldsSelected: '{count} 个字段',
+      workflowSaved: '流程已保存。',
       dbMonitorTitle: '数据库监控',
       dbMonitorDescription: 'PostgreSQL 活动的只读每小时快照（低开销）。',
       dbMonitorAutoRefresh: '自动刷新',
@@ -4707,7 +5792,48 @@ export const translations = {
       saveConfig: '保存报价配置',
       configSaved: '报价配置已保存。',
       configSaveFailed: '保存报价配置失败。',
+      offerTemplate: '报价模板',
+      selectTemplate: '选择模板',
+      noTemplates: '尚未配置报价模板。管理员可在 设置 > 客户报价资料 中管理模板。',
+      applyTemplate: '应用模板',
+      templateSuggested: '推荐',
+      templateApplied: '已应用模板“{name}”。',
+      currentTemplate: '当前模板：{name}',
+      templateApplyHint: '应用模板会替换引言、结束语、章节、列和条款。明细行和附录保持不变。',
+      templatesLoadFailed: '加载报价模板失败。',
+      closingText: '结束语',
+      clausesTitle: '条款与条件',
+      addClause: '添加条款',
+      addClauseFromLibrary: '从条款库添加',
+      noClauses: '此报价没有条款。',
+      clauseTitle: '标题',
+      clauseBody: '内容',
+      removeClause: '移除条款',
+      lineColumns: '明细列',
+      placeholderPreview: '文本预览',
+      placeholderPreviewHint: '按打印效果显示文本，占位符已用本申请的数据填充。',
+      unknownPlaceholders: '未知占位符：{list}',
       generatePdf: '生成客户报价 PDF',
+      issueRevision: '发布修订版',
+      issueRevisionHint: '发布会保存配置、下载 PDF，并将两者保存为不可再修改的新修订版。',
+      revisionIssuedToast: '修订版 {label} 已发布。',
+      revisionsTitle: '报价修订版',
+      noRevisions: '尚未发布修订版。',
+      revisionLabel: '修订版 {label}',
+      revisionIssued: '{name} 于 {date} 发布',
+      revisionSentTo: '已于 {date} 发送给 {recipient}',
+      revisionNotSent: '尚未发送',
+      markAsSent: '标记为已发送',
+      markRevisionSentTitle: '修订版 {label} 已发送给客户',
+      sentRecipient: '收件人',
+      sentOn: '发送日期',
+      sentNote: '备注',
+      revisionMarkedSent: '发送记录已保存。',
+      compareFrom: '从',
+      compareTo: '到',
+      compareRevisions: '比较',
+      noRevisionChanges: '这两个修订版之间没有差异。',
+      tax: '增值税',
       pdfTitle: '商务报价',
       companyNameLocal: '公司名称（本地）',
       companyNameEn: '公司名称（英文）',
@@ -4728,6 +5854,108 @@ export const translations = {
       defaultDeliveryTerm: '交付细节将在订单确认后确定。',
     },
 
+    // Offer templates
+    offerTemplates: {
+      title: '报价模板',
+      description: '按市场或语言复用的报价版式。销售在客户报价面板中选择。',
+      loadFailed: '加载报价模板失败。',
+      addTemplate: '新建模板',
+      editTemplate: '编辑模板',
+      noTemplates: '暂无模板。',
+      name: '名称',
+      templateDescription: '说明',
+      market: '市场',
+      marketPlaceholder: '例如：欧盟、中国国内',
+      countries: '国家',
+      countriesHint: '来自这些国家的申请会优先推荐此模板。',
+      language: '语言',
+      anyLanguage: '任意语言',
+      introText: '引言',
+      introTextHint: '留空则沿用报价资料中的引言。',
+      closingText: '结束语',
+      sections: '章节',
+      lineColumns: '明细列',
+      lineColumnsHint: '产品名称列始终打印。',
+      clauses: '条款',
+      clauseCount: '{count} 条条款',
+      addClauseToTemplate: '添加条款',
+      placeholders: '占位符',
+      placeholdersHint: '点击占位符可将其添加到最近编辑的文本中。生成 PDF 时会用申请数据填充。',
+      unknownPlaceholders: '未知占位符：{list}',
+      preview: '预览',
+      previewHint: '使用示例数据显示。',
+      templateSaved: '报价模板已保存。',
+      templateDeleted: '报价模板已删除。',
+      deleteTemplateConfirm: '删除模板“{name}”？已使用该模板的报价会保留其文本。',
+      clauseLibraryTitle: '条款库',
+      clauseLibraryDescription: '模板可引用的条款。报价保存的是副本，修改条款只影响之后应用模板的报价。',
+      addClause: '新建条款',
+      editClause: '编辑条款',
+      noClauses: '条款库为空。',
+      clauseTitle: '标题',
+      clauseBody: '内容',
+      category: '类别',
+      categoryGeneral: '通用',
+      categoryCommercial: '商务',
+      categoryDelivery: '交付',
+      categoryWarranty: '质保',
+      categoryLegal: '法律',
+      clauseSaved: '条款已保存。',
+      clauseDeleted: '条款已删除。',
+      deleteClauseConfirm: '删除条款“{title}”？包含它的模板将移除该条款；已有报价保留其副本。',
+      updatedBy: '{name} 于 {date} 更新',
+    },
+
+    approvalSignatures: {
+      confirmApproveTitle: '签署批准',
+      confirmRejectTitle: '签署拒绝',
+      confirmDescription: '您的决定将与您的姓名、时间以及当前金额、条款和附件的指纹一起记录。请输入密码进行签署。',
+      passwordLabel: '密码',
+      signAction: '签署决定',
+      confirmFailed: '决定未被记录。请检查密码后重试。',
+      title: '已签署的决定',
+      description: '总经理决定及其所决定内容的指纹。',
+      loadFailed: '无法加载已签署的决定。',
+      noSignatures: '暂无已签署的决定。',
+      approved: '已批准',
+      rejected: '已拒绝',
+      signedBy: '{name} 于 {date} 签署',
+      payloadHash: '指纹',
+      signatureHash: '签名',
+      matches: '当前数值与此次批准一致。',
+      mismatch: '自此次批准后已更改：',
+      tampered: '此签名记录无法验证，签署后已被修改。',
+      allIntact: '签名记录已验证。',
+      fields: {
+        clientName: '客户',
+        craNumber: 'CRA 编号',
+        contractAmount: '合同金额',
+        paymentTerms: '付款条件',
+        validity: '有效期',
+        approvedFinalUnitPrice: '最终单价',
+        approvedCurrency: '币种',
+        approvedGrossMargin: '毛利率',
+        approvedVatMode: '增值税模式',
+        approvedVatRate: '增值税率',
+        approvedIncoterm: '国际贸易术语',
+        approvedExpectedDeliveryDate: '预计交货日期',
+        approvedWarrantyPeriod: '质保期',
+        draftContractAttachments: '合同文件',
+        salesCurrency: '币种',
+        salesFinalPrice: '最终价格',
+        salesMargin: '利润率',
+        salesVatMode: '增值税模式',
+        salesVatRate: '增值税率',
+        salesIncoterm: '国际贸易术语',
+        salesPaymentTerms: '付款条件',
+        salesOfferValidityPeriod: '报价有效期',
+        salesWarrantyPeriod: '质保期',
+        salesExpectedDeliveryDate: '预计交货日期',
+        salesProductPrices: '产品价格',
+        salesAttachments: '销售附件',
+      },
+    },
+
     // Help
     help: {
       title: '帮助',
@@ -4855,7 +6083,7 @@ export const translations = {
           salesFeedback: '客户反馈',
             salesAttachments: '销售附件',
             salesUploadDocs: '上传邮件、报价或文件',
-            salesUploadError: '文件过大（最大 10MB）。',
+            salesUploadError: '文件过大（最大 100MB）。',
             submitForApproval: '提交总经理审批',
             submittedToGm: '已提交给总经理',
             gmApproval: '总经理审批',
@@ -4905,7 +6133,49 @@ export const translations = {
       enterVatRate: '输入增值税税率（%）',
       costingAttachments: '成本文件',
       uploadCostingDocs: '上传 PDF、Excel 或相关文件',
-      costingUploadError: '文件过大，最大 10 MB。',
+      costingUploadError: '文件过大，最大 100 MB。',
+      referenceMatches: '匹配的参考产品',
+      referenceMatchesDesc: '与每个产品行最接近的价格清单产品，按今日价格计算。',
+      noReferenceMatches: '价格清单中没有匹配的参考产品。',
+      matchScore: '匹配度 {score}%',
+      matchStatusMatch: '匹配',
+      matchStatusPartial: '部分匹配',
+      matchStatusMismatch: '不匹配',
+      matchStatusUnknown: '一方未设置',
+      matchStatusSpecial: '特殊螺柱/PCD需求',
+      basePriceApplied: '基础价格',
+      quantityBreakApplied: '已应用 {quantity}+ 数量阶梯',
+      acceptSuggestion: '采用',
+      suggestionAccepted: '已采用',
+      similarRequests: '相似的历史请求',
+      similarRequestsDesc: '技术和应用数据相近的历史请求，以及其设计结果和价格。',
+      noSimilarRequests: '未找到相似的历史请求。',
+      similarOn: '相似项',
+      finalPrice: '最终价格',
+      productPricesDesc: '按产品行填写单价和利润率，申请的总价和利润率由此汇总。',
+      requestTotal: '申请总价',
+      weightedMargin: '按行总额加权的利润率',
+      costingProductPrices: '各产品销售价格',
+      salesProductPrices: '各产品最终价格',
+      costBreakdown: '成本明细',
+      costBreakdownDesc: '本轮核算中各产品行的单位成本。总成本和毛利按售价自动计算。',
+      costingRound: '第 {round} 轮',
+      costMaterial: '材料',
+      costMachining: '机加工',
+      costBrakeComponents: '制动部件',
+      costSurfaceFinish: '表面处理',
+      costPackaging: '包装',
+      costFreight: '运费',
+      overheadPercent: '管理费用 (%)',
+      directCost: '直接成本',
+      overheadAmount: '管理费用',
+      totalCost: '总成本',
+      visibleToSales: '对销售可见',
+      costSheetNote: '成本表备注...',
+      saveCostSheet: '保存成本表',
+      costSheetSaved: '成本表已保存。',
+      useCostSheet: '使用价格和毛利',
+      noCostSheets: '本轮暂无成本表。',
       clarificationRequested: '已请求澄清',
       designTeamNeedsInfo: '设计团队需要更多信息',
       designComment: '设计意见',
@@ -4933,6 +6203,16 @@ export const translations = {
     // Timeline
     timeline: {
       statusHistory: '状态历史',
+      status: '状态',
+      changes: '变更',
+      noChanges: '暂无字段变更记录。',
+      sections: {
+        all: '全部分区',
+        general: '常规',
+        technical: '技术',
+        costing: '成本核算',
+        sales: '销售',
+      },
     },
 
     // Branding
@@ -5123,6 +6403,11 @@ export const translations = {
       status: '状态',
       nextActionBy: '下一步负责人',
       noAction: '无需操作',
+      sla: 'SLA',
+      slaOnTrack: '按时',
+      slaDueSoon: '即将到期',
+      slaOverdue: '已逾期',
+      slaDue: '截止 {date}',
       lastUpdate: '最后更新',
       actions: '操作',
       view: '查看',
@@ -5140,6 +6425,8 @@ export const translations = {
       selectPdfLanguageDesc: '下载前选择 PDF 的语言。',
       pdfLanguage: 'PDF 语言',
       noRequestsFound: '未找到请求',
+      showingCount: '显示 {shown} / {total}',
+      loadMore: '加载更多',
     },
   },
 };
@@ -40,3 +40,26 @@ export const buildAttachmentHref = (attachment: Attachment | null | undefined) =
   if (!id) return '';
   return `/api/attachments/${encodeURIComponent(id)}`;
 };
+
+const DOCUMENT_PREVIEW_EXTENSIONS = ['xlsx', 'xlsm', 'xls', 'ods', 'csv', 'docx'];
+
+// Spreadsheets and Word documents are rendered by the server (GET /api/attachments/:id/preview).
+export const isDocumentPreviewFile = (filename?: string) =>
+  DOCUMENT_PREVIEW_EXTENSIONS.includes(fileExtension(filename));
+
+// Id of an attachment stored on the server, or null for files only held in the browser (data/blob URLs).
+export const getStoredAttachmentId = (attachment: Attachment | null | undefined) => {
+  if (!attachment) return null;
+  const url = String(attachment.url ?? '').trim();
+  const match = /^\/api\/attachments\/([^/?#]+)$/.exec(url);
+  if (match) return decodeURIComponent(match[1]);
+  const id = String(attachment.id ?? '').trim();
+  return !url && id ? id : null;
+};
+
+export const buildAttachmentThumbnailHref = (attachment: Attachment | null | undefined) => {
+  if (!attachment || (!isImageFile(attachment.filename) && !isPdfFile(attachment.filename))) return '';
+  const id = getStoredAttachmentId(attachment);
+  if (id) return `/api/attachments/${encodeURIComponent(id)}/thumbnail`;
+  return isImageFile(attachment.filename) ? buildAttachmentHref(attachment) : '';
+};
@@ -0,0 +1,54 @@
+import { Attachment } from '@/types';
+
+// Attachments are streamed to `POST /api/attachments/uploads` as multipart/form-data; the request data then only
+// carries the returned references (`url: /api/attachments/:id`), which the next save attaches to the request.
+
+export const ATTACHMENT_UPLOAD_URL = '/api/attachments/uploads';
+// Keep in line with ATTACHMENT_UPLOAD_MAX_BYTES on the server.
+export const MAX_ATTACHMENT_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+export class AttachmentUploadError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AttachmentUploadError';
+    this.status = status;
+  }
+}
+
+export const findOversizedFile = (files: File[]) => files.find((file) => file.size > MAX_ATTACHMENT_UPLOAD_BYTES) ?? null;
+
+// XMLHttpRequest rather than fetch: only XHR reports upload progress. `onProgress` receives 0-100.
+export const uploadAttachments = (
+  files: File[],
+  { type = 'other', onProgress }: { type?: Attachment['type']; onProgress?: (percent: number) => void } = {}
+) =>
+  new Promise<Attachment[]>((resolve, reject) => {
+    const form = new FormData();
+    form.append('type', type);
+    for (const file of files) form.append('file', file, file.name);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', ATTACHMENT_UPLOAD_URL);
+    xhr.responseType = 'json';
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable && onProgress) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    xhr.onload = () => {
+      const data = xhr.response as { attachments?: Attachment[]; error?: string } | null;
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new AttachmentUploadError(String(data?.error ?? `Upload failed with status ${xhr.status}`), xhr.status));
+        return;
+      }
+      onProgress?.(100);
+      resolve(
+        (Array.isArray(data?.attachments) ? data.attachments : []).map((attachment) => ({
+          ...attachment,
+          uploadedAt: new Date(attachment.uploadedAt),
+        }))
+      );
+    };
+    xhr.onerror = () => reject(new AttachmentUploadError('Upload failed', 0));
+    xhr.send(form);
+  });
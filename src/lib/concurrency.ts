@@ -0,0 +1,193 @@
+// Optimistic concurrency helpers shared by the request and contract contexts.
+// The server bumps a per-record `version` on every write and answers 409 with the current copy
+// when a save was based on an older version.
+
+export const VERSION_CONFLICT_CODE = 'version_conflict';
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export type ConcurrencyConflictError<T = unknown> = Error & {
+  reasonCode: typeof VERSION_CONFLICT_CODE;
+  serverCopy: T;
+  serverVersion: number | null;
+  baseCopy: T | null;
+};
+
+export const createConcurrencyConflictError = <T,>(
+  message: string,
+  details: { serverCopy: T; serverVersion: number | null; baseCopy?: T | null }
+): ConcurrencyConflictError<T> =>
+  Object.assign(new Error(message), {
+    reasonCode: VERSION_CONFLICT_CODE as typeof VERSION_CONFLICT_CODE,
+    serverCopy: details.serverCopy,
+    serverVersion: details.serverVersion,
+    baseCopy: details.baseCopy ?? null,
+  });
+
+export const isConcurrencyConflictError = <T = unknown,>(error: unknown): error is ConcurrencyConflictError<T> =>
+  error instanceof Error && (error as { reasonCode?: unknown }).reasonCode === VERSION_CONFLICT_CODE;
+
+// Bookkeeping fields that change on every save and must never be reported as user conflicts.
+const DEFAULT_IGNORED_KEYS = new Set([
+  'id',
+  'version',
+  'expectedVersion',
+  'status',
+  'history',
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'createdByName',
+  'historyEvent',
+  'editedBy',
+  'editedByName',
+  'nextActionRole',
+  'nextActionLabel',
+  'draftSessionKey',
+  '__full',
+]);
+
+type ConflictOptions = {
+  // Array fields (ex: `products`) compared item by item, field by field, instead of as a whole.
+  nestedArrayKeys?: string[];
+  ignoredKeys?: string[];
+};
+
+const toComparable = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '';
+  return JSON.stringify(value);
+};
+
+const sameValue = (a: unknown, b: unknown) => toComparable(a) === toComparable(b);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+const isIgnored = (key: string, options: ConflictOptions) =>
+  DEFAULT_IGNORED_KEYS.has(key) || Boolean(options.ignoredKeys?.includes(key));
+
+const readRecord = (value: unknown): Record<string, unknown> => (isPlainObject(value) ? value : {});
+
+export const isVersionConflictPayload = (payload: unknown): boolean => {
+  const record = readRecord(payload);
+  return String(record.code ?? '').trim() === VERSION_CONFLICT_CODE && isPlainObject(record.current);
+};
+
+const unionKeys = (...items: Record<string, unknown>[]) => {
+  const keys = new Set<string>();
+  for (const item of items) {
+    for (const key of Object.keys(item)) keys.add(key);
+  }
+  return Array.from(keys);
+};
+
+export const getPathValue = (source: unknown, path: string): unknown => {
+  let current: unknown = source;
+  for (const segment of path.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+};
+
+// Lists the field paths both sides changed differently since `base`.
+// Nested array keys produce paths such as `products.1.loadsKg`.
+export const findConflictingFields = (
+  base: unknown,
+  mine: unknown,
+  theirs: unknown,
+  options: ConflictOptions = {}
+): string[] => {
+  const baseRecord = readRecord(base);
+  const mineRecord = readRecord(mine);
+  const theirsRecord = readRecord(theirs);
+  const hasBase = isPlainObject(base);
+  const out: string[] = [];
+
+  for (const key of Object.keys(mineRecord)) {
+    if (isIgnored(key, options)) continue;
+    const mineValue = mineRecord[key];
+    const theirsValue = theirsRecord[key];
+    const baseValue = baseRecord[key];
+
+    if (options.nestedArrayKeys?.includes(key) && Array.isArray(mineValue) && Array.isArray(theirsValue)) {
+      const baseItems = Array.isArray(baseValue) ? baseValue : [];
+      const length = Math.max(mineValue.length, theirsValue.length);
+      for (let index = 0; index < length; index += 1) {
+        const mineItem = readRecord(mineValue[index]);
+        const theirsItem = readRecord(theirsValue[index]);
+        const baseItem = readRecord(baseItems[index]);
+        for (const field of unionKeys(mineItem, theirsItem)) {
+          if (isIgnored(field, options)) continue;
+          if (sameValue(mineItem[field], theirsItem[field])) continue;
+          const mineChanged = !hasBase || !sameValue(mineItem[field], baseItem[field]);
+          const theirsChanged = !hasBase || !sameValue(theirsItem[field], baseItem[field]);
+          if (mineChanged && theirsChanged) out.push(`${key}.${index}.${field}`);
+        }
+      }
+      continue;
+    }
+
+    if (sameValue(mineValue, theirsValue)) continue;
+    const mineChanged = !hasBase || !sameValue(mineValue, baseValue);
+    const theirsChanged = !hasBase || !sameValue(theirsValue, baseValue);
+    if (mineChanged && theirsChanged) out.push(key);
+  }
+
+  return out;
+};
+
+// Three-way merge of `mine` onto the server copy: fields only the other user touched take their
+// value, fields only I touched keep mine, and true conflicts follow `choices` (default: mine).
+// Only the keys present in `mine` are returned so partial panel payloads stay partial.
+export const mergeConcurrentEdits = <T extends object>(
+  base: unknown,
+  mine: T,
+  theirs: unknown,
+  choices: Record<string, ConflictChoice> = {},
+  options: ConflictOptions = {}
+): T => {
+  const baseRecord = readRecord(base);
+  const theirsRecord = readRecord(theirs);
+  const hasBase = isPlainObject(base);
+  const mineRecord = mine as Record<string, unknown>;
+  const merged: Record<string, unknown> = { ...mineRecord };
+
+  const resolve = (path: string, mineValue: unknown, theirsValue: unknown, baseValue: unknown) => {
+    if (sameValue(mineValue, theirsValue)) return mineValue;
+    const mineChanged = !hasBase || !sameValue(mineValue, baseValue);
+    const theirsChanged = hasBase && !sameValue(theirsValue, baseValue);
+    if (!mineChanged) return theirsValue;
+    if (!theirsChanged) return mineValue;
+    return choices[path] === 'theirs' ? theirsValue : mineValue;
+  };
+
+  for (const key of Object.keys(mineRecord)) {
+    if (isIgnored(key, options)) continue;
+    if (!Object.prototype.hasOwnProperty.call(theirsRecord, key)) continue;
+    const mineValue = mineRecord[key];
+    const theirsValue = theirsRecord[key];
+    const baseValue = baseRecord[key];
+
+    if (options.nestedArrayKeys?.includes(key) && Array.isArray(mineValue) && Array.isArray(theirsValue)) {
+      const baseItems = Array.isArray(baseValue) ? baseValue : [];
+      merged[key] = mineValue.map((item, index) => {
+        if (index >= theirsValue.length) return item;
+        const mineItem = readRecord(item);
+        const theirsItem = readRecord(theirsValue[index]);
+        const baseItem = readRecord(baseItems[index]);
+        const next: Record<string, unknown> = { ...mineItem };
+        for (const field of unionKeys(mineItem, theirsItem)) {
+          if (isIgnored(field, options)) continue;
+          next[field] = resolve(`${key}.${index}.${field}`, mineItem[field], theirsItem[field], baseItem[field]);
+        }
+        return next;
+      });
+      continue;
+    }
+
+    merged[key] = resolve(key, mineValue, theirsValue, baseValue);
+  }
+
+  return merged as T;
+};
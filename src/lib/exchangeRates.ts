@@ -0,0 +1,63 @@
+import { CustomerRequest, ExchangeRateConfig, PriceCurrency } from '@/types';
+
+// Client mirror of server/exchangeRates.js for exports built in the browser. Rates are EUR per unit of currency.
+
+const BASE_CURRENCY: PriceCurrency = 'EUR';
+
+const toDateKey = (value: Date | string) =>
+  value instanceof Date ? (Number.isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10)) : String(value).slice(0, 10);
+
+export const fetchExchangeRateConfig = async (): Promise<ExchangeRateConfig> => {
+  const res = await fetch('/api/admin/exchange-rates', { cache: 'no-store' });
+  const data = await res.json().catch(() => null);
+  if (!res.ok || !data) throw new Error(String(data?.error ?? `Failed to load exchange rates (${res.status})`));
+  return data as ExchangeRateConfig;
+};
+
+// EUR value of one unit of `currency` on `date`, or null when no rate is in effect yet.
+export const rateOn = (config: ExchangeRateConfig, currency: PriceCurrency, date: Date | string) => {
+  if (currency === BASE_CURRENCY) return 1;
+  const dateKey = toDateKey(date);
+  let rate: number | null = null;
+  for (const entry of config.rates) {
+    if (entry.currency === currency && entry.effectiveFrom <= dateKey) rate = entry.rate;
+  }
+  return rate;
+};
+
+// The negotiated sales price when there is one, else the costing selling price.
+export const resolveRequestFinalPrice = (request: CustomerRequest) => {
+  if (typeof request.salesFinalPrice === 'number' && request.salesFinalPrice > 0) {
+    return { amount: request.salesFinalPrice, currency: request.salesCurrency ?? BASE_CURRENCY };
+  }
+  if (typeof request.sellingPrice === 'number' && request.sellingPrice > 0) {
+    return { amount: request.sellingPrice, currency: request.sellingCurrency ?? BASE_CURRENCY };
+  }
+  return null;
+};
+
+// Final price in the reporting currency: rates frozen at GM approval when present, else the table rate on the
+// request's last update. `rate` is reporting units per source unit; null when there is no price or no rate.
+export const convertRequestFinalPrice = (config: ExchangeRateConfig, request: CustomerRequest) => {
+  const price = resolveRequestFinalPrice(request);
+  if (!price) return null;
+  const target = config.reportingCurrency;
+  if (price.currency === target) {
+    return { amount: price.amount, currency: target, rate: 1, frozen: Boolean(request.exchangeRateSnapshot) };
+  }
+
+  const snapshotRates = request.exchangeRateSnapshot?.rates;
+  const frozenSource = snapshotRates?.[price.currency];
+  const frozenTarget = snapshotRates?.[target];
+  if (frozenSource && frozenTarget) {
+    const rate = frozenSource / frozenTarget;
+    return { amount: price.amount * rate, currency: target, rate, frozen: true };
+  }
+
+  const date = request.updatedAt ?? new Date();
+  const sourceRate = rateOn(config, price.currency, date);
+  const targetRate = rateOn(config, target, date);
+  if (sourceRate === null || targetRate === null) return null;
+  const rate = sourceRate / targetRate;
+  return { amount: price.amount * rate, currency: target, rate, frozen: false };
+};
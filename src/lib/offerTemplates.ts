@@ -0,0 +1,230 @@
+import {
+  ClientOfferClause,
+  ClientOfferConfig,
+  CustomerRequest,
+  OfferClause,
+  OfferLineColumn,
+  OfferTemplate,
+} from '@/types';
+import { TranslationKeys } from '@/i18n/translations';
+
+// Offer templates (Settings > Client Offer Profile) preset the intro and closing text, the visible sections, the
+// line-item columns and the clauses of a client offer. Texts may reference request and offer fields with
+// {{placeholders}}, filled in when the PDF is generated (browser and API alike, see clientOfferPdf.ts).
+
+export const OFFER_LINE_COLUMNS: OfferLineColumn[] = [
+  'item',
+  'description',
+  'specification',
+  'quantity',
+  'unitPrice',
+  'lineTotal',
+  'remark',
+];
+
+export const OFFER_SECTION_KEYS: Array<keyof OfferTemplate['sectionVisibility']> = [
+  'general',
+  'lineItems',
+  'commercialTerms',
+  'deliveryTerms',
+  'clauses',
+  'appendix',
+];
+
+export const getOfferSectionLabel = (t: TranslationKeys, key: keyof OfferTemplate['sectionVisibility']) => {
+  if (key === 'general') return t.clientOffer.generalInformation;
+  if (key === 'lineItems') return t.clientOffer.lineItemsTitle;
+  if (key === 'commercialTerms') return t.clientOffer.commercialTermsTitle;
+  if (key === 'deliveryTerms') return t.clientOffer.deliveryTermsTitle;
+  if (key === 'clauses') return t.clientOffer.clausesTitle;
+  return t.clientOffer.appendixTitle;
+};
+
+export const getOfferLineColumnLabel = (t: TranslationKeys, column: OfferLineColumn) => {
+  if (column === 'item') return t.clientOffer.item;
+  if (column === 'description') return t.clientOffer.productName;
+  if (column === 'specification') return t.clientOffer.productNumber;
+  if (column === 'quantity') return t.clientOffer.quantity;
+  if (column === 'unitPrice') return t.clientOffer.unitPrice;
+  if (column === 'lineTotal') return t.clientOffer.lineTotal;
+  return t.clientOffer.remark;
+};
+
+export const OFFER_PLACEHOLDERS = [
+  'client.name',
+  'client.contact',
+  'client.country',
+  'client.city',
+  'request.id',
+  'offer.number',
+  'offer.date',
+  'offer.total',
+  'offer.currency',
+  'offer.validity',
+  'offer.paymentTerms',
+  'offer.deliveryDate',
+  'offer.incoterm',
+  'offer.warranty',
+  'sales.contactName',
+  'sales.contactEmail',
+  'sales.contactPhone',
+  'company.name',
+] as const;
+
+export type OfferPlaceholder = (typeof OFFER_PLACEHOLDERS)[number];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z]+\.[a-zA-Z]+)\s*\}\}/g;
+
+export const formatPlaceholder = (key: string) => `{{${key}}}`;
+
+// Unknown placeholders are left as typed so they stand out in the preview.
+export const resolveOfferPlaceholders = (text: string, values: Partial<Record<OfferPlaceholder, string>>) =>
+  String(text ?? '').replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    const value = values[key as OfferPlaceholder];
+    return typeof value === 'string' ? value : match;
+  });
+
+export const findUnknownPlaceholders = (text: string) => {
+  const unknown = new Set<string>();
+  for (const match of String(text ?? '').matchAll(PLACEHOLDER_PATTERN)) {
+    if (!(OFFER_PLACEHOLDERS as readonly string[]).includes(match[1])) unknown.add(match[1]);
+  }
+  return Array.from(unknown);
+};
+
+export interface OfferPlaceholderInput {
+  request: CustomerRequest;
+  config: Pick<ClientOfferConfig, 'offerNumber' | 'recipientName'>;
+  profile?: {
+    companyNameEn?: string;
+    companyNameLocal?: string;
+    contactName?: string;
+    contactEmail?: string;
+    mobile?: string;
+  } | null;
+  offerDate: string;
+  total: string;
+  // Term values as printed in the offer; raw request values otherwise.
+  terms?: Partial<Record<'validity' | 'payment' | 'deliveryDate' | 'incoterm' | 'warranty', string>>;
+  translateOption?: (value: string) => string;
+}
+
+const orOther = (value: string | null | undefined, other: string | null | undefined) =>
+  value === 'other' ? String(other ?? '').trim() : String(value ?? '').trim();
+
+export const buildOfferPlaceholderValues = ({
+  request,
+  config,
+  profile,
+  offerDate,
+  total,
+  terms,
+  translateOption = (value) => value,
+}: OfferPlaceholderInput): Record<OfferPlaceholder, string> => {
+  const country = orOther(request.country, request.countryOther);
+  const paymentTerms = Array.isArray(request.salesPaymentTerms)
+    ? request.salesPaymentTerms
+        .filter((term) => String(term.paymentName ?? '').trim())
+        .map((term) =>
+          typeof term.paymentPercent === 'number' ? `${term.paymentName} (${term.paymentPercent}%)` : term.paymentName
+        )
+        .join(', ')
+    : '';
+  return {
+    'client.name': String(config.recipientName || request.clientName || '').trim(),
+    'client.contact': String(request.clientContact ?? '').trim(),
+    'client.country': country ? translateOption(country) : '',
+    'client.city': String(request.city ?? '').trim(),
+    'request.id': request.id,
+    'offer.number': String(config.offerNumber || request.id),
+    'offer.date': offerDate,
+    'offer.total': total,
+    'offer.currency': String(request.salesCurrency || 'EUR'),
+    'offer.validity': terms?.validity ?? String(request.salesOfferValidityPeriod ?? ''),
+    'offer.paymentTerms': terms?.payment ?? paymentTerms,
+    'offer.deliveryDate': terms?.deliveryDate ?? String(request.salesExpectedDeliveryDate ?? ''),
+    'offer.incoterm': terms?.incoterm ?? orOther(request.salesIncoterm, request.salesIncotermOther),
+    'offer.warranty': terms?.warranty ?? String(request.salesWarrantyPeriod ?? ''),
+    'sales.contactName': String(profile?.contactName ?? ''),
+    'sales.contactEmail': String(profile?.contactEmail ?? ''),
+    'sales.contactPhone': String(profile?.mobile ?? ''),
+    'company.name': String(profile?.companyNameEn || profile?.companyNameLocal || ''),
+  };
+};
+
+// Values shown in the template editor preview.
+export const SAMPLE_PLACEHOLDER_VALUES: Record<OfferPlaceholder, string> = {
+  'client.name': 'ACME Agri Equipment',
+  'client.contact': 'Jane Smith',
+  'client.country': 'France',
+  'client.city': 'Lyon',
+  'request.id': 'CRA-2026-0001',
+  'offer.number': 'OF-2026-0001',
+  'offer.date': '2026-01-15',
+  'offer.total': 'EUR 48,250.00',
+  'offer.currency': 'EUR',
+  'offer.validity': '30 days',
+  'offer.paymentTerms': 'Deposit (30%), Balance before shipment (70%)',
+  'offer.deliveryDate': '2026-03-31',
+  'offer.incoterm': 'FCA',
+  'offer.warranty': '12',
+  'sales.contactName': 'John Doe',
+  'sales.contactEmail': 'john.doe@example.com',
+  'sales.contactPhone': '+33 6 00 00 00 00',
+  'company.name': 'Monroc',
+};
+
+export const getOfferLineColumns = (config: Pick<ClientOfferConfig, 'lineColumns'> | undefined): OfferLineColumn[] => {
+  const selected = Array.isArray(config?.lineColumns)
+    ? OFFER_LINE_COLUMNS.filter((column) => config.lineColumns?.includes(column))
+    : [];
+  return selected.length ? selected : OFFER_LINE_COLUMNS;
+};
+
+export const toOfferClause = (clause: Pick<OfferClause, 'id' | 'title' | 'body'>): ClientOfferClause => ({
+  id: clause.id,
+  title: clause.title,
+  body: clause.body,
+});
+
+// Copies the template into the offer. Lines, attachments and the discount stay as they are; an empty template intro
+// keeps the current one.
+export const applyOfferTemplate = (
+  config: ClientOfferConfig,
+  template: OfferTemplate,
+  library: OfferClause[]
+): ClientOfferConfig => {
+  const clausesById = new Map(library.map((clause) => [clause.id, clause]));
+  return {
+    ...config,
+    templateId: template.id,
+    templateName: template.name,
+    introText: template.introText.trim() ? template.introText : config.introText,
+    closingText: template.closingText,
+    sectionVisibility: { ...template.sectionVisibility },
+    lineColumns: getOfferLineColumns({ lineColumns: template.lineColumns }),
+    clauses: template.clauseIds
+      .map((id) => clausesById.get(id))
+      .filter((clause): clause is OfferClause => Boolean(clause))
+      .map(toOfferClause),
+  };
+};
+
+// Best template for a request: a country match counts more than a language match; ties keep the list order.
+export const suggestOfferTemplate = (
+  templates: OfferTemplate[],
+  { country, language }: { country?: string | null; language?: string | null }
+) => {
+  let best: OfferTemplate | null = null;
+  let bestScore = 0;
+  for (const template of templates) {
+    let score = 0;
+    if (country && template.countries.includes(country)) score += 2;
+    if (language && template.language === language) score += 1;
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  }
+  return best;
+};
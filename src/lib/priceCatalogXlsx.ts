@@ -0,0 +1,120 @@
+import { format } from 'date-fns';
+import { PriceEntry, PriceQuantityBreak, ReferenceProduct } from '@/types';
+
+// XLSX round trip for the price catalog: one "Products" sheet and one "Prices" sheet with these headers.
+// The server (POST /api/price-list/import) validates rows and reports issues by sheet and row number.
+export const PRODUCT_SHEET = 'Products';
+export const PRICE_SHEET = 'Prices';
+
+const PRODUCT_HEADERS = [
+  'id',
+  'partNumber',
+  'configurationType',
+  'articulationType',
+  'brakeType',
+  'brakeSize',
+  'studsPcdStandards',
+] as const;
+
+const PRICE_HEADERS = [
+  'partNumber',
+  'currency',
+  'basePrice',
+  'cost',
+  'effectiveFrom',
+  'effectiveTo',
+  'quantityBreaks',
+  'note',
+] as const;
+
+type XlsxModule = typeof import('xlsx');
+type SheetRow = Record<string, unknown>;
+
+export interface PriceCatalogImportRows {
+  products: SheetRow[];
+  prices: SheetRow[];
+}
+
+// "10:95.5; 50:90" <-> [{ minQuantity: 10, unitPrice: 95.5 }, { minQuantity: 50, unitPrice: 90 }]
+export const formatQuantityBreaks = (breaks: PriceQuantityBreak[]) =>
+  breaks.map((item) => `${item.minQuantity}:${item.unitPrice}`).join('; ');
+
+export const parseQuantityBreaks = (text: string): PriceQuantityBreak[] =>
+  text
+    .split(';')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [quantity, price] = part.split(':');
+      return { minQuantity: Number(String(quantity ?? '').trim()), unitPrice: Number(String(price ?? '').trim()) };
+    });
+
+export const buildPriceCatalogWorkbook = (
+  XLSX: XlsxModule,
+  products: ReferenceProduct[],
+  prices: PriceEntry[],
+  includeCost: boolean
+) => {
+  const partNumberById = new Map(products.map((product) => [product.id, product.partNumber]));
+  const productRows = products.map((product) => ({
+    id: product.id,
+    partNumber: product.partNumber,
+    configurationType: product.configurationType,
+    articulationType: product.articulationType,
+    brakeType: product.brakeType,
+    brakeSize: product.brakeSize,
+    studsPcdStandards: product.studsPcdStandards.join(', '),
+  }));
+  const priceHeaders = PRICE_HEADERS.filter((header) => includeCost || header !== 'cost');
+  const priceRows = prices
+    .filter((entry) => partNumberById.get(entry.productId))
+    .map((entry) => ({
+      partNumber: partNumberById.get(entry.productId) ?? '',
+      currency: entry.currency,
+      basePrice: entry.basePrice,
+      ...(includeCost ? { cost: entry.cost ?? '' } : {}),
+      effectiveFrom: entry.effectiveFrom,
+      effectiveTo: entry.effectiveTo ?? '',
+      quantityBreaks: formatQuantityBreaks(entry.quantityBreaks),
+      note: entry.note,
+    }));
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(productRows, { header: [...PRODUCT_HEADERS] }), PRODUCT_SHEET);
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(priceRows, { header: priceHeaders }), PRICE_SHEET);
+  return wb;
+};
+
+const normalizeCell = (value: unknown) => {
+  // Excel may turn typed dates into date cells; the server expects YYYY-MM-DD.
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : format(value, 'yyyy-MM-dd');
+  return value;
+};
+
+const readSheet = (XLSX: XlsxModule, sheet: import('xlsx').WorkSheet | undefined): SheetRow[] => {
+  if (!sheet) return [];
+  // Keep blank rows so row numbers line up with what the user sees in Excel.
+  const rows = XLSX.utils.sheet_to_json<SheetRow>(sheet, { defval: '', blankrows: true });
+  return rows.map((row) =>
+    Object.fromEntries(Object.entries(row).map(([key, value]) => [key.trim(), normalizeCell(value)]))
+  );
+};
+
+const isBlankRow = (row: SheetRow) => Object.values(row).every((value) => String(value ?? '').trim() === '');
+
+// Reads both sheets; trailing blank rows are dropped, quantity breaks are split into objects.
+export const readPriceCatalogWorkbook = (XLSX: XlsxModule, data: ArrayBuffer): PriceCatalogImportRows => {
+  const wb = XLSX.read(data, { type: 'array', cellDates: true });
+  const trim = (rows: SheetRow[]) => {
+    let end = rows.length;
+    while (end > 0 && isBlankRow(rows[end - 1])) end -= 1;
+    return rows.slice(0, end);
+  };
+  return {
+    products: trim(readSheet(XLSX, wb.Sheets[PRODUCT_SHEET])),
+    prices: trim(readSheet(XLSX, wb.Sheets[PRICE_SHEET])).map((row) => ({
+      ...row,
+      quantityBreaks: parseQuantityBreaks(String(row.quantityBreaks ?? '')),
+    })),
+  };
+};
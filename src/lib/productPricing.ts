@@ -0,0 +1,80 @@
+import { PriceCurrency, ProductPrice, RequestProduct } from '@/types';
+
+// Per-product prices entered in costing and sales follow-up. The request-level price is the roll-up of the lines
+// (sellingPrice / salesFinalPrice) so list views, exports and approvals keep working on a single figure.
+
+export interface ProductPriceDraft {
+  unitPrice: string;
+  margin: string;
+}
+
+const parseAmount = (value: string) => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number.parseFloat(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// A line without a quantity is priced as a single unit.
+export const getLineQuantity = (product: Pick<RequestProduct, 'quantity'> | null | undefined) =>
+  typeof product?.quantity === 'number' && product.quantity > 0 ? product.quantity : 1;
+
+export const findProductPrice = (lines: ProductPrice[] | undefined, productIndex: number) =>
+  Array.isArray(lines) ? lines.find((line) => line.productIndex === productIndex) : undefined;
+
+// Drafts for `count` product lines, taken from the first source that prices each line. A single-line request
+// without any saved line starts from the request-level figures.
+export const seedProductPriceDrafts = (
+  count: number,
+  sources: Array<ProductPrice[] | undefined>,
+  fallback?: { unitPrice?: number | null; margin?: number | null }
+): ProductPriceDraft[] =>
+  Array.from({ length: count }, (_v, index) => {
+    for (const source of sources) {
+      const line = findProductPrice(source, index);
+      if (line) {
+        return {
+          unitPrice: typeof line.unitPrice === 'number' ? String(line.unitPrice) : '',
+          margin: typeof line.margin === 'number' ? String(line.margin) : '',
+        };
+      }
+    }
+    const hasSavedLines = sources.some((source) => Array.isArray(source) && source.length > 0);
+    if (count === 1 && !hasSavedLines && fallback) {
+      return {
+        unitPrice: typeof fallback.unitPrice === 'number' ? String(fallback.unitPrice) : '',
+        margin: typeof fallback.margin === 'number' ? String(fallback.margin) : '',
+      };
+    }
+    return { unitPrice: '', margin: '' };
+  });
+
+export const toProductPrices = (drafts: ProductPriceDraft[], currency: PriceCurrency): ProductPrice[] =>
+  drafts.map((draft, productIndex) => ({
+    productIndex,
+    unitPrice: parseAmount(draft.unitPrice),
+    currency,
+    margin: parseAmount(draft.margin),
+  }));
+
+// Request total (sum of unit price x quantity) and revenue-weighted margin. Each is null until every line has it.
+export const rollUpProductPrices = (lines: ProductPrice[], products: Array<Pick<RequestProduct, 'quantity'> | null>) => {
+  let total = 0;
+  let weightedMargin = 0;
+  let priced = lines.length > 0;
+  let hasMargins = lines.length > 0;
+  lines.forEach((line) => {
+    if (typeof line.unitPrice !== 'number' || line.unitPrice <= 0) {
+      priced = false;
+      return;
+    }
+    const lineTotal = line.unitPrice * getLineQuantity(products[line.productIndex]);
+    total += lineTotal;
+    if (typeof line.margin === 'number') weightedMargin += lineTotal * line.margin;
+    else hasMargins = false;
+  });
+  return {
+    total: priced ? Math.round(total * 100) / 100 : null,
+    margin: priced && hasMargins && total > 0 ? Math.round((weightedMargin / total) * 10) / 10 : null,
+  };
+};
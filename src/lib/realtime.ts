@@ -0,0 +1,119 @@
+// Shared connection to the server-sent events stream (GET /api/events).
+// Events are "something changed" hints; subscribers re-fetch what they display.
+
+export type RealtimeEventType = 'request.changed' | 'contract.changed' | 'notification.created';
+
+export interface RealtimeEventPayloads {
+  'request.changed': {
+    requestId: string;
+    action: 'created' | 'updated' | 'status_changed' | 'deleted';
+    status?: string | null;
+    version?: number | null;
+    updatedAt?: string | null;
+  };
+  'contract.changed': {
+    contractId: string;
+    action: 'created' | 'updated' | 'status_changed';
+    status?: string | null;
+    version?: number | null;
+    updatedAt?: string | null;
+  };
+  'notification.created': {
+    notificationType?: string | null;
+  };
+}
+
+type RealtimeHandler<K extends RealtimeEventType> = (payload: RealtimeEventPayloads[K]) => void;
+type ConnectionHandler = (connected: boolean) => void;
+
+const EVENTS_URL = '/api/events';
+const EVENT_TYPES: RealtimeEventType[] = ['request.changed', 'contract.changed', 'notification.created'];
+// EventSource retries on its own while the stream is reachable; this covers hard closes (e.g. 401 after a restart).
+const RECONNECT_DELAY_MS = 15_000;
+
+const handlers = new Map<RealtimeEventType, Set<(payload: unknown) => void>>();
+const connectionHandlers = new Set<ConnectionHandler>();
+let source: EventSource | null = null;
+let reconnectTimer: number | undefined;
+let connected = false;
+
+const hasSubscribers = () => connectionHandlers.size > 0 || Array.from(handlers.values()).some((set) => set.size > 0);
+
+const setConnected = (next: boolean) => {
+  if (connected === next) return;
+  connected = next;
+  for (const handler of Array.from(connectionHandlers)) handler(next);
+};
+
+const closeSource = () => {
+  if (reconnectTimer) {
+    window.clearTimeout(reconnectTimer);
+    reconnectTimer = undefined;
+  }
+  if (source) {
+    source.close();
+    source = null;
+  }
+  setConnected(false);
+};
+
+const openSource = () => {
+  if (source || typeof window === 'undefined' || typeof EventSource === 'undefined') return;
+  const next = new EventSource(EVENTS_URL);
+  source = next;
+
+  next.addEventListener('ready', () => setConnected(true));
+  next.onerror = () => {
+    setConnected(false);
+    if (next.readyState !== EventSource.CLOSED) return;
+    next.close();
+    if (source === next) source = null;
+    if (!reconnectTimer && hasSubscribers()) {
+      reconnectTimer = window.setTimeout(() => {
+        reconnectTimer = undefined;
+        if (hasSubscribers()) openSource();
+      }, RECONNECT_DELAY_MS);
+    }
+  };
+
+  for (const type of EVENT_TYPES) {
+    next.addEventListener(type, (event) => {
+      let payload: unknown = {};
+      try {
+        payload = JSON.parse(String((event as MessageEvent).data ?? '{}'));
+      } catch {
+        return;
+      }
+      for (const handler of Array.from(handlers.get(type) ?? [])) handler(payload);
+    });
+  }
+};
+
+const releaseIfIdle = () => {
+  if (!hasSubscribers()) closeSource();
+};
+
+export const subscribeRealtime = <K extends RealtimeEventType>(type: K, handler: RealtimeHandler<K>) => {
+  const wrapped = (payload: unknown) => handler(payload as RealtimeEventPayloads[K]);
+  const set = handlers.get(type) ?? new Set<(payload: unknown) => void>();
+  set.add(wrapped);
+  handlers.set(type, set);
+  openSource();
+  return () => {
+    set.delete(wrapped);
+    releaseIfIdle();
+  };
+};
+
+// Calls `handler` with the current state right away and on every change.
+export const subscribeRealtimeConnection = (handler: ConnectionHandler) => {
+  connectionHandlers.add(handler);
+  openSource();
+  handler(connected);
+  return () => {
+    connectionHandlers.delete(handler);
+    releaseIfIdle();
+  };
+};
+
+export const isRealtimeConnected = () => connected;
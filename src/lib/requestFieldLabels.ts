@@ -0,0 +1,78 @@
+import { format } from 'date-fns';
+import { TranslationKeys } from '@/i18n/translations';
+
+// Payload keys whose label lives under a different translation key.
+const FIELD_LABEL_KEYS: Record<string, string> = {
+  loadsKg: 'loads',
+  speedsKmh: 'speeds',
+  trackMm: 'track',
+  expectedDeliverySelections: 'expectedDelivery',
+  studsPcdMode: 'studsPcd',
+  studsPcdStandardSelections: 'studsPcd',
+  studsPcdSpecialText: 'studsPcd',
+  products: 'productLabel',
+  sellingCurrency: 'currency',
+  calculatedMargin: 'margin',
+  salesCurrency: 'currency',
+  salesIncoterm: 'incoterm',
+  salesVatMode: 'vatMode',
+  salesWarrantyPeriod: 'warrantyPeriod',
+  salesOfferValidityPeriod: 'offerValidityPeriod',
+  salesPaymentTerms: 'paymentTerms',
+  salesPaymentTermCount: 'paymentSettlementCount',
+  salesFeedbackComment: 'salesFeedback',
+  comments: 'paymentComments',
+  designNotes: 'designComment',
+  costingNotes: 'costingNotesInternal',
+  clientOfferConfig: 'sheetTitle',
+  lines: 'lineItems',
+  offerProductName: 'productName',
+  offerProductPartNumber: 'productNumber',
+};
+
+const humanizeKey = (key: string) => {
+  const spaced = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ').trim();
+  return spaced ? spaced.charAt(0).toUpperCase() + spaced.slice(1) : key;
+};
+
+const getKeyLabel = (t: TranslationKeys, key: string) => {
+  const lookupKey = FIELD_LABEL_KEYS[key] ?? key;
+  const requestLabels = t.request as Record<string, unknown>;
+  const panelLabels = t.panels as Record<string, unknown>;
+  const clientOfferLabels = t.clientOffer as Record<string, unknown>;
+  const label = requestLabels[lookupKey] ?? panelLabels[lookupKey] ?? clientOfferLabels[lookupKey];
+  return typeof label === 'string' && label.trim() ? label : humanizeKey(key);
+};
+
+// Builds a readable label for dotted payload paths such as `products.1.loadsKg` ("Product #2 - Loads").
+export const getRequestFieldLabel = (t: TranslationKeys, path: string) => {
+  const parts: string[] = [];
+  for (const segment of String(path ?? '').split('.')) {
+    if (/^\d+$/.test(segment)) {
+      const index = Number.parseInt(segment, 10) + 1;
+      if (parts.length) parts[parts.length - 1] = `${parts[parts.length - 1]} #${index}`;
+      else parts.push(`#${index}`);
+      continue;
+    }
+    parts.push(getKeyLabel(t, segment));
+  }
+  return parts.join(' - ');
+};
+
+export const formatRequestFieldValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '-' : format(value, 'MMM d, yyyy HH:mm');
+  if (typeof value === 'boolean') return value ? '✓' : '✗';
+  if (Array.isArray(value)) {
+    if (!value.length) return '-';
+    return value
+      .map((item) => {
+        if (!item || typeof item !== 'object') return String(item);
+        const named = item as { filename?: string; name?: string };
+        return named.filename ?? named.name ?? JSON.stringify(item);
+      })
+      .join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
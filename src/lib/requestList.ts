@@ -0,0 +1,198 @@
+import {
+  CustomerRequest,
+  DashboardViewConfig,
+  RequestListPage,
+  RequestListSortKey,
+  RequestListSortRule,
+  RequestPriority,
+} from '@/types';
+
+export const REQUEST_LIST_PAGE_SIZE = 50;
+// Matches the server cap; reloads ask for everything already on screen in one page.
+export const REQUEST_LIST_MAX_PAGE_SIZE = 200;
+
+const SORT_KEYS: RequestListSortKey[] = [
+  'id',
+  'priority',
+  'status',
+  'clientName',
+  'applicationVehicle',
+  'country',
+  'createdByName',
+  'createdAt',
+  'updatedAt',
+];
+const PRIORITIES: RequestPriority[] = ['low', 'normal', 'high', 'urgent'];
+const NEXT_ACTION_ROLES = ['sales', 'design', 'costing', 'admin', 'none'];
+
+// Desktop table columns that can be hidden; the request id and row actions always stay visible.
+export const REQUEST_TABLE_COLUMNS = [
+  'priority',
+  'status',
+  'sla',
+  'nextAction',
+  'clientName',
+  'applicationVehicle',
+  'country',
+  'productType',
+  'createdBy',
+  'createdAt',
+] as const;
+
+export type RequestTableColumnKey = (typeof REQUEST_TABLE_COLUMNS)[number];
+
+export type RequestOwnershipFilter = 'all' | 'mine';
+
+// Dashboard filter state as it appears in the URL (`?filter=in_progress&owner=mine&sort=createdAt:desc`).
+export interface RequestListViewState {
+  filter: string;
+  owner: RequestOwnershipFilter;
+  countries: string[];
+  priorities: RequestPriority[];
+  nextActionRoles: string[];
+  createdFrom: string;
+  createdTo: string;
+  sort: RequestListSortRule[];
+  hiddenColumns: RequestTableColumnKey[];
+}
+
+export interface RequestListQuery {
+  statuses: string[];
+  owner: RequestOwnershipFilter;
+  countries: string[];
+  priorities: RequestPriority[];
+  nextActionRoles: string[];
+  createdFrom: string;
+  createdTo: string;
+  q: string;
+  sort: RequestListSortRule[];
+}
+
+const splitList = (value: string | null) =>
+  Array.from(
+    new Set(
+      String(value ?? '')
+        .split(',')
+        .map((item) => item.trim())
+        .filter(Boolean)
+    )
+  );
+
+const isDateInput = (value: string | null) => /^\d{4}-\d{2}-\d{2}$/.test(String(value ?? ''));
+
+export const parseSortParam = (value: string | null): RequestListSortRule[] => {
+  const rules: RequestListSortRule[] = [];
+  for (const part of splitList(value)) {
+    const [key, direction] = part.split(':');
+    if (!SORT_KEYS.includes(key as RequestListSortKey)) continue;
+    if (rules.some((rule) => rule.key === key)) continue;
+    rules.push({ key: key as RequestListSortKey, direction: direction === 'desc' ? 'desc' : 'asc' });
+  }
+  return rules;
+};
+
+export const formatSortParam = (rules: RequestListSortRule[]) =>
+  rules.map((rule) => `${rule.key}:${rule.direction}`).join(',');
+
+export const parseRequestListSearchParams = (params: URLSearchParams): RequestListViewState => ({
+  filter: String(params.get('filter') ?? '').trim() || 'all',
+  owner: params.get('owner') === 'mine' ? 'mine' : 'all',
+  countries: splitList(params.get('country')),
+  priorities: splitList(params.get('priority')).filter((value): value is RequestPriority =>
+    PRIORITIES.includes(value as RequestPriority)
+  ),
+  nextActionRoles: splitList(params.get('nextAction')).filter((value) => NEXT_ACTION_ROLES.includes(value)),
+  createdFrom: isDateInput(params.get('from')) ? String(params.get('from')) : '',
+  createdTo: isDateInput(params.get('to')) ? String(params.get('to')) : '',
+  sort: parseSortParam(params.get('sort')),
+  hiddenColumns: splitList(params.get('hide')).filter((value): value is RequestTableColumnKey =>
+    REQUEST_TABLE_COLUMNS.includes(value as RequestTableColumnKey)
+  ),
+});
+
+// Only non-default values are written so a plain dashboard keeps a clean URL.
+export const toRequestListSearchParams = (state: RequestListViewState, base?: URLSearchParams) => {
+  const next = new URLSearchParams(base);
+  const set = (key: string, value: string) => {
+    if (value) next.set(key, value);
+    else next.delete(key);
+  };
+  set('filter', state.filter === 'all' ? '' : state.filter);
+  set('owner', state.owner === 'mine' ? 'mine' : '');
+  set('country', state.countries.join(','));
+  set('priority', state.priorities.join(','));
+  set('nextAction', state.nextActionRoles.join(','));
+  set('from', state.createdFrom);
+  set('to', state.createdTo);
+  set('sort', formatSortParam(state.sort));
+  set('hide', state.hiddenColumns.join(','));
+  return next;
+};
+
+// `view` marks which saved view the URL came from; editing filters keeps it so the view can be updated.
+export const DASHBOARD_VIEW_PARAM = 'view';
+
+export const toDashboardViewConfig = (
+  state: RequestListViewState,
+  density: DashboardViewConfig['density']
+): DashboardViewConfig => ({ ...state, density });
+
+// Saved configs go through the URL parser so stale sort keys or column names are dropped.
+export const dashboardViewToSearchParams = (viewId: string, config: DashboardViewConfig) => {
+  const base = new URLSearchParams();
+  base.set(DASHBOARD_VIEW_PARAM, viewId);
+  const raw = toRequestListSearchParams(
+    { ...config, hiddenColumns: config.hiddenColumns as RequestTableColumnKey[] },
+    base
+  );
+  return toRequestListSearchParams(parseRequestListSearchParams(raw), raw);
+};
+
+const buildApiParams = (query: RequestListQuery, cursor: string | null, limit: number) => {
+  const params = new URLSearchParams();
+  if (query.statuses.length) params.set('status', query.statuses.join(','));
+  if (query.owner === 'mine') params.set('owner', 'me');
+  if (query.countries.length) params.set('country', query.countries.join(','));
+  if (query.priorities.length) params.set('priority', query.priorities.join(','));
+  if (query.nextActionRoles.length) params.set('nextActionRole', query.nextActionRoles.join(','));
+  if (query.createdFrom) params.set('createdFrom', query.createdFrom);
+  if (query.createdTo) params.set('createdTo', query.createdTo);
+  if (query.q.trim().length >= 2) params.set('q', query.q.trim());
+  if (query.sort.length) params.set('sort', formatSortParam(query.sort));
+  if (cursor) params.set('cursor', cursor);
+  params.set('limit', String(limit));
+  return params;
+};
+
+type RequestListItemRow = Omit<CustomerRequest, 'createdAt' | 'updatedAt' | 'slaDueAt'> & {
+  createdAt: string;
+  updatedAt: string;
+  slaDueAt?: string | null;
+};
+
+export const fetchRequestListPage = async (
+  query: RequestListQuery,
+  { cursor = null, limit = REQUEST_LIST_PAGE_SIZE, signal }: { cursor?: string | null; limit?: number; signal?: AbortSignal } = {}
+): Promise<RequestListPage> => {
+  const res = await fetch(`/api/requests/list?${buildApiParams(query, cursor, limit).toString()}`, {
+    cache: 'no-store',
+    signal,
+  });
+  const data = (await res.json().catch(() => null)) as
+    | (Omit<RequestListPage, 'items'> & { items?: RequestListItemRow[]; error?: string })
+    | null;
+  if (!res.ok || !data) {
+    throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+  }
+  return {
+    items: (Array.isArray(data.items) ? data.items : []).map((row) => ({
+      ...row,
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+      slaDueAt: row.slaDueAt ? new Date(row.slaDueAt) : null,
+    })),
+    nextCursor: data.nextCursor ?? null,
+    total: Number(data.total ?? 0),
+    statusCounts: data.statusCounts ?? {},
+  };
+};
@@ -0,0 +1,104 @@
+import { TranslationKeys } from '@/i18n/translations';
+import { TransitionRule } from '@/types';
+import { getRequestFieldLabel } from '@/lib/requestFieldLabels';
+
+// Client copy of the evaluator in server/transitionRules.js; the rules themselves come from GET /api/workflow.
+export interface TransitionRuleFailure {
+  rule: TransitionRule;
+  // 1-based item positions for list checks; empty otherwise.
+  items: number[];
+}
+
+const SUM_TOLERANCE = 0.01;
+
+const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number.parseFloat(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const isFilled = (value: unknown) => {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+};
+
+const normalizeText = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+const readField = (source: unknown, field: string): unknown =>
+  source && typeof source === 'object' ? (source as Record<string, unknown>)[field] : undefined;
+
+const checkRule = (rule: TransitionRule, request: object): number[] | null => {
+  const value = readField(request, rule.field);
+  switch (rule.check) {
+    case 'required':
+      return isFilled(value) ? null : [];
+    case 'number':
+      return toNumber(value) === null ? [] : null;
+    case 'positive': {
+      const number = toNumber(value);
+      return number !== null && number > 0 ? null : [];
+    }
+    case 'oneOf': {
+      const wanted = normalizeText(value);
+      return (rule.values ?? []).some((option) => normalizeText(option) === wanted) ? null : [];
+    }
+    case 'eachRequired': {
+      const items = Array.isArray(value) ? value : [];
+      if (!items.length) return [];
+      const failing = items
+        .map((item, index) =>
+          (rule.itemFields ?? []).every((field) => isFilled(readField(item, field))) ? null : index + 1
+        )
+        .filter((position): position is number => position !== null);
+      return failing.length ? failing : null;
+    }
+    case 'sum': {
+      const items = Array.isArray(value) ? value : [];
+      const total = items.reduce<number>(
+        (sum, item) => sum + (toNumber(readField(item, rule.itemField ?? '')) ?? 0),
+        0
+      );
+      return Math.abs(total - (rule.total ?? 0)) < SUM_TOLERANCE ? null : [];
+    }
+    default:
+      return null;
+  }
+};
+
+export const evaluateTransitionRules = (rules: TransitionRule[], request: object): TransitionRuleFailure[] => {
+  const failures: TransitionRuleFailure[] = [];
+  for (const rule of rules) {
+    if (rule.when && normalizeText(readField(request, rule.when.field)) !== normalizeText(rule.when.equals)) continue;
+    const items = checkRule(rule, request);
+    if (items) failures.push({ rule, items });
+  }
+  return failures;
+};
+
+export const describeTransitionRuleFailure = (t: TranslationKeys, { rule, items }: TransitionRuleFailure) => {
+  const field = getRequestFieldLabel(t, rule.field);
+  switch (rule.check) {
+    case 'number':
+      return t.request.transitionRuleNumber.replace('{field}', field);
+    case 'positive':
+      return t.request.transitionRulePositive.replace('{field}', field);
+    case 'oneOf':
+      return t.request.transitionRuleOneOf.replace('{field}', field);
+    case 'eachRequired':
+      if (!items.length) return t.request.transitionRuleRequired.replace('{field}', field);
+      return t.request.transitionRuleEachRequired
+        .replace('{field}', field)
+        .replace('{items}', items.join(', '))
+        .replace('{fields}', (rule.itemFields ?? []).map((key) => getRequestFieldLabel(t, key)).join(', '));
+    case 'sum':
+      return t.request.transitionRuleSum.replace('{field}', field).replace('{total}', String(rule.total ?? 0));
+    default:
+      return t.request.transitionRuleRequired.replace('{field}', field);
+  }
+};
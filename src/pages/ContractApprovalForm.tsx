@@ -3,16 +3,21 @@ import { useLocation, useNavigate, useParams } from 'react-router-dom';
 import { useContractApprovals } from '@/context/ContractApprovalContext';
 import { useAuth } from '@/context/AuthContext';
 import { useLanguage } from '@/context/LanguageContext';
-import { Attachment, ContractApprovalStatus } from '@/types';
+import { ApprovalSignatureDecision, Attachment, ContractApprovalStatus, Customer } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import ContractStatusBadge from '@/components/contract/ContractStatusBadge';
+import CustomerPicker from '@/components/customers/CustomerPicker';
+import ApprovalSignaturesPanel from '@/components/shared/ApprovalSignaturesPanel';
 import AttachmentPreviewDialog from '@/components/shared/AttachmentPreviewDialog';
+import AttachmentThumbnail from '@/components/shared/AttachmentThumbnail';
+import SignatureConfirmDialog from '@/components/shared/SignatureConfirmDialog';
 import { buildAttachmentHref } from '@/lib/attachmentPreview';
 import { toast } from 'sonner';
+import { isConcurrencyConflictError } from '@/lib/concurrency';
 import { Download, Eye, File, Loader2, Upload, X } from 'lucide-react';
 
 const readFilesAsAttachments = async (files: FileList | null): Promise<Attachment[]> => {
@@ -41,7 +46,7 @@ const ContractApprovalForm: React.FC = () => {
   const { id } = useParams();
   const location = useLocation();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, hasRole, hasPermission } = useAuth();
   const { t } = useLanguage();
   const { getContractByIdAsync, createContract, updateContract, updateStatus } = useContractApprovals();
 
@@ -53,6 +58,7 @@ const ContractApprovalForm: React.FC = () => {
   const [status, setStatus] = useState<ContractApprovalStatus>('draft');
   const [salesOwnerUserId, setSalesOwnerUserId] = useState<string>('');
   const [clientName, setClientName] = useState('');
+  const [customerId, setCustomerId] = useState<string | null>(null);
   const [craNumber, setCraNumber] = useState('');
   const [contractAmount, setContractAmount] = useState('');
   const [paymentTerms, setPaymentTerms] = useState('');
@@ -77,6 +83,7 @@ const ContractApprovalForm: React.FC = () => {
   const [isLookingUpCra, setIsLookingUpCra] = useState(false);
   const [decisionComment, setDecisionComment] = useState('');
   const [decisionError, setDecisionError] = useState('');
+  const [signingDecision, setSigningDecision] = useState<ApprovalSignatureDecision | null>(null);
   const draftInputRef = useRef<HTMLInputElement | null>(null);
   const stampedInputRef = useRef<HTMLInputElement | null>(null);
 
@@ -92,6 +99,7 @@ const ContractApprovalForm: React.FC = () => {
         setStatus(data.status);
         setSalesOwnerUserId(data.salesOwnerUserId);
         setClientName(data.clientName);
+        setCustomerId(data.customerId ?? null);
         setCraNumber(data.craNumber ?? '');
         setContractAmount(typeof data.contractAmount === 'number' ? String(data.contractAmount) : '');
         setPaymentTerms(data.paymentTerms ?? '');
@@ -129,34 +137,34 @@ const ContractApprovalForm: React.FC = () => {
   }, [getContractByIdAsync, id, isNew]);
 
   const canEditDraft = useMemo(() => {
-    if (isNew) return user?.role === 'sales' || user?.role === 'admin';
+    if (isNew) return hasRole('sales') || hasRole('admin');
     if (!isEditPath) return false;
-    if (user?.role === 'admin') return status === 'draft' || status === 'finance_rejected' || status === 'gm_rejected';
-    if (user?.role === 'sales') {
+    if (hasRole('admin')) return status === 'draft' || status === 'finance_rejected' || status === 'gm_rejected';
+    if (user && hasRole('sales')) {
       return salesOwnerUserId === user.id && (status === 'draft' || status === 'finance_rejected' || status === 'gm_rejected');
     }
     return false;
-  }, [isEditPath, isNew, salesOwnerUserId, status, user]);
+  }, [hasRole, isEditPath, isNew, salesOwnerUserId, status, user]);
 
   const canFinanceReview = useMemo(() => {
     if (!isEditPath) return false;
-    return user?.role === 'finance' && status === 'submitted';
-  }, [isEditPath, status, user]);
+    return hasRole('finance') && status === 'submitted';
+  }, [hasRole, isEditPath, status]);
 
   const canAdminDecision = useMemo(() => {
     if (!isEditPath) return false;
-    return user?.role === 'admin' && status === 'finance_approved';
-  }, [isEditPath, status, user]);
+    return hasPermission('approve_gm') && status === 'finance_approved';
+  }, [hasPermission, isEditPath, status]);
 
   const canCashierUpload = useMemo(() => {
     if (!isEditPath) return false;
-    return user?.role === 'cashier' && status === 'gm_approved';
-  }, [isEditPath, status, user]);
+    return hasRole('cashier') && status === 'gm_approved';
+  }, [hasRole, isEditPath, status]);
 
   const canFinanceLegacyEdit = useMemo(() => {
     if (!isEditPath) return false;
-    return user?.role === 'finance' && status === 'finance_upload';
-  }, [isEditPath, status, user]);
+    return hasRole('finance') && status === 'finance_upload';
+  }, [hasRole, isEditPath, status]);
 
   const canStampedEdit = canCashierUpload || canFinanceLegacyEdit;
   const canCommentEdit = canEditDraft || canStampedEdit || canFinanceReview || canAdminDecision;
@@ -179,6 +187,7 @@ const ContractApprovalForm: React.FC = () => {
         return;
       }
       setClientName(String(data?.clientName ?? ''));
+      setCustomerId(data?.customerId ? String(data.customerId) : null);
       setContractAmount(typeof data?.contractAmount === 'number' ? String(data.contractAmount) : '');
       setPaymentTerms(String(data?.paymentTerms ?? ''));
       setValidity(String(data?.validity ?? ''));
@@ -223,8 +232,18 @@ const ContractApprovalForm: React.FC = () => {
     setStampedFiles((prev) => prev.filter((item) => item.id !== idValue));
   };
 
+  // Account defaults only fill terms that are still empty so a CRA prefill is never overwritten.
+  const applyCustomer = (customer: Customer) => {
+    setCustomerId(customer.id);
+    setClientName(customer.name);
+    if (!paymentTerms.trim() && customer.defaultPaymentTerms) setPaymentTerms(customer.defaultPaymentTerms);
+    if (!approvedCurrency && customer.defaultCurrency) setApprovedCurrency(customer.defaultCurrency);
+    if (!approvedIncoterm.trim() && customer.defaultIncoterm) setApprovedIncoterm(customer.defaultIncoterm);
+  };
+
   const buildPayload = () => ({
     clientName,
+    customerId,
     craNumber,
     contractAmount: contractAmount.trim() ? Number.parseFloat(contractAmount) : null,
     paymentTerms,
@@ -287,6 +306,15 @@ const ContractApprovalForm: React.FC = () => {
     return 2;
   };
 
+  // A version conflict means the stored copy was replaced by the server copy, which the load effect re-applies.
+  const showSaveError = (error: unknown) => {
+    if (isConcurrencyConflictError(error)) {
+      toast.error(t.contractApproval.messages.versionConflict);
+      return;
+    }
+    toast.error(error instanceof Error ? error.message : String(error));
+  };
+
   const saveDraft = async () => {
     try {
       if (isNew) {
@@ -301,7 +329,7 @@ const ContractApprovalForm: React.FC = () => {
         toast.success(t.contractApproval.messages.saved);
       }
     } catch (error: any) {
-      toast.error(String(error?.message ?? error));
+      showSaveError(error);
     }
   };
 
@@ -349,7 +377,7 @@ const ContractApprovalForm: React.FC = () => {
       toast.success(t.contractApproval.messages.submitted);
       navigate(`/contract-approvals/${contractId}`, { replace: true });
     } catch (error: any) {
-      toast.error(String(error?.message ?? error));
+      showSaveError(error);
     }
   };
 
@@ -363,6 +391,11 @@ const ContractApprovalForm: React.FC = () => {
       toast.error(t.contractApproval.validation.invalidDecisionState);
       return false;
     }
+    // GM decisions are signed with the approver's password first.
+    if (nextStatus === 'gm_approved') {
+      setSigningDecision('approved');
+      return true;
+    }
 
     try {
       await updateStatus(contractId, nextStatus, decisionComment.trim());
@@ -394,6 +427,10 @@ const ContractApprovalForm: React.FC = () => {
       toast.error(t.contractApproval.validation.invalidDecisionState);
       return false;
     }
+    if (nextStatus === 'gm_rejected') {
+      setSigningDecision('rejected');
+      return true;
+    }
 
     try {
       await updateStatus(contractId, nextStatus, trimmedComment);
@@ -409,6 +446,22 @@ const ContractApprovalForm: React.FC = () => {
     }
   };
 
+  const signGmDecision = async (password: string) => {
+    if (!contractId) return false;
+    const nextStatus: ContractApprovalStatus = signingDecision === 'rejected' ? 'gm_rejected' : 'gm_approved';
+    try {
+      await updateStatus(contractId, nextStatus, decisionComment.trim(), { password });
+      toast.success(nextStatus === 'gm_approved' ? t.contractApproval.messages.approved : t.contractApproval.messages.rejected);
+      setSigningDecision(null);
+      setDecisionComment('');
+      setDecisionError('');
+      navigate('/contract-approvals');
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
   const financeUpload = async () => {
     if (!contractId) return;
     if (!stampedFiles.length) {
@@ -420,7 +473,7 @@ const ContractApprovalForm: React.FC = () => {
       toast.success(t.contractApproval.messages.cashierCompleted ?? t.contractApproval.messages.completed);
       navigate(`/contract-approvals/${contractId}`);
     } catch (error: any) {
-      toast.error(String(error?.message ?? error));
+      showSaveError(error);
     }
   };
 
@@ -432,7 +485,7 @@ const ContractApprovalForm: React.FC = () => {
       toast.success(t.contractApproval.messages.completed);
       navigate('/contract-approvals');
     } catch (error: any) {
-      toast.error(String(error?.message ?? error));
+      showSaveError(error);
     }
   };
 
@@ -456,7 +509,7 @@ const ContractApprovalForm: React.FC = () => {
             <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-12 gap-3">
               <div className="space-y-1.5 xl:col-span-3">
                 <Label>{t.contractApproval.fields.clientName}</Label>
-                <Input className="h-9" value={clientName} onChange={(e) => setClientName(e.target.value)} disabled={!canEditDraft} />
+                <CustomerPicker customerId={customerId} clientName={clientName} onSelect={applyCustomer} disabled={!canEditDraft} />
               </div>
               <div className="space-y-1.5 xl:col-span-4">
                 <Label>{t.contractApproval.fields.craNumber}</Label>
@@ -654,7 +707,7 @@ const ContractApprovalForm: React.FC = () => {
                       className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/40 px-3 py-2"
                     >
                       <div className="flex min-w-0 flex-1 items-center gap-2">
-                        <File size={16} className="text-primary" />
+                        <AttachmentThumbnail attachment={att} />
                         <span className="text-sm truncate">{att.filename}</span>
                       </div>
                       <div className="flex items-center gap-1">
@@ -728,7 +781,7 @@ const ContractApprovalForm: React.FC = () => {
                       className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/40 px-3 py-2"
                     >
                       <div className="flex min-w-0 flex-1 items-center gap-2">
-                        <File size={16} className="text-primary" />
+                        <AttachmentThumbnail attachment={att} />
                         <span className="text-sm truncate">{att.filename}</span>
                       </div>
                       <div className="flex items-center gap-1">
@@ -794,6 +847,12 @@ const ContractApprovalForm: React.FC = () => {
             </div>
           ) : null}
 
+          {!isNew && contractId && history.some((entry) => entry.status === 'gm_approved' || entry.status === 'gm_rejected') ? (
+            <div className="rounded-lg border border-border bg-card p-3">
+              <ApprovalSignaturesPanel targetType="contract" targetId={contractId} refreshKey={history.length} />
+            </div>
+          ) : null}
+
           <div className="flex flex-wrap gap-2">
             <Button size="sm" variant="outline" onClick={() => navigate('/contract-approvals')}>
               {t.common.back}
@@ -850,6 +909,11 @@ const ContractApprovalForm: React.FC = () => {
         }}
         attachment={previewAttachment}
       />
+      <SignatureConfirmDialog
+        decision={signingDecision}
+        onCancel={() => setSigningDecision(null)}
+        onConfirm={signGmDecision}
+      />
     </div>
   );
 };
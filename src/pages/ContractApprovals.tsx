@@ -12,7 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import KPICard from '@/components/dashboard/KPICard';
 import ContractApprovalsTable from '@/components/contract/ContractApprovalsTable';
 import ContractReviewDrawer from '@/components/contract/ContractReviewDrawer';
-import { ContractApprovalStatus } from '@/types';
+import SignatureConfirmDialog from '@/components/shared/SignatureConfirmDialog';
+import { ApprovalSignatureDecision, ContractApprovalStatus } from '@/types';
 import { cn } from '@/lib/utils';
 
 type FilterType = 'all' | ContractApprovalStatus | 'in_progress' | 'completed_group' | 'needs_attention';
@@ -23,7 +24,7 @@ const COMPLETED_STATUSES: ContractApprovalStatus[] = ['completed'];
 const NEEDS_ATTENTION_STATUSES: ContractApprovalStatus[] = ['finance_rejected', 'gm_rejected'];
 
 const ContractApprovals: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasRole } = useAuth();
   const navigate = useNavigate();
   const { contracts, isLoading, updateStatus, refreshContracts } = useContractApprovals();
   const { t } = useLanguage();
@@ -34,6 +35,12 @@ const ContractApprovals: React.FC = () => {
   const [reviewContractId, setReviewContractId] = useState<string | null>(null);
   const [isReviewOpen, setIsReviewOpen] = useState(false);
   const [searchMatchedIds, setSearchMatchedIds] = useState<Set<string>>(new Set());
+  // GM decision waiting for the approver's password.
+  const [pendingSignature, setPendingSignature] = useState<{
+    id: string;
+    decision: ApprovalSignatureDecision;
+    comment: string;
+  } | null>(null);
 
   const ownershipFiltered = useMemo(() => {
     if (ownershipFilter !== 'mine') return contracts;
@@ -67,6 +74,16 @@ const ContractApprovals: React.FC = () => {
     return filtered.filter((item) => searchMatchedIds.has(item.id));
   }, [filtered, isSearchMode, searchMatchedIds]);
 
+  // Summed in the reporting currency; contracts without a rate for their currency are left out.
+  const displayedTotal = useMemo(() => {
+    const amounts = displayedContracts.filter((item) => typeof item.contractAmountReporting === 'number');
+    if (!amounts.length) return null;
+    return {
+      currency: amounts[0].reportingCurrency ?? 'EUR',
+      amount: amounts.reduce((sum, item) => sum + Number(item.contractAmountReporting), 0),
+    };
+  }, [displayedContracts]);
+
   useEffect(() => {
     let cancelled = false;
     const q = globalSearchQuery.trim();
@@ -133,6 +150,10 @@ const ContractApprovals: React.FC = () => {
       toast.error(t.contractApproval.validation.invalidDecisionState);
       return false;
     }
+    if (status === 'gm_approved') {
+      setPendingSignature({ id, decision: 'approved', comment: (comment ?? '').trim() });
+      return false;
+    }
 
     try {
       await updateStatus(id, status, (comment ?? '').trim());
@@ -166,6 +187,10 @@ const ContractApprovals: React.FC = () => {
       toast.error(t.contractApproval.validation.invalidDecisionState);
       return false;
     }
+    if (status === 'gm_rejected') {
+      setPendingSignature({ id, decision: 'rejected', comment: trimmedComment });
+      return false;
+    }
 
     try {
       await updateStatus(id, status, trimmedComment);
@@ -179,6 +204,20 @@ const ContractApprovals: React.FC = () => {
     }
   };
 
+  const onSignGmDecision = async (password: string) => {
+    if (!pendingSignature) return false;
+    const { id, decision, comment } = pendingSignature;
+    try {
+      await updateStatus(id, decision === 'approved' ? 'gm_approved' : 'gm_rejected', comment, { password });
+      toast.success(decision === 'approved' ? t.contractApproval.messages.approved : t.contractApproval.messages.rejected);
+      setPendingSignature(null);
+      await refreshContracts();
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
   const onComplete = async (id: string) => {
     try {
       await updateStatus(id, 'completed');
@@ -210,7 +249,7 @@ const ContractApprovals: React.FC = () => {
           <h1 className={cn('font-semibold text-foreground', density === 'compact' ? 'text-xl' : 'text-2xl')}>{t.contractApproval.title}</h1>
           <p className={cn('text-muted-foreground', density === 'compact' ? 'text-xs' : 'text-sm')}>{t.contractApproval.description}</p>
         </div>
-        {user?.role === 'sales' || user?.role === 'admin' ? (
+        {hasRole('sales') || hasRole('admin') ? (
           <Button onClick={() => navigate('/contract-approvals/new')} className={density === 'compact' ? 'h-8 px-3 text-xs' : undefined}>
             <Plus size={14} className="mr-2" />
             {t.contractApproval.newContract}
@@ -255,6 +294,12 @@ const ContractApprovals: React.FC = () => {
         <div className={cn('flex items-center gap-2 text-muted-foreground', density === 'compact' ? 'mt-2 text-xs' : 'mt-3 text-sm')}>
           <span>{displayedContracts.length}</span>
           <span>{isSearchMode ? t.common.filtered : t.common.total}</span>
+          {displayedTotal ? (
+            <span className="tabular-nums">
+              · {t.contractApproval.table.totalValue}: {displayedTotal.currency}{' '}
+              {displayedTotal.amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+            </span>
+          ) : null}
           {isSearchMode ? (
             <span className="text-xs rounded-full px-2 py-0.5 bg-primary/10 text-primary border border-primary/20">
               Search: {globalSearchQuery.trim()}
@@ -268,7 +313,7 @@ const ContractApprovals: React.FC = () => {
       ) : (
         <ContractApprovalsTable
           contracts={displayedContracts}
-          userRole={user?.role ?? 'sales'}
+          userRoles={user?.roles ?? []}
           onQuickReview={onQuickReview}
           onView={(id) => navigate(`/contract-approvals/${id}`)}
           onEdit={(id) => navigate(`/contract-approvals/${id}/edit`)}
@@ -284,7 +329,7 @@ const ContractApprovals: React.FC = () => {
           if (!next) setReviewContractId(null);
         }}
         contractId={reviewContractId}
-        userRole={user?.role ?? 'sales'}
+        userRoles={user?.roles ?? []}
         onView={(id) => navigate(`/contract-approvals/${id}`)}
         onEdit={(id) => navigate(`/contract-approvals/${id}/edit`)}
         onApprove={onRequestApprove}
@@ -292,6 +337,11 @@ const ContractApprovals: React.FC = () => {
         onFinanceUpload={(id) => navigate(`/contract-approvals/${id}/edit`)}
         onComplete={onComplete}
       />
+      <SignatureConfirmDialog
+        decision={pendingSignature?.decision ?? null}
+        onCancel={() => setPendingSignature(null)}
+        onConfirm={onSignGmDecision}
+      />
     </div>
   );
 };
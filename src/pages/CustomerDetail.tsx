@@ -0,0 +1,341 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { GitMerge, Pencil } from 'lucide-react';
+
+import { useAuth } from '@/context/AuthContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { ContractApproval, Customer, CustomerRequest } from '@/types';
+import { localizeApiError } from '@/utils/localizeApiError';
+import ContractStatusBadge from '@/components/contract/ContractStatusBadge';
+import CustomerFormDialog from '@/components/customers/CustomerFormDialog';
+import CustomerPicker from '@/components/customers/CustomerPicker';
+import StatusBadge from '@/components/ui/StatusBadge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const readJson = async (res: Response) => {
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+  return data;
+};
+
+const toDate = (value: Date | string | null | undefined) => {
+  if (!value) return '-';
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) return '-';
+  return format(date, 'yyyy-MM-dd');
+};
+
+const toAmount = (value: number | null | undefined) => {
+  if (typeof value !== 'number') return '-';
+  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+};
+
+const CustomerDetail: React.FC = () => {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const { hasRole, hasPermission } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [requests, setRequests] = useState<CustomerRequest[]>([]);
+  const [requestTotal, setRequestTotal] = useState(0);
+  const [contracts, setContracts] = useState<ContractApproval[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [mergeTarget, setMergeTarget] = useState<Customer | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const canEdit = hasRole('sales') || hasRole('admin');
+  const canMerge = hasPermission('manage_settings');
+  // The contract summary is limited to these roles; others only see the CRAs.
+  const canViewContracts = hasRole('sales') || hasRole('admin') || hasRole('finance') || hasRole('cashier');
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const encodedId = encodeURIComponent(id);
+      const [customerData, requestData, contractData] = await Promise.all([
+        fetch(`/api/customers/${encodedId}`, { cache: 'no-store' }).then(readJson),
+        fetch(`/api/requests/list?customer=${encodedId}&limit=200&sort=createdAt:desc`, { cache: 'no-store' }).then(readJson),
+        canViewContracts
+          ? fetch(`/api/contracts/summary?customerId=${encodedId}`, { cache: 'no-store' }).then(readJson)
+          : Promise.resolve(null),
+      ]);
+      setCustomer(customerData as Customer);
+      setRequests(Array.isArray(requestData?.items) ? requestData.items : []);
+      setRequestTotal(typeof requestData?.total === 'number' ? requestData.total : 0);
+      setContracts(Array.isArray(contractData) ? contractData : null);
+    } catch (error) {
+      setCustomer(null);
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, canViewContracts, t, toast]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const merge = async () => {
+    if (!customer || !mergeTarget) return;
+    setIsMerging(true);
+    try {
+      await readJson(
+        await fetch(`/api/customers/${encodeURIComponent(customer.id)}/merge`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ targetCustomerId: mergeTarget.id }),
+        })
+      );
+      toast({ title: t.customers.title, description: t.customers.merged });
+      setIsMergeOpen(false);
+      navigate(`/customers/${encodeURIComponent(mergeTarget.id)}`, { replace: true });
+    } catch (error) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (isLoading && !customer) {
+    return <div className="rounded-lg border border-border bg-card p-6 text-muted-foreground">{t.common.loading}</div>;
+  }
+
+  if (!customer) {
+    return (
+      <div className="rounded-lg border border-border bg-card p-6 space-y-3">
+        <p className="text-muted-foreground">{t.customers.notFound}</p>
+        <Button variant="outline" onClick={() => navigate('/customers')}>
+          {t.customers.backToList}
+        </Button>
+      </div>
+    );
+  }
+
+  const details: Array<[string, string]> = [
+    [t.customers.country, customer.country],
+    [t.customers.city, customer.city],
+    [t.customers.owner, customer.ownerName],
+    [t.customers.defaultIncoterm, customer.defaultIncoterm],
+    [t.customers.defaultCurrency, customer.defaultCurrency],
+    [t.customers.defaultPaymentTerms, customer.defaultPaymentTerms],
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{customer.name}</h1>
+          <p className="text-muted-foreground mt-1">
+            {t.customers.updatedAt}: {toDate(customer.updatedAt)}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {canMerge && (
+            <Button
+              variant="outline"
+              onClick={() => {
+                setMergeTarget(null);
+                setIsMergeOpen(true);
+              }}
+            >
+              <GitMerge size={16} className="mr-2" />
+              {t.customers.merge}
+            </Button>
+          )}
+          {canEdit && (
+            <Button onClick={() => setIsEditOpen(true)}>
+              <Pencil size={16} className="mr-2" />
+              {t.common.edit}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+          <h2 className="text-lg font-semibold text-foreground">{t.customers.details}</h2>
+          <dl className="space-y-2 text-sm">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="whitespace-pre-wrap text-foreground">{value || '-'}</dd>
+              </div>
+            ))}
+          </dl>
+          {customer.notes && (
+            <div className="text-sm">
+              <div className="text-muted-foreground">{t.customers.notes}</div>
+              <p className="whitespace-pre-wrap text-foreground">{customer.notes}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+          <h2 className="text-lg font-semibold text-foreground">{t.customers.contacts}</h2>
+          {customer.contacts.length === 0 && <p className="text-sm text-muted-foreground">{t.customers.noContacts}</p>}
+          {customer.contacts.map((contact) => (
+            <div key={contact.id} className="text-sm">
+              <div className="font-medium text-foreground">
+                {contact.name}
+                {contact.isPrimary && <span className="ml-2 text-xs text-primary">{t.customers.primaryContact}</span>}
+              </div>
+              {contact.jobTitle && <div className="text-muted-foreground">{contact.jobTitle}</div>}
+              {contact.email && (
+                <a href={`mailto:${contact.email}`} className="block text-primary hover:underline">
+                  {contact.email}
+                </a>
+              )}
+              {contact.phone && <div className="text-muted-foreground">{contact.phone}</div>}
+            </div>
+          ))}
+        </div>
+
+        <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+          <h2 className="text-lg font-semibold text-foreground">{t.customers.addresses}</h2>
+          {customer.addresses.length === 0 && <p className="text-sm text-muted-foreground">{t.customers.noAddresses}</p>}
+          {customer.addresses.map((address) => (
+            <div key={address.id} className="text-sm">
+              <div className="font-medium text-foreground">
+                {address.label || t.customers.address}
+                {address.isDefaultDelivery && <span className="ml-2 text-xs text-primary">{t.customers.defaultDelivery}</span>}
+              </div>
+              <p className="whitespace-pre-wrap text-muted-foreground">{address.address}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+        <h2 className="text-lg font-semibold text-foreground">
+          {t.customers.requests} ({requestTotal})
+        </h2>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t.customers.noRequests}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ID</TableHead>
+                  <TableHead>{t.common.status}</TableHead>
+                  <TableHead>{t.request.applicationVehicle}</TableHead>
+                  <TableHead>{t.customers.createdBy}</TableHead>
+                  <TableHead>{t.common.date}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell className="font-medium">
+                      <Link to={`/requests/${encodeURIComponent(request.id)}`} className="text-primary hover:underline">
+                        {request.id}
+                      </Link>
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadge status={request.status} />
+                    </TableCell>
+                    <TableCell>{request.applicationVehicle || '-'}</TableCell>
+                    <TableCell>{request.createdByName || '-'}</TableCell>
+                    <TableCell className="whitespace-nowrap">{toDate(request.createdAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {requestTotal > requests.length && (
+          <p className="text-xs text-muted-foreground">
+            {t.common.showing} {requests.length} {t.common.of} {requestTotal}
+          </p>
+        )}
+      </div>
+
+      {contracts && (
+        <div className="rounded-lg border border-border bg-card p-4 space-y-3">
+          <h2 className="text-lg font-semibold text-foreground">
+            {t.customers.contracts} ({contracts.length})
+          </h2>
+          {contracts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t.customers.noContracts}</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>ID</TableHead>
+                    <TableHead>{t.common.status}</TableHead>
+                    <TableHead>{t.contractApproval.fields.craNumber}</TableHead>
+                    <TableHead>{t.contractApproval.fields.contractAmount}</TableHead>
+                    <TableHead>{t.customers.updatedAt}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {contracts.map((contract) => (
+                    <TableRow key={contract.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/contract-approvals/${encodeURIComponent(contract.id)}`} className="text-primary hover:underline">
+                          {contract.id}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <ContractStatusBadge status={contract.status} />
+                      </TableCell>
+                      <TableCell>{contract.craNumber || '-'}</TableCell>
+                      <TableCell className="whitespace-nowrap">{toAmount(contract.contractAmount)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{toDate(contract.updatedAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {canEdit && (
+        <CustomerFormDialog open={isEditOpen} onOpenChange={setIsEditOpen} customer={customer} onSaved={() => void load()} />
+      )}
+
+      {canMerge && (
+        <Dialog open={isMergeOpen} onOpenChange={setIsMergeOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{t.customers.mergeTitle}</DialogTitle>
+              <DialogDescription>{t.customers.mergeDesc.replace('{name}', customer.name)}</DialogDescription>
+            </DialogHeader>
+            <CustomerPicker
+              customerId={mergeTarget?.id ?? null}
+              clientName={mergeTarget?.name ?? ''}
+              onSelect={setMergeTarget}
+              excludeId={customer.id}
+            />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsMergeOpen(false)} disabled={isMerging}>
+                {t.common.cancel}
+              </Button>
+              <Button variant="destructive" onClick={() => void merge()} disabled={!mergeTarget || isMerging}>
+                {t.customers.mergeConfirm}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+};
+
+export default CustomerDetail;
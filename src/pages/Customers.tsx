@@ -0,0 +1,150 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Plus, RefreshCw } from 'lucide-react';
+
+import { useAuth } from '@/context/AuthContext';
+import { useLanguage } from '@/context/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { CustomerListItem } from '@/types';
+import { localizeApiError } from '@/utils/localizeApiError';
+import CustomerFormDialog from '@/components/customers/CustomerFormDialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const readJson = async (res: Response) => {
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+  return data;
+};
+
+const Customers: React.FC = () => {
+  const navigate = useNavigate();
+  const { hasRole } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [customers, setCustomers] = useState<CustomerListItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [keyword, setKeyword] = useState('');
+  const [owner, setOwner] = useState<'all' | 'mine'>('all');
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const canEdit = hasRole('sales') || hasRole('admin');
+
+  const loadCustomers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const query = owner === 'mine' ? '?owner=me' : '';
+      const data = await readJson(await fetch(`/api/customers${query}`, { cache: 'no-store' }));
+      setCustomers(Array.isArray(data) ? data : []);
+    } catch (error) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [owner, t, toast]);
+
+  useEffect(() => {
+    void loadCustomers();
+  }, [loadCustomers]);
+
+  const filteredCustomers = useMemo(() => {
+    const normalizedKeyword = keyword.trim().toLowerCase();
+    if (!normalizedKeyword) return customers;
+    return customers.filter((customer) =>
+      [customer.name, customer.country, customer.city, customer.ownerName]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase()
+        .includes(normalizedKeyword)
+    );
+  }, [customers, keyword]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{t.customers.title}</h1>
+          <p className="text-muted-foreground mt-1">{t.customers.description}</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" onClick={() => void loadCustomers()} disabled={isLoading}>
+            <RefreshCw size={16} className={isLoading ? 'mr-2 animate-spin' : 'mr-2'} />
+            {t.common.refresh}
+          </Button>
+          {canEdit && (
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <Plus size={16} className="mr-2" />
+              {t.customers.newCustomer}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-3 rounded-lg border border-border bg-card p-4 md:flex-row md:items-center">
+        <Input
+          value={keyword}
+          onChange={(event) => setKeyword(event.target.value)}
+          placeholder={t.customers.searchPlaceholder}
+          className="md:max-w-md"
+        />
+        <Select value={owner} onValueChange={(value) => setOwner(value as 'all' | 'mine')}>
+          <SelectTrigger className="md:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t.customers.allCustomers}</SelectItem>
+            <SelectItem value="mine">{t.customers.myCustomers}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!isLoading && filteredCustomers.length === 0 ? (
+        <div className="rounded-lg border border-border bg-card p-6 text-muted-foreground">{t.customers.emptyState}</div>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border border-border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t.customers.name}</TableHead>
+                <TableHead>{t.customers.location}</TableHead>
+                <TableHead>{t.customers.owner}</TableHead>
+                <TableHead className="text-right">{t.customers.requests}</TableHead>
+                <TableHead className="text-right">{t.customers.contracts}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredCustomers.map((customer) => (
+                <TableRow
+                  key={customer.id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/customers/${encodeURIComponent(customer.id)}`)}
+                >
+                  <TableCell className="font-medium">{customer.name}</TableCell>
+                  <TableCell>{[customer.city, customer.country].filter(Boolean).join(', ') || '-'}</TableCell>
+                  <TableCell>{customer.ownerName || '-'}</TableCell>
+                  <TableCell className="text-right">{customer.requestCount}</TableCell>
+                  <TableCell className="text-right">{customer.contractCount}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {canEdit && (
+        <CustomerFormDialog
+          open={isCreateOpen}
+          onOpenChange={setIsCreateOpen}
+          onSaved={(customer) => navigate(`/customers/${encodeURIComponent(customer.id)}`)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Customers;
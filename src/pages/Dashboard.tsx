@@ -1,5 +1,5 @@
-import React, { useMemo, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useCallback, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   FileText, 
   Clock, 
@@ -8,13 +8,32 @@ import {
   TrendingUp,
   Filter,
   Plus,
-  X
+  X,
+  Bookmark,
+  Columns3,
+  Save,
+  Trash2,
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { useAuth } from '@/context/AuthContext';
 import { useRequests } from '@/context/RequestContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { useAppShell } from '@/context/AppShellContext';
+import { useAdminSettings } from '@/context/AdminSettingsContext';
+import { useDashboardViews } from '@/hooks/use-dashboard-views';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import {
   Select,
   SelectContent,
@@ -25,10 +44,33 @@ import {
 import KPICard from '@/components/dashboard/KPICard';
 import RequestsTable from '@/components/dashboard/RequestsTable';
 import { cn } from '@/lib/utils';
-import { RequestStatus, STATUS_CONFIG } from '@/types';
+import {
+  DASHBOARD_VIEW_PARAM,
+  REQUEST_TABLE_COLUMNS,
+  RequestListQuery,
+  RequestListViewState,
+  RequestOwnershipFilter,
+  RequestTableColumnKey,
+  dashboardViewToSearchParams,
+  parseRequestListSearchParams,
+  toDashboardViewConfig,
+  toRequestListSearchParams,
+} from '@/lib/requestList';
+import { useRequestList } from '@/hooks/use-request-list';
+import {
+  DashboardView,
+  DashboardViewShareRole,
+  RequestListSortRule,
+  RequestPriority,
+  RequestStatus,
+  STATUS_CONFIG,
+} from '@/types';
 
 type FilterType = 'all' | RequestStatus | 'in_progress' | 'completed' | 'needs_attention' | 'costing_processed';
-type OwnershipFilter = 'all' | 'mine';
+const ANY_VALUE = '__any__';
+const NEXT_ACTION_ROLES = ['sales', 'design', 'costing', 'admin'] as const;
+const PERSONAL_VIEW = '__personal__';
+const SHARE_ROLES: DashboardViewShareRole[] = ['all', 'sales', 'design', 'costing', 'admin', 'finance', 'cashier'];
 
 // Completed means finished/approved/closed. A GM rejection returns to Sales follow-up (WIP).
 const FINAL_STATUSES: RequestStatus[] = ['gm_approved', 'closed'];
@@ -56,78 +98,171 @@ const COSTING_PROCESSED_STATUSES: RequestStatus[] = [
   'gm_rejected',
 ];
 
+// Compound dashboard filters map to status sets; anything else is a single status code.
+const resolveFilterStatuses = (filter: string): string[] => {
+  if (filter === 'all') return [];
+  if (filter === 'in_progress') return IN_PROGRESS_STATUSES;
+  if (filter === 'completed') return FINAL_STATUSES;
+  if (filter === 'needs_attention') return NEEDS_ATTENTION_STATUSES;
+  if (filter === 'costing_processed') return COSTING_PROCESSED_STATUSES;
+  return [filter];
+};
+
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const { requests, deleteRequest } = useRequests();
-  const { t } = useLanguage();
-  const { density, globalSearchQuery, searchResults } = useAppShell();
-  const [activeFilter, setActiveFilter] = useState<FilterType>('all');
-  const [ownershipFilter, setOwnershipFilter] = useState<OwnershipFilter>('all');
-
-  // All roles can see all requests - they use filters to focus on relevant ones
-  const roleFilteredRequests = useMemo(() => {
-    if (!user) return [];
-    return requests;
-  }, [requests, user]);
+  const { user, hasRole, hasPermission } = useAuth();
+  const { deleteRequest, lastSyncAt } = useRequests();
+  const { t, translateOption } = useLanguage();
+  const { density, setDensity, globalSearchQuery } = useAppShell();
+  const { countries } = useAdminSettings();
+  const { views: savedViews, createView, updateView: updateSavedView, deleteView } = useDashboardViews();
+  const [isSaveViewOpen, setIsSaveViewOpen] = useState(false);
+  const [newViewName, setNewViewName] = useState('');
+  const [newViewShareRole, setNewViewShareRole] = useState<string>(PERSONAL_VIEW);
+  const [isSavingView, setIsSavingView] = useState(false);
+  // Filter and sort state lives in the URL so a filtered view can be shared or bookmarked.
+  const [searchParams, setSearchParams] = useSearchParams();
+  const view = useMemo(() => parseRequestListSearchParams(searchParams), [searchParams]);
+  const activeFilter = view.filter as FilterType;
+  const ownershipFilter = view.owner;
+  const activeSavedView = savedViews.find((item) => item.id === searchParams.get(DASHBOARD_VIEW_PARAM)) ?? null;
+
+  const updateView = useCallback(
+    (patch: Partial<RequestListViewState>) => {
+      setSearchParams(
+        (prev) => toRequestListSearchParams({ ...parseRequestListSearchParams(prev), ...patch }, prev),
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const applySavedView = (savedView: DashboardView) => {
+    setSearchParams(dashboardViewToSearchParams(savedView.id, savedView.config));
+    setDensity(savedView.config.density);
+  };
+
+  const toggleColumn = (column: RequestTableColumnKey, visible: boolean) => {
+    updateView({
+      hiddenColumns: visible
+        ? view.hiddenColumns.filter((item) => item !== column)
+        : [...view.hiddenColumns, column],
+    });
+  };
 
-  // Apply ownership filter
-  const ownershipFilteredRequests = useMemo(() => {
-    if (ownershipFilter === 'mine' && user) {
-      return roleFilteredRequests.filter(r => r.createdBy === user.id);
+  const openSaveViewDialog = () => {
+    setNewViewName('');
+    setNewViewShareRole(PERSONAL_VIEW);
+    setIsSaveViewOpen(true);
+  };
+
+  const handleSaveView = async () => {
+    const name = newViewName.trim();
+    if (!name) return;
+    setIsSavingView(true);
+    try {
+      const created = await createView({
+        name,
+        config: toDashboardViewConfig(view, density),
+        sharedRole: newViewShareRole === PERSONAL_VIEW ? null : (newViewShareRole as DashboardViewShareRole),
+      });
+      setIsSaveViewOpen(false);
+      setSearchParams(dashboardViewToSearchParams(created.id, created.config), { replace: true });
+      toast.success(t.dashboard.viewSaved);
+    } catch (e) {
+      console.error('Failed to save dashboard view:', e);
+      toast.error(String((e as Error)?.message ?? '') || t.dashboard.viewSaveFailed);
+    } finally {
+      setIsSavingView(false);
     }
-    return roleFilteredRequests;
-  }, [roleFilteredRequests, ownershipFilter, user]);
+  };
 
-  // Apply active filter to get displayed requests
-  const filteredRequests = useMemo(() => {
-    if (activeFilter === 'all') return ownershipFilteredRequests;
-    
-    // Handle compound filters
-    if (activeFilter === 'in_progress') {
-      return ownershipFilteredRequests.filter(r => IN_PROGRESS_STATUSES.includes(r.status));
+  const handleUpdateActiveView = async () => {
+    if (!activeSavedView) return;
+    try {
+      await updateSavedView(activeSavedView.id, { config: toDashboardViewConfig(view, density) });
+      toast.success(t.dashboard.viewUpdated);
+    } catch (e) {
+      console.error('Failed to update dashboard view:', e);
+      toast.error(String((e as Error)?.message ?? '') || t.dashboard.viewSaveFailed);
     }
-    if (activeFilter === 'completed') {
-      return ownershipFilteredRequests.filter(r => 
-        FINAL_STATUSES.includes(r.status)
+  };
+
+  const handleDeleteActiveView = async () => {
+    if (!activeSavedView) return;
+    try {
+      await deleteView(activeSavedView.id);
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          next.delete(DASHBOARD_VIEW_PARAM);
+          return next;
+        },
+        { replace: true }
       );
+      toast.success(t.dashboard.viewDeleted);
+    } catch (e) {
+      console.error('Failed to delete dashboard view:', e);
+      toast.error(String((e as Error)?.message ?? '') || t.dashboard.viewSaveFailed);
     }
-    if (activeFilter === 'needs_attention') {
-      return ownershipFilteredRequests.filter(r => NEEDS_ATTENTION_STATUSES.includes(r.status));
-    }
-    if (activeFilter === 'costing_processed') {
-      return ownershipFilteredRequests.filter(r => COSTING_PROCESSED_STATUSES.includes(r.status));
-    }
-    
-    // Single status filter
-    return ownershipFilteredRequests.filter(r => r.status === activeFilter);
-  }, [ownershipFilteredRequests, activeFilter]);
+  };
+
+  const columnLabels: Record<RequestTableColumnKey, string> = {
+    priority: t.table.priority,
+    status: t.table.status,
+    sla: t.table.sla,
+    nextAction: t.table.nextActionBy,
+    clientName: t.table.clientName,
+    applicationVehicle: t.table.application,
+    country: t.table.country,
+    productType: t.table.productType,
+    createdBy: t.table.createdBy,
+    createdAt: t.table.created,
+  };
 
   const isSearchMode = globalSearchQuery.trim().length >= 2;
-  const searchMatchedIds = useMemo(() => new Set(searchResults.map((row) => row.id)), [searchResults]);
-  const displayedRequests = useMemo(() => {
-    if (!isSearchMode) return filteredRequests;
-    return filteredRequests.filter((request) => searchMatchedIds.has(request.id));
-  }, [filteredRequests, isSearchMode, searchMatchedIds]);
+  const listQuery = useMemo<RequestListQuery>(
+    () => ({
+      statuses: resolveFilterStatuses(view.filter),
+      owner: view.owner,
+      countries: view.countries,
+      priorities: view.priorities,
+      nextActionRoles: view.nextActionRoles,
+      createdFrom: view.createdFrom,
+      createdTo: view.createdTo,
+      q: isSearchMode ? globalSearchQuery.trim() : '',
+      sort: view.sort,
+    }),
+    [globalSearchQuery, isSearchMode, view]
+  );
+  // lastSyncAt moves whenever RequestContext hears about a change (push or fallback poll).
+  const {
+    items: displayedRequests,
+    total,
+    statusCounts,
+    hasMore,
+    isLoadingMore,
+    error: listError,
+    loadMore,
+  } = useRequestList(listQuery, lastSyncAt?.getTime());
 
   // Calculate KPIs based on role
   const kpis = useMemo(() => {
     if (!user) return [];
     
-    // Keep KPI counts consistent with the table "All/My requests" scope.
-    const baseRequests = ownershipFilteredRequests;
-
+    // Server-side counts share the table's filters except status, so KPI cards stay meaningful.
     const countByStatus = (statuses: RequestStatus[]) =>
-      baseRequests.filter(r => statuses.includes(r.status)).length;
+      statuses.reduce((sum, status) => sum + (statusCounts[status] ?? 0), 0);
+    const totalCount = Object.values(statusCounts).reduce((sum, count) => sum + (count ?? 0), 0);
 
-    const countInProgress = () => baseRequests.filter(r => IN_PROGRESS_STATUSES.includes(r.status)).length;
-    const countCompleted = () => baseRequests.filter(r => FINAL_STATUSES.includes(r.status)).length;
-    const countNeedsAttention = () => baseRequests.filter(r => NEEDS_ATTENTION_STATUSES.includes(r.status)).length;
+    const countInProgress = () => countByStatus(IN_PROGRESS_STATUSES);
+    const countCompleted = () => countByStatus(FINAL_STATUSES);
+    const countNeedsAttention = () => countByStatus(NEEDS_ATTENTION_STATUSES);
 
     switch (user.role) {
       case 'sales':
         return [
-          { title: t.dashboard.totalRequests, value: baseRequests.length, icon: FileText, filterValue: 'all' as FilterType },
+          { title: t.dashboard.totalRequests, value: totalCount, icon: FileText, filterValue: 'all' as FilterType },
           { title: t.dashboard.drafts, value: countByStatus(['draft']), icon: Clock, filterValue: 'draft' as FilterType },
           { title: t.dashboard.pendingReview, value: countInProgress(), icon: AlertCircle, filterValue: 'in_progress' as FilterType },
           { title: t.dashboard.clarificationNeeded, value: countByStatus(['clarification_needed']), icon: AlertCircle, filterValue: 'clarification_needed' as FilterType },
@@ -150,7 +285,7 @@ const Dashboard: React.FC = () => {
         ];
       case 'admin':
         return [
-          { title: t.dashboard.totalRequests, value: baseRequests.length, icon: FileText, filterValue: 'all' as FilterType },
+          { title: t.dashboard.totalRequests, value: totalCount, icon: FileText, filterValue: 'all' as FilterType },
           { title: t.dashboard.inProgress, value: countInProgress(), icon: Clock, filterValue: 'in_progress' as FilterType },
           { title: t.dashboard.completed, value: countCompleted(), icon: CheckCircle, filterValue: 'completed' as FilterType },
           { title: t.dashboard.needsAttention, value: countNeedsAttention(), icon: AlertCircle, filterValue: 'needs_attention' as FilterType },
@@ -158,25 +293,39 @@ const Dashboard: React.FC = () => {
       default:
         return [];
     }
-  }, [ownershipFilteredRequests, user, t]);
+  }, [statusCounts, user, t]);
 
   const handleDelete = async (id: string) => {
     await deleteRequest(id);
   };
 
   const handleKPIClick = (filterValue: FilterType) => {
-    setActiveFilter(prev => prev === filterValue ? 'all' : filterValue);
+    updateView({ filter: activeFilter === filterValue ? 'all' : filterValue });
   };
 
-  const clearFilter = () => {
-    setActiveFilter('all');
+  const hasExtraFilters =
+    view.countries.length > 0 ||
+    view.priorities.length > 0 ||
+    view.nextActionRoles.length > 0 ||
+    Boolean(view.createdFrom || view.createdTo);
+
+  const clearFilters = () => {
+    updateView({
+      filter: 'all',
+      owner: 'all',
+      countries: [],
+      priorities: [],
+      nextActionRoles: [],
+      createdFrom: '',
+      createdTo: '',
+    });
   };
 
-  // Get all available statuses for the filter dropdown
-  const availableStatuses = useMemo(() => {
-    const statuses = new Set(roleFilteredRequests.map(r => r.status));
-    return Array.from(statuses);
-  }, [roleFilteredRequests]);
+  // Statuses present under the current non-status filters.
+  const availableStatuses = useMemo(
+    () => (Object.keys(statusCounts) as RequestStatus[]).filter((status) => (statusCounts[status] ?? 0) > 0),
+    [statusCounts]
+  );
 
   // Get translated status label
   const getStatusLabel = (status: RequestStatus) => {
@@ -208,7 +357,7 @@ const Dashboard: React.FC = () => {
           <div className="flex items-center gap-3">
             <h2 className={cn('font-semibold text-foreground', density === 'compact' ? 'text-[17px]' : 'text-xl')}>{t.dashboard.requests}</h2>
             <span className="text-sm text-muted-foreground">
-              {displayedRequests.length} {activeFilter !== 'all' || ownershipFilter !== 'all' || isSearchMode ? t.common.filtered : t.common.total}
+              {total} {activeFilter !== 'all' || ownershipFilter !== 'all' || hasExtraFilters || isSearchMode ? t.common.filtered : t.common.total}
             </span>
             {isSearchMode ? (
               <span className="text-xs rounded-full px-2 py-0.5 bg-primary/10 text-primary border border-primary/20">
@@ -218,21 +367,18 @@ const Dashboard: React.FC = () => {
           </div>
 
           <div className="flex flex-wrap items-center gap-2">
-            {(user?.role === 'sales' || user?.role === 'admin') ? (
+            {(hasRole('sales') || hasRole('admin')) ? (
               <Button onClick={() => navigate('/requests/new')} className={density === 'compact' ? 'h-8 px-3 text-xs' : undefined}>
                 <Plus size={14} className="mr-2" />
                 {t.nav.newRequest}
               </Button>
             ) : null}
 
-            {(activeFilter !== 'all' || ownershipFilter !== 'all') && (
+            {(activeFilter !== 'all' || ownershipFilter !== 'all' || hasExtraFilters) && (
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => {
-                  clearFilter();
-                  setOwnershipFilter('all');
-                }}
+                onClick={clearFilters}
                 className="text-muted-foreground"
               >
                 <X size={14} className="mr-1" />
@@ -240,7 +386,71 @@ const Dashboard: React.FC = () => {
               </Button>
             )}
 
-            <Select value={ownershipFilter} onValueChange={(value) => setOwnershipFilter(value as OwnershipFilter)}>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className={density === 'compact' ? 'h-7' : 'h-9'}>
+                  <Bookmark size={14} className="mr-2" />
+                  <span className="max-w-[160px] truncate">{activeSavedView?.name ?? t.dashboard.savedViews}</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-64 bg-card border border-border shadow-lg">
+                <DropdownMenuLabel>{t.dashboard.savedViews}</DropdownMenuLabel>
+                {savedViews.length === 0 ? (
+                  <div className="px-2 py-1.5 text-xs text-muted-foreground">{t.dashboard.noSavedViews}</div>
+                ) : (
+                  savedViews.map((savedView) => (
+                    <DropdownMenuItem key={savedView.id} onSelect={() => applySavedView(savedView)}>
+                      <span className={cn('flex-1 truncate', savedView.id === activeSavedView?.id && 'font-semibold')}>
+                        {savedView.name}
+                      </span>
+                      {savedView.scope === 'shared' ? (
+                        <span className="ml-2 text-[10px] uppercase text-muted-foreground">{t.dashboard.sharedView}</span>
+                      ) : null}
+                    </DropdownMenuItem>
+                  ))
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={openSaveViewDialog}>
+                  <Plus size={14} className="mr-2" />
+                  {t.dashboard.saveView}
+                </DropdownMenuItem>
+                {activeSavedView?.canEdit ? (
+                  <>
+                    <DropdownMenuItem onSelect={() => void handleUpdateActiveView()}>
+                      <Save size={14} className="mr-2" />
+                      <span className="truncate">{t.dashboard.updateCurrentView.replace('{name}', activeSavedView.name)}</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-destructive" onSelect={() => void handleDeleteActiveView()}>
+                      <Trash2 size={14} className="mr-2" />
+                      <span className="truncate">{t.dashboard.deleteCurrentView.replace('{name}', activeSavedView.name)}</span>
+                    </DropdownMenuItem>
+                  </>
+                ) : null}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" className={cn('hidden md:inline-flex', density === 'compact' ? 'h-7' : 'h-9')}>
+                  <Columns3 size={14} className="mr-2" />
+                  {t.dashboard.columns}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-52 bg-card border border-border shadow-lg">
+                {REQUEST_TABLE_COLUMNS.map((column) => (
+                  <DropdownMenuCheckboxItem
+                    key={column}
+                    checked={!view.hiddenColumns.includes(column)}
+                    onCheckedChange={(checked) => toggleColumn(column, checked === true)}
+                    onSelect={(event) => event.preventDefault()}
+                  >
+                    {columnLabels[column]}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Select value={ownershipFilter} onValueChange={(value) => updateView({ owner: value as RequestOwnershipFilter })}>
               <SelectTrigger className={cn('w-[150px]', density === 'compact' ? 'h-7' : 'h-9')}>
                 <SelectValue placeholder={t.dashboard.ownership} />
               </SelectTrigger>
@@ -250,7 +460,7 @@ const Dashboard: React.FC = () => {
               </SelectContent>
             </Select>
             
-             <Select value={activeFilter} onValueChange={(value) => setActiveFilter(value as FilterType)}>
+             <Select value={activeFilter} onValueChange={(value) => updateView({ filter: value })}>
               <SelectTrigger className={cn('w-[180px]', density === 'compact' ? 'h-7' : 'h-9')}>
                 <Filter size={14} className="mr-2" />
                 <SelectValue placeholder={t.common.filter} />
@@ -272,13 +482,147 @@ const Dashboard: React.FC = () => {
             </Select>
           </div>
         </div>
-        
-        <RequestsTable 
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={view.countries.length === 1 ? view.countries[0] : ANY_VALUE}
+            onValueChange={(value) => updateView({ countries: value === ANY_VALUE ? [] : [value] })}
+          >
+            <SelectTrigger className={cn('w-[170px]', density === 'compact' ? 'h-7' : 'h-9')}>
+              <SelectValue placeholder={t.dashboard.allCountries} />
+            </SelectTrigger>
+            <SelectContent className="bg-card border border-border">
+              <SelectItem value={ANY_VALUE}>{t.dashboard.allCountries}</SelectItem>
+              {countries.map((country) => (
+                <SelectItem key={country.id} value={country.value}>
+                  {translateOption(country.value)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={view.priorities.length === 1 ? view.priorities[0] : ANY_VALUE}
+            onValueChange={(value) => updateView({ priorities: value === ANY_VALUE ? [] : [value as RequestPriority] })}
+          >
+            <SelectTrigger className={cn('w-[150px]', density === 'compact' ? 'h-7' : 'h-9')}>
+              <SelectValue placeholder={t.dashboard.allPriorities} />
+            </SelectTrigger>
+            <SelectContent className="bg-card border border-border">
+              <SelectItem value={ANY_VALUE}>{t.dashboard.allPriorities}</SelectItem>
+              <SelectItem value="urgent">{t.table.priorityUrgent}</SelectItem>
+              <SelectItem value="high">{t.table.priorityHigh}</SelectItem>
+              <SelectItem value="normal">{t.table.priorityNormal}</SelectItem>
+              <SelectItem value="low">{t.table.priorityLow}</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={view.nextActionRoles.length === 1 ? view.nextActionRoles[0] : ANY_VALUE}
+            onValueChange={(value) => updateView({ nextActionRoles: value === ANY_VALUE ? [] : [value] })}
+          >
+            <SelectTrigger className={cn('w-[170px]', density === 'compact' ? 'h-7' : 'h-9')}>
+              <SelectValue placeholder={t.dashboard.allNextActions} />
+            </SelectTrigger>
+            <SelectContent className="bg-card border border-border">
+              <SelectItem value={ANY_VALUE}>{t.dashboard.allNextActions}</SelectItem>
+              {NEXT_ACTION_ROLES.map((role) => (
+                <SelectItem key={role} value={role}>
+                  {t.dashboard.nextActionBy}: {t.roles[role]}
+                </SelectItem>
+              ))}
+              <SelectItem value="none">{t.dashboard.noNextAction}</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-1.5">
+            <span className="text-xs text-muted-foreground">{t.dashboard.createdFrom}</span>
+            <Input
+              type="date"
+              value={view.createdFrom}
+              max={view.createdTo || undefined}
+              onChange={(event) => updateView({ createdFrom: event.target.value })}
+              className={cn('w-[150px]', density === 'compact' ? 'h-7 text-xs' : 'h-9')}
+            />
+            <span className="text-xs text-muted-foreground">{t.dashboard.createdTo}</span>
+            <Input
+              type="date"
+              value={view.createdTo}
+              min={view.createdFrom || undefined}
+              onChange={(event) => updateView({ createdTo: event.target.value })}
+              className={cn('w-[150px]', density === 'compact' ? 'h-7 text-xs' : 'h-9')}
+            />
+          </div>
+        </div>
+
+        {listError ? <p className="text-sm text-destructive">{t.dashboard.listLoadFailed}</p> : null}
+
+        <RequestsTable
           requests={displayedRequests}
           userRole={user?.role || 'sales'}
-          onDelete={user?.role === 'admin' ? handleDelete : undefined}
+          onDelete={hasPermission('delete_requests') ? handleDelete : undefined}
+          sortRules={view.sort}
+          onSortRulesChange={(rules: RequestListSortRule[]) => updateView({ sort: rules })}
+          totalCount={total}
+          hasMore={hasMore}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={() => void loadMore()}
+          hiddenColumns={view.hiddenColumns}
         />
       </div>
+
+      <Dialog open={isSaveViewOpen} onOpenChange={setIsSaveViewOpen}>
+        <DialogContent className="bg-card">
+          <DialogHeader>
+            <DialogTitle>{t.dashboard.saveViewTitle}</DialogTitle>
+            <DialogDescription>{t.dashboard.saveViewDesc}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="dashboard-view-name">{t.dashboard.viewName}</Label>
+              <Input
+                id="dashboard-view-name"
+                value={newViewName}
+                maxLength={80}
+                placeholder={t.dashboard.viewNamePlaceholder}
+                onChange={(event) => setNewViewName(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    event.preventDefault();
+                    void handleSaveView();
+                  }
+                }}
+              />
+            </div>
+            {hasPermission('manage_settings') ? (
+              <div className="space-y-2">
+                <Label>{t.dashboard.viewVisibility}</Label>
+                <Select value={newViewShareRole} onValueChange={setNewViewShareRole}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border border-border">
+                    <SelectItem value={PERSONAL_VIEW}>{t.dashboard.viewOnlyMe}</SelectItem>
+                    {SHARE_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {role === 'all' ? t.dashboard.viewEveryone : t.roles[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : null}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveViewOpen(false)}>
+              {t.common.cancel}
+            </Button>
+            <Button onClick={() => void handleSaveView()} disabled={!newViewName.trim() || isSavingView}>
+              {t.dashboard.saveView}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
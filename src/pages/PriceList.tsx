@@ -1,9 +1,13 @@
-import React, { useMemo, useState } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/context/AuthContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { useAdminSettings } from '@/context/AdminSettingsContext';
-import { ReferenceProduct, STANDARD_STUDS_PCD_OPTIONS } from '@/types';
+import { useToast } from '@/hooks/use-toast';
+import { PriceEntry, ReferenceProduct, STANDARD_STUDS_PCD_OPTIONS } from '@/types';
+import { buildPriceCatalogWorkbook, readPriceCatalogWorkbook } from '@/lib/priceCatalogXlsx';
+import { localizeApiError } from '@/utils/localizeApiError';
+import PriceHistoryDialog from '@/components/price-list/PriceHistoryDialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -11,11 +15,12 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { Plus, Trash2, Pencil } from 'lucide-react';
+import { Plus, Trash2, Pencil, History, Download, Upload } from 'lucide-react';
 
-type ReferenceProductDraft = Omit<ReferenceProduct, 'id' | 'createdAt' | 'updatedAt'>;
+type ReferenceProductDraft = Omit<ReferenceProduct, 'id' | 'currentPrices' | 'createdAt' | 'updatedAt'>;
 
 const emptyDraft = (): ReferenceProductDraft => ({
+  partNumber: '',
   configurationType: '',
   articulationType: '',
   brakeType: '',
@@ -23,9 +28,28 @@ const emptyDraft = (): ReferenceProductDraft => ({
   studsPcdStandards: [],
 });
 
+const mapProduct = (item: any): ReferenceProduct => ({
+  ...item,
+  partNumber: String(item?.partNumber ?? ''),
+  currentPrices: Array.isArray(item?.currentPrices) ? item.currentPrices : [],
+  createdAt: item?.createdAt ? new Date(item.createdAt) : new Date(),
+  updatedAt: item?.updatedAt ? new Date(item.updatedAt) : new Date(),
+  studsPcdStandards: Array.isArray(item?.studsPcdStandards) ? item.studsPcdStandards : [],
+});
+
+const readJson = async (res: Response) => {
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(String(data?.error ?? `Request failed with status ${res.status}`));
+  return data;
+};
+
+const formatPrice = (entry: PriceEntry) =>
+  `${entry.currency} ${entry.basePrice.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
 const PriceList: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasRole, hasPermission } = useAuth();
   const { t, translateOption } = useLanguage();
+  const { toast } = useToast();
   const {
     configurationTypes,
     articulationTypes,
@@ -41,37 +65,35 @@ const PriceList: React.FC = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<ReferenceProduct | null>(null);
   const [draft, setDraft] = useState<ReferenceProductDraft>(emptyDraft());
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const loadProducts = useCallback(async () => {
+    const data = await readJson(await fetch('/api/price-list', { cache: 'no-store' }));
+    setProducts(Array.isArray(data) ? data.map(mapProduct) : []);
+  }, []);
 
   React.useEffect(() => {
     let isActive = true;
     setIsLoading(true);
-    fetch('/api/price-list')
-      .then((res) => res.json())
-      .then((data) => {
-        if (!isActive) return;
-        const mapped = Array.isArray(data)
-          ? data.map((item: any) => ({
-              ...item,
-              createdAt: item.createdAt ? new Date(item.createdAt) : new Date(),
-              updatedAt: item.updatedAt ? new Date(item.updatedAt) : new Date(),
-              studsPcdStandards: Array.isArray(item.studsPcdStandards) ? item.studsPcdStandards : [],
-            }))
-          : [];
-        setProducts(mapped);
-      })
+    loadProducts()
+      .catch((error) => console.error('Failed to load price list:', error))
       .finally(() => {
         if (isActive) setIsLoading(false);
       });
     return () => {
       isActive = false;
     };
-  }, []);
+  }, [loadProducts]);
 
-  if (!user || (user.role !== 'sales' && user.role !== 'admin')) {
+  if (!user || (!hasRole('sales') && !hasRole('costing') && !hasRole('admin'))) {
     return <Navigate to="/dashboard" replace />;
   }
 
-  const isAdmin = user.role === 'admin';
+  const isAdmin = hasPermission('manage_settings');
+  const canViewCost = hasPermission('view_costing_margin');
+  const historyProduct = products.find((product) => product.id === historyProductId) ?? null;
 
   const filteredProducts = useMemo(() => {
     const normalizedKeyword = keyword.trim().toLowerCase();
@@ -86,6 +108,7 @@ const PriceList: React.FC = () => {
       }
       if (normalizedKeyword) {
         const haystack = [
+          product.partNumber,
           product.configurationType,
           product.articulationType,
           product.brakeType,
@@ -130,6 +153,7 @@ const PriceList: React.FC = () => {
   const openEditDialog = (product: ReferenceProduct) => {
     setEditingProduct(product);
     setDraft({
+      partNumber: product.partNumber,
       configurationType: product.configurationType,
       articulationType: product.articulationType,
       brakeType: product.brakeType,
@@ -141,6 +165,7 @@ const PriceList: React.FC = () => {
 
   const saveProduct = async () => {
     const payload = {
+      partNumber: draft.partNumber,
       configurationType: draft.configurationType,
       articulationType: draft.articulationType,
       brakeType: draft.brakeType,
@@ -148,27 +173,124 @@ const PriceList: React.FC = () => {
       studsPcdStandards: draft.studsPcdStandards,
     };
 
-    if (editingProduct) {
-      const res = await fetch(`/api/price-list/${editingProduct.id}`, {
-        method: 'PUT',
-        headers: { 'content-type': 'application/json' },
-        body: JSON.stringify(payload),
+    try {
+      if (editingProduct) {
+        const updated = await readJson(
+          await fetch(`/api/price-list/${editingProduct.id}`, {
+            method: 'PUT',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify(payload),
+          })
+        );
+        setProducts((prev) =>
+          prev.map((item) => (item.id === editingProduct.id ? { ...item, ...updated, updatedAt: new Date() } : item))
+        );
+      } else {
+        const created = await readJson(
+          await fetch('/api/price-list', {
+            method: 'POST',
+            headers: { 'content-type': 'application/json' },
+            body: JSON.stringify(payload),
+          })
+        );
+        setProducts((prev) => [mapProduct(created), ...prev]);
+      }
+      setIsDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
       });
-      const updated = await res.json();
-      setProducts((prev) =>
-        prev.map((item) => (item.id === editingProduct.id ? { ...item, ...updated, updatedAt: new Date() } : item))
-      );
-    } else {
-      const res = await fetch('/api/price-list', {
+    }
+  };
+
+  const exportCatalog = async () => {
+    try {
+      const prices = (await readJson(await fetch('/api/price-list/prices', { cache: 'no-store' }))) as PriceEntry[];
+      // Dynamic import to avoid loading XLSX for all users.
+      const XLSX = await import('xlsx');
+      const wb = buildPriceCatalogWorkbook(XLSX, products, Array.isArray(prices) ? prices : [], canViewCost);
+      const arrayBuffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer;
+      const blob = new Blob([arrayBuffer], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      });
+      const url = URL.createObjectURL(blob);
+      const filename = `price-list-${new Date().toISOString().slice(0, 10)}.xlsx`;
+      const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
+
+      if (isIOS) {
+        window.open(url, '_blank', 'noopener,noreferrer');
+      } else {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+      }
+
+      setTimeout(() => URL.revokeObjectURL(url), 2000);
+    } catch (error) {
+      toast({
+        title: t.request.error,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const importCatalog = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const XLSX = await import('xlsx');
+      const rows = readPriceCatalogWorkbook(XLSX, await file.arrayBuffer());
+      const res = await fetch('/api/price-list/import', {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
-        body: JSON.stringify(payload),
+        body: JSON.stringify(rows),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        const issues: Array<{ sheet: string; row: number; message: string }> = Array.isArray(data?.issues) ? data.issues : [];
+        toast({
+          title: t.priceList.importFailed,
+          description: issues.length
+            ? issues
+                .slice(0, 5)
+                .map((issue) =>
+                  issue.row
+                    ? t.priceList.importIssue
+                        .replace('{sheet}', issue.sheet)
+                        .replace('{row}', String(issue.row))
+                        .replace('{message}', issue.message)
+                    : issue.message
+                )
+                .join('\n')
+            : localizeApiError(t, data?.error ?? `Request failed with status ${res.status}`),
+          variant: 'destructive',
+        });
+        return;
+      }
+      toast({
+        title: t.priceList.importDone,
+        description: t.priceList.importSummary
+          .replace('{productsCreated}', String(data?.productsCreated ?? 0))
+          .replace('{productsUpdated}', String(data?.productsUpdated ?? 0))
+          .replace('{pricesCreated}', String(data?.pricesCreated ?? 0))
+          .replace('{pricesUpdated}', String(data?.pricesUpdated ?? 0)),
       });
-      const created = await res.json();
-      setProducts((prev) => [{ ...created, createdAt: new Date(created.createdAt), updatedAt: new Date(created.updatedAt) }, ...prev]);
+      await loadProducts();
+    } catch (error) {
+      toast({
+        title: t.priceList.importFailed,
+        description: localizeApiError(t, error instanceof Error ? error.message : error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsImporting(false);
+      if (importInputRef.current) importInputRef.current.value = '';
     }
-
-    setIsDialogOpen(false);
   };
 
   const deleteProduct = async (product: ReferenceProduct) => {
@@ -186,12 +308,34 @@ const PriceList: React.FC = () => {
           <h1 className="text-3xl font-bold text-foreground">{t.priceList.title}</h1>
           <p className="text-muted-foreground mt-1">{t.priceList.description}</p>
         </div>
-        {isAdmin && (
-          <Button onClick={openCreateDialog}>
-            <Plus size={16} className="mr-2" />
-            {t.priceList.addReference}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" onClick={() => void exportCatalog()} disabled={isLoading}>
+            <Download size={16} className="mr-2" />
+            {t.priceList.exportXlsx}
           </Button>
-        )}
+          {isAdmin && (
+            <>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  if (file) void importCatalog(file);
+                }}
+              />
+              <Button variant="outline" onClick={() => importInputRef.current?.click()} disabled={isImporting}>
+                <Upload size={16} className="mr-2" />
+                {isImporting ? t.common.loading : t.priceList.importXlsx}
+              </Button>
+              <Button onClick={openCreateDialog}>
+                <Plus size={16} className="mr-2" />
+                {t.priceList.addReference}
+              </Button>
+            </>
+          )}
+        </div>
       </div>
 
       <div className="rounded-lg border border-border bg-card p-6 space-y-2">
@@ -346,16 +490,31 @@ const PriceList: React.FC = () => {
                   onClick={() => setSelectedId(product.id)}
                   className="w-full text-left space-y-2"
                 >
+                  {product.partNumber ? (
+                    <div className="text-xs font-medium text-muted-foreground">
+                      {t.priceList.partNumber}: {product.partNumber}
+                    </div>
+                  ) : null}
                   <div className="text-sm font-semibold text-foreground">{buildCardTitle(product)}</div>
                   <div className="text-xs text-muted-foreground">
                     {t.priceList.studsPcdStandards}: {product.studsPcdStandards.length > 0 ? product.studsPcdStandards.map(getStudsLabel).join(', ') : t.priceList.notSet}
                   </div>
+                  <div className="text-sm text-foreground">
+                    {product.currentPrices.length > 0
+                      ? product.currentPrices.map(formatPrice).join(' · ')
+                      : <span className="text-muted-foreground">{t.priceList.noCurrentPrice}</span>}
+                  </div>
                   {isSelected && (
                     <div className="text-xs font-medium text-primary">{t.priceList.selected}</div>
                   )}
                 </button>
+                <div className="flex flex-wrap items-center gap-2 pt-3">
+                  <Button size="sm" variant="outline" onClick={() => setHistoryProductId(product.id)}>
+                    <History size={14} className="mr-1" />
+                    {t.priceList.priceHistory}
+                  </Button>
                 {isAdmin && (
-                  <div className="flex items-center gap-2 pt-3">
+                  <>
                     <Button size="sm" variant="outline" onClick={() => openEditDialog(product)}>
                       <Pencil size={14} className="mr-1" />
                       {t.common.edit}
@@ -379,8 +538,9 @@ const PriceList: React.FC = () => {
                         </AlertDialogFooter>
                       </AlertDialogContent>
                     </AlertDialog>
-                  </div>
+                  </>
                 )}
+                </div>
               </div>
             );
           })}
@@ -395,6 +555,13 @@ const PriceList: React.FC = () => {
             </DialogTitle>
           </DialogHeader>
           <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2 md:col-span-2">
+              <Label>{t.priceList.partNumber}</Label>
+              <Input
+                value={draft.partNumber}
+                onChange={(event) => setDraft((prev) => ({ ...prev, partNumber: event.target.value }))}
+              />
+            </div>
             <div className="space-y-2">
               <Label>{t.request.configurationType}</Label>
               <Select
@@ -506,6 +673,19 @@ const PriceList: React.FC = () => {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <PriceHistoryDialog
+        product={historyProduct}
+        open={Boolean(historyProduct)}
+        onOpenChange={(open) => {
+          if (!open) setHistoryProductId(null);
+        }}
+        canEdit={isAdmin}
+        canViewCost={canViewCost}
+        onChanged={() => {
+          void loadProducts().catch((error) => console.error('Failed to reload price list:', error));
+        }}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { format } from 'date-fns';
 import { useAuth } from '@/context/AuthContext';
@@ -6,8 +6,18 @@ import { useRequests } from '@/context/RequestContext';
 import { useAdminSettings } from '@/context/AdminSettingsContext';
 import { useLanguage } from '@/context/LanguageContext';
 import { useAppShell } from '@/context/AppShellContext';
+import { useWorkflow } from '@/hooks/use-workflow';
 import { useToast } from '@/hooks/use-toast';
-import { Attachment, ClientOfferConfig, CustomerRequest, FormMode, RequestStatus, RequestProduct, SalesPaymentTerm } from '@/types';
+import {
+  Attachment,
+  ClientOfferConfig,
+  CustomerRequest,
+  FormMode,
+  RequestStatus,
+  RequestProduct,
+  SalesPaymentTerm,
+  StatusChangeOptions,
+} from '@/types';
 import SectionGeneralInfo from '@/components/request/SectionGeneralInfo';
 import SectionExpectedDelivery from '@/components/request/SectionExpectedDelivery';
 import SectionClientApplication from '@/components/request/SectionClientApplication';
@@ -17,19 +27,42 @@ import DesignReviewPanel from '@/components/request/DesignReviewPanel';
 import CostingPanel from '@/components/request/CostingPanel';
 import ClarificationPanel from '@/components/request/ClarificationPanel';
 import StatusTimeline from '@/components/request/StatusTimeline';
+import RequestChangeHistory from '@/components/request/RequestChangeHistory';
 import DesignResultSection from '@/components/request/DesignResultSection';
 import SalesFollowupPanel from '@/components/request/SalesFollowupPanel';
 import RequestSummaryView from '@/components/request/RequestSummaryView';
 import RequestProcessSummary from '@/components/request/RequestProcessSummary';
 import ClientOfferGeneratorSheet from '@/components/request/ClientOfferGeneratorSheet';
+import RequestConflictDialog from '@/components/request/RequestConflictDialog';
 import StatusBadge from '@/components/ui/StatusBadge';
+import {
+  ConcurrencyConflictError,
+  ConflictChoice,
+  findConflictingFields,
+  isConcurrencyConflictError,
+  mergeConcurrentEdits,
+} from '@/lib/concurrency';
 import { ArrowLeft, ArrowRight, CheckCircle, ClipboardCheck, Clock, Download, Eye, ExternalLink, File, FileText, Loader2, Pencil, Save } from 'lucide-react';
+import AttachmentDocumentPreview from '@/components/shared/AttachmentDocumentPreview';
+import AttachmentThumbnail from '@/components/shared/AttachmentThumbnail';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 type FormStep = 'chapters' | 'product' | 'review';
 
+type PendingVersionConflict = {
+  targetId: string;
+  updates: Partial<CustomerRequest>;
+  error: ConcurrencyConflictError<CustomerRequest>;
+  fields: string[];
+  resolve: () => void;
+  reject: (error: unknown) => void;
+};
+
+const CONFLICT_OPTIONS = { nestedArrayKeys: ['products'] };
+
 const ROC_STANDARD = 'As Per ROC Standard';
 const ROC_STANDARD_KEY = ROC_STANDARD.toLowerCase();
 
@@ -297,9 +330,10 @@ const RequestForm: React.FC = () => {
   const { id } = useParams();
   const location = useLocation();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, hasRole, hasPermission } = useAuth();
   const { setSaveState, density } = useAppShell();
-  const { getRequestById, getRequestByIdAsync, createRequest, updateRequest, updateStatus, notifyRequest, isLoading } = useRequests();
+  const { workflow, getNextAction, validateTransition } = useWorkflow();
+  const { getRequestById, getRequestByIdAsync, createRequest, updateRequest: saveRequestUpdates, updateStatus: saveStatusChange, notifyRequest, isLoading } = useRequests();
   const { t } = useLanguage();
   const {
     applicationVehicles,
@@ -369,6 +403,75 @@ const RequestForm: React.FC = () => {
   const activeCreateSessionRef = useRef<string | null>(null);
   const draftSessionKeyRef = useRef<string | null>(null);
   const [hasPendingAutosave, setHasPendingAutosave] = useState(false);
+  const [versionConflict, setVersionConflict] = useState<PendingVersionConflict | null>(null);
+  const [conflictChoices, setConflictChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isResolvingConflict, setIsResolvingConflict] = useState(false);
+  // Per request id, the copy the form's edits are based on: the loaded request, then the result of each of our own
+  // writes. Realtime refreshes of the shared store do not move it, so saving over someone else's edit is a conflict.
+  const baseCopiesRef = useRef(new Map<string, CustomerRequest>());
+  const rememberBaseCopy = useCallback((copy: CustomerRequest) => {
+    baseCopiesRef.current.set(copy.id, copy);
+  }, []);
+
+  // Every save goes through here: a stale version merges silently when nobody touched the same fields,
+  // otherwise the save waits until the user picks which value to keep for each conflicting field.
+  const updateRequest = useCallback(async (targetId: string, updates: Parameters<typeof saveRequestUpdates>[1]) => {
+    try {
+      rememberBaseCopy(await saveRequestUpdates(targetId, updates, baseCopiesRef.current.get(targetId)));
+    } catch (error) {
+      if (!isConcurrencyConflictError<CustomerRequest>(error)) throw error;
+      const { baseCopy, serverCopy } = error;
+      const fields = findConflictingFields(baseCopy, updates, serverCopy, CONFLICT_OPTIONS);
+      if (!fields.length) {
+        rememberBaseCopy(
+          await saveRequestUpdates(targetId, mergeConcurrentEdits(baseCopy, updates, serverCopy, {}, CONFLICT_OPTIONS), serverCopy)
+        );
+        setFormData((prev) => mergeConcurrentEdits(baseCopy, prev, serverCopy, {}, CONFLICT_OPTIONS));
+        return;
+      }
+      await new Promise<void>((resolve, reject) => {
+        setConflictChoices({});
+        setVersionConflict({ targetId, updates, error, fields, resolve, reject });
+      });
+    }
+  }, [saveRequestUpdates, rememberBaseCopy]);
+
+  const updateStatus = useCallback(async (...args: Parameters<typeof saveStatusChange>) => {
+    rememberBaseCopy(await saveStatusChange(...args));
+  }, [saveStatusChange, rememberBaseCopy]);
+
+  const applyConflictMerge = async () => {
+    if (!versionConflict) return;
+    const { targetId, updates, error, resolve, reject } = versionConflict;
+    setIsResolvingConflict(true);
+    try {
+      rememberBaseCopy(
+        await saveRequestUpdates(
+          targetId,
+          mergeConcurrentEdits(error.baseCopy, updates, error.serverCopy, conflictChoices, CONFLICT_OPTIONS),
+          error.serverCopy
+        )
+      );
+      setFormData((prev) => mergeConcurrentEdits(error.baseCopy, prev, error.serverCopy, conflictChoices, CONFLICT_OPTIONS));
+      resolve();
+    } catch (retryError) {
+      reject(retryError);
+    } finally {
+      setVersionConflict(null);
+      setIsResolvingConflict(false);
+    }
+  };
+
+  const discardConflictingChanges = () => {
+    if (!versionConflict) return;
+    const { error, reject } = versionConflict;
+    rememberBaseCopy(error.serverCopy);
+    setFormData({ ...error.serverCopy, products: normalizeProducts(error.serverCopy) });
+    setHasPendingAutosave(false);
+    setSaveState('idle');
+    setVersionConflict(null);
+    reject(error);
+  };
 
   useEffect(() => {
     if (!isCreateMode) {
@@ -480,13 +583,17 @@ const RequestForm: React.FC = () => {
     const isUpgradedInViewMode = isViewMode && loadedRequestVersion !== null && loadedRequestVersion !== versionKey;
 
     if (isFirstLoadForId || isUpgradedInViewMode) {
+      rememberBaseCopy(existingRequest);
       setFormData({ ...existingRequest, products: normalizeProducts(existingRequest) });
       setLoadedRequestId(existingRequest.id);
       setLoadedRequestVersion(versionKey);
       setHasPendingAutosave(false);
       setSaveState('idle');
+    } else if (typeof existingRequest.version === 'number' && baseCopiesRef.current.get(existingRequest.id)?.version === undefined) {
+      // Opened from a list summary (no version); the full request arriving is the first versioned copy.
+      rememberBaseCopy(existingRequest);
     }
-  }, [existingRequest, loadedRequestId, loadedRequestVersion, isViewMode, setSaveState]);
+  }, [existingRequest, loadedRequestId, loadedRequestVersion, isViewMode, setSaveState, rememberBaseCopy]);
 
   useEffect(() => {
     if (!existingRequest) {
@@ -564,7 +671,7 @@ const RequestForm: React.FC = () => {
     if (!existingRequest) return 'read_only';
     
     // Admin can always edit (when in edit route)
-    if (user?.role === 'admin' && isEditMode) {
+    if (hasRole('admin') && isEditMode) {
       return 'draft_edit';
     }
     
@@ -579,13 +686,14 @@ const RequestForm: React.FC = () => {
     if (existingRequest.status === 'clarification_needed') return 'clarification_edit';
     
     return 'read_only';
-  }, [isCreateMode, existingRequest, user, isViewMode, isEditMode]);
+  }, [isCreateMode, existingRequest, user, hasRole, isViewMode, isEditMode]);
 
   const isReadOnly = mode === 'read_only';
   const isEditable = mode === 'create' || mode === 'draft_edit' || mode === 'clarification_edit';
   const isClarificationEdit =
     existingRequest?.status === 'clarification_needed' && mode === 'clarification_edit';
-  const isAdminEdit = user?.role === 'admin' && isEditMode;
+  const isAdminEdit = hasRole('admin') && isEditMode;
+  const isGmApprovalPending = hasPermission('approve_gm') && existingRequest?.status === 'gm_approval_pending';
   const isDesignRole = user?.role === 'design';
   const isSalesRole = user?.role === 'sales';
   const isSalesOwner = Boolean(
@@ -1153,6 +1261,10 @@ const RequestForm: React.FC = () => {
     if (repeatabilityError) {
       newErrors.repeatability = repeatabilityError;
     }
+    // Server-side submission rules (and admin-required fields) that the checks above do not cover.
+    for (const issue of validateTransition('submitted', { ...formData, status: formData.status ?? 'draft' })) {
+      if (!newErrors[issue.field]) newErrors[issue.field] = issue.message;
+    }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -1224,6 +1336,7 @@ const RequestForm: React.FC = () => {
       draftCreatePromiseRef.current = createRequest(createPayload as any)
         .then((created) => {
           draftAnchorIdRef.current = created.id;
+          rememberBaseCopy(created);
           return created;
         })
         .finally(() => {
@@ -1614,29 +1727,30 @@ const RequestForm: React.FC = () => {
       (isSalesRole && (showClarificationPanel || showSalesPanel || canReopenSalesEdits || showSalesOwnerOnlyHint)) ||
       (user?.role === 'design' && (showDesignPanel || canEditDesignResult || canReopenDesignEdits)) ||
       (user?.role === 'costing' && (showCostingPanel || canReopenCostingEdits)) ||
-      (user?.role === 'admin')
+      (user?.role === 'admin') ||
+      isGmApprovalPending
     )
   );
   const canAccessClientOffer = Boolean(
     existingRequest &&
       isReadOnly &&
-      (user?.role === 'sales' || user?.role === 'admin') &&
+      (hasRole('sales') || hasRole('admin')) &&
       hasGmApprovedLifecycle(existingRequest)
   );
 
   const getTransferTarget = (status: RequestStatus) => {
-    // Keep this simple and explicit: the text is used in the completion banner.
-    if (status === 'clarification_needed') return t.roles.sales;
-    if (status === 'submitted') return t.roles.design;
-    if (status === 'feasibility_confirmed') return t.roles.costing;
-    if (status === 'design_result') return t.roles.costing;
-    if (status === 'in_costing') return t.roles.costing;
-    if (status === 'costing_complete') return t.roles.sales;
-    if (status === 'sales_followup') return t.request.roleGm;
-    if (status === 'gm_approval_pending') return t.request.roleGm;
-    if (status === 'gm_approved' || status === 'gm_rejected') return t.roles.sales;
-    if (status === 'closed' || status === 'cancelled') return t.request.workflowComplete;
-    return t.request.nextStepUnknown;
+    // The text is used in the completion banner; routing comes from the workflow definition.
+    if (!workflow) return t.request.nextStepUnknown;
+    const nextAction = getNextAction(status);
+    if (nextAction.label.trim()) return nextAction.label.trim();
+    if (nextAction.role === 'none') {
+      if (!workflow.transitions.some((transition) => transition.from === status)) return t.request.workflowComplete;
+      const notifiedRole = workflow.states.find((state) => state.status === status)?.notifyRoles[0];
+      return notifiedRole ? t.roles[notifiedRole] : t.request.nextStepUnknown;
+    }
+    // GM approval is carried by the admin role.
+    if (nextAction.role === 'admin') return t.request.roleGm;
+    return t.roles[nextAction.role];
   };
 
   const markMyActionComplete = (status: RequestStatus) => {
@@ -1708,27 +1822,30 @@ const RequestForm: React.FC = () => {
       );
     }
 
+    // GM approvers decide first, whatever their primary role.
+    if (isGmApprovalPending) {
+      return (
+        <SalesFollowupPanel
+          request={existingRequest}
+          onUpdateStatus={async (status, comment, options) => {
+            // Rethrows so the signature dialog stays open after a failed decision.
+            const ok = await handleSalesStatusUpdate(status, comment, { ...options, throwOnError: true });
+            if (!ok) return;
+            if (['gm_approved', 'gm_rejected', 'cancelled', 'closed'].includes(status)) {
+              markMyActionComplete(status);
+            }
+          }}
+          onUpdateSalesData={async (_data) => {}}
+          isUpdating={isUpdating}
+          readOnly={false}
+          forceEnableActions={false}
+          isGmApprover={true}
+          isSales={false}
+        />
+      );
+    }
+
     if (user?.role === 'admin') {
-      if (existingRequest.status === 'gm_approval_pending') {
-        return (
-          <SalesFollowupPanel
-            request={existingRequest}
-            onUpdateStatus={async (status, comment) => {
-              const ok = await handleSalesStatusUpdate(status, comment);
-              if (!ok) return;
-              if (['gm_approved', 'gm_rejected', 'cancelled', 'closed'].includes(status)) {
-                markMyActionComplete(status);
-              }
-            }}
-            onUpdateSalesData={async (_data) => {}}
-            isUpdating={isUpdating}
-            readOnly={false}
-            forceEnableActions={false}
-            isAdmin={true}
-            isSales={false}
-          />
-        );
-      }
       return (
         <div className="rounded-lg border border-border bg-muted/20 p-4">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
@@ -1803,7 +1920,7 @@ const RequestForm: React.FC = () => {
                 readOnly={false}
                 editMode={true}
                 forceEnableActions={isAdminEdit}
-                isAdmin={false}
+                isGmApprover={false}
                 isSales={true}
               />
             </div>
@@ -1826,7 +1943,7 @@ const RequestForm: React.FC = () => {
                 isUpdating={false}
                 readOnly={true}
                 forceEnableActions={false}
-                isAdmin={false}
+                isGmApprover={false}
                 isSales={true}
               />
             </div>
@@ -1849,7 +1966,7 @@ const RequestForm: React.FC = () => {
             isUpdating={isUpdating}
             readOnly={!canEditSalesPanel}
             forceEnableActions={isAdminEdit}
-            isAdmin={false}
+            isGmApprover={false}
             isSales={true}
           />
         );
@@ -1866,7 +1983,7 @@ const RequestForm: React.FC = () => {
               isUpdating={false}
               readOnly={true}
               forceEnableActions={false}
-              isAdmin={false}
+              isGmApprover={false}
               isSales={true}
             />
           </div>
@@ -2257,7 +2374,7 @@ const RequestForm: React.FC = () => {
                     className="flex items-center justify-between gap-2 rounded-lg border border-border bg-muted/40 px-3 py-2"
                   >
                     <div className="flex min-w-0 flex-1 items-center gap-2">
-                      <File size={16} className="text-primary" />
+                      <AttachmentThumbnail attachment={attachment} />
                       <span className="text-sm truncate">{attachment.filename}</span>
                     </div>
                     <div className="flex items-center gap-1">
@@ -2294,34 +2411,25 @@ const RequestForm: React.FC = () => {
     lineInputs: DesignOfferLineInput[];
   }) => {
     if (!existingRequest) return false;
-    if (!payload.bomFolderLink.trim()) {
-      toast({
-        title: t.request.validationError,
-        description: t.request.designResultBomRequired,
-        variant: 'destructive',
-      });
-      return false;
-    }
-    const lineErrors = buildDesignOfferLineErrors(payload.lineInputs);
-    const missingLineNumbers = lineErrors
-      .map((line, index) =>
-        line.offerProductName || line.offerProductPartNumber ? index + 1 : null
-      )
-      .filter((lineNumber): lineNumber is number => lineNumber !== null);
-    if (missingLineNumbers.length > 0) {
-      setDesignResultLineErrors(lineErrors);
+    const mergedProducts = mergeDesignOfferLineInputs(
+      normalizeProducts(existingRequest),
+      payload.lineInputs
+    );
+    const issues = validateTransition('design_result', {
+      ...existingRequest,
+      products: mergedProducts,
+      designResultBomFolderLink: payload.bomFolderLink,
+      designResultComments: payload.comments,
+    });
+    if (issues.length > 0) {
+      setDesignResultLineErrors(buildDesignOfferLineErrors(payload.lineInputs));
       toast({
         title: t.request.validationError,
-        description: String(t.request.designResultProductFieldsRequired)
-          .replace('{items}', missingLineNumbers.join(', ')),
+        description: issues.map((issue) => issue.message).join(' '),
         variant: 'destructive',
       });
       return false;
     }
-    const mergedProducts = mergeDesignOfferLineInputs(
-      normalizeProducts(existingRequest),
-      payload.lineInputs
-    );
     setIsUpdating(true);
     try {
       await updateRequest(existingRequest.id, {
@@ -2503,7 +2611,7 @@ const RequestForm: React.FC = () => {
   const handleSalesStatusUpdate = async (
     status: RequestStatus,
     comment?: string,
-    options?: { throwOnError?: boolean }
+    options?: StatusChangeOptions & { throwOnError?: boolean }
   ) => {
     if (!existingRequest) return false;
 
@@ -2511,7 +2619,7 @@ const RequestForm: React.FC = () => {
     try {
       await new Promise(resolve => setTimeout(resolve, 500));
 
-      await updateStatus(existingRequest.id, status, comment);
+      await updateStatus(existingRequest.id, status, comment, { password: options?.password });
       setFormData((prev) => ({ ...prev, status }));
 
       toast({
@@ -2724,7 +2832,7 @@ const RequestForm: React.FC = () => {
                   </div>
 
                   <div className="grid grid-cols-1 sm:grid-cols-2 xl:flex items-center gap-2 w-full xl:w-auto">
-                    {user?.role === 'admin' && (
+                    {hasRole('admin') && (
                       <Button
                         variant="outline"
                         onClick={() => navigate(`/requests/${existingRequest.id}/edit`)}
@@ -3055,9 +3163,7 @@ const RequestForm: React.FC = () => {
                 {designPreviewAttachment &&
                   !isImageFile(designPreviewAttachment.filename) &&
                   !isPdfFile(designPreviewAttachment.filename) && (
-                    <div className="text-sm text-muted-foreground">
-                      {t.request.previewNotAvailable}
-                    </div>
+                    <AttachmentDocumentPreview attachment={designPreviewAttachment} />
                   )}
                 {designPreviewAttachment && !designPreviewUrl && (
                   <div className="text-sm text-muted-foreground">
@@ -3068,6 +3174,19 @@ const RequestForm: React.FC = () => {
             </DialogContent>
           </Dialog>
 
+          <RequestConflictDialog
+            open={Boolean(versionConflict)}
+            fields={versionConflict?.fields ?? []}
+            mine={versionConflict?.updates}
+            theirs={versionConflict?.error.serverCopy}
+            theirsEditedBy={versionConflict?.error.serverCopy.history?.[versionConflict.error.serverCopy.history.length - 1]?.userName}
+            choices={conflictChoices}
+            onChoiceChange={(path, choice) => setConflictChoices((prev) => ({ ...prev, [path]: choice }))}
+            onApply={() => void applyConflictMerge()}
+            onDiscard={discardConflictingChanges}
+            isApplying={isResolvingConflict}
+          />
+
           {existingRequest && showDesignSummary && renderDesignSummary()}
 
           {existingRequest && !showDesignSummary && (isDesignRole || isAdminEdit) && (
@@ -3209,7 +3328,7 @@ const RequestForm: React.FC = () => {
               isUpdating={isUpdating}
               readOnly={!canEditSalesPanel}
               forceEnableActions={isAdminEdit}
-              isAdmin={user?.role === 'admin'}
+              isGmApprover={hasPermission('approve_gm')}
               isSales={isSalesRole}
             />
           )}
@@ -3220,7 +3339,21 @@ const RequestForm: React.FC = () => {
         {/* Sidebar - only show for existing requests */}
         {existingRequest && (
           <div className="space-y-4 md:space-y-6">
-            <StatusTimeline history={existingRequest.history} />
+            <Tabs defaultValue="status">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="status">{t.timeline.status}</TabsTrigger>
+                <TabsTrigger value="changes">{t.timeline.changes}</TabsTrigger>
+              </TabsList>
+              <TabsContent value="status">
+                <StatusTimeline history={existingRequest.history} />
+              </TabsContent>
+              <TabsContent value="changes">
+                <RequestChangeHistory
+                  requestId={existingRequest.id}
+                  refreshKey={existingRequest.version ?? String(existingRequest.updatedAt)}
+                />
+              </TabsContent>
+            </Tabs>
           </div>
         )}
       </div>
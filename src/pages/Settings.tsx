@@ -50,10 +50,16 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { Plus, Trash2, Users, Settings as SettingsIcon, Globe, Truck, Pencil, Layers, ArrowRightLeft, Box, Circle, Download, Droplets, Route, Wind, Repeat, PackageCheck, MessageCircle, Server, Database, RefreshCw, Mail, ChevronDown, CheckCircle2, AlertTriangle, XCircle, ScrollText } from 'lucide-react';
-import { ROLE_CONFIG, UserRole } from '@/types';
+import { CustomerRequest, ROLE_CONFIG, UserRole } from '@/types';
 import { cn } from '@/lib/utils';
+import { convertRequestFinalPrice, fetchExchangeRateConfig } from '@/lib/exchangeRates';
 import ListManager from '@/components/settings/ListManager';
 import AuditLogPanel from '@/components/settings/AuditLogPanel';
+import SlaPolicyPanel from '@/components/settings/SlaPolicyPanel';
+import AttachmentAccessPanel from '@/components/settings/AttachmentAccessPanel';
+import ExchangeRatePanel from '@/components/settings/ExchangeRatePanel';
+import OfferTemplatesPanel from '@/components/settings/OfferTemplatesPanel';
+import WorkflowPanel from '@/components/settings/WorkflowPanel';
 import M365NotificationsTab from '@/components/settings/M365NotificationsTab';
 import { localizeApiError } from '@/utils/localizeApiError';
 import { format } from 'date-fns';
@@ -79,6 +85,8 @@ type M365Templates = Record<M365ActionKey, M365EmailTemplate>;
 
 type NotificationLang = 'en' | 'fr' | 'zh';
 
+const USER_ROLE_OPTIONS: UserRole[] = ['sales', 'design', 'costing', 'admin', 'finance', 'cashier'];
+
 const M365_TEMPLATE_LANGS: NotificationLang[] = ['en', 'fr', 'zh'];
 
 const DEFAULT_TEMPLATES_BY_LANG: Record<NotificationLang, M365Templates> = {
@@ -482,7 +490,7 @@ const normalizeDbBackupSets = (value: unknown): DbBackupSet[] => {
 };
 
 const Settings: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const { toast } = useToast();
   const { t, language } = useLanguage();
   const { requests, isLoading } = useRequests();
@@ -517,6 +525,7 @@ const Settings: React.FC = () => {
     updateUser,
     deleteUser,
     importLegacyUsers,
+    permissionCatalog,
   } = useAdminSettings();
 
   const validTabs = new Set([
@@ -526,6 +535,9 @@ const Settings: React.FC = () => {
     'offer-profile',
     'feedback',
     'm365',
+    'workflow',
+    'sla',
+    'currencies',
     'dbmonitor',
     'auditlog',
     'deployments',
@@ -538,7 +550,7 @@ const Settings: React.FC = () => {
     setSearchParams(next, { replace: true });
   };
 
-  if (user?.role !== 'admin') {
+  if (!hasPermission('manage_settings')) {
     return <Navigate to="/dashboard" replace />;
   }
 
@@ -1813,7 +1825,24 @@ const Settings: React.FC = () => {
     };
   }, [loadFeedback]);
 
-  const exportRequestsCsv = () => {
+  // Final prices converted into the reporting currency; the export still goes out when rates cannot be loaded.
+  const loadReportingColumns = async () => {
+    const config = await fetchExchangeRateConfig().catch((error) => {
+      console.error('Failed to load exchange rates for export:', error);
+      return null;
+    });
+    return (req: CustomerRequest) => {
+      const converted = config ? convertRequestFinalPrice(config, req) : null;
+      return {
+        reportingCurrency: config?.reportingCurrency ?? '',
+        finalPriceReporting: converted ? Number(converted.amount.toFixed(2)) : null,
+        exchangeRate: converted ? Number(converted.rate.toFixed(6)) : null,
+        exchangeRateFrozen: converted ? converted.frozen : null,
+      };
+    };
+  };
+
+  const exportRequestsCsv = async () => {
     if (isLoading) {
       toast({
         title: t.common.loading,
@@ -1889,7 +1918,14 @@ const Settings: React.FC = () => {
       'costingNotes',
       'deliveryLeadtime',
       'sellingPrice',
+      'sellingCurrency',
       'calculatedMargin',
+      'salesFinalPrice',
+      'salesCurrency',
+      'reportingCurrency',
+      'finalPriceReporting',
+      'exchangeRate',
+      'exchangeRateFrozen',
       'history',
     ];
 
@@ -1909,9 +1945,11 @@ const Settings: React.FC = () => {
       return value;
     };
 
-    const rows = requests.map((req) =>
-      headers.map((header) => escapeCsv(formatValue((req as any)[header]))).join(',')
-    );
+    const reportingColumns = await loadReportingColumns();
+    const rows = requests.map((req) => {
+      const source = { ...req, ...reportingColumns(req) };
+      return headers.map((header) => escapeCsv(formatValue((source as any)[header]))).join(',');
+    });
 
     const csv = [headers.join(','), ...rows].join('\n');
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
@@ -2012,7 +2050,14 @@ const Settings: React.FC = () => {
       'costingNotes',
       'deliveryLeadtime',
       'sellingPrice',
+      'sellingCurrency',
       'calculatedMargin',
+      'salesFinalPrice',
+      'salesCurrency',
+      'reportingCurrency',
+      'finalPriceReporting',
+      'exchangeRate',
+      'exchangeRateFrozen',
       'history',
     ];
 
@@ -2025,10 +2070,12 @@ const Settings: React.FC = () => {
       return String(value);
     };
 
+    const reportingColumns = await loadReportingColumns();
     const data = requests.map((req) => {
+      const source = { ...req, ...reportingColumns(req) };
       const row: Record<string, string> = {};
       for (const h of headers) {
-        row[h] = formatValue((req as any)[h]);
+        row[h] = formatValue((source as any)[h]);
       }
       return row;
     });
@@ -2164,6 +2211,8 @@ const Settings: React.FC = () => {
         role: editingUser.role,
         preferredLanguage: editingUser.preferredLanguage,
         newPassword: editingUser.newPassword?.trim() || '',
+        roles: editingUser.roles,
+        grantedPermissions: editingUser.grantedPermissions,
       });
       setIsEditUserOpen(false);
       setEditingUser(null);
@@ -2732,7 +2781,7 @@ const Settings: React.FC = () => {
                           cashier: 'bg-cyan-500',
                         };
 
-                        return (
+                        const chip = (
                           <span
                             title={roleLabel}
                             className={cn(
@@ -2748,6 +2797,18 @@ const Settings: React.FC = () => {
                             <span className="truncate">{roleLabel}</span>
                           </span>
                         );
+                        const extraRoles = userItem.roles.filter((role) => role !== userItem.role);
+
+                        return (
+                          <div className="flex flex-col gap-1">
+                            {chip}
+                            {extraRoles.length ? (
+                              <span className="text-[11px] text-muted-foreground">
+                                + {extraRoles.map((role) => t.roles[role]).join(', ')}
+                              </span>
+                            ) : null}
+                          </div>
+                        );
                       })()}
                     </TableCell>
                     <TableCell>
@@ -2904,7 +2965,18 @@ const Settings: React.FC = () => {
                   <Label htmlFor="edit-role">{t.common.role}</Label>
                   <Select
                     value={editingUser?.role ?? 'sales'}
-                    onValueChange={(value) => editingUser && setEditingUser({ ...editingUser, role: value as UserRole })}
+                    onValueChange={(value) =>
+                      editingUser &&
+                      setEditingUser({
+                        ...editingUser,
+                        role: value as UserRole,
+                        // The old primary role is dropped rather than kept as an extra role.
+                        roles: [
+                          value as UserRole,
+                          ...editingUser.roles.filter((role) => role !== editingUser.role && role !== value),
+                        ],
+                      })
+                    }
                     disabled={!editingUser}
                   >
                     <SelectTrigger id="edit-role">
@@ -2920,6 +2992,73 @@ const Settings: React.FC = () => {
                     </SelectContent>
                   </Select>
                 </div>
+                {editingUser ? (
+                  <div className="space-y-2">
+                    <Label>{t.settings.additionalRoles}</Label>
+                    <p className="text-xs text-muted-foreground">{t.settings.additionalRolesDesc}</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {USER_ROLE_OPTIONS.filter((role) => role !== editingUser.role).map((role) => (
+                        <div key={role} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`edit-extra-role-${role}`}
+                            checked={editingUser.roles.includes(role)}
+                            onCheckedChange={(checked) =>
+                              setEditingUser({
+                                ...editingUser,
+                                roles: checked
+                                  ? [...editingUser.roles, role]
+                                  : editingUser.roles.filter((item) => item !== role),
+                              })
+                            }
+                          />
+                          <Label htmlFor={`edit-extra-role-${role}`} className="text-sm font-normal cursor-pointer">
+                            {t.roles[role]}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+                {editingUser && permissionCatalog ? (
+                  <div className="space-y-2">
+                    <Label>{t.settings.permissionsTitle}</Label>
+                    <p className="text-xs text-muted-foreground">{t.settings.permissionsDesc}</p>
+                    <div className="space-y-3">
+                      {permissionCatalog.permissions.map((permission) => {
+                        const fromRole = editingUser.roles.some((role) =>
+                          (permissionCatalog.rolePermissions[role] ?? []).includes(permission)
+                        );
+                        return (
+                          <div key={permission} className="flex items-start gap-2">
+                            <Checkbox
+                              id={`edit-permission-${permission}`}
+                              className="mt-0.5"
+                              checked={fromRole || editingUser.grantedPermissions.includes(permission)}
+                              disabled={fromRole}
+                              onCheckedChange={(checked) =>
+                                setEditingUser({
+                                  ...editingUser,
+                                  grantedPermissions: checked
+                                    ? [...editingUser.grantedPermissions, permission]
+                                    : editingUser.grantedPermissions.filter((item) => item !== permission),
+                                })
+                              }
+                            />
+                            <div className="space-y-0.5">
+                              <Label htmlFor={`edit-permission-${permission}`} className="text-sm font-normal cursor-pointer">
+                                {t.settings.permissionNames[permission]}
+                                {fromRole ? (
+                                  <span className="ml-2 text-xs text-muted-foreground">({t.settings.permissionFromRole})</span>
+                                ) : null}
+                              </Label>
+                              <p className="text-xs text-muted-foreground">{t.settings.permissionDescriptions[permission]}</p>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ) : null}
                 <div className="space-y-2">
                   <Label htmlFor="edit-lang">{t.common.language}</Label>
                   <Select
@@ -3098,6 +3237,7 @@ const Settings: React.FC = () => {
             </DialogContent>
           </Dialog>
 
+          <AttachmentAccessPanel />
         </TabsContent>
 
         <TabsContent value="offer-profile" className="space-y-6">
@@ -3180,6 +3320,8 @@ const Settings: React.FC = () => {
               </Button>
             </div>
           </div>
+
+          <OfferTemplatesPanel />
         </TabsContent>
 
         <TabsContent value="feedback" className="space-y-6">
@@ -4659,6 +4801,18 @@ const Settings: React.FC = () => {
           })()}
         </TabsContent>
 
+        <TabsContent value="workflow" className="space-y-6">
+          <WorkflowPanel />
+        </TabsContent>
+
+        <TabsContent value="sla" className="space-y-6">
+          <SlaPolicyPanel />
+        </TabsContent>
+
+        <TabsContent value="currencies" className="space-y-6">
+          <ExchangeRatePanel />
+        </TabsContent>
+
         <TabsContent value="auditlog" className="space-y-6">
           <AuditLogPanel />
         </TabsContent>
@@ -1,4 +1,7 @@
 export type UserRole = 'sales' | 'design' | 'costing' | 'admin' | 'finance' | 'cashier';
+
+// Capabilities granted by role defaults or directly per user (server/permissions.js).
+export type Permission = 'manage_settings' | 'view_costing_margin' | 'approve_gm' | 'delete_requests';
 
 export type RequestStatus = 
   | 'draft'
@@ -32,6 +35,9 @@ export interface User {
   email: string;
   name: string;
   role: UserRole;
+  // Primary role first, then any extra roles.
+  roles: UserRole[];
+  permissions: Permission[];
   createdAt: Date;
 }
 
@@ -95,6 +101,163 @@ export interface StatusHistoryEntry {
   comment?: string;
 }
 
+export type RequestChangeSection = 'general' | 'technical' | 'costing' | 'sales';
+
+export interface RequestFieldChange {
+  id: string;
+  changeSetId: string;
+  changedAt: Date;
+  actorUserId: string | null;
+  actorName: string | null;
+  section: RequestChangeSection;
+  fieldPath: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type RequestListSortKey =
+  | 'id'
+  | 'priority'
+  | 'status'
+  | 'clientName'
+  | 'applicationVehicle'
+  | 'country'
+  | 'createdByName'
+  | 'createdAt'
+  | 'updatedAt';
+
+export interface RequestListSortRule {
+  key: RequestListSortKey;
+  direction: 'asc' | 'desc';
+}
+
+// One page of GET /api/requests/list. `statusCounts` ignores the status/next-action filters (KPI cards).
+export interface RequestListPage {
+  items: CustomerRequest[];
+  nextCursor: string | null;
+  total: number;
+  statusCounts: Partial<Record<RequestStatus, number>>;
+}
+
+// Saved dashboard view. Personal views belong to one user; shared views are published by an admin
+// to a role ('all' = every dashboard user).
+export interface DashboardViewConfig {
+  filter: string;
+  owner: 'all' | 'mine';
+  countries: string[];
+  priorities: RequestPriority[];
+  nextActionRoles: string[];
+  createdFrom: string;
+  createdTo: string;
+  sort: RequestListSortRule[];
+  hiddenColumns: string[];
+  density: 'compact' | 'comfortable';
+}
+
+export type DashboardViewShareRole = 'all' | UserRole;
+
+export interface DashboardView {
+  id: string;
+  name: string;
+  scope: 'personal' | 'shared';
+  sharedRole: DashboardViewShareRole | null;
+  config: DashboardViewConfig;
+  createdByName: string;
+  createdAt: Date;
+  updatedAt: Date;
+  canEdit: boolean;
+}
+
+// SLA tracking computed by the server monitor for the request's current stage.
+export type RequestSlaState = 'on_track' | 'at_risk' | 'breached';
+
+export interface SlaSettings {
+  enabled: boolean;
+  timezone: string;
+  workdayStart: string;
+  workdayEnd: string;
+  workingDays: number[];
+  warningPercent: number;
+  updatedAt?: string | null;
+}
+
+export interface SlaPolicy {
+  status: RequestStatus;
+  // '*' applies to every priority without a specific row.
+  priority: RequestPriority | '*';
+  targetHours: number;
+}
+
+export interface SlaHoliday {
+  date: string;
+  label: string;
+}
+
+// Who may see each category of request files (GET/PUT /api/admin/attachment-access). Admins always see all.
+export type AttachmentCategory = 'rim_drawing' | 'design_result' | 'costing' | 'sales';
+
+export interface AttachmentAccessRules {
+  rules: Record<AttachmentCategory, Exclude<UserRole, 'admin'>[]>;
+}
+
+export interface SlaConfig {
+  settings: SlaSettings;
+  policies: SlaPolicy[];
+  holidays: SlaHoliday[];
+}
+
+// Admin-editable request workflow (GET /api/workflow). The status set is fixed; routing and transitions are data.
+export type WorkflowNextActionRole = 'sales' | 'design' | 'costing' | 'admin' | 'none';
+
+export interface WorkflowState {
+  status: RequestStatus;
+  notifyRoles: UserRole[];
+  nextActionRole: WorkflowNextActionRole;
+  // Empty = show the translated role name.
+  nextActionLabel: string;
+}
+
+export interface WorkflowTransition {
+  from: RequestStatus;
+  to: RequestStatus;
+  roles: UserRole[];
+  requiredFields: string[];
+  commentRequired: boolean;
+}
+
+export interface WorkflowDefinition {
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+  updatedAt: string | null;
+  roles: UserRole[];
+  nextActionRoles: WorkflowNextActionRole[];
+  requiredFieldOptions: string[];
+  // Field checks per target status, enforced by POST /api/requests/:id/status.
+  validationRules: Partial<Record<RequestStatus, TransitionRule[]>>;
+  // Permission that lets a user fire transitions into these statuses regardless of role.
+  transitionPermissions: Partial<Record<RequestStatus, Permission>>;
+}
+
+export type TransitionRuleCheck = 'required' | 'number' | 'positive' | 'oneOf' | 'eachRequired' | 'sum';
+
+export interface TransitionRule {
+  field: string;
+  check: TransitionRuleCheck;
+  message: string;
+  // Only applies when `field` equals `equals` (case-insensitive).
+  when?: { field: string; equals: string };
+  values?: string[];
+  itemFields?: string[];
+  itemField?: string;
+  total?: number;
+}
+
+// A failed rule, with its message already translated for the UI.
+export interface TransitionRuleIssue {
+  field: string;
+  message: string;
+}
+
 export interface SalesPaymentTerm {
   paymentNumber: number;
   paymentName: string;
@@ -115,6 +278,15 @@ export interface ClientOfferLine {
   remark: string;
 }
 
+export type OfferLineColumn = 'item' | 'description' | 'specification' | 'quantity' | 'unitPrice' | 'lineTotal' | 'remark';
+
+// Clause copied into an offer from the clause library; later library edits do not change the offer.
+export interface ClientOfferClause {
+  id: string;
+  title: string;
+  body: string;
+}
+
 export interface ClientOfferConfig {
   offerNumber: string;
   recipientName: string;
@@ -125,10 +297,17 @@ export interface ClientOfferConfig {
     lineItems: boolean;
     commercialTerms: boolean;
     deliveryTerms: boolean;
+    clauses?: boolean;
     appendix: boolean;
   };
   lines: ClientOfferLine[];
   selectedAttachmentIds: string[];
+  // Set when an offer template was applied. Intro, closing text and clause bodies may hold {{placeholders}}.
+  templateId?: string | null;
+  templateName?: string;
+  closingText?: string;
+  lineColumns?: OfferLineColumn[];
+  clauses?: ClientOfferClause[];
   updatedAt?: string;
   updatedByUserId?: string;
 }
@@ -136,6 +315,8 @@ export interface ClientOfferConfig {
 export interface CustomerRequest {
   id: string;
   // General Information
+  // Customer account (server/customers.js); clientName is the account name when set.
+  customerId?: string | null;
   clientName: string;
   clientContact: string;
   applicationVehicle: string;
@@ -200,6 +381,8 @@ export interface CustomerRequest {
   draftSessionKey?: string;
   createdAt: Date;
   updatedAt: Date;
+  // Server-side write counter used for optimistic concurrency.
+  version?: number;
   
   // Design Review
   designNotes?: string;
@@ -215,9 +398,11 @@ export interface CustomerRequest {
   
   // Costing
   costingNotes?: string;
+  // Roll-up of `costingProductPrices` when those are set: total of unit price x quantity, revenue-weighted margin.
   sellingPrice?: number;
   sellingCurrency?: 'USD' | 'EUR' | 'RMB';
   calculatedMargin?: number;
+  costingProductPrices?: ProductPrice[];
   incoterm?: string;
   incotermOther?: string;
   vatMode?: 'with' | 'without';
@@ -226,8 +411,10 @@ export interface CustomerRequest {
   costingAttachments?: Attachment[];
 
   // Sales Follow-up
+  // Roll-up of `salesProductPrices`, like `sellingPrice` for costing.
   salesFinalPrice?: number | null;
   salesCurrency?: 'USD' | 'EUR' | 'RMB';
+  salesProductPrices?: ProductPrice[];
   salesIncoterm?: string;
   salesIncotermOther?: string;
   salesVatMode?: 'with' | 'without';
@@ -241,6 +428,12 @@ export interface CustomerRequest {
   salesFeedbackComment?: string;
   salesAttachments?: Attachment[];
   clientOfferConfig?: ClientOfferConfig;
+  // Rates frozen by the server when the request is GM-approved.
+  exchangeRateSnapshot?: ExchangeRateSnapshot;
+
+  // Populated by the paginated list endpoint only.
+  slaDueAt?: Date | null;
+  slaState?: RequestSlaState | null;
 }
 
 export type ContractApprovalStatus =
@@ -266,9 +459,13 @@ export interface ContractApproval {
   id: string;
   status: ContractApprovalStatus;
   clientName: string;
+  customerId?: string | null;
   craNumber?: string;
   craRequestId?: string | null;
   contractAmount: number | null;
+  // Summary only: contractAmount converted into the reporting currency (server/exchangeRates.js).
+  contractAmountReporting?: number | null;
+  reportingCurrency?: PriceCurrency;
   paymentTerms: string;
   validity: string;
   approvedFinalUnitPrice: number | null;
@@ -290,21 +487,324 @@ export interface ContractApproval {
   completedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
+  version?: number;
   nextActionRole?: UserRole | 'none';
   nextActionLabel?: string;
 }
 
+export interface CustomerContact {
+  id: string;
+  name: string;
+  jobTitle: string;
+  email: string;
+  phone: string;
+  isPrimary: boolean;
+}
+
+export interface CustomerAddress {
+  id: string;
+  label: string;
+  address: string;
+  isDefaultDelivery: boolean;
+}
+
+// Customer account (GET /api/customers/:id). List items omit contacts and addresses and carry record counts.
+export interface Customer {
+  id: string;
+  name: string;
+  country: string;
+  city: string;
+  defaultIncoterm: string;
+  defaultCurrency: PriceCurrency | '';
+  defaultPaymentTerms: string;
+  ownerUserId: string | null;
+  ownerName: string;
+  notes: string;
+  contacts: CustomerContact[];
+  addresses: CustomerAddress[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustomerListItem = Omit<Customer, 'contacts' | 'addresses'> & {
+  requestCount: number;
+  contractCount: number;
+};
+
+export type PriceCurrency = 'USD' | 'EUR' | 'RMB';
+
+export interface PriceQuantityBreak {
+  minQuantity: number;
+  unitPrice: number;
+}
+
+// One price version of a reference product (server/priceCatalog.js). Dates are YYYY-MM-DD, `effectiveTo` inclusive.
+export interface PriceEntry {
+  id: string;
+  productId: string;
+  currency: PriceCurrency;
+  basePrice: number;
+  // Omitted for users without the view_costing_margin permission.
+  cost?: number | null;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  quantityBreaks: PriceQuantityBreak[];
+  note: string;
+  createdByName: string;
+  createdAt: string;
+}
+
 export interface ReferenceProduct {
   id: string;
+  partNumber: string;
   configurationType: string;
   articulationType: string;
   brakeType: string;
   brakeSize: string;
   studsPcdStandards: string[];
+  // Versions in effect today, one per currency.
+  currentPrices: PriceEntry[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type ReferenceMatchStatus = 'match' | 'partial' | 'mismatch' | 'unknown' | 'special';
+
+export interface ReferenceMatchField {
+  field: 'configurationType' | 'articulationType' | 'brakeType' | 'brakeSize' | 'studsPcdStandards';
+  status: ReferenceMatchStatus;
+  requestValue: string;
+  referenceValue: string;
+}
+
+export interface ReferencePriceSuggestion {
+  priceId: string;
+  currency: PriceCurrency;
+  basePrice: number;
+  // Base price, or the deepest quantity break reached by the product quantity.
+  unitPrice: number;
+  quantityBreak: PriceQuantityBreak | null;
+  effectiveFrom: string;
+  effectiveTo: string | null;
+  // Omitted for users without the view_costing_margin permission.
+  cost?: number | null;
+  margin?: number | null;
+}
+
+export interface ReferenceMatchCandidate {
+  product: Omit<ReferenceProduct, 'currentPrices'>;
+  // 0-100, weighted over the compared fields.
+  score: number;
+  fields: ReferenceMatchField[];
+  suggestion: ReferencePriceSuggestion | null;
+}
+
+export interface RequestProductMatches {
+  productIndex: number;
+  quantity: number | null;
+  candidates: ReferenceMatchCandidate[];
+}
+
+export interface SimilarRequest {
+  id: string;
+  status: RequestStatus;
+  clientName: string;
+  applicationVehicle: string;
+  country: string;
+  createdAt: string;
+  updatedAt: string;
+  // 0-100 over the fields the open request fills in.
+  score: number;
+  matchedFields: string[];
+  designResult: {
+    comments: string;
+    bomFolderLink: string;
+    files: Array<{ id: string; filename: string }>;
+  };
+  // Sales final price when negotiated, otherwise the costing selling price.
+  finalPrice: { amount: number; currency: string; source: 'sales' | 'costing' } | null;
+}
+
+// Exchange rates against EUR with effective dates (server/exchangeRates.js). `rate` is the EUR value of one unit.
+export interface ExchangeRate {
+  currency: PriceCurrency;
+  effectiveFrom: string;
+  rate: number;
+}
+
+export interface ExchangeRateConfig {
+  baseCurrency: PriceCurrency;
+  reportingCurrency: PriceCurrency;
+  updatedAt: string | null;
+  rates: ExchangeRate[];
+}
+
+export interface ExchangeRateSnapshot {
+  baseCurrency: PriceCurrency;
+  date: string;
+  rates: Partial<Record<PriceCurrency, number>>;
+  frozenAt: string;
+}
+
+export type CostComponent = 'material' | 'machining' | 'brakeComponents' | 'surfaceFinish' | 'packaging' | 'freight';
+
+// Itemised unit costs of one product line in one costing round (server/costSheets.js). Totals and margin are
+// computed by the server against `sellingPrice`.
+export interface CostSheet {
+  id: string;
+  requestId: string;
+  productIndex: number;
+  costingRound: number;
+  currency: PriceCurrency;
+  components: Record<CostComponent, number>;
+  overheadPercent: number;
+  sellingPrice: number | null;
+  visibleToSales: boolean;
+  note: string;
+  updatedBy: string | null;
+  updatedByName: string;
+  createdAt: string;
+  updatedAt: string;
+  directCost: number;
+  overheadAmount: number;
+  totalCost: number;
+  margin: number | null;
+}
+
+export interface RequestCostSheets {
+  currentRound: number;
+  canEdit: boolean;
+  sheets: CostSheet[];
+}
+
+// Negotiated price of one request product line, keyed by its index in `products`.
+export interface ProductPrice {
+  productIndex: number;
+  unitPrice: number | null;
+  currency: PriceCurrency;
+  margin: number | null;
+}
+
+// Frozen content of an issued client offer: the offer configuration, the sales terms it printed and its totals.
+export interface ClientOfferRevisionSnapshot extends Omit<ClientOfferConfig, 'updatedAt' | 'updatedByUserId'> {
+  salesCurrency: PriceCurrency | null;
+  salesIncoterm: string | null;
+  salesIncotermOther: string | null;
+  salesVatMode: 'with' | 'without' | null;
+  salesVatRate: number | null;
+  salesWarrantyPeriod: string | null;
+  salesOfferValidityPeriod: string | null;
+  salesExpectedDeliveryDate: string | null;
+  salesPaymentTerms: SalesPaymentTerm[] | null;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+}
+
+export interface ClientOfferRevision {
+  id: string;
+  requestId: string;
+  revisionNumber: number;
+  // A, B, C...
+  revisionLabel: string;
+  snapshot: ClientOfferRevisionSnapshot;
+  pdfUrl: string | null;
+  pdfFilename: string | null;
+  language: string | null;
+  createdBy: string | null;
+  createdByName: string;
+  createdAt: string;
+  sent: {
+    sentOn: string;
+    recipient: string;
+    note: string;
+    recordedBy: string | null;
+    recordedByName: string;
+    recordedAt: string;
+  } | null;
+}
+
+export interface ClientOfferRevisionChange {
+  fieldPath: string;
+  before: unknown;
+  after: unknown;
+}
+
+export type OfferTemplateLanguage = 'en' | 'fr' | 'zh';
+
+export type OfferClauseCategory = 'general' | 'commercial' | 'delivery' | 'warranty' | 'legal';
+
+export interface OfferClause {
+  id: string;
+  title: string;
+  body: string;
+  category: OfferClauseCategory;
+  language: OfferTemplateLanguage | null;
+  updatedAt: string;
+  updatedByName: string;
+}
+
+export interface OfferTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Free label such as "EU" or "China domestic".
+  market: string;
+  // Requests from these countries get the template suggested.
+  countries: string[];
+  language: OfferTemplateLanguage | null;
+  introText: string;
+  closingText: string;
+  sectionVisibility: Required<ClientOfferConfig['sectionVisibility']>;
+  lineColumns: OfferLineColumn[];
+  clauseIds: string[];
+  updatedAt: string;
+  updatedByName: string;
+}
+
+export type ApprovalSignatureDecision = 'approved' | 'rejected';
+
+export interface StatusChangeOptions {
+  // Re-authentication of GM decisions.
+  password?: string;
+}
+
+// A signed GM decision on a request or contract approval (server/approvalSignatures.js).
+export interface ApprovalSignature {
+  id: string;
+  targetType: 'request' | 'contract';
+  targetId: string;
+  decision: ApprovalSignatureDecision;
+  // Decided figures and terms; attachments carry the SHA-256 of their bytes.
+  payload: Record<string, unknown>;
+  payloadHash: string;
+  previousHash: string | null;
+  signatureHash: string;
+  signerUserId: string;
+  signerName: string;
+  signerEmail: string;
+  comment: string;
+  reauthenticatedAt: string;
+  signedAt: string;
+  latest: boolean;
+  payloadIntact: boolean;
+  chainIntact: boolean;
+  // Approvals only: whether the record still has the signed values, and which fields changed since.
+  matchesCurrent: boolean | null;
+  changedFields: string[];
+}
+
+export interface ApprovalSignatureVerification {
+  targetType: 'request' | 'contract';
+  targetId: string;
+  currentPayloadHash: string;
+  // Newest first.
+  signatures: ApprovalSignature[];
+  intact: boolean;
+  matchesLatestApproval: boolean | null;
+}
+
 export type FormMode = 'create' | 'draft_edit' | 'clarification_edit' | 'read_only';
 
 interface StandardStudsPcdOption {
@@ -1,4 +1,4 @@
-﻿import jsPDF from 'jspdf';
+﻿import { jsPDF } from 'jspdf';
 import { format } from 'date-fns';
 import { enUS, fr, zhCN } from 'date-fns/locale';
 import {
@@ -9,9 +9,21 @@ import {
   ClientOfferLine,
   CONFIGURATION_TYPES,
   CustomerRequest,
+  OfferLineColumn,
   RequestProduct,
 } from '@/types';
 import { Language, translations } from '@/i18n/translations';
+import { buildOfferPlaceholderValues, getOfferLineColumns, resolveOfferPlaceholders } from '@/lib/offerTemplates';
+import {
+  CHINESE_FONT_NAME,
+  PdfOutput,
+  PdfOutputOptions,
+  PdfPlatform,
+  browserPdfPlatform,
+  bytesToBase64,
+  finishPdf,
+  loadChineseFont,
+} from '@/utils/pdfPlatform';
 
 export interface ClientOfferProfile {
   companyNameLocal: string;
@@ -59,8 +71,6 @@ type NormalizedTerms = {
 };
 
 const LOGO_URL = '/monroc-logo.png';
-const CHINESE_FONT_FILE = '/fonts/simhei.ttf';
-const CHINESE_FONT_NAME = 'simhei';
 const MONROC_RED = '#FA0000';
 const PDF_TYPE = {
   title: 18,
@@ -88,49 +98,6 @@ const PDF_COLOR = {
 } as const;
 const FOOTER_RESERVED_HEIGHT = 12;
 
-let chineseFontLoaded = false;
-
-const arrayBufferToBase64 = (buffer: ArrayBuffer) =>
-  new Promise<string>((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file')); 
-    reader.onload = () => {
-      const result = String(reader.result || '');
-      const comma = result.indexOf(',');
-      if (!result.startsWith('data:') || comma === -1) {
-        reject(new Error('Unexpected data URL'));
-        return;
-      }
-      resolve(result.slice(comma + 1));
-    };
-    reader.readAsDataURL(new Blob([buffer]));
-  });
-
-const loadChineseFont = async (pdf: jsPDF) => {
-  if (chineseFontLoaded) return true;
-  try {
-    const response = await fetch(CHINESE_FONT_FILE);
-    if (!response.ok) return false;
-    const fontData = await response.arrayBuffer();
-    const fontBase64 = await arrayBufferToBase64(fontData);
-    pdf.addFileToVFS('simhei.ttf', fontBase64);
-    pdf.addFont('simhei.ttf', CHINESE_FONT_NAME, 'normal');
-    chineseFontLoaded = true;
-    return true;
-  } catch {
-    return false;
-  }
-};
-
-const getPdfLanguage = (): Language => {
-  try {
-    const stored = localStorage.getItem('monroc_language');
-    return stored === 'fr' || stored === 'zh' ? stored : 'en';
-  } catch {
-    return 'en';
-  }
-};
-
 const getPdfLocale = (language: Language) => {
   if (language === 'fr') return fr;
   if (language === 'zh') return zhCN;
@@ -147,23 +114,6 @@ const hexToRgb = (hex: string) => {
   };
 };
 
-const loadImageAsBase64 = (url: string): Promise<{ dataUrl: string; width: number; height: number }> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'Anonymous';
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      ctx?.drawImage(img, 0, 0);
-      resolve({ dataUrl: canvas.toDataURL('image/png'), width: img.width, height: img.height });
-    };
-    img.onerror = reject;
-    img.src = url;
-  });
-};
-
 const parseOptionalNumber = (value: unknown): number | null => {
   if (typeof value === 'number' && Number.isFinite(value)) return value;
   if (typeof value === 'string' && value.trim() !== '') {
@@ -327,8 +277,22 @@ const normalizeOfferConfigForPdf = (
       lineItems: source?.sectionVisibility?.lineItems !== false,
       commercialTerms: source?.sectionVisibility?.commercialTerms !== false,
       deliveryTerms: source?.sectionVisibility?.deliveryTerms !== false,
+      clauses: source?.sectionVisibility?.clauses !== false,
       appendix: source?.sectionVisibility?.appendix !== false,
     },
+    templateId: source?.templateId ?? null,
+    templateName: String(source?.templateName ?? ''),
+    closingText: String(source?.closingText ?? '').trim(),
+    lineColumns: getOfferLineColumns(source),
+    clauses: Array.isArray(source?.clauses)
+      ? source!.clauses
+          .map((clause, index) => ({
+            id: String(clause?.id ?? `clause-${index + 1}`),
+            title: String(clause?.title ?? '').trim(),
+            body: String(clause?.body ?? '').trim(),
+          }))
+          .filter((clause) => clause.title || clause.body)
+      : [],
     lines,
     selectedAttachmentIds: Array.isArray(source?.selectedAttachmentIds)
       ? Array.from(new Set(source!.selectedAttachmentIds.map((id) => String(id ?? '').trim()).filter(Boolean)))
@@ -417,35 +381,10 @@ const sniffMimeFromBytes = (bytes: Uint8Array): string | null => {
   return null;
 };
 
-const renderPdfBytesToImages = async (bytes: Uint8Array, maxPages: number): Promise<string[]> => {
-  const pdfjs: any = await import('pdfjs-dist');
-  try {
-    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
-  } catch {}
-
-  const loadingTask = pdfjs.getDocument({ data: bytes });
-  const doc = await loadingTask.promise;
-  const pageCount = Math.min(doc.numPages || 0, maxPages);
-  const out: string[] = [];
-
-  for (let pageIndex = 1; pageIndex <= pageCount; pageIndex += 1) {
-    const page = await doc.getPage(pageIndex);
-    const viewport = page.getViewport({ scale: 1.6 });
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!ctx) throw new Error('No canvas context');
-    canvas.width = Math.ceil(viewport.width);
-    canvas.height = Math.ceil(viewport.height);
-    await page.render({ canvasContext: ctx, viewport }).promise;
-    out.push(canvas.toDataURL('image/jpeg', 0.92));
-  }
-
-  return out;
-};
-
 const attachmentToPreview = async (
   attachment: Attachment,
-  t: any
+  t: any,
+  platform: PdfPlatform
 ): Promise<{ kind: 'image' | 'pdf' | 'none'; dataUrls?: string[]; note?: string }> => {
   const url = String(attachment?.url ?? '');
   if (!url) return { kind: 'none' };
@@ -455,7 +394,7 @@ const attachmentToPreview = async (
     if (parsed.mime.startsWith('image/')) return { kind: 'image', dataUrls: [url] };
     if (parsed.mime === 'application/pdf' && parsed.base64) {
       const bytes = decodeBase64ToBytes(parsed.body);
-      const images = await renderPdfBytesToImages(bytes, 10);
+      const images = await platform.renderPdfPages(bytes, 10);
       return { kind: 'pdf', dataUrls: images };
     }
   }
@@ -468,27 +407,25 @@ const attachmentToPreview = async (
         return { kind: 'image', dataUrls: [`data:${mime};base64,${url}`] };
       }
       if (mime === 'application/pdf') {
-        const images = await renderPdfBytesToImages(bytes, 10);
+        const images = await platform.renderPdfPages(bytes, 10);
         return { kind: 'pdf', dataUrls: images };
       }
     } catch {}
   }
 
   try {
-    const response = await fetch(url);
-    if (!response.ok) {
+    const response = await platform.fetchAttachment(url);
+    if (!response.bytes) {
       const template = String(t?.pdf?.attachmentFetchFailed ?? 'Failed to fetch attachment ({status}).');
       return { kind: 'none', note: template.replace('{status}', String(response.status)) };
     }
-    const buffer = await response.arrayBuffer();
-    const bytes = new Uint8Array(buffer);
-    const mime = String(response.headers.get('content-type') || '').toLowerCase() || sniffMimeFromBytes(bytes) || '';
+    const bytes = response.bytes;
+    const mime = response.contentType || sniffMimeFromBytes(bytes) || '';
     if (mime.startsWith('image/')) {
-      const b64 = await arrayBufferToBase64(buffer);
-      return { kind: 'image', dataUrls: [`data:${mime};base64,${b64}`] };
+      return { kind: 'image', dataUrls: [`data:${mime};base64,${bytesToBase64(bytes)}`] };
     }
     if (mime.includes('pdf') || mime === 'application/pdf') {
-      const images = await renderPdfBytesToImages(bytes, 10);
+      const images = await platform.renderPdfPages(bytes, 10);
       return { kind: 'pdf', dataUrls: images };
     }
   } catch {}
@@ -710,16 +647,18 @@ export const generateClientOfferPDF = async (
   request: CustomerRequest,
   configInput: ClientOfferConfig | undefined,
   profileInput: ClientOfferProfile,
-  languageOverride?: Language
-): Promise<void> => {
+  languageOverride?: Language,
+  outputOptions?: PdfOutputOptions
+): Promise<PdfOutput> => {
+  const platform = outputOptions?.platform ?? browserPdfPlatform;
   const pdf = new jsPDF('p', 'mm', 'a4');
-  const language = languageOverride ?? getPdfLanguage();
+  const language = languageOverride ?? platform.defaultLanguage();
   const locale = getPdfLocale(language);
   const t = translations[language];
   const options = t.options as Record<string, string>;
   const translateOption = (value: string) => options[String(value ?? '')] || String(value ?? '');
 
-  const useChineseFont = language === 'zh' ? await loadChineseFont(pdf) : false;
+  const useChineseFont = language === 'zh' ? await loadChineseFont(pdf, platform) : false;
   const setFont = (weight: 'normal' | 'bold') => {
     if (useChineseFont) {
       pdf.setFont(CHINESE_FONT_NAME, 'normal');
@@ -763,7 +702,7 @@ export const generateClientOfferPDF = async (
 
   let logo: { dataUrl: string; width: number; height: number } | null = null;
   try {
-    logo = await loadImageAsBase64(LOGO_URL);
+    logo = await platform.loadImage(LOGO_URL);
   } catch {
     logo = null;
   }
@@ -897,7 +836,7 @@ export const generateClientOfferPDF = async (
     setFont('normal');
   };
 
-  const drawParagraph = (text: string, fontSize = PDF_TYPE.body) => {
+  const drawParagraph = (text: string, fontSize: number = PDF_TYPE.body) => {
     const raw = String(text ?? '').trim();
     if (!raw) return;
     pdf.setFontSize(fontSize);
@@ -1192,6 +1131,19 @@ export const generateClientOfferPDF = async (
   const normalizedTerms = normalizeTermsForPdf(request, t, language);
 
   const offerDate = format(new Date(), 'PPP', { locale });
+  const termValues = Object.fromEntries(
+    [...normalizedTerms.commercial, ...normalizedTerms.delivery].map((term) => [term.key, term.value.replace(/\n/g, ', ')])
+  );
+  const placeholderValues = buildOfferPlaceholderValues({
+    request,
+    config,
+    profile,
+    offerDate,
+    total: formatMoney(summary.total, request.salesCurrency || 'EUR'),
+    terms: termValues,
+    translateOption,
+  });
+  const fillPlaceholders = (text: string) => resolveOfferPlaceholders(text, placeholderValues);
   drawPageHeader();
   drawTitleCard(offerDate);
   drawMetaRows([
@@ -1206,47 +1158,73 @@ export const generateClientOfferPDF = async (
     const introTopGap = lineHeightMm(PDF_TYPE.body) * 2;
     ensureSpace(lineHeightMm(PDF_TYPE.body) + PDF_SPACE.block + introTopGap);
     y += introTopGap;
-    drawParagraph(resolvedIntroText);
+    drawParagraph(fillPlaceholders(resolvedIntroText));
   }
 
   if (config.sectionVisibility.lineItems) {
     drawSectionTitle(String(t.clientOffer.lineItemsTitle));
     const currencyCode = String(request.salesCurrency || 'EUR').trim().toUpperCase();
 
-    const headers = [
-      String(t.clientOffer.item),
-      String(t.clientOffer.productName || t.clientOffer.description),
-      String(t.clientOffer.productNumber || t.clientOffer.specification),
-      String(t.clientOffer.quantity),
-      `${String(t.clientOffer.unitPrice)} (${currencyCode})`,
-      `${String(t.clientOffer.lineTotal || t.clientOffer.total)} (${currencyCode})`,
-      String(t.clientOffer.remark),
-    ];
+    // Template column sets keep the table order; the remaining columns share the freed width.
+    const columnSpecs: Record<OfferLineColumn, { header: string; ratio: number; value: (line: NormalizedPdfLine) => string }> = {
+      item: { header: String(t.clientOffer.item), ratio: 0.06, value: (line) => line.itemNo },
+      description: {
+        header: String(t.clientOffer.productName || t.clientOffer.description),
+        ratio: 0.24,
+        value: (line) => line.description,
+      },
+      specification: {
+        header: String(t.clientOffer.productNumber || t.clientOffer.specification),
+        ratio: 0.18,
+        value: (line) => line.specification.join('\n'),
+      },
+      quantity: {
+        header: String(t.clientOffer.quantity),
+        ratio: 0.08,
+        value: (line) => (line.quantity === null ? '-' : String(Math.trunc(line.quantity))),
+      },
+      unitPrice: {
+        header: `${String(t.clientOffer.unitPrice)} (${currencyCode})`,
+        ratio: 0.14,
+        value: (line) => formatAmount(line.unitPrice),
+      },
+      lineTotal: {
+        header: `${String(t.clientOffer.lineTotal || t.clientOffer.total)} (${currencyCode})`,
+        ratio: 0.15,
+        value: (line) => formatAmount(line.lineTotal),
+      },
+      remark: { header: String(t.clientOffer.remark), ratio: 0.15, value: (line) => line.remark },
+    };
+    const columns = getOfferLineColumns(config);
+    const columnIndex = (column: OfferLineColumn) => columns.indexOf(column);
+    const indexesOf = (...keys: OfferLineColumn[]) => keys.map(columnIndex).filter((index) => index >= 0);
+    const headers = columns.map((column) => columnSpecs[column].header);
 
-    const columnRatios = [0.06, 0.24, 0.18, 0.08, 0.14, 0.15, 0.15];
-    const colWidths = columnRatios.map((ratio) => Number((contentWidth * ratio).toFixed(3)));
+    const ratioSum = columns.reduce((sum, column) => sum + columnSpecs[column].ratio, 0);
+    const colWidths = columns.map((column) => Number(((contentWidth * columnSpecs[column].ratio) / ratioSum).toFixed(3)));
     const MIN_UNIT_PRICE_WIDTH = 24;
     const MIN_LINE_TOTAL_WIDTH = 24;
-    colWidths[4] = Math.max(colWidths[4], MIN_UNIT_PRICE_WIDTH);
-    colWidths[5] = Math.max(colWidths[5], MIN_LINE_TOTAL_WIDTH);
-    const usedWidth = colWidths.slice(0, 6).reduce((sum, width) => sum + width, 0);
-    colWidths[6] = Math.max(12, contentWidth - usedWidth);
-    const rows: string[][] = normalizedRows.map((line) => [
-      line.itemNo,
-      line.description,
-      line.specification.join('\n'),
-      line.quantity === null ? '-' : String(Math.trunc(line.quantity)),
-      formatAmount(line.unitPrice),
-      formatAmount(line.lineTotal),
-      line.remark,
-    ]);
+    for (const [column, minWidth] of [['unitPrice', MIN_UNIT_PRICE_WIDTH], ['lineTotal', MIN_LINE_TOTAL_WIDTH]] as const) {
+      const index = columnIndex(column);
+      if (index >= 0) colWidths[index] = Math.max(colWidths[index], minWidth);
+    }
+    const lastIndex = colWidths.length - 1;
+    const usedWidth = colWidths.slice(0, lastIndex).reduce((sum, width) => sum + width, 0);
+    colWidths[lastIndex] = Math.max(12, contentWidth - usedWidth);
+    const rows: string[][] = normalizedRows.map((line) => columns.map((column) => columnSpecs[column].value(line)));
+    const unitPriceIndex = columnIndex('unitPrice');
+    const lineTotalIndex = columnIndex('lineTotal');
+    const moneyIndexes = indexesOf('unitPrice', 'lineTotal');
     drawTable(headers, rows, colWidths, {
-      rightAlignColumns: [4, 5],
-      centerAlignColumns: [0, 3],
-      noWrapColumns: [0, 2, 3, 4, 5],
-      rightPaddingByColumn: { 4: 3.8, 5: 3.8 },
-      fontWeightByColumn: { 4: 'normal', 5: 'bold' },
-      charSpaceByColumn: { 4: -0.06, 5: -0.06 },
+      rightAlignColumns: moneyIndexes,
+      centerAlignColumns: indexesOf('item', 'quantity'),
+      noWrapColumns: indexesOf('item', 'specification', 'quantity', 'unitPrice', 'lineTotal'),
+      rightPaddingByColumn: Object.fromEntries(moneyIndexes.map((index) => [index, 3.8])),
+      fontWeightByColumn: {
+        ...(unitPriceIndex >= 0 ? { [unitPriceIndex]: 'normal' as const } : {}),
+        ...(lineTotalIndex >= 0 ? { [lineTotalIndex]: 'bold' as const } : {}),
+      },
+      charSpaceByColumn: Object.fromEntries(moneyIndexes.map((index) => [index, -0.06])),
       minRowHeight: 14.8,
       cellPaddingX: 3.704,
       borderColor: '#D1D5DB',
@@ -1458,14 +1436,40 @@ export const generateClientOfferPDF = async (
     y += cardH + PDF_SPACE.block;
   }
 
+  const clauses = config.clauses ?? [];
+  if (config.sectionVisibility.clauses && clauses.length) {
+    drawSectionTitle(String(t.clientOffer.clausesTitle), lineHeightMm(PDF_TYPE.body) * 2);
+    clauses.forEach((clause, index) => {
+      if (clause.title) {
+        const lh = lineHeightMm(PDF_TYPE.body);
+        pdf.setFontSize(PDF_TYPE.body);
+        setFont('bold');
+        const titleLines = pdf.splitTextToSize(`${index + 1}. ${fillPlaceholders(clause.title)}`, contentWidth) as string[];
+        // Keeps the title with the first line of its text.
+        ensureSpace(lh * (titleLines.length + 1) + 0.8);
+        pdf.setFontSize(PDF_TYPE.body);
+        setFont('bold');
+        pdf.setTextColor(...rgb(PDF_COLOR.ink));
+        for (const line of titleLines) {
+          pdf.text(line, margin, y);
+          y += lh;
+        }
+        pdf.setTextColor(0, 0, 0);
+        setFont('normal');
+        y += 0.6;
+      }
+      drawParagraph(fillPlaceholders(clause.body), PDF_TYPE.table);
+    });
+  }
+
+  if (config.closingText) {
+    y += PDF_SPACE.block;
+    drawParagraph(fillPlaceholders(config.closingText));
+  }
+
   if (config.sectionVisibility.appendix && selectedAttachments.length) {
     const drawImageFit = async (dataUrl: string) => {
-      const image = await new Promise<{ width: number; height: number }>((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => resolve({ width: img.width, height: img.height });
-        img.onerror = reject;
-        img.src = dataUrl;
-      });
+      const image = await platform.measureImage(dataUrl);
 
       const availableWidth = pageWidth - margin * 2;
       const availableHeight = contentBottomY - y;
@@ -1480,8 +1484,11 @@ export const generateClientOfferPDF = async (
 
     for (let index = 0; index < selectedAttachments.length; index += 1) {
       const entry = selectedAttachments[index];
-      const preview = await attachmentToPreview(entry.attachment, t);
+      const preview = await attachmentToPreview(entry.attachment, t, platform);
       if (preview.kind === 'image' && preview.dataUrls?.length) {
+        const image = await platform.measureImage(preview.dataUrls[0]).catch(() => null);
+        // Images the platform cannot place (e.g. WebP when rendered by the API) are left out.
+        if (!image) continue;
         addPage();
         drawSectionTitle(`${String(t.clientOffer.appendixTitle)} A.${index + 1}`);
         drawParagraph(`${sourceLabelForPdf(entry.source, t)} - ${String(entry.attachment.filename || '-')}`, 9);
@@ -1531,5 +1538,7 @@ export const generateClientOfferPDF = async (
 
   const safeOfferNumber = sanitizeFileToken(String(config.offerNumber || request.id || 'offer'), 'offer');
   const safeClientName = sanitizeFileToken(String(config.recipientName || request.clientName || 'client'), 'client');
-  pdf.save(`${safeOfferNumber}_${safeClientName}.pdf`);
+  const filename = `${safeOfferNumber}_${safeClientName}.pdf`;
+  // Issued revisions keep a copy of the exact file that was downloaded.
+  return finishPdf(pdf, filename, outputOptions);
 };
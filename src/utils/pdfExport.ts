@@ -1,62 +1,22 @@
-import jsPDF from 'jspdf';
+import { jsPDF } from 'jspdf';
 import { Attachment, CustomerRequest, RequestProduct, STATUS_CONFIG, AXLE_LOCATIONS, ARTICULATION_TYPES, CONFIGURATION_TYPES, STANDARD_STUDS_PCD_OPTIONS } from '@/types';
 import { format } from 'date-fns';
 import { enUS, fr, zhCN } from 'date-fns/locale';
 import { translations, Language } from '@/i18n/translations';
 import { filterLifecycleHistory } from '@/lib/historyLifecycle';
+import {
+  CHINESE_FONT_NAME,
+  PdfOutput,
+  PdfOutputOptions,
+  browserPdfPlatform,
+  bytesToBase64,
+  finishPdf,
+  loadChineseFont,
+} from '@/utils/pdfPlatform';
 
 const MONROC_RED = '#FA0000';
 const TEXT_GREY = '#4B5563';
 const LOGO_URL = '/monroc-logo.png';
-const CHINESE_FONT_FILE = '/fonts/simhei.ttf';
-const CHINESE_FONT_NAME = 'simhei';
-
-let chineseFontLoaded = false;
-
-const arrayBufferToBase64 = (buffer: ArrayBuffer) =>
-  new Promise<string>((resolve, reject) => {
-    // Avoid huge String.fromCharCode spreads and btoa() limits for large TTFs.
-    const reader = new FileReader();
-    reader.onerror = () => reject(reader.error ?? new Error('Failed to read font'));
-    reader.onload = () => {
-      const result = String(reader.result || '');
-      const comma = result.indexOf(',');
-      if (!result.startsWith('data:') || comma === -1) {
-        reject(new Error('Unexpected font data URL'));
-        return;
-      }
-      resolve(result.slice(comma + 1));
-    };
-    reader.readAsDataURL(new Blob([buffer], { type: 'font/ttf' }));
-  });
-
-const loadChineseFont = async (pdf: jsPDF) => {
-  if (chineseFontLoaded) return true;
-  try {
-    const response = await fetch(CHINESE_FONT_FILE);
-    if (!response.ok) {
-      return false;
-    }
-    const fontData = await response.arrayBuffer();
-    const fontBase64 = await arrayBufferToBase64(fontData);
-    pdf.addFileToVFS('simhei.ttf', fontBase64);
-    pdf.addFont('simhei.ttf', CHINESE_FONT_NAME, 'normal');
-    chineseFontLoaded = true;
-    return true;
-  } catch (error) {
-    console.warn('Could not load Chinese PDF font:', error);
-    return false;
-  }
-};
-
-const getPdfLanguage = (): Language => {
-  try {
-    const stored = localStorage.getItem('monroc_language');
-    return stored === 'fr' || stored === 'zh' ? stored : 'en';
-  } catch {
-    return 'en';
-  }
-};
 
 const getPdfLocale = (language: Language) => {
   switch (language) {
@@ -114,23 +74,6 @@ const getProductTypeLabel = (
   return parts.length > 0 ? parts.join(' / ') : '';
 };
 
-const loadImageAsBase64 = (url: string): Promise<{ dataUrl: string; width: number; height: number }> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'Anonymous';
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      canvas.width = img.width;
-      canvas.height = img.height;
-      const ctx = canvas.getContext('2d');
-      ctx?.drawImage(img, 0, 0);
-      resolve({ dataUrl: canvas.toDataURL('image/png'), width: img.width, height: img.height });
-    };
-    img.onerror = reject;
-    img.src = url;
-  });
-};
-
 const hexToRgb = (hex: string) => {
   const clean = hex.replace('#', '');
   const value = parseInt(clean, 16);
@@ -195,10 +138,15 @@ const formatStudsPcdSelection = (selection: string): string => {
   attachments: Array.isArray(request.attachments) ? request.attachments : [],
 });
 
-export const generateRequestPDF = async (request: CustomerRequest, languageOverride?: Language): Promise<void> => {
+export const generateRequestPDF = async (
+  request: CustomerRequest,
+  languageOverride?: Language,
+  outputOptions?: PdfOutputOptions
+): Promise<PdfOutput> => {
+  const platform = outputOptions?.platform ?? browserPdfPlatform;
   const pdf = new jsPDF("p", "mm", "a4");
-  const language = languageOverride ?? getPdfLanguage();
-  const useChineseFont = language === "zh" ? await loadChineseFont(pdf) : false;
+  const language = languageOverride ?? platform.defaultLanguage();
+  const useChineseFont = language === "zh" ? await loadChineseFont(pdf, platform) : false;
   const issuedAt = new Date();
 
   const setFont = (weight: "normal" | "bold") => {
@@ -377,14 +325,6 @@ export const generateRequestPDF = async (request: CustomerRequest, languageOverr
     return u && !u.startsWith("data:") && !u.startsWith("http://") && !u.startsWith("https://") && !u.startsWith("/");
   };
 
-  const loadImageDimensions = (src: string): Promise<{ width: number; height: number }> =>
-    new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => resolve({ width: img.width, height: img.height });
-      img.onerror = reject;
-      img.src = src;
-    });
-
   const drawAppendixAttachmentHeader = (title: string, extra?: string) => {
     pdf.setFontSize(12);
     setFont("bold");
@@ -405,7 +345,7 @@ export const generateRequestPDF = async (request: CustomerRequest, languageOverr
   };
 
   const drawImageFit = async (dataUrl: string) => {
-    const dims = await loadImageDimensions(dataUrl);
+    const dims = await platform.measureImage(dataUrl);
     const availW = pageWidth - margin * 2;
     const availH = pageHeight - bottomMargin - y;
     const scale = Math.min(availW / dims.width, availH / dims.height);
@@ -417,33 +357,6 @@ export const generateRequestPDF = async (request: CustomerRequest, languageOverr
     y += hMm + 6;
   };
 
-  const renderPdfBytesToImages = async (bytes: Uint8Array, maxPages: number): Promise<string[]> => {
-    // Dynamic import to avoid loading PDF.js unless needed.
-    const pdfjs: any = await import("pdfjs-dist");
-    try {
-      // Vite-friendly worker URL
-      pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
-    } catch {}
-
-    const loadingTask = pdfjs.getDocument({ data: bytes });
-    const doc = await loadingTask.promise;
-    const pageCount = Math.min(doc.numPages || 0, maxPages);
-    const out: string[] = [];
-
-    for (let p = 1; p <= pageCount; p++) {
-      const page = await doc.getPage(p);
-      const viewport = page.getViewport({ scale: 1.6 });
-      const canvas = document.createElement("canvas");
-      const ctx = canvas.getContext("2d");
-      if (!ctx) throw new Error("No canvas context");
-      canvas.width = Math.ceil(viewport.width);
-      canvas.height = Math.ceil(viewport.height);
-      await page.render({ canvasContext: ctx, viewport }).promise;
-      out.push(canvas.toDataURL("image/jpeg", 0.92));
-    }
-    return out;
-  };
-
   const attachmentToPreview = async (att: Attachment): Promise<{ kind: "image" | "pdf" | "none"; dataUrls?: string[]; note?: string }> => {
     const url = String(att?.url ?? "");
     if (!url) return { kind: "none" };
@@ -458,7 +371,7 @@ export const generateRequestPDF = async (request: CustomerRequest, languageOverr
       if (mime === "application/pdf") {
         if (!parsed.isBase64) return { kind: "none", note: "PDF preview not available (not base64)." };
         const bytes = decodeBase64ToBytes(parsed.body);
-        const imgs = await renderPdfBytesToImages(bytes, 10);
+        const imgs = await platform.renderPdfPages(bytes, 10);
         return { kind: "pdf", dataUrls: imgs };
       }
     }
@@ -471,7 +384,7 @@ export const generateRequestPDF = async (request: CustomerRequest, languageOverr
       }
       if (mime === "application/pdf") {
         const bytes = decodeBase64ToBytes(url);
-        const imgs = await renderPdfBytesToImages(bytes, 10);
+        const imgs = await platform.renderPdfPages(bytes, 10);
         return { kind: "pdf", dataUrls: imgs };
       }
       return { kind: "none", note: String(t.request.previewNotAvailable ?? "Preview not available for this file type.") };
@@ -479,20 +392,18 @@ export const generateRequestPDF = async (request: CustomerRequest, languageOverr
 
     // remote/relative URL
     try {
-      const res = await fetch(url);
-      if (!res.ok) {
+      const res = await platform.fetchAttachment(url);
+      if (!res.bytes) {
         const tpl = String(t.pdf.attachmentFetchFailed ?? "Failed to fetch attachment ({status}).");
         return { kind: "none", note: tpl.replace("{status}", String(res.status)) };
       }
-      const ab = await res.arrayBuffer();
-      const bytes = new Uint8Array(ab);
-      const mime = String(res.headers.get("content-type") || "").toLowerCase() || sniffMimeFromBytes(bytes) || "";
+      const bytes = res.bytes;
+      const mime = res.contentType || sniffMimeFromBytes(bytes) || "";
       if (mime.startsWith("image/")) {
-        const b64 = await arrayBufferToBase64(ab);
-        return { kind: "image", dataUrls: [`data:${mime};base64,${b64}`] };
+        return { kind: "image", dataUrls: [`data:${mime};base64,${bytesToBase64(bytes)}`] };
       }
       if (mime.includes("pdf") || mime === "application/pdf") {
-        const imgs = await renderPdfBytesToImages(bytes, 10);
+        const imgs = await platform.renderPdfPages(bytes, 10);
         return { kind: "pdf", dataUrls: imgs };
       }
       return { kind: "none", note: String(t.request.previewNotAvailable ?? "Preview not available for this file type.") };
@@ -506,7 +417,7 @@ export const generateRequestPDF = async (request: CustomerRequest, languageOverr
 
   let cachedLogo: { dataUrl: string; width: number; height: number } | null = null;
   try {
-    cachedLogo = await loadImageAsBase64(LOGO_URL);
+    cachedLogo = await platform.loadImage(LOGO_URL);
   } catch {
     cachedLogo = null;
   }
@@ -1588,8 +1499,12 @@ export const generateRequestPDF = async (request: CustomerRequest, languageOverr
 
       const preview = await attachmentToPreview(it.attachment);
       if (preview.kind === "image" && preview.dataUrls?.length) {
-        await drawImageFit(preview.dataUrls[0]);
-        continue;
+        // Images the platform cannot place (e.g. WebP when rendered by the API) get the note below instead.
+        const placed = await drawImageFit(preview.dataUrls[0]).then(
+          () => true,
+          () => false
+        );
+        if (placed) continue;
       }
       if (preview.kind === "pdf" && preview.dataUrls?.length) {
         for (let p = 0; p < preview.dataUrls.length; p++) {
@@ -1637,5 +1552,5 @@ export const generateRequestPDF = async (request: CustomerRequest, languageOverr
     pdf.text(footer, pageWidth / 2, pageHeight - 6, { align: "center" });
   }
 
-  pdf.save(`${request.id}_report.pdf`);
+  return finishPdf(pdf, `${request.id}_report.pdf`, outputOptions);
 };
@@ -0,0 +1,157 @@
+import { jsPDF } from 'jspdf';
+import { Language } from '@/i18n/translations';
+
+// The request report and the client offer are generated by the same code in the browser (download) and in the API
+// (`GET /api/requests/:id/pdf`, `GET /api/requests/:id/client-offer.pdf`). Everything that depends on the runtime
+// goes through a PdfPlatform; the Node implementation lives in server/pdfDocuments.js.
+
+export interface PdfImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface PdfFetchResult {
+  status: number;
+  contentType: string;
+  bytes: Uint8Array | null;
+}
+
+export interface PdfPlatform {
+  // Language used when the caller does not pass one.
+  defaultLanguage: () => Language;
+  // Static asset served by the app (e.g. '/fonts/simhei.ttf'), or null when it is not installed.
+  readAsset: (path: string) => Promise<Uint8Array | null>;
+  // Static image as a PNG/JPEG data URL.
+  loadImage: (path: string) => Promise<PdfImage>;
+  // Pixel size of a PNG/JPEG data URL; rejects when the image cannot be placed in the PDF.
+  measureImage: (dataUrl: string) => Promise<{ width: number; height: number }>;
+  // First pages of a PDF attachment as image data URLs. May return no page when rendering is not available.
+  renderPdfPages: (bytes: Uint8Array, maxPages: number) => Promise<string[]>;
+  // Attachment stored behind a URL (e.g. /api/attachments/:id).
+  fetchAttachment: (url: string) => Promise<PdfFetchResult>;
+}
+
+export interface PdfOutputOptions {
+  platform?: PdfPlatform;
+  // Starts the browser download. Defaults to true.
+  download?: boolean;
+  keepBytes?: boolean;
+}
+
+export interface PdfOutput {
+  filename: string;
+  bytes: Uint8Array | null;
+}
+
+export const CHINESE_FONT_FILE = '/fonts/simhei.ttf';
+export const CHINESE_FONT_NAME = 'simhei';
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  // Chunked to avoid huge String.fromCharCode spreads on large TTFs.
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+  }
+  return btoa(binary);
+};
+
+let chineseFontBase64: string | null = null;
+
+// Registers the CJK font on this document; returns false when the font file is not installed.
+export const loadChineseFont = async (pdf: jsPDF, platform: PdfPlatform) => {
+  try {
+    if (!chineseFontBase64) {
+      const bytes = await platform.readAsset(CHINESE_FONT_FILE);
+      if (!bytes) return false;
+      chineseFontBase64 = bytesToBase64(bytes);
+    }
+    pdf.addFileToVFS('simhei.ttf', chineseFontBase64);
+    pdf.addFont('simhei.ttf', CHINESE_FONT_NAME, 'normal');
+    return true;
+  } catch (error) {
+    console.warn('Could not load Chinese PDF font:', error);
+    return false;
+  }
+};
+
+export const finishPdf = (pdf: jsPDF, filename: string, options?: PdfOutputOptions): PdfOutput => {
+  if (options?.download !== false) pdf.save(filename);
+  return {
+    filename,
+    bytes: options?.keepBytes ? new Uint8Array(pdf.output('arraybuffer')) : null,
+  };
+};
+
+const loadBrowserImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'Anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+
+export const browserPdfPlatform: PdfPlatform = {
+  defaultLanguage: () => {
+    try {
+      const stored = localStorage.getItem('monroc_language');
+      return stored === 'fr' || stored === 'zh' ? stored : 'en';
+    } catch {
+      return 'en';
+    }
+  },
+  readAsset: async (path) => {
+    const response = await fetch(path);
+    if (!response.ok) return null;
+    return new Uint8Array(await response.arrayBuffer());
+  },
+  loadImage: async (path) => {
+    const img = await loadBrowserImage(path);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d');
+    ctx?.drawImage(img, 0, 0);
+    return { dataUrl: canvas.toDataURL('image/png'), width: img.width, height: img.height };
+  },
+  measureImage: async (dataUrl) => {
+    const img = await loadBrowserImage(dataUrl);
+    return { width: img.width, height: img.height };
+  },
+  renderPdfPages: async (bytes, maxPages) => {
+    // Dynamic import to avoid loading PDF.js unless needed.
+    const pdfjs: any = await import('pdfjs-dist');
+    try {
+      pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+    } catch {
+      // Without a worker URL PDF.js renders on the main thread.
+    }
+
+    const loadingTask = pdfjs.getDocument({ data: bytes });
+    const doc = await loadingTask.promise;
+    const pageCount = Math.min(doc.numPages || 0, maxPages);
+    const out: string[] = [];
+    for (let pageIndex = 1; pageIndex <= pageCount; pageIndex += 1) {
+      const page = await doc.getPage(pageIndex);
+      const viewport = page.getViewport({ scale: 1.6 });
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new Error('No canvas context');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      out.push(canvas.toDataURL('image/jpeg', 0.92));
+    }
+    return out;
+  },
+  fetchAttachment: async (url) => {
+    const response = await fetch(url);
+    return {
+      status: response.status,
+      contentType: String(response.headers.get('content-type') || '').toLowerCase(),
+      bytes: response.ok ? new Uint8Array(await response.arrayBuffer()) : null,
+    };
+  },
+};
@@ -0,0 +1,4 @@
+// Entry of the server-side PDF bundle (vite.pdf.config.ts -> dist-ssr/pdfDocuments.js), loaded by
+// server/pdfDocuments.js so the API renders the same documents as the browser.
+export { generateRequestPDF } from '@/utils/pdfExport';
+export { generateClientOfferPDF } from '@/utils/clientOfferPdf';
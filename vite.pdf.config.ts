@@ -0,0 +1,24 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// Node build of the PDF generators (src/utils/pdfServerEntry.ts) for the API. Dependencies such as jspdf and
+// date-fns stay external and resolve to their Node builds at runtime.
+export default defineConfig({
+  publicDir: false,
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  build: {
+    ssr: "src/utils/pdfServerEntry.ts",
+    outDir: "dist-ssr",
+    emptyOutDir: true,
+    target: "node20",
+    rollupOptions: {
+      output: {
+        entryFileNames: "pdfDocuments.js",
+      },
+    },
+  },
+});